@@ -19,9 +19,14 @@ const Users = lazy(() => import('@/pages/Users'));
 const Settings = lazy(() => import('@/pages/Settings'));
 const Login = lazy(() => import('@/pages/Login'));
 const Register = lazy(() => import('@/pages/Register'));
+const ResetPassword = lazy(() => import('@/pages/ResetPassword'));
+const AcceptInvitation = lazy(() => import('@/pages/AcceptInvitation'));
 const PageBuilderEditor = lazy(() => import('@/pages/PageBuilderEditor'));
 const Templates = lazy(() => import('@/pages/Templates'));
+const Patterns = lazy(() => import('@/pages/Patterns'));
+const SiteStyles = lazy(() => import('@/pages/SiteStyles'));
 const Plugins = lazy(() => import('@/pages/Plugins'));
+const Webhooks = lazy(() => import('@/pages/Webhooks'));
 const PreviewPage = lazy(() => import('@/pages/PreviewPage'));
 const Setup = lazy(() => import('@/pages/Setup'));
 
@@ -80,6 +85,8 @@ function Router() {
       {/* Auth routes - always available */}
       <Route path="/admin/login" component={Login} />
       <Route path="/admin/register" component={Register} />
+      <Route path="/admin/reset-password" component={ResetPassword} />
+      <Route path="/admin/accept-invitation" component={AcceptInvitation} />
 
       {/* Preview routes - available to everyone */}
       <Route
@@ -136,15 +143,24 @@ function Router() {
           <Route path="/admin/comments" component={Comments} />
           <Route path="/admin/themes" component={Themes} />
           <Route path="/admin/templates" component={Templates} />
+          <Route path="/admin/patterns" component={Patterns} />
+          <Route path="/admin/site-styles" component={SiteStyles} />
           <Route path="/admin/plugins" component={Plugins} />
           <Route path="/admin/users" component={Users} />
           <Route path="/admin/settings" component={Settings} />
+          <Route path="/admin/webhooks" component={Webhooks} />
           <Route
             path="/admin/page-builder/template/:id"
             component={({ params }: any) => (
               <PageBuilderEditor postId={params.id} type="template" />
             )}
           />
+          <Route
+            path="/admin/page-builder/pattern/:id"
+            component={({ params }: any) => (
+              <PageBuilderEditor postId={params.id} type="pattern" />
+            )}
+          />
           <Route
             path="/admin/page-builder/:type/:id"
             component={({ params }: any) => {
@@ -7,8 +7,11 @@ import {
   MessageCircle, 
   Paintbrush, 
   Layout,
+  Repeat2,
+  Palette,
   Plug, 
   Users, 
+  Webhook,
   Cog 
 } from "lucide-react";
 
@@ -27,9 +30,12 @@ const menuItems: MenuItem[] = [
   { label: "Comments", path: "/admin/comments", icon: MessageCircle, section: "Content" },
   { label: "Themes", path: "/admin/themes", icon: Paintbrush, section: "Appearance" },
   { label: "Templates", path: "/admin/templates", icon: Layout, section: "Appearance" },
+  { label: "Patterns", path: "/admin/patterns", icon: Repeat2, section: "Appearance" },
+  { label: "Site Styles", path: "/admin/site-styles", icon: Palette, section: "Appearance" },
   { label: "Plugins", path: "/admin/plugins", icon: Plug, section: "System" },
   { label: "Users", path: "/admin/users", icon: Users, section: "System" },
   { label: "Settings", path: "/admin/settings", icon: Cog, section: "System" },
+  { label: "Webhooks", path: "/admin/webhooks", icon: Webhook, section: "System" },
 ];
 
 export default function AdminSidebar() {
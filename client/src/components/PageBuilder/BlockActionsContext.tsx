@@ -1,4 +1,7 @@
 import React, { createContext, useContext } from 'react';
+import type { Collaborator } from '@shared/collaboration';
+import type { BlockConfig } from '@shared/schema-types';
+import type { DeviceBreakpoint } from '@shared/breakpoints';
 
 export type HoverHighlight = 'padding' | 'margin' | null;
 
@@ -7,7 +10,13 @@ export interface BlockActionsContextValue {
   onSelect: (id: string) => void;
   onDuplicate: (id: string) => void;
   onDelete: (id: string) => void;
+  /** Puts other blocks in a block's place, e.g. a detached pattern's copies */
+  onReplace?: (id: string, blocks: BlockConfig[]) => void;
   hoverHighlight: HoverHighlight;
+  /** Blocks selected by other editors of the page, keyed by block ID */
+  lockedBlocks?: Record<string, Collaborator>;
+  /** Device the canvas previews; its breakpoint overrides and visibility apply */
+  deviceView?: DeviceBreakpoint;
 }
 
 const BlockActionsContext = createContext<BlockActionsContextValue | null>(null);
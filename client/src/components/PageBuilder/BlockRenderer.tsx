@@ -1,11 +1,11 @@
 import React, { useState, isValidElement, ReactNode } from 'react';
 import { Button } from '@/components/ui/button';
-import { Copy, Trash2, GripVertical } from 'lucide-react';
+import { Copy, Trash2, GripVertical, Lock, EyeOff } from 'lucide-react';
 import type { BlockConfig } from '@shared/schema-types';
 import { blockRegistry } from './blocks';
 import { Droppable, Draggable } from '@/lib/dnd';
 import { useBlockActions } from './BlockActionsContext';
-import { resolveTokenMap, generateBlockModifierCSS } from '@/lib/tailwind-tokens';
+import { resolveTokenMap, generateBlockModifierCSS, resolveDevicePreview } from '@/lib/tailwind-tokens';
 import { generateBlockAnimationCSS } from '@/lib/animation-presets';
 
 /**
@@ -198,6 +198,9 @@ export default function BlockRenderer({
   const [isHovered, setIsHovered] = useState(false);
   const actions = useBlockActions();
   const effectiveSelected = isSelected || actions?.selectedBlockId === block.id;
+  const lockedBy = isPreview ? undefined : actions?.lockedBlocks?.[block.id];
+  const deviceView = actions?.deviceView ?? 'desktop';
+  const hiddenOnDevice = !!block.other?.hideOn?.includes(deviceView);
   const effectiveHoverHighlight = effectiveSelected
     ? (hoverHighlight ?? actions?.hoverHighlight ?? null)
     : null;
@@ -243,10 +246,16 @@ export default function BlockRenderer({
     ? resolveTokenMap(block.other.tokenMap, block.other?.units || {})
     : null;
 
+  // Overrides for the previewed device are applied inline
+  const devicePreview = tokenResolution
+    ? resolveDevicePreview(tokenResolution.modifierEntries, deviceView)
+    : null;
+
   // Merge styles: tokenMap resolved styles take priority over block.styles
   const mergedStyles: React.CSSProperties = {
     ...block.styles,
     ...(tokenResolution?.style || {}),
+    ...(devicePreview?.style || {}),
   };
 
   // Create a patched block with token-resolved styles for the component
@@ -256,8 +265,8 @@ export default function BlockRenderer({
   };
 
   // Generate modifier CSS (hover states, responsive) from token system
-  const modifierCSS = tokenResolution?.modifierEntries?.length
-    ? generateBlockModifierCSS(block.id, tokenResolution.modifierEntries)
+  const modifierCSS = devicePreview?.modifierEntries?.length
+    ? generateBlockModifierCSS(block.id, devicePreview.modifierEntries)
     : "";
 
   // Generate animation CSS (hover/loop animations)
@@ -311,6 +320,8 @@ export default function BlockRenderer({
   const childrenHandledInRenderer =
     !!def?.handlesOwnChildren || containsContainerChildren(contentEl);
 
+  if (isPreview && hiddenOnDevice) return null;
+
   return (
     <div
       className="relative group"
@@ -324,8 +335,26 @@ export default function BlockRenderer({
       }}>
       {!isPreview && (
         <>
+          {/* Another editor has this block selected */}
+          {lockedBy && (
+            <div
+              className="absolute top-0 right-0 z-20 flex items-center gap-1 rounded-bl px-2 py-0.5 text-xs text-white"
+              style={{ background: lockedBy.color }}
+              data-testid={`lock-${block.id}`}>
+              <Lock className="w-3 h-3" />
+              {`Being edited by ${lockedBy.name}`}
+            </div>
+          )}
+          {hiddenOnDevice && (
+            <div
+              className="absolute bottom-0 left-0 z-20 flex items-center gap-1 rounded-tr bg-gray-700 px-2 py-0.5 text-xs text-white"
+              data-testid={`hidden-${block.id}`}>
+              <EyeOff className="w-3 h-3" />
+              {`Hidden on ${deviceView}`}
+            </div>
+          )}
           {/* Toolbar visible when hovered or selected */}
-          {(effectiveSelected || isHovered) && (
+          {(effectiveSelected || isHovered) && !lockedBy && (
             <div className="absolute top-0 left-0 right-0 z-20 flex items-center gap-1 bg-white/90 border-b border-gray-200 rounded-t backdrop-blur-sm shadow-sm p-1">
               <span className="text-xs text-gray-600 px-2">
                 {blockRegistry[block.name]?.label || block.name}
@@ -369,13 +398,14 @@ export default function BlockRenderer({
       )}
 
         <div
-          className={`${!isPreview ? 'cursor-pointer' : ''} transition-all duration-200`}>
+          className={`${!isPreview ? 'cursor-pointer' : ''} ${hiddenOnDevice ? 'opacity-40' : ''} transition-all duration-200`}>
           <div
             className={`block-${block.id} ${!isPreview && effectiveSelected ? 'block-ring-fade' : ''} ${!isPreview && isHovered && !effectiveSelected ? 'ring-1 ring-gray-300' : ''} relative`}
             style={{
               width: '100%',
               minWidth: 0,
               boxSizing: 'border-box',
+              ...(lockedBy ? { outline: `2px solid ${lockedBy.color}`, outlineOffset: -2 } : {}),
             }}>
           {!isPreview && effectiveHoverHighlight === 'padding' && (
             <>
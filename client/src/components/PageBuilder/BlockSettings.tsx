@@ -1,10 +1,11 @@
-import { useState } from "react";
+import { useState, type CSSProperties } from "react";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { CollapsibleCard } from "@/components/ui/collapsible-card";
@@ -35,7 +36,11 @@ import {
   Grid3X3,
   Minus,
   Settings,
-  Sparkles
+  Sparkles,
+  Monitor,
+  Tablet,
+  Smartphone,
+  EyeOff
 } from "lucide-react";
 import type { BlockConfig, DisplayCondition } from "@shared/schema-types";
 import { blockRegistry } from "./blocks";
@@ -45,8 +50,11 @@ import { getBlockStateAccessor } from "./blocks/blockStateRegistry";
 import TokenColorPicker from "./TokenColorPicker"
 import TokenSpacingPicker from "./TokenSpacingPicker"
 import AnimationPicker from "./AnimationPicker"
-import { propertyAliasMap, propertyUnitCategoryMap, unitCategories } from "@/lib/tailwind-tokens"
+import { propertyAliasMap, propertyUnitCategoryMap, unitCategories, resolveTokenMap, resolveDevicePreview } from "@/lib/tailwind-tokens"
 import type { TokenEntry, BlockAnimation } from "@shared/schema-types"
+import { DEVICE_BREAKPOINTS, tokenMapKey, type DeviceBreakpoint } from "@shared/breakpoints"
+import { BLOCK_REFERENCE } from "@shared/block-references"
+import { SaveAsPatternCard } from "./SaveAsPatternCard"
 
 /** Font options matching PageSettings — same fonts available at block level */
 const FONT_OPTIONS = [
@@ -63,15 +71,46 @@ const FONT_OPTIONS = [
   { value: 'Montserrat, sans-serif', label: 'Montserrat' },
 ] as const;
 
+const BREAKPOINT_OPTIONS: { value: DeviceBreakpoint; label: string; icon: typeof Monitor }[] = [
+  { value: 'desktop', label: 'Desktop', icon: Monitor },
+  { value: 'tablet', label: 'Tablet', icon: Tablet },
+  { value: 'mobile', label: 'Mobile', icon: Smartphone },
+];
+
 interface BlockSettingsProps {
   block: BlockConfig;
   onUpdate: (updates: Partial<BlockConfig>) => void;
   onHoverArea?: (area: 'padding' | 'margin' | null) => void;
+  /** Style controls edit overrides for this breakpoint; desktop edits the base styles */
+  breakpoint?: DeviceBreakpoint;
+  onBreakpointChange?: (breakpoint: DeviceBreakpoint) => void;
 }
 
-export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSettingsProps) {
+export default function BlockSettings({
+  block,
+  onUpdate,
+  onHoverArea,
+  breakpoint = 'desktop',
+  onBreakpointChange,
+}: BlockSettingsProps) {
   const [customCss, setCustomCss] = useState(block.customCss || '');
   const accessor = getBlockStateAccessor(block.id);
+  const overriding = breakpoint !== 'desktop';
+
+  // Styles as they apply at the breakpoint being edited, so controls show inherited values
+  const styles: CSSProperties | undefined = overriding
+    ? {
+        ...block.styles,
+        ...resolveDevicePreview(
+          resolveTokenMap(block.other?.tokenMap || {}, block.other?.units || {}).modifierEntries,
+          breakpoint,
+        ).style,
+      }
+    : block.styles;
+
+  const overrideKeys = Object.keys(block.other?.tokenMap || {}).filter(
+    (key) => block.other?.tokenMap?.[key]?.modifier === breakpoint,
+  );
 
   // Display conditions from block settings
   const displayConditions: DisplayCondition[] =
@@ -99,6 +138,25 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
   };
 
   const updateStyles = (styleUpdates: any) => {
+    if (overriding) {
+      // Breakpoint overrides live in the tokenMap as raw values; clearing a control removes the override
+      const overrides: Record<string, TokenEntry | null> = {}
+      for (const [property, value] of Object.entries(styleUpdates)) {
+        overrides[tokenMapKey(property, breakpoint)] =
+          value === undefined || value === null || value === ''
+            ? null
+            : {
+                property,
+                value: '',
+                variant: null,
+                alias: propertyAliasMap[property] ?? property,
+                modifier: breakpoint,
+                style: String(value),
+              }
+      }
+      updateTokenMap(overrides)
+      return
+    }
     if (accessor) {
       const current = accessor.getStyles() || {};
       accessor.setStyles({
@@ -138,11 +196,18 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
   };
 
   // Token system helpers
+  // At a breakpoint, pickers start from the inherited entry until it is overridden
   const getTokenEntry = (property: string): TokenEntry | undefined => {
-    return block.other?.tokenMap?.[property]
+    const tokenMap = block.other?.tokenMap
+    if (overriding) {
+      const override = tokenMap?.[tokenMapKey(property, breakpoint)]
+        ?? (breakpoint === 'mobile' ? tokenMap?.[tokenMapKey(property, 'tablet')] : undefined)
+      if (override) return override
+    }
+    return tokenMap?.[property] ?? undefined
   }
 
-  const updateTokenEntry = (entry: TokenEntry) => {
+  const updateTokenMap = (entries: Record<string, TokenEntry | null>) => {
     const currentOther = block.other || {}
     const currentTokenMap = currentOther.tokenMap || {}
     onUpdate({
@@ -150,12 +215,35 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
         ...currentOther,
         tokenMap: {
           ...currentTokenMap,
-          [entry.property]: entry,
+          ...entries,
         },
       },
     })
   }
 
+  const updateTokenEntry = (entry: TokenEntry) => {
+    if (overriding) {
+      updateTokenMap({ [tokenMapKey(entry.property, breakpoint)]: { ...entry, modifier: breakpoint } })
+    } else {
+      updateTokenMap({ [entry.property]: entry })
+    }
+  }
+
+  const clearBreakpointOverrides = () => {
+    updateTokenMap(Object.fromEntries(overrideKeys.map((key) => [key, null])))
+  }
+
+  const toggleHiddenOn = (device: DeviceBreakpoint, hidden: boolean) => {
+    const current = block.other?.hideOn || []
+    const next = hidden ? [...current.filter((d) => d !== device), device] : current.filter((d) => d !== device)
+    onUpdate({
+      other: {
+        ...(block.other || {}),
+        hideOn: next.length > 0 ? next : null,
+      },
+    })
+  }
+
   const getUnits = (): Record<string, string> => {
     return block.other?.units || { spacing: "px", font: "rem", dimension: "px", border: "px" }
   }
@@ -203,7 +291,7 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
 
   // Get individual spacing values with fallbacks
   const getPaddingValues = () => {
-    const padding = block.styles?.padding;
+    const padding = styles?.padding;
     if (padding) {
       const paddingStr = typeof padding === 'string' ? padding : String(padding);
       const values = paddingStr.split(' ').map((v: string) => v.trim());
@@ -212,15 +300,15 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
       if (values.length === 4) return { top: values[0], right: values[1], bottom: values[2], left: values[3] };
     }
     return {
-      top: String(block.styles?.paddingTop || '0px'),
-      right: String(block.styles?.paddingRight || '0px'),
-      bottom: String(block.styles?.paddingBottom || '0px'),
-      left: String(block.styles?.paddingLeft || '0px'),
+      top: String(styles?.paddingTop || '0px'),
+      right: String(styles?.paddingRight || '0px'),
+      bottom: String(styles?.paddingBottom || '0px'),
+      left: String(styles?.paddingLeft || '0px'),
     };
   };
 
   const getMarginValues = () => {
-    const margin = block.styles?.margin;
+    const margin = styles?.margin;
     if (margin) {
       const marginStr = typeof margin === 'string' ? margin : String(margin);
       const values = marginStr.split(' ').map((v: string) => v.trim());
@@ -229,10 +317,10 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
       if (values.length === 4) return { top: values[0], right: values[1], bottom: values[2], left: values[3] };
     }
     return {
-      top: String(block.styles?.marginTop || '0px'),
-      right: String(block.styles?.marginRight || '0px'),
-      bottom: String(block.styles?.marginBottom || '0px'),
-      left: String(block.styles?.marginLeft || '0px'),
+      top: String(styles?.marginTop || '0px'),
+      right: String(styles?.marginRight || '0px'),
+      bottom: String(styles?.marginBottom || '0px'),
+      left: String(styles?.marginLeft || '0px'),
     };
   };
 
@@ -324,6 +412,49 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
     const isColumnsBlock = block.name === "core/columns";
     return (
       <div className="space-y-6">
+        {/* Breakpoint being edited */}
+        <div className="space-y-2" data-testid="breakpoint-switcher">
+          <div className="grid grid-cols-3 gap-1">
+            {BREAKPOINT_OPTIONS.map(({ value, label, icon: Icon }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => onBreakpointChange?.(value)}
+                disabled={!onBreakpointChange}
+                className={`h-8 flex items-center justify-center gap-1 text-xs font-medium border rounded-none transition-all ${
+                  breakpoint === value
+                    ? "bg-gray-800 text-white border-gray-800"
+                    : "bg-white text-gray-700 border-gray-200 hover:bg-gray-50"
+                }`}
+                data-testid={`breakpoint-${value}`}
+              >
+                <Icon className="w-3 h-3" />
+                {label}
+              </button>
+            ))}
+          </div>
+          {overriding && (
+            <div className="flex items-center justify-between text-[11px] text-gray-500">
+              <span>
+                {overrideKeys.length > 0
+                  ? `${overrideKeys.length} ${breakpoint} override${overrideKeys.length === 1 ? '' : 's'}`
+                  : `Changes apply to ${breakpoint} only`}
+              </span>
+              {overrideKeys.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-[11px]"
+                  onClick={clearBreakpointOverrides}
+                  data-testid="clear-breakpoint-overrides"
+                >
+                  Reset to inherited
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+
         {/* Typography */}
         {["heading", "core/heading", "text", "core/paragraph", "button", "core/button"].includes(block.name) && (
           <CollapsibleCard title="Typography" icon={Type} defaultOpen={true}>
@@ -334,7 +465,7 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
                 Font Family
               </Label>
               <select
-                value={block.styles?.fontFamily || ''}
+                value={styles?.fontFamily || ''}
                 onChange={(e) => updateStyles({ fontFamily: e.target.value || undefined })}
                 className="mt-2 w-full h-9 px-3 text-sm border border-gray-200 rounded-none bg-white focus:outline-none focus:ring-2 focus:ring-gray-400 focus:border-gray-400"
               >
@@ -351,7 +482,7 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
                 Font Size
               </Label>
               <Input
-                value={block.styles?.fontSize || '16px'}
+                value={styles?.fontSize || '16px'}
                 onChange={(e) => updateStyles({ fontSize: e.target.value })}
                 placeholder="16px"
                 className="mt-2 h-9 text-sm border-gray-200 rounded-none focus:outline-none focus:ring-2 focus:ring-gray-400 focus:border-gray-400"
@@ -365,7 +496,7 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
                 Line Height
               </Label>
               <Input
-                value={block.styles?.lineHeight || '1.6'}
+                value={styles?.lineHeight || '1.6'}
                 onChange={(e) => updateStyles({ lineHeight: e.target.value })}
                 placeholder="1.6"
                 className="mt-2 h-9 text-sm border-gray-200 rounded-none focus:outline-none focus:ring-2 focus:ring-gray-400 focus:border-gray-400"
@@ -382,7 +513,7 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
                 { value: '500', label: 'Medium', icon: Square },
                 { value: 'bold', label: 'Bold', icon: Bold },
               ]}
-              value={String(block.styles?.fontWeight ?? 'normal')}
+              value={String(styles?.fontWeight ?? 'normal')}
               onChange={(value) => updateStyles({ fontWeight: String(value) })}
             />
 
@@ -396,7 +527,7 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
                 { value: 'right', label: 'Right', icon: AlignRight },
                 { value: 'justify', label: 'Justify', icon: AlignJustify },
               ]}
-              value={block.styles?.textAlign || 'left'}
+              value={styles?.textAlign || 'left'}
               onChange={(value) => updateStyles({ textAlign: value })}
             />
           </CollapsibleCard>
@@ -414,7 +545,7 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
               <TokenColorPicker
                 property="color"
                 currentEntry={getTokenEntry("color")}
-                currentStyleValue={block.styles?.color as string | undefined}
+                currentStyleValue={styles?.color as string | undefined}
                 onChange={updateTokenEntry}
               />
             </div>
@@ -430,7 +561,7 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
               <TokenColorPicker
                 property="backgroundColor"
                 currentEntry={getTokenEntry("backgroundColor")}
-                currentStyleValue={block.styles?.backgroundColor as string | undefined}
+                currentStyleValue={styles?.backgroundColor as string | undefined}
                 onChange={updateTokenEntry}
               />
             </div>
@@ -518,7 +649,7 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
                 </Label>
                 <select
                   className="h-7 px-2 text-xs border border-gray-200 rounded-none bg-white focus:outline-none focus:ring-1 focus:ring-gray-400"
-                  value={block.styles?.width ? (block.styles.width === '100%' ? 'Fill' : block.styles.width === 'fit-content' ? 'Fit' : block.styles.width === 'auto' ? 'Auto' : 'Custom') : 'Auto'}
+                  value={styles?.width ? (styles.width === '100%' ? 'Fill' : styles.width === 'fit-content' ? 'Fit' : styles.width === 'auto' ? 'Auto' : 'Custom') : 'Auto'}
                   onChange={(e) => {
                     const val = e.target.value;
                     if (val === 'Auto') updateStyles({ width: 'auto' });
@@ -533,7 +664,7 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
                 </select>
               </div>
               <Input
-                value={block.styles?.width || 'auto'}
+                value={styles?.width || 'auto'}
                 onChange={(e) => updateStyles({ width: e.target.value })}
                 placeholder="auto"
                 className="h-8 text-sm border-gray-200 rounded-none focus:outline-none focus:ring-1 focus:ring-gray-400"
@@ -549,7 +680,7 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
                 </Label>
               </div>
               <Input
-                value={block.styles?.maxWidth || ''}
+                value={styles?.maxWidth || ''}
                 onChange={(e) => updateStyles({ maxWidth: e.target.value || undefined })}
                 placeholder="none"
                 className="h-8 text-sm border-gray-200 rounded-none focus:outline-none focus:ring-1 focus:ring-gray-400"
@@ -574,13 +705,13 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
                       { value: 'grid', label: 'Grid' },
                       { value: 'inline', label: 'Inline' },
                     ]}
-                    value={block.styles?.display || 'block'}
+                    value={styles?.display || 'block'}
                     onChange={(value) => updateStyles({ display: value })}
                   />
                 </div>
 
                 {/* Flex Direction (if display is flex) */}
-                {(block.styles?.display === 'flex' || block.styles?.display === 'inline-flex') && (
+                {(styles?.display === 'flex' || styles?.display === 'inline-flex') && (
                   <div>
                     <Label className="text-sm font-semibold text-gray-800 mb-3 flex items-center gap-2">
                       <RotateCw className="w-3 h-3" />
@@ -594,14 +725,14 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
                         { value: 'row-reverse', label: 'Row Rev' },
                         { value: 'column-reverse', label: 'Col Rev' },
                       ]}
-                      value={block.styles?.flexDirection || 'row'}
+                      value={styles?.flexDirection || 'row'}
                       onChange={(value) => updateStyles({ flexDirection: value })}
                     />
                   </div>
                 )}
 
                 {/* Flex Wrap (if display is flex) */}
-                {(block.styles?.display === 'flex' || block.styles?.display === 'inline-flex') && (
+                {(styles?.display === 'flex' || styles?.display === 'inline-flex') && (
                   <div>
                     <Label className="text-sm font-semibold text-gray-800 mb-3 flex items-center gap-2">
                       <Rows className="w-3 h-3" />
@@ -614,7 +745,7 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
                         { value: 'wrap', label: 'Wrap' },
                         { value: 'wrap-reverse', label: 'Wrap Rev' },
                       ]}
-                      value={block.styles?.flexWrap || 'nowrap'}
+                      value={styles?.flexWrap || 'nowrap'}
                       onChange={(value) => updateStyles({ flexWrap: value })}
                     />
                   </div>
@@ -635,7 +766,7 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
                       { value: 'space-between', label: 'Between' },
                       { value: 'space-around', label: 'Around' },
                     ]}
-                    value={block.styles?.justifyContent || 'flex-start'}
+                    value={styles?.justifyContent || 'flex-start'}
                     onChange={(value) => updateStyles({ justifyContent: value })}
                   />
                 </div>
@@ -654,7 +785,7 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
                       { value: 'flex-end', label: 'End' },
                       { value: 'stretch', label: 'Stretch' },
                     ]}
-                    value={block.styles?.alignItems || 'flex-start'}
+                    value={styles?.alignItems || 'flex-start'}
                     onChange={(value) => updateStyles({ alignItems: value })}
                   />
                 </div>
@@ -667,7 +798,7 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
                     Gap
                   </Label>
                   <Input
-                    value={block.styles?.gap || ''}
+                    value={styles?.gap || ''}
                     onChange={(e) => updateStyles({ gap: e.target.value || undefined })}
                     placeholder="e.g. 16px, 1rem"
                     className="mt-2 h-8 text-sm border-gray-200 rounded-none focus:outline-none focus:ring-1 focus:ring-gray-400"
@@ -687,7 +818,7 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
                     </Label>
                   <select
                     className="h-7 px-2 text-xs border border-gray-200 rounded-none bg-white focus:outline-none focus:ring-1 focus:ring-gray-400"
-                    value={block.styles?.height ? (block.styles.height === 'auto' ? 'Auto' : block.styles.height === 'min-content' ? 'Min Content' : block.styles.height === 'max-content' ? 'Max Content' : 'Custom') : 'Auto'}
+                    value={styles?.height ? (styles.height === 'auto' ? 'Auto' : styles.height === 'min-content' ? 'Min Content' : styles.height === 'max-content' ? 'Max Content' : 'Custom') : 'Auto'}
                     onChange={(e) => {
                       const val = e.target.value;
                       if (val === 'Auto') updateStyles({ height: 'auto' });
@@ -702,7 +833,7 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
                   </select>
                 </div>
                 <Input
-                  value={block.styles?.height || 'auto'}
+                  value={styles?.height || 'auto'}
                   onChange={(e) => updateStyles({ height: e.target.value })}
                   placeholder="auto"
                   className="h-8 text-sm border-gray-200 rounded-none focus:outline-none focus:ring-1 focus:ring-gray-400"
@@ -725,7 +856,7 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
                     { value: 'auto', label: 'Auto' },
                     { value: 'scroll', label: 'Scroll' },
                   ]}
-                  value={block.styles?.overflow || 'visible'}
+                  value={styles?.overflow || 'visible'}
                   onChange={(value) => updateStyles({ overflow: value })}
                 />
               </div>
@@ -746,7 +877,7 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
                     { value: 'auto', label: 'Auto' },
                     { value: 'scroll', label: 'Scroll' },
                   ]}
-                  value={block.styles?.overflow || 'visible'}
+                  value={styles?.overflow || 'visible'}
                   onChange={(value) => updateStyles({ overflow: value })}
                 />
               </div>
@@ -762,7 +893,7 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
               Border
             </Label>
             <Input
-              value={block.styles?.border || 'none'}
+              value={styles?.border || 'none'}
               onChange={(e) => updateStyles({ border: e.target.value })}
               placeholder="1px solid #ccc"
               className="mt-2 h-9 text-sm border-gray-200 rounded-none focus:outline-none focus:ring-2 focus:ring-gray-400 focus:border-gray-400"
@@ -776,13 +907,29 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
               Border Radius
             </Label>
             <Input
-              value={block.styles?.borderRadius || '0px'}
+              value={styles?.borderRadius || '0px'}
               onChange={(e) => updateStyles({ borderRadius: e.target.value })}
               placeholder="4px"
               className="mt-2 h-9 text-sm border-gray-200 rounded-none focus:outline-none focus:ring-2 focus:ring-gray-400 focus:border-gray-400"
             />
           </div>
         </CollapsibleCard>
+
+        {/* Visibility per device */}
+        <CollapsibleCard title="Visibility" icon={EyeOff} defaultOpen={false}>
+          <div className="space-y-2">
+            {DEVICE_BREAKPOINTS.map((device) => (
+              <label key={device} className="flex items-center justify-between text-sm text-gray-700">
+                <span className="capitalize">Hide on {device}</span>
+                <Switch
+                  checked={!!block.other?.hideOn?.includes(device)}
+                  onCheckedChange={(checked) => toggleHiddenOn(device, checked)}
+                  data-testid={`hide-on-${device}`}
+                />
+              </label>
+            ))}
+          </div>
+        </CollapsibleCard>
       </div>
     );
   };
@@ -917,6 +1064,12 @@ export default function BlockSettings({ block, onUpdate, onHoverArea }: BlockSet
                 </div>
               </CollapsibleCard>
             </div>
+
+            {block.name !== BLOCK_REFERENCE && (
+              <div className="mt-4">
+                <SaveAsPatternCard block={block} />
+              </div>
+            )}
           </div>
         </TabsContent>
 
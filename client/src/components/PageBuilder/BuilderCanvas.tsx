@@ -5,6 +5,8 @@ import BlockRenderer from './BlockRenderer';
 import { Layers } from 'lucide-react';
 import { useBlockActions } from './BlockActionsContext';
 import type { BlockConfig } from "@shared/schema-types";
+import { globalStylesVariables } from "@shared/global-styles";
+import { useGlobalStyles } from '@/hooks/useGlobalStyles';
 
 export function BuilderCanvas({
   blocks,
@@ -26,10 +28,12 @@ export function BuilderCanvas({
   onBlockChange?: (updated: any) => void;
 }) {
   const actions = useBlockActions();
+  const { styles } = useGlobalStyles();
   return (
     <div className="flex-1 overflow-auto bg-gray-100 p-8 min-h-0">
       <DevicePreview device={deviceView}>
-        <div className="bg-white min-h-full shadow-lg">
+        {/* Defines the site's token custom properties so blocks using them preview like the published page */}
+        <div className="bg-white min-h-full shadow-lg" style={globalStylesVariables(styles) as React.CSSProperties}>
           <Droppable droppableId="canvas">
             {(provided, snapshot) => (
               <div
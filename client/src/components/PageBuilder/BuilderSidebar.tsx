@@ -2,11 +2,13 @@ import { useState } from 'react';
 import BlockLibrary from './BlockLibrary';
 import BlockSettings from './BlockSettings';
 import { TemplateLibrary } from './TemplateLibrary';
+import { PatternLibrary } from './PatternLibrary';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
 import { Plus, Settings, Sidebar } from 'lucide-react';
 import type { BlockConfig } from '@shared/schema-types';
+import type { DeviceBreakpoint } from '@shared/breakpoints';
 
 export function BuilderSidebar({
   activeTab,
@@ -14,6 +16,8 @@ export function BuilderSidebar({
   selectedBlock,
   updateBlock,
   setHoverHighlight,
+  deviceView,
+  setDeviceView,
   sidebarVisible,
   onToggleSidebar,
   onInsertTemplate,
@@ -23,6 +27,8 @@ export function BuilderSidebar({
   selectedBlock: any;
   updateBlock: (blockId: string, updates: any) => void;
   setHoverHighlight: (area: 'padding' | 'margin' | null) => void;
+  deviceView?: DeviceBreakpoint;
+  setDeviceView?: (device: DeviceBreakpoint) => void;
   sidebarVisible: boolean;
   onToggleSidebar: () => void;
   onInsertTemplate?: (blocks: BlockConfig[]) => void;
@@ -62,6 +68,9 @@ export function BuilderSidebar({
             <ScrollArea className="h-full">
               <div className="max-w-full pr-2">
                 <BlockLibrary />
+                <div className="mt-4 border border-gray-200 bg-white shadow-sm rounded-none">
+                  <PatternLibrary onInsertPattern={onInsertTemplate} />
+                </div>
                 {onInsertTemplate && (
                   <div className="mt-4 border border-gray-200 bg-white shadow-sm rounded-none">
                     <TemplateLibrary onInsertTemplate={onInsertTemplate} />
@@ -81,6 +90,8 @@ export function BuilderSidebar({
                     block={selectedBlock}
                     onUpdate={(updates) => updateBlock(selectedBlock.id, updates)}
                     onHoverArea={(area) => setHoverHighlight(area)}
+                    breakpoint={deviceView}
+                    onBreakpointChange={setDeviceView}
                   />
                 ) : (
                   <div className="p-6 text-center text-gray-500 text-sm">
@@ -20,6 +20,8 @@ import {
   BlogMenu,
   DesignMenu,
 } from "@/components/PageBuilder/EditorBar";
+import { PresenceAvatars } from "./PresenceAvatars";
+import type { Collaborator } from "@shared/collaboration";
 
 export function BuilderTopBar({
   data,
@@ -35,6 +37,7 @@ export function BuilderTopBar({
   canUndo,
   canRedo,
   onPageSettingsClick,
+  collaborators = [],
 }: {
   data: any;
   isTemplate: boolean;
@@ -49,6 +52,8 @@ export function BuilderTopBar({
   canUndo?: boolean;
   canRedo?: boolean;
   onPageSettingsClick?: () => void;
+  /** Other editors connected to the page */
+  collaborators?: Collaborator[];
 }) {
   return (
     <div className="bg-white border-b border-gray-200 p-4">
@@ -100,6 +105,7 @@ export function BuilderTopBar({
           </div>
         </div>
         <div className="flex items-center gap-4">
+          <PresenceAvatars collaborators={collaborators} />
           <div className="text-sm text-gray-500">{blocks.length} blocks</div>
 
           {/* Menus moved here next to the inner Save */}
@@ -0,0 +1,174 @@
+import { useState, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertTriangle, GitMerge } from "lucide-react";
+import { diffBlocks } from "@shared/block-diff";
+import { mergeBlockTrees, type BlockMergeConflict, type MergeSide } from "@/lib/handlers/treeUtils";
+import type { BlockConfig, Page, Post, VersionConflict } from "@shared/schema-types";
+
+interface ConflictDialogProps {
+  conflict: VersionConflict | null;
+  /** Blocks the editor loaded, used when the server no longer has that revision */
+  baseBlocks: BlockConfig[];
+  localBlocks: BlockConfig[];
+  contentType?: 'post' | 'page';
+  /** Save the merged blocks on top of the current version */
+  onResolve: (blocks: BlockConfig[], current: Page | Post) => void;
+  /** Drop the local edits and load the current version */
+  onDiscard: (current: Page | Post) => void;
+  onCancel: () => void;
+}
+
+const conflictLabels: Record<BlockMergeConflict["kind"], string> = {
+  "both-changed": "Edited by both",
+  "deleted-locally": "You deleted it, they edited it",
+  "deleted-remotely": "They deleted it, you edited it",
+};
+
+const blockLabel = (block?: BlockConfig) => block?.label || block?.name || "Block";
+
+const blockPreview = (block?: BlockConfig) => {
+  if (!block) return "Deleted";
+  const content = block.content as { kind?: string; value?: unknown };
+  if (content?.kind === "text" && typeof content.value === "string") {
+    return content.value.replace(/<[^>]+>/g, "").slice(0, 80) || "Empty";
+  }
+  return blockLabel(block);
+};
+
+/**
+ * Shown when a save is rejected because someone else saved first. Changes that
+ * touch different blocks are merged by block ID; blocks both sides changed are
+ * listed so the user can pick a side for each.
+ */
+export default function ConflictDialog({
+  conflict,
+  baseBlocks,
+  localBlocks,
+  contentType = 'page',
+  onResolve,
+  onDiscard,
+  onCancel,
+}: ConflictDialogProps) {
+  const [resolutions, setResolutions] = useState<Record<string, MergeSide>>({});
+
+  const base = conflict?.base?.blocks ?? baseBlocks;
+  const theirs = (conflict?.current.blocks ?? []) as BlockConfig[];
+
+  const merged = useMemo(
+    () => mergeBlockTrees(base, localBlocks, theirs, resolutions),
+    [base, localBlocks, theirs, resolutions]
+  );
+  const theirChanges = useMemo(() => diffBlocks(base, theirs).summary, [base, theirs]);
+
+  const choose = (id: string, side: MergeSide) =>
+    setResolutions((current) => ({ ...current, [id]: side }));
+
+  const close = (open: boolean) => {
+    if (!open) {
+      setResolutions({});
+      onCancel();
+    }
+  };
+
+  if (!conflict) return null;
+
+  const current = conflict.current;
+  const savedAt = current.updatedAt ? new Date(current.updatedAt).toLocaleString() : "";
+
+  return (
+    <Dialog open={!!conflict} onOpenChange={close}>
+      <DialogContent className="sm:max-w-2xl" data-testid="dialog-save-conflict">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-amber-600" />
+            {`This ${contentType} was changed by someone else`}
+          </DialogTitle>
+          <DialogDescription>
+            {`Version ${current.version} was saved${savedAt ? ` on ${savedAt}` : ""} while you were editing. `}
+            Changes to different blocks are combined; choose which version to keep for blocks you both changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-gray-600">Their changes:</span>
+          <Badge variant="outline">{theirChanges.added} added</Badge>
+          <Badge variant="outline">{theirChanges.removed} removed</Badge>
+          <Badge variant="outline">{theirChanges.changed} changed</Badge>
+          <Badge variant="outline">{theirChanges.moved} moved</Badge>
+        </div>
+
+        {merged.conflicts.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            Your changes do not overlap with theirs and can be merged as they are.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[360px]">
+            <ul className="space-y-2">
+              {merged.conflicts.map((item) => {
+                const side = resolutions[item.id] ?? "mine";
+                return (
+                  <li key={item.id} className="rounded border p-3" data-testid={`conflict-${item.id}`}>
+                    <div className="mb-2 flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium">{blockLabel(item.mine ?? item.theirs)}</span>
+                      <Badge variant="secondary">{conflictLabels[item.kind]}</Badge>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      {(["mine", "theirs"] as const).map((option) => (
+                        <button
+                          key={option}
+                          type="button"
+                          onClick={() => choose(item.id, option)}
+                          className={`rounded border px-2 py-1.5 text-left text-xs ${
+                            side === option ? "border-gray-900 bg-gray-50" : "border-gray-200 hover:bg-gray-50"
+                          }`}
+                          data-testid={`conflict-${item.id}-${option}`}
+                        >
+                          <div className="font-medium">{option === "mine" ? "Keep mine" : "Take theirs"}</div>
+                          <div className="truncate text-gray-600">{blockPreview(item[option])}</div>
+                        </button>
+                      ))}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </ScrollArea>
+        )}
+
+        <DialogFooter className="sm:justify-between">
+          <Button
+            variant="outline"
+            onClick={() => {
+              setResolutions({});
+              onDiscard(current);
+            }}
+            data-testid="button-discard-mine"
+          >
+            Discard my changes
+          </Button>
+          <Button
+            onClick={() => {
+              setResolutions({});
+              onResolve(merged.blocks, current);
+            }}
+            className="flex items-center gap-2"
+            data-testid="button-save-merged"
+          >
+            <GitMerge className="w-4 h-4" />
+            Save merged version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,17 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import type { BlockConfig, Page, Post, Template } from '@shared/schema-types';
+import type { BlockConfig, Page, Post, Template, VersionConflict } from '@shared/schema-types';
+import type { DeviceBreakpoint } from '@shared/breakpoints';
+import { copyBlocks } from '@shared/block-references';
 import { DragDropContext } from '@/lib/dnd';
 import type { DropResult as DndDropResult } from '@/lib/dnd';
 import { generateBlockId } from './utils';
 import { useDragAndDropHandler } from '../../hooks/useDragAndDropHandler';
 import { usePageSave } from '../../hooks/usePageSave';
+import { useCollaboration } from '../../hooks/useCollaboration';
+import { useToast } from '@/hooks/use-toast';
 import { useUndoRedo } from '../../hooks/useUndoRedo';
 import { BuilderSidebar } from './BuilderSidebar';
+import { PATTERN_DRAG_PREFIX, instantiatePattern, useLibraryPatterns } from './PatternLibrary';
 import { BuilderTopBar } from './BuilderTopBar';
 import { BuilderCanvas } from './BuilderCanvas';
 import PageSettingsModal from './PageSettings';
@@ -19,6 +24,7 @@ import {
   updateBlockDeep,
   deleteBlockDeep,
   duplicateBlockDeep,
+  replaceBlockDeep,
 } from '@/lib/handlers/treeUtils';
 import '@/lib/animate.min.css';
 
@@ -72,6 +78,12 @@ interface PageBuilderProps {
   ) => void;
   currentPostId?: string;
   contentType?: 'post' | 'page';
+  /** Called instead of the error toast when a save is rejected as stale */
+  onSaveConflict?: (conflict: VersionConflict) => void;
+  /** Share edits live with other editors of the same page */
+  collaborative?: boolean;
+  /** Another editor of the page saved it as `version` */
+  onRemoteSave?: (version: number, updatedAt: string | null) => void;
 }
 
 export default function PageBuilder({
@@ -85,6 +97,9 @@ export default function PageBuilder({
   onPageMetaChange,
   currentPostId,
   contentType,
+  onSaveConflict,
+  collaborative = false,
+  onRemoteSave,
 }: PageBuilderProps) {
   const data = post;
   const isTemplate = false;
@@ -208,9 +223,38 @@ export default function PageBuilder({
     },
     [commitBlocks],
   );
-  const [deviceView, setDeviceView] = useState<'desktop' | 'tablet' | 'mobile'>(
-    'desktop',
+  const { toast } = useToast();
+
+  /**
+   * Other editors' changes replace the current history entry rather than
+   * adding an undo step of their own
+   */
+  const applyRemoteBlocks = useCallback(
+    (next: BlockConfig[]) => {
+      replaceCurrentState(next);
+      currentStateRef.current = next;
+      lastEmittedRef.current = next;
+      onBlocksChangeRef.current?.(next);
+      const currentSelectedId = selectedBlockIdRef.current;
+      if (currentSelectedId && !findBlock(next, currentSelectedId)) {
+        setSelectedBlockId(null);
+      }
+    },
+    [replaceCurrentState],
   );
+
+  const collaboration = useCollaboration({
+    pageId: data?.id,
+    enabled: collaborative && !!data?.id,
+    blocks,
+    selectedBlockId,
+    onRemoteChange: applyRemoteBlocks,
+    onRejected: (reason) =>
+      toast({ title: 'Change not applied', description: reason, variant: 'destructive' }),
+    onSaved: onRemoteSave,
+  });
+
+  const [deviceView, setDeviceView] = useState<DeviceBreakpoint>('desktop');
   const [isPreviewMode, setIsPreviewMode] = useState(false);
   const [activeTab, setActiveTab] = useState<'blocks' | 'settings'>('settings');
   const [hoverHighlight, setHoverHighlight] = useState<
@@ -231,6 +275,7 @@ export default function PageBuilder({
     onSave,
     pageMeta,
     contentType: resolvedContentType,
+    onConflict: onSaveConflict,
   });
 
   const handleSave = useCallback(() => {
@@ -288,12 +333,22 @@ export default function PageBuilder({
     [commitBlocks],
   );
 
+  const libraryPatterns = useLibraryPatterns();
+  const resolvePattern = useCallback(
+    (draggableId: string) => {
+      const pattern = libraryPatterns.find((p) => `${PATTERN_DRAG_PREFIX}${p.id}` === draggableId);
+      return pattern ? instantiatePattern(pattern) : null;
+    },
+    [libraryPatterns],
+  );
+
   const { handleDragEnd } = useDragAndDropHandler(
     blocks,
     setBlocksFromDnD,
     setSelectedBlockId,
     setActiveTab,
     currentPostId,
+    resolvePattern,
   );
 
   const handleDuplicate = useCallback(
@@ -349,19 +404,25 @@ export default function PageBuilder({
   const handleInsertTemplate = useCallback(
     (templateBlocks: BlockConfig[]) => {
       // Generate new IDs for all blocks to avoid conflicts
-      const reIdBlocks = (blocks: BlockConfig[]): BlockConfig[] =>
-        blocks.map((block) => ({
-          ...block,
-          id: generateBlockId(),
-          children: block.children ? reIdBlocks(block.children) : undefined,
-        }));
-
-      const newBlocks = reIdBlocks(templateBlocks);
+      const newBlocks = copyBlocks(templateBlocks, () => generateBlockId());
       commitBlocks((prev) => [...prev, ...newBlocks]);
     },
     [commitBlocks],
   );
 
+  const handleReplace = useCallback(
+    (id: string, replacements: BlockConfig[]) => {
+      commitBlocks((prev) => {
+        const { found, next } = replaceBlockDeep(prev, id, replacements);
+        return found ? next : prev;
+      });
+      if (selectedBlockId === id) {
+        setSelectedBlockId(replacements[0]?.id ?? null);
+      }
+    },
+    [commitBlocks, selectedBlockId],
+  );
+
   return (
     <div className="flex h-full bg-gray-50">
       <PageProvider pageOther={data?.other as any}>
@@ -369,12 +430,20 @@ export default function PageBuilder({
         value={{
           selectedBlockId,
           onSelect: (id) => {
+            const lockedBy = collaboration.lockedBlocks[id];
+            if (lockedBy) {
+              toast({ title: 'Block in use', description: `${lockedBy.name} is editing this block` });
+              return;
+            }
             setSelectedBlockId(id);
             setActiveTab('settings');
           },
           onDuplicate: handleDuplicate,
           onDelete: handleDelete,
+          onReplace: handleReplace,
           hoverHighlight,
+          lockedBlocks: collaboration.lockedBlocks,
+          deviceView,
         }}>
         <DragDropContext
           onDragEnd={(result: DndDropResult) => handleDragEnd(result)}
@@ -415,6 +484,8 @@ export default function PageBuilder({
               selectedBlock={selectedBlock}
               updateBlock={updateBlockPartial}
               setHoverHighlight={setHoverHighlight}
+              deviceView={deviceView}
+              setDeviceView={setDeviceView}
               sidebarVisible={sidebarVisible}
               onToggleSidebar={toggleSidebar}
               onInsertTemplate={handleInsertTemplate}
@@ -435,6 +506,7 @@ export default function PageBuilder({
               canUndo={canUndo}
               canRedo={canRedo}
               onPageSettingsClick={() => setPageSettingsOpen(true)}
+              collaborators={collaboration.peers}
             />
             <BuilderCanvas
               blocks={blocks}
@@ -0,0 +1,184 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Draggable, Droppable } from "@/lib/dnd";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { ChevronDown, ChevronRight, Search, Shapes } from "lucide-react";
+import type { BlockConfig, Pattern } from "@shared/schema-types";
+import { BLOCK_REFERENCE, copyBlocks } from "@shared/block-references";
+import { CORE_PATTERNS } from "@shared/pattern-catalog";
+import {
+  patternCategoryLabel,
+  searchPatterns,
+  toLibraryPattern,
+  type LibraryPattern,
+} from "@shared/pattern-library";
+import { getDefaultBlock } from "./blocks";
+import { generateBlockId } from "./utils";
+
+interface PatternsApiResponse {
+  patterns: Pattern[];
+  total: number;
+}
+
+/**
+ * Droppable of the pattern list. The `block-library` prefix makes the drag
+ * handler treat drops from it as insertions, like drops from BlockLibrary.
+ */
+export const PATTERN_LIBRARY_DROPPABLE = "block-library-patterns";
+
+/** Prefix of the draggable ID of a pattern, followed by the pattern ID */
+export const PATTERN_DRAG_PREFIX = "pattern:";
+
+/** Built-in catalog followed by the site's stored patterns */
+export function useLibraryPatterns(): LibraryPattern[] {
+  const { data } = useQuery<PatternsApiResponse>({
+    queryKey: ["/api/patterns", { per_page: 100 }],
+  });
+  return useMemo(
+    () => [...CORE_PATTERNS, ...(data?.patterns ?? []).map(toLibraryPattern)],
+    [data],
+  );
+}
+
+/**
+ * Blocks to insert for a pattern: a reference for synced patterns, otherwise
+ * a copy with fresh IDs
+ */
+export function instantiatePattern(pattern: LibraryPattern): BlockConfig[] {
+  if (pattern.synced) {
+    const reference = getDefaultBlock(BLOCK_REFERENCE, generateBlockId());
+    return reference ? [{ ...reference, content: { kind: "structured", data: { ref: pattern.id } } }] : [];
+  }
+  return copyBlocks(pattern.blocks, () => generateBlockId());
+}
+
+interface PatternLibraryProps {
+  /** Called when a pattern is clicked instead of dragged, to append it to the canvas */
+  onInsertPattern?: (blocks: BlockConfig[]) => void;
+}
+
+/**
+ * PatternLibrary — searchable list of patterns in the block library sidebar.
+ * Patterns are dragged onto the canvas like blocks; useDragAndDropHandler
+ * inserts them at the drop position.
+ */
+export function PatternLibrary({ onInsertPattern }: PatternLibraryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [category, setCategory] = useState<string | null>(null);
+  const patterns = useLibraryPatterns();
+
+  const categories = useMemo(
+    () => Array.from(new Set(patterns.map((pattern) => pattern.category))),
+    [patterns],
+  );
+  const results = searchPatterns(patterns, query, category);
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger asChild>
+        <Button
+          variant="ghost"
+          className="w-full justify-between p-4 h-auto font-semibold text-sm text-gray-800 hover:text-gray-900 hover:bg-gray-50"
+        >
+          <span className="flex items-center gap-2">
+            <Shapes className="w-4 h-4" />
+            Patterns
+          </span>
+          {isOpen ? (
+            <ChevronDown className="w-4 h-4 text-gray-500" />
+          ) : (
+            <ChevronRight className="w-4 h-4 text-gray-500" />
+          )}
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="px-4 pb-4 space-y-3">
+          <div className="relative">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-400" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search patterns..."
+              className="h-8 pl-8 text-sm"
+            />
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {[null, ...categories].map((id) => (
+              <button
+                key={id ?? "all"}
+                type="button"
+                onClick={() => setCategory(id)}
+                className={`px-2 py-0.5 text-xs rounded-full border transition-colors ${
+                  category === id
+                    ? "bg-black text-white border-black"
+                    : "bg-white text-gray-600 border-gray-200 hover:bg-gray-100"
+                }`}
+              >
+                {id ? patternCategoryLabel(id) : "All"}
+              </button>
+            ))}
+          </div>
+          <Droppable droppableId={PATTERN_LIBRARY_DROPPABLE} isDropDisabled={true}>
+            {(provided) => (
+              <div ref={provided.innerRef} {...provided.droppableProps} className="space-y-2">
+                {results.length === 0 && (
+                  <p className="text-xs text-gray-500 text-center py-4">No patterns match your search.</p>
+                )}
+                {results.map((pattern, index) => (
+                  <Draggable
+                    key={pattern.id}
+                    draggableId={`${PATTERN_DRAG_PREFIX}${pattern.id}`}
+                    index={index}
+                  >
+                    {(provided, snapshot) => (
+                      <div
+                        ref={provided.innerRef}
+                        {...provided.draggableProps}
+                        {...provided.dragHandleProps}
+                        title={pattern.description ?? undefined}
+                        onClick={() => onInsertPattern?.(instantiatePattern(pattern))}
+                        className={`cursor-grab bg-white border border-gray-200 hover:border-gray-300 hover:shadow-md transition-all ${
+                          snapshot.isDragging ? "opacity-60 shadow-xl border-gray-400" : ""
+                        }`}
+                      >
+                        <div className="aspect-[8/5] bg-gray-100 flex items-center justify-center overflow-hidden">
+                          {pattern.thumbnail ? (
+                            <img
+                              src={pattern.thumbnail}
+                              alt=""
+                              loading="lazy"
+                              className="w-full h-full object-cover"
+                            />
+                          ) : (
+                            <Shapes className="w-6 h-6 text-gray-400" />
+                          )}
+                        </div>
+                        <div className="flex items-center justify-between gap-2 px-3 py-2">
+                          <span className="text-sm font-medium text-gray-800 truncate">{pattern.name}</span>
+                          {pattern.synced && (
+                            <Badge variant="secondary" className="text-[10px] px-1.5 py-0 shrink-0">
+                              Synced
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </Draggable>
+                ))}
+                {provided.placeholder}
+              </div>
+            )}
+          </Droppable>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,50 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { Collaborator } from "@shared/collaboration";
+
+const MAX_SHOWN = 4;
+
+const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0]?.toUpperCase())
+    .join("") || "?";
+
+/** Other editors of the page, ringed in the colour of their block locks */
+export function PresenceAvatars({ collaborators }: { collaborators: Collaborator[] }) {
+  if (collaborators.length === 0) return null;
+
+  const shown = collaborators.slice(0, MAX_SHOWN);
+  const hidden = collaborators.length - shown.length;
+
+  return (
+    <div className="flex items-center -space-x-2" data-testid="presence-avatars">
+      {shown.map((collaborator) => (
+        <Tooltip key={collaborator.clientId}>
+          <TooltipTrigger asChild>
+            <Avatar
+              className="w-7 h-7 border-2 bg-white"
+              style={{ borderColor: collaborator.color }}
+              data-testid={`presence-${collaborator.clientId}`}
+            >
+              <AvatarImage src={collaborator.avatarUrl || undefined} />
+              <AvatarFallback className="text-[10px] text-white" style={{ background: collaborator.color }}>
+                {initials(collaborator.name)}
+              </AvatarFallback>
+            </Avatar>
+          </TooltipTrigger>
+          <TooltipContent>
+            {collaborator.blockId ? `${collaborator.name} is editing a block` : `${collaborator.name} is viewing`}
+          </TooltipContent>
+        </Tooltip>
+      ))}
+      {hidden > 0 && (
+        <div className="flex w-7 h-7 items-center justify-center rounded-full border-2 border-white bg-gray-200 text-[10px] text-gray-700">
+          +{hidden}
+        </div>
+      )}
+    </div>
+  );
+}
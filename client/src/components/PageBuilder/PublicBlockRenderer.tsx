@@ -1,5 +1,6 @@
 import type { CSSProperties, JSX, ReactNode } from "react";
 import { generateBlockAnimationCSS, getEntryAnimationAttributes } from "@shared/animation-utils";
+import { blockVisibilityCSS } from "@shared/breakpoints";
 import type { BlockConfig, BlockContent } from "@shared/schema-types";
 import { generateBlockModifierCSS, resolveTokenMap } from "@/lib/tailwind-tokens";
 
@@ -62,6 +63,7 @@ const HEADING_FONT_WEIGHTS: Record<number, string> = {
 
 const publicBlockRenderers: Record<string, BlockRenderer> = {
   "core/audio": renderAudioBlock,
+  "core/block-reference": renderBlockReference,
   "core/button": renderButtonBlock,
   "core/buttons": renderButtonsBlock,
   "core/code": renderCodeBlock,
@@ -79,6 +81,7 @@ const publicBlockRenderers: Record<string, BlockRenderer> = {
   "core/preformatted": renderPreformattedBlock,
   "core/pullquote": renderPullquoteBlock,
   "core/quote": renderQuoteBlock,
+  "core/search": renderSearchBlock,
   "core/separator": renderSeparatorBlock,
   "core/spacer": renderSpacerBlock,
   "core/table": renderTableBlock,
@@ -134,8 +137,10 @@ function getPublicBlockStyles(block: BlockConfig): {
     ? generateBlockAnimationCSS(block.id, block.other.animation)
     : "";
 
+  const visibilityCSS = blockVisibilityCSS(block.id, block.other?.hideOn);
+
   return {
-    css: [modifierCSS, animationCSS].filter(Boolean).join("\n"),
+    css: [modifierCSS, animationCSS, visibilityCSS].filter(Boolean).join("\n"),
     styles,
   };
 }
@@ -411,6 +416,15 @@ function renderGroupBlock(block: BlockConfig, styles: CSSProperties) {
   );
 }
 
+/** Public APIs resolve synced patterns, so the pattern's blocks arrive as children */
+function renderBlockReference(block: BlockConfig, styles: CSSProperties) {
+  return (
+    <div className="wp-block-block-reference" style={styles}>
+      {renderNestedBlocks(block.children)}
+    </div>
+  );
+}
+
 function renderCoverBlock(block: BlockConfig, styles: CSSProperties) {
   const data = getStructuredData(block.content);
   const imageUrl = typeof data.url === "string" ? data.url : "";
@@ -579,6 +593,38 @@ function renderTableBlock(block: BlockConfig, styles: CSSProperties) {
   );
 }
 
+function renderSearchBlock(block: BlockConfig, styles: CSSProperties) {
+  const data = getStructuredData(block.content);
+  const label = typeof data.label === "string" && data.label ? data.label : "Search";
+  const showLabel = data.showLabel !== false;
+  const inputId = `wp-block-search__input-${block.id}`;
+
+  return (
+    <form role="search" method="get" action="/search" className="wp-block-search" style={styles}>
+      {showLabel && (
+        <label htmlFor={inputId} className="wp-block-search__label">
+          {label}
+        </label>
+      )}
+      <div className="wp-block-search__inside-wrapper" style={{ display: "flex", gap: "0.5rem" }}>
+        <input
+          id={inputId}
+          type="search"
+          name="q"
+          aria-label={showLabel ? undefined : label}
+          className="wp-block-search__input"
+          placeholder={typeof data.placeholder === "string" ? data.placeholder : undefined}
+          required
+          style={{ flex: 1 }}
+        />
+        <button type="submit" className="wp-block-search__button wp-element-button">
+          {typeof data.buttonText === "string" && data.buttonText ? data.buttonText : "Search"}
+        </button>
+      </div>
+    </form>
+  );
+}
+
 function renderUnsupportedBlock(block: BlockConfig, styles: CSSProperties) {
   return (
     <div className="rounded border border-dashed border-gray-300 p-4 text-sm text-gray-500" style={styles}>
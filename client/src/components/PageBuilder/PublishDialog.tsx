@@ -3,6 +3,7 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { 
   Dialog, 
   DialogContent, 
@@ -15,11 +16,23 @@ import {
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Share2, Globe, ExternalLink, AlertCircle, FileX } from "lucide-react";
+import { Share2, Globe, ExternalLink, AlertCircle, FileX, Clock } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import type { Post, Page, BlockConfig } from "@shared/schema-types";
 
+// Formats a date for a datetime-local input (local time, minute precision)
+const toLocalInput = (value: Date | string | null | undefined) => {
+  if (!value) return "";
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return "";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const formatDateTime = (value: Date | string | null | undefined) =>
+  value ? new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" }) : "";
+
 interface PublishDialogProps {
   post?: Post | Page;
   blocks: BlockConfig[];
@@ -38,6 +51,10 @@ export default function PublishDialog({
   const [open, setOpen] = useState(false);
   const [slug, setSlug] = useState(post?.slug || "");
   const [originalSlug, setOriginalSlug] = useState(post?.slug || "");
+  const [scheduleEnabled, setScheduleEnabled] = useState(post?.status === 'future');
+  const [scheduledFor, setScheduledFor] = useState(toLocalInput(post?.status === 'future' ? post?.publishedAt : null));
+  const [expiryEnabled, setExpiryEnabled] = useState(Boolean(post?.expiresAt));
+  const [expiresAt, setExpiresAt] = useState(toLocalInput(post?.expiresAt));
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -50,6 +67,14 @@ export default function PublishDialog({
     }
   }, [post?.slug]);
 
+  // Reset the schedule fields to the saved dates
+  useEffect(() => {
+    setScheduleEnabled(post?.status === 'future');
+    setScheduledFor(toLocalInput(post?.status === 'future' ? post?.publishedAt : null));
+    setExpiryEnabled(Boolean(post?.expiresAt));
+    setExpiresAt(toLocalInput(post?.expiresAt));
+  }, [post?.status, post?.publishedAt, post?.expiresAt]);
+
   // Force close dialog when post status changes to ensure fresh data on next open
   useEffect(() => {
     if (open && post) {
@@ -77,10 +102,12 @@ export default function PublishDialog({
       const isPage = contentType === 'page';
       const endpoint = isPage ? `/api/pages/${post.id}` : `/api/posts/${post.id}`;
       
+      // A future publish date makes the server store the post as scheduled ('future')
       const publishData: any = {
         blocks: blocks,
-        status: 'publish',
-        publishedAt: new Date().toISOString(),
+        status: scheduleEnabled ? 'future' : 'publish',
+        publishedAt: (scheduleEnabled ? new Date(scheduledFor) : new Date()).toISOString(),
+        expiresAt: expiryEnabled && expiresAt ? new Date(expiresAt).toISOString() : null,
         slug: slug || generateSlug(post.title)
       };
 
@@ -94,10 +121,17 @@ export default function PublishDialog({
     },
     onSuccess: (updatedData) => {
       const isPage = contentType === 'page';
-      toast({
-        title: "Published!",
-        description: `${isPage ? 'Page' : 'Post'} is now live at /${updatedData.type || (isPage ? 'page' : 'post')}/${updatedData.slug}`,
-      });
+      if (updatedData.status === 'future') {
+        toast({
+          title: "Scheduled",
+          description: `${isPage ? 'Page' : 'Post'} will go live on ${formatDateTime(updatedData.publishedAt)}`,
+        });
+      } else {
+        toast({
+          title: "Published!",
+          description: `${isPage ? 'Page' : 'Post'} is now live at /${updatedData.type || (isPage ? 'page' : 'post')}/${updatedData.slug}`,
+        });
+      }
       setOpen(false);
       onPublished?.(updatedData);
       
@@ -134,6 +168,7 @@ export default function PublishDialog({
         blocks: blocks,
         status: 'draft',
         publishedAt: null,
+        expiresAt: null,
         slug: post.slug // Keep the same slug
       };
 
@@ -182,6 +217,24 @@ export default function PublishDialog({
       });
       return;
     }
+
+    const publishAt = scheduleEnabled ? new Date(scheduledFor) : new Date();
+    if (scheduleEnabled && (isNaN(publishAt.getTime()) || publishAt <= new Date())) {
+      toast({
+        title: "Invalid schedule",
+        description: "Choose a publish date in the future",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (expiryEnabled && (!expiresAt || new Date(expiresAt) <= publishAt)) {
+      toast({
+        title: "Invalid expiry date",
+        description: "The unpublish date must be after the publish date",
+        variant: "destructive",
+      });
+      return;
+    }
     
     publishMutation.mutate();
   };
@@ -191,6 +244,7 @@ export default function PublishDialog({
   };
 
   const isPublished = post?.status === 'publish';
+  const isScheduled = post?.status === 'future';
   const hasSlugChanged = slug !== originalSlug;
   const postType = contentType;
 
@@ -213,6 +267,11 @@ export default function PublishDialog({
               <Globe className="w-4 h-4" />
               Published
             </>
+          ) : isScheduled ? (
+            <>
+              <Clock className="w-4 h-4" />
+              Scheduled
+            </>
           ) : (
             <>
               <Share2 className="w-4 h-4" />
@@ -281,6 +340,62 @@ export default function PublishDialog({
             </p>
           </div>
 
+          {isScheduled && (
+            <div className="flex items-center gap-2 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+              <Clock className="w-4 h-4 text-blue-600" />
+              <p className="text-sm text-blue-800">
+                Scheduled for {formatDateTime(post?.publishedAt)}
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="schedule-enabled">Schedule for…</Label>
+              <Switch
+                id="schedule-enabled"
+                checked={scheduleEnabled}
+                onCheckedChange={setScheduleEnabled}
+                data-testid="switch-schedule"
+              />
+            </div>
+            {scheduleEnabled && (
+              <Input
+                type="datetime-local"
+                value={scheduledFor}
+                min={toLocalInput(new Date())}
+                onChange={(e) => setScheduledFor(e.target.value)}
+                data-testid="input-scheduled-for"
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="expiry-enabled">Unpublish on…</Label>
+              <Switch
+                id="expiry-enabled"
+                checked={expiryEnabled}
+                onCheckedChange={setExpiryEnabled}
+                data-testid="switch-expiry"
+              />
+            </div>
+            {expiryEnabled && (
+              <Input
+                type="datetime-local"
+                value={expiresAt}
+                min={scheduledFor || toLocalInput(new Date())}
+                onChange={(e) => setExpiresAt(e.target.value)}
+                data-testid="input-expires-at"
+              />
+            )}
+            {expiryEnabled && (
+              <p className="text-xs text-gray-500">
+                {`The ${contentType} moves back to draft at this time.`}
+              </p>
+            )}
+          </div>
+
           {hasSlugChanged && (
             <div className="flex items-center gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
               <AlertCircle className="w-4 h-4 text-yellow-600" />
@@ -298,8 +413,8 @@ export default function PublishDialog({
               <span className="text-sm text-gray-600">
                   {post?.title || `Untitled ${contentType === 'page' ? 'Page' : 'Post'}`}
               </span>
-              <Badge variant={isPublished ? "default" : "secondary"}>
-                {isPublished ? 'Published' : 'Draft'}
+              <Badge variant={isPublished ? "default" : isScheduled ? "outline" : "secondary"}>
+                {isPublished ? 'Published' : isScheduled ? 'Scheduled' : 'Draft'}
               </Badge>
             </div>
             <div className="flex items-center justify-between">
@@ -311,8 +426,8 @@ export default function PublishDialog({
           </div>
         </div>
 
-        <DialogFooter className={isPublished ? "flex-col-reverse sm:flex-row sm:justify-between" : ""}>
-          {isPublished && (
+        <DialogFooter className={isPublished || isScheduled ? "flex-col-reverse sm:flex-row sm:justify-between" : ""}>
+          {(isPublished || isScheduled) && (
             <Button 
               variant="outline"
               onClick={handleUnpublish}
@@ -335,7 +450,11 @@ export default function PublishDialog({
               disabled={publishMutation.isPending}
               data-testid="button-confirm-publish"
             >
-              {publishMutation.isPending ? 'Publishing...' : isPublished ? 'Update' : 'Publish'}
+              {publishMutation.isPending
+                ? 'Publishing...'
+                : scheduleEnabled
+                  ? 'Schedule'
+                  : isPublished ? 'Update' : 'Publish'}
             </Button>
           </div>
         </DialogFooter>
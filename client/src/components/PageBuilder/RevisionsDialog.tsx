@@ -0,0 +1,257 @@
+import { useState, useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+  DialogClose
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { History, RotateCcw, MoveVertical } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { diffBlocks, type BlockDiff, type BlockDiffEntry } from "@shared/block-diff";
+import type { BlockConfig, Page, PageVersionEntry } from "@shared/schema-types";
+
+interface RevisionSummary {
+  version: number;
+  updatedAt: string;
+  authorId?: string;
+  message?: string;
+  blockCount: number;
+}
+
+interface RevisionsResponse {
+  current: RevisionSummary;
+  revisions: RevisionSummary[];
+}
+
+interface RevisionsDialogProps {
+  page?: Page;
+  /** Blocks in the editor, compared against the selected revision */
+  blocks: BlockConfig[];
+  onRestored?: (page: Page) => void;
+  disabled?: boolean;
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+const rowClasses: Record<BlockDiffEntry["status"], string> = {
+  added: "bg-green-50 border-green-300 text-green-900",
+  removed: "bg-red-50 border-red-300 text-red-900 line-through",
+  changed: "bg-amber-50 border-amber-300 text-amber-900",
+  unchanged: "border-transparent text-gray-600",
+};
+
+// One side of the comparison; blocks only on the other side are not listed
+function BlockTree({
+  blocks,
+  diff,
+  side,
+  depth = 0,
+}: {
+  blocks: BlockConfig[];
+  diff: BlockDiff;
+  side: "before" | "after";
+  depth?: number;
+}) {
+  return (
+    <ul className="space-y-1">
+      {blocks.map((block) => {
+        const entry = diff.entries[block.id];
+        const status = entry?.status ?? "unchanged";
+        return (
+          <li key={block.id}>
+            <div
+              className={`rounded border px-2 py-1 text-xs ${rowClasses[status]}`}
+              style={{ marginLeft: depth * 12 }}
+              data-testid={`revision-block-${side}-${block.id}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{block.name}</span>
+                {entry?.moved && (
+                  <Badge variant="outline" className="gap-1 px-1 py-0 text-[10px]">
+                    <MoveVertical className="w-3 h-3" />
+                    Moved
+                  </Badge>
+                )}
+                {status === "changed" && (
+                  <span className="text-[10px] opacity-75">{entry.fields.join(", ")}</span>
+                )}
+              </div>
+              {side === "after" && entry?.styleChanges.length > 0 && (
+                <ul className="mt-1 space-y-0.5 font-mono text-[10px] opacity-80">
+                  {entry.styleChanges.map((change) => (
+                    <li key={change.property}>
+                      {change.property}: {String(change.before ?? "–")} → {String(change.after ?? "–")}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            {block.children && block.children.length > 0 && (
+              <div className="mt-1">
+                <BlockTree blocks={block.children} diff={diff} side={side} depth={depth + 1} />
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export default function RevisionsDialog({ page, blocks, onRestored, disabled }: RevisionsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<number | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: revisions, isLoading } = useQuery<RevisionsResponse>({
+    queryKey: [`/api/pages/${page?.id}/revisions`],
+    enabled: open && !!page?.id,
+  });
+
+  const activeVersion = selected ?? revisions?.revisions[0]?.version ?? null;
+
+  const { data: revision } = useQuery<PageVersionEntry>({
+    queryKey: [`/api/pages/${page?.id}/revisions/${activeVersion}`],
+    enabled: open && !!page?.id && activeVersion !== null,
+  });
+
+  const diff = useMemo(
+    () => (revision ? diffBlocks(revision.blocks ?? [], blocks) : null),
+    [revision, blocks]
+  );
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await apiRequest("POST", `/api/pages/${page?.id}/revisions/${version}/restore`);
+      return (await response.json()) as Page;
+    },
+    onSuccess: (restored, version) => {
+      toast({
+        title: "Revision restored",
+        description: `Version ${version} is now the current version`,
+      });
+      setOpen(false);
+      onRestored?.(restored);
+      queryClient.invalidateQueries({ queryKey: ["/api/pages"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/pages/${page?.id}`] });
+      window.setTimeout(() => window.location.reload(), 250);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Restore failed",
+        description: error.message || "Failed to restore revision",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) setSelected(null); }}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled || !page}
+          className="flex items-center gap-2 text-gray-800"
+          data-testid="button-revisions"
+        >
+          <History className="w-4 h-4" />
+          Revisions
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="sm:max-w-5xl" data-testid="dialog-revisions">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Page Revisions
+          </DialogTitle>
+          <DialogDescription>
+            Compare a saved revision with the blocks in the editor and restore it if needed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[200px_1fr_1fr] gap-4 min-h-[360px]">
+          <ScrollArea className="h-[420px] border-r pr-2">
+            {isLoading && <p className="text-sm text-gray-500">Loading…</p>}
+            {revisions && revisions.revisions.length === 0 && (
+              <p className="text-sm text-gray-500">No earlier revisions yet.</p>
+            )}
+            <ul className="space-y-1">
+              {revisions?.revisions.map((item) => (
+                <li key={item.version}>
+                  <button
+                    type="button"
+                    onClick={() => setSelected(item.version)}
+                    className={`w-full rounded px-2 py-1.5 text-left text-sm ${
+                      item.version === activeVersion ? "bg-gray-900 text-white" : "hover:bg-gray-100"
+                    }`}
+                    data-testid={`revision-${item.version}`}
+                  >
+                    <div className="font-medium">Version {item.version}</div>
+                    <div className="text-xs opacity-75">{formatDateTime(item.updatedAt)}</div>
+                    <div className="text-xs opacity-75">{item.blockCount} blocks</div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+
+          <div className="min-w-0">
+            <h4 className="mb-2 text-sm font-medium">
+              {revision ? `Version ${revision.version}` : "Revision"}
+            </h4>
+            <ScrollArea className="h-[400px]">
+              {revision && diff && <BlockTree blocks={revision.blocks ?? []} diff={diff} side="before" />}
+            </ScrollArea>
+          </div>
+
+          <div className="min-w-0">
+            <h4 className="mb-2 text-sm font-medium">Current</h4>
+            <ScrollArea className="h-[400px]">
+              {diff && <BlockTree blocks={blocks} diff={diff} side="after" />}
+            </ScrollArea>
+          </div>
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <div className="flex items-center gap-2 text-xs">
+            {diff && (
+              <>
+                <Badge variant="outline" className="border-green-300 text-green-700">{diff.summary.added} added</Badge>
+                <Badge variant="outline" className="border-red-300 text-red-700">{diff.summary.removed} removed</Badge>
+                <Badge variant="outline" className="border-amber-300 text-amber-700">{diff.summary.changed} changed</Badge>
+                <Badge variant="outline">{diff.summary.moved} moved</Badge>
+              </>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <DialogClose asChild>
+              <Button variant="outline">Close</Button>
+            </DialogClose>
+            <Button
+              onClick={() => activeVersion !== null && restoreMutation.mutate(activeVersion)}
+              disabled={activeVersion === null || !revision || restoreMutation.isPending}
+              className="flex items-center gap-2"
+              data-testid="button-restore-revision"
+            >
+              <RotateCcw className="w-4 h-4" />
+              {restoreMutation.isPending ? "Restoring..." : "Restore this version"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
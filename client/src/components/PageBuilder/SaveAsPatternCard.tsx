@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Repeat2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CollapsibleCard } from "@/components/ui/collapsible-card";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { BlockConfig, Pattern } from "@shared/schema-types";
+import { useBlockActions } from "./BlockActionsContext";
+import { getDefaultBlock } from "./blocks";
+import { generateBlockId } from "./utils";
+
+/**
+ * Turns the selected block into a synced pattern and puts a reference to
+ * the new pattern in its place
+ */
+export function SaveAsPatternCard({ block }: { block: BlockConfig }) {
+  const [name, setName] = useState("");
+  const actions = useBlockActions();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const createMutation = useMutation({
+    mutationFn: async (): Promise<Pattern> => {
+      const res = await apiRequest("POST", "/api/patterns", {
+        name: name.trim(),
+        blocks: [{ ...block, parentId: null }],
+      });
+      return res.json();
+    },
+    onSuccess: (pattern) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/patterns"] });
+      const reference = getDefaultBlock("core/block-reference", generateBlockId());
+      if (reference) {
+        actions?.onReplace?.(block.id, [{ ...reference, content: { kind: "structured", data: { ref: pattern.id } } }]);
+      }
+      setName("");
+      toast({ title: "Pattern created", description: `"${pattern.name}" can now be reused on any page` });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to create pattern", variant: "destructive" });
+    },
+  });
+
+  return (
+    <CollapsibleCard title="Synced Pattern" icon={Repeat2} defaultOpen={false}>
+      <div className="space-y-3">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Pattern name"
+          className="h-9 text-sm"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          className="w-full"
+          disabled={!name.trim() || !actions?.onReplace || createMutation.isPending}
+          onClick={() => createMutation.mutate()}
+        >
+          Save as synced pattern
+        </Button>
+        <p className="text-xs text-gray-500">
+          The block is replaced by the pattern; edits to the pattern then reach every page using it.
+        </p>
+      </div>
+    </CollapsibleCard>
+  );
+}
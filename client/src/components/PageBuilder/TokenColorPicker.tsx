@@ -5,6 +5,8 @@ import { Button } from "@/components/ui/button"
 import { Paintbrush } from "lucide-react"
 import type { TokenEntry } from "@shared/schema-types"
 import { tokenColors, propertyAliasMap } from "@/lib/tailwind-tokens"
+import { useGlobalStyles } from "@/hooks/useGlobalStyles"
+import { THEME_TOKEN, globalStyleVar } from "@shared/global-styles"
 
 interface TokenColorPickerProps {
   property: string               // CSS property: "backgroundColor" or "color"
@@ -34,6 +36,22 @@ export default function TokenColorPicker({ property, currentEntry, currentStyleV
   
   const currentCustomValue = currentEntry?.style || currentStyleValue || "#000000"
   const alias = propertyAliasMap[property] || "bg"
+  const { styles: globalStyles } = useGlobalStyles()
+
+  const handleThemeSelect = (slug: string, color: string) => {
+    setShowCustom(false)
+    onChange({
+      property,
+      value: slug,
+      variant: null,
+      alias,
+      other: THEME_TOKEN,
+      style: globalStyleVar("color", slug, color),
+    })
+  }
+
+  const isThemeSelected = (slug: string) =>
+    currentEntry?.other === THEME_TOKEN && currentEntry.value === slug
 
   const handleTokenSelect = (family: string, shade: string | null, hexValue: string) => {
     setShowCustom(false)
@@ -57,7 +75,7 @@ export default function TokenColorPicker({ property, currentEntry, currentStyleV
   }
 
   const isSelected = (family: string, shade: string | null) => {
-    if (!currentEntry || !currentEntry.value) return false
+    if (!currentEntry || !currentEntry.value || currentEntry.other === THEME_TOKEN) return false
     return currentEntry.value === family && currentEntry.variant === shade
   }
 
@@ -105,6 +123,28 @@ export default function TokenColorPicker({ property, currentEntry, currentStyleV
       ) : (
         /* Token swatch grid */
         <div className="space-y-2">
+          {/* Site palette from the active theme's global styles */}
+          {globalStyles.palette.length > 0 && (
+            <div className="space-y-1">
+              <Label className="text-[10px] uppercase tracking-wide text-gray-500">Site palette</Label>
+              <div className="flex flex-wrap gap-1">
+                {globalStyles.palette.map((token) => (
+                  <button
+                    key={token.slug}
+                    onClick={() => handleThemeSelect(token.slug, token.color)}
+                    className={`w-6 h-6 border transition-all ${
+                      isThemeSelected(token.slug)
+                        ? "ring-2 ring-blue-500 ring-offset-1 border-blue-400"
+                        : "border-gray-300 hover:border-gray-400"
+                    }`}
+                    style={{ backgroundColor: token.color }}
+                    title={`${token.name} (${token.color})`}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Special colors row */}
           <div className="flex gap-1">
             {SPECIAL_COLORS.map((name) => {
@@ -2,6 +2,8 @@ import { useState } from "react"
 import { Input } from "@/components/ui/input"
 import type { TokenEntry } from "@shared/schema-types"
 import { tokenSpacing, propertyAliasMap, propertyUnitCategoryMap, unitCategories } from "@/lib/tailwind-tokens"
+import { useGlobalStyles } from "@/hooks/useGlobalStyles"
+import { THEME_TOKEN, globalStyleVar } from "@shared/global-styles"
 
 interface TokenSpacingPickerProps {
   property: string                // CSS property: "paddingTop", "marginLeft", etc.
@@ -31,7 +33,22 @@ export default function TokenSpacingPicker({ property, currentEntry, currentStyl
     const match = String(val).match(/^(\d*\.?\d+)/)
     return match ? match[1] : "0"
   }
-  const customValue = currentEntry?.style || parseValue(currentStyleValue)
+  const customValue = currentEntry?.other === THEME_TOKEN ? "0" : currentEntry?.style || parseValue(currentStyleValue)
+  const { styles: globalStyles } = useGlobalStyles()
+
+  // Site spacing scale from the active theme's global styles
+  const handleThemeSelect = (slug: string, size: string) => {
+    setShowCustom(false)
+    onChange({
+      property,
+      value: slug,
+      variant: null,
+      alias,
+      unitCategory,
+      other: THEME_TOKEN,
+      style: globalStyleVar("spacing", slug, size),
+    })
+  }
 
   const handleTokenSelect = (key: string) => {
     setShowCustom(false)
@@ -57,9 +74,9 @@ export default function TokenSpacingPicker({ property, currentEntry, currentStyl
     })
   }
 
-  const isSelected = (key: string) => {
+  const isSelected = (key: string, fromTheme = false) => {
     if (!currentEntry || !currentEntry.value) return false
-    return currentEntry.value === key
+    return currentEntry.value === key && (currentEntry.other === THEME_TOKEN) === fromTheme
   }
 
   return (
@@ -103,6 +120,20 @@ export default function TokenSpacingPicker({ property, currentEntry, currentStyl
       ) : (
         /* Token chips grid */
         <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto">
+          {globalStyles.spacing.map((token) => (
+            <button
+              key={`theme-${token.slug}`}
+              onClick={() => handleThemeSelect(token.slug, token.size)}
+              className={`px-2 py-1 text-xs border rounded-none transition-colors min-w-[2rem] ${
+                isSelected(token.slug, true)
+                  ? "bg-blue-700 text-white border-blue-700"
+                  : "bg-blue-50 text-blue-800 border-blue-200 hover:bg-blue-100"
+              }`}
+              title={`${token.name}: ${token.size} (site spacing)`}
+            >
+              {token.slug}
+            </button>
+          ))}
           {SPACING_KEYS.map((key) => {
             const resolved = (tokenSpacing as Record<string, string>)[key]
             if (!resolved) return null
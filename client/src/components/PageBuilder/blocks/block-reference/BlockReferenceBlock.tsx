@@ -0,0 +1,220 @@
+import React, { createContext, useContext } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { BlockConfig, BlockContent, Pattern } from "@shared/schema-types";
+import { BLOCK_REFERENCE, MAX_REFERENCE_DEPTH, copyBlocks } from "@shared/block-references";
+import type { BlockDefinition, BlockComponentProps } from "../types.ts";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CollapsibleCard } from "@/components/ui/collapsible-card";
+import { Repeat2 as PatternIcon, ExternalLink, Unlink } from "lucide-react";
+import { getBlockStateAccessor } from "../blockStateRegistry";
+import { useBlockState } from "../useBlockState";
+import { useBlockActions } from "../../BlockActionsContext";
+import BlockRenderer from "../../BlockRenderer";
+import { generateBlockId } from "../../utils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type BlockReferenceData = {
+  ref?: string;
+};
+
+type BlockReferenceContent = { kind: "structured"; data: BlockReferenceData };
+
+const DEFAULT_CONTENT: BlockReferenceContent = {
+  kind: "structured",
+  data: { ref: "" },
+};
+
+interface PatternsApiResponse {
+  patterns: Pattern[];
+  total: number;
+}
+
+/** Patterns being rendered around the current block, to stop a pattern from rendering itself */
+const ExpandingPatternsContext = createContext<string[]>([]);
+
+function usePattern(ref: string | undefined) {
+  return useQuery<Pattern>({
+    queryKey: [`/api/patterns/${ref}`],
+    enabled: !!ref,
+  });
+}
+
+// ============================================================================
+// RENDERER
+// ============================================================================
+
+interface BlockReferenceRendererProps {
+  blockId: string;
+  data: BlockReferenceData;
+  styles?: React.CSSProperties;
+}
+
+function BlockReferenceRenderer({ blockId, data, styles }: BlockReferenceRendererProps) {
+  const expanding = useContext(ExpandingPatternsContext);
+  const { data: pattern, isLoading, isError } = usePattern(data.ref);
+
+  const placeholder = (message: string) => (
+    <div className="wp-block-block-reference" style={styles}>
+      <div className="flex items-center gap-2 rounded border border-dashed border-purple-300 bg-purple-50 p-4 text-sm text-purple-700">
+        <PatternIcon className="h-4 w-4" />
+        {message}
+      </div>
+    </div>
+  );
+
+  if (!data.ref) return placeholder("Choose a synced pattern in the block settings");
+  if (isLoading) return placeholder("Loading pattern…");
+  if (isError || !pattern) return placeholder("This pattern was deleted");
+  if (expanding.includes(pattern.id) || expanding.length >= MAX_REFERENCE_DEPTH) {
+    return placeholder(`"${pattern.name}" cannot contain itself`);
+  }
+
+  // Same IDs as the server-side resolution, so block-scoped CSS matches the published page
+  const blocks = copyBlocks((pattern.blocks ?? []) as BlockConfig[], (child) => `${blockId}-${child.id}`, blockId);
+
+  return (
+    <ExpandingPatternsContext.Provider value={[...expanding, pattern.id]}>
+      <div className="wp-block-block-reference relative outline outline-1 outline-purple-200" style={styles}>
+        {blocks.map((child) => (
+          <BlockRenderer
+            key={child.id}
+            block={child}
+            isSelected={false}
+            isPreview={true}
+            onDuplicate={() => undefined}
+            onDelete={() => undefined}
+          />
+        ))}
+      </div>
+    </ExpandingPatternsContext.Provider>
+  );
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function BlockReferenceBlockComponent({
+  value,
+  onChange,
+}: BlockComponentProps) {
+  const { content, styles } = useBlockState<BlockReferenceContent>({
+    value,
+    getDefaultContent: () => DEFAULT_CONTENT,
+    onChange,
+  });
+
+  return <BlockReferenceRenderer blockId={value.id} data={{ ...content?.data }} styles={styles} />;
+}
+
+// ============================================================================
+// SETTINGS COMPONENT
+// ============================================================================
+
+interface BlockReferenceSettingsProps {
+  block: BlockConfig;
+  onUpdate?: (updates: Partial<BlockConfig>) => void;
+}
+
+function BlockReferenceSettings({ block, onUpdate }: BlockReferenceSettingsProps) {
+  const accessor = getBlockStateAccessor(block.id);
+  const actions = useBlockActions();
+  const [, setUpdateTrigger] = React.useState(0);
+
+  const content = accessor
+    ? (accessor.getContent() as BlockReferenceContent)
+    : (block.content as BlockReferenceContent) || DEFAULT_CONTENT;
+  const ref = content?.data?.ref || "";
+
+  const { data: patternsData } = useQuery<PatternsApiResponse>({
+    queryKey: ["/api/patterns", { per_page: 100 }],
+  });
+  const { data: pattern } = usePattern(ref);
+
+  const updateData = (updates: Partial<BlockReferenceData>) => {
+    if (accessor) {
+      const current = accessor.getContent() as BlockReferenceContent;
+      accessor.setContent({ kind: "structured", data: { ...current?.data, ...updates } });
+      setUpdateTrigger((prev) => prev + 1);
+    } else if (onUpdate) {
+      onUpdate({
+        content: {
+          kind: "structured",
+          data: { ...content?.data, ...updates },
+        } as BlockContent,
+      });
+    }
+  };
+
+  // Local copies get fresh IDs; later edits to the pattern no longer reach them
+  const detach = () => {
+    if (!pattern || !actions?.onReplace) return;
+    actions.onReplace(block.id, copyBlocks((pattern.blocks ?? []) as BlockConfig[], () => generateBlockId()));
+  };
+
+  return (
+    <div className="space-y-4">
+      <CollapsibleCard title="Synced Pattern" icon={PatternIcon} defaultOpen={true}>
+        <div className="space-y-4">
+          <div>
+            <Label className="text-sm font-medium text-gray-700">Pattern</Label>
+            <Select value={ref || undefined} onValueChange={(value) => updateData({ ref: value })}>
+              <SelectTrigger className="mt-1 h-9">
+                <SelectValue placeholder="Choose a pattern" />
+              </SelectTrigger>
+              <SelectContent>
+                {patternsData?.patterns.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {pattern && (
+            <>
+              <p className="text-xs text-gray-500">
+                Changes to this pattern show up everywhere it is used. Edit the pattern itself, or
+                detach this instance to change it here only.
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" asChild>
+                  <a href={`/admin/page-builder/pattern/${pattern.id}`} target="_blank" rel="noreferrer">
+                    <ExternalLink className="mr-1 h-3 w-3" /> Edit pattern
+                  </a>
+                </Button>
+                <Button variant="outline" size="sm" onClick={detach} disabled={!actions?.onReplace}>
+                  <Unlink className="mr-1 h-3 w-3" /> Detach
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </CollapsibleCard>
+    </div>
+  );
+}
+
+// ============================================================================
+// BLOCK DEFINITION
+// ============================================================================
+
+const BlockReferenceBlock: BlockDefinition = {
+  id: BLOCK_REFERENCE,
+  label: 'Synced Pattern',
+  icon: PatternIcon,
+  description: 'Reusable blocks that update everywhere they are used',
+  category: 'layout',
+  defaultContent: DEFAULT_CONTENT,
+  defaultStyles: {},
+  component: BlockReferenceBlockComponent,
+  settings: BlockReferenceSettings,
+  hasSettings: true,
+};
+
+export default BlockReferenceBlock;
@@ -25,6 +25,8 @@ import PreformattedBlock from './preformatted/PreformattedBlock';
 import TableBlock from './table/TableBlock';
 import MarkdownBlock from './markdown/MarkdownBlock';
 import IconBlock from './icon/IconBlock';
+import SearchBlock from './search/SearchBlock';
+import BlockReferenceBlock from './block-reference/BlockReferenceBlock';
 
 // Post blocks
 import PostTitleBlock from './post-title/PostTitleBlock';
@@ -66,6 +68,8 @@ if (import.meta.env.DEBUG_BUILDER) {
     TableBlock,
     MarkdownBlock,
     IconBlock,
+    SearchBlock,
+    BlockReferenceBlock,
     PostTitleBlock,
     PostExcerptBlock,
     PostFeaturedImageBlock,
@@ -106,7 +110,9 @@ export const blockRegistry: Record<string, BlockDefinition> = {
   'core/table': TableBlock,
   'core/markdown': MarkdownBlock,
   'core/icon': IconBlock,
+  'core/search': SearchBlock,
   'core/divider': DividerBlock,
+  'core/block-reference': BlockReferenceBlock,
 
   // Post blocks
   'post/title': PostTitleBlock,
@@ -128,6 +128,14 @@ function computeReadTime(wordCount: number | undefined): string {
   return `${Math.max(1, Math.ceil(wordCount / WORDS_PER_MINUTE))} min read`;
 }
 
+/** Reduce API terms ({ name, slug } objects) to display names. */
+function termNames(terms: unknown): string[] | undefined {
+  if (!Array.isArray(terms)) return undefined;
+  return terms
+    .map((term) => (typeof term === 'string' ? term : term?.name))
+    .filter((name): name is string => typeof name === 'string');
+}
+
 /** Fetch post metadata from the API. Returns null while loading or on failure. */
 function usePostMeta(
   postId: string | undefined,
@@ -148,8 +156,8 @@ function usePostMeta(
   if (!data) return null;
   return {
     publishedAt: data.publishedAt,
-    categories: data.categories,
-    tags: data.tags,
+    categories: termNames(data.categories),
+    tags: termNames(data.tags),
     wordCount: data.wordCount,
   };
 }
@@ -36,6 +36,10 @@ export type PostListContent = {
   showDate?: boolean;
   showAuthor?: boolean;
   blogId?: string;
+  /** Category slug or ID; includes posts in its subcategories */
+  category?: string;
+  /** Tag slug or ID */
+  tag?: string;
   orderBy?: 'date' | 'title';
   order?: 'asc' | 'desc';
   className?: string;
@@ -59,6 +63,8 @@ const DEFAULT_CONTENT: PostListContent = {
   showDate: true,
   showAuthor: true,
   blogId: '',
+  category: '',
+  tag: '',
   orderBy: 'date',
   order: 'desc',
   className: '',
@@ -123,7 +129,7 @@ function PostListRenderer({
   const shouldFetchReal = isPreview || !!cfg.blogId;
 
   const { data, isLoading, isError, error } = useQuery({
-    queryKey: ['posts', cfg.blogId, cfg.postsPerPage, cfg.orderBy, cfg.order],
+    queryKey: ['posts', cfg.blogId, cfg.category, cfg.tag, cfg.postsPerPage, cfg.orderBy, cfg.order],
     queryFn: async () => {
       const statusParam = isPreview ? 'publish' : 'any';
       const params = new URLSearchParams({
@@ -131,6 +137,8 @@ function PostListRenderer({
         status: statusParam,
       });
       if (cfg.blogId) params.set('blog_id', cfg.blogId);
+      if (cfg.category) params.set('category', cfg.category);
+      if (cfg.tag) params.set('tag', cfg.tag);
       if (cfg.orderBy) params.set('order_by', cfg.orderBy);
       if (cfg.order) params.set('order', cfg.order);
 
@@ -503,6 +511,26 @@ function PostListSettings({
               placeholder="Filter by blog ID"
             />
           </div>
+          <div>
+            <Label htmlFor="pl-category">Category (optional)</Label>
+            <Input
+              id="pl-category"
+              className="h-9"
+              value={content.category ?? ''}
+              onChange={(e) => updateContent({ category: e.target.value })}
+              placeholder="Category slug"
+            />
+          </div>
+          <div>
+            <Label htmlFor="pl-tag">Tag (optional)</Label>
+            <Input
+              id="pl-tag"
+              className="h-9"
+              value={content.tag ?? ''}
+              onChange={(e) => updateContent({ tag: e.target.value })}
+              placeholder="Tag slug"
+            />
+          </div>
           <div>
             <Label htmlFor="pl-orderby">Order by</Label>
             <Select
@@ -0,0 +1,193 @@
+import React from "react";
+import type { BlockConfig, BlockContent } from "@shared/schema-types";
+import type { BlockDefinition, BlockComponentProps } from "../types.ts";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { CollapsibleCard } from "@/components/ui/collapsible-card";
+import { Search as SearchIcon, Type } from "lucide-react";
+import { getBlockStateAccessor } from "../blockStateRegistry";
+import { useBlockState } from "../useBlockState";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type SearchData = {
+  label?: string;
+  showLabel?: boolean;
+  placeholder?: string;
+  buttonText?: string;
+};
+
+type SearchContent = { kind: "structured"; data: SearchData };
+
+const DEFAULT_DATA: SearchData = {
+  label: "Search",
+  showLabel: true,
+  placeholder: "Search…",
+  buttonText: "Search",
+};
+
+const DEFAULT_CONTENT: SearchContent = {
+  kind: "structured",
+  data: DEFAULT_DATA,
+};
+
+// ============================================================================
+// RENDERER
+// ============================================================================
+
+interface SearchRendererProps {
+  data: SearchData;
+  styles?: React.CSSProperties;
+  isPreview?: boolean;
+}
+
+function SearchRenderer({ data, styles, isPreview }: SearchRendererProps) {
+  const label = data.label || "Search";
+
+  return (
+    <form
+      role="search"
+      method="get"
+      action="/search"
+      className="wp-block-search"
+      style={styles}
+      onSubmit={(e) => (isPreview ? undefined : e.preventDefault())}
+    >
+      {data.showLabel !== false && (
+        <label className="wp-block-search__label block text-sm font-medium mb-1">{label}</label>
+      )}
+      <div className="wp-block-search__inside-wrapper flex gap-2">
+        <input
+          type="search"
+          name="q"
+          aria-label={data.showLabel === false ? label : undefined}
+          className="wp-block-search__input flex-1 border border-gray-300 rounded px-3 py-2"
+          placeholder={data.placeholder || undefined}
+          readOnly={!isPreview}
+        />
+        <button type="submit" className="wp-block-search__button wp-element-button px-4 py-2 rounded bg-gray-900 text-white">
+          {data.buttonText || "Search"}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function SearchBlockComponent({
+  value,
+  onChange,
+  isPreview,
+}: BlockComponentProps) {
+  const { content, styles } = useBlockState<SearchContent>({
+    value,
+    getDefaultContent: () => DEFAULT_CONTENT,
+    onChange,
+  });
+
+  return <SearchRenderer data={{ ...DEFAULT_DATA, ...content?.data }} styles={styles} isPreview={isPreview} />;
+}
+
+// ============================================================================
+// SETTINGS COMPONENT
+// ============================================================================
+
+interface SearchSettingsProps {
+  block: BlockConfig;
+  onUpdate?: (updates: Partial<BlockConfig>) => void;
+}
+
+function SearchSettings({ block, onUpdate }: SearchSettingsProps) {
+  const accessor = getBlockStateAccessor(block.id);
+  const [, setUpdateTrigger] = React.useState(0);
+
+  const content = accessor
+    ? (accessor.getContent() as SearchContent)
+    : (block.content as SearchContent) || DEFAULT_CONTENT;
+  const data = { ...DEFAULT_DATA, ...content?.data };
+
+  const updateData = (updates: Partial<SearchData>) => {
+    if (accessor) {
+      const current = accessor.getContent() as SearchContent;
+      accessor.setContent({ kind: "structured", data: { ...current?.data, ...updates } });
+      setUpdateTrigger((prev) => prev + 1);
+    } else if (onUpdate) {
+      onUpdate({
+        content: {
+          kind: "structured",
+          data: { ...data, ...updates },
+        } as BlockContent,
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <CollapsibleCard title="Content" icon={Type} defaultOpen={true}>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="search-label" className="text-sm font-medium text-gray-700">Label</Label>
+            <Input
+              id="search-label"
+              value={data.label || ""}
+              onChange={(e) => updateData({ label: e.target.value })}
+              className="mt-1 h-9"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="search-show-label" className="text-sm font-medium text-gray-700">Show label</Label>
+            <Switch
+              id="search-show-label"
+              checked={data.showLabel !== false}
+              onCheckedChange={(checked) => updateData({ showLabel: checked })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="search-placeholder" className="text-sm font-medium text-gray-700">Placeholder</Label>
+            <Input
+              id="search-placeholder"
+              value={data.placeholder || ""}
+              onChange={(e) => updateData({ placeholder: e.target.value })}
+              className="mt-1 h-9"
+            />
+          </div>
+          <div>
+            <Label htmlFor="search-button-text" className="text-sm font-medium text-gray-700">Button text</Label>
+            <Input
+              id="search-button-text"
+              value={data.buttonText || ""}
+              onChange={(e) => updateData({ buttonText: e.target.value })}
+              className="mt-1 h-9"
+            />
+          </div>
+          <p className="text-xs text-gray-500">Submits to the site search page (/search).</p>
+        </div>
+      </CollapsibleCard>
+    </div>
+  );
+}
+
+// ============================================================================
+// BLOCK DEFINITION
+// ============================================================================
+
+const SearchBlock: BlockDefinition = {
+  id: 'core/search',
+  label: 'Search',
+  icon: SearchIcon,
+  description: 'Search form for posts and pages',
+  category: 'advanced',
+  defaultContent: DEFAULT_CONTENT,
+  defaultStyles: {},
+  component: SearchBlockComponent,
+  settings: SearchSettings,
+  hasSettings: true,
+};
+
+export default SearchBlock;
@@ -40,6 +40,19 @@ const CONDITION_TYPES: ConditionTypeDefinitionUI[] = [
     description: "Show on archive or listing pages",
     hasValue: false,
   },
+  {
+    type: "archive_type",
+    label: "Archive Type",
+    description: "Show on a specific kind of archive",
+    hasValue: true,
+    valueType: "select",
+    valueOptions: [
+      { value: "category", label: "Category" },
+      { value: "tag", label: "Tag" },
+      { value: "author", label: "Author" },
+      { value: "date", label: "Date" },
+    ],
+  },
   {
     type: "is_404",
     label: "Is 404 Page",
@@ -43,6 +43,7 @@ const TEMPLATE_TYPES = [
   { value: "footer", label: "Footer" },
   { value: "page", label: "Page" },
   { value: "post", label: "Post" },
+  { value: "archive", label: "Archive" },
   { value: "popup", label: "Popup" },
 ];
 
@@ -66,6 +66,21 @@ const VARIABLE_NAMESPACES: VariableNamespaceUI[] = [
       { key: "url", label: "Author URL", description: "The profile URL", example: "https://example.com/author/jane" },
     ],
   },
+  {
+    name: "archive",
+    label: "Archive",
+    description: "Category, tag, author or date archive",
+    variables: [
+      { key: "title", label: "Archive Title", description: "Term name, author name or month", example: "News" },
+      { key: "description", label: "Archive Description", description: "Term description or author bio", example: "Company announcements" },
+      { key: "type", label: "Archive Type", description: "category, tag, author or date", example: "category" },
+      { key: "slug", label: "Archive Slug", description: "Term slug or author username", example: "news" },
+      { key: "url", label: "Archive URL", description: "The archive permalink", example: "https://example.com/category/news" },
+      { key: "page", label: "Page Number", description: "Current listing page", example: "2" },
+      { key: "total_pages", label: "Total Pages", description: "Number of listing pages", example: "5" },
+      { key: "total_posts", label: "Total Posts", description: "Posts in the archive", example: "42" },
+    ],
+  },
   {
     name: "date",
     label: "Date",
@@ -87,7 +102,7 @@ interface VariablePickerProps {
 
 /**
  * VariablePicker — dropdown for inserting template variables.
- * Groups variables by namespace (Site, Post, Page, Author, Date).
+ * Groups variables by namespace (Site, Post, Page, Author, Archive, Date).
  * Clicking a variable inserts {{namespace.field}} at the cursor position.
  */
 export function VariablePicker({ onInsert }: VariablePickerProps) {
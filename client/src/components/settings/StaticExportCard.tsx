@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Download, FileArchive, Trash2 } from 'lucide-react';
+import { Spinner } from '@/components/ui/spinner';
+import { apiRequest } from '@/lib/queryClient';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+export interface StaticExportSummary {
+  name: string;
+  createdAt: string;
+  files: number;
+  pages: number;
+}
+
+interface StaticExportResult {
+  name: string;
+  pages: number;
+  posts: number;
+  blogs: number;
+  files: number;
+  assets: number;
+  durationMs: number;
+}
+
+/**
+ * Runs full-site static exports and lists previous ones for download.
+ * Exports contain published pages, posts, blog indexes and copied assets.
+ */
+export default function StaticExportCard() {
+  const queryClient = useQueryClient();
+  const [baseUrl, setBaseUrl] = useState('');
+
+  const { data: exports = [], isLoading } = useQuery<StaticExportSummary[]>({
+    queryKey: ['/api/export'],
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/export', baseUrl ? { baseUrl } : {});
+      return (await response.json()) as StaticExportResult;
+    },
+    onSuccess: (result) => {
+      toast.success(
+        `Exported ${result.files} HTML files (${result.pages} pages, ${result.posts} posts) in ${result.durationMs}ms`
+      );
+      queryClient.invalidateQueries({ queryKey: ['/api/export'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Export failed: ${error.message}`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await apiRequest('DELETE', `/api/export/${name}`);
+    },
+    onSuccess: () => {
+      toast.success('Export deleted');
+      queryClient.invalidateQueries({ queryKey: ['/api/export'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to delete export: ${error.message}`);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <FileArchive className="w-5 h-5 mr-2 text-wp-blue" />
+          Static Export
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Render every published page, post and blog index to static HTML with
+          relative links, ready to upload to any CDN or bucket.
+        </p>
+
+        <div className="flex flex-col md:flex-row md:items-end gap-3">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="exportBaseUrl">Public URL (optional)</Label>
+            <Input
+              id="exportBaseUrl"
+              placeholder="https://static.example.com"
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+            />
+          </div>
+          <Button
+            onClick={() => exportMutation.mutate()}
+            disabled={exportMutation.isPending}>
+            {exportMutation.isPending ? (
+              <Spinner className="w-4 h-4 mr-2" />
+            ) : (
+              <FileArchive className="w-4 h-4 mr-2" />
+            )}
+            Export Site
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Spinner className="w-5 h-5" />
+          </div>
+        ) : exports.length === 0 ? (
+          <p className="text-sm text-gray-500">No exports yet.</p>
+        ) : (
+          <div className="divide-y border rounded">
+            {exports.map((item) => (
+              <div
+                key={item.name}
+                className="flex items-center justify-between p-3">
+                <div>
+                  <div className="text-sm font-medium text-gray-700">
+                    {format(new Date(item.createdAt), 'PPpp')}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {item.pages} HTML files · {item.files} files total
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/export/${item.name}/download`} download>
+                      <Download className="w-4 h-4 mr-1" />
+                      Download
+                    </a>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(item.name)}
+                    disabled={deleteMutation.isPending}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,275 @@
+import { Fragment, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import {
+	Dialog,
+	DialogContent,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Role } from "@shared/schema-types";
+import {
+	CAPABILITIES,
+	getCapabilityNames,
+	type CapabilityGroup,
+} from "@shared/capabilities";
+
+export interface RolesResponse {
+	roles: Role[];
+	builtIn: string[];
+}
+
+const GROUP_LABELS: Record<CapabilityGroup, string> = {
+	posts: "Posts",
+	pages: "Pages",
+	media: "Media",
+	comments: "Comments",
+	design: "Design",
+	administration: "Administration",
+};
+
+const GROUP_ORDER = Object.keys(GROUP_LABELS) as CapabilityGroup[];
+
+/**
+ * Roles tab for the Users admin page.
+ * Shows a capability checkbox matrix (capabilities × roles) and lets admins
+ * create and delete custom roles. Every toggle is saved immediately.
+ */
+export function RolesPanel() {
+	const [isDialogOpen, setIsDialogOpen] = useState(false);
+	const [newRoleName, setNewRoleName] = useState("");
+	const [newRoleDescription, setNewRoleDescription] = useState("");
+
+	const { toast } = useToast();
+	const queryClient = useQueryClient();
+
+	const { data, isLoading } = useQuery<RolesResponse>({
+		queryKey: ["/api/roles"],
+	});
+
+	const roles = data?.roles || [];
+	const builtIn = data?.builtIn || [];
+
+	const updateMutation = useMutation({
+		mutationFn: async ({ id, capabilities }: { id: string; capabilities: string[] }) => {
+			return await apiRequest("PUT", `/api/roles/${id}`, { capabilities });
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+		},
+		onError: () => {
+			toast({
+				title: "Error",
+				description: "Failed to update role capabilities",
+				variant: "destructive",
+			});
+		},
+	});
+
+	const createMutation = useMutation({
+		mutationFn: async (role: { name: string; description: string }) => {
+			return await apiRequest("POST", "/api/roles", { ...role, capabilities: ["read_posts"] });
+		},
+		onSuccess: () => {
+			toast({ title: "Success", description: "Role created successfully" });
+			queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+			setIsDialogOpen(false);
+			setNewRoleName("");
+			setNewRoleDescription("");
+		},
+		onError: (error: Error) => {
+			toast({
+				title: "Error",
+				description: error.message || "Failed to create role",
+				variant: "destructive",
+			});
+		},
+	});
+
+	const deleteMutation = useMutation({
+		mutationFn: async (id: string) => {
+			return await apiRequest("DELETE", `/api/roles/${id}`);
+		},
+		onSuccess: () => {
+			toast({ title: "Success", description: "Role deleted successfully" });
+			queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+			queryClient.invalidateQueries({ queryKey: ["/api/roles/assignments"] });
+		},
+		onError: () => {
+			toast({
+				title: "Error",
+				description: "Failed to delete role",
+				variant: "destructive",
+			});
+		},
+	});
+
+	const toggleCapability = (role: Role, capability: string, checked: boolean) => {
+		const current = getCapabilityNames(role.capabilities);
+		const capabilities = checked
+			? [...current, capability]
+			: current.filter((c) => c !== capability);
+		updateMutation.mutate({ id: role.id, capabilities });
+	};
+
+	const handleDeleteRole = (role: Role) => {
+		if (confirm(`Delete the "${role.name}" role? Users holding it will lose its capabilities.`)) {
+			deleteMutation.mutate(role.id);
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<div className="flex items-center justify-between">
+					<CardTitle>Roles & Capabilities</CardTitle>
+					<Button
+						className="bg-wp-blue hover:bg-wp-blue-dark text-white"
+						onClick={() => setIsDialogOpen(true)}
+					>
+						<Plus className="w-4 h-4 mr-2" />
+						Add Role
+					</Button>
+				</div>
+			</CardHeader>
+			<CardContent className="overflow-x-auto">
+				{isLoading ? (
+					<div className="text-center py-8">Loading roles...</div>
+				) : (
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead className="min-w-[240px]">Capability</TableHead>
+								{roles.map((role) => (
+									<TableHead key={role.id} className="text-center">
+										<div className="flex items-center justify-center gap-1">
+											<span className="capitalize">{role.name}</span>
+											{!builtIn.includes(role.name) && (
+												<Button
+													variant="ghost"
+													size="sm"
+													className="h-6 w-6 p-0"
+													aria-label={`Delete ${role.name} role`}
+													onClick={() => handleDeleteRole(role)}
+													disabled={deleteMutation.isPending}
+												>
+													<Trash2 className="w-3 h-3" />
+												</Button>
+											)}
+										</div>
+										{builtIn.includes(role.name) && (
+											<Badge variant="outline" className="text-[10px]">
+												built-in
+											</Badge>
+										)}
+									</TableHead>
+								))}
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{GROUP_ORDER.map((group) => (
+								<Fragment key={group}>
+									<TableRow className="bg-gray-50">
+										<TableCell
+											colSpan={roles.length + 1}
+											className="font-semibold text-wp-gray text-xs uppercase tracking-wide"
+										>
+											{GROUP_LABELS[group]}
+										</TableCell>
+									</TableRow>
+									{CAPABILITIES.filter((c) => c.group === group).map((capability) => (
+										<TableRow key={capability.name}>
+											<TableCell>
+												<div className="font-medium text-sm">{capability.name}</div>
+												<div className="text-xs text-gray-500">
+													{capability.description}
+												</div>
+											</TableCell>
+											{roles.map((role) => (
+												<TableCell key={role.id} className="text-center">
+													<Checkbox
+														aria-label={`${role.name}: ${capability.name}`}
+														checked={getCapabilityNames(role.capabilities).includes(
+															capability.name,
+														)}
+														onCheckedChange={(checked) =>
+															toggleCapability(role, capability.name, checked === true)
+														}
+														disabled={updateMutation.isPending}
+													/>
+												</TableCell>
+											))}
+										</TableRow>
+									))}
+								</Fragment>
+							))}
+						</TableBody>
+					</Table>
+				)}
+			</CardContent>
+
+			<Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+				<DialogContent className="max-w-md">
+					<DialogHeader>
+						<DialogTitle>Add Role</DialogTitle>
+					</DialogHeader>
+					<div className="space-y-4">
+						<div className="space-y-2">
+							<Label htmlFor="role-name">Name</Label>
+							<Input
+								id="role-name"
+								placeholder="e.g. seo-editor"
+								value={newRoleName}
+								onChange={(e) => setNewRoleName(e.target.value)}
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="role-description">Description</Label>
+							<Textarea
+								id="role-description"
+								placeholder="What can this role do?"
+								value={newRoleDescription}
+								onChange={(e) => setNewRoleDescription(e.target.value)}
+							/>
+						</div>
+					</div>
+					<DialogFooter>
+						<Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+							Cancel
+						</Button>
+						<Button
+							className="bg-wp-blue hover:bg-wp-blue-dark"
+							disabled={!newRoleName.trim() || createMutation.isPending}
+							onClick={() =>
+								createMutation.mutate({
+									name: newRoleName.trim(),
+									description: newRoleDescription.trim(),
+								})
+							}
+						>
+							Create Role
+						</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+		</Card>
+	);
+}
@@ -7,6 +7,7 @@ import {
   duplicateBlockDeep as duplicateBlockDeepTree,
   setParentIds 
 } from '@/lib/handlers/treeUtils';
+import { applyBlockOperations, type BlockOperation } from '@shared/collaboration';
 
 export function useBlockManager(initialBlocks: BlockConfig[] = []) {
   const [blocks, setBlocks] = useState<BlockConfig[]>(() => {
@@ -68,6 +69,12 @@ export function useBlockManager(initialBlocks: BlockConfig[] = []) {
     return updateBlock(blockId, { styles: mergedStyles });
   }, [updateBlock, findBlockById]);
 
+  // Block operations from other editors; ones targeting missing blocks are skipped
+  const applyOperations = useCallback((operations: BlockOperation[]) => {
+    setBlocks(prev => setParentIds(applyBlockOperations(prev, operations), null));
+    return { status: operations.length > 0, data: null };
+  }, []);
+
   return {
     blocks,
     setBlocks,
@@ -77,5 +84,6 @@ export function useBlockManager(initialBlocks: BlockConfig[] = []) {
     updateBlockStyles,
     duplicateBlock,
     deleteBlock,
+    applyOperations,
   };
 }
@@ -0,0 +1,205 @@
+import { useEffect, useRef, useState } from 'react';
+import type { BlockConfig } from '@shared/schema-types';
+import {
+  COLLABORATION_PATH,
+  applyBlockOperation,
+  applyBlockOperations,
+  blockOperations,
+  type BlockOperation,
+  type CollaborationClientMessage,
+  type CollaborationServerMessage,
+  type Collaborator,
+} from '@shared/collaboration';
+
+const RECONNECT_DELAYS = [1000, 2000, 5000, 10000, 30000];
+
+interface UseCollaborationOptions {
+  pageId?: string;
+  enabled: boolean;
+  /** Blocks in the editor; changes to them are sent as operations */
+  blocks: BlockConfig[];
+  /** Locked for the other editors while selected */
+  selectedBlockId: string | null;
+  /** Blocks to show after another editor's operation, or after one of ours was rejected */
+  onRemoteChange: (blocks: BlockConfig[]) => void;
+  onRejected?: (reason: string) => void;
+  /** Someone saved the page as `version` */
+  onSaved?: (version: number, updatedAt: string | null) => void;
+}
+
+function send(socket: WebSocket | null, message: CollaborationClientMessage) {
+  if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+}
+
+/**
+ * Keeps the editor's blocks in step with the other editors of a page over
+ * the collaboration socket.
+ *
+ * Local changes are diffed into block operations and applied right away.
+ * The server's order wins: every operation it echoes is applied to the
+ * confirmed blocks, and ours that it has not echoed yet are replayed on top,
+ * so a remote edit never drops a local one unless the server rejected it.
+ * Undo steps back through this editor's own snapshots and sends the
+ * difference like any other edit.
+ */
+export function useCollaboration({
+  pageId,
+  enabled,
+  blocks,
+  selectedBlockId,
+  onRemoteChange,
+  onRejected,
+  onSaved,
+}: UseCollaborationOptions) {
+  const [connected, setConnected] = useState(false);
+  const [clientId, setClientId] = useState<string | null>(null);
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const clientIdRef = useRef<string | null>(null);
+  // Blocks in the server's order, our operations it has not echoed, and the blocks last sent or shown
+  const confirmedRef = useRef<BlockConfig[]>([]);
+  const pendingRef = useRef<BlockOperation[]>([]);
+  const syncedRef = useRef<BlockConfig[] | null>(null);
+  const opCountRef = useRef(0);
+
+  const blocksRef = useRef(blocks);
+  blocksRef.current = blocks;
+  const callbacksRef = useRef({ onRemoteChange, onRejected, onSaved });
+  callbacksRef.current = { onRemoteChange, onRejected, onSaved };
+
+  const nextOpId = () => `${clientIdRef.current ?? 'local'}-${++opCountRef.current}`;
+
+  /** Sends the editor's changes since the last sync */
+  const publish = (next: BlockConfig[]) => {
+    const synced = syncedRef.current;
+    if (!synced || next === synced) return;
+    const ops = blockOperations(synced, next, nextOpId);
+    syncedRef.current = next;
+    pendingRef.current = [...pendingRef.current, ...ops];
+    ops.forEach((op) => send(socketRef.current, { type: 'op', op }));
+  };
+
+  const showRebased = () => {
+    const next = applyBlockOperations(confirmedRef.current, pendingRef.current);
+    // The editor renders these next; until then they stand in for its blocks
+    syncedRef.current = next;
+    blocksRef.current = next;
+    callbacksRef.current.onRemoteChange(next);
+  };
+
+  const receive = (message: CollaborationServerMessage) => {
+    switch (message.type) {
+      case 'welcome': {
+        const current = blocksRef.current;
+        clientIdRef.current = message.clientId;
+        setClientId(message.clientId);
+        setCollaborators(message.peers);
+        if (!message.peers.some((peer) => peer.clientId !== message.clientId)) {
+          // First in the room: our blocks, drafts included, become the shared copy
+          confirmedRef.current = current;
+          pendingRef.current = [];
+          syncedRef.current = current;
+          send(socketRef.current, { type: 'sync', blocks: current });
+        } else {
+          // Join the others; after a reconnect, edits made while offline are replayed on top
+          const offline = syncedRef.current ? blockOperations(syncedRef.current, current, nextOpId) : [];
+          confirmedRef.current = message.blocks;
+          pendingRef.current = syncedRef.current ? [...pendingRef.current, ...offline] : [];
+          pendingRef.current.forEach((op) => send(socketRef.current, { type: 'op', op }));
+          showRebased();
+        }
+        setConnected(true);
+        return;
+      }
+      case 'op': {
+        // Send anything typed since the last render before rebasing on top of it
+        publish(blocksRef.current);
+        confirmedRef.current = applyBlockOperation(confirmedRef.current, message.op);
+        if (message.clientId === clientIdRef.current) {
+          pendingRef.current = pendingRef.current.filter((op) => op.opId !== message.op.opId);
+        } else {
+          showRebased();
+        }
+        return;
+      }
+      case 'rejected':
+        publish(blocksRef.current);
+        pendingRef.current = pendingRef.current.filter((op) => op.opId !== message.opId);
+        showRebased();
+        callbacksRef.current.onRejected?.(message.reason);
+        return;
+      case 'presence':
+        setCollaborators(message.peers);
+        return;
+      case 'saved':
+        callbacksRef.current.onSaved?.(message.version, message.updatedAt);
+        return;
+      case 'error':
+        console.warn('[Collaboration]', message.message);
+        return;
+    }
+  };
+  const receiveRef = useRef(receive);
+  receiveRef.current = receive;
+
+  useEffect(() => {
+    if (!enabled || !pageId) return;
+
+    let stopped = false;
+    let attempt = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const socket = new WebSocket(
+        `${protocol}//${window.location.host}${COLLABORATION_PATH}?pageId=${encodeURIComponent(pageId)}`,
+      );
+      socketRef.current = socket;
+
+      socket.onmessage = (event) => {
+        attempt = 0;
+        try {
+          receiveRef.current(JSON.parse(event.data));
+        } catch (error) {
+          console.warn('[Collaboration] Could not handle message', error);
+        }
+      };
+      socket.onclose = () => {
+        if (socketRef.current === socket) socketRef.current = null;
+        setConnected(false);
+        setCollaborators([]);
+        if (stopped) return;
+        retryTimer = setTimeout(connect, RECONNECT_DELAYS[Math.min(attempt++, RECONNECT_DELAYS.length - 1)]);
+      };
+    };
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+      syncedRef.current = null;
+      pendingRef.current = [];
+    };
+  }, [enabled, pageId]);
+
+  // Local edits
+  useEffect(() => {
+    if (connected) publish(blocks);
+  }, [blocks, connected]);
+
+  // Selecting a block locks it for everyone else
+  useEffect(() => {
+    if (connected) send(socketRef.current, { type: 'select', blockId: selectedBlockId });
+  }, [selectedBlockId, connected]);
+
+  const peers = collaborators.filter((collaborator) => collaborator.clientId !== clientId);
+  const lockedBlocks: Record<string, Collaborator> = {};
+  peers.forEach((peer) => {
+    if (peer.blockId) lockedBlocks[peer.blockId] = peer;
+  });
+
+  return { connected, clientId, peers, lockedBlocks };
+}
@@ -1,7 +1,7 @@
 import { useCallback } from 'react';
 import type { DropResult } from '@/lib/dnd';
 import type { BlockConfig } from '@shared/schema-types';
-import { insertNewBlock, moveExistingBlock } from '@/lib/handlers/treeUtils';
+import { insertBlocks, insertNewBlock, moveExistingBlock } from '@/lib/handlers/treeUtils';
 import { useToast } from '@/hooks/use-toast';
 import { blockRegistry } from '@/components/PageBuilder/blocks';
 
@@ -108,12 +108,41 @@ function updateColumnAssignments(
   return next;
 }
 
+// Register newly inserted blocks in a column of a Columns block, at a column position
+function assignToColumn(
+  blocks: BlockConfig[],
+  columnsBlockId: string,
+  columnIndex: number,
+  position: number,
+  ids: string[],
+): BlockConfig[] {
+  return updateColumnAssignments(blocks, columnsBlockId, (layout) => {
+    const nextLayout = layout.map((c: any) => ({
+      ...c,
+      blockIds: Array.isArray(c.blockIds) ? [...c.blockIds] : [],
+    }));
+    const column = nextLayout[columnIndex];
+    // Ensure the ids are not present in any column
+    nextLayout.forEach((c: any) => {
+      c.blockIds = c.blockIds.filter((id: string) => !ids.includes(id));
+    });
+    const pos = Math.max(0, Math.min(position, column.blockIds.length));
+    column.blockIds.splice(pos, 0, ...ids);
+    return nextLayout;
+  });
+}
+
+/**
+ * @param resolvePattern - Blocks to insert for a draggable from the pattern
+ * library, or null when the draggable is not a known pattern
+ */
 export function useDragAndDropHandler(
   blocks: BlockConfig[],
   setBlocks: (blocks: BlockConfig[]) => void,
   setSelectedBlockId: (id: string) => void,
   setActiveTab: (tab: 'blocks' | 'settings') => void,
   currentPostId?: string,
+  resolvePattern?: (draggableId: string) => BlockConfig[] | null,
 ) {
   const { toast } = useToast();
 
@@ -169,6 +198,40 @@ export function useDragAndDropHandler(
             )
           : destination.index;
 
+        const patternBlocks = isFromLibrary ? resolvePattern?.(draggableId) : null;
+        if (patternBlocks) {
+          const next = insertBlocks(
+            blocks,
+            destParentId,
+            destIndexGlobal,
+            patternBlocks,
+          );
+          if (next === blocks || patternBlocks.length === 0) {
+            toast({
+              title: 'Failed to add pattern',
+              description: 'Could not insert pattern at the specified location',
+              variant: 'destructive',
+            });
+            return;
+          }
+
+          const newIds = patternBlocks.map((b) => b.id);
+          setBlocks(
+            destColCtx
+              ? assignToColumn(
+                  next,
+                  destColCtx.columnsBlock.id,
+                  destColCtx.columnIndex,
+                  destination.index,
+                  newIds,
+                )
+              : next,
+          );
+          setSelectedBlockId(newIds[0]);
+          setActiveTab('settings');
+          return;
+        }
+
         if (isFromLibrary) {
           console.log('[DND-DEBUG] Inserting from library:', {
             draggableId,
@@ -227,30 +290,12 @@ export function useDragAndDropHandler(
           // If dropped into a Columns column, register assignment in columnLayout
           const withAssignment =
             destColCtx && inserted.newId
-              ? updateColumnAssignments(
+              ? assignToColumn(
                   blocksWithPostId,
                   destColCtx.columnsBlock.id,
-                  (layout) => {
-                    const nextLayout = layout.map((c: any) => ({
-                      ...c,
-                      blockIds: Array.isArray(c.blockIds)
-                        ? [...c.blockIds]
-                        : [],
-                    }));
-                    const column = nextLayout[destColCtx.columnIndex];
-                    // Ensure the id is not present in any column
-                    nextLayout.forEach((c: any) => {
-                      c.blockIds = c.blockIds.filter(
-                        (id: string) => id !== inserted.newId,
-                      );
-                    });
-                    const pos = Math.max(
-                      0,
-                      Math.min(destination.index, column.blockIds.length),
-                    );
-                    column.blockIds.splice(pos, 0, inserted.newId);
-                    return nextLayout;
-                  },
+                  destColCtx.columnIndex,
+                  destination.index,
+                  [inserted.newId],
                 )
               : blocksWithPostId;
 
@@ -361,7 +406,15 @@ export function useDragAndDropHandler(
         });
       }
     },
-    [blocks, setBlocks, setSelectedBlockId, setActiveTab, toast, currentPostId],
+    [
+      blocks,
+      setBlocks,
+      setSelectedBlockId,
+      setActiveTab,
+      toast,
+      currentPostId,
+      resolvePattern,
+    ],
   );
 
   return { handleDragEnd };
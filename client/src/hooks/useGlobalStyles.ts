@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_GLOBAL_STYLES, globalStylesSchema, type GlobalStyles } from "@shared/global-styles";
+
+export const GLOBAL_STYLES_QUERY_KEY = ["/api/themes/active/styles"];
+
+/**
+ * Global styles of the active theme, used by the token pickers, the builder
+ * canvas and the Site Styles screen. Returns the defaults until the request
+ * resolves, and for responses that don't validate.
+ */
+export function useGlobalStyles(): { styles: GlobalStyles; isLoading: boolean } {
+	const { data, isLoading } = useQuery<unknown, Error, GlobalStyles>({
+		queryKey: GLOBAL_STYLES_QUERY_KEY,
+		select: (response) => globalStylesSchema.safeParse(response).data ?? DEFAULT_GLOBAL_STYLES,
+	});
+	return { styles: data ?? DEFAULT_GLOBAL_STYLES, isLoading };
+}
@@ -1,11 +1,25 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { ApiError, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { BlockConfig, Page, Post } from "@shared/schema-types";
+import type { BlockConfig, Page, Post, VersionConflict } from "@shared/schema-types";
 import { savePageDraft } from "@/lib/pageDraftStorage";
 
 type SaveContentType = "page" | "post";
 
+/**
+ * The 409 body of a save rejected because the page or post moved on since it
+ * was loaded, or null for any other error
+ */
+export function readVersionConflict(error: unknown): VersionConflict | null {
+	if (!(error instanceof ApiError) || error.status !== 409) return null;
+	try {
+		const body = JSON.parse(error.body);
+		return body?.current ? (body as VersionConflict) : null;
+	} catch {
+		return null;
+	}
+}
+
 function getEntityLabel(isTemplate: boolean, contentType: SaveContentType) {
 	if (isTemplate) return "Template";
 	return contentType === "post" ? "Post" : "Page";
@@ -17,6 +31,7 @@ export function usePageSave({
 	onSave,
 	pageMeta,
 	contentType = "page",
+	onConflict,
 }: {
 	isTemplate: boolean;
 	data: Page | Post | undefined;
@@ -29,6 +44,7 @@ export function usePageSave({
 		other?: Record<string, unknown>;
 	};
 	contentType?: SaveContentType;
+	onConflict?: (conflict: VersionConflict) => void;
 }) {
 	const toast = useToast();
 	const queryClient = useQueryClient();
@@ -48,9 +64,8 @@ export function usePageSave({
 				blocks: builderData,
 			};
 
-			if (contentType === "page") {
-				payload.version = pageMeta?.version ?? (data as Page).version ?? 0;
-			}
+			// The server rejects the save with 409 if someone else saved since this version
+			payload.version = pageMeta?.version ?? data.version ?? 0;
 
 			if (pageMeta?.other) {
 				payload.other = pageMeta.other;
@@ -82,7 +97,12 @@ export function usePageSave({
 				queryClient.invalidateQueries({ queryKey: [`/api/posts/${data?.id}`] });
 			}
 		},
-		onError: () => {
+		onError: (error) => {
+			const conflict = readVersionConflict(error);
+			if (conflict && onConflict) {
+				onConflict(conflict);
+				return;
+			}
 			toast.toast({
 				title: "Error",
 				description: `Failed to save ${getEntityLabel(isTemplate, contentType).toLowerCase()}`,
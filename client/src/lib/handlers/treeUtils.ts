@@ -1,6 +1,7 @@
 
 import { generateId } from '@/lib/utils';
 import type { BlockConfig } from '@shared/schema-types';
+import { changedFields, diffBlocks } from '@shared/block-diff';
 import { blockRegistry, getDefaultBlock as getDefaultBlockExport } from '@/components/PageBuilder/blocks';
 
 export function findBlock(rootBlocks: BlockConfig[], targetId: string): BlockConfig | null {
@@ -71,6 +72,30 @@ export function insertNewBlock(rootBlocks: BlockConfig[], parentId: string | nul
   return { blocks: clone, newId: newBlock.id };
 }
 
+/**
+ * Insert ready-made blocks (e.g. a pattern's) at a position, adopting the parent
+ * @param rootBlocks Root block list
+ * @param parentId Container to insert into, or null for the root
+ * @param index Position inside the container
+ * @param newBlocks Blocks to insert
+ * @returns The next tree, or `rootBlocks` itself when the parent is unknown
+ */
+export function insertBlocks(rootBlocks: BlockConfig[], parentId: string | null, index: number, newBlocks: BlockConfig[]): BlockConfig[] {
+  const clone = structuredClone(rootBlocks) as BlockConfig[];
+  const adopted = newBlocks.map((b) => ({ ...b, parentId }));
+
+  if (!parentId) {
+    clone.splice(index, 0, ...adopted);
+    return clone;
+  }
+
+  const parent = findBlock(clone, parentId);
+  if (!parent) return rootBlocks;
+  if (!Array.isArray(parent.children)) parent.children = [];
+  parent.children.splice(index, 0, ...adopted);
+  return clone;
+}
+
 // Helper to find the parent list and index of a block
 function findParent(list: BlockConfig[], parentId: string | null): { container: BlockConfig[], parentBlock: BlockConfig | null } {
     if (parentId === null) {
@@ -281,6 +306,41 @@ export function deleteBlockDeep(rootBlocks: BlockConfig[], targetId: string): {
   return { found, next };
 }
 
+/**
+ * Replace a block with zero or more blocks in the same position, adopting its parent
+ * @param rootBlocks Root block list
+ * @param targetId ID of the block to replace
+ * @param replacements Blocks to put in its place
+ */
+export function replaceBlockDeep(rootBlocks: BlockConfig[], targetId: string, replacements: BlockConfig[]): { found: boolean; next: BlockConfig[] } {
+  let found = false;
+  function walk(list: BlockConfig[]): BlockConfig[] {
+    let mutated = false;
+    const next: BlockConfig[] = [];
+    for (const b of list) {
+      if (b.id === targetId) {
+        found = true;
+        mutated = true;
+        next.push(...replacements.map((r) => ({ ...r, parentId: b.parentId ?? null })));
+        continue;
+      }
+
+      if (Array.isArray(b.children)) {
+        const childNext = walk(b.children);
+        if (childNext !== b.children) {
+          mutated = true;
+          next.push({ ...b, children: childNext });
+          continue;
+        }
+      }
+      next.push(b);
+    }
+    return mutated ? next : list;
+  }
+  const next = walk(rootBlocks);
+  return { found, next };
+}
+
 export function duplicateBlockDeep(rootBlocks: BlockConfig[], targetId: string, generateBlockId: () => string): { found: boolean; next: BlockConfig[]; duplicatedId: string } {
   let duplicatedId: string = '';
   function remapIds(blk: BlockConfig): void {
@@ -350,3 +410,148 @@ export function findParentBlock(blocks: BlockConfig[], childId: string): BlockCo
   }
   return null;
 }
+
+export type MergeSide = 'mine' | 'theirs';
+
+/**
+ * A block both sides touched in ways that cannot be combined:
+ * - `both-changed`: edited differently on each side
+ * - `deleted-locally`: deleted here but edited by the other editor
+ * - `deleted-remotely`: deleted by the other editor but edited here
+ */
+export interface BlockMergeConflict {
+  id: string;
+  kind: 'both-changed' | 'deleted-locally' | 'deleted-remotely';
+  mine?: BlockConfig;
+  theirs?: BlockConfig;
+}
+
+type MergePlacement = { block: BlockConfig; parentId: string | null; positionFrom: MergeSide };
+
+// Indexes a tree by block ID with each block's actual parent, and each parent's child order (root under '')
+function indexTree(blocks: BlockConfig[]) {
+  const byId = new Map<string, { block: BlockConfig; parentId: string | null }>();
+  const order = new Map<string, string[]>();
+  const visit = (list: BlockConfig[], parentId: string | null) => {
+    order.set(parentId ?? '', list.map((b) => b.id));
+    for (const b of list) {
+      byId.set(b.id, { block: b, parentId });
+      if (Array.isArray(b.children)) visit(b.children, b.id);
+    }
+  };
+  visit(blocks, null);
+  return { byId, order };
+}
+
+/**
+ * Three-way merge of block trees by block ID: `base` is the version both sides
+ * started from, `mine` the local edits and `theirs` the version saved meanwhile.
+ * Edits, additions, deletions and moves made on one side only are combined;
+ * blocks changed on both sides are reported as conflicts and resolved with
+ * `resolutions` (local edits win by default).
+ *
+ * @example
+ * const { blocks, conflicts } = mergeBlockTrees(base, local, server.blocks, { [id]: 'theirs' });
+ */
+export function mergeBlockTrees(
+  base: BlockConfig[],
+  mine: BlockConfig[],
+  theirs: BlockConfig[],
+  resolutions: Record<string, MergeSide> = {}
+): { blocks: BlockConfig[]; conflicts: BlockMergeConflict[] } {
+  const b = indexTree(base);
+  const m = indexTree(mine);
+  const t = indexTree(theirs);
+  const mineMoves = diffBlocks(base, mine).entries;
+  const conflicts: BlockMergeConflict[] = [];
+  const placed = new Map<string, MergePlacement>();
+
+  const place = (id: string, side: MergeSide, block: BlockConfig) => {
+    const source = side === 'mine' ? m.byId.get(id) : t.byId.get(id);
+    const inBoth = m.byId.has(id) && t.byId.has(id);
+    // Where the block sits follows whichever side moved it, theirs when neither did
+    const positionFrom: MergeSide = !inBoth ? side : mineMoves[id]?.moved ? 'mine' : 'theirs';
+    const position = positionFrom === 'mine' ? m.byId.get(id) : t.byId.get(id);
+    placed.set(id, { block, parentId: (position ?? source)!.parentId, positionFrom });
+  };
+
+  const ids = new Set([...Array.from(b.byId.keys()), ...Array.from(m.byId.keys()), ...Array.from(t.byId.keys())]);
+  ids.forEach((id) => {
+    const original = b.byId.get(id)?.block;
+    const local = m.byId.get(id)?.block;
+    const remote = t.byId.get(id)?.block;
+    const choice = resolutions[id] ?? 'mine';
+
+    if (local && remote) {
+      const localChanged = !original || changedFields(original, local).length > 0;
+      const remoteChanged = !original || changedFields(original, remote).length > 0;
+      if (localChanged && remoteChanged && changedFields(local, remote).length > 0) {
+        conflicts.push({ id, kind: 'both-changed', mine: local, theirs: remote });
+        place(id, choice, choice === 'mine' ? local : remote);
+      } else {
+        place(id, localChanged ? 'mine' : 'theirs', localChanged ? local : remote);
+      }
+    } else if (local) {
+      if (!original) {
+        place(id, 'mine', local);
+      } else if (changedFields(original, local).length > 0) {
+        conflicts.push({ id, kind: 'deleted-remotely', mine: local });
+        if (choice === 'mine') place(id, 'mine', local);
+      }
+    } else if (remote) {
+      if (!original) {
+        place(id, 'theirs', remote);
+      } else if (changedFields(original, remote).length > 0) {
+        conflicts.push({ id, kind: 'deleted-locally', theirs: remote });
+        if (choice === 'theirs') place(id, 'theirs', remote);
+      }
+    }
+  });
+
+  // Blocks whose parent did not survive go to the root
+  placed.forEach((entry) => {
+    if (entry.parentId !== null && !placed.has(entry.parentId)) entry.parentId = null;
+  });
+
+  // Sibling order: theirs first, then blocks positioned by mine after their nearest preceding sibling
+  const orderChildren = (parentId: string | null): string[] => {
+    const key = parentId ?? '';
+    const here = (id: string) => placed.get(id)?.parentId === parentId;
+    const list = (t.order.get(key) ?? []).filter((id) => here(id) && placed.get(id)!.positionFrom === 'theirs');
+    const localOrder = m.order.get(key) ?? [];
+    localOrder.forEach((id, index) => {
+      if (!here(id) || list.includes(id)) return;
+      const before = localOrder.slice(0, index).reverse().find((prev) => list.includes(prev));
+      list.splice(before ? list.indexOf(before) + 1 : 0, 0, id);
+    });
+    placed.forEach((entry, id) => {
+      if (entry.parentId === parentId && !list.includes(id)) list.push(id);
+    });
+    return list;
+  };
+
+  const built = new Set<string>();
+  const build = (parentId: string | null): BlockConfig[] =>
+    orderChildren(parentId)
+      .filter((id) => !built.has(id))
+      .map((id) => {
+        built.add(id);
+        const { block } = placed.get(id)!;
+        const { children: _children, ...rest } = block;
+        const children = build(id);
+        return children.length > 0 || Array.isArray(block.children) || rest.type === 'container'
+          ? { ...rest, children }
+          : rest;
+      });
+
+  const blocks = build(null);
+  // Blocks moved into each other on the two sides end up in a cycle; lift them to the root
+  placed.forEach((entry, id) => {
+    if (!built.has(id)) {
+      entry.parentId = null;
+      blocks.push(...build(null));
+    }
+  });
+
+  return { blocks: setParentIds(blocks, null), conflicts };
+}
@@ -1,9 +1,33 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+/** Error thrown for non-2xx responses; keeps the status and raw body for callers that handle them */
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public body: string,
+  ) {
+    super(`${status}: ${body}`);
+    this.name = "ApiError";
+  }
+}
+
+/** The `message` of a JSON error response, or `fallback` for other errors */
+export function apiErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ApiError) {
+    try {
+      const { message } = JSON.parse(error.body);
+      if (typeof message === "string" && message) return message;
+    } catch {
+      // Not JSON; fall through
+    }
+  }
+  return fallback;
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    throw new ApiError(res.status, text);
   }
 }
 
@@ -1,5 +1,13 @@
 import resolveConfig from 'tailwindcss/resolveConfig'
 import tailwindConfig from '../../../tailwind.config'
+import {
+  activeBreakpoints,
+  breakpointRule,
+  byBreakpoint,
+  isBreakpointModifier,
+  type DeviceBreakpoint,
+} from '@shared/breakpoints'
+import { THEME_TOKEN } from '@shared/global-styles'
 
 const fullConfig = resolveConfig(tailwindConfig)
 
@@ -84,9 +92,11 @@ export const stateModifierMap: Record<string, string> = {
 /**
  * Resolves a token entry's value/variant to an actual CSS value
  * using the Tailwind resolved config theme data.
+ * Global styles tokens resolve to the var() reference stored in entry.style.
  */
 export function resolveTokenValue(entry: import('@shared/schema-types').TokenEntry): string | null {
   if (!entry.value) return null
+  if (entry.other === THEME_TOKEN) return entry.style ?? null
 
   const { property, value, variant } = entry
 
@@ -145,7 +155,7 @@ export function composeCustomValue(entry: import('@shared/schema-types').TokenEn
  * Modifier entries are returned separately for CSS rule generation.
  */
 export function resolveTokenMap(
-  tokenMap: Record<string, import('@shared/schema-types').TokenEntry>,
+  tokenMap: Record<string, import('@shared/schema-types').TokenEntry | null>,
   units: Record<string, string>
 ): {
   style: Record<string, string>;
@@ -155,6 +165,7 @@ export function resolveTokenMap(
   const modifierEntries: Array<{ entry: import('@shared/schema-types').TokenEntry; resolvedValue: string }> = []
 
   for (const entry of Object.values(tokenMap)) {
+    if (!entry) continue
     const resolvedValue = entry.value
       ? resolveTokenValue(entry)
       : composeCustomValue(entry, units)
@@ -199,6 +210,11 @@ export function resolveModifierEntry(
     return `${selector}${pseudo} { ${cssProp}: ${resolvedValue}; }`
   }
 
+  // Device override: tablet, mobile
+  if (isBreakpointModifier(entry.modifier)) {
+    return breakpointRule(blockId, entry.modifier, cssProp, resolvedValue)
+  }
+
   // Responsive modifier: sm, md, lg, xl, 2xl
   const breakpoint = (tokenScreens as Record<string, string>)[entry.modifier]
   if (breakpoint) {
@@ -215,8 +231,37 @@ export function generateBlockModifierCSS(
   blockId: string,
   modifierEntries: Array<{ entry: import('@shared/schema-types').TokenEntry; resolvedValue: string }>
 ): string {
-  return modifierEntries
+  return [...modifierEntries]
+    .sort(byBreakpoint)
     .map(({ entry, resolvedValue }) => resolveModifierEntry(blockId, entry, resolvedValue))
     .filter(Boolean)
     .join("\n")
+}
+
+/**
+ * Splits modifier entries for the builder canvas, whose device preview only
+ * narrows a container and so never trips the media queries: tablet/mobile
+ * overrides active on `device` are returned as inline styles, the rest stay
+ * modifier entries.
+ */
+export function resolveDevicePreview(
+  modifierEntries: Array<{ entry: import('@shared/schema-types').TokenEntry; resolvedValue: string }>,
+  device: DeviceBreakpoint
+): {
+  style: Record<string, string>;
+  modifierEntries: Array<{ entry: import('@shared/schema-types').TokenEntry; resolvedValue: string }>;
+} {
+  const style: Record<string, string> = {}
+  const active = activeBreakpoints(device)
+
+  for (const breakpoint of active) {
+    for (const { entry, resolvedValue } of modifierEntries) {
+      if (entry.modifier === breakpoint) style[entry.property] = resolvedValue
+    }
+  }
+
+  return {
+    style,
+    modifierEntries: modifierEntries.filter(({ entry }) => !isBreakpointModifier(entry.modifier)),
+  }
 }
\ No newline at end of file
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Spinner } from '@/components/ui/spinner';
+import { useToast } from '@/hooks/use-toast';
+import { apiErrorMessage, apiRequest } from '@/lib/queryClient';
+import { Link, useLocation, useSearch } from 'wouter';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { BrandedFormLayout } from '@/components/auth';
+
+const acceptSchema = z
+  .object({
+    password: z.string().min(8, 'Use at least 8 characters'),
+    confirm: z.string(),
+  })
+  .refine((data) => data.password === data.confirm, {
+    message: 'Passwords do not match',
+    path: ['confirm'],
+  });
+
+type AcceptForm = z.infer<typeof acceptSchema>;
+
+export default function AcceptInvitation() {
+  const token = new URLSearchParams(useSearch()).get('token') ?? '';
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const { data: invitation, isLoading: isChecking } = useQuery<{ username: string; email: string }>({
+    queryKey: ['/api/auth/invitation', { token }],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const form = useForm<AcceptForm>({
+    resolver: zodResolver(acceptSchema),
+    defaultValues: { password: '', confirm: '' },
+  });
+
+  const onSubmit = async ({ password }: AcceptForm) => {
+    setIsLoading(true);
+    try {
+      const response = await apiRequest('POST', '/api/auth/accept-invitation', { token, password });
+      queryClient.setQueryData(['/api/auth/user'], await response.json());
+      toast({ title: 'Welcome', description: 'Your account is ready' });
+      setLocation('/admin/dashboard');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: apiErrorMessage(error, 'Could not accept the invitation'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <BrandedFormLayout>
+      <Card className="w-full border-border/70 bg-card/95 shadow-lg shadow-black/[0.04] backdrop-blur-sm supports-[backdrop-filter]:bg-card/90 dark:shadow-black/25">
+        <CardHeader className="space-y-1 pb-2 text-center">
+          <CardTitle className="text-xl font-semibold tracking-tight">Accept your invitation</CardTitle>
+          {invitation && (
+            <p className="text-sm text-muted-foreground">
+              Choose a password for <span className="font-medium">{invitation.username}</span> ({invitation.email})
+            </p>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isChecking ? (
+            <div className="flex justify-center py-6">
+              <Spinner className="h-6 w-6" />
+            </div>
+          ) : !invitation ? (
+            <p className="text-sm text-muted-foreground text-center">
+              This invitation is invalid or has expired. Ask an administrator to send a new one.
+            </p>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" className="h-10" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="confirm"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" className="h-10" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full h-10 font-medium" disabled={isLoading}>
+                  {isLoading ? 'Activating…' : 'Activate account'}
+                </Button>
+              </form>
+            </Form>
+          )}
+
+          <div className="mt-6 border-t border-border/60 pt-6 text-center">
+            <p className="text-sm text-muted-foreground">
+              Already set up?{' '}
+              <Link
+                href="/admin/login"
+                className="font-medium text-primary underline-offset-4 hover:underline"
+              >
+                Sign in
+              </Link>
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    </BrandedFormLayout>
+  );
+}
@@ -15,7 +15,7 @@ import {
 } from '@/components/ui/form';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
-import { useLocation } from 'wouter';
+import { Link, useLocation } from 'wouter';
 import { useQueryClient } from '@tanstack/react-query';
 import { Eye, EyeOff } from 'lucide-react';
 import { BrandedFormLayout } from '@/components/auth';
@@ -143,6 +143,15 @@ export default function Login() {
             </form>
           </Form>
 
+          <div className="mt-4 text-center">
+            <Link
+              href="/admin/reset-password"
+              className="text-sm text-muted-foreground underline-offset-4 hover:text-foreground hover:underline"
+            >
+              Forgot your password?
+            </Link>
+          </div>
+
         </CardContent>
       </Card>
     </BrandedFormLayout>
@@ -13,6 +13,7 @@ import AdminTopBar from "@/components/AdminTopBar";
 import AdminSidebar from "@/components/AdminSidebar";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
 import type { Media } from "@shared/schema-types";
 
 export default function MediaPage() {
@@ -28,12 +29,18 @@ export default function MediaPage() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // Searches file names, alt text, captions and descriptions server-side
+  const debouncedSearch = useDebouncedValue(search.trim());
+
   // Get media query parameters
   const getQueryParams = () => {
     const params: any = { per_page: 20, page };
     if (selectedFilter !== "all") {
       params.mime_type = selectedFilter;
     }
+    if (debouncedSearch) {
+      params.search = debouncedSearch;
+    }
     return params;
   };
 
@@ -182,10 +189,7 @@ export default function MediaPage() {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  const filteredMedia = (mediaData as any)?.media?.filter((media: Media) =>
-    media.originalName.toLowerCase().includes(search.toLowerCase()) ||
-    media.alt?.toLowerCase().includes(search.toLowerCase())
-  ) || [];
+  const filteredMedia: Media[] = (mediaData as any)?.media || [];
 
   return (
     <div className="min-h-screen bg-wp-gray-light">
@@ -217,7 +221,10 @@ export default function MediaPage() {
                 <Input
                   placeholder="Search media..."
                   value={search}
-                  onChange={(e) => setSearch(e.target.value)}
+                  onChange={(e) => {
+                    setSearch(e.target.value);
+                    setPage(1);
+                  }}
                   className="pl-10 w-64"
                 />
               </div>
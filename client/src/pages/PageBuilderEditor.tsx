@@ -9,8 +9,11 @@ import AdminTopBar from '@/components/AdminTopBar';
 import AdminSidebar from '@/components/AdminSidebar';
 import PageBuilder from '@/components/PageBuilder/PageBuilder';
 import PublishDialog from '@/components/PageBuilder/PublishDialog';
+import RevisionsDialog from '@/components/PageBuilder/RevisionsDialog';
+import ConflictDialog from '@/components/PageBuilder/ConflictDialog';
+import { readVersionConflict } from '@/hooks/usePageSave';
 import { useToast } from '@/hooks/use-toast';
-import type { BlockConfig, Page, Post, Template } from '@shared/schema-types';
+import type { BlockConfig, Page, Pattern, Post, Template, VersionConflict } from '@shared/schema-types';
 import { storeSlugToIdMapping, getPageIdFromSlug } from '@/lib/editorStorage';
 import {
   clearPageDraft,
@@ -66,8 +69,8 @@ function useMountEffect(effect: () => void | (() => void)) {
   useEffect(effect, []);
 }
 
-/** Unified editor type — supports pages, posts, and templates */
-type EditorContentType = 'page' | 'post' | 'template';
+/** Unified editor type — supports pages, posts, templates, and synced patterns */
+type EditorContentType = 'page' | 'post' | 'template' | 'pattern';
 
 /**
  * Common shape used internally so PageBuilder receives a consistent interface.
@@ -84,13 +87,12 @@ interface PageBuilderEditorProps {
 
 /**
  * Adapts a Post object to the Page shape expected by PageBuilder.
- * Adds safe defaults for page-only fields (siteId, version, history, menuOrder).
+ * Adds safe defaults for page-only fields (siteId, menuOrder); posts carry their own version.
  */
 const adaptPostToEditorData = (post: Post): EditorData =>
   ({
     ...post,
     siteId: '',
-    version: 0,
     history: [],
     menuOrder: 0,
     // Post doesn't have these page-only fields but the type requires them
@@ -116,6 +118,13 @@ const adaptTemplateToEditorData = (template: Template): EditorData =>
     other: (template.other as Record<string, unknown>) ?? {},
   }) as unknown as EditorData;
 
+/**
+ * Adapts a synced pattern to the Page shape expected by PageBuilder.
+ * Like templates, patterns have a name and save straight to their API.
+ */
+const adaptPatternToEditorData = (pattern: Pattern): EditorData =>
+  adaptTemplateToEditorData({ ...pattern, type: 'pattern', settings: {} } as unknown as Template);
+
 export default function PageBuilderEditor({
   postId,
   isSlug = false,
@@ -123,9 +132,15 @@ export default function PageBuilderEditor({
 }: PageBuilderEditorProps) {
   const isPost = type === 'post';
   const isTemplate = type === 'template';
+  const isPattern = type === 'pattern';
+  /** Templates and patterns are saved as they are: no drafts, revisions or publishing */
+  const savesDirectly = isTemplate || isPattern;
+  const contentLabel = isPattern ? 'Pattern' : isTemplate ? 'Template' : isPost ? 'Post' : 'Page';
   const [, setLocation] = useLocation();
   const [pageState, dispatchPageState] = useReducer(pageStateReducer, initialPageState);
   const [isSaving, setIsSaving] = useState(false);
+  /** Set when a save is rejected because someone else saved first */
+  const [saveConflict, setSaveConflict] = useState<VersionConflict | null>(null);
   const draftSaveRef = useRef<NodeJS.Timeout | null>(null);
   const latestPageStateRef = useRef<PageState>(initialPageState);
   const { toast } = useToast();
@@ -146,7 +161,13 @@ export default function PageBuilderEditor({
   const toastRef = useRef(toast);
 
   /** API base path driven by content type */
-  const apiBase = isPost ? '/api/posts' : isTemplate ? '/api/templates' : '/api/pages';
+  const apiBase = isPost
+    ? '/api/posts'
+    : isTemplate
+      ? '/api/templates'
+      : isPattern
+        ? '/api/patterns'
+        : '/api/pages';
 
   /** Derive resolvedPageId synchronously — getPageIdFromSlug is a sync localStorage call */
   const resolvedPageId = (() => {
@@ -161,7 +182,7 @@ export default function PageBuilderEditor({
     data: rawData,
     isLoading,
     error,
-  } = useQuery<Page | Post | Template>({
+  } = useQuery<Page | Post | Template | Pattern>({
     queryKey: [`${apiBase}/${resolvedPageId || postId}`],
     enabled: !!(resolvedPageId || postId),
   });
@@ -170,9 +191,11 @@ export default function PageBuilderEditor({
   const data: EditorData | undefined = rawData
     ? isTemplate
       ? adaptTemplateToEditorData(rawData as Template)
-      : isPost
-        ? adaptPostToEditorData(rawData as Post)
-        : (rawData as Page)
+      : isPattern
+        ? adaptPatternToEditorData(rawData as Pattern)
+        : isPost
+          ? adaptPostToEditorData(rawData as Post)
+          : (rawData as Page)
     : undefined;
 
   // Keep refs fresh every render for stable useMountEffect handlers
@@ -203,9 +226,9 @@ export default function PageBuilderEditor({
   if (dataMatchesCurrent && dataId !== prevDataId && data) {
     setPrevDataId(dataId);
 
-    // Load local draft — skip for templates (they save directly)
+    // Load local draft — skip for templates and patterns (they save directly)
     let localDraft: { updatedAt?: unknown; [key: string]: unknown } | null = null;
-    if (!isTemplate) {
+    if (!savesDirectly) {
       const localResult = isPost
         ? loadPostDraft(dataId)
         : loadPageDraft(dataId);
@@ -246,12 +269,12 @@ export default function PageBuilderEditor({
     };
 
     // Store slug mapping for pages only
-    if (!isPost && data.id && data.slug) {
+    if (!isPost && !savesDirectly && data.id && data.slug) {
       storeSlugToIdMapping(data.slug, data.id);
     }
 
-    // Persist initial draft (skip for templates)
-    if (!isTemplate) {
+    // Persist initial draft (skip for templates and patterns)
+    if (!savesDirectly) {
       if (isPost) {
         savePostDraft(data.id, data);
       } else {
@@ -290,8 +313,8 @@ export default function PageBuilderEditor({
     };
     latestPageStateRef.current = next;
 
-    // Skip draft saves for templates — they save directly
-    if (isTemplate) return;
+    // Skip draft saves for templates and patterns — they save directly
+    if (savesDirectly) return;
 
     if (draftSaveRef.current) clearTimeout(draftSaveRef.current);
     draftSaveRef.current = setTimeout(() => {
@@ -467,8 +490,8 @@ export default function PageBuilderEditor({
   }
 
   if (error || !data) {
-    const backPath = isTemplate ? '/admin/templates' : isPost ? '/admin/posts' : '/admin/pages';
-    const label = isTemplate ? 'Template' : isPost ? 'Post' : 'Page';
+    const backPath = `/admin/${contentLabel.toLowerCase()}s`;
+    const label = contentLabel;
     return (
       <div className="flex h-screen">
         <AdminSidebar />
@@ -512,14 +535,13 @@ export default function PageBuilderEditor({
       return;
     }
 
-    const label = isTemplate ? 'Template' : isPost ? 'Post' : 'Page';
     toast({
       title: 'Success',
-      description: `${label} saved successfully`,
+      description: `${contentLabel} saved successfully`,
     });
 
-    if (isTemplate) {
-      // Templates don't use drafts — just invalidate the query
+    if (savesDirectly) {
+      // Templates and patterns don't use drafts — just invalidate the query
       queryClient.invalidateQueries({ queryKey: [`${apiBase}/${postId}`] });
       queryClient.invalidateQueries({ queryKey: [apiBase] });
     } else if (isPost) {
@@ -531,8 +553,15 @@ export default function PageBuilderEditor({
     queryClient.invalidateQueries({ queryKey: [apiBase] });
   };
 
-  const handlePageBuilderSave = async () => {
+  /**
+   * Saves the editor state. After a conflict the merged blocks are saved on top
+   * of the version the server reported, passed as overrides.
+   */
+  const handlePageBuilderSave = async (
+    overrides: { blocks?: BlockConfig[]; version?: number } = {},
+  ) => {
     if (!data) return;
+    const blocks = overrides.blocks ?? pageState.blocks;
 
     setIsSaving(true);
     try {
@@ -544,7 +573,8 @@ export default function PageBuilderEditor({
           title: pageState.title,
           slug: pageState.slug,
           status: pageState.status,
-          blocks: pageState.blocks,
+          blocks,
+          version: overrides.version ?? inlinePostData?.version ?? 0,
         };
         const response = await apiRequest(
           'PUT',
@@ -559,17 +589,15 @@ export default function PageBuilderEditor({
         return;
       }
 
-      const payload = isTemplate
-        ? { name: pageState.title, blocks: pageState.blocks }
-        : isPost
-          ? { title: pageState.title, slug: pageState.slug, status: pageState.status, blocks: pageState.blocks }
-          : {
-              title: pageState.title,
-              slug: pageState.slug,
-              status: pageState.status,
-              blocks: pageState.blocks,
-              version: data.version ?? 0,
-            };
+      const payload = savesDirectly
+        ? { name: pageState.title, blocks }
+        : {
+            title: pageState.title,
+            slug: pageState.slug,
+            status: pageState.status,
+            blocks,
+            version: overrides.version ?? data.version ?? 0,
+          };
 
       const response = await apiRequest(
         'PUT',
@@ -578,9 +606,9 @@ export default function PageBuilderEditor({
       );
       const updated = await response.json();
 
-      // Persist and clear draft (skip for templates)
-      if (isTemplate) {
-        // Templates don't use drafts
+      // Persist and clear draft (skip for templates and patterns)
+      if (savesDirectly) {
+        // Templates and patterns don't use drafts
       } else if (isPost) {
         savePostDraft(updated.id, updated);
         clearPostDraft(updated.id);
@@ -590,6 +618,11 @@ export default function PageBuilderEditor({
       }
       handleSave();
     } catch (err) {
+      const conflict = readVersionConflict(err);
+      if (conflict) {
+        setSaveConflict(conflict);
+        return;
+      }
       console.error(`Error saving ${type}:`, err);
       toast({
         title: 'Error',
@@ -601,6 +634,54 @@ export default function PageBuilderEditor({
     }
   };
 
+  /** Make the version the server reported the one being edited */
+  /**
+   * A co-editor saved the blocks everyone shares; later saves build on that
+   * version instead of being rejected as stale
+   */
+  const handleRemoteSave = (version: number, updatedAt: string | null) => {
+    queryClient.setQueryData<Page | Post | Template>(
+      [`${apiBase}/${resolvedPageId || postId}`],
+      (current) => (current ? { ...current, version, ...(updatedAt ? { updatedAt: new Date(updatedAt) } : {}) } : current),
+    );
+  };
+
+  const adoptCurrentVersion = (current: Page | Post) => {
+    if (inlinePostId) {
+      setInlinePostData(current as Post);
+    } else {
+      queryClient.setQueryData([`${apiBase}/${resolvedPageId || postId}`], current);
+    }
+  };
+
+  const handleConflictResolve = (mergedBlocks: BlockConfig[], current: Page | Post) => {
+    setSaveConflict(null);
+    adoptCurrentVersion(current);
+    handleBlocksChange(mergedBlocks);
+    void handlePageBuilderSave({ blocks: mergedBlocks, version: current.version });
+  };
+
+  const handleConflictDiscard = (current: Page | Post) => {
+    setSaveConflict(null);
+    adoptCurrentVersion(current);
+    if (inlinePostId) {
+      clearPostDraft(inlinePostId);
+    } else if (isPost) {
+      clearPostDraft(current.id);
+    } else {
+      clearPageDraft(current.id);
+    }
+    dispatchPageState({
+      type: 'LOAD',
+      payload: {
+        blocks: (current.blocks as BlockConfig[]) ?? [],
+        title: current.title,
+        slug: current.slug,
+        status: current.status ?? 'draft',
+      },
+    });
+  };
+
   const handlePreview = () => {
     // When inline-editing a post, preview the post
     if (inlinePostId) {
@@ -608,11 +689,11 @@ export default function PageBuilderEditor({
       return;
     }
     if (!data) return;
-    if (isTemplate) {
-      // Templates don't have a preview route yet
+    if (savesDirectly) {
+      // Templates and patterns don't have a preview route yet
       toast({
         title: 'Preview',
-        description: 'Template preview is not available yet',
+        description: `${contentLabel} preview is not available yet`,
       });
       return;
     }
@@ -623,7 +704,7 @@ export default function PageBuilderEditor({
   };
 
   const handleBackToList = () => {
-    setLocation(isTemplate ? '/admin/templates' : isPost ? '/admin/posts' : '/admin/pages');
+    setLocation(`/admin/${contentLabel.toLowerCase()}s`);
   };
 
   /** Determine the label and back behavior based on inline editing state */
@@ -653,7 +734,7 @@ export default function PageBuilderEditor({
               <span className="text-sm text-gray-400 flex-shrink-0">
                 {isInlineEditing
                   ? 'Editing Post:'
-                  : `Editing ${isTemplate ? 'Template' : isPost ? 'Post' : 'Page'}:`}
+                  : `Editing ${contentLabel}:`}
               </span>
               <Input
                 value={pageState.title}
@@ -675,16 +756,25 @@ export default function PageBuilderEditor({
               Preview
             </Button>
 
+            {!savesDirectly && !isPost && (
+              <RevisionsDialog
+                page={data as Page}
+                blocks={pageState.blocks}
+                onRestored={(page) => clearPageDraft(page.id)}
+                disabled={isSaving}
+              />
+            )}
+
             <Button
               size="sm"
-              onClick={handlePageBuilderSave}
+              onClick={() => handlePageBuilderSave()}
               disabled={isSaving}
               className="flex items-center gap-2"
               data-testid="button-save">
               <Save className="w-4 h-4" />
               {isSaving ? 'Saving...' : 'Save'}
             </Button>
-            {!isTemplate && (
+            {!savesDirectly && (
               <PublishDialog
                 post={data}
                 blocks={pageState.blocks}
@@ -711,13 +801,28 @@ export default function PageBuilderEditor({
               title: pageState.title,
               slug: pageState.slug,
               status: pageState.status,
-              version: isInlineEditing ? 0 : data.version,
+              version: isInlineEditing ? (inlinePostData?.version ?? 0) : data.version,
             }}
             onPageMetaChange={handlePageMetaChange}
             currentPostId={inlinePostId || (isPost ? data?.id : undefined)}
-            contentType={isTemplate ? 'page' : type}
+            contentType={savesDirectly ? 'page' : (type as 'page' | 'post')}
+            onSaveConflict={setSaveConflict}
+            collaborative={!savesDirectly && !isPost && !isInlineEditing}
+            onRemoteSave={handleRemoteSave}
           />
         </div>
+
+        <ConflictDialog
+          conflict={saveConflict}
+          baseBlocks={
+            ((isInlineEditing ? inlinePostData?.blocks : data.blocks) as BlockConfig[]) ?? []
+          }
+          localBlocks={pageState.blocks}
+          contentType={isPost || isInlineEditing ? 'post' : 'page'}
+          onResolve={handleConflictResolve}
+          onDiscard={handleConflictDiscard}
+          onCancel={() => setSaveConflict(null)}
+        />
       </div>
     </div>
   );
@@ -22,6 +22,7 @@ import AdminSidebar from "@/components/AdminSidebar";
 import { CreatePageModal } from "@/components/Pages/CreatePageModal";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
 import type { Page } from "@shared/schema-types";
 
 interface PagesApiResponse {
@@ -64,8 +65,11 @@ export default function Pages() {
     }
   }, [location, setLocation]);
 
+  // Searches the full-text index (titles and block text) server-side
+  const debouncedSearch = useDebouncedValue(search.trim());
+
   const { data: pagesData, isLoading } = useQuery<PagesApiResponse>({
-    queryKey: ['/api/pages', { status: 'any', page, per_page: 10 }],
+    queryKey: ['/api/pages', { status: 'any', page, per_page: 10, search: debouncedSearch || undefined }],
   });
 
   const { data: homepageOption } = useQuery<OptionApiResponse | null>({
@@ -168,6 +172,7 @@ export default function Pages() {
   const getStatusBadge = (status: string) => {
     const variants: Record<string, any> = {
       publish: "default",
+      future: "outline",
       draft: "secondary",
       private: "outline",
       trash: "destructive"
@@ -175,9 +180,7 @@ export default function Pages() {
     return <Badge variant={variants[status] || "secondary"}>{status}</Badge>;
   };
 
-  const filteredPages = pagesData?.pages?.filter((page: Page) =>
-    page.title.toLowerCase().includes(search.toLowerCase())
-  ) || [];
+  const filteredPages = pagesData?.pages || [];
   const homepageSlug = homepageOption?.value;
 
   return (
@@ -212,7 +215,10 @@ export default function Pages() {
                     <Input
                       placeholder="Search pages..."
                       value={search}
-                      onChange={(e) => setSearch(e.target.value)}
+                      onChange={(e) => {
+                        setSearch(e.target.value);
+                        setPage(1);
+                      }}
                       className="pl-10 w-64"
                     />
                   </div>
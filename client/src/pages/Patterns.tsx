@@ -0,0 +1,501 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Plus, Search, Trash2, Layout, Pencil, Upload, Download } from "lucide-react";
+import { Link, useLocation } from "wouter";
+import AdminTopBar from "@/components/AdminTopBar";
+import AdminSidebar from "@/components/AdminSidebar";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Pattern, PatternUsage } from "@shared/schema-types";
+import {
+  DEFAULT_PATTERN_CATEGORY,
+  PATTERN_CATEGORIES,
+  patternCategoryLabel,
+  toLibraryPattern,
+} from "@shared/pattern-library";
+
+interface PatternsApiResponse {
+  patterns: Pattern[];
+  total: number;
+  page: number;
+  per_page: number;
+  total_pages: number;
+}
+
+/** Usage entries shown before collapsing the rest into a count */
+const USAGE_SHOWN = 3;
+
+const usageEditorPath = (usage: PatternUsage) => `/admin/page-builder/${usage.type}/${usage.id}`;
+
+/** Fields of the create / edit details dialog; keywords are comma-separated */
+interface PatternForm {
+  name: string;
+  description: string;
+  category: string;
+  keywords: string;
+  thumbnail: string;
+  synced: boolean;
+}
+
+const EMPTY_FORM: PatternForm = {
+  name: "",
+  description: "",
+  category: DEFAULT_PATTERN_CATEGORY,
+  keywords: "",
+  thumbnail: "",
+  synced: true,
+};
+
+const toForm = (pattern: Pattern): PatternForm => {
+  const { name, description, category, keywords, thumbnail, synced } = toLibraryPattern(pattern);
+  return { name, description: description ?? "", category, keywords: keywords.join(", "), thumbnail: thumbnail ?? "", synced };
+};
+
+const fromForm = (form: PatternForm) => ({
+  name: form.name.trim(),
+  description: form.description.trim() || null,
+  category: form.category,
+  keywords: form.keywords.split(",").map((keyword) => keyword.trim()).filter(Boolean),
+  thumbnail: form.thumbnail.trim() || null,
+  synced: form.synced,
+});
+
+function PatternUsageCell({ patternId }: { patternId: string }) {
+  const { data: usage, isLoading } = useQuery<PatternUsage[]>({
+    queryKey: [`/api/patterns/${patternId}/usage`],
+  });
+
+  if (isLoading) return <span className="text-sm text-gray-400">…</span>;
+  if (!usage || usage.length === 0) return <span className="text-sm text-gray-500">Not used</span>;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-sm">
+      {usage.slice(0, USAGE_SHOWN).map((entry) => (
+        <Link key={`${entry.type}-${entry.id}`} href={usageEditorPath(entry)} className="text-wp-blue hover:underline">
+          <Badge variant="outline" className="mr-1">{entry.type}</Badge>
+          {entry.title}
+        </Link>
+      ))}
+      {usage.length > USAGE_SHOWN && (
+        <span className="text-gray-500">and {usage.length - USAGE_SHOWN} more</span>
+      )}
+    </div>
+  );
+}
+
+export default function Patterns() {
+  const [search, setSearch] = useState("");
+  const [formOpen, setFormOpen] = useState(false);
+  /** Pattern whose details the dialog edits; null when creating one */
+  const [editingPattern, setEditingPattern] = useState<Pattern | null>(null);
+  const [form, setForm] = useState<PatternForm>(EMPTY_FORM);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [patternToDelete, setPatternToDelete] = useState<Pattern | null>(null);
+  /** Where the pattern is used, once the server refused to delete it */
+  const [deleteUsage, setDeleteUsage] = useState<PatternUsage[] | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  const { data: patternsData, isLoading } = useQuery<PatternsApiResponse>({
+    queryKey: ['/api/patterns', { per_page: 100 }],
+  });
+
+  const openForm = (pattern: Pattern | null) => {
+    setEditingPattern(pattern);
+    setForm(pattern ? toForm(pattern) : EMPTY_FORM);
+    setFormOpen(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<Pattern> => {
+      const res = editingPattern
+        ? await apiRequest('PUT', `/api/patterns/${editingPattern.id}`, fromForm(form))
+        : await apiRequest('POST', '/api/patterns', { ...fromForm(form), blocks: [] });
+      return res.json();
+    },
+    onSuccess: (pattern) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/patterns'] });
+      setFormOpen(false);
+      if (!editingPattern) setLocation(`/admin/page-builder/pattern/${pattern.id}`);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: editingPattern ? "Failed to update pattern" : "Failed to create pattern",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File): Promise<{ created: number; updated: number }> => {
+      const res = await apiRequest('POST', '/api/patterns/import', JSON.parse(await file.text()));
+      return res.json();
+    },
+    onSuccess: ({ created, updated }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/patterns'] });
+      toast({
+        title: "Patterns imported",
+        description: `${created} added, ${updated} updated`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "The file is not a valid pattern export",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async ({ id, force }: { id: string; force: boolean }) => {
+      const res = await fetch(`/api/patterns/${id}${force ? '?force=true' : ''}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      if (res.status === 409) {
+        const body = (await res.json()) as { usage: PatternUsage[] };
+        return { deleted: false, usage: body.usage };
+      }
+      if (!res.ok) throw new Error(await res.text());
+      return { deleted: true, usage: [] as PatternUsage[] };
+    },
+    onSuccess: ({ deleted, usage }) => {
+      if (!deleted) {
+        setDeleteUsage(usage);
+        return;
+      }
+      toast({
+        title: "Success",
+        description: "Pattern deleted successfully",
+      });
+      setPatternToDelete(null);
+      setDeleteUsage(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/patterns'] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete pattern",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const closeDeleteDialog = () => {
+    setPatternToDelete(null);
+    setDeleteUsage(null);
+  };
+
+  const filteredPatterns = patternsData?.patterns?.filter((pattern) =>
+    pattern.name.toLowerCase().includes(search.toLowerCase())
+  ) || [];
+  const categoryIds = Array.from(
+    new Set<string>([...PATTERN_CATEGORIES.map((category) => category.id), form.category])
+  );
+
+  return (
+    <div className="min-h-screen bg-wp-gray-light">
+      <AdminTopBar />
+      <AdminSidebar />
+
+      <div className="ml-40 pt-8">
+        {/* Header */}
+        <div className="bg-white border-b border-gray-200 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-semibold text-wp-gray">Patterns</h1>
+              <p className="text-sm text-gray-500">
+                Reusable layouts for the builder. Synced patterns update every page using them; the others are copied in.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importMutation.mutate(file);
+                  e.target.value = "";
+                }}
+              />
+              <Button
+                variant="outline"
+                onClick={() => importInputRef.current?.click()}
+                disabled={importMutation.isPending}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Import
+              </Button>
+              <Button variant="outline" asChild>
+                <a href="/api/patterns/export" download="patterns.json">
+                  <Download className="w-4 h-4 mr-2" />
+                  Export
+                </a>
+              </Button>
+              <Button
+                className="bg-wp-blue hover:bg-wp-blue-dark text-white"
+                onClick={() => openForm(null)}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add New Pattern
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>All Patterns</CardTitle>
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                  <Input
+                    placeholder="Search patterns..."
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    className="pl-10 w-64"
+                  />
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="text-center py-8 text-gray-500">Loading patterns...</div>
+              ) : filteredPatterns.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  No patterns found. Select a block in the page builder and use "Save as synced pattern", or{" "}
+                  <Button variant="link" className="px-0" onClick={() => openForm(null)}>create one here</Button>.
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Used in</TableHead>
+                      <TableHead>Updated</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredPatterns.map((pattern) => (
+                      <TableRow key={pattern.id}>
+                        <TableCell>
+                          <div className="flex items-center gap-2 font-medium text-wp-gray">
+                            {pattern.name}
+                            {pattern.synced && <Badge variant="secondary">Synced</Badge>}
+                          </div>
+                          {pattern.description && (
+                            <div className="text-sm text-gray-500 max-w-xs truncate">{pattern.description}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm">{patternCategoryLabel(pattern.category)}</div>
+                        </TableCell>
+                        <TableCell>
+                          <PatternUsageCell patternId={pattern.id} />
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm">
+                            {pattern.updatedAt ? new Date(pattern.updatedAt).toLocaleDateString() : 'N/A'}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex items-center justify-end space-x-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setLocation(`/admin/page-builder/pattern/${pattern.id}`)}
+                              title="Edit in builder"
+                            >
+                              <Layout className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openForm(pattern)}
+                              title="Edit details"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setPatternToDelete(pattern)}
+                              disabled={deleteMutation.isPending}
+                              title="Delete pattern"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Create / Edit Details Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingPattern ? "Pattern Details" : "New Pattern"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="pattern-name">Name</Label>
+              <Input
+                id="pattern-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Newsletter call to action"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="pattern-description">Description</Label>
+              <Textarea
+                id="pattern-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={3}
+                className="mt-1"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Category</Label>
+                <Select value={form.category} onValueChange={(category) => setForm({ ...form, category })}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categoryIds.map((id) => (
+                      <SelectItem key={id} value={id}>
+                        {patternCategoryLabel(id)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="pattern-keywords">Keywords</Label>
+                <Input
+                  id="pattern-keywords"
+                  value={form.keywords}
+                  onChange={(e) => setForm({ ...form, keywords: e.target.value })}
+                  placeholder="banner, landing"
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="pattern-thumbnail">Thumbnail URL</Label>
+              <Input
+                id="pattern-thumbnail"
+                value={form.thumbnail}
+                onChange={(e) => setForm({ ...form, thumbnail: e.target.value })}
+                placeholder="Preview image shown in the builder's pattern library"
+                className="mt-1"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="pattern-synced">Synced</Label>
+                <p className="text-xs text-gray-500">Insert as a reference that follows edits to the pattern</p>
+              </div>
+              <Switch
+                id="pattern-synced"
+                checked={form.synced}
+                onCheckedChange={(synced) => setForm({ ...form, synced })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!form.name.trim() || saveMutation.isPending}
+            >
+              {editingPattern ? "Save" : "Create and edit"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!patternToDelete} onOpenChange={(open) => !open && closeDeleteDialog()}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Pattern</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteUsage
+                ? `"${patternToDelete?.name}" is used in ${deleteUsage.length} place${deleteUsage.length === 1 ? '' : 's'}. Deleting it removes its blocks from all of them.`
+                : `Are you sure you want to delete "${patternToDelete?.name}"? This action cannot be undone.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {deleteUsage && (
+            <ul className="max-h-40 overflow-y-auto text-sm text-gray-700 list-disc pl-5">
+              {deleteUsage.map((entry) => (
+                <li key={`${entry.type}-${entry.id}`}>
+                  {entry.title} <span className="text-gray-500">({entry.type})</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={closeDeleteDialog}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                // Keep the dialog open to show where the pattern is used
+                e.preventDefault();
+                if (patternToDelete) deleteMutation.mutate({ id: patternToDelete.id, force: !!deleteUsage });
+              }}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {deleteUsage ? 'Delete anyway' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,11 +1,172 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import AdminTopBar from "@/components/AdminTopBar";
 import AdminSidebar from "@/components/AdminSidebar";
-import { Plug } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plug, RefreshCw, Settings2, AlertTriangle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Plugin } from "@shared/schema-types";
+
+type SettingValue = string | number | boolean | null;
+
+/** Settings field declared in a plugin's manifest */
+interface PluginSettingField {
+  label: string;
+  type: "text" | "textarea" | "number" | "boolean";
+  description?: string;
+  default?: SettingValue;
+}
+
+type PluginWithRuntime = Plugin & {
+  loaded: boolean;
+  error: string | null;
+};
+
+interface PluginsResponse {
+  plugins: PluginWithRuntime[];
+  coreVersion: string;
+}
+
+function getSettingsFields(plugin: Plugin): Record<string, PluginSettingField> {
+  const other = (plugin.other || {}) as { settingsFields?: Record<string, PluginSettingField> };
+  return other.settingsFields || {};
+}
 
 /**
- * Placeholder page for Plugins. Functionality not yet supported; shows coming-soon banner.
+ * Plugins admin page. Lists plugin packages discovered in the plugins directory,
+ * activates/deactivates them at runtime and edits their manifest-declared settings.
  */
 export default function Plugins() {
+  const [configuring, setConfiguring] = useState<PluginWithRuntime | null>(null);
+  const [settingsDraft, setSettingsDraft] = useState<Record<string, SettingValue>>({});
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<PluginsResponse>({
+    queryKey: ["/api/plugins"],
+  });
+
+  const plugins = data?.plugins || [];
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/plugins"] });
+  };
+
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/plugins/sync");
+      return (await res.json()) as { invalid: Array<{ directory: string; error?: string }> };
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Plugins rescanned",
+        description: result.invalid.length
+          ? `${result.invalid.length} package(s) have an invalid plugin.json`
+          : "Plugin list is up to date",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/plugins"] });
+    },
+    onError: onError("Failed to rescan plugins"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, activate }: { id: string; activate: boolean }) => {
+      return await apiRequest("POST", `/api/plugins/${id}/${activate ? "activate" : "deactivate"}`);
+    },
+    onSuccess: (_res, { activate }) => {
+      toast({
+        title: "Success",
+        description: activate ? "Plugin activated" : "Plugin deactivated",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/plugins"] });
+    },
+    onError: onError("Failed to update plugin"),
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: async ({ id, settings }: { id: string; settings: Record<string, SettingValue> }) => {
+      return await apiRequest("PUT", `/api/plugins/${id}/settings`, { settings });
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Plugin settings saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/plugins"] });
+      setConfiguring(null);
+    },
+    onError: onError("Failed to save plugin settings"),
+  });
+
+  const openSettings = (plugin: PluginWithRuntime) => {
+    const current = (plugin.settings || {}) as Record<string, SettingValue>;
+    const draft: Record<string, SettingValue> = {};
+    for (const [key, field] of Object.entries(getSettingsFields(plugin))) {
+      draft[key] = current[key] ?? field.default ?? (field.type === "boolean" ? false : "");
+    }
+    setSettingsDraft(draft);
+    setConfiguring(plugin);
+  };
+
+  const renderField = (key: string, field: PluginSettingField) => {
+    const id = `plugin-setting-${key}`;
+    const value = settingsDraft[key];
+    const update = (next: SettingValue) => setSettingsDraft((prev) => ({ ...prev, [key]: next }));
+
+    if (field.type === "boolean") {
+      return (
+        <div key={key} className="flex items-center justify-between">
+          <Label htmlFor={id}>{field.label}</Label>
+          <Switch id={id} checked={value === true} onCheckedChange={update} />
+        </div>
+      );
+    }
+
+    return (
+      <div key={key} className="space-y-2">
+        <Label htmlFor={id}>{field.label}</Label>
+        {field.type === "textarea" ? (
+          <Textarea id={id} value={String(value ?? "")} onChange={(e) => update(e.target.value)} />
+        ) : (
+          <Input
+            id={id}
+            type={field.type === "number" ? "number" : "text"}
+            value={String(value ?? "")}
+            onChange={(e) =>
+              update(field.type === "number" ? Number(e.target.value) : e.target.value)
+            }
+          />
+        )}
+        {field.description && <p className="text-xs text-gray-500">{field.description}</p>}
+      </div>
+    );
+  };
+
   return (
     <div className="min-h-screen bg-wp-gray-light">
       <AdminTopBar />
@@ -13,20 +174,141 @@ export default function Plugins() {
 
       <div className="ml-40 pt-8">
         <div className="bg-white border-b border-gray-200 px-6 py-4">
-          <h1 className="text-2xl font-semibold text-wp-gray">Plugins</h1>
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl font-semibold text-wp-gray">Plugins</h1>
+            <Button
+              variant="outline"
+              onClick={() => syncMutation.mutate()}
+              disabled={syncMutation.isPending}
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${syncMutation.isPending ? "animate-spin" : ""}`} />
+              Rescan Plugins
+            </Button>
+          </div>
         </div>
 
         <div className="p-6">
-          <div
-            className="flex items-center gap-3 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-amber-800"
-            role="status"
-            aria-live="polite"
-          >
-            <Plug className="h-5 w-5 shrink-0 text-amber-600" />
-            <p className="font-medium">Plugins functionality is coming soon.</p>
-          </div>
+          <Card>
+            <CardHeader>
+              <CardTitle>Installed Plugins</CardTitle>
+              {data?.coreVersion && (
+                <p className="text-sm text-gray-500">Running NextPress {data.coreVersion}</p>
+              )}
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Plugin</TableHead>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Requires</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-8">
+                        Loading plugins...
+                      </TableCell>
+                    </TableRow>
+                  ) : plugins.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                        <Plug className="w-6 h-6 mx-auto mb-2 text-gray-400" />
+                        No plugins found. Add plugin packages to the plugins directory and rescan.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    plugins.map((plugin) => {
+                      const isActive = plugin.status === "active";
+                      const hasSettings = Object.keys(getSettingsFields(plugin)).length > 0;
+                      return (
+                        <TableRow key={plugin.id}>
+                          <TableCell>
+                            <div className="font-medium text-wp-gray">{plugin.name}</div>
+                            {plugin.description && (
+                              <div className="text-sm text-gray-500">{plugin.description}</div>
+                            )}
+                            {plugin.error && (
+                              <div className="mt-1 flex items-center text-xs text-red-600">
+                                <AlertTriangle className="w-3 h-3 mr-1 shrink-0" />
+                                {plugin.error}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm">{plugin.version}</TableCell>
+                          <TableCell className="text-sm">{plugin.requires}</TableCell>
+                          <TableCell>
+                            <Badge variant={isActive && plugin.loaded ? "default" : "secondary"}>
+                              {isActive && !plugin.loaded ? "failed" : plugin.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex items-center justify-end space-x-2">
+                              {hasSettings && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  aria-label={`Configure ${plugin.name}`}
+                                  onClick={() => openSettings(plugin)}
+                                >
+                                  <Settings2 className="w-4 h-4" />
+                                </Button>
+                              )}
+                              <Button
+                                variant={isActive ? "outline" : "default"}
+                                size="sm"
+                                className={isActive ? "" : "bg-wp-blue hover:bg-wp-blue-dark text-white"}
+                                disabled={toggleMutation.isPending}
+                                onClick={() =>
+                                  toggleMutation.mutate({ id: plugin.id, activate: !isActive })
+                                }
+                              >
+                                {isActive ? "Deactivate" : "Activate"}
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
         </div>
       </div>
+
+      <Dialog open={configuring !== null} onOpenChange={(open) => !open && setConfiguring(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{configuring?.name} Settings</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {configuring &&
+              Object.entries(getSettingsFields(configuring)).map(([key, field]) =>
+                renderField(key, field),
+              )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfiguring(null)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-wp-blue hover:bg-wp-blue-dark"
+              disabled={settingsMutation.isPending}
+              onClick={() =>
+                configuring &&
+                settingsMutation.mutate({ id: configuring.id, settings: settingsDraft })
+              }
+            >
+              Save Settings
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
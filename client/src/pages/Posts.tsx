@@ -13,6 +13,7 @@ import AdminSidebar from "@/components/AdminSidebar";
 import { CreatePostDialog } from "@/components/posts/CreatePostDialog";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
 import type { Post } from "@shared/schema-types";
 
 // API response type for posts endpoint
@@ -33,8 +34,11 @@ export default function Posts() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // Searches the full-text index (titles, excerpts and block text) server-side
+  const debouncedSearch = useDebouncedValue(search.trim());
+
   const { data: postsData, isLoading } = useQuery<PostsResponse>({
-    queryKey: ['/api/posts', { status: 'any', type: 'post', page, per_page: 10 }],
+    queryKey: ['/api/posts', { status: 'any', type: 'post', page, per_page: 10, search: debouncedSearch || undefined }],
   });
 
   const deleteMutation = useMutation({
@@ -76,6 +80,7 @@ export default function Posts() {
   const getStatusBadge = (status: string) => {
     const variants: Record<string, any> = {
       publish: "default",
+      future: "outline",
       draft: "secondary",
       private: "outline",
       trash: "destructive"
@@ -83,9 +88,7 @@ export default function Posts() {
     return <Badge variant={variants[status] || "secondary"}>{status}</Badge>;
   };
 
-  const filteredPosts = postsData?.posts?.filter((post: Post) =>
-    post.title.toLowerCase().includes(search.toLowerCase())
-  ) || [];
+  const filteredPosts = postsData?.posts || [];
 
   return (
     <div className="min-h-screen bg-wp-gray-light">
@@ -119,7 +122,10 @@ export default function Posts() {
                     <Input
                       placeholder="Search posts..."
                       value={search}
-                      onChange={(e) => setSearch(e.target.value)}
+                      onChange={(e) => {
+                        setSearch(e.target.value);
+                        setPage(1);
+                      }}
                       className="pl-10 w-64"
                     />
                   </div>
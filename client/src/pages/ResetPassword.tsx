@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { apiErrorMessage, apiRequest } from '@/lib/queryClient';
+import { Link, useLocation, useSearch } from 'wouter';
+import { BrandedFormLayout } from '@/components/auth';
+
+const requestSchema = z.object({
+  email: z.string().min(1, 'Email or username is required'),
+});
+
+const passwordSchema = z
+  .object({
+    password: z.string().min(8, 'Use at least 8 characters'),
+    confirm: z.string(),
+  })
+  .refine((data) => data.password === data.confirm, {
+    message: 'Passwords do not match',
+    path: ['confirm'],
+  });
+
+/** Asks for a reset link; shown without a token */
+function RequestResetForm() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<z.infer<typeof requestSchema>>({
+    resolver: zodResolver(requestSchema),
+    defaultValues: { email: '' },
+  });
+
+  const onSubmit = async (data: z.infer<typeof requestSchema>) => {
+    setIsLoading(true);
+    try {
+      await apiRequest('POST', '/api/auth/forgot-password', data);
+      setSent(true);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: apiErrorMessage(error, 'Could not send the reset link'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <p className="text-sm text-muted-foreground text-center">
+        If an account matches, we've emailed it a link to choose a new password. The link expires in an hour.
+      </p>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email or username</FormLabel>
+              <FormControl>
+                <Input placeholder="you@example.com" autoComplete="email" className="h-10" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full h-10 font-medium" disabled={isLoading}>
+          {isLoading ? 'Sending…' : 'Email me a reset link'}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+/** Chooses the new password; shown for links with a token */
+function NewPasswordForm({ token }: { token: string }) {
+  const [, setLocation] = useLocation();
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<z.infer<typeof passwordSchema>>({
+    resolver: zodResolver(passwordSchema),
+    defaultValues: { password: '', confirm: '' },
+  });
+
+  const onSubmit = async ({ password }: z.infer<typeof passwordSchema>) => {
+    setIsLoading(true);
+    try {
+      await apiRequest('POST', '/api/auth/reset-password', { token, password });
+      toast({ title: 'Success', description: 'Password updated. You can sign in now.' });
+      setLocation('/admin/login');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: apiErrorMessage(error, 'Could not update the password'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" className="h-10" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirm"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirm password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" className="h-10" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full h-10 font-medium" disabled={isLoading}>
+          {isLoading ? 'Saving…' : 'Set new password'}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function ResetPassword() {
+  const token = new URLSearchParams(useSearch()).get('token');
+
+  return (
+    <BrandedFormLayout>
+      <Card className="w-full border-border/70 bg-card/95 shadow-lg shadow-black/[0.04] backdrop-blur-sm supports-[backdrop-filter]:bg-card/90 dark:shadow-black/25">
+        <CardHeader className="space-y-1 pb-2 text-center">
+          <CardTitle className="text-xl font-semibold tracking-tight">
+            {token ? 'Choose a new password' : 'Reset your password'}
+          </CardTitle>
+          {!token && (
+            <p className="text-sm text-muted-foreground">We'll email you a link to choose a new one</p>
+          )}
+        </CardHeader>
+        <CardContent>
+          {token ? <NewPasswordForm token={token} /> : <RequestResetForm />}
+
+          <div className="mt-6 border-t border-border/60 pt-6 text-center">
+            <p className="text-sm text-muted-foreground">
+              Remembered it?{' '}
+              <Link
+                href="/admin/login"
+                className="font-medium text-primary underline-offset-4 hover:underline"
+              >
+                Sign in
+              </Link>
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    </BrandedFormLayout>
+  );
+}
@@ -13,7 +13,8 @@ import { Save, Globe, Database, Code, Shield, Bell, Upload, X, ImageIcon } from
 import AdminTopBar from '@/components/AdminTopBar';
 import AdminSidebar from '@/components/AdminSidebar';
 import { Spinner } from '@/components/ui/spinner';
-import { apiRequest } from '@/lib/queryClient';
+import { Link } from 'wouter';
+import { apiErrorMessage, apiRequest } from '@/lib/queryClient';
 import { toast } from 'sonner';
 import MediaPickerDialog from '@/components/media/MediaPickerDialog';
 import {
@@ -26,6 +27,7 @@ import {
 import { format } from 'date-fns';
 import { formatInTimeZone } from 'date-fns-tz';
 import { DomainInputWithVerify } from '@/components/domain';
+import StaticExportCard from '@/components/settings/StaticExportCard';
 
 /**
  * Settings structure matching server schema
@@ -303,6 +305,20 @@ export default function Settings() {
     },
   });
 
+  // Queues a test message to the admin email through the configured transport
+  const testEmailMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/email/test');
+      return response.json();
+    },
+    onSuccess: (message: { to: string }) => {
+      toast.success(`Test email queued for ${message.to}`);
+    },
+    onError: (error) => {
+      toast.error(apiErrorMessage(error, 'Failed to send test email'));
+    },
+  });
+
   const handleSave = () => {
     if (formData) {
       console.log('Saving settings:', JSON.stringify(formData, null, 2));
@@ -1256,15 +1272,26 @@ export default function Settings() {
                       <div>
                         <Label>Email Notifications</Label>
                         <p className="text-sm text-gray-600">
-                          Send email when new comments are posted
+                          Email post authors about new comments, and the admin email about comments awaiting moderation
                         </p>
                       </div>
-                      <Switch
-                        checked={formData.discussion.emailNotifications}
-                        onCheckedChange={(checked) =>
-                          updateDiscussionField('emailNotifications', checked)
-                        }
-                      />
+                      <div className="flex items-center gap-3">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => testEmailMutation.mutate()}
+                          disabled={testEmailMutation.isPending}
+                        >
+                          Send test email
+                        </Button>
+                        <Switch
+                          checked={formData.discussion.emailNotifications}
+                          onCheckedChange={(checked) =>
+                            updateDiscussionField('emailNotifications', checked)
+                          }
+                        />
+                      </div>
                     </div>
                   </div>
 
@@ -1432,7 +1459,7 @@ export default function Settings() {
                       <div>
                         <Label>GraphQL API</Label>
                         <p className="text-sm text-gray-600">
-                          Enable GraphQL endpoint for modern applications
+                          Serve content at <code>/graphql</code> for headless front-ends
                         </p>
                       </div>
                       <Switch
@@ -1447,7 +1474,10 @@ export default function Settings() {
                       <div>
                         <Label>Webhooks</Label>
                         <p className="text-sm text-gray-600">
-                          Enable webhook notifications for content changes
+                          Enable webhook notifications for content changes.{' '}
+                          <Link href="/admin/webhooks" className="text-wp-blue hover:underline">
+                            Manage webhooks
+                          </Link>
                         </p>
                       </div>
                       <Switch
@@ -1459,6 +1489,8 @@ export default function Settings() {
                     </div>
                   </CardContent>
                 </Card>
+
+                <StaticExportCard />
               </div>
             </TabsContent>
           </Tabs>
@@ -0,0 +1,522 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, RotateCcw, Save, Trash2 } from "lucide-react";
+import AdminTopBar from "@/components/AdminTopBar";
+import AdminSidebar from "@/components/AdminSidebar";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { GLOBAL_STYLES_QUERY_KEY, useGlobalStyles } from "@/hooks/useGlobalStyles";
+import type { Theme } from "@shared/schema-types";
+import {
+  DEFAULT_GLOBAL_STYLES,
+  globalStyleVar,
+  globalStylesSchema,
+  globalStylesVariables,
+  type GlobalStyleTokenKind,
+  type GlobalStyles,
+} from "@shared/global-styles";
+
+type Elements = GlobalStyles["elements"];
+
+interface TokenOption {
+  label: string;
+  value: string;
+}
+
+/**
+ * Text input for a CSS value with a picker of the site's tokens, which
+ * fills in a var() reference so the value follows later token changes
+ */
+function TokenValueInput({
+  label,
+  value,
+  placeholder,
+  tokens,
+  onChange,
+}: {
+  label: string;
+  value: string | undefined;
+  placeholder?: string;
+  tokens: TokenOption[];
+  onChange: (value: string | undefined) => void;
+}) {
+  const selected = tokens.find((token) => token.value === value)?.value ?? "";
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-gray-600">{label}</Label>
+      <div className="flex gap-2">
+        <Input
+          value={value ?? ""}
+          placeholder={placeholder}
+          onChange={(e) => onChange(e.target.value || undefined)}
+          className="h-8 text-sm"
+        />
+        {tokens.length > 0 && (
+          <Select value={selected} onValueChange={(next) => onChange(next)}>
+            <SelectTrigger className="h-8 w-32 text-xs">
+              <SelectValue placeholder="Token" />
+            </SelectTrigger>
+            <SelectContent>
+              {tokens.map((token) => (
+                <SelectItem key={token.value} value={token.value}>
+                  {token.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Editable list of named tokens (palette, font families or spacing scale) */
+function TokenList<T extends { slug: string; name: string }>({
+  title,
+  tokens,
+  valueKey,
+  valuePlaceholder,
+  isColor,
+  onChange,
+  newToken,
+}: {
+  title: string;
+  tokens: T[];
+  valueKey: keyof T & string;
+  valuePlaceholder: string;
+  isColor?: boolean;
+  onChange: (tokens: T[]) => void;
+  newToken: (index: number) => T;
+}) {
+  const update = (index: number, patch: Partial<T>) =>
+    onChange(tokens.map((token, i) => (i === index ? { ...token, ...patch } : token)));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between py-4">
+        <CardTitle className="text-base">{title}</CardTitle>
+        <Button variant="outline" size="sm" onClick={() => onChange([...tokens, newToken(tokens.length + 1)])}>
+          <Plus className="w-3 h-3 mr-1" />
+          Add
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="grid grid-cols-[1fr_1fr_2fr_auto] gap-2 text-xs text-gray-500">
+          <span>Name</span>
+          <span>Slug</span>
+          <span>Value</span>
+          <span className="w-8" />
+        </div>
+        {tokens.map((token, index) => (
+          <div key={index} className="grid grid-cols-[1fr_1fr_2fr_auto] gap-2 items-center">
+            <Input
+              value={token.name}
+              onChange={(e) => update(index, { name: e.target.value } as Partial<T>)}
+              className="h-8 text-sm"
+            />
+            <Input
+              value={token.slug}
+              onChange={(e) => update(index, { slug: e.target.value } as Partial<T>)}
+              className="h-8 text-sm font-mono"
+            />
+            <div className="flex gap-2">
+              {isColor && (
+                <Input
+                  type="color"
+                  value={/^#[0-9a-f]{6}$/i.test(String(token[valueKey])) ? String(token[valueKey]) : "#000000"}
+                  onChange={(e) => update(index, { [valueKey]: e.target.value } as Partial<T>)}
+                  className="w-10 h-8 p-1"
+                />
+              )}
+              <Input
+                value={String(token[valueKey] ?? "")}
+                placeholder={valuePlaceholder}
+                onChange={(e) => update(index, { [valueKey]: e.target.value } as Partial<T>)}
+                className="h-8 text-sm font-mono"
+              />
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              title={`Remove ${token.name}`}
+              onClick={() => onChange(tokens.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="w-4 h-4 text-gray-500" />
+            </Button>
+          </div>
+        ))}
+        {tokens.length === 0 && <p className="text-sm text-gray-500">No tokens yet.</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Site Styles — edits the active theme's global styles: palette, font
+ * families, spacing scale, container width and the defaults of body text,
+ * headings, links and buttons. Published pages pick changes up immediately.
+ */
+export default function SiteStyles() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { styles, isLoading } = useGlobalStyles();
+  const { data: activeTheme } = useQuery<Theme | null>({ queryKey: ["/api/themes/active"] });
+  const [draft, setDraft] = useState<GlobalStyles>(styles);
+  const [isDirty, setIsDirty] = useState(false);
+
+  // Follow the server copy until the user starts editing
+  useEffect(() => {
+    if (!isDirty) setDraft(styles);
+  }, [styles, isDirty]);
+
+  const change = (next: GlobalStyles) => {
+    setDraft(next);
+    setIsDirty(true);
+  };
+  const changeElement = <K extends keyof Elements>(element: K, patch: Partial<Elements[K]>) =>
+    change({ ...draft, elements: { ...draft.elements, [element]: { ...draft.elements[element], ...patch } } });
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: GlobalStyles) => {
+      const res = await apiRequest("PUT", "/api/themes/active/styles", next);
+      return (await res.json()) as GlobalStyles;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(GLOBAL_STYLES_QUERY_KEY, saved);
+      setIsDirty(false);
+      toast({ title: "Success", description: "Site styles saved" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save site styles", variant: "destructive" });
+    },
+  });
+
+  const handleSave = () => {
+    const parsed = globalStylesSchema.safeParse(draft);
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      toast({
+        title: "Invalid styles",
+        description: `${issue.path.join(" › ")}: ${issue.message}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate(parsed.data);
+  };
+
+  const tokenOptions = (kind: GlobalStyleTokenKind): TokenOption[] => {
+    if (kind === "color") {
+      return draft.palette.map((token) => ({ label: token.name, value: globalStyleVar("color", token.slug) }));
+    }
+    if (kind === "font") {
+      return draft.fontFamilies.map((token) => ({ label: token.name, value: globalStyleVar("font", token.slug) }));
+    }
+    return draft.spacing.map((token) => ({ label: token.name, value: globalStyleVar("spacing", token.slug) }));
+  };
+  const colors = tokenOptions("color");
+  const fonts = tokenOptions("font");
+  const spacing = tokenOptions("spacing");
+  const { body, heading, link, button } = draft.elements;
+
+  return (
+    <div className="min-h-screen bg-wp-gray-light">
+      <AdminTopBar />
+      <AdminSidebar />
+
+      <div className="ml-40 pt-8">
+        {/* Header */}
+        <div className="bg-white border-b border-gray-200 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-semibold text-wp-gray">Site Styles</h1>
+              <p className="text-sm text-gray-500">
+                Design tokens and element defaults of {activeTheme ? activeTheme.name : "the active theme"}, used by
+                every published page and offered in the builder's color and spacing pickers.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={() => change(DEFAULT_GLOBAL_STYLES)}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Reset to defaults
+              </Button>
+              <Button
+                className="bg-wp-blue hover:bg-wp-blue-dark text-white"
+                onClick={handleSave}
+                disabled={!isDirty || saveMutation.isPending || !activeTheme}
+              >
+                <Save className="w-4 h-4 mr-2" />
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6">
+          {isLoading ? (
+            <div className="text-center py-8 text-gray-500">Loading site styles...</div>
+          ) : (
+            <div className="grid grid-cols-1 xl:grid-cols-[1fr_360px] gap-6">
+              <div className="space-y-6">
+                {!activeTheme && (
+                  <div className="p-4 border border-amber-200 bg-amber-50 text-sm text-amber-800">
+                    Activate a theme to save site styles.
+                  </div>
+                )}
+
+                <TokenList
+                  title="Palette"
+                  tokens={draft.palette}
+                  valueKey="color"
+                  valuePlaceholder="#007cba"
+                  isColor
+                  onChange={(palette) => change({ ...draft, palette })}
+                  newToken={(n) => ({ slug: `color-${n}`, name: `Color ${n}`, color: "#000000" })}
+                />
+
+                <TokenList
+                  title="Font families"
+                  tokens={draft.fontFamilies}
+                  valueKey="fontFamily"
+                  valuePlaceholder='"Inter", sans-serif'
+                  onChange={(fontFamilies) => change({ ...draft, fontFamilies })}
+                  newToken={(n) => ({ slug: `font-${n}`, name: `Font ${n}`, fontFamily: "sans-serif" })}
+                />
+
+                <TokenList
+                  title="Spacing scale"
+                  tokens={draft.spacing}
+                  valueKey="size"
+                  valuePlaceholder="1rem"
+                  onChange={(next) => change({ ...draft, spacing: next })}
+                  newToken={(n) => ({ slug: `space-${n}`, name: `Space ${n}`, size: "1rem" })}
+                />
+
+                <Card>
+                  <CardHeader className="py-4">
+                    <CardTitle className="text-base">Layout and text</CardTitle>
+                  </CardHeader>
+                  <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <TokenValueInput
+                      label="Container width"
+                      value={draft.containerWidth}
+                      placeholder="1200px"
+                      tokens={[]}
+                      onChange={(value) => change({ ...draft, containerWidth: value ?? "" })}
+                    />
+                    <TokenValueInput
+                      label="Body font"
+                      value={body.fontFamily}
+                      tokens={fonts}
+                      onChange={(fontFamily) => changeElement("body", { fontFamily })}
+                    />
+                    <TokenValueInput
+                      label="Body font size"
+                      value={body.fontSize}
+                      placeholder="16px"
+                      tokens={[]}
+                      onChange={(fontSize) => changeElement("body", { fontSize })}
+                    />
+                    <TokenValueInput
+                      label="Body line height"
+                      value={body.lineHeight}
+                      placeholder="1.6"
+                      tokens={[]}
+                      onChange={(lineHeight) => changeElement("body", { lineHeight })}
+                    />
+                    <TokenValueInput
+                      label="Text color"
+                      value={body.color}
+                      tokens={colors}
+                      onChange={(color) => changeElement("body", { color })}
+                    />
+                    <TokenValueInput
+                      label="Background color"
+                      value={body.backgroundColor}
+                      tokens={colors}
+                      onChange={(backgroundColor) => changeElement("body", { backgroundColor })}
+                    />
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="py-4">
+                    <CardTitle className="text-base">Headings</CardTitle>
+                  </CardHeader>
+                  <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <TokenValueInput
+                      label="Font"
+                      value={heading.fontFamily}
+                      tokens={fonts}
+                      onChange={(fontFamily) => changeElement("heading", { fontFamily })}
+                    />
+                    <TokenValueInput
+                      label="Weight"
+                      value={heading.fontWeight}
+                      placeholder="700"
+                      tokens={[]}
+                      onChange={(fontWeight) => changeElement("heading", { fontWeight })}
+                    />
+                    <TokenValueInput
+                      label="Color"
+                      value={heading.color}
+                      tokens={colors}
+                      onChange={(color) => changeElement("heading", { color })}
+                    />
+                    <TokenValueInput
+                      label="Line height"
+                      value={heading.lineHeight}
+                      placeholder="1.2"
+                      tokens={[]}
+                      onChange={(lineHeight) => changeElement("heading", { lineHeight })}
+                    />
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="py-4">
+                    <CardTitle className="text-base">Links</CardTitle>
+                  </CardHeader>
+                  <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <TokenValueInput
+                      label="Color"
+                      value={link.color}
+                      tokens={colors}
+                      onChange={(color) => changeElement("link", { color })}
+                    />
+                    <TokenValueInput
+                      label="Hover color"
+                      value={link.hoverColor}
+                      tokens={colors}
+                      onChange={(hoverColor) => changeElement("link", { hoverColor })}
+                    />
+                    <TokenValueInput
+                      label="Decoration"
+                      value={link.textDecoration}
+                      placeholder="underline"
+                      tokens={[]}
+                      onChange={(textDecoration) => changeElement("link", { textDecoration })}
+                    />
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="py-4">
+                    <CardTitle className="text-base">Buttons</CardTitle>
+                  </CardHeader>
+                  <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <TokenValueInput
+                      label="Background"
+                      value={button.backgroundColor}
+                      tokens={colors}
+                      onChange={(backgroundColor) => changeElement("button", { backgroundColor })}
+                    />
+                    <TokenValueInput
+                      label="Hover background"
+                      value={button.hoverBackgroundColor}
+                      tokens={colors}
+                      onChange={(hoverBackgroundColor) => changeElement("button", { hoverBackgroundColor })}
+                    />
+                    <TokenValueInput
+                      label="Text color"
+                      value={button.color}
+                      tokens={colors}
+                      onChange={(color) => changeElement("button", { color })}
+                    />
+                    <TokenValueInput
+                      label="Corner radius"
+                      value={button.borderRadius}
+                      placeholder="4px"
+                      tokens={[]}
+                      onChange={(borderRadius) => changeElement("button", { borderRadius })}
+                    />
+                    <TokenValueInput
+                      label="Padding"
+                      value={button.padding}
+                      placeholder="12px 24px"
+                      tokens={spacing}
+                      onChange={(padding) => changeElement("button", { padding })}
+                    />
+                  </CardContent>
+                </Card>
+              </div>
+
+              {/* Preview, with the draft's custom properties so var() references resolve */}
+              <div className="xl:sticky xl:top-20 self-start">
+                <Card>
+                  <CardHeader className="py-4">
+                    <CardTitle className="text-base">Preview</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div
+                      className="p-6 border border-gray-200 space-y-3"
+                      style={{
+                        ...(globalStylesVariables(draft) as React.CSSProperties),
+                        fontFamily: body.fontFamily,
+                        fontSize: body.fontSize,
+                        lineHeight: body.lineHeight,
+                        color: body.color,
+                        backgroundColor: body.backgroundColor,
+                      }}
+                    >
+                      <h2
+                        className="text-2xl"
+                        style={{
+                          fontFamily: heading.fontFamily,
+                          fontWeight: heading.fontWeight ?? 700,
+                          lineHeight: heading.lineHeight,
+                          color: heading.color,
+                        }}
+                      >
+                        The quick brown fox
+                      </h2>
+                      <p>
+                        Body text with{" "}
+                        <a
+                          href="#preview"
+                          onClick={(e) => e.preventDefault()}
+                          style={{ color: link.color, textDecoration: link.textDecoration }}
+                        >
+                          a link
+                        </a>{" "}
+                        in the middle of a sentence.
+                      </p>
+                      <span
+                        className="inline-block font-semibold"
+                        style={{
+                          padding: button.padding ?? "12px 24px",
+                          borderRadius: button.borderRadius ?? "4px",
+                          backgroundColor: button.backgroundColor ?? "#007cba",
+                          color: button.color ?? "#ffffff",
+                        }}
+                      >
+                        Button
+                      </span>
+                      <div className="flex flex-wrap gap-1 pt-2">
+                        {draft.palette.map((token) => (
+                          <span
+                            key={token.slug}
+                            className="w-6 h-6 border border-gray-200"
+                            style={{ backgroundColor: token.color }}
+                            title={token.name}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -143,6 +143,7 @@ export default function Templates() {
       footer: "secondary",
       page: "outline",
       post: "default",
+      archive: "outline",
       popup: "destructive",
     };
     return <Badge variant={variants[type] || "secondary"}>{type}</Badge>;
@@ -198,6 +199,7 @@ export default function Templates() {
                       <SelectItem value="footer">Footer</SelectItem>
                       <SelectItem value="page">Page</SelectItem>
                       <SelectItem value="post">Post</SelectItem>
+                      <SelectItem value="archive">Archive</SelectItem>
                       <SelectItem value="popup">Popup</SelectItem>
                     </SelectContent>
                   </Select>
@@ -1,17 +1,27 @@
+import { useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle, Download, Settings } from "lucide-react";
+import { CheckCircle, Download, PackageOpen, Settings } from "lucide-react";
 import AdminTopBar from "@/components/AdminTopBar";
 import AdminSidebar from "@/components/AdminSidebar";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import type { Theme } from "@shared/schema-types";
 
+const PLACEHOLDER_SCREENSHOT =
+  "https://images.unsplash.com/photo-1460925895917-afdab827c52f?ixlib=rb-4.0.3&auto=format&fit=crop&w=400&h=250";
+
+// Screenshot extracted from the theme's package, if it shipped one
+const screenshotOf = (theme: Theme) =>
+  ((theme.other ?? {}) as { screenshot?: string | null }).screenshot || PLACEHOLDER_SCREENSHOT;
+
 export default function Themes() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const packageInputRef = useRef<HTMLInputElement>(null);
 
   const { data: themes, isLoading } = useQuery({
     queryKey: ['/api/themes'],
@@ -42,6 +52,40 @@ export default function Themes() {
     },
   });
 
+  const installMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('theme', file);
+      const res = await fetch('/api/themes/upload', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.message || 'Failed to install theme');
+      }
+      return body as { theme: Theme; upgraded: boolean };
+    },
+    onSuccess: ({ theme, upgraded }) => {
+      toast({
+        title: "Success",
+        description: `${theme.name} ${theme.version} ${upgraded ? "updated" : "installed"}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/themes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/themes/active'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/patterns'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleActivate = (themeId: number) => {
     activateMutation.mutate(themeId);
   };
@@ -72,9 +116,24 @@ export default function Themes() {
         <div className="bg-white border-b border-gray-200 px-6 py-4">
           <div className="flex items-center justify-between">
             <h1 className="text-2xl font-semibold text-wp-gray">Themes</h1>
-            <Button className="bg-wp-blue hover:bg-wp-blue-dark text-white">
+            <input
+              ref={packageInputRef}
+              type="file"
+              accept="application/zip,.zip"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) installMutation.mutate(file);
+                e.target.value = "";
+              }}
+            />
+            <Button
+              className="bg-wp-blue hover:bg-wp-blue-dark text-white"
+              onClick={() => packageInputRef.current?.click()}
+              disabled={installMutation.isPending}
+            >
               <Download className="w-4 h-4 mr-2" />
-              Install Theme
+              {installMutation.isPending ? "Installing..." : "Install Theme"}
             </Button>
           </div>
         </div>
@@ -89,7 +148,7 @@ export default function Themes() {
                 <CardContent className="p-6">
                   <div className="flex items-start space-x-6">
                     <img 
-                      src="https://images.unsplash.com/photo-1460925895917-afdab827c52f?ixlib=rb-4.0.3&auto=format&fit=crop&w=300&h=200" 
+                      src={screenshotOf(activeTheme as Theme)}
                       alt={(activeTheme as any).name}
                       className="w-48 h-32 object-cover rounded border"
                     />
@@ -109,9 +168,17 @@ export default function Themes() {
                            <div>By: {(activeTheme as any).author}</div>
                         </div>
                         <div className="flex space-x-3">
-                          <Button variant="outline">
-                            <Settings className="w-4 h-4 mr-2" />
-                            Customize
+                          <Button variant="outline" asChild>
+                            <a href={`/api/themes/${(activeTheme as any).id}/export`}>
+                              <PackageOpen className="w-4 h-4 mr-2" />
+                              Export
+                            </a>
+                          </Button>
+                          <Button variant="outline" asChild>
+                            <Link href="/admin/site-styles">
+                              <Settings className="w-4 h-4 mr-2" />
+                              Customize
+                            </Link>
                           </Button>
                           <Button className="bg-wp-blue hover:bg-wp-blue-dark text-white">
                             Live Preview
@@ -141,7 +208,7 @@ export default function Themes() {
                     <CardContent className="p-6">
                       <div className="space-y-4">
                         <img 
-                          src="https://images.unsplash.com/photo-1460925895917-afdab827c52f?ixlib=rb-4.0.3&auto=format&fit=crop&w=400&h=250" 
+                          src={screenshotOf(theme)}
                           alt={theme.name}
                           className="w-full h-32 object-cover rounded border"
                         />
@@ -167,6 +234,11 @@ export default function Themes() {
                           <Button variant="outline" className="flex-1">
                             Preview
                           </Button>
+                          <Button variant="outline" size="icon" title="Export theme package" asChild>
+                            <a href={`/api/themes/${theme.id}/export`}>
+                              <PackageOpen className="w-4 h-4" />
+                            </a>
+                          </Button>
                         </div>
                       </div>
                     </CardContent>
@@ -35,22 +35,26 @@ import {
 	FormLabel,
 	FormMessage,
 } from "@/components/ui/form";
-import { UserPlus, Edit, Trash2, Mail } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { UserPlus, Edit, Trash2, Mail, Send } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import AdminTopBar from "@/components/AdminTopBar";
 import AdminSidebar from "@/components/AdminSidebar";
-import { apiRequest } from "@/lib/queryClient";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { User, NewUser } from "@shared/schema-types";
+import { RolesPanel, type RolesResponse } from "@/components/users/RolesPanel";
+import type { User, NewUser, UserRole } from "@shared/schema-types";
 import { getZodSchema } from "@shared/zod-schema";
 
-type UserFormData = NewUser & { role?: string };
+type UserFormData = NewUser;
 
 const userSchemas = getZodSchema("users");
 
 export default function Users() {
 	const [isDialogOpen, setIsDialogOpen] = useState(false);
+	const [isInviteOpen, setIsInviteOpen] = useState(false);
+	const [invite, setInvite] = useState({ email: "", roleId: "" });
 	const [editingUser, setEditingUser] = useState<User | null>(null);
 	const [page, setPage] = useState(1);
 
@@ -65,7 +69,6 @@ export default function Users() {
 			firstName: "",
 			lastName: "",
 			password: "",
-			role: "subscriber",
 			status: "active",
 		},
 	});
@@ -75,6 +78,23 @@ export default function Users() {
 		queryKey: ["/api/users", { page, per_page: 20 }],
 	});
 
+	const { data: rolesData } = useQuery<RolesResponse>({
+		queryKey: ["/api/roles"],
+	});
+
+	const { data: assignmentsData } = useQuery<{
+		siteId: string;
+		assignments: UserRole[];
+	}>({
+		queryKey: ["/api/roles/assignments"],
+	});
+
+	const roles = rolesData?.roles || [];
+	const assignments = assignmentsData?.assignments || [];
+
+	const getUserRoleIds = (userId: string) =>
+		assignments.filter((a) => a.userId === userId).map((a) => a.roleId);
+
 	const createMutation = useMutation({
 		mutationFn: async (userData: NewUser) => {
 			return await apiRequest("POST", "/api/users", userData);
@@ -126,6 +146,52 @@ export default function Users() {
 		},
 	});
 
+	// Creates a pending user who chooses their password from the emailed link
+	const inviteMutation = useMutation({
+		mutationFn: async (data: { email: string; roleId: string }) => {
+			return await apiRequest("POST", "/api/users/invite", {
+				email: data.email,
+				...(data.roleId && { roleId: data.roleId }),
+			});
+		},
+		onSuccess: () => {
+			toast({
+				title: "Success",
+				description: `Invitation sent to ${invite.email}`,
+			});
+			queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+			queryClient.invalidateQueries({ queryKey: ["/api/roles/assignments"] });
+			setIsInviteOpen(false);
+			setInvite({ email: "", roleId: "" });
+		},
+		onError: (error) => {
+			toast({
+				title: "Error",
+				description: apiErrorMessage(error, "Failed to send invitation"),
+				variant: "destructive",
+			});
+		},
+	});
+
+	const resendInvitationMutation = useMutation({
+		mutationFn: async (id: string) => {
+			return await apiRequest("POST", `/api/users/${id}/resend-invitation`);
+		},
+		onSuccess: () => {
+			toast({
+				title: "Success",
+				description: "Invitation sent again",
+			});
+		},
+		onError: (error) => {
+			toast({
+				title: "Error",
+				description: apiErrorMessage(error, "Failed to resend invitation"),
+				variant: "destructive",
+			});
+		},
+	});
+
 	const deleteMutation = useMutation({
 		mutationFn: async (id: string) => {
 			return await apiRequest("DELETE", `/api/users/${id}`);
@@ -146,6 +212,33 @@ export default function Users() {
 		},
 	});
 
+	// Replaces the user's roles on the current site with the selected one
+	const assignRoleMutation = useMutation({
+		mutationFn: async ({ userId, roleId }: { userId: string; roleId: string }) => {
+			for (const currentRoleId of getUserRoleIds(userId)) {
+				if (currentRoleId !== roleId) {
+					await apiRequest("DELETE", `/api/roles/${currentRoleId}/assign/${userId}`);
+				}
+			}
+			return await apiRequest("POST", `/api/roles/${roleId}/assign`, { userId });
+		},
+		onSuccess: () => {
+			toast({
+				title: "Success",
+				description: "User role updated successfully",
+			});
+			queryClient.invalidateQueries({ queryKey: ["/api/roles/assignments"] });
+		},
+		onError: () => {
+			toast({
+				title: "Error",
+				description: "Failed to update user role",
+				variant: "destructive",
+			});
+			queryClient.invalidateQueries({ queryKey: ["/api/roles/assignments"] });
+		},
+	});
+
 	const handleNewUser = () => {
 		setEditingUser(null);
 		form.reset();
@@ -161,7 +254,6 @@ export default function Users() {
 			firstName: user.firstName || "",
 			lastName: user.lastName || "",
 			password: "", // Password field is empty for editing
-			role: (user.role as any) || "subscriber",
 			status: (user.status as any) || "active",
 		});
 		setIsDialogOpen(true);
@@ -188,17 +280,6 @@ export default function Users() {
 
 	const users = (usersData as any)?.users || [];
 
-	const getRoleBadge = (role: string) => {
-		const variants: Record<string, any> = {
-			administrator: "destructive",
-			editor: "default",
-			author: "secondary",
-			contributor: "outline",
-			subscriber: "outline",
-		};
-		return <Badge variant={variants[role] || "outline"}>{role}</Badge>;
-	};
-
 	const getStatusBadge = (status: string) => {
 		const variants: Record<string, any> = {
 			active: "default",
@@ -218,192 +299,162 @@ export default function Users() {
 				<div className="bg-white border-b border-gray-200 px-6 py-4">
 					<div className="flex items-center justify-between">
 						<h1 className="text-2xl font-semibold text-wp-gray">Users</h1>
-						<Button
-							className="bg-wp-blue hover:bg-wp-blue-dark text-white"
-							onClick={handleNewUser}
-						>
-							<UserPlus className="w-4 h-4 mr-2" />
-							Add New User
-						</Button>
+						<div className="flex items-center space-x-2">
+							<Button variant="outline" onClick={() => setIsInviteOpen(true)}>
+								<Send className="w-4 h-4 mr-2" />
+								Invite User
+							</Button>
+							<Button
+								className="bg-wp-blue hover:bg-wp-blue-dark text-white"
+								onClick={handleNewUser}
+							>
+								<UserPlus className="w-4 h-4 mr-2" />
+								Add New User
+							</Button>
+						</div>
 					</div>
 				</div>
 
 				{/* Content */}
 				<div className="p-6">
-					<Card>
-						<CardHeader>
-							<CardTitle>All Users</CardTitle>
-						</CardHeader>
-						<CardContent>
-							<Table>
-								<TableHeader>
-									<TableRow>
-										<TableHead>User</TableHead>
-										<TableHead>Email</TableHead>
-										<TableHead>Role</TableHead>
-										<TableHead>Status</TableHead>
-										<TableHead>Registered</TableHead>
-										<TableHead className="text-right">Actions</TableHead>
-									</TableRow>
-								</TableHeader>
-								<TableBody>
-									{isLoading ? (
-										<TableRow>
-											<TableCell colSpan={6} className="text-center py-8">
-												Loading users...
-											</TableCell>
-										</TableRow>
-									) : users.length === 0 ? (
-										<TableRow>
-											<TableCell colSpan={6} className="text-center py-8">
-												No users found
-											</TableCell>
-										</TableRow>
-									) : (
-										users.map((user: any) => (
-											<TableRow key={user.id}>
-												<TableCell>
-													<div className="flex items-center space-x-3">
-														<Avatar className="w-8 h-8">
-															<AvatarImage
-																src={user.profileImageUrl || undefined}
-															/>
-															<AvatarFallback>
-																{(user.firstName?.[0] || "") +
-																	(user.lastName?.[0] || "")}
-															</AvatarFallback>
-														</Avatar>
-														<div>
-															<div className="font-medium text-wp-gray">
-																{user.firstName} {user.lastName}
+					<Tabs defaultValue="users" className="space-y-6">
+						<TabsList>
+							<TabsTrigger value="users">Users</TabsTrigger>
+							<TabsTrigger value="roles">Roles</TabsTrigger>
+						</TabsList>
+
+						<TabsContent value="users">
+							<Card>
+								<CardHeader>
+									<CardTitle>All Users</CardTitle>
+								</CardHeader>
+								<CardContent>
+									<Table>
+										<TableHeader>
+											<TableRow>
+												<TableHead>User</TableHead>
+												<TableHead>Email</TableHead>
+												<TableHead>Role</TableHead>
+												<TableHead>Status</TableHead>
+												<TableHead>Registered</TableHead>
+												<TableHead className="text-right">Actions</TableHead>
+											</TableRow>
+										</TableHeader>
+										<TableBody>
+											{isLoading ? (
+												<TableRow>
+													<TableCell colSpan={6} className="text-center py-8">
+														Loading users...
+													</TableCell>
+												</TableRow>
+											) : users.length === 0 ? (
+												<TableRow>
+													<TableCell colSpan={6} className="text-center py-8">
+														No users found
+													</TableCell>
+												</TableRow>
+											) : (
+												users.map((user: any) => (
+													<TableRow key={user.id}>
+														<TableCell>
+															<div className="flex items-center space-x-3">
+																<Avatar className="w-8 h-8">
+																	<AvatarImage
+																		src={user.profileImageUrl || undefined}
+																	/>
+																	<AvatarFallback>
+																		{(user.firstName?.[0] || "") +
+																			(user.lastName?.[0] || "")}
+																	</AvatarFallback>
+																</Avatar>
+																<div>
+																	<div className="font-medium text-wp-gray">
+																		{user.firstName} {user.lastName}
+																	</div>
+																	<div className="text-sm text-gray-500">
+																		@{user.username}
+																	</div>
+																</div>
 															</div>
-															<div className="text-sm text-gray-500">
-																@{user.username}
+														</TableCell>
+														<TableCell>
+															<a
+																href={`mailto:${user.email}`}
+																className="text-wp-blue hover:underline flex items-center"
+															>
+																<Mail className="w-4 h-4 mr-1" />
+																{user.email}
+															</a>
+														</TableCell>
+														<TableCell>
+															<Select
+																value={getUserRoleIds(user.id)[0] ?? ""}
+																onValueChange={(roleId) =>
+																	assignRoleMutation.mutate({ userId: user.id, roleId })
+																}
+																disabled={assignRoleMutation.isPending}
+															>
+																<SelectTrigger className="w-36 h-8">
+																	<SelectValue placeholder="No role" />
+																</SelectTrigger>
+																<SelectContent>
+																	{roles.map((role) => (
+																		<SelectItem key={role.id} value={role.id}>
+																			<span className="capitalize">{role.name}</span>
+																		</SelectItem>
+																	))}
+																</SelectContent>
+															</Select>
+														</TableCell>
+														<TableCell>{getStatusBadge(user.status)}</TableCell>
+														<TableCell>
+															<div className="text-sm">
+																{new Date(user.createdAt).toLocaleDateString()}
 															</div>
-														</div>
-													</div>
-												</TableCell>
-												<TableCell>
-													<a
-														href={`mailto:${user.email}`}
-														className="text-wp-blue hover:underline flex items-center"
-													>
-														<Mail className="w-4 h-4 mr-1" />
-														{user.email}
-													</a>
-												</TableCell>
-												<TableCell>{getRoleBadge(user.role)}</TableCell>
-												<TableCell>{getStatusBadge(user.status)}</TableCell>
-												<TableCell>
-													<div className="text-sm">
-														{new Date(user.createdAt).toLocaleDateString()}
-													</div>
-												</TableCell>
-												<TableCell className="text-right">
-													<div className="flex items-center justify-end space-x-2">
-														<Button
-															variant="ghost"
-															size="sm"
-															onClick={() => handleEditUser(user)}
-														>
-															<Edit className="w-4 h-4" />
-														</Button>
-														<Button
-															variant="ghost"
-															size="sm"
-															onClick={() => handleDeleteUser(user.id)}
-															disabled={deleteMutation.isPending}
-														>
-															<Trash2 className="w-4 h-4" />
-														</Button>
-													</div>
-												</TableCell>
-											</TableRow>
-										))
-									)}
-								</TableBody>
-							</Table>
-						</CardContent>
-					</Card>
-
-					{/* User Roles Info */}
-					<div className="mt-8 bg-gray-50 border border-gray-200 rounded-lg p-6">
-						<h3 className="text-lg font-semibold text-wp-gray mb-4">
-							User Roles & Capabilities
-						</h3>
-						<div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-							{[
-								{
-									role: "Administrator",
-									description:
-										"Full access to all NextPress features and settings",
-									capabilities: [
-										"Manage posts",
-										"Manage users",
-										"Install themes",
-										"Modify settings",
-									],
-								},
-								{
-									role: "Editor",
-									description:
-										"Can publish and manage posts including posts by other users",
-									capabilities: [
-										"Publish posts",
-										"Edit others' posts",
-										"Manage comments",
-										"Upload files",
-									],
-								},
-								{
-									role: "Author",
-									description: "Can publish and manage their own posts",
-									capabilities: [
-										"Publish own posts",
-										"Edit own posts",
-										"Upload files",
-										"View comments",
-									],
-								},
-								{
-									role: "Contributor",
-									description:
-										"Can write and manage their own posts but cannot publish them",
-									capabilities: [
-										"Write posts",
-										"Edit own posts",
-										"View own posts",
-									],
-								},
-								{
-									role: "Subscriber",
-									description: "Can only manage their profile and view content",
-									capabilities: ["Read posts", "Edit profile", "View comments"],
-								},
-							].map((role, index) => (
-								<div key={index} className="bg-white p-4 rounded border">
-									<div className="flex items-center space-x-2 mb-2">
-										<h4 className="font-medium text-wp-gray">{role.role}</h4>
-										{getRoleBadge(role.role.toLowerCase())}
-									</div>
-									<p className="text-sm text-gray-600 mb-3">
-										{role.description}
-									</p>
-									<div className="space-y-1">
-										{role.capabilities.map((capability, capIndex) => (
-											<div
-												key={capIndex}
-												className="text-xs text-gray-500 flex items-center"
-											>
-												<span className="w-1 h-1 bg-wp-blue rounded-full mr-2"></span>
-												{capability}
-											</div>
-										))}
-									</div>
-								</div>
-							))}
-						</div>
-					</div>
+														</TableCell>
+														<TableCell className="text-right">
+															<div className="flex items-center justify-end space-x-2">
+																{user.status === "pending" && user.email && (
+																	<Button
+																		variant="ghost"
+																		size="sm"
+																		title="Resend invitation"
+																		onClick={() => resendInvitationMutation.mutate(user.id)}
+																		disabled={resendInvitationMutation.isPending}
+																	>
+																		<Send className="w-4 h-4" />
+																	</Button>
+																)}
+																<Button
+																	variant="ghost"
+																	size="sm"
+																	onClick={() => handleEditUser(user)}
+																>
+																	<Edit className="w-4 h-4" />
+																</Button>
+																<Button
+																	variant="ghost"
+																	size="sm"
+																	onClick={() => handleDeleteUser(user.id)}
+																	disabled={deleteMutation.isPending}
+																>
+																	<Trash2 className="w-4 h-4" />
+																</Button>
+															</div>
+														</TableCell>
+													</TableRow>
+												))
+											)}
+										</TableBody>
+									</Table>
+								</CardContent>
+							</Card>
+						</TabsContent>
+
+						<TabsContent value="roles">
+							<RolesPanel />
+						</TabsContent>
+					</Tabs>
 				</div>
 			</div>
 
@@ -505,36 +556,6 @@ export default function Users() {
 								)}
 							/>
 
-							<FormField
-								control={form.control}
-								name="role"
-								render={({ field }) => (
-									<FormItem>
-										<FormLabel>Role</FormLabel>
-										<Select
-											onValueChange={field.onChange}
-											defaultValue={field.value}
-										>
-											<FormControl>
-												<SelectTrigger>
-													<SelectValue placeholder="Select a role" />
-												</SelectTrigger>
-											</FormControl>
-											<SelectContent>
-												<SelectItem value="administrator">
-													Administrator
-												</SelectItem>
-												<SelectItem value="editor">Editor</SelectItem>
-												<SelectItem value="author">Author</SelectItem>
-												<SelectItem value="contributor">Contributor</SelectItem>
-												<SelectItem value="subscriber">Subscriber</SelectItem>
-											</SelectContent>
-										</Select>
-										<FormMessage />
-									</FormItem>
-								)}
-							/>
-
 							<FormField
 								control={form.control}
 								name="status"
@@ -587,6 +608,74 @@ export default function Users() {
 					</Form>
 				</DialogContent>
 			</Dialog>
+
+			{/* Invite Dialog */}
+			<Dialog open={isInviteOpen} onOpenChange={setIsInviteOpen}>
+				<DialogContent className="max-w-md">
+					<DialogHeader>
+						<DialogTitle>Invite User</DialogTitle>
+					</DialogHeader>
+
+					<form
+						className="space-y-4"
+						onSubmit={(e) => {
+							e.preventDefault();
+							inviteMutation.mutate(invite);
+						}}
+					>
+						<p className="text-sm text-gray-600">
+							They get an email with a link to choose a password. The account
+							stays pending until they do.
+						</p>
+						<div className="space-y-2">
+							<Label htmlFor="invite-email">Email</Label>
+							<Input
+								id="invite-email"
+								type="email"
+								placeholder="name@example.com"
+								value={invite.email}
+								onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+								required
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label>Role</Label>
+							<Select
+								value={invite.roleId}
+								onValueChange={(roleId) => setInvite({ ...invite, roleId })}
+							>
+								<SelectTrigger>
+									<SelectValue placeholder="Default role" />
+								</SelectTrigger>
+								<SelectContent>
+									{roles.map((role) => (
+										<SelectItem key={role.id} value={role.id}>
+											<span className="capitalize">{role.name}</span>
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+
+						<div className="flex justify-end space-x-2 pt-4">
+							<Button
+								type="button"
+								variant="outline"
+								onClick={() => setIsInviteOpen(false)}
+							>
+								Cancel
+							</Button>
+							<Button
+								type="submit"
+								className="bg-wp-blue hover:bg-wp-blue-dark"
+								disabled={inviteMutation.isPending}
+							>
+								Send Invitation
+							</Button>
+						</div>
+					</form>
+				</DialogContent>
+			</Dialog>
 		</div>
 	);
 }
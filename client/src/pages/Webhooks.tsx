@@ -0,0 +1,478 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Plus, Trash2, Pencil, History, RotateCw } from "lucide-react";
+import { Link } from "wouter";
+import AdminTopBar from "@/components/AdminTopBar";
+import AdminSidebar from "@/components/AdminSidebar";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Webhook, WebhookDelivery, WebhookDeliveryStatus } from "@shared/schema-types";
+import {
+  WEBHOOK_EVENT_DESCRIPTIONS,
+  WEBHOOK_EVENT_NAMES,
+  WEBHOOK_HEADERS,
+  webhookInputSchema,
+  type WebhookEvent,
+} from "@shared/webhooks";
+
+/** Fields of the create / edit dialog; an empty secret keeps (or generates) one */
+interface WebhookForm {
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  secret: string;
+  active: boolean;
+}
+
+const EMPTY_FORM: WebhookForm = {
+  name: "",
+  url: "",
+  events: ["publish_post"],
+  secret: "",
+  active: true,
+};
+
+const toForm = (webhook: Webhook): WebhookForm => ({
+  name: webhook.name,
+  url: webhook.url,
+  events: (webhook.events as WebhookEvent[]) ?? [],
+  secret: "",
+  active: webhook.active,
+});
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  delivered: "default",
+  pending: "outline",
+  retrying: "secondary",
+  failed: "destructive",
+};
+
+const formatTime = (value: Date | string | null) => (value ? new Date(value).toLocaleString() : "—");
+
+/** Latest deliveries of a webhook, each of which can be sent again */
+function DeliveryLog({ webhook }: { webhook: Webhook }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/webhooks/${webhook.id}/deliveries`];
+
+  const { data: deliveries, isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey,
+    // Pending deliveries go out on the next scheduler run
+    refetchInterval: 15_000,
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (deliveryId: string) => {
+      await apiRequest('POST', `/api/webhooks/deliveries/${deliveryId}/replay`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Delivery queued", description: "The payload will be sent again shortly" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to replay delivery", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) return <div className="text-center py-8 text-gray-500">Loading deliveries...</div>;
+  if (!deliveries || deliveries.length === 0) {
+    return <div className="text-center py-8 text-gray-500">Nothing has been sent to this webhook yet.</div>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Event</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Attempts</TableHead>
+          <TableHead>Response</TableHead>
+          <TableHead>Created</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {deliveries.map((delivery) => (
+          <TableRow key={delivery.id}>
+            <TableCell>
+              <div className="font-mono text-sm">{delivery.event}</div>
+              <div className="text-xs text-gray-400 font-mono">{delivery.id}</div>
+            </TableCell>
+            <TableCell>
+              <Badge variant={STATUS_VARIANTS[delivery.status as WebhookDeliveryStatus] ?? "outline"}>
+                {delivery.status}
+              </Badge>
+              {delivery.status === "retrying" && (
+                <div className="text-xs text-gray-500 mt-1">Next attempt {formatTime(delivery.nextAttemptAt)}</div>
+              )}
+            </TableCell>
+            <TableCell className="text-sm">{delivery.attempts}</TableCell>
+            <TableCell>
+              <div className="text-sm">
+                {delivery.responseStatus ?? "—"}
+                {delivery.durationMs != null && <span className="text-gray-400"> · {delivery.durationMs} ms</span>}
+              </div>
+              {delivery.error && (
+                <div className="text-xs text-red-600 max-w-xs truncate" title={delivery.error}>
+                  {delivery.error}
+                </div>
+              )}
+            </TableCell>
+            <TableCell className="text-sm">{formatTime(delivery.createdAt)}</TableCell>
+            <TableCell className="text-right">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => replayMutation.mutate(delivery.id)}
+                disabled={replayMutation.isPending}
+                title="Send again"
+              >
+                <RotateCw className="w-4 h-4" />
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function Webhooks() {
+  const [formOpen, setFormOpen] = useState(false);
+  /** Webhook the dialog edits; null when creating one */
+  const [editingWebhook, setEditingWebhook] = useState<Webhook | null>(null);
+  const [form, setForm] = useState<WebhookForm>(EMPTY_FORM);
+  const [webhookToDelete, setWebhookToDelete] = useState<Webhook | null>(null);
+  /** Webhook whose delivery log is shown */
+  const [logWebhook, setLogWebhook] = useState<Webhook | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: webhooks, isLoading } = useQuery<Webhook[]>({
+    queryKey: ['/api/webhooks'],
+  });
+
+  const { data: settingsResponse } = useQuery<{ status: boolean; data: { system: { webhooksEnabled: boolean } } }>({
+    queryKey: ['/api/settings'],
+  });
+  const webhooksEnabled = settingsResponse?.data?.system?.webhooksEnabled;
+
+  const openForm = (webhook: Webhook | null) => {
+    setEditingWebhook(webhook);
+    setForm(webhook ? toForm(webhook) : EMPTY_FORM);
+    setFormOpen(true);
+  };
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) =>
+    setForm({
+      ...form,
+      events: checked ? [...form.events, event] : form.events.filter((existing) => existing !== event),
+    });
+
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<Webhook> => {
+      const { secret, ...fields } = form;
+      const body = { ...fields, ...(secret.trim() ? { secret: secret.trim() } : {}) };
+      const res = editingWebhook
+        ? await apiRequest('PUT', `/api/webhooks/${editingWebhook.id}`, body)
+        : await apiRequest('POST', '/api/webhooks', body);
+      return res.json();
+    },
+    onSuccess: (webhook) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/webhooks'] });
+      setFormOpen(false);
+      if (!editingWebhook) {
+        // Shown once here so the receiver can be set up to verify signatures
+        toast({ title: "Webhook created", description: `Signing secret: ${webhook.secret}` });
+      }
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: editingWebhook ? "Failed to update webhook" : "Failed to create webhook",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    const parsed = webhookInputSchema.safeParse({ ...form, secret: form.secret.trim() || undefined });
+    if (!parsed.success) {
+      toast({ title: "Invalid webhook", description: parsed.error.errors[0].message, variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  const activeMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: string; active: boolean }) => {
+      await apiRequest('PUT', `/api/webhooks/${id}`, { active });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/webhooks'] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update webhook", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/webhooks/${id}`);
+    },
+    onSuccess: (_data, id) => {
+      toast({ title: "Success", description: "Webhook deleted successfully" });
+      setWebhookToDelete(null);
+      if (logWebhook?.id === id) setLogWebhook(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/webhooks'] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete webhook", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-wp-gray-light">
+      <AdminTopBar />
+      <AdminSidebar />
+
+      <div className="ml-40 pt-8">
+        {/* Header */}
+        <div className="bg-white border-b border-gray-200 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-semibold text-wp-gray">Webhooks</h1>
+              <p className="text-sm text-gray-500">
+                Signed JSON POSTs to other services when content changes. Verify the {WEBHOOK_HEADERS.signature} header
+                with the webhook's secret.
+              </p>
+            </div>
+            <Button className="bg-wp-blue hover:bg-wp-blue-dark text-white" onClick={() => openForm(null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add New Webhook
+            </Button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          {webhooksEnabled === false && (
+            <div className="p-4 border border-amber-200 bg-amber-50 text-sm text-amber-800">
+              Webhooks are turned off, so no deliveries are sent.{" "}
+              <Link href="/admin/settings" className="underline">Enable them in Settings</Link>.
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>All Webhooks</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="text-center py-8 text-gray-500">Loading webhooks...</div>
+              ) : !webhooks || webhooks.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  No webhooks yet.{" "}
+                  <Button variant="link" className="px-0" onClick={() => openForm(null)}>Add one</Button> to notify
+                  another service when content changes.
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Events</TableHead>
+                      <TableHead>Active</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {webhooks.map((webhook) => (
+                      <TableRow key={webhook.id}>
+                        <TableCell>
+                          <div className="font-medium text-wp-gray">{webhook.name}</div>
+                          <div className="text-sm text-gray-500 font-mono max-w-xs truncate">{webhook.url}</div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {(webhook.events as string[]).map((event) => (
+                              <Badge key={event} variant="outline" className="font-mono">{event}</Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={webhook.active}
+                            onCheckedChange={(active) => activeMutation.mutate({ id: webhook.id, active })}
+                          />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex items-center justify-end space-x-2">
+                            <Button variant="ghost" size="sm" onClick={() => setLogWebhook(webhook)} title="Delivery log">
+                              <History className="w-4 h-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => openForm(webhook)} title="Edit webhook">
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setWebhookToDelete(webhook)}
+                              disabled={deleteMutation.isPending}
+                              title="Delete webhook"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {logWebhook && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Deliveries to {logWebhook.name}</CardTitle>
+                  <Button variant="outline" size="sm" onClick={() => setLogWebhook(null)}>Close</Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <DeliveryLog webhook={logWebhook} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingWebhook ? "Edit Webhook" : "New Webhook"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="webhook-name">Name</Label>
+              <Input
+                id="webhook-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Rebuild storefront"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="webhook-url">Payload URL</Label>
+              <Input
+                id="webhook-url"
+                value={form.url}
+                onChange={(e) => setForm({ ...form, url: e.target.value })}
+                placeholder="https://example.com/hooks/nextpress"
+                className="mt-1 font-mono"
+              />
+            </div>
+            <div>
+              <Label htmlFor="webhook-secret">Secret</Label>
+              <Input
+                id="webhook-secret"
+                value={form.secret}
+                onChange={(e) => setForm({ ...form, secret: e.target.value })}
+                placeholder={editingWebhook ? "Leave empty to keep the current secret" : "Leave empty to generate one"}
+                className="mt-1 font-mono"
+              />
+            </div>
+            <div>
+              <Label>Events</Label>
+              <div className="mt-2 grid grid-cols-1 gap-2 max-h-64 overflow-y-auto">
+                {WEBHOOK_EVENT_NAMES.map((event) => (
+                  <label key={event} className="flex items-start gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={form.events.includes(event)}
+                      onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      <span className="font-mono">{event}</span>
+                      <span className="block text-gray-500">{WEBHOOK_EVENT_DESCRIPTIONS[event]}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="webhook-active">Active</Label>
+              <Switch
+                id="webhook-active"
+                checked={form.active}
+                onCheckedChange={(active) => setForm({ ...form, active })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>Cancel</Button>
+            <Button
+              className="bg-wp-blue hover:bg-wp-blue-dark text-white"
+              onClick={handleSave}
+              disabled={saveMutation.isPending}
+            >
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!webhookToDelete} onOpenChange={(open) => !open && setWebhookToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete webhook?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{webhookToDelete?.name}" and its delivery log will be deleted. Deliveries still waiting to be retried
+              are dropped.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => webhookToDelete && deleteMutation.mutate(webhookToDelete.id)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
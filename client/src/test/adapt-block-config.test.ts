@@ -465,5 +465,39 @@ describe('adaptBlockConfigToBlockData', () => {
       expect(css).toContain('.block-test-id');
       expect(css).toContain('font-size: 18px');
     });
+
+    it('generates breakpoint overrides, tablet first', () => {
+      const block = makeBlock('test-id', {
+        other: {
+          tokenMap: {
+            'mobile:fontSize': { property: 'fontSize', value: '', variant: null, alias: 'text', style: '14px', modifier: 'mobile' },
+            'tablet:fontSize': { property: 'fontSize', value: '', variant: null, alias: 'text', style: '16px', modifier: 'tablet' },
+            'mobile:color': null,
+          },
+        },
+      });
+      expect(collectBlockModifierCSS(block).split('\n')).toEqual([
+        '@media (max-width: 1023px) { .block-test-id { font-size: 16px !important; } }',
+        '@media (max-width: 767px) { .block-test-id { font-size: 14px !important; } }',
+      ]);
+    });
+
+    it('hides blocks on the chosen devices', () => {
+      const block = makeBlock('test-id', { other: { hideOn: ['mobile', 'desktop'] } });
+      expect(collectBlockModifierCSS(block).split('\n')).toEqual([
+        '@media (min-width: 1024px) { .block-test-id { display: none !important; } }',
+        '@media (max-width: 767px) { .block-test-id { display: none !important; } }',
+      ]);
+    });
+
+    it('includes nested blocks', () => {
+      const block = makeBlock('outer', {
+        type: 'container',
+        children: [makeBlock('inner', { parentId: 'outer', other: { hideOn: ['tablet'] } })],
+      });
+      expect(collectBlockModifierCSS(block)).toBe(
+        '@media (min-width: 768px) and (max-width: 1023px) { .block-inner { display: none !important; } }',
+      );
+    });
   });
 });
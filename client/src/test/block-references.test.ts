@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import {
+  BLOCK_REFERENCE,
+  MAX_REFERENCE_DEPTH,
+  collectReferenceIds,
+  copyBlocks,
+  referencesPattern,
+  resolveBlockReferences,
+} from "@shared/block-references";
+import type { BlockConfig } from "@shared/schema-types";
+
+const block = (id: string, overrides: Partial<BlockConfig> = {}): BlockConfig => ({
+  id,
+  name: "core/paragraph",
+  type: "block",
+  parentId: null,
+  content: { kind: "text", value: id },
+  ...overrides,
+});
+
+const reference = (id: string, ref: string): BlockConfig =>
+  block(id, { name: BLOCK_REFERENCE, content: { kind: "structured", data: { ref } } });
+
+const group = (id: string, children: BlockConfig[]): BlockConfig =>
+  block(id, {
+    name: "core/group",
+    type: "container",
+    content: { kind: "structured", data: {} },
+    children: children.map((child) => ({ ...child, parentId: id })),
+  });
+
+const ids = (blocks: BlockConfig[] | undefined): unknown[] =>
+  (blocks ?? []).map((item) => (item.children ? { [item.id]: ids(item.children) } : item.id));
+
+describe("collectReferenceIds", () => {
+  it("finds references inside containers once each", () => {
+    const blocks = [reference("r1", "cta"), group("g", [reference("r2", "cta"), reference("r3", "footer")])];
+
+    expect(collectReferenceIds(blocks)).toEqual(["cta", "footer"]);
+    expect(referencesPattern(blocks, "footer")).toBe(true);
+    expect(referencesPattern(blocks, "hero")).toBe(false);
+  });
+
+  it("ignores references without a pattern and blocks that only mention the ID", () => {
+    const blocks = [reference("r1", ""), block("p", { content: { kind: "text", value: "cta" } })];
+
+    expect(collectReferenceIds(blocks)).toEqual([]);
+    expect(referencesPattern("not blocks", "cta")).toBe(false);
+  });
+});
+
+describe("copyBlocks", () => {
+  it("renames every block and re-parents the top level", () => {
+    const copies = copyBlocks([group("g", [block("a")])], (item) => `copy-${item.id}`, "host");
+
+    expect(ids(copies)).toEqual([{ "copy-g": ["copy-a"] }]);
+    expect(copies[0].parentId).toBe("host");
+    expect(copies[0].children?.[0].parentId).toBe("copy-g");
+  });
+
+  it("points a Columns block's layout at the copied children", () => {
+    const columns = block("cols", {
+      name: "core/columns",
+      type: "container",
+      children: [block("a"), block("b")],
+      settings: {
+        columnLayout: [
+          { columnId: "old-1", width: "50%", blockIds: ["a"] },
+          { columnId: "old-2", width: "50%", blockIds: ["b", "gone"] },
+        ],
+      },
+    });
+
+    const [copy] = copyBlocks([columns], (item) => `copy-${item.id}`);
+
+    expect(copy.settings?.columnLayout).toEqual([
+      { columnId: "copy-cols-col-1", width: "50%", blockIds: ["copy-a"] },
+      { columnId: "copy-cols-col-2", width: "50%", blockIds: ["copy-b"] },
+    ]);
+    expect(columns.settings?.columnLayout[0].blockIds).toEqual(["a"]);
+  });
+});
+
+describe("resolveBlockReferences", () => {
+  it("fills references with prefixed copies of the pattern's blocks", () => {
+    const patterns = new Map([["cta", [block("title"), group("buttons", [block("go")])]]]);
+    const resolved = resolveBlockReferences([block("intro"), reference("r1", "cta"), reference("r2", "cta")], patterns);
+
+    expect(ids(resolved)).toEqual([
+      "intro",
+      { r1: ["r1-title", { "r1-buttons": ["r1-go"] }] },
+      { r2: ["r2-title", { "r2-buttons": ["r2-go"] }] },
+    ]);
+    expect(resolved[1].children?.[0].parentId).toBe("r1");
+  });
+
+  it("resolves patterns nested in patterns and inside containers", () => {
+    const patterns = new Map([
+      ["outer", [reference("inner-ref", "inner")]],
+      ["inner", [block("leaf")]],
+    ]);
+
+    expect(ids(resolveBlockReferences([group("g", [reference("r", "outer")])], patterns))).toEqual([
+      { g: [{ r: [{ "r-inner-ref": ["r-inner-ref-leaf"] }] }] },
+    ]);
+  });
+
+  it("leaves missing and self-referencing patterns empty", () => {
+    const patterns = new Map([["loop", [block("a"), reference("again", "loop")]]]);
+
+    expect(ids(resolveBlockReferences([reference("r1", "gone"), reference("r2", "loop")], patterns))).toEqual([
+      { r1: [] },
+      { r2: ["r2-a", { "r2-again": [] }] },
+    ]);
+  });
+
+  it("stops expanding past the nesting limit", () => {
+    const chain = Array.from({ length: MAX_REFERENCE_DEPTH + 2 }, (_, depth) => `p${depth}`);
+    const patterns = new Map(chain.map((id, depth) => [id, [reference(`to-${depth + 1}`, `p${depth + 1}`)]]));
+
+    let level = resolveBlockReferences([reference("r", "p0")], patterns)[0];
+    let depth = 0;
+    while (level.children?.length) {
+      level = level.children[0];
+      depth++;
+    }
+    expect(depth).toBe(MAX_REFERENCE_DEPTH);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { diffBlocks } from "@shared/block-diff";
+import type { BlockConfig } from "@shared/schema-types";
+
+const block = (id: string, overrides: Partial<BlockConfig> = {}): BlockConfig => ({
+  id,
+  name: "core/paragraph",
+  type: "block",
+  parentId: null,
+  content: { kind: "text", value: id },
+  ...overrides,
+});
+
+const group = (id: string, children: BlockConfig[]): BlockConfig =>
+  block(id, {
+    name: "core/group",
+    type: "container",
+    content: { kind: "structured", data: {} },
+    children: children.map((child) => ({ ...child, parentId: id })),
+  });
+
+describe("diffBlocks", () => {
+  it("reports nothing for identical trees", () => {
+    const blocks = [block("a"), group("g", [block("b")])];
+    const diff = diffBlocks(blocks, structuredClone(blocks));
+
+    expect(diff.summary).toEqual({ added: 0, removed: 0, changed: 0, moved: 0 });
+    expect(Object.values(diff.entries).every((entry) => entry.status === "unchanged")).toBe(true);
+  });
+
+  it("finds added and removed blocks at any depth", () => {
+    const diff = diffBlocks(
+      [block("a"), group("g", [block("b")])],
+      [group("g", [block("b"), block("c")]), block("d")]
+    );
+
+    expect(diff.entries.a.status).toBe("removed");
+    expect(diff.entries.c).toMatchObject({ status: "added", to: { parentId: "g", index: 1, depth: 1 } });
+    expect(diff.entries.d.status).toBe("added");
+    expect(diff.summary).toMatchObject({ added: 2, removed: 1 });
+  });
+
+  it("marks only the blocks that left the sibling order as moved", () => {
+    const diff = diffBlocks(
+      [block("a"), block("b"), block("c"), block("d")],
+      [block("d"), block("a"), block("b"), block("c")]
+    );
+
+    expect(diff.entries.d.moved).toBe(true);
+    expect(["a", "b", "c"].map((id) => diff.entries[id].moved)).toEqual([false, false, false]);
+    expect(diff.summary.moved).toBe(1);
+  });
+
+  it("treats blocks moved into another container as moved, not re-added", () => {
+    const diff = diffBlocks([block("a"), group("g", [])], [group("g", [block("a")])]);
+
+    expect(diff.entries.a).toMatchObject({
+      status: "unchanged",
+      moved: true,
+      from: { parentId: null },
+      to: { parentId: "g" },
+    });
+    expect(diff.summary).toMatchObject({ added: 0, removed: 0, moved: 1 });
+  });
+
+  it("lists changed fields and per-property style changes", () => {
+    const diff = diffBlocks(
+      [block("a", { styles: { color: "red", marginTop: "1rem" } })],
+      [block("a", { content: { kind: "text", value: "edited" }, styles: { color: "blue", marginTop: "1rem", padding: 4 } })]
+    );
+
+    expect(diff.entries.a.fields).toEqual(["content", "styles"]);
+    expect(diff.entries.a.styleChanges).toEqual([
+      { property: "color", before: "red", after: "blue" },
+      { property: "padding", before: undefined, after: 4 },
+    ]);
+  });
+
+  it("ignores key order and missing versus empty objects", () => {
+    const diff = diffBlocks(
+      [block("a", { styles: { color: "red", fontSize: "1rem" }, settings: {} })],
+      [block("a", { styles: { fontSize: "1rem", color: "red" } })]
+    );
+
+    expect(diff.entries.a.status).toBe("unchanged");
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ALL_CAPABILITY_NAMES,
+  DEFAULT_ROLES,
+  getCapabilityNames,
+  toCapabilityEntries,
+} from '@shared/capabilities';
+
+describe('Shared Capabilities', () => {
+  it('getCapabilityNames reads object entries and bare strings', () => {
+    const names = getCapabilityNames([
+      { name: 'edit_posts', description: 'Edit posts' },
+      'publish_posts',
+      { description: 'missing name' },
+      null,
+    ]);
+    expect(names).toEqual(['edit_posts', 'publish_posts']);
+  });
+
+  it('getCapabilityNames returns an empty list for non-array values', () => {
+    expect(getCapabilityNames(undefined)).toEqual([]);
+    expect(getCapabilityNames({ name: 'edit_posts' })).toEqual([]);
+  });
+
+  it('toCapabilityEntries fills descriptions from the catalog', () => {
+    const entries = toCapabilityEntries(['edit_pages', 'custom_capability']);
+    expect(entries[0]).toEqual({ name: 'edit_pages', description: 'Create and edit own pages' });
+    expect(entries[1]).toEqual({ name: 'custom_capability', description: '' });
+  });
+
+  it('default roles only reference catalog capabilities', () => {
+    for (const role of DEFAULT_ROLES) {
+      for (const capability of role.capabilities) {
+        expect(ALL_CAPABILITY_NAMES).toContain(capability);
+      }
+    }
+  });
+
+  it('editors can edit others content but cannot manage users', () => {
+    const editor = DEFAULT_ROLES.find((r) => r.name === 'editor')!;
+    expect(editor.capabilities).toContain('edit_others_posts');
+    expect(editor.capabilities).toContain('edit_others_pages');
+    expect(editor.capabilities).not.toContain('manage_users');
+  });
+});
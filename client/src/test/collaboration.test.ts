@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyBlockOperation,
+  applyBlockOperations,
+  blockOperations,
+} from "@shared/collaboration";
+import type { BlockConfig } from "@shared/schema-types";
+
+const block = (id: string, overrides: Partial<BlockConfig> = {}): BlockConfig => ({
+  id,
+  name: "core/paragraph",
+  type: "block",
+  parentId: null,
+  content: { kind: "text", value: id },
+  ...overrides,
+});
+
+const group = (id: string, children: BlockConfig[]): BlockConfig =>
+  block(id, {
+    name: "core/group",
+    type: "container",
+    content: { kind: "structured", data: {} },
+    children: children.map((child) => ({ ...child, parentId: id })),
+  });
+
+const ids = (blocks: BlockConfig[]): unknown[] =>
+  blocks.map((item) => (item.children ? { [item.id]: ids(item.children) } : item.id));
+
+const counter = () => {
+  let count = 0;
+  return () => `op-${++count}`;
+};
+
+describe("applyBlockOperation", () => {
+  it("inserts after a sibling, first, or at the end when the sibling is gone", () => {
+    const blocks = [block("a"), group("g", [block("b")])];
+
+    const afterA = applyBlockOperation(blocks, { opId: "1", kind: "insert", block: block("x"), parentId: null, afterId: "a" });
+    const first = applyBlockOperation(blocks, { opId: "2", kind: "insert", block: block("x"), parentId: "g", afterId: null });
+    const orphan = applyBlockOperation(blocks, { opId: "3", kind: "insert", block: block("x"), parentId: "g", afterId: "gone" });
+
+    expect(ids(afterA)).toEqual(["a", "x", { g: ["b"] }]);
+    expect(ids(first)).toEqual(["a", { g: ["x", "b"] }]);
+    expect(first[1].children?.[0].parentId).toBe("g");
+    expect(ids(orphan)).toEqual(["a", { g: ["b", "x"] }]);
+  });
+
+  it("ignores duplicate inserts and operations on missing blocks", () => {
+    const blocks = [block("a")];
+
+    expect(applyBlockOperation(blocks, { opId: "1", kind: "insert", block: block("a"), parentId: null, afterId: null })).toBe(blocks);
+    expect(applyBlockOperation(blocks, { opId: "2", kind: "update", id: "x", changes: { name: "core/heading" } })).toBe(blocks);
+    expect(applyBlockOperation(blocks, { opId: "3", kind: "move", id: "x", parentId: null, afterId: null })).toBe(blocks);
+    expect(applyBlockOperations(blocks, [{ opId: "4", kind: "delete", id: "x" }])).toEqual(blocks);
+  });
+
+  it("refuses to move a block into its own children", () => {
+    const blocks = [group("g", [group("inner", [block("b")])])];
+
+    expect(applyBlockOperation(blocks, { opId: "1", kind: "move", id: "g", parentId: "inner", afterId: null })).toBe(blocks);
+  });
+
+  it("updates fields without touching identity or children", () => {
+    const blocks = [group("g", [block("b")])];
+    const next = applyBlockOperation(blocks, {
+      opId: "1",
+      kind: "update",
+      id: "g",
+      changes: { styles: { color: "red" }, id: "other", children: [] },
+    });
+
+    expect(next[0].id).toBe("g");
+    expect(next[0].styles).toEqual({ color: "red" });
+    expect(ids(next)).toEqual([{ g: ["b"] }]);
+  });
+});
+
+describe("blockOperations", () => {
+  it("produces operations that turn one tree into the other", () => {
+    const before = [block("a"), group("g", [block("b"), block("c")]), block("d")];
+    const after = [
+      group("g", [block("c"), block("b", { content: { kind: "text", value: "edited" } })]),
+      group("new", [block("a"), block("e")]),
+    ];
+
+    const ops = blockOperations(before, after, counter());
+
+    expect(applyBlockOperations(before, ops)).toEqual(after);
+    expect(ops.map((op) => op.kind)).toEqual(["delete", "move", "update", "insert", "move", "insert"]);
+  });
+
+  it("deletes a removed container once, with its children", () => {
+    const ops = blockOperations([group("g", [block("b")]), block("a")], [block("a")], counter());
+
+    expect(ops).toEqual([{ opId: "op-1", kind: "delete", id: "g" }]);
+  });
+
+  it("returns nothing for unchanged trees", () => {
+    const blocks = [block("a"), group("g", [block("b")])];
+
+    expect(blockOperations(blocks, structuredClone(blocks), counter())).toEqual([]);
+  });
+
+  it("keeps both editors' changes when one is replayed after the other", () => {
+    const base = [block("a"), block("b"), block("c")];
+    const mine = blockOperations(base, [block("c"), block("a"), block("b")], () => "mine");
+    const theirs = blockOperations(
+      base,
+      [block("a"), block("b", { styles: { color: "red" } }), block("c"), block("d")],
+      counter(),
+    );
+
+    // The server ordered theirs first; our pending move is replayed on top
+    const server = applyBlockOperations(applyBlockOperations(base, theirs), mine);
+
+    expect(ids(server)).toEqual(["c", "a", "b", "d"]);
+    expect(server[2].styles).toEqual({ color: "red" });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_GLOBAL_STYLES,
+  globalStyleVar,
+  globalStylesOf,
+  globalStylesSchema,
+  globalStylesToCss,
+} from "@shared/global-styles";
+import { renderBlockDocument } from "../../../renderer/render-page";
+
+describe("globalStylesSchema", () => {
+  it("fills in defaults for the parts a theme leaves out", () => {
+    const styles = globalStylesSchema.parse({ containerWidth: "960px" });
+
+    expect(styles.containerWidth).toBe("960px");
+    expect(styles.palette).toEqual(DEFAULT_GLOBAL_STYLES.palette);
+    expect(styles.elements).toEqual({ body: {}, heading: {}, link: {}, button: {} });
+  });
+
+  it("refuses values that could break out of the stylesheet and invalid slugs", () => {
+    const palette = (color: string, slug = "brand") => ({ palette: [{ slug, name: "Brand", color }] });
+
+    expect(globalStylesSchema.safeParse(palette("red; } body { display: none")).success).toBe(false);
+    expect(globalStylesSchema.safeParse(palette("</style><script>")).success).toBe(false);
+    expect(globalStylesSchema.safeParse(palette("#fff", "Brand Blue")).success).toBe(false);
+    expect(globalStylesSchema.safeParse(palette("rgb(0 0 0 / 50%)")).success).toBe(true);
+  });
+});
+
+describe("globalStylesOf", () => {
+  it("reads a theme's tokens and falls back to the defaults", () => {
+    const tokens = { spacing: [{ slug: "gap", name: "Gap", size: "12px" }] };
+
+    expect(globalStylesOf({ settings: { tokens } }).spacing).toEqual(tokens.spacing);
+    expect(globalStylesOf({ settings: { tokens: { palette: "red" } } })).toEqual(DEFAULT_GLOBAL_STYLES);
+    expect(globalStylesOf(null)).toEqual(DEFAULT_GLOBAL_STYLES);
+  });
+});
+
+describe("globalStylesToCss", () => {
+  it("emits custom properties and element defaults", () => {
+    const css = globalStylesToCss(
+      globalStylesSchema.parse({
+        palette: [{ slug: "brand", name: "Brand", color: "#0b3d91" }],
+        elements: {
+          body: { fontFamily: globalStyleVar("font", "serif") },
+          heading: { fontWeight: "800", color: globalStyleVar("color", "brand") },
+          link: { hoverColor: "#000" },
+          button: { backgroundColor: globalStyleVar("color", "brand", "#0b3d91"), borderRadius: "999px" },
+        },
+      }),
+    );
+
+    expect(css).toContain("--np-color-brand: #0b3d91;");
+    expect(css).toContain("--np-spacing-md: 1rem;");
+    expect(css).toContain("--np-container-width: 1200px;");
+    expect(css).toContain("--np-body-font-family: var(--np-font-serif);");
+    expect(css).toContain("h1, h2, h3, h4, h5, h6 { font-weight: 800; color: var(--np-color-brand); }");
+    expect(css).toContain("a:hover { color: #000; }");
+    expect(css).toContain(
+      ".wp-block-button__link { background-color: var(--np-color-brand, #0b3d91); border-radius: 999px; }",
+    );
+    // Elements without values get no rule
+    expect(css).not.toMatch(/^a \{/m);
+  });
+
+  it("is added to rendered pages, where page design settings still win", () => {
+    const page = {
+      title: "Home",
+      blocks: [],
+      other: { design: { fontFamily: "Inter" } },
+    };
+
+    const html = renderBlockDocument(page, "https://example.com/", DEFAULT_GLOBAL_STYLES);
+
+    expect(html).toContain('<style id="global-styles">:root {');
+    expect(html).toContain("font-family: Inter;");
+    expect(html).toContain("max-width: var(--np-container-width, 1200px);");
+    expect(renderBlockDocument(page, "https://example.com/")).not.toContain("global-styles");
+  });
+});
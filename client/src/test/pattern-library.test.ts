@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import { CORE_PATTERNS } from "@shared/pattern-catalog";
+import {
+  PATTERN_EXPORT_VERSION,
+  patternCategoryLabel,
+  patternExportSchema,
+  searchPatterns,
+  toPatternExport,
+  type LibraryPattern,
+} from "@shared/pattern-library";
+import type { BlockConfig, Pattern } from "@shared/schema-types";
+
+const paragraph: BlockConfig = {
+  id: "p",
+  name: "core/paragraph",
+  type: "block",
+  parentId: null,
+  content: { kind: "text", value: "Hello" },
+};
+
+const libraryPattern = (overrides: Partial<LibraryPattern>): LibraryPattern => ({
+  id: "id",
+  name: "Pattern",
+  description: null,
+  category: "uncategorized",
+  keywords: [],
+  thumbnail: null,
+  synced: false,
+  blocks: [paragraph],
+  ...overrides,
+});
+
+const walk = (blocks: BlockConfig[], visit: (block: BlockConfig) => void) =>
+  blocks.forEach((block) => {
+    visit(block);
+    walk(block.children ?? [], visit);
+  });
+
+describe("searchPatterns", () => {
+  const patterns = [
+    libraryPattern({ id: "hero", name: "Hero", category: "hero", keywords: ["banner", "landing"] }),
+    libraryPattern({ id: "plans", name: "Plans", category: "pricing", description: "Three tiers" }),
+    libraryPattern({ id: "landing-cta", name: "Sign up", category: "call-to-action", keywords: ["landing"] }),
+  ];
+  const ids = (found: LibraryPattern[]) => found.map((pattern) => pattern.id);
+
+  it("matches every word against name, description, category and keywords", () => {
+    expect(ids(searchPatterns(patterns, "landing"))).toEqual(["hero", "landing-cta"]);
+    expect(ids(searchPatterns(patterns, "LANDING banner"))).toEqual(["hero"]);
+    expect(ids(searchPatterns(patterns, "tiers"))).toEqual(["plans"]);
+    expect(ids(searchPatterns(patterns, "pricing"))).toEqual(["plans"]);
+    expect(ids(searchPatterns(patterns, "  "))).toEqual(["hero", "plans", "landing-cta"]);
+  });
+
+  it("narrows down to a category", () => {
+    expect(ids(searchPatterns(patterns, "landing", "call-to-action"))).toEqual(["landing-cta"]);
+    expect(ids(searchPatterns(patterns, "", "faq"))).toEqual([]);
+  });
+});
+
+describe("pattern export files", () => {
+  it("round-trips stored patterns without their IDs and authors", () => {
+    const stored = {
+      id: "7d0c4c57-5a4f-4d43-9a51-3f1f3a7e0001",
+      name: "Footer",
+      description: null,
+      authorId: "7d0c4c57-5a4f-4d43-9a51-3f1f3a7e0002",
+      blocks: [paragraph],
+      category: "call-to-action",
+      keywords: ["bottom", 3],
+      thumbnail: "/footer.png",
+      synced: true,
+      other: {},
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    } as Pattern;
+
+    const file = toPatternExport([stored]);
+
+    expect(file).toEqual({
+      version: PATTERN_EXPORT_VERSION,
+      patterns: [
+        {
+          name: "Footer",
+          description: null,
+          category: "call-to-action",
+          keywords: ["bottom"],
+          thumbnail: "/footer.png",
+          synced: true,
+          blocks: [paragraph],
+        },
+      ],
+    });
+    expect(patternExportSchema.parse(JSON.parse(JSON.stringify(file)))).toEqual(file);
+  });
+
+  it("fills in defaults for hand-written theme files", () => {
+    const file = patternExportSchema.parse({ version: 1, patterns: [{ name: "Hero", blocks: [paragraph] }] });
+
+    expect(file.patterns[0]).toMatchObject({ category: "uncategorized", keywords: [], synced: false });
+  });
+
+  it("rejects unknown versions and blocks without an id and name", () => {
+    expect(patternExportSchema.safeParse({ version: 2, patterns: [] }).success).toBe(false);
+    expect(
+      patternExportSchema.safeParse({ version: 1, patterns: [{ name: "Broken", blocks: [{ name: "core/paragraph" }] }] })
+        .success,
+    ).toBe(false);
+  });
+});
+
+describe("CORE_PATTERNS", () => {
+  it("ships valid, uniquely named patterns with thumbnails and known categories", () => {
+    expect(new Set(CORE_PATTERNS.map((pattern) => pattern.id)).size).toBe(CORE_PATTERNS.length);
+    for (const pattern of CORE_PATTERNS) {
+      expect(pattern.id.startsWith("core/")).toBe(true);
+      expect(pattern.thumbnail).toMatch(/^\/patterns\/.+\.svg$/);
+      expect(patternCategoryLabel(pattern.category)).not.toBe(pattern.category);
+      expect(patternExportSchema.safeParse({ version: 1, patterns: [pattern] }).success).toBe(true);
+    }
+  });
+
+  it("keeps block IDs unique and column layouts pointing at their children", () => {
+    for (const pattern of CORE_PATTERNS) {
+      const seen = new Set<string>();
+      walk(pattern.blocks, (block) => {
+        expect(seen.has(block.id)).toBe(false);
+        seen.add(block.id);
+        block.children?.forEach((child) => expect(child.parentId).toBe(block.id));
+
+        const layout = block.settings?.columnLayout as { blockIds: string[] }[] | undefined;
+        if (layout) {
+          expect(layout.flatMap((column) => column.blockIds).sort()).toEqual(
+            (block.children ?? []).map((child) => child.id).sort(),
+          );
+        }
+      });
+    }
+  });
+});
@@ -16,6 +16,7 @@ import {
   camelToKebab,
   resolveModifierEntry,
   generateBlockModifierCSS,
+  resolveDevicePreview,
 } from '@/lib/tailwind-tokens';
 import type { TokenEntry } from '@shared/schema-types';
 
@@ -126,6 +127,19 @@ describe('resolveTokenValue', () => {
     expect(result).toMatch(/\d+(px|rem|em|%)/);
   });
 
+  it('should resolve global styles tokens to their var() reference', () => {
+    const entry: TokenEntry = {
+      property: 'paddingTop',
+      value: 'md',
+      variant: null,
+      alias: 'pt',
+      unitCategory: 'spacing',
+      other: 'theme',
+      style: 'var(--np-spacing-md, 1rem)',
+    };
+    expect(resolveTokenValue(entry)).toBe('var(--np-spacing-md, 1rem)');
+  });
+
   it('should resolve font size', () => {
     const entry: TokenEntry = { property: 'fontSize', value: 'lg', variant: null, alias: 'text' };
     const result = resolveTokenValue(entry);
@@ -306,4 +320,36 @@ describe('generateBlockModifierCSS', () => {
     expect(result).toContain(':focus');
     expect(result).toContain('@media');
   });
-});
\ No newline at end of file
+
+  it('should emit tablet overrides before mobile ones so mobile wins', () => {
+    const modifierEntries = [
+      { entry: { property: 'paddingTop', value: '', variant: null, alias: 'pt', modifier: 'mobile', style: '8px' }, resolvedValue: '8px' },
+      { entry: { property: 'paddingTop', value: '', variant: null, alias: 'pt', modifier: 'tablet', style: '16px' }, resolvedValue: '16px' },
+    ];
+    const result = generateBlockModifierCSS('test-block', modifierEntries).split('\n');
+    expect(result).toEqual([
+      '@media (max-width: 1023px) { .block-test-block { padding-top: 16px !important; } }',
+      '@media (max-width: 767px) { .block-test-block { padding-top: 8px !important; } }',
+    ]);
+  });
+});
+
+describe('resolveDevicePreview', () => {
+  const modifierEntries = [
+    { entry: { property: 'color', value: 'black', variant: null, alias: 'text', modifier: 'hover' }, resolvedValue: '#000' },
+    { entry: { property: 'fontSize', value: '', variant: null, alias: 'text', modifier: 'mobile', style: '14px' }, resolvedValue: '14px' },
+    { entry: { property: 'fontSize', value: '', variant: null, alias: 'text', modifier: 'tablet', style: '18px' }, resolvedValue: '18px' },
+    { entry: { property: 'gap', value: '', variant: null, alias: 'gap', modifier: 'tablet', style: '4px' }, resolvedValue: '4px' },
+  ];
+
+  it('inlines the overrides active on the previewed device', () => {
+    expect(resolveDevicePreview(modifierEntries, 'desktop').style).toEqual({});
+    expect(resolveDevicePreview(modifierEntries, 'tablet').style).toEqual({ fontSize: '18px', gap: '4px' });
+    expect(resolveDevicePreview(modifierEntries, 'mobile').style).toEqual({ fontSize: '14px', gap: '4px' });
+  });
+
+  it('leaves state and min-width modifiers for CSS generation', () => {
+    const result = resolveDevicePreview(modifierEntries, 'mobile');
+    expect(result.modifierEntries.map(({ entry }) => entry.modifier)).toEqual(['hover']);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { findBlock, findBlockPath, insertNewBlock, moveExistingBlock } from '@/lib/handlers/treeUtils';
+import { findBlock, findBlockPath, insertNewBlock, mergeBlockTrees, moveExistingBlock } from '@/lib/handlers/treeUtils';
 import type { BlockConfig } from '@shared/schema-types';
 
 // Helpers
@@ -186,4 +186,77 @@ describe('treeUtils', () => {
       expect(cols2.content.columns[0].children.map((c: any) => c.id)).toEqual(['c1']);
     });
   });
+
+  describe('mergeBlockTrees', () => {
+    const text = (id: string, value: string) => ({ ...makeBlock(id), content: { kind: 'text', value } } as BlockConfig);
+    const ids = (blocks: BlockConfig[]): unknown[] =>
+      blocks.map((b) => (b.children ? { [b.id]: ids(b.children) } : b.id));
+
+    it('combines edits, additions and deletions made on different sides', () => {
+      const base = [makeBlock('a'), makeBlock('b'), makeBlock('c')];
+      const mine = [text('a', 'mine'), makeBlock('b'), makeBlock('mine-new')];
+      const theirs = [makeBlock('a'), text('b', 'theirs'), makeBlock('c'), makeBlock('theirs-new')];
+
+      const { blocks, conflicts } = mergeBlockTrees(base, mine, theirs);
+
+      expect(conflicts).toEqual([]);
+      expect(ids(blocks)).toEqual(['a', 'b', 'mine-new', 'theirs-new']);
+      expect((blocks[0].content as any).value).toBe('mine');
+      expect((blocks[1].content as any).value).toBe('theirs');
+    });
+
+    it('reports blocks edited on both sides and applies the chosen side', () => {
+      const base = [makeBlock('a')];
+      const mine = [text('a', 'mine')];
+      const theirs = [text('a', 'theirs')];
+
+      const merged = mergeBlockTrees(base, mine, theirs);
+      expect(merged.conflicts).toMatchObject([{ id: 'a', kind: 'both-changed' }]);
+      expect((merged.blocks[0].content as any).value).toBe('mine');
+
+      const resolved = mergeBlockTrees(base, mine, theirs, { a: 'theirs' });
+      expect((resolved.blocks[0].content as any).value).toBe('theirs');
+    });
+
+    it('reports deletions of blocks the other side edited', () => {
+      const base = [makeBlock('a'), makeBlock('b')];
+      const mine = [makeBlock('a'), text('b', 'mine')];
+      const theirs = [text('a', 'theirs')];
+
+      const kept = mergeBlockTrees(base, mine, theirs);
+      expect(kept.conflicts).toMatchObject([{ id: 'b', kind: 'deleted-remotely' }]);
+      expect(ids(kept.blocks)).toEqual(['a', 'b']);
+      expect(ids(mergeBlockTrees(base, mine, theirs, { b: 'theirs' }).blocks)).toEqual(['a']);
+
+      const deleted = mergeBlockTrees(base, [makeBlock('b')], theirs);
+      expect(deleted.conflicts).toMatchObject([{ id: 'a', kind: 'deleted-locally' }]);
+      expect(ids(deleted.blocks)).toEqual([]);
+      expect(ids(mergeBlockTrees(base, [makeBlock('b')], theirs, { a: 'theirs' }).blocks)).toEqual(['a']);
+    });
+
+    it('keeps moves from either side and fixes parent IDs', () => {
+      const base = [makeBlock('a'), makeBlock('b'), makeBlock('group', 'core/group', [])];
+      const mine = [makeBlock('b'), makeBlock('a'), makeBlock('group', 'core/group', [])];
+      const theirs = [makeBlock('b'), makeBlock('group', 'core/group', [makeBlock('a')])];
+
+      expect(ids(mergeBlockTrees(base, base, theirs).blocks)).toEqual(['b', { group: ['a'] }]);
+
+      const { blocks } = mergeBlockTrees(base, mine, [makeBlock('a'), text('b', 'x'), makeBlock('group', 'core/group', [])]);
+      expect(ids(blocks)).toEqual(['b', 'a', { group: [] }]);
+
+      const nested = mergeBlockTrees(base, base, theirs).blocks[1].children![0];
+      expect(nested.parentId).toBe('group');
+    });
+
+    it('lifts blocks moved into each other on the two sides to the root', () => {
+      const base = [makeBlock('x', 'core/group', []), makeBlock('y', 'core/group', [])];
+      const mine = [makeBlock('x', 'core/group', [makeBlock('y', 'core/group', [])])];
+      const theirs = [makeBlock('y', 'core/group', [makeBlock('x', 'core/group', [])])];
+
+      const { blocks } = mergeBlockTrees(base, mine, theirs);
+      const all = JSON.stringify(blocks);
+      expect(all.match(/"id":"x"/g)).toHaveLength(1);
+      expect(all.match(/"id":"y"/g)).toHaveLength(1);
+    });
+  });
 });
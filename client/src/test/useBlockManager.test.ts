@@ -224,4 +224,35 @@ describe('useBlockManager', () => {
       expect(result.current.blocks[3].id).toBe('additional')
     })
   })
-})
\ No newline at end of file
+
+  describe('applyOperations', () => {
+    it('should apply insert, move, update and delete operations by block id', () => {
+      const { result } = renderHook(() => useBlockManager(initialBlocks))
+
+      act(() => {
+        result.current.applyOperations([
+          { opId: 'a', kind: 'insert', block: createMockBlock('inserted'), parentId: 'container1', afterId: 'nested1' },
+          { opId: 'b', kind: 'move', id: 'block3', parentId: null, afterId: null },
+          { opId: 'c', kind: 'update', id: 'block1', changes: { styles: { color: 'red' } } },
+          { opId: 'd', kind: 'delete', id: 'nested2' },
+        ])
+      })
+
+      expect(result.current.blocks.map((block) => block.id)).toEqual(['block3', 'block1', 'container1'])
+      expect(result.current.blocks[1].styles).toEqual({ color: 'red' })
+      expect(result.current.blocks[2].children?.map((block) => block.id)).toEqual(['nested1', 'inserted'])
+      expect(result.current.blocks[2].children?.[1].parentId).toBe('container1')
+    })
+
+    it('should skip operations on blocks that no longer exist', () => {
+      const { result } = renderHook(() => useBlockManager(initialBlocks))
+      const before = result.current.blocks
+
+      act(() => {
+        result.current.applyOperations([{ opId: 'a', kind: 'update', id: 'missing', changes: { name: 'core/heading' } }])
+      })
+
+      expect(result.current.blocks).toEqual(before)
+    })
+  })
+})
@@ -20,6 +20,9 @@ const mockPages: Post[] = [
     updatedAt: new Date('2024-01-01'),
     other: null,
     publishedAt: null,
+    expiresAt: null,
+    version: 0,
+    history: [],
     settings: null,
     featuredImage: null,
     templateId: null,
@@ -40,6 +43,9 @@ const mockPages: Post[] = [
     updatedAt: new Date('2024-01-02'),
     other: null,
     publishedAt: null,
+    expiresAt: null,
+    version: 0,
+    history: [],
     settings: null,
     featuredImage: null,
     templateId: null,
@@ -63,6 +69,9 @@ const mockPosts: Post[] = [
     updatedAt: new Date('2024-01-01'),
     other: null,
     publishedAt: null,
+    expiresAt: null,
+    version: 0,
+    history: [],
     settings: null,
     featuredImage: null,
     templateId: null,
@@ -83,6 +92,9 @@ const mockPosts: Post[] = [
     updatedAt: new Date('2024-01-02'),
     other: null,
     publishedAt: null,
+    expiresAt: null,
+    version: 0,
+    history: [],
     settings: null,
     featuredImage: null,
     templateId: null,
@@ -103,6 +115,9 @@ const mockPosts: Post[] = [
     updatedAt: new Date('2024-01-03'),
     other: null,
     publishedAt: null,
+    expiresAt: null,
+    version: 0,
+    history: [],
     settings: null,
     featuredImage: null,
     templateId: null,
@@ -330,6 +330,82 @@ describe('useDragAndDropHandler', () => {
     })
   })
 
+  describe('Pattern library drops', () => {
+    const patternBlocks = (): BlockConfig[] => [
+      createMockBlock('p-title', 'core/paragraph'),
+      createMockBlock('p-text', 'core/paragraph'),
+    ]
+
+    const dropPattern = (destination: { droppableId: string; index: number }): DropResult => ({
+      draggableId: 'pattern:core/hero',
+      type: 'DEFAULT',
+      source: { droppableId: 'block-library-patterns', index: 0 },
+      destination,
+      reason: 'DROP',
+      mode: 'FLUID',
+      combine: null
+    })
+
+    it('inserts all of the pattern\'s blocks at the drop index inside a container', () => {
+      const resolvePattern = vi.fn(() => patternBlocks())
+      const { result } = renderHook(() =>
+        useDragAndDropHandler(blocks, setBlocks, setSelectedBlockId, setActiveTab, undefined, resolvePattern)
+      )
+
+      act(() => {
+        result.current.handleDragEnd(dropPattern({ droppableId: 'container1', index: 1 }))
+      })
+
+      expect(resolvePattern).toHaveBeenCalledWith('pattern:core/hero')
+      const next = setBlocks.mock.calls[0][0] as BlockConfig[]
+      const container = next.find((b) => b.id === 'container1')!
+      expect(container.children!.map((c) => c.id)).toEqual(['nested1', 'p-title', 'p-text', 'nested2'])
+      expect(container.children![1].parentId).toBe('container1')
+      expect(setSelectedBlockId).toHaveBeenCalledWith('p-title')
+    })
+
+    it('assigns the pattern\'s blocks to the column they were dropped in', () => {
+      const columns: BlockConfig = {
+        ...createMockBlock('cols', 'core/columns', [createMockBlock('a', 'core/paragraph')]),
+        settings: {
+          columnLayout: [
+            { columnId: 'col-1', blockIds: ['a'] },
+            { columnId: 'col-2', blockIds: [] },
+          ],
+        },
+      }
+      const { result } = renderHook(() =>
+        useDragAndDropHandler([columns], setBlocks, setSelectedBlockId, setActiveTab, undefined, () => patternBlocks())
+      )
+
+      act(() => {
+        result.current.handleDragEnd(dropPattern({ droppableId: 'col-2', index: 0 }))
+      })
+
+      const next = setBlocks.mock.calls[0][0] as BlockConfig[]
+      expect(next[0].children!.map((c) => c.id)).toEqual(['a', 'p-title', 'p-text'])
+      expect(next[0].settings!.columnLayout[1].blockIds).toEqual(['p-title', 'p-text'])
+    })
+
+    it('falls back to block insertion for draggables that are not patterns', () => {
+      const { result } = renderHook(() =>
+        useDragAndDropHandler(blocks, setBlocks, setSelectedBlockId, setActiveTab, undefined, () => null)
+      )
+
+      act(() => {
+        result.current.handleDragEnd({
+          ...dropPattern({ droppableId: 'canvas', index: 0 }),
+          draggableId: 'core/paragraph',
+          source: { droppableId: 'block-library-basic', index: 0 },
+        })
+      })
+
+      const next = setBlocks.mock.calls[0][0] as BlockConfig[]
+      expect(next).toHaveLength(4)
+      expect(next[0].name).toBe('core/paragraph')
+    })
+  })
+
   describe('Edge Cases', () => {
     it('should handle unknown droppable IDs gracefully', () => {
       const { result } = renderHook(() => 
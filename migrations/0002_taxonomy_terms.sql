@@ -0,0 +1,62 @@
+CREATE TABLE "term_relationships" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"post_id" uuid NOT NULL,
+	"term_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "term_relationships_post_term_unique" UNIQUE("post_id","term_id")
+);
+--> statement-breakpoint
+CREATE TABLE "terms" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"taxonomy" varchar NOT NULL,
+	"name" varchar NOT NULL,
+	"slug" varchar NOT NULL,
+	"description" text,
+	"parent_id" uuid,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"other" jsonb DEFAULT '{}'::jsonb,
+	CONSTRAINT "terms_taxonomy_slug_unique" UNIQUE("taxonomy","slug")
+);
+--> statement-breakpoint
+ALTER TABLE "posts" ALTER COLUMN "other" SET DEFAULT '{}'::jsonb;--> statement-breakpoint
+ALTER TABLE "term_relationships" ADD CONSTRAINT "term_relationships_post_id_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "term_relationships" ADD CONSTRAINT "term_relationships_term_id_terms_id_fk" FOREIGN KEY ("term_id") REFERENCES "public"."terms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Move categories and tags stored as names (or { name } objects) in posts.other into terms
+INSERT INTO "terms" ("taxonomy", "name", "slug")
+SELECT DISTINCT ON ("taxonomy", "slug") "taxonomy", "name", "slug"
+FROM (
+	SELECT "taxonomy", "name",
+		COALESCE(NULLIF(trim(BOTH '-' FROM regexp_replace(lower("name"), '[^a-z0-9]+', '-', 'g')), ''), substr(md5("name"), 1, 8)) AS "slug"
+	FROM (
+		SELECT 'category' AS "taxonomy", trim(COALESCE(e ->> 'name', e #>> '{}')) AS "name"
+		FROM "posts", jsonb_array_elements(CASE WHEN jsonb_typeof("posts"."other" -> 'categories') = 'array' THEN "posts"."other" -> 'categories' ELSE '[]'::jsonb END) AS e
+		WHERE jsonb_typeof(e) IN ('string', 'object')
+		UNION ALL
+		SELECT 'tag', trim(COALESCE(e ->> 'name', e #>> '{}'))
+		FROM "posts", jsonb_array_elements(CASE WHEN jsonb_typeof("posts"."other" -> 'tags') = 'array' THEN "posts"."other" -> 'tags' ELSE '[]'::jsonb END) AS e
+		WHERE jsonb_typeof(e) IN ('string', 'object')
+	) AS "source"
+	WHERE "name" <> ''
+) AS "named"
+ORDER BY "taxonomy", "slug", "name"
+ON CONFLICT ("taxonomy", "slug") DO NOTHING;--> statement-breakpoint
+INSERT INTO "term_relationships" ("post_id", "term_id")
+SELECT DISTINCT "named"."post_id", "terms"."id"
+FROM (
+	SELECT "post_id", "taxonomy",
+		COALESCE(NULLIF(trim(BOTH '-' FROM regexp_replace(lower("name"), '[^a-z0-9]+', '-', 'g')), ''), substr(md5("name"), 1, 8)) AS "slug"
+	FROM (
+		SELECT "posts"."id" AS "post_id", 'category' AS "taxonomy", trim(COALESCE(e ->> 'name', e #>> '{}')) AS "name"
+		FROM "posts", jsonb_array_elements(CASE WHEN jsonb_typeof("posts"."other" -> 'categories') = 'array' THEN "posts"."other" -> 'categories' ELSE '[]'::jsonb END) AS e
+		WHERE jsonb_typeof(e) IN ('string', 'object')
+		UNION ALL
+		SELECT "posts"."id", 'tag', trim(COALESCE(e ->> 'name', e #>> '{}'))
+		FROM "posts", jsonb_array_elements(CASE WHEN jsonb_typeof("posts"."other" -> 'tags') = 'array' THEN "posts"."other" -> 'tags' ELSE '[]'::jsonb END) AS e
+		WHERE jsonb_typeof(e) IN ('string', 'object')
+	) AS "source"
+	WHERE "name" <> ''
+) AS "named"
+JOIN "terms" ON "terms"."taxonomy" = "named"."taxonomy" AND "terms"."slug" = "named"."slug"
+ON CONFLICT ("post_id", "term_id") DO NOTHING;--> statement-breakpoint
+UPDATE "posts" SET "other" = ("other" - 'categories') - 'tags' WHERE "other" ?| ARRAY['categories', 'tags'];
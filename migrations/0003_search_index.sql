@@ -0,0 +1,16 @@
+CREATE TABLE "search_index" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"object_type" varchar NOT NULL,
+	"object_id" uuid NOT NULL,
+	"title" text DEFAULT '' NOT NULL,
+	"excerpt" text,
+	"content" text,
+	"url" varchar,
+	"status" varchar,
+	"published_at" timestamp,
+	"updated_at" timestamp DEFAULT now(),
+	"search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("excerpt", '')), 'B') || setweight(to_tsvector('english', coalesce("content", '')), 'C')) STORED,
+	CONSTRAINT "search_index_object_unique" UNIQUE("object_type","object_id")
+);
+--> statement-breakpoint
+CREATE INDEX "search_index_vector_idx" ON "search_index" USING gin ("search_vector");
\ No newline at end of file
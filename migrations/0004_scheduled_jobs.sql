@@ -0,0 +1,18 @@
+CREATE TABLE "jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"type" varchar NOT NULL,
+	"key" varchar,
+	"payload" jsonb DEFAULT '{}'::jsonb,
+	"run_at" timestamp NOT NULL,
+	"status" varchar DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"locked_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "jobs_key_unique" UNIQUE("key")
+);
+--> statement-breakpoint
+ALTER TABLE "pages" ADD COLUMN "expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "expires_at" timestamp;--> statement-breakpoint
+CREATE INDEX "jobs_status_run_at_idx" ON "jobs" USING btree ("status","run_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "posts" ADD COLUMN "version" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "history" jsonb DEFAULT '[]'::jsonb;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "patterns" ADD COLUMN "category" varchar DEFAULT 'uncategorized' NOT NULL;--> statement-breakpoint
+ALTER TABLE "patterns" ADD COLUMN "keywords" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "patterns" ADD COLUMN "thumbnail" text;--> statement-breakpoint
+ALTER TABLE "patterns" ADD COLUMN "synced" boolean DEFAULT true NOT NULL;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "email_outbox" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"template" varchar NOT NULL,
+	"to" varchar NOT NULL,
+	"subject" varchar NOT NULL,
+	"text" text NOT NULL,
+	"html" text,
+	"status" varchar DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"message_id" varchar,
+	"next_attempt_at" timestamp,
+	"sent_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "email_outbox_status_created_idx" ON "email_outbox" USING btree ("status","created_at");
\ No newline at end of file
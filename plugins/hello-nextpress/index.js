@@ -0,0 +1,18 @@
+/**
+ * Example NextPress plugin.
+ * Hooks registered through `api` are removed automatically on deactivation.
+ */
+export function activate(api) {
+  api.addAction('publish_post', (post) => {
+    api.log(`${api.getSettings().greeting} "${post.title}" was published.`);
+  });
+
+  api.addFilter('the_content', (content) => {
+    const { signature } = api.getSettings();
+    return signature ? `${content}\n\n${signature}` : content;
+  });
+}
+
+export function deactivate(api) {
+  api.log('Goodbye!');
+}
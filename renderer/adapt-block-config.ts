@@ -2,6 +2,7 @@ import type { BlockConfig, BlockContent } from "@shared/schema-types";
 import type { BlockData } from "./react/block-types";
 import type { TokenEntry, BlockAnimation } from "@shared/schema-types";
 import { getEntryAnimationAttributes } from "@shared/animation-utils";
+import { blockVisibilityCSS, breakpointRule, byBreakpoint, isBreakpointModifier } from "@shared/breakpoints";
 
 /**
  * Converts camelCase CSS property to kebab-case for CSS rules.
@@ -17,13 +18,14 @@ function camelToKebab(str: string): string {
  */
 function resolveTokenMapForSSR(
 	blockId: string,
-	tokenMap: Record<string, TokenEntry>,
+	tokenMap: Record<string, TokenEntry | null>,
 	units: Record<string, string>,
 ): { style: Record<string, string>; modifierCSS: string } {
 	const style: Record<string, string> = {};
 	const modifierEntries: Array<{ entry: TokenEntry; resolvedValue: string }> = [];
 
 	for (const entry of Object.values(tokenMap)) {
+		if (!entry) continue;
 		let resolvedValue: string | null = null;
 
 		if (entry.style) {
@@ -47,11 +49,17 @@ function resolveTokenMapForSSR(
 
 	// Generate modifier CSS rules using blockId
 	const modifierCSS = modifierEntries
+		.sort(byBreakpoint)
 		.map(({ entry, resolvedValue }) => {
 			if (!entry.modifier) return "";
 			const cssProp = camelToKebab(entry.property);
 			const selector = `.block-${blockId}`;
 
+			// Device overrides from the builder's tablet/mobile editing mode
+			if (isBreakpointModifier(entry.modifier)) {
+				return breakpointRule(blockId, entry.modifier, cssProp, resolvedValue);
+			}
+
 			// State modifiers: hover, focus, active, etc.
 			const stateMap: Record<string, string> = {
 				hover: ":hover", focus: ":focus", active: ":active",
@@ -81,17 +89,19 @@ function resolveTokenMapForSSR(
 
 
 /**
- * Collects modifier CSS rules for a block's tokenMap entries for SSR injection.
- * Called separately from block adaptation to keep concerns separate.
+ * Collects modifier CSS rules for a block's tokenMap entries for SSR injection,
+ * plus the rules hiding it on devices listed in other.hideOn. Nested blocks
+ * are included. Called separately from block adaptation to keep concerns separate.
  */
 export function collectBlockModifierCSS(block: BlockConfig): string {
-	if (!block.other?.tokenMap) return "";
-	const { modifierCSS } = resolveTokenMapForSSR(
-		block.id,
-		block.other.tokenMap,
-		block.other?.units || {},
-	);
-	return modifierCSS;
+	const modifierCSS = block.other?.tokenMap
+		? resolveTokenMapForSSR(block.id, block.other.tokenMap, block.other?.units || {}).modifierCSS
+		: "";
+	const childCSS = (block.children ?? []).map(collectBlockModifierCSS);
+
+	return [modifierCSS, blockVisibilityCSS(block.id, block.other?.hideOn), ...childCSS]
+		.filter(Boolean)
+		.join("\n");
 }
 
 /**
@@ -208,6 +218,13 @@ function extractContentProps(
 		};
 	}
 
+	// Post blocks store their settings as a plain object (or structured data),
+	// alongside the data server/post-blocks.ts resolved for them
+	if (blockName.startsWith("post/")) {
+		const settings = content.kind === "structured" ? content.data : content;
+		return { ...(settings as Record<string, unknown>) };
+	}
+
 	// Handle different content kinds
 	switch (content.kind) {
 		case "text": {
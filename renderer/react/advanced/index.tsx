@@ -320,3 +320,62 @@ export function IconBlock(props: BlockData) {
 
   return svgContent;
 }
+
+/**
+ * Search Block Component
+ * Renders a GET form that submits `q` to the public search page
+ */
+export function SearchBlock(props: BlockData) {
+  const {
+    label,
+    showLabel,
+    placeholder,
+    buttonText,
+    action,
+    value,
+    className,
+    style,
+    attributes,
+  } = props as Extract<BlockData, { blockName: "core/search" }>;
+
+  const mergedClassName = ["wp-block-search", className]
+    .filter(Boolean)
+    .join(" ");
+  const labelText = label || "Search";
+  const inputId = `wp-block-search__input-${React.useId().replace(/[^\w-]/g, "")}`;
+
+  return (
+    <form
+      role="search"
+      method="get"
+      action={action || "/search"}
+      className={mergedClassName || undefined}
+      style={style}
+      {...attributes}
+    >
+      {showLabel !== false && (
+        <label htmlFor={inputId} className="wp-block-search__label">
+          {labelText}
+        </label>
+      )}
+      <div className="wp-block-search__inside-wrapper">
+        <input
+          id={inputId}
+          type="search"
+          name="q"
+          aria-label={showLabel === false ? labelText : undefined}
+          className="wp-block-search__input"
+          placeholder={placeholder || undefined}
+          defaultValue={value || undefined}
+          required
+        />
+        <button
+          type="submit"
+          className="wp-block-search__button wp-element-button"
+        >
+          {buttonText || "Search"}
+        </button>
+      </div>
+    </form>
+  );
+}
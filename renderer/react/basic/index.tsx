@@ -25,7 +25,7 @@ const HEADING_FONT_WEIGHTS: Record<number, string> = {
  * Renders heading elements (h1-h6) with optional styling
  */
 export function HeadingBlock(props: BlockData) {
-  const { content, level, className, style, attributes } = props as Extract<
+  const { content, level, anchor, className, style, attributes } = props as Extract<
     BlockData,
     { blockName: "core/heading" }
   >;
@@ -43,7 +43,7 @@ export function HeadingBlock(props: BlockData) {
   };
 
   return (
-    <Tag className={mergedClassName || undefined} style={mergedStyle} {...attributes}>
+    <Tag id={anchor || undefined} className={mergedClassName || undefined} style={mergedStyle} {...attributes}>
       {content || ""}
     </Tag>
   );
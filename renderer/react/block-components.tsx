@@ -6,6 +6,7 @@ import * as BasicBlocks from "./basic";
 import * as MediaBlocks from "./media";
 import * as LayoutBlocks from "./layout";
 import * as AdvancedBlocks from "./advanced";
+import * as PostBlocks from "./post";
 
 /**
  * Counter Block Component (legacy/test component)
@@ -41,6 +42,7 @@ export const BLOCK_COMPONENTS: Record<string, React.FC<BlockData>> = {
   // Layout blocks
   "core/columns": LayoutBlocks.ColumnsBlock,
   "core/group": LayoutBlocks.GroupBlock,
+  "core/block-reference": LayoutBlocks.BlockReferenceBlock,
   "core/spacer": LayoutBlocks.SpacerBlock,
   "core/separator": LayoutBlocks.SeparatorBlock,
   "core/divider": LayoutBlocks.DividerBlock,
@@ -55,6 +57,16 @@ export const BLOCK_COMPONENTS: Record<string, React.FC<BlockData>> = {
   "core/table": AdvancedBlocks.TableBlock,
   "core/markdown": AdvancedBlocks.MarkdownBlock,
   "core/icon": AdvancedBlocks.IconBlock,
+  "core/search": AdvancedBlocks.SearchBlock,
+
+  // Post blocks (data resolved by server/post-blocks.ts)
+  "post/list": PostBlocks.PostListBlock,
+  "post/comments": PostBlocks.PostCommentsBlock,
+  "post/toc": PostBlocks.PostTocBlock,
+  "post/navigation": PostBlocks.PostNavigationBlock,
+  "post/author-box": PostBlocks.PostAuthorBoxBlock,
+  "post/info": PostBlocks.PostInfoBlock,
+  "post/progress": PostBlocks.PostProgressBlock,
 
   // Legacy/Special blocks
   "core/counter": CounterBlock,
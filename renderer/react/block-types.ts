@@ -160,6 +160,11 @@ interface GroupConfig extends BaseBlockData {
 	tagName?: string;
 }
 
+interface BlockReferenceConfig extends BaseBlockData {
+	blockName: "core/block-reference";
+	ref?: string;
+}
+
 interface SpacerConfig extends BaseBlockData {
 	blockName: "core/spacer";
 	height?: string;
@@ -239,6 +244,123 @@ interface IconConfig extends BaseBlockData {
 	label?: string;
 }
 
+interface SearchConfig extends BaseBlockData {
+	blockName: "core/search";
+	label?: string;
+	showLabel?: boolean;
+	placeholder?: string;
+	buttonText?: string;
+	action?: string; // Form target, defaults to the public /search page
+	value?: string; // Current query, pre-filled on the results page
+}
+
+// ============================================================================
+// POST BLOCKS
+// ============================================================================
+// Data fields (posts, comments, author, ...) are filled in on the server by
+// server/post-blocks.ts before rendering; dates are ISO strings.
+
+/** A post as linked from post blocks */
+export interface PostSummary {
+	id: string;
+	title: string;
+	url: string;
+	excerpt?: string | null;
+	featuredImage?: string | null;
+	publishedAt?: string | null;
+	author?: string | null;
+}
+
+export interface PostCommentItem {
+	id: string;
+	author: string;
+	date: string | null;
+	content: string;
+	replies: PostCommentItem[];
+}
+
+export interface PostAuthorData {
+	name: string;
+	avatar?: string | null;
+	bio?: string | null;
+}
+
+export interface PostHeading {
+	id: string;
+	text: string;
+	level: number;
+}
+
+interface PostListConfig extends BaseBlockData {
+	blockName: "post/list";
+	layout?: "grid" | "list" | "cards";
+	showExcerpt?: boolean;
+	showFeaturedImage?: boolean;
+	showDate?: boolean;
+	showAuthor?: boolean;
+	posts?: PostSummary[];
+}
+
+interface PostCommentsConfig extends BaseBlockData {
+	blockName: "post/comments";
+	postId?: string;
+	showForm?: boolean;
+	showCount?: boolean;
+	allowReplies?: boolean;
+	commentsOpen?: boolean;
+	comments?: PostCommentItem[];
+}
+
+interface PostTocConfig extends BaseBlockData {
+	blockName: "post/toc";
+	title?: string;
+	ordered?: boolean;
+	headings?: PostHeading[];
+}
+
+interface PostNavigationConfig extends BaseBlockData {
+	blockName: "post/navigation";
+	showThumbnail?: boolean;
+	showLabel?: boolean;
+	prevLabel?: string;
+	nextLabel?: string;
+	prev?: PostSummary | null;
+	next?: PostSummary | null;
+}
+
+interface PostAuthorBoxConfig extends BaseBlockData {
+	blockName: "post/author-box";
+	showAvatar?: boolean;
+	showBio?: boolean;
+	showName?: boolean;
+	layout?: "horizontal" | "vertical";
+	avatarSize?: number;
+	author?: PostAuthorData;
+}
+
+interface PostInfoConfig extends BaseBlockData {
+	blockName: "post/info";
+	showDate?: boolean;
+	showCategories?: boolean;
+	showTags?: boolean;
+	showReadTime?: boolean;
+	dateFormat?: "short" | "long" | "relative";
+	layout?: "inline" | "stacked";
+	publishedAt?: string | null;
+	categories?: string[];
+	tags?: string[];
+	wordCount?: number;
+}
+
+interface PostProgressConfig extends BaseBlockData {
+	blockName: "post/progress";
+	color?: string;
+	height?: number;
+	position?: "top" | "bottom";
+	showPercentage?: boolean;
+	backgroundColor?: string;
+}
+
 // ============================================================================
 // LEGACY/SPECIAL BLOCKS
 // ============================================================================
@@ -265,6 +387,7 @@ export type BlockData =
 	| MediaTextConfig
 	| ColumnsConfig
 	| GroupConfig
+	| BlockReferenceConfig
 	| SpacerConfig
 	| SeparatorConfig
 	| DividerConfig
@@ -277,4 +400,12 @@ export type BlockData =
 	| TableConfig
 	| MarkdownConfig
 	| IconConfig
+	| SearchConfig
+	| PostListConfig
+	| PostCommentsConfig
+	| PostTocConfig
+	| PostNavigationConfig
+	| PostAuthorBoxConfig
+	| PostInfoConfig
+	| PostProgressConfig
 	| CounterConfig;
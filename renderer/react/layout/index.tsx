@@ -207,6 +207,37 @@ export function GroupBlock(props: BlockData) {
   );
 }
 
+/**
+ * Block Reference Component
+ * Renders a synced pattern; the server fills `children` with the pattern's
+ * blocks before rendering, so a missing pattern renders nothing
+ */
+export function BlockReferenceBlock(props: BlockData) {
+  const { className, style, attributes, children } =
+    props as Extract<BlockData, { blockName: "core/block-reference" }>;
+
+  if (!children || children.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className={["wp-block-block-reference", className].filter(Boolean).join(" ")}
+      style={style}
+      {...attributes}
+    >
+      {children.map((child, index) => {
+        const ChildComponent = BLOCK_COMPONENTS[child.blockName];
+        return (
+          <React.Fragment key={`${child.blockName}-${index}`}>
+            {ChildComponent ? <ChildComponent {...child} /> : null}
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+}
+
 /**
  * Spacer Block Component
  * Renders a vertical spacer with configurable height
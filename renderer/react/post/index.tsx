@@ -0,0 +1,570 @@
+import * as React from "react";
+import type { BlockData, PostCommentItem, PostSummary } from "../block-types";
+
+const WORDS_PER_MINUTE = 200;
+
+const mergeClassNames = (...names: Array<string | false | undefined>) =>
+  names.filter(Boolean).join(" ") || undefined;
+
+/** Formats an ISO date the way the editor blocks do, e.g. "January 15, 2026" */
+function formatDate(
+  isoDate: string,
+  format: "short" | "long" | "relative" = "long"
+): string {
+  const date = new Date(isoDate);
+  if (isNaN(date.getTime())) return "";
+  if (format === "relative") return formatRelativeTime(date);
+  return date.toLocaleDateString("en-US", {
+    month: format === "short" ? "short" : "long",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function formatRelativeTime(date: Date): string {
+  const diffMinutes = Math.floor((Date.now() - date.getTime()) / 60_000);
+  const units: Array<[string, number]> = [
+    ["year", 525_600],
+    ["month", 43_200],
+    ["week", 10_080],
+    ["day", 1_440],
+    ["hour", 60],
+    ["minute", 1],
+  ];
+  for (const [unit, minutes] of units) {
+    const count = Math.floor(diffMinutes / minutes);
+    if (count >= 1) return `${count} ${unit}${count > 1 ? "s" : ""} ago`;
+  }
+  return "just now";
+}
+
+/**
+ * Post List Block Component
+ * Renders the posts resolved for the block as cards, a grid or a list
+ */
+export function PostListBlock(props: BlockData) {
+  const {
+    layout = "cards",
+    showExcerpt = true,
+    showFeaturedImage = true,
+    showDate = true,
+    showAuthor = true,
+    posts = [],
+    className,
+    style,
+    attributes,
+  } = props as Extract<BlockData, { blockName: "post/list" }>;
+
+  const mergedClassName = mergeClassNames(
+    "np-post-list",
+    `np-post-list--${layout}`,
+    className
+  );
+
+  if (posts.length === 0) {
+    return (
+      <div className={mergedClassName} style={style} {...attributes}>
+        <p className="np-post-list__empty">No posts found.</p>
+      </div>
+    );
+  }
+
+  const listStyle: React.CSSProperties =
+    layout === "list"
+      ? { display: "flex", flexDirection: "column", gap: "1.5rem" }
+      : {
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fill, minmax(16rem, 1fr))",
+          gap: "1.5rem",
+        };
+
+  return (
+    <div
+      className={mergedClassName}
+      style={{ ...listStyle, ...style }}
+      {...attributes}
+    >
+      {posts.map((post) => {
+        const meta = [
+          showDate && post.publishedAt && (
+            <time key="date" dateTime={post.publishedAt}>
+              {formatDate(post.publishedAt)}
+            </time>
+          ),
+          showAuthor && post.author && (
+            <span key="author" className="np-post-list__author">
+              {post.author}
+            </span>
+          ),
+        ].filter(Boolean);
+
+        return (
+          <article key={post.id} className="np-post-list__item">
+            {showFeaturedImage && post.featuredImage && (
+              <a href={post.url} className="np-post-list__image">
+                <img
+                  src={post.featuredImage}
+                  alt=""
+                  loading="lazy"
+                  style={{ width: "100%", height: "auto", display: "block" }}
+                />
+              </a>
+            )}
+            <h3 className="np-post-list__title">
+              <a href={post.url}>{post.title}</a>
+            </h3>
+            {meta.length > 0 && (
+              <p className="np-post-list__meta">
+                {meta.flatMap((item, i) => (i > 0 ? [" · ", item] : [item]))}
+              </p>
+            )}
+            {showExcerpt && post.excerpt && (
+              <p className="np-post-list__excerpt">{post.excerpt}</p>
+            )}
+          </article>
+        );
+      })}
+    </div>
+  );
+}
+
+function CommentEntry({
+  comment,
+  allowReplies,
+}: {
+  comment: PostCommentItem;
+  allowReplies: boolean;
+}) {
+  return (
+    <li className="np-comment" id={`comment-${comment.id}`}>
+      <p className="np-comment__meta">
+        <strong className="np-comment__author">{comment.author}</strong>
+        {comment.date && (
+          <>
+            {" · "}
+            <time dateTime={comment.date}>{formatDate(comment.date)}</time>
+          </>
+        )}
+      </p>
+      <div className="np-comment__content" style={{ whiteSpace: "pre-line" }}>
+        {comment.content}
+      </div>
+      {allowReplies && comment.replies.length > 0 && (
+        <ol className="np-comment__replies" style={{ listStyle: "none" }}>
+          {comment.replies.map((reply) => (
+            <CommentEntry key={reply.id} comment={reply} allowReplies />
+          ))}
+        </ol>
+      )}
+    </li>
+  );
+}
+
+// Fetches the form token from /api/comments/form-token once the visitor starts on the form (pages
+// are cached, so it can't be rendered in), then posts the form to /api/comments as JSON and reports
+// whether the comment is up or awaits moderation. Without JavaScript the form is posted as is and the
+// server redirects back to the post; anonymous comments need the token, so only signed-in users get through
+const COMMENT_FORM_SCRIPT = `(function(form){var token=null;var status=form.querySelector("[data-comment-status]");function load(){return token||(token=fetch("/api/comments/form-token?post_id="+encodeURIComponent(form.getAttribute("data-post-id"))).then(function(res){return res.json().catch(function(){return {};}).then(function(body){if(!res.ok)throw new Error(body.message);form.querySelector("[name=formToken]").value=body.formToken;});}).catch(function(error){token=null;throw error;}));}form.addEventListener("focusin",function(){load().catch(function(){});});form.addEventListener("submit",function(e){e.preventDefault();load().then(function(){var data=Object.fromEntries(new FormData(form));return fetch("/api/comments",{method:"POST",headers:{"Content-Type":"application/json"},body:JSON.stringify(data)});}).then(function(res){return res.json().catch(function(){return {};}).then(function(body){if(!res.ok)throw new Error(body.message);form.querySelector("textarea").value="";status.textContent=body.status==="approved"?"Thanks! Your comment has been posted.":"Thanks! Your comment is awaiting moderation.";});}).catch(function(error){status.textContent=error.message||"Your comment could not be sent. Please try again.";});});})(document.currentScript.previousElementSibling);`;
+
+/**
+ * Post Comments Block Component
+ * Renders the approved comments of the post and, while comments are open, a comment form
+ */
+export function PostCommentsBlock(props: BlockData) {
+  const {
+    postId,
+    showForm = true,
+    showCount = true,
+    allowReplies = true,
+    commentsOpen = false,
+    comments,
+    className,
+    style,
+    attributes,
+  } = props as Extract<BlockData, { blockName: "post/comments" }>;
+
+  // Nothing was resolved: the block isn't on a post and names no post
+  if (!comments) return null;
+
+  const count = comments.reduce(
+    (total, comment) => total + 1 + (allowReplies ? comment.replies.length : 0),
+    0
+  );
+
+  return (
+    <section
+      className={mergeClassNames("np-post-comments", className)}
+      style={style}
+      {...attributes}
+    >
+      {showCount && (
+        <h2 className="np-post-comments__count">
+          {count} {count === 1 ? "Comment" : "Comments"}
+        </h2>
+      )}
+      {comments.length > 0 && (
+        <ol className="np-post-comments__list" style={{ listStyle: "none", padding: 0 }}>
+          {comments.map((comment) => (
+            <CommentEntry
+              key={comment.id}
+              comment={comment}
+              allowReplies={allowReplies}
+            />
+          ))}
+        </ol>
+      )}
+      {showForm && commentsOpen && postId && (
+        <>
+          <form
+            className="np-comment-form"
+            data-post-id={postId}
+            method="post"
+            action="/api/comments"
+          >
+            <h3 className="np-comment-form__title">Leave a comment</h3>
+            <input type="hidden" name="postId" value={postId} />
+            <input type="hidden" name="formToken" defaultValue="" />
+            {/* Honeypot (CONFIG.COMMENTS.HONEYPOT_FIELD): hidden from people, filled in by bots */}
+            <p aria-hidden="true" style={{ position: "absolute", left: "-10000px" }}>
+              <label>
+                Website <input type="text" name="website" tabIndex={-1} autoComplete="off" />
+              </label>
+            </p>
+            <p>
+              <label>
+                Name <input type="text" name="authorName" required />
+              </label>
+            </p>
+            <p>
+              <label>
+                Email <input type="email" name="authorEmail" required />
+              </label>
+            </p>
+            <p>
+              <label>
+                Comment <textarea name="content" rows={5} required />
+              </label>
+            </p>
+            <button type="submit">Post Comment</button>
+            <p data-comment-status role="status" />
+          </form>
+          <script dangerouslySetInnerHTML={{ __html: COMMENT_FORM_SCRIPT }} />
+        </>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Post TOC Block Component
+ * Renders links to the headings of the document, nested by level
+ */
+export function PostTocBlock(props: BlockData) {
+  const { title, ordered, headings = [], className, style, attributes } =
+    props as Extract<BlockData, { blockName: "post/toc" }>;
+
+  if (headings.length === 0) return null;
+
+  const ListTag = ordered ? "ol" : "ul";
+  const topLevel = Math.min(...headings.map((heading) => heading.level));
+
+  return (
+    <nav
+      className={mergeClassNames("wp-block-post-toc", className)}
+      style={style}
+      aria-label="Table of contents"
+      {...attributes}
+    >
+      {title && <p className="wp-block-post-toc__title">{title}</p>}
+      <ListTag style={{ margin: 0, paddingLeft: "1.25rem" }}>
+        {headings.map((heading, index) => (
+          <li
+            key={`${heading.id}-${index}`}
+            style={{ marginLeft: `${heading.level - topLevel}rem` }}
+          >
+            <a href={`#${heading.id}`}>{heading.text}</a>
+          </li>
+        ))}
+      </ListTag>
+    </nav>
+  );
+}
+
+function NavigationLink({
+  post,
+  rel,
+  label,
+  showLabel,
+  showThumbnail,
+}: {
+  post: PostSummary;
+  rel: "prev" | "next";
+  label: string;
+  showLabel: boolean;
+  showThumbnail: boolean;
+}) {
+  return (
+    <a
+      href={post.url}
+      rel={rel}
+      className={`wp-block-post-navigation__${rel}`}
+      style={{ flex: 1, textAlign: rel === "prev" ? "left" : "right" }}
+    >
+      {showThumbnail && post.featuredImage && (
+        <img
+          src={post.featuredImage}
+          alt=""
+          loading="lazy"
+          style={{ width: "4rem", height: "4rem", objectFit: "cover" }}
+        />
+      )}
+      {showLabel && (
+        <span className="wp-block-post-navigation__label" style={{ display: "block" }}>
+          {label}
+        </span>
+      )}
+      <span className="wp-block-post-navigation__title">{post.title}</span>
+    </a>
+  );
+}
+
+/**
+ * Post Navigation Block Component
+ * Renders links to the previous and next published posts
+ */
+export function PostNavigationBlock(props: BlockData) {
+  const {
+    showThumbnail = false,
+    showLabel = true,
+    prevLabel,
+    nextLabel,
+    prev,
+    next,
+    className,
+    style,
+    attributes,
+  } = props as Extract<BlockData, { blockName: "post/navigation" }>;
+
+  if (!prev && !next) return null;
+
+  return (
+    <nav
+      className={mergeClassNames("wp-block-post-navigation", className)}
+      style={{ display: "flex", justifyContent: "space-between", gap: "1rem", ...style }}
+      aria-label="Post navigation"
+      {...attributes}
+    >
+      {prev ? (
+        <NavigationLink
+          post={prev}
+          rel="prev"
+          label={prevLabel || "Previous Post"}
+          showLabel={showLabel}
+          showThumbnail={showThumbnail}
+        />
+      ) : (
+        <span style={{ flex: 1 }} />
+      )}
+      {next && (
+        <NavigationLink
+          post={next}
+          rel="next"
+          label={nextLabel || "Next Post"}
+          showLabel={showLabel}
+          showThumbnail={showThumbnail}
+        />
+      )}
+    </nav>
+  );
+}
+
+/**
+ * Post Author Box Block Component
+ * Renders the author's avatar, name and bio
+ */
+export function PostAuthorBoxBlock(props: BlockData) {
+  const {
+    showAvatar = true,
+    showBio = true,
+    showName = true,
+    layout = "horizontal",
+    avatarSize = 64,
+    author,
+    className,
+    style,
+    attributes,
+  } = props as Extract<BlockData, { blockName: "post/author-box" }>;
+
+  if (!author) return null;
+
+  const vertical = layout === "vertical";
+
+  return (
+    <div
+      className={mergeClassNames(
+        "wp-block-post-author-box",
+        `wp-block-post-author-box--${layout}`,
+        className
+      )}
+      style={{
+        display: "flex",
+        flexDirection: vertical ? "column" : "row",
+        alignItems: vertical ? "center" : "flex-start",
+        gap: "1rem",
+        textAlign: vertical ? "center" : undefined,
+        ...style,
+      }}
+      {...attributes}
+    >
+      {showAvatar && author.avatar && (
+        <img
+          src={author.avatar}
+          alt={author.name}
+          width={avatarSize}
+          height={avatarSize}
+          style={{ borderRadius: "50%", objectFit: "cover" }}
+        />
+      )}
+      <div>
+        {showName && (
+          <p className="wp-block-post-author-box__name" style={{ fontWeight: 600 }}>
+            {author.name}
+          </p>
+        )}
+        {showBio && author.bio && (
+          <p className="wp-block-post-author-box__bio">{author.bio}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Post Info Block Component
+ * Renders the publish date, categories, tags and estimated read time
+ */
+export function PostInfoBlock(props: BlockData) {
+  const {
+    showDate = true,
+    showCategories = true,
+    showTags = true,
+    showReadTime = true,
+    dateFormat = "long",
+    layout = "inline",
+    publishedAt,
+    categories = [],
+    tags = [],
+    wordCount,
+    className,
+    style,
+    attributes,
+  } = props as Extract<BlockData, { blockName: "post/info" }>;
+
+  // Nothing was resolved: the block isn't on a post and names no post
+  if (wordCount === undefined) return null;
+
+  const items: Array<[string, React.ReactNode]> = [];
+  if (showDate && publishedAt) {
+    items.push([
+      "date",
+      <time dateTime={publishedAt}>{formatDate(publishedAt, dateFormat)}</time>,
+    ]);
+  }
+  if (showCategories && categories.length > 0) {
+    items.push(["categories", categories.join(", ")]);
+  }
+  if (showTags && tags.length > 0) {
+    items.push(["tags", tags.map((tag) => `#${tag}`).join(" ")]);
+  }
+  if (showReadTime) {
+    const minutes = Math.max(1, Math.ceil(wordCount / WORDS_PER_MINUTE));
+    items.push(["read-time", `${minutes} min read`]);
+  }
+
+  if (items.length === 0) return null;
+
+  const stacked = layout === "stacked";
+
+  return (
+    <div
+      className={mergeClassNames(
+        "wp-block-post-info",
+        stacked ? "post-info--stacked" : "post-info--inline",
+        className
+      )}
+      style={{
+        display: "flex",
+        flexDirection: stacked ? "column" : "row",
+        flexWrap: "wrap",
+        gap: stacked ? "0.25rem" : "1rem",
+        ...style,
+      }}
+      {...attributes}
+    >
+      {items.map(([key, item]) => (
+        <span key={key} className={`wp-block-post-info__${key}`}>
+          {item}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+// Fills the bar (and the percentage label) as the document scrolls
+const PROGRESS_SCRIPT = `(function(bar){var fill=bar.firstElementChild,label=bar.querySelector("[data-progress-percentage]");function update(){var root=document.documentElement,max=root.scrollHeight-root.clientHeight,percent=max>0?Math.round(Math.min(1,root.scrollTop/max)*100):0;fill.style.width=percent+"%";if(label)label.textContent=percent+"%";}addEventListener("scroll",update,{passive:true});addEventListener("resize",update);update();})(document.currentScript.previousElementSibling);`;
+
+/**
+ * Post Progress Block Component
+ * Renders a reading progress bar fixed to the top or bottom of the viewport
+ */
+export function PostProgressBlock(props: BlockData) {
+  const {
+    color = "#3b82f6",
+    height = 4,
+    position = "top",
+    showPercentage = false,
+    backgroundColor = "transparent",
+    className,
+    style,
+    attributes,
+  } = props as Extract<BlockData, { blockName: "post/progress" }>;
+
+  return (
+    <>
+      <div
+        className={mergeClassNames("wp-block-post-progress", className)}
+        style={{
+          position: "fixed",
+          left: 0,
+          right: 0,
+          [position]: 0,
+          zIndex: 50,
+          height,
+          backgroundColor,
+          ...style,
+        }}
+        role="progressbar"
+        aria-label="Reading progress"
+        {...attributes}
+      >
+        <div style={{ height: "100%", width: "0%", backgroundColor: color }} />
+        {showPercentage && (
+          <span
+            data-progress-percentage
+            style={{
+              position: "absolute",
+              [position]: height + 4,
+              right: 8,
+              fontSize: "0.7rem",
+              fontWeight: 600,
+              color,
+            }}
+          >
+            0%
+          </span>
+        )}
+      </div>
+      <script dangerouslySetInnerHTML={{ __html: PROGRESS_SCRIPT }} />
+    </>
+  );
+}
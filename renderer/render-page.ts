@@ -0,0 +1,135 @@
+import { adaptBlockConfigToBlockData, collectBlockModifierCSS } from "./adapt-block-config";
+import { renderBlocksToHtml, getHydrationScript } from "./to-html";
+import { PageTemplate } from "./templates/page";
+import type { PageRenderOptions } from "./templates/page";
+import type { BlockData } from "./react/block-types";
+import type { BlockConfig } from "@shared/schema-types";
+import { generateBlockAnimationCSS } from "@shared/animation-utils";
+import { globalStylesToCss, type GlobalStyles } from "@shared/global-styles";
+
+/**
+ * Served as /renderer/react/block-components.js for the hydration script.
+ * For now a stub: components are server-rendered. In production, this should
+ * be a bundled version of the components.
+ */
+export const BLOCK_COMPONENTS_STUB = `
+// Block components stub - components are server-rendered
+// This is a placeholder for client-side hydration
+export const BLOCK_COMPONENTS = {};
+`;
+
+/**
+ * Content that can be rendered as a standalone block document (pages and posts)
+ */
+export interface BlockDocumentSource {
+	title: string | null;
+	blocks: unknown;
+	other?: unknown;
+}
+
+/**
+ * Renders stored block configs to an HTML fragment (no document shell, CSS or scripts).
+ *
+ * @param blocks - `blocks` column of a page or post
+ * @returns Block markup, empty when there are no renderable blocks
+ */
+export function renderBlockContent(blocks: unknown): string {
+	const configs = (Array.isArray(blocks) ? blocks : []) as BlockConfig[];
+	const adaptedBlocks = configs
+		.map((block) => adaptBlockConfigToBlockData(block))
+		.filter((block): block is BlockData => block !== null);
+	return renderBlocksToHtml(adaptedBlocks);
+}
+
+/**
+ * Renders a page or post's blocks into a complete HTML document.
+ * Collects block custom CSS, animation and modifier CSS, and pulls SEO and
+ * design options from `other.seo` / `other.design`.
+ *
+ * @param source - Record with `title`, `blocks` and optional `other`
+ * @param canonicalUrl - Canonical URL used when the record has no SEO override
+ * @param globalStyles - Active theme's global styles, emitted as CSS custom properties
+ * @returns Full HTML document string
+ */
+export function renderBlockDocument(
+	source: BlockDocumentSource,
+	canonicalUrl: string,
+	globalStyles?: GlobalStyles,
+): string {
+	const blocks = (Array.isArray(source.blocks) ? source.blocks : []) as BlockConfig[];
+
+	// Render blocks to HTML
+	const blockContentHtml = renderBlockContent(blocks);
+
+	// Collect all custom CSS from blocks
+	const allCustomCss = blocks
+		.map((block) =>
+			[block.customCss, block.other?.css].filter(Boolean).join("\n"),
+		)
+		.filter(Boolean)
+		.join("\n");
+
+	// Collect animation CSS rules (hover/loop) from blocks using shared utility
+	const animationCssRules = blocks
+		.filter((b) => b.other?.animation)
+		.map((b) => generateBlockAnimationCSS(b.id, b.other!.animation!))
+		.filter(Boolean)
+		.join("\n");
+
+	// Collect modifier CSS rules (hover states, responsive) from token system
+	const modifierCssRules = blocks
+		.map((b) => collectBlockModifierCSS(b))
+		.filter(Boolean)
+		.join("\n");
+
+	// Check if any blocks have animations
+	const hasAnimations = blocks.some((b) => b.other?.animation);
+	const hasEntryAnimations = blocks.some((b) => b.other?.animation?.entry);
+
+	// Build headScripts with conditional animation assets
+	const headParts: string[] = [];
+	if (allCustomCss) headParts.push(`<style>${allCustomCss}</style>`);
+	if (animationCssRules) headParts.push(`<style>${animationCssRules}</style>`);
+	if (modifierCssRules) headParts.push(`<style>${modifierCssRules}</style>`);
+	if (hasAnimations) headParts.push(`<link rel="stylesheet" href="/vendor/animate.min.css">`);
+	if (hasEntryAnimations) headParts.push(`<link rel="stylesheet" href="/vendor/aos.css">`);
+	const headScripts = headParts.filter(Boolean).join("\n");
+
+	// Build bodyScripts with conditional AOS init
+	const bodyParts: string[] = [];
+	if (hasEntryAnimations) {
+		bodyParts.push(`<script src="/vendor/aos.js"></script>`);
+		bodyParts.push(`<script>AOS.init({useClassNames:true,initClassName:false,animatedClassName:"animate__animated",once:true,duration:1000,offset:120,easing:"ease"});</script>`);
+	}
+	const bodyScripts = bodyParts.join("\n");
+
+	// Get hydration script
+	const hydrateScript = getHydrationScript();
+
+	// Build full HTML page — extract SEO + design from other
+	const other = (source.other && typeof source.other === "object") ? source.other as Record<string, any> : {};
+	const seo = other.seo || {};
+	const design = other.design || {};
+
+	const renderOptions: PageRenderOptions = {
+		fontFamily: design.fontFamily || undefined,
+		containerWidth: design.containerWidth || undefined,
+		padding: design.padding || undefined,
+		backgroundColor: design.backgroundColor?.style || undefined,
+		textColor: design.textColor?.style || undefined,
+		noIndex: seo.noIndex || false,
+		customMeta: Array.isArray(seo.customMeta) ? seo.customMeta : undefined,
+		globalStylesCss: globalStyles ? globalStylesToCss(globalStyles) : undefined,
+	};
+
+	return PageTemplate(
+		seo.metaTitle || source.title || "Untitled Page",
+		seo.metaDescription || "",
+		seo.canonicalUrl || canonicalUrl,
+		headScripts,
+		blockContentHtml,
+		bodyScripts,
+		hydrateScript,
+		renderOptions,
+	);
+}
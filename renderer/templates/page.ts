@@ -13,6 +13,8 @@ export interface PageRenderOptions {
   textColor?: string;
   noIndex?: boolean;
   customMeta?: Array<{ name: string; content: string }>;
+  /** Active theme's global styles (see globalStylesToCss); the page's own design settings override its body defaults */
+  globalStylesCss?: string;
 }
 
 export const PageTemplate = (
@@ -57,11 +59,11 @@ export const PageTemplate = (
         body {
           margin: 0;
           padding: 0;
-          font-family: ${options.fontFamily || '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif'};
-          font-size: 16px;
-          line-height: 1.6;
-          color: ${options.textColor || '#333'};
-          background-color: ${options.backgroundColor || '#fff'};
+          font-family: ${options.fontFamily || 'var(--np-body-font-family, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif)'};
+          font-size: var(--np-body-font-size, 16px);
+          line-height: var(--np-body-line-height, 1.6);
+          color: ${options.textColor || 'var(--np-body-color, #333)'};
+          background-color: ${options.backgroundColor || 'var(--np-body-background-color, #fff)'};
         }
         
         #page {
@@ -72,7 +74,7 @@ export const PageTemplate = (
         
         #main-content {
           flex: 1;
-          max-width: ${options.containerWidth || '1200px'};
+          max-width: ${options.containerWidth || 'var(--np-container-width, 1200px)'};
           width: 100%;
           margin: 0 auto;
           padding: ${options.padding || '2rem 1rem'};
@@ -186,6 +188,7 @@ export const PageTemplate = (
           }
         }
       </style>
+      ${options.globalStylesCss ? `<style id="global-styles">${options.globalStylesCss}</style>` : ''}
   
       ${headScripts}
   </head>
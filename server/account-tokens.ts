@@ -0,0 +1,76 @@
+/**
+ * Single-use tokens mailed for password resets and invitations. A token is
+ * `<userId>.<secret>`; only a SHA-256 hash of the secret and its expiry are
+ * kept, in the user's `other` JSON under the purpose's name, so a leaked
+ * database row can't be turned into a working link.
+ */
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import type { User } from "@shared/schema-types";
+import type { models } from "./storage";
+
+export type AccountTokenPurpose = "passwordReset" | "invitation";
+
+type UsersModel = Pick<typeof models.users, "findById" | "update">;
+
+interface StoredToken {
+	hash: string;
+	expiresAt: string;
+}
+
+const hashSecret = (secret: string) => createHash("sha256").update(secret).digest("hex");
+
+const otherOf = (user: User) => (user.other ?? {}) as Record<string, unknown>;
+
+/**
+ * Issues a token, replacing any earlier one of the same purpose
+ * @param ttlMs - How long the token stays valid
+ * @returns The token to put in the link
+ */
+export async function issueAccountToken(
+	usersModel: UsersModel,
+	user: User,
+	purpose: AccountTokenPurpose,
+	ttlMs: number,
+): Promise<string> {
+	const secret = randomBytes(32).toString("base64url");
+	const stored: StoredToken = { hash: hashSecret(secret), expiresAt: new Date(Date.now() + ttlMs).toISOString() };
+	await usersModel.update(user.id, { other: { ...otherOf(user), [purpose]: stored } });
+	return `${user.id}.${secret}`;
+}
+
+/** The user a token was issued to, or undefined when it's unknown, used or expired */
+export async function findAccountTokenUser(
+	usersModel: UsersModel,
+	token: string,
+	purpose: AccountTokenPurpose,
+): Promise<User | undefined> {
+	const [userId, secret] = token.split(".");
+	if (!userId || !secret || !/^[0-9a-f-]{36}$/i.test(userId)) return undefined;
+
+	const user = await usersModel.findById(userId);
+	const stored = user ? (otherOf(user)[purpose] as StoredToken | undefined) : undefined;
+	if (!user || !stored?.hash || new Date(stored.expiresAt).getTime() < Date.now()) return undefined;
+
+	const expected = Buffer.from(stored.hash);
+	const given = Buffer.from(hashSecret(secret));
+	return expected.length === given.length && timingSafeEqual(expected, given) ? user : undefined;
+}
+
+/**
+ * Applies `changes` to the token's user and invalidates the token
+ * @returns The updated user, or undefined when the token isn't valid
+ *
+ * @example
+ * const user = await redeemAccountToken(models.users, token, 'passwordReset', { password: hashed });
+ */
+export async function redeemAccountToken(
+	usersModel: UsersModel,
+	token: string,
+	purpose: AccountTokenPurpose,
+	changes: Partial<Omit<User, "id" | "other">>,
+): Promise<User | undefined> {
+	const user = await findAccountTokenUser(usersModel, token, purpose);
+	if (!user) return undefined;
+	const { [purpose]: _used, ...other } = otherOf(user);
+	return usersModel.update(user.id, { ...changes, other });
+}
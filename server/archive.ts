@@ -0,0 +1,200 @@
+/**
+ * Archive listings for categories, tags, authors and months.
+ * An `archive` template (from the templates table) supplies the layout; its
+ * `post/list` blocks are replaced with the archive's own paginated post list
+ * rather than the latest posts they would show elsewhere.
+ */
+import type { BlockConfig, Template } from "@shared/schema-types";
+import { renderTemplateBlocks, shouldRenderTemplate, type TemplateBlock } from "./templates/template-renderer";
+import type { ArchiveContext, RenderContext } from "./templates/types";
+import { escapeXml } from "./sitemap";
+
+export type ArchiveType = ArchiveContext["type"];
+
+const MONTH_NAMES = [
+	"January",
+	"February",
+	"March",
+	"April",
+	"May",
+	"June",
+	"July",
+	"August",
+	"September",
+	"October",
+	"November",
+	"December",
+];
+
+/** Post fields the archive list shows */
+export interface ArchivePostItem {
+	title: string;
+	url: string;
+	publishedAt?: Date | null;
+	excerpt?: string | null;
+	author?: string | null;
+	featuredImage?: string | null;
+}
+
+/**
+ * Layout used when no archive template exists: title, description, post list
+ */
+export const DEFAULT_ARCHIVE_BLOCKS: BlockConfig[] = [
+	{
+		id: "archive-title",
+		name: "core/heading",
+		type: "block",
+		parentId: null,
+		content: { kind: "text", value: "{{archive.title}}", level: 1 } as BlockConfig["content"],
+	},
+	{
+		id: "archive-description",
+		name: "core/paragraph",
+		type: "block",
+		parentId: null,
+		content: { kind: "text", value: '{{archive.description | ""}}' },
+	},
+	{
+		id: "archive-posts",
+		name: "post/list",
+		type: "block",
+		parentId: null,
+		category: "post",
+		content: { kind: "structured", data: {} },
+	},
+];
+
+/**
+ * Formats a month archive title, e.g. "March 2026"
+ */
+export function dateArchiveTitle(year: number, month: number): string {
+	return `${MONTH_NAMES[month - 1]} ${year}`;
+}
+
+/**
+ * First instant of the month and of the month after it (UTC)
+ */
+export function monthRange(year: number, month: number): { start: Date; end: Date } {
+	return {
+		start: new Date(Date.UTC(year, month - 1, 1)),
+		end: new Date(Date.UTC(year, month, 1)),
+	};
+}
+
+/**
+ * URL of one page of an archive; page 1 has no query string
+ */
+export function archivePageUrl(url: string, page: number): string {
+	return page > 1 ? `${url}?page=${page}` : url;
+}
+
+/**
+ * Picks the archive template for a context. Templates whose display conditions
+ * match win over templates without conditions; ties go to the oldest template.
+ *
+ * @param templates - Templates of type `archive`, oldest first
+ * @param context - Render context with `archive` populated
+ * @returns The template to render, or undefined to use the default layout
+ */
+export function selectArchiveTemplate(templates: Template[], context: RenderContext): Template | undefined {
+	const conditionsOf = (template: Template) =>
+		((template.settings as { displayConditions?: unknown[] } | null)?.displayConditions ?? []).length;
+	const matching = templates.filter((template) =>
+		shouldRenderTemplate(template.settings as Parameters<typeof shouldRenderTemplate>[0], context),
+	);
+	return matching.find((template) => conditionsOf(template) > 0) ?? matching[0];
+}
+
+/**
+ * Renders the post list of one archive page, followed by previous/next links
+ */
+export function renderArchivePosts(items: ArchivePostItem[], archive: ArchiveContext): string {
+	if (items.length === 0) {
+		return `<section class="archive-posts archive-posts--empty"><p>No posts found.</p></section>`;
+	}
+
+	const articles = items.map((item) => {
+		const parts: string[] = [];
+		if (item.featuredImage) {
+			parts.push(
+				`<a href="${escapeXml(item.url)}" class="archive-post__image"><img src="${escapeXml(item.featuredImage)}" alt="" loading="lazy"></a>`,
+			);
+		}
+		parts.push(`<h2 class="archive-post__title"><a href="${escapeXml(item.url)}">${escapeXml(item.title)}</a></h2>`);
+
+		const meta: string[] = [];
+		if (item.publishedAt) {
+			meta.push(
+				`<time datetime="${item.publishedAt.toISOString()}">${escapeXml(
+					item.publishedAt.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" }),
+				)}</time>`,
+			);
+		}
+		if (item.author) meta.push(`<span class="archive-post__author">${escapeXml(item.author)}</span>`);
+		if (meta.length) parts.push(`<p class="archive-post__meta">${meta.join(" · ")}</p>`);
+
+		if (item.excerpt) parts.push(`<p class="archive-post__excerpt">${escapeXml(item.excerpt)}</p>`);
+		return `<article class="archive-post">${parts.join("")}</article>`;
+	});
+
+	const links: string[] = [];
+	if (archive.page > 1) {
+		links.push(`<a rel="prev" href="${escapeXml(archivePageUrl(archive.url, archive.page - 1))}">Newer posts</a>`);
+	}
+	if (archive.page < archive.totalPages) {
+		links.push(`<a rel="next" href="${escapeXml(archivePageUrl(archive.url, archive.page + 1))}">Older posts</a>`);
+	}
+	const pagination = links.length
+		? `<nav class="archive-pagination" aria-label="Archive pages">${links.join("")}<span>Page ${archive.page} of ${archive.totalPages}</span></nav>`
+		: "";
+
+	return `<section class="archive-posts">${articles.join("")}${pagination}</section>`;
+}
+
+// Swaps every post/list block (at any depth) for pre-rendered markup
+function substitutePostLists(blocks: BlockConfig[], listHtml: string): { blocks: BlockConfig[]; found: boolean } {
+	let found = false;
+	const walk = (list: BlockConfig[]): BlockConfig[] =>
+		list.map((block) => {
+			if (block.name === "post/list") {
+				found = true;
+				return { ...block, other: { ...block.other, html: listHtml } };
+			}
+			return block.children?.length ? { ...block, children: walk(block.children) } : block;
+		});
+	return { blocks: walk(blocks), found };
+}
+
+/**
+ * Resolves template variables and conditions against the archive context and
+ * places the post list. Without a `post/list` block the list goes at the end.
+ *
+ * @param templateBlocks - Blocks of the archive template (or DEFAULT_ARCHIVE_BLOCKS)
+ * @param context - Render context with `archive` populated
+ * @param listHtml - Output of renderArchivePosts
+ * @returns Block configs ready for renderBlockDocument
+ */
+export function buildArchiveBlocks(templateBlocks: unknown, context: RenderContext, listHtml: string): BlockConfig[] {
+	const source = (Array.isArray(templateBlocks) ? templateBlocks : []) as TemplateBlock[];
+	const rendered = renderTemplateBlocks(source, context).blocks as unknown as BlockConfig[];
+
+	// Drop text blocks left empty by unset variables (e.g. a term without a description)
+	const visible = rendered.filter(
+		(block) => !(block.content?.kind === "text" && !block.content.value.trim()),
+	);
+
+	const { blocks, found } = substitutePostLists(visible, listHtml);
+	if (found) return blocks;
+
+	return [
+		...blocks,
+		{
+			id: "archive-posts",
+			name: "post/list",
+			type: "block",
+			parentId: null,
+			content: { kind: "empty" },
+			other: { html: listHtml },
+		} as BlockConfig,
+	];
+}
@@ -0,0 +1,340 @@
+import type { IncomingMessage, Server } from "node:http";
+import type { Duplex } from "node:stream";
+import { randomUUID } from "node:crypto";
+import { WebSocketServer, type RawData, type WebSocket } from "ws";
+import type { BlockConfig } from "@shared/schema-types";
+import {
+	COLLABORATION_PATH,
+	applyBlockOperation,
+	operationTargets,
+	type BlockOperation,
+	type CollaborationClientMessage,
+	type CollaborationServerMessage,
+	type Collaborator,
+} from "@shared/collaboration";
+import hooks, { type HookSystem } from "./hooks.js";
+import { CONFIG } from "./config.js";
+
+/** Who is behind an accepted connection */
+export type CollaboratorIdentity = Pick<Collaborator, "userId" | "name" | "avatarUrl">;
+
+export interface CollaborationHubOptions {
+	/** Resolves the editor of an upgrade request, or null to refuse it */
+	authorize: (req: IncomingMessage, pageId: string) => Promise<CollaboratorIdentity | null>;
+	/** Saved blocks of a page, or null when it does not exist */
+	loadBlocks: (pageId: string) => Promise<BlockConfig[] | null>;
+	path?: string;
+	heartbeatInterval?: number;
+	maxMessageBytes?: number;
+}
+
+interface Connection {
+	socket: WebSocket;
+	collaborator: Collaborator;
+	alive: boolean;
+}
+
+interface Room {
+	blocks: BlockConfig[];
+	seq: number;
+	connections: Map<string, Connection>;
+}
+
+const COLORS = ["#e11d48", "#2563eb", "#16a34a", "#d97706", "#7c3aed", "#0891b2", "#db2777", "#4d7c0f"];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isIdOrNull = (value: unknown) => value === null || typeof value === "string";
+
+// Blocks with string IDs all the way down, as the operations walk them
+function isBlockList(value: unknown): value is BlockConfig[] {
+	return (
+		Array.isArray(value) &&
+		value.every(
+			(block) =>
+				isPlainObject(block) &&
+				typeof block.id === "string" &&
+				(block.children == null || isBlockList(block.children)),
+		)
+	);
+}
+
+function isBlockOperation(op: any): op is BlockOperation {
+	if (!isPlainObject(op) || typeof op.opId !== "string") return false;
+	switch (op.kind) {
+		case "insert":
+			return isBlockList([op.block]) && isIdOrNull(op.parentId) && isIdOrNull(op.afterId);
+		case "move":
+			return typeof op.id === "string" && isIdOrNull(op.parentId) && isIdOrNull(op.afterId);
+		case "update":
+			return typeof op.id === "string" && isPlainObject(op.changes);
+		case "delete":
+			return typeof op.id === "string";
+		default:
+			return false;
+	}
+}
+
+function parseMessage(data: RawData): CollaborationClientMessage | null {
+	let message: any;
+	try {
+		message = JSON.parse(data.toString());
+	} catch {
+		return null;
+	}
+	switch (message?.type) {
+		case "op":
+			return isBlockOperation(message.op) ? message : null;
+		case "sync":
+			return isBlockList(message.blocks) ? message : null;
+		case "select":
+			return isIdOrNull(message.blockId) ? message : null;
+		default:
+			return null;
+	}
+}
+
+/**
+ * WebSocket hub for editing a page together. Editors connect to
+ * `<path>?pageId=<id>` on the app's HTTP server and share a room per page.
+ *
+ * The room keeps its own copy of the blocks, loaded from the page when the
+ * first editor joins; operations are applied to it in arrival order and
+ * broadcast with a sequence number to every editor, the sender included.
+ * Selecting a block locks it: operations on a block another editor has
+ * selected are rejected. Nothing is saved here; editors still save through
+ * the pages API, and `listen()` tells the room when they do.
+ */
+export class CollaborationHub {
+	private rooms = new Map<string, Room>();
+	private loading = new Map<string, Promise<Room | null>>();
+	private server: WebSocketServer;
+	private heartbeat: ReturnType<typeof setInterval> | null = null;
+	private path: string;
+
+	constructor(private options: CollaborationHubOptions) {
+		this.path = options.path ?? COLLABORATION_PATH;
+		this.server = new WebSocketServer({
+			noServer: true,
+			maxPayload: options.maxMessageBytes ?? CONFIG.COLLABORATION.MAX_MESSAGE_BYTES,
+		});
+	}
+
+	/**
+	 * Handles upgrades to the hub's path on `httpServer`; other upgrades
+	 * (e.g. the Vite dev server's) are left alone
+	 */
+	attach(httpServer: Server) {
+		httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+			const url = new URL(req.url ?? "/", "http://localhost");
+			if (url.pathname !== this.path) return;
+
+			this.upgrade(req, socket, head, url.searchParams.get("pageId")).catch((error) => {
+				console.error("[Collaboration] Upgrade failed:", error);
+				this.refuse(socket, 500, "Internal Server Error");
+			});
+		});
+
+		if (!this.heartbeat) {
+			// Drop editors whose connection died without a close frame
+			this.heartbeat = setInterval(
+				() => this.checkConnections(),
+				this.options.heartbeatInterval ?? CONFIG.COLLABORATION.HEARTBEAT_INTERVAL_MS,
+			);
+			this.heartbeat.unref();
+		}
+	}
+
+	/** Tells a page's editors which version their shared blocks were saved as */
+	listen(hookSystem: HookSystem = hooks) {
+		hookSystem.addAction(
+			"save_post",
+			(record: { id?: string; version?: number; updatedAt?: Date | string | null } | null | undefined) => {
+				const room = record?.id ? this.rooms.get(record.id) : undefined;
+				if (!room || typeof record?.version !== "number") return;
+				this.broadcast(room, {
+					type: "saved",
+					version: record.version,
+					updatedAt: record.updatedAt ? new Date(record.updatedAt).toISOString() : null,
+				});
+			},
+		);
+	}
+
+	/** Editors currently connected to a page */
+	peers(pageId: string): Collaborator[] {
+		const room = this.rooms.get(pageId);
+		return room ? Array.from(room.connections.values()).map((connection) => connection.collaborator) : [];
+	}
+
+	close() {
+		if (this.heartbeat) clearInterval(this.heartbeat);
+		this.heartbeat = null;
+		this.rooms.forEach((room) => room.connections.forEach((connection) => connection.socket.terminate()));
+		this.rooms.clear();
+		this.server.close();
+	}
+
+	private async upgrade(req: IncomingMessage, socket: Duplex, head: Buffer, pageId: string | null) {
+		if (!pageId) return this.refuse(socket, 400, "Bad Request");
+
+		const identity = await this.options.authorize(req, pageId);
+		if (!identity) return this.refuse(socket, 403, "Forbidden");
+
+		const room = await this.openRoom(pageId);
+		if (!room) return this.refuse(socket, 404, "Not Found");
+
+		this.server.handleUpgrade(req, socket, head, (ws) => this.join(pageId, room, ws, identity));
+	}
+
+	private refuse(socket: Duplex, status: number, reason: string) {
+		if (socket.destroyed) return;
+		socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+		socket.destroy();
+	}
+
+	private openRoom(pageId: string): Promise<Room | null> {
+		const open = this.rooms.get(pageId);
+		if (open) return Promise.resolve(open);
+
+		// Editors joining while the page loads share the same room
+		let pending = this.loading.get(pageId);
+		if (!pending) {
+			pending = this.options
+				.loadBlocks(pageId)
+				.then((blocks) => {
+					if (!blocks) return null;
+					const room: Room = { blocks, seq: 0, connections: new Map() };
+					this.rooms.set(pageId, room);
+					return room;
+				})
+				.finally(() => this.loading.delete(pageId));
+			this.loading.set(pageId, pending);
+		}
+		return pending;
+	}
+
+	private join(pageId: string, room: Room, socket: WebSocket, identity: CollaboratorIdentity) {
+		const usedColors = new Set(Array.from(room.connections.values()).map((c) => c.collaborator.color));
+		const collaborator: Collaborator = {
+			...identity,
+			clientId: randomUUID(),
+			color: COLORS.find((color) => !usedColors.has(color)) ?? COLORS[room.connections.size % COLORS.length],
+			blockId: null,
+		};
+		const connection: Connection = { socket, collaborator, alive: true };
+		room.connections.set(collaborator.clientId, connection);
+
+		socket.on("pong", () => {
+			connection.alive = true;
+		});
+		socket.on("message", (data) => {
+			// A message that slips past validation must not take the server down
+			try {
+				this.receive(room, connection, data);
+			} catch (error) {
+				console.error("[Collaboration] Failed to handle message:", error);
+				this.send(connection, { type: "error", message: "Invalid message" });
+			}
+		});
+		socket.on("close", () => this.leave(pageId, room, collaborator.clientId));
+
+		this.send(connection, {
+			type: "welcome",
+			clientId: collaborator.clientId,
+			blocks: room.blocks,
+			seq: room.seq,
+			peers: this.peers(pageId),
+		});
+		this.broadcastPresence(room);
+	}
+
+	private leave(pageId: string, room: Room, clientId: string) {
+		room.connections.delete(clientId);
+		if (room.connections.size === 0) {
+			// The next editor starts again from the saved page
+			if (this.rooms.get(pageId) === room) this.rooms.delete(pageId);
+			return;
+		}
+		this.broadcastPresence(room);
+	}
+
+	private receive(room: Room, connection: Connection, data: RawData) {
+		const message = parseMessage(data);
+		if (!message) {
+			this.send(connection, { type: "error", message: "Invalid message" });
+			return;
+		}
+
+		const { collaborator } = connection;
+		switch (message.type) {
+			case "op": {
+				const holder = operationTargets(message.op)
+					.map((id) => this.lockHolder(room, id))
+					.find((other) => other && other.clientId !== collaborator.clientId);
+				if (holder) {
+					this.send(connection, {
+						type: "rejected",
+						opId: message.op.opId,
+						reason: `Being edited by ${holder.name}`,
+					});
+					return;
+				}
+				room.blocks = applyBlockOperation(room.blocks, message.op);
+				room.seq++;
+				this.broadcast(room, { type: "op", op: message.op, clientId: collaborator.clientId, seq: room.seq });
+				return;
+			}
+			case "sync":
+				// Only the first editor may bring unsaved blocks; later ones adopt the room's
+				if (room.connections.size === 1) {
+					room.blocks = message.blocks;
+					room.seq++;
+				}
+				return;
+			case "select": {
+				const holder = message.blockId ? this.lockHolder(room, message.blockId) : undefined;
+				collaborator.blockId = holder && holder.clientId !== collaborator.clientId ? null : message.blockId;
+				this.broadcastPresence(room);
+				return;
+			}
+		}
+	}
+
+	private lockHolder(room: Room, blockId: string): Collaborator | undefined {
+		return Array.from(room.connections.values()).find((connection) => connection.collaborator.blockId === blockId)
+			?.collaborator;
+	}
+
+	private checkConnections() {
+		this.rooms.forEach((room) =>
+			room.connections.forEach((connection) => {
+				if (!connection.alive) {
+					connection.socket.terminate();
+					return;
+				}
+				connection.alive = false;
+				connection.socket.ping();
+			}),
+		);
+	}
+
+	private broadcastPresence(room: Room) {
+		this.broadcast(room, {
+			type: "presence",
+			peers: Array.from(room.connections.values()).map((connection) => connection.collaborator),
+		});
+	}
+
+	private broadcast(room: Room, message: CollaborationServerMessage) {
+		const payload = JSON.stringify(message);
+		room.connections.forEach((connection) => {
+			if (connection.socket.readyState === connection.socket.OPEN) connection.socket.send(payload);
+		});
+	}
+
+	private send(connection: Connection, message: CollaborationServerMessage) {
+		if (connection.socket.readyState === connection.socket.OPEN) connection.socket.send(JSON.stringify(message));
+	}
+}
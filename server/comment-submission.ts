@@ -0,0 +1,219 @@
+/**
+ * Public comment submissions. The form rendered by `post/comments` carries a
+ * honeypot field and a token signing the post and the time it was issued; the
+ * token is fetched when the visitor starts on the form, never baked into
+ * (cached) page HTML. Anonymous submissions that fill the honeypot, lack a
+ * valid token, come back too quickly or with a token past its age are refused. Comments that get through are scored for spam
+ * (keywords, links), the `comment_spam_score` filter can adjust the score, and
+ * the score together with `discussion.moderateComments` decides the status.
+ * Whatever the client sends as status or author is ignored.
+ */
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { Comment, NewComment, Post } from "@shared/schema-types";
+import type { Settings } from "@shared/settings-schema";
+import { CONFIG } from "./config.js";
+import type { HookSystem } from "./hooks.js";
+import { createRateLimiter } from "./middleware/rate-limit";
+import type { models } from "./storage";
+
+export type CommentSubmissionModels = Pick<typeof models, "posts" | "comments" | "sites">;
+
+// Thrown for submissions that are refused; `status` is the HTTP status to answer with
+export class CommentSubmissionError extends Error {
+	public readonly status: number;
+
+	constructor(message: string, status: number = 400) {
+		super(message);
+		this.name = "CommentSubmissionError";
+		this.status = status;
+	}
+}
+
+export interface SpamScore {
+	score: number;
+	/** Why points were added, e.g. `keyword:casino` or `links:4` */
+	reasons: string[];
+}
+
+/** Who is submitting, as far as the request tells */
+export interface CommentSubmitter {
+	/** Signed-in users comment as themselves and skip the form checks */
+	userId?: string | null;
+	/** Moderators' comments are approved without scoring */
+	canModerate?: boolean;
+	ip?: string;
+	userAgent?: string;
+}
+
+/** Counts submissions per IP address; REST and GraphQL share it */
+export const commentRateLimiter = createRateLimiter({
+	max: CONFIG.COMMENTS.RATE_LIMIT_MAX,
+	windowMs: CONFIG.COMMENTS.RATE_LIMIT_WINDOW_MS,
+});
+
+export const COMMENT_RATE_LIMIT_MESSAGE = "You are posting comments too quickly; please wait a few minutes";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const sign = (postId: string, issuedAt: number) =>
+	createHmac("sha256", CONFIG.COMMENTS.FORM_SECRET).update(`${postId}.${issuedAt}`).digest("hex");
+
+/**
+ * Token for the comment form of a post: the time it was issued and its
+ * signature. Valid from CONFIG.COMMENTS.MIN_SUBMIT_MS to FORM_TOKEN_MAX_AGE_MS
+ * after issue; hand it out per request, as cached HTML would keep it forever.
+ */
+export function issueCommentFormToken(postId: string, now: number = Date.now()): string {
+	return `${now}.${sign(postId, now)}`;
+}
+
+/**
+ * Checks the honeypot and the form token of an anonymous submission
+ *
+ * @throws CommentSubmissionError when either gives the submission away as automated
+ */
+export function checkCommentForm(input: Record<string, unknown>, postId: string, now: number = Date.now()): void {
+	const honeypot = input[CONFIG.COMMENTS.HONEYPOT_FIELD];
+	if (typeof honeypot === "string" && honeypot.trim()) {
+		throw new CommentSubmissionError("Your comment could not be accepted");
+	}
+
+	const [issuedAt, signature] = typeof input.formToken === "string" ? input.formToken.split(".") : [];
+	const expected = Buffer.from(sign(postId, Number(issuedAt)));
+	const given = Buffer.from(signature ?? "");
+	if (!issuedAt || given.length !== expected.length || !timingSafeEqual(given, expected)) {
+		throw new CommentSubmissionError("The comment form has expired; reload the page and try again");
+	}
+	if (now - Number(issuedAt) < CONFIG.COMMENTS.MIN_SUBMIT_MS) {
+		throw new CommentSubmissionError("That was quick! Please take a moment before posting your comment", 429);
+	}
+	if (now - Number(issuedAt) > CONFIG.COMMENTS.FORM_TOKEN_MAX_AGE_MS) {
+		throw new CommentSubmissionError("The comment form has expired; reload the page and try again");
+	}
+}
+
+/**
+ * Scores a comment for spam: 2 points per keyword found in it (name, email
+ * or content) and 1 per link past `maxLinks`
+ */
+export function scoreComment(
+	comment: Pick<NewComment, "content" | "authorName" | "authorEmail">,
+	options: { keywords?: readonly string[]; maxLinks?: number } = {},
+): SpamScore {
+	const { keywords = CONFIG.COMMENTS.SPAM_KEYWORDS, maxLinks = CONFIG.COMMENTS.MAX_LINKS } = options;
+	const text = [comment.authorName, comment.authorEmail, comment.content].filter(Boolean).join("\n").toLowerCase();
+	const result: SpamScore = { score: 0, reasons: [] };
+
+	for (const keyword of keywords) {
+		if (keyword && text.includes(keyword.toLowerCase())) {
+			result.score += 2;
+			result.reasons.push(`keyword:${keyword}`);
+		}
+	}
+	const links = text.match(LINK_PATTERN)?.length ?? 0;
+	if (links > maxLinks) {
+		result.score += links - maxLinks;
+		result.reasons.push(`links:${links}`);
+	}
+	return result;
+}
+
+/** Whether a post takes comments: published, with comments on for the site and the post */
+export function commentsOpen(post: Pick<Post, "status" | "allowComments">, settings: Settings): boolean {
+	return post.status === CONFIG.STATUS.PUBLISH && settings.discussion.enableComments && post.allowComments !== false;
+}
+
+const field = (input: Record<string, unknown>, name: string) =>
+	typeof input[name] === "string" ? (input[name] as string).trim() : "";
+
+// The post a comment or form token is for, refused unless it takes comments
+async function commentablePost(modelsObj: CommentSubmissionModels, postId: string) {
+	const post = UUID_PATTERN.test(postId) ? await modelsObj.posts.findById(postId) : undefined;
+	if (!post || post.status !== CONFIG.STATUS.PUBLISH) {
+		throw new CommentSubmissionError("Post not found", 404);
+	}
+	const settings = await modelsObj.sites.getSettings();
+	if (!commentsOpen(post, settings)) {
+		throw new CommentSubmissionError("Comments are closed on this post", 403);
+	}
+	return { post, settings };
+}
+
+/**
+ * Issues a form token for a post that takes comments
+ *
+ * @throws CommentSubmissionError for missing or unpublished posts (404) and closed comments (403)
+ */
+export async function issueCommentFormTokenFor(
+	modelsObj: CommentSubmissionModels,
+	postId: string,
+	now: number = Date.now(),
+): Promise<string> {
+	const { post } = await commentablePost(modelsObj, postId);
+	return issueCommentFormToken(post.id, now);
+}
+
+/**
+ * Validates a public submission and saves the comment with the status it
+ * earns. Fires no actions; callers fire `new_comment`.
+ *
+ * @param input - The request body; only postId, parentId, content, authorName,
+ *   authorEmail, formToken and the honeypot are read
+ * @throws CommentSubmissionError for refused submissions, and HookVetoError
+ *   when a `comment_spam_score` filter vetoes
+ */
+export async function submitComment(
+	modelsObj: CommentSubmissionModels,
+	hooks: HookSystem,
+	input: Record<string, unknown>,
+	submitter: CommentSubmitter = {},
+	now: number = Date.now(),
+): Promise<{ comment: Comment; post: Post }> {
+	const { post, settings } = await commentablePost(modelsObj, field(input, "postId"));
+	if (!submitter.userId) checkCommentForm(input, post.id, now);
+
+	const content = field(input, "content");
+	if (!content) throw new CommentSubmissionError("Write a comment first");
+	if (content.length > CONFIG.COMMENTS.MAX_LENGTH) {
+		throw new CommentSubmissionError(`Comments are limited to ${CONFIG.COMMENTS.MAX_LENGTH} characters`);
+	}
+
+	const parentId = field(input, "parentId") || null;
+	if (parentId) {
+		const parent = UUID_PATTERN.test(parentId) ? await modelsObj.comments.findById(parentId) : undefined;
+		if (!parent || parent.postId !== post.id || parent.status !== CONFIG.COMMENT_STATUS.APPROVED) {
+			throw new CommentSubmissionError("The comment you replied to is gone");
+		}
+	}
+
+	const data: NewComment = { postId: post.id, parentId, content };
+	if (submitter.userId) {
+		data.authorId = submitter.userId;
+	} else {
+		data.authorName = field(input, "authorName");
+		data.authorEmail = field(input, "authorEmail");
+		if (!data.authorName) throw new CommentSubmissionError("Name is required");
+		if (!EMAIL_PATTERN.test(data.authorEmail)) throw new CommentSubmissionError("A valid email address is required");
+	}
+
+	let status: string = CONFIG.COMMENT_STATUS.APPROVED;
+	let spam: SpamScore = { score: 0, reasons: [] };
+	if (!submitter.canModerate) {
+		spam = await hooks.applyFiltersAsync("comment_spam_score", scoreComment(data), data, {
+			post,
+			ip: submitter.ip,
+			userAgent: submitter.userAgent,
+		});
+		if (spam.score >= CONFIG.COMMENTS.SPAM_THRESHOLD) status = CONFIG.COMMENT_STATUS.SPAM;
+		else if (spam.score > 0 || settings.discussion.moderateComments) status = CONFIG.COMMENT_STATUS.PENDING;
+	}
+
+	const comment = await modelsObj.comments.create({
+		...data,
+		status,
+		other: { ip: submitter.ip ?? null, userAgent: submitter.userAgent ?? null, spamScore: spam.score, spamReasons: spam.reasons },
+	});
+	return { comment, post };
+}
@@ -37,6 +37,7 @@ export const CONFIG = {
 	STATUS: {
 		ANY: "any",
 		PUBLISH: "publish",
+		FUTURE: "future",
 		DRAFT: "draft",
 		PRIVATE: "private",
 		TRASH: "trash",
@@ -73,6 +74,125 @@ export const CONFIG = {
 		SALT_ROUNDS: 10,
 	},
 
+	// Plugin runtime
+	PLUGINS: {
+		// Directory scanned for plugin packages (relative to the working directory)
+		DIRECTORY: process.env.PLUGINS_DIR || "plugins",
+		MANIFEST_FILE: "plugin.json",
+	},
+
+	// Theme packages uploaded through /api/themes/upload
+	THEMES: {
+		MANIFEST_FILE: "theme.json",
+		MAX_PACKAGE_SIZE: 20 * 1024 * 1024, // 20MB
+		MAX_EXTRACTED_SIZE: 100 * 1024 * 1024, // 100MB
+		// Screenshots and assets are extracted to <uploads>/themes/<theme id>
+		ASSETS_DIRECTORY: "themes",
+	},
+
+	// Rendered HTML cache for published pages
+	RENDER_CACHE: {
+		// "memory" or "filesystem"
+		BACKEND: process.env.RENDER_CACHE_BACKEND || "memory",
+		DIRECTORY: process.env.RENDER_CACHE_DIR || "data/render-cache",
+		// Entries kept by the in-memory backend before the oldest is evicted
+		MAX_ENTRIES: 500,
+	},
+
+	// Page revisions kept in pages.history
+	REVISIONS: {
+		// Snapshots kept per page; the oldest are dropped when a save goes over
+		MAX_PER_PAGE: Number(process.env.PAGE_REVISIONS_MAX) || 50,
+	},
+
+	// Real-time page editing over WebSocket
+	COLLABORATION: {
+		// Connections that miss a ping for this long are dropped
+		HEARTBEAT_INTERVAL_MS: 30_000,
+		MAX_MESSAGE_BYTES: 1024 * 1024,
+	},
+
+	// Background job scheduler
+	JOBS: {
+		// How often the queue is checked for due jobs
+		POLL_INTERVAL_MS: Number(process.env.JOBS_POLL_INTERVAL_MS) || 30_000,
+		// Jobs claimed per check
+		BATCH_SIZE: 20,
+		// Attempts before a failing job is marked failed; retries back off exponentially
+		MAX_ATTEMPTS: 5,
+		RETRY_DELAY_MS: 60_000,
+	},
+
+	// Outgoing webhooks
+	WEBHOOKS: {
+		// Attempts per delivery; retry N waits RETRY_DELAY_MS * 2^(N-1)
+		MAX_ATTEMPTS: 6,
+		RETRY_DELAY_MS: 30_000,
+		TIMEOUT_MS: 10_000,
+		// Characters of the receiver's response kept in the delivery log
+		MAX_RESPONSE_BODY: 2_000,
+	},
+
+	// Transactional email (server/email/)
+	EMAIL: {
+		// smtp, file or console; plugins can register more with registerMailTransport
+		TRANSPORT: process.env.MAIL_TRANSPORT || "console",
+		// Sender address; defaults to the site name and admin email
+		FROM: process.env.MAIL_FROM || "",
+		SMTP: {
+			HOST: process.env.SMTP_HOST || "localhost",
+			PORT: Number(process.env.SMTP_PORT) || 587,
+			// TLS from the start (port 465); otherwise STARTTLS is used when offered
+			SECURE: process.env.SMTP_SECURE === "true",
+			USER: process.env.SMTP_USER || "",
+			PASSWORD: process.env.SMTP_PASSWORD || "",
+		},
+		// Where the file transport writes .eml files (relative to the working directory)
+		FILE_DIRECTORY: process.env.MAIL_DIR || "mail",
+		// Attempts per message; retry N waits RETRY_DELAY_MS * 2^(N-1)
+		MAX_ATTEMPTS: 5,
+		RETRY_DELAY_MS: 60_000,
+		PASSWORD_RESET_TTL_MS: 60 * 60 * 1000,
+		// Password reset requests per IP address per window
+		PASSWORD_RESET_RATE_LIMIT_MAX: 5,
+		PASSWORD_RESET_RATE_LIMIT_WINDOW_MS: 15 * 60 * 1000,
+		INVITATION_TTL_MS: 7 * 24 * 60 * 60 * 1000,
+	},
+
+	// Public comment submissions (server/comment-submission.ts)
+	COMMENTS: {
+		// Signs the issue time carried by the comment form token
+		FORM_SECRET: process.env.COMMENT_FORM_SECRET || process.env.SESSION_SECRET || "dev-secret-change-in-production",
+		// Forms sent back sooner than this after their token was issued are refused,
+		// and so are tokens older than FORM_TOKEN_MAX_AGE_MS
+		MIN_SUBMIT_MS: 3_000,
+		FORM_TOKEN_MAX_AGE_MS: 2 * 60 * 60 * 1000,
+		// Hidden form field people leave empty
+		HONEYPOT_FIELD: "website",
+		MAX_LENGTH: 10_000,
+		// Submissions per IP address per window
+		RATE_LIMIT_MAX: 5,
+		RATE_LIMIT_WINDOW_MS: 10 * 60 * 1000,
+		// Each keyword found scores 2 and each link past MAX_LINKS scores 1; a comment
+		// scoring SPAM_THRESHOLD is spam, and any lower non-zero score holds it for moderation
+		SPAM_KEYWORDS: ["viagra", "cialis", "casino", "payday loan", "replica watches", "crypto giveaway"],
+		MAX_LINKS: 2,
+		SPAM_THRESHOLD: 3,
+	},
+
+	// GraphQL API at /graphql
+	GRAPHQL: {
+		DEFAULT_PAGE_SIZE: 10,
+		// Upper bound for `first` on every connection
+		MAX_PAGE_SIZE: 100,
+	},
+
+	// Static site export
+	EXPORT: {
+		// Directory holding exports started from the admin (relative to the working directory)
+		DIRECTORY: process.env.EXPORTS_DIR || "exports",
+	},
+
 	// File upload
 	FILE_UPLOAD: {
 		// (removed UNIQUE_SUFFIX_LENGTH: 9, as it was unused and misleading)
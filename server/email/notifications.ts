@@ -0,0 +1,76 @@
+/**
+ * Emails sent in response to actions. While `discussion.emailNotifications`
+ * is on, a comment waiting for moderation alerts the admin email, and an
+ * approved comment tells the post's author (unless they wrote it).
+ */
+import type { Comment } from "@shared/schema-types";
+import { CONFIG } from "../config.js";
+import hooks, { type HookSystem } from "../hooks.js";
+import type { JobScheduler } from "../scheduler";
+import { EMAIL_JOB, attemptEmail, emailSiteOf, sendEmail, type EmailModels } from "./outbox.js";
+
+async function commenterName(modelsObj: EmailModels, comment: Comment): Promise<string> {
+	if (comment.authorId) {
+		const user = await modelsObj.users.findById(comment.authorId);
+		if (user) return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.username;
+	}
+	return comment.authorName || "Anonymous";
+}
+
+/**
+ * Queues the notification a new or newly approved comment calls for
+ *
+ * @returns The queued message, or undefined when none is due
+ */
+export async function notifyComment(scheduler: JobScheduler, modelsObj: EmailModels, comment: Comment) {
+	const settings = await modelsObj.sites.getSettings();
+	if (!settings.discussion.emailNotifications) return undefined;
+
+	const post = await modelsObj.posts.findById(comment.postId);
+	if (!post) return undefined;
+	const site = emailSiteOf(settings);
+	const commenter = await commenterName(modelsObj, comment);
+
+	if (comment.status === CONFIG.COMMENT_STATUS.PENDING) {
+		if (!settings.general.adminEmail) return undefined;
+		return sendEmail(scheduler, modelsObj, "comment_moderation", settings.general.adminEmail, {
+			postTitle: post.title,
+			commenter,
+			commenterEmail: comment.authorEmail,
+			content: comment.content,
+			moderationUrl: `${site.url}/admin/comments`,
+		});
+	}
+
+	if (comment.status === CONFIG.COMMENT_STATUS.APPROVED && comment.authorId !== post.authorId) {
+		const author = await modelsObj.users.findById(post.authorId);
+		if (!author?.email) return undefined;
+		return sendEmail(scheduler, modelsObj, "new_comment", author.email, {
+			postTitle: post.title,
+			postUrl: `${site.url}/post/${encodeURIComponent(post.slug)}#comment-${comment.id}`,
+			commenter,
+			content: comment.content,
+		});
+	}
+	return undefined;
+}
+
+/**
+ * Registers the send job handler and the comment notifications.
+ * Queueing failures are logged; they never fail the action that fired.
+ */
+export function registerEmail(scheduler: JobScheduler, modelsObj: EmailModels, hookSystem: HookSystem = hooks) {
+	scheduler.register(EMAIL_JOB, async ({ messageId }) => {
+		await attemptEmail(scheduler, modelsObj, String(messageId));
+	});
+
+	for (const action of ["new_comment", "approve_comment"]) {
+		hookSystem.addAction(action, async (comment: Comment) => {
+			try {
+				await notifyComment(scheduler, modelsObj, comment);
+			} catch (error) {
+				console.error(`[Email] Failed to queue the ${action} notification:`, error);
+			}
+		});
+	}
+}
@@ -0,0 +1,149 @@
+/**
+ * The email outbox. Messages are rendered when queued and stored in
+ * `email_outbox`; the job scheduler sends them with the configured transport.
+ * A failed attempt is retried with exponential backoff until
+ * CONFIG.EMAIL.MAX_ATTEMPTS, and the row keeps the outcome of the last one.
+ */
+import type { OutboxEmail } from "@shared/schema-types";
+import type { Settings } from "@shared/settings-schema";
+import { CONFIG } from "../config.js";
+import type { JobScheduler } from "../scheduler";
+import type { models } from "../storage";
+import { renderEmail, type EmailSite, type EmailTemplateData, type EmailTemplateName } from "./templates.js";
+import { getMailTransport, type MailTransport } from "./transports.js";
+
+export type EmailModels = Pick<typeof models, "emailOutbox" | "sites" | "users" | "posts">;
+
+export const EMAIL_JOB = "send_email";
+
+const messageKey = (id: string) => `email:${id}`;
+
+/**
+ * The configured public URL: general.siteUrl, then SITE_URL, or "" when
+ * neither is set. Mail carrying account links (password resets, invitations)
+ * is only sent with one, as the request's Host header is whatever the client says.
+ */
+export function configuredSiteUrl(settings: Settings): string {
+	return (settings.general.siteUrl || process.env.SITE_URL || "").replace(/\/+$/, "");
+}
+
+/**
+ * Name and public URL used in messages. Without a configured site URL, links
+ * fall back to `fallbackUrl`.
+ */
+export function emailSiteOf(settings: Settings, fallbackUrl = ""): EmailSite {
+	return { name: settings.general.siteName, url: configuredSiteUrl(settings) || fallbackUrl.replace(/\/+$/, "") };
+}
+
+function senderOf(settings: Settings): string {
+	if (CONFIG.EMAIL.FROM) return CONFIG.EMAIL.FROM;
+	const address = settings.general.adminEmail || "nextpress@localhost";
+	return `"${settings.general.siteName.replace(/["\\]/g, "")}" <${address}>`;
+}
+
+/**
+ * Renders a template and queues the message
+ *
+ * @param options.siteUrl - Origin for links when neither the settings nor SITE_URL set one
+ * @returns The queued outbox row
+ *
+ * @example
+ * await sendEmail(scheduler, models, 'password_reset', user.email, { username, resetUrl, expiresInMinutes: 60 });
+ */
+export async function sendEmail<N extends EmailTemplateName>(
+	scheduler: JobScheduler,
+	modelsObj: EmailModels,
+	template: N,
+	to: string,
+	data: EmailTemplateData<N>,
+	options: { siteUrl?: string } = {},
+): Promise<OutboxEmail> {
+	const settings = await modelsObj.sites.getSettings();
+	const rendered = renderEmail(template, data, emailSiteOf(settings, options.siteUrl));
+	const now = new Date();
+	const message = await modelsObj.emailOutbox.create({ template, to, ...rendered, nextAttemptAt: now });
+	await scheduler.schedule(EMAIL_JOB, now, { messageId: message.id }, messageKey(message.id));
+	return message;
+}
+
+/**
+ * Queues a failed message again with a fresh set of attempts
+ *
+ * @returns The updated message, or undefined when it doesn't exist or isn't failed
+ */
+export async function retryEmail(
+	scheduler: JobScheduler,
+	modelsObj: EmailModels,
+	id: string,
+): Promise<OutboxEmail | undefined> {
+	const message = await modelsObj.emailOutbox.findById(id);
+	if (message?.status !== "failed") return undefined;
+
+	const now = new Date();
+	const updated = await modelsObj.emailOutbox.update(message.id, {
+		status: "pending",
+		attempts: 0,
+		error: null,
+		nextAttemptAt: now,
+	});
+	await scheduler.schedule(EMAIL_JOB, now, { messageId: message.id }, messageKey(message.id));
+	return updated;
+}
+
+/**
+ * Makes one attempt at sending a message and records the outcome; a failure
+ * queues the next attempt while attempts remain. Finished messages are left alone.
+ *
+ * @returns The updated message
+ */
+export async function attemptEmail(
+	scheduler: JobScheduler,
+	modelsObj: EmailModels,
+	id: string,
+	transport?: MailTransport,
+): Promise<OutboxEmail | undefined> {
+	const message = await modelsObj.emailOutbox.findById(id);
+	if (!message || message.status === "sent" || message.status === "failed") return message;
+
+	const attempts = message.attempts + 1;
+	const settings = await modelsObj.sites.getSettings();
+	let messageId: string | null = null;
+	let error: string | null = null;
+	try {
+		({ messageId } = await (transport ?? getMailTransport()).send({
+			from: senderOf(settings),
+			to: message.to,
+			subject: message.subject,
+			text: message.text,
+			html: message.html,
+		}));
+	} catch (err) {
+		error = err instanceof Error ? err.message : String(err);
+	}
+
+	if (!error) {
+		return modelsObj.emailOutbox.update(message.id, {
+			status: "sent",
+			attempts,
+			error: null,
+			messageId,
+			nextAttemptAt: null,
+			sentAt: new Date(),
+		});
+	}
+
+	if (attempts >= CONFIG.EMAIL.MAX_ATTEMPTS) {
+		return modelsObj.emailOutbox.update(message.id, { status: "failed", attempts, error, nextAttemptAt: null });
+	}
+
+	const retryAt = new Date(Date.now() + CONFIG.EMAIL.RETRY_DELAY_MS * 2 ** (attempts - 1));
+	const updated = await modelsObj.emailOutbox.update(message.id, {
+		status: "retrying",
+		attempts,
+		error,
+		nextAttemptAt: retryAt,
+	});
+	// Same key as the running job: the scheduler keeps the rescheduled job pending
+	await scheduler.schedule(EMAIL_JOB, retryAt, { messageId: message.id }, messageKey(message.id));
+	return updated;
+}
@@ -0,0 +1,120 @@
+/**
+ * Email templates. A template turns its data into a subject, paragraphs and
+ * an optional call to action; renderEmail lays those out as a plain-text
+ * part and a matching HTML part, with the site's name in the footer.
+ */
+
+export interface EmailSite {
+	name: string;
+	/** Public URL without a trailing slash; links in messages start with it */
+	url: string;
+}
+
+interface EmailContent {
+	subject: string;
+	paragraphs: string[];
+	action?: { label: string; url: string };
+	/** Quoted text, e.g. a comment, shown after the paragraphs */
+	quote?: string;
+}
+
+export interface RenderedEmail {
+	subject: string;
+	text: string;
+	html: string;
+}
+
+export const EMAIL_TEMPLATES = {
+	new_comment: (data: { postTitle: string; postUrl: string; commenter: string; content: string }, site: EmailSite) => ({
+		subject: `[${site.name}] New comment on "${data.postTitle}"`,
+		paragraphs: [`${data.commenter} commented on your post "${data.postTitle}":`],
+		quote: data.content,
+		action: { label: "View the comment", url: data.postUrl },
+	}),
+
+	comment_moderation: (
+		data: { postTitle: string; commenter: string; commenterEmail?: string | null; content: string; moderationUrl: string },
+		site: EmailSite,
+	) => ({
+		subject: `[${site.name}] Please moderate: "${data.postTitle}"`,
+		paragraphs: [
+			`A new comment on "${data.postTitle}" is waiting for your approval.`,
+			data.commenterEmail ? `Author: ${data.commenter} (${data.commenterEmail})` : `Author: ${data.commenter}`,
+		],
+		quote: data.content,
+		action: { label: "Moderate comments", url: data.moderationUrl },
+	}),
+
+	password_reset: (data: { username: string; resetUrl: string; expiresInMinutes: number }, site: EmailSite) => ({
+		subject: `[${site.name}] Password reset`,
+		paragraphs: [
+			`Someone asked to reset the password of the account "${data.username}".`,
+			`The link below works once and expires in ${data.expiresInMinutes} minutes. If you didn't ask for this, you can ignore this email; your password stays the same.`,
+		],
+		action: { label: "Choose a new password", url: data.resetUrl },
+	}),
+
+	user_invitation: (data: { inviter: string; username: string; acceptUrl: string; expiresInDays: number }, site: EmailSite) => ({
+		subject: `[${site.name}] You're invited to join ${site.name}`,
+		paragraphs: [
+			`${data.inviter} invited you to ${site.name} as "${data.username}".`,
+			`Choose a password to activate your account. The invitation expires in ${data.expiresInDays} days.`,
+		],
+		action: { label: "Accept the invitation", url: data.acceptUrl },
+	}),
+
+	test: (_data: Record<string, never>, site: EmailSite) => ({
+		subject: `[${site.name}] Test email`,
+		paragraphs: [`Email from ${site.name} is working.`],
+	}),
+} satisfies Record<string, (data: never, site: EmailSite) => EmailContent>;
+
+export type EmailTemplateName = keyof typeof EMAIL_TEMPLATES;
+export type EmailTemplateData<N extends EmailTemplateName> = Parameters<(typeof EMAIL_TEMPLATES)[N]>[0];
+
+const escapeHtml = (value: string) =>
+	value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/**
+ * Renders a template for a site
+ *
+ * @example
+ * const { subject, text, html } = renderEmail('password_reset', { username, resetUrl, expiresInMinutes: 60 }, site);
+ */
+export function renderEmail<N extends EmailTemplateName>(
+	name: N,
+	data: EmailTemplateData<N>,
+	site: EmailSite,
+): RenderedEmail {
+	const content: EmailContent = (EMAIL_TEMPLATES[name] as (data: EmailTemplateData<N>, site: EmailSite) => EmailContent)(
+		data,
+		site,
+	);
+	const footer = site.url ? `${site.name} – ${site.url}` : site.name;
+
+	const text = [
+		...content.paragraphs,
+		...(content.quote ? [content.quote.replace(/^/gm, "> ")] : []),
+		...(content.action ? [`${content.action.label}: ${content.action.url}`] : []),
+		`-- \n${footer}`,
+	].join("\n\n");
+
+	const html = [
+		'<div style="font-family:-apple-system,BlinkMacSystemFont,\'Segoe UI\',Roboto,sans-serif;font-size:15px;line-height:1.5;color:#1e1e1e;max-width:560px">',
+		...content.paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+		...(content.quote
+			? [
+					`<blockquote style="margin:16px 0;padding:8px 16px;border-left:3px solid #ddd;color:#555">${escapeHtml(content.quote).replace(/\n/g, "<br>")}</blockquote>`,
+				]
+			: []),
+		...(content.action
+			? [
+					`<p><a href="${escapeHtml(content.action.url)}" style="display:inline-block;padding:10px 18px;background:#2271b1;color:#fff;text-decoration:none;border-radius:4px">${escapeHtml(content.action.label)}</a></p>`,
+				]
+			: []),
+		`<p style="margin-top:32px;font-size:13px;color:#757575">${escapeHtml(footer)}</p>`,
+		"</div>",
+	].join("\n");
+
+	return { subject: content.subject, text, html };
+}
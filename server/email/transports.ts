@@ -0,0 +1,125 @@
+/**
+ * Mail transports: how a rendered message leaves the server. `smtp` sends
+ * through the server in CONFIG.EMAIL.SMTP; `file` writes .eml files and
+ * `console` logs messages, both for development. CONFIG.EMAIL.TRANSPORT
+ * picks one by name; plugins can add their own with registerMailTransport.
+ */
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import nodemailer from "nodemailer";
+import { CONFIG } from "../config.js";
+
+export interface MailMessage {
+	from: string;
+	to: string;
+	subject: string;
+	text: string;
+	html?: string | null;
+}
+
+export interface MailTransport {
+	readonly name: string;
+	/** Sends a message; rejects when it could not be handed over */
+	send(message: MailMessage): Promise<{ messageId: string }>;
+}
+
+const toNodemailer = (message: MailMessage) => ({
+	from: message.from,
+	to: message.to,
+	subject: message.subject,
+	text: message.text,
+	html: message.html ?? undefined,
+});
+
+/**
+ * Sends through an SMTP server; STARTTLS is used when the server offers it
+ * @param options - Defaults to CONFIG.EMAIL.SMTP
+ */
+export function createSmtpTransport(
+	options: { host: string; port: number; secure?: boolean; user?: string; password?: string } = {
+		host: CONFIG.EMAIL.SMTP.HOST,
+		port: CONFIG.EMAIL.SMTP.PORT,
+		secure: CONFIG.EMAIL.SMTP.SECURE,
+		user: CONFIG.EMAIL.SMTP.USER,
+		password: CONFIG.EMAIL.SMTP.PASSWORD,
+	},
+): MailTransport {
+	const transporter = nodemailer.createTransport({
+		host: options.host,
+		port: options.port,
+		secure: options.secure ?? false,
+		auth: options.user ? { user: options.user, pass: options.password } : undefined,
+	});
+	return {
+		name: "smtp",
+		async send(message) {
+			const info = await transporter.sendMail(toNodemailer(message));
+			return { messageId: info.messageId };
+		},
+	};
+}
+
+/**
+ * Writes every message as an .eml file, which mail clients open as-is
+ * @param directory - Defaults to CONFIG.EMAIL.FILE_DIRECTORY
+ */
+export function createFileTransport(directory: string = CONFIG.EMAIL.FILE_DIRECTORY): MailTransport {
+	const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+	return {
+		name: "file",
+		async send(message) {
+			const info = await transporter.sendMail(toNodemailer(message));
+			await fs.mkdir(directory, { recursive: true });
+			const file = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID()}.eml`);
+			await fs.writeFile(file, info.message as Buffer);
+			return { messageId: info.messageId };
+		},
+	};
+}
+
+/** Logs the text part of every message */
+export function createConsoleTransport(): MailTransport {
+	return {
+		name: "console",
+		async send(message) {
+			const messageId = `<${randomUUID()}@console>`;
+			console.log(`[Email] To: ${message.to}\n[Email] Subject: ${message.subject}\n\n${message.text}\n`);
+			return { messageId };
+		},
+	};
+}
+
+const factories = new Map<string, () => MailTransport>([
+	["smtp", () => createSmtpTransport()],
+	["file", () => createFileTransport()],
+	["console", createConsoleTransport],
+]);
+
+let current: MailTransport | null = null;
+
+/**
+ * Makes a transport available under a name for CONFIG.EMAIL.TRANSPORT
+ *
+ * @example
+ * registerMailTransport('postmark', () => ({ name: 'postmark', send: (message) => postmark.send(message) }));
+ */
+export function registerMailTransport(name: string, factory: () => MailTransport) {
+	factories.set(name, factory);
+	if (current?.name === name) current = null;
+}
+
+/** The transport messages are sent with, created on first use */
+export function getMailTransport(): MailTransport {
+	if (!current) {
+		const factory = factories.get(CONFIG.EMAIL.TRANSPORT);
+		if (!factory) throw new Error(`Unknown mail transport "${CONFIG.EMAIL.TRANSPORT}"`);
+		current = factory();
+	}
+	return current;
+}
+
+/** Replaces the transport in use; null goes back to the configured one */
+export function setMailTransport(transport: MailTransport | null) {
+	current = transport;
+}
@@ -0,0 +1,67 @@
+import dotenv from 'dotenv';
+import { initDevDatabase } from './db';
+import { initializeDefaultThemes } from './themes';
+import { exportStaticSite } from './static-export';
+
+dotenv.config();
+
+const USAGE = `Usage: export [--out <dir>] [--base-url <url>]
+
+Writes every published page, post, blog index and the post archive as static
+HTML into <dir> (default: exports/static).
+
+Options:
+  --out <dir>        Output directory
+  --base-url <url>   Public URL of the exported site (default: general.siteUrl)
+  -h, --help         Show this help`;
+
+function parseArgs(argv: string[]) {
+  const options: { outDir: string; siteUrl?: string } = { outDir: 'exports/static' };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--out':
+      case '--base-url': {
+        const value = argv[++i];
+        if (!value) {
+          throw new Error(`${arg} requires a value`);
+        }
+        if (arg === '--out') options.outDir = value;
+        else options.siteUrl = value;
+        break;
+      }
+      case '-h':
+      case '--help':
+        console.log(USAGE);
+        process.exit(0);
+      default:
+        throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Static export entry point (`pnpm export` / `nextpress export`).
+ * Renders against the configured database without starting the HTTP server.
+ */
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  await initDevDatabase();
+  await initializeDefaultThemes().catch(console.error);
+
+  const result = await exportStaticSite(options);
+  console.log(
+    `[Export] Wrote ${result.files.length} HTML files (${result.pages} pages, ${result.posts} posts, ${result.blogs} blogs) and ${result.assets} assets to ${result.outDir} in ${result.durationMs}ms`
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(`[Export] ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  });
@@ -0,0 +1,158 @@
+/**
+ * RSS 2.0 and Atom 1.0 feed builders.
+ * Both formats are rendered from the same channel/item shape so the routes only
+ * gather data once.
+ */
+import { escapeXml } from "./sitemap";
+
+export interface FeedEnclosure {
+	url: string;
+	type: string;
+	/** Size in bytes; 0 when unknown (RSS requires the attribute) */
+	length: number;
+}
+
+export interface FeedItem {
+	title: string;
+	link: string;
+	/** Stable identifier; the permalink is used when omitted */
+	id?: string;
+	/** Full HTML body */
+	content?: string | null;
+	/** Plain-text or short HTML summary */
+	summary?: string | null;
+	published?: Date | null;
+	updated?: Date | null;
+	author?: string | null;
+	categories?: string[];
+	enclosure?: FeedEnclosure | null;
+}
+
+export interface FeedChannel {
+	title: string;
+	description?: string | null;
+	/** HTML page the feed belongs to */
+	link: string;
+	/** Absolute URL of the feed document itself */
+	feedUrl: string;
+	language?: string;
+	updated?: Date | null;
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	png: "image/png",
+	gif: "image/gif",
+	webp: "image/webp",
+	svg: "image/svg+xml",
+	avif: "image/avif",
+};
+
+/**
+ * Guesses an enclosure MIME type from the file extension of a URL
+ */
+export function guessMimeType(url: string): string {
+	const extension = url.split(/[?#]/)[0].split(".").pop()?.toLowerCase() ?? "";
+	return IMAGE_TYPES[extension] ?? "application/octet-stream";
+}
+
+// CDATA sections cannot contain "]]>", so split it across two sections
+function cdata(value: string): string {
+	return `<![CDATA[${value.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+function latest(items: FeedItem[], fallback?: Date | null): Date {
+	const dates = items
+		.map((item) => item.updated ?? item.published)
+		.filter((date): date is Date => !!date)
+		.map((date) => date.getTime());
+	if (fallback) dates.push(fallback.getTime());
+	return dates.length ? new Date(Math.max(...dates)) : new Date();
+}
+
+/**
+ * Renders an RSS 2.0 document. Full HTML goes to `content:encoded`, the
+ * summary (or content) to `description`.
+ */
+export function buildRssFeed(channel: FeedChannel, items: FeedItem[]): string {
+	const entries = items.map((item) => {
+		const parts = [
+			`<title>${escapeXml(item.title)}</title>`,
+			`<link>${escapeXml(item.link)}</link>`,
+			`<guid isPermaLink="${item.id ? "false" : "true"}">${escapeXml(item.id ?? item.link)}</guid>`,
+		];
+		if (item.published) parts.push(`<pubDate>${item.published.toUTCString()}</pubDate>`);
+		if (item.author) parts.push(`<dc:creator>${escapeXml(item.author)}</dc:creator>`);
+		for (const category of item.categories ?? []) {
+			parts.push(`<category>${escapeXml(category)}</category>`);
+		}
+		const description = item.summary || item.content;
+		if (description) parts.push(`<description>${cdata(description)}</description>`);
+		if (item.content) parts.push(`<content:encoded>${cdata(item.content)}</content:encoded>`);
+		if (item.enclosure) {
+			parts.push(
+				`<enclosure url="${escapeXml(item.enclosure.url)}" length="${item.enclosure.length}" type="${escapeXml(item.enclosure.type)}"/>`,
+			);
+		}
+		return `<item>${parts.join("")}</item>`;
+	});
+
+	return [
+		`<?xml version="1.0" encoding="UTF-8"?>`,
+		`<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">`,
+		`<channel>`,
+		`<title>${escapeXml(channel.title)}</title>`,
+		`<link>${escapeXml(channel.link)}</link>`,
+		`<description>${escapeXml(channel.description ?? "")}</description>`,
+		`<atom:link href="${escapeXml(channel.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+		`<language>${escapeXml(channel.language ?? "en")}</language>`,
+		`<lastBuildDate>${latest(items, channel.updated).toUTCString()}</lastBuildDate>`,
+		...entries,
+		`</channel>`,
+		`</rss>`,
+	].join("\n");
+}
+
+/**
+ * Renders an Atom 1.0 document. Enclosures become `rel="enclosure"` links.
+ */
+export function buildAtomFeed(channel: FeedChannel, items: FeedItem[]): string {
+	const entries = items.map((item) => {
+		const updated = item.updated ?? item.published ?? new Date();
+		const parts = [
+			`<title>${escapeXml(item.title)}</title>`,
+			`<link rel="alternate" type="text/html" href="${escapeXml(item.link)}"/>`,
+			`<id>${escapeXml(item.id ?? item.link)}</id>`,
+			`<updated>${updated.toISOString()}</updated>`,
+		];
+		if (item.published) parts.push(`<published>${item.published.toISOString()}</published>`);
+		if (item.author) parts.push(`<author><name>${escapeXml(item.author)}</name></author>`);
+		for (const category of item.categories ?? []) {
+			parts.push(`<category term="${escapeXml(category)}"/>`);
+		}
+		if (item.summary) parts.push(`<summary type="html">${escapeXml(item.summary)}</summary>`);
+		if (item.content) parts.push(`<content type="html">${escapeXml(item.content)}</content>`);
+		if (item.enclosure) {
+			parts.push(
+				`<link rel="enclosure" href="${escapeXml(item.enclosure.url)}" type="${escapeXml(item.enclosure.type)}" length="${item.enclosure.length}"/>`,
+			);
+		}
+		return `<entry>${parts.join("")}</entry>`;
+	});
+
+	return [
+		`<?xml version="1.0" encoding="UTF-8"?>`,
+		`<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${escapeXml(channel.language ?? "en")}">`,
+		`<title>${escapeXml(channel.title)}</title>`,
+		channel.description ? `<subtitle>${escapeXml(channel.description)}</subtitle>` : "",
+		`<link rel="alternate" type="text/html" href="${escapeXml(channel.link)}"/>`,
+		`<link rel="self" type="application/atom+xml" href="${escapeXml(channel.feedUrl)}"/>`,
+		`<id>${escapeXml(channel.feedUrl)}</id>`,
+		`<updated>${latest(items, channel.updated).toISOString()}</updated>`,
+		...entries,
+		`</feed>`,
+	]
+		.filter(Boolean)
+		.join("\n");
+}
@@ -0,0 +1,139 @@
+/**
+ * Request-scoped batching for GraphQL resolvers. Every `load` made while a
+ * query level resolves is collected and answered with one `in` query, so a
+ * list of fifty posts asking for their authors reads the users table once
+ * instead of fifty times. Results are cached for the rest of the request.
+ */
+import type { Comment } from "@shared/schema-types";
+import type { models } from "../storage.js";
+
+export type GraphqlModels = Pick<
+	typeof models,
+	"sites" | "pages" | "posts" | "blogs" | "comments" | "media" | "users" | "templates" | "searchIndex"
+>;
+
+export interface BatchLoader<V> {
+	load(key: string): Promise<V | undefined>;
+	loadMany(keys: readonly string[]): Promise<Array<V | undefined>>;
+	/** Adds a value fetched some other way, so later loads of it skip the database */
+	prime(key: string, value: V): void;
+}
+
+// Most keys one batch query asks for; larger batches are split
+const MAX_BATCH_SIZE = 500;
+
+/**
+ * Creates a loader that calls `batch` once per tick with every key requested
+ * in it. `batch` returns the values found by key; missing keys load as undefined.
+ *
+ * @example
+ * const users = createBatchLoader(async (ids) => byId(await models.users.findManyWhere([{ where: 'id', in: ids }])));
+ * const [a, b] = await Promise.all([users.load(idA), users.load(idB)]); // one query
+ */
+export function createBatchLoader<V>(batch: (keys: string[]) => Promise<Map<string, V>>): BatchLoader<V> {
+	const cache = new Map<string, Promise<V | undefined>>();
+	let queue: Array<{ key: string; resolve: (value: V | undefined) => void; reject: (error: unknown) => void }> = [];
+
+	const dispatch = async () => {
+		const pending = queue;
+		queue = [];
+		for (let start = 0; start < pending.length; start += MAX_BATCH_SIZE) {
+			const chunk = pending.slice(start, start + MAX_BATCH_SIZE);
+			try {
+				const found = await batch(chunk.map((entry) => entry.key));
+				for (const entry of chunk) entry.resolve(found.get(entry.key));
+			} catch (error) {
+				for (const entry of chunk) {
+					// A failed load isn't cached, so a later request may retry it
+					cache.delete(entry.key);
+					entry.reject(error);
+				}
+			}
+		}
+	};
+
+	const loader: BatchLoader<V> = {
+		load(key) {
+			const cached = cache.get(key);
+			if (cached) return cached;
+
+			const promise = new Promise<V | undefined>((resolve, reject) => {
+				// Resolvers of sibling fields run across several microtask turns; waiting for
+				// the next macrotask lets all of them queue their keys before the query runs
+				if (queue.length === 0) setImmediate(() => void dispatch());
+				queue.push({ key, resolve, reject });
+			});
+			cache.set(key, promise);
+			return promise;
+		},
+		loadMany(keys) {
+			return Promise.all(keys.map((key) => loader.load(key)));
+		},
+		prime(key, value) {
+			if (!cache.has(key)) cache.set(key, Promise.resolve(value));
+		},
+	};
+	return loader;
+}
+
+function byKey<T>(rows: T[], key: (row: T) => string | null | undefined): Map<string, T> {
+	const map = new Map<string, T>();
+	for (const row of rows) {
+		const value = key(row);
+		if (value) map.set(value, row);
+	}
+	return map;
+}
+
+function groupBy<T>(rows: T[], key: (row: T) => string | null | undefined): Map<string, T[]> {
+	const map = new Map<string, T[]>();
+	for (const row of rows) {
+		const value = key(row);
+		if (!value) continue;
+		const group = map.get(value);
+		if (group) group.push(row);
+		else map.set(value, [row]);
+	}
+	return map;
+}
+
+interface FindsByIds<T extends { id: string }> {
+	findManyWhere(where: Array<{ where: string; in: unknown[] }>, options: { limit: number }): Promise<T[]>;
+}
+
+const idLoader = <T extends { id: string }>(model: FindsByIds<T>) =>
+	createBatchLoader(async (ids) => byKey(await model.findManyWhere([{ where: "id", in: ids }], { limit: ids.length }), (row) => row.id));
+
+// Upper bound for the approved comments loaded per batch of posts
+const MAX_COMMENTS = 5000;
+
+/**
+ * The loaders of one GraphQL request. Create a new set per request: loaded
+ * records are cached and a later request must not see stale ones.
+ */
+export function createLoaders(modelsObj: GraphqlModels) {
+	return {
+		sites: idLoader(modelsObj.sites),
+		pages: idLoader(modelsObj.pages),
+		posts: idLoader(modelsObj.posts),
+		blogs: idLoader(modelsObj.blogs),
+		media: idLoader(modelsObj.media),
+		users: idLoader(modelsObj.users),
+		templates: idLoader(modelsObj.templates),
+		/** Approved comments of a post, oldest first */
+		approvedComments: createBatchLoader<Comment[]>(async (postIds) =>
+			groupBy(
+				await modelsObj.comments.findManyWhere(
+					[
+						{ where: "postId", in: postIds },
+						{ where: "status", equals: "approved" },
+					],
+					{ limit: MAX_COMMENTS, orderBy: { property: "createdAt", order: "ascending" } },
+				),
+				(comment) => comment.postId,
+			),
+		),
+	};
+}
+
+export type Loaders = ReturnType<typeof createLoaders>;
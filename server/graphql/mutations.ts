@@ -0,0 +1,391 @@
+/**
+ * GraphQL mutations. Each one checks the capabilities its REST route
+ * requires and runs the same save pipeline: schedule resolution, the
+ * `pre_save_post` filter (whose vetoes become VETOED errors), versioned
+ * updates and the save/publish/delete actions plugins and webhooks listen to.
+ */
+import {
+	GraphQLBoolean,
+	GraphQLID,
+	GraphQLInputObjectType,
+	GraphQLInt,
+	GraphQLNonNull,
+	GraphQLString,
+	type GraphQLFieldConfigMap,
+} from "graphql";
+import { ZodError } from "zod";
+import type { Page, Post } from "@shared/schema-types";
+import { CONFIG } from "../config.js";
+import { HookVetoError } from "../hooks.js";
+import {
+	COMMENT_RATE_LIMIT_MESSAGE,
+	CommentSubmissionError,
+	commentRateLimiter,
+	submitComment,
+} from "../comment-submission.js";
+import { resolveSchedule } from "../publishing.js";
+import { appendRevision } from "../revisions.js";
+import { generateSlug, INVALID_SLUG_MESSAGE, isValidSlug } from "../routes/shared/slug.js";
+import {
+	CommentStatusEnum,
+	CommentType,
+	DateTimeScalar,
+	JSONScalar,
+	PageType,
+	PostType,
+	authorize,
+	graphqlError,
+	isUuid,
+	type ErrorCode,
+	type GraphqlContext,
+} from "./types.js";
+
+// Fields posts and pages share in their inputs
+const contentInputFields = {
+	title: { type: GraphQLString, description: "Required when creating" },
+	slug: { type: GraphQLString, description: "Generated from the title when left out" },
+	status: { type: GraphQLString, description: "publish, future, draft, private or trash" },
+	featuredImage: { type: GraphQLString },
+	publishedAt: { type: DateTimeScalar },
+	expiresAt: { type: DateTimeScalar },
+	allowComments: { type: GraphQLBoolean },
+	templateId: { type: GraphQLID },
+	blocks: { type: JSONScalar },
+};
+
+const PostInputType = new GraphQLInputObjectType({
+	name: "PostInput",
+	fields: {
+		...contentInputFields,
+		excerpt: { type: GraphQLString },
+		blogId: { type: GraphQLID },
+	},
+});
+
+const PageInputType = new GraphQLInputObjectType({
+	name: "PageInput",
+	fields: {
+		...contentInputFields,
+		siteId: { type: GraphQLID, description: "Defaults to the default site" },
+		parentId: { type: GraphQLID },
+		menuOrder: { type: GraphQLInt },
+	},
+});
+
+const CommentInputType = new GraphQLInputObjectType({
+	name: "CommentInput",
+	fields: {
+		postId: { type: new GraphQLNonNull(GraphQLID) },
+		content: { type: new GraphQLNonNull(GraphQLString) },
+		parentId: { type: GraphQLID },
+		authorName: { type: GraphQLString, description: "Ignored for signed-in users" },
+		authorEmail: { type: GraphQLString, description: "Ignored for signed-in users" },
+		formToken: { type: GraphQLString, description: "Post.commentFormToken; required for anonymous comments" },
+	},
+});
+
+type ContentInput = Record<string, unknown> & {
+	title?: string | null;
+	slug?: string | null;
+	status?: string | null;
+	publishedAt?: Date | null;
+	expiresAt?: Date | null;
+	siteId?: string | null;
+};
+
+interface ContentModel<T> {
+	findById(id: string): Promise<T | undefined>;
+	create(data: any): Promise<T>;
+	updateVersioned(id: string, expectedVersion: number, data: any): Promise<T | undefined>;
+	delete(id: string): Promise<unknown>;
+}
+
+/** What differs between post and page mutations */
+interface ContentKind<T extends Post | Page> {
+	type: "post" | "page";
+	label: string;
+	model: (context: GraphqlContext) => ContentModel<T>;
+	schemas: (context: GraphqlContext) => GraphqlContext["schemas"]["posts"];
+	capabilities: { edit: string; editOthers: string; publish: string; delete: string; deleteOthers: string };
+	/** Fills in fields the kind requires on create, e.g. a page's site */
+	prepare?: (context: GraphqlContext, data: ContentInput) => Promise<ContentInput>;
+	/** Site a record (or create input) belongs to; capabilities are checked there */
+	siteOf: (context: GraphqlContext, record: { siteId?: string | null; blogId?: string | null }) => Promise<string | undefined>;
+	/** Rejects a slug another record of the kind already uses */
+	checkSlug?: (context: GraphqlContext, data: ContentInput, existing: T | null) => Promise<void>;
+}
+
+const postKind: ContentKind<Post> = {
+	type: "post",
+	label: "Post",
+	model: (context) => context.models.posts as unknown as ContentModel<Post>,
+	schemas: (context) => context.schemas.posts,
+	capabilities: {
+		edit: "edit_posts",
+		editOthers: "edit_others_posts",
+		publish: "publish_posts",
+		delete: "delete_posts",
+		deleteOthers: "delete_others_posts",
+	},
+	// The site of the post's blog; posts outside a blog belong to the default site
+	async siteOf(context, post) {
+		const blog = typeof post.blogId === "string" && isUuid(post.blogId) ? await context.loaders.blogs.load(post.blogId) : null;
+		return blog?.siteId ?? (await context.models.sites.findDefaultSite())?.id;
+	},
+};
+
+const pageKind: ContentKind<Page> = {
+	type: "page",
+	label: "Page",
+	model: (context) => context.models.pages as unknown as ContentModel<Page>,
+	schemas: (context) => context.schemas.pages,
+	capabilities: {
+		edit: "edit_pages",
+		editOthers: "edit_others_pages",
+		publish: "publish_pages",
+		delete: "delete_pages",
+		deleteOthers: "delete_others_pages",
+	},
+	async siteOf(context, page) {
+		return page.siteId ?? (await context.models.sites.findDefaultSite())?.id;
+	},
+	async prepare(context, data) {
+		if (data.siteId) return data;
+		const site = await context.models.sites.findDefaultSite();
+		if (!site) throw graphqlError("No site found. Please create a site first.", "BAD_USER_INPUT");
+		return { ...data, siteId: site.id };
+	},
+	async checkSlug(context, data, existing) {
+		const slug = data.slug ?? existing?.slug;
+		const siteId = data.siteId ?? existing?.siteId;
+		if (!slug || !siteId || (existing && slug === existing.slug)) return;
+		const taken = await context.models.pages.findBySiteAndSlug(siteId, slug);
+		if (taken && taken.id !== existing?.id) {
+			throw graphqlError(`Slug "${slug}" already exists for this site`, "BAD_USER_INPUT");
+		}
+	},
+};
+
+/** Runs a save, turning validation errors and plugin vetoes into GraphQL errors */
+async function saving<T>(run: () => Promise<T>): Promise<T> {
+	try {
+		return await run();
+	} catch (error) {
+		if (error instanceof HookVetoError) throw graphqlError(error.message, "VETOED", { status: error.status });
+		if (error instanceof ZodError) {
+			throw graphqlError("Invalid input", "BAD_USER_INPUT", { issues: error.errors });
+		}
+		throw error;
+	}
+}
+
+const goesLive = (status: string | undefined) => status === CONFIG.STATUS.PUBLISH || status === CONFIG.STATUS.FUTURE;
+
+// Input fields sent as null clear the column; fields left out keep it
+const definedFields = (input: ContentInput): ContentInput =>
+	Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+
+function contentMutations<T extends Post | Page>(kind: ContentKind<T>, type: typeof PostType | typeof PageType, inputType: GraphQLInputObjectType) {
+	const { label, capabilities } = kind;
+
+	const loadExisting = async (context: GraphqlContext, id: string) => {
+		const existing = isUuid(id) ? await kind.model(context).findById(id) : undefined;
+		if (!existing) throw graphqlError(`${label} not found`, "NOT_FOUND");
+		return existing;
+	};
+
+	const create = async (context: GraphqlContext, input: ContentInput): Promise<T> => {
+		const siteId = await kind.siteOf(context, input);
+		await authorize(context, capabilities.edit, { siteId });
+		const schedule = resolveSchedule(input);
+		if (schedule.error) throw graphqlError(schedule.error, "BAD_USER_INPUT");
+		if (goesLive(schedule.status) && !(await context.can(capabilities.publish, siteId))) {
+			throw graphqlError(`Forbidden: missing capability '${capabilities.publish}'`, "FORBIDDEN");
+		}
+		if (!input.title?.trim()) throw graphqlError("Title is required", "BAD_USER_INPUT");
+		if (input.slug && !isValidSlug(input.slug)) throw graphqlError(INVALID_SLUG_MESSAGE, "BAD_USER_INPUT");
+
+		let data: ContentInput = {
+			...definedFields(input),
+			...(schedule.status ? { status: schedule.status } : {}),
+			slug: input.slug || generateSlug(input.title),
+			authorId: context.userId,
+		};
+		if (kind.prepare) data = await kind.prepare(context, data);
+		await kind.checkSlug?.(context, data, null);
+
+		return saving(async () => {
+			const parsed = kind.schemas(context).insert.parse(data);
+			const filtered = await context.hooks.applyFiltersAsync("pre_save_post", parsed, { type: kind.type, existing: null });
+			const record = await kind.model(context).create(filtered);
+			await context.hooks.doActionAsync("save_post", record);
+			if (record.status === CONFIG.STATUS.PUBLISH) await context.hooks.doActionAsync("publish_post", record);
+			return record;
+		});
+	};
+
+	const update = async (context: GraphqlContext, id: string, input: ContentInput, version?: number | null): Promise<T> => {
+		const existing = await loadExisting(context, id);
+		const siteId = await kind.siteOf(context, existing);
+		await authorize(context, capabilities.edit, { others: capabilities.editOthers, ownerId: existing.authorId, siteId });
+		if (version != null && version !== existing.version) {
+			throw graphqlError(`This ${kind.type} was changed by someone else since you opened it`, "CONFLICT", {
+				currentVersion: existing.version,
+			});
+		}
+
+		const changes = definedFields(input);
+		if (changes.siteId && changes.siteId !== siteId) {
+			throw graphqlError("The record belongs to another site", "BAD_USER_INPUT");
+		}
+		if (changes.slug !== undefined && !isValidSlug(changes.slug)) throw graphqlError(INVALID_SLUG_MESSAGE, "BAD_USER_INPUT");
+		const schedule = resolveSchedule(changes, existing);
+		if (schedule.error) throw graphqlError(schedule.error, "BAD_USER_INPUT");
+		if (schedule.status) changes.status = schedule.status;
+		// Publishing, scheduling or rescheduling needs the publish capability
+		if (
+			goesLive(schedule.status) &&
+			schedule.status !== existing.status &&
+			!(await context.can(capabilities.publish, siteId))
+		) {
+			throw graphqlError(`Forbidden: missing capability '${capabilities.publish}'`, "FORBIDDEN");
+		}
+		await kind.checkSlug?.(context, changes, existing);
+
+		return saving(async () => {
+			const parsed = kind.schemas(context).update.parse(changes);
+			const filtered = await context.hooks.applyFiltersAsync(
+				"pre_save_post",
+				{ ...parsed, ...appendRevision(existing) },
+				{ type: kind.type, existing },
+			);
+			const record = await kind.model(context).updateVersioned(existing.id, existing.version, filtered);
+			if (!record) {
+				throw graphqlError(`This ${kind.type} was changed by someone else since you opened it`, "CONFLICT");
+			}
+			await context.hooks.doActionAsync("save_post", record);
+			if (existing.status !== CONFIG.STATUS.PUBLISH && record.status === CONFIG.STATUS.PUBLISH) {
+				await context.hooks.doActionAsync("publish_post", record);
+			}
+			return record;
+		});
+	};
+
+	const remove = async (context: GraphqlContext, id: string): Promise<string> => {
+		const existing = await loadExisting(context, id);
+		await authorize(context, capabilities.delete, {
+			others: capabilities.deleteOthers,
+			ownerId: existing.authorId,
+			siteId: await kind.siteOf(context, existing),
+		});
+		await kind.model(context).delete(existing.id);
+		context.hooks.doAction("delete_post", existing.id);
+		return existing.id;
+	};
+
+	const fields: GraphQLFieldConfigMap<unknown, GraphqlContext> = {
+		[`create${label}`]: {
+			type: new GraphQLNonNull(type),
+			description: `Requires ${capabilities.edit}; publishing or scheduling also ${capabilities.publish}`,
+			args: { input: { type: new GraphQLNonNull(inputType) } },
+			resolve: (_root, { input }, context) => create(context, input),
+		},
+		[`update${label}`]: {
+			type: new GraphQLNonNull(type),
+			description: `Requires ${capabilities.edit}, and ${capabilities.editOthers} for other authors. A stale \`version\` is a CONFLICT.`,
+			args: {
+				id: { type: new GraphQLNonNull(GraphQLID) },
+				input: { type: new GraphQLNonNull(inputType) },
+				version: { type: GraphQLInt, description: "Version the edit was made against" },
+			},
+			resolve: (_root, { id, input, version }, context) => update(context, id, input, version),
+		},
+		[`delete${label}`]: {
+			type: new GraphQLNonNull(GraphQLID),
+			description: `Requires ${capabilities.delete}, and ${capabilities.deleteOthers} for other authors. Returns the deleted ID.`,
+			args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+			resolve: (_root, { id }, context) => remove(context, id),
+		},
+	};
+	return fields;
+}
+
+// Error codes for the HTTP statuses submitComment refuses with
+const SUBMISSION_ERROR_CODES: Record<number, ErrorCode> = { 403: "FORBIDDEN", 404: "NOT_FOUND", 429: "RATE_LIMITED" };
+
+const commentMutations: GraphQLFieldConfigMap<unknown, GraphqlContext> = {
+	createComment: {
+		type: new GraphQLNonNull(CommentType),
+		description:
+			"Open to everyone, with the checks and spam scoring of POST /api/comments. Anonymous comments need the post's commentFormToken.",
+		args: { input: { type: new GraphQLNonNull(CommentInputType) } },
+		async resolve(_root, { input }, context) {
+			const retryAfter = commentRateLimiter.consume(context.ip ?? "unknown");
+			if (retryAfter) throw graphqlError(COMMENT_RATE_LIMIT_MESSAGE, "RATE_LIMITED", { retryAfter });
+
+			try {
+				const { comment } = await submitComment(context.models, context.hooks, input, {
+					userId: context.userId,
+					canModerate: !!context.userId && (await context.can("moderate_comments")),
+					ip: context.ip,
+					userAgent: context.userAgent,
+				});
+				context.hooks.doAction("new_comment", comment);
+				return comment;
+			} catch (error) {
+				if (error instanceof CommentSubmissionError) {
+					throw graphqlError(error.message, SUBMISSION_ERROR_CODES[error.status] ?? "BAD_USER_INPUT");
+				}
+				if (error instanceof HookVetoError) throw graphqlError(error.message, "VETOED", { status: error.status });
+				throw error;
+			}
+		},
+	},
+	moderateComment: {
+		type: new GraphQLNonNull(CommentType),
+		description: "Requires moderate_comments",
+		args: {
+			id: { type: new GraphQLNonNull(GraphQLID) },
+			status: { type: new GraphQLNonNull(CommentStatusEnum) },
+		},
+		async resolve(_root, { id, status }, context) {
+			await authorize(context, "moderate_comments");
+			const existing = isUuid(id) ? await context.models.comments.findById(id) : undefined;
+			if (!existing) throw graphqlError("Comment not found", "NOT_FOUND");
+
+			// Same actions as the REST approve/spam/update endpoints
+			if (status === CONFIG.COMMENT_STATUS.APPROVED) {
+				const comment = await context.models.comments.approve(existing.id);
+				context.hooks.doAction("approve_comment", comment);
+				return comment;
+			}
+			if (status === CONFIG.COMMENT_STATUS.SPAM) {
+				const comment = await context.models.comments.spam(existing.id);
+				context.hooks.doAction("spam_comment", comment);
+				return comment;
+			}
+			const comment = await context.models.comments.update(existing.id, { status });
+			context.hooks.doAction("edit_comment", comment);
+			return comment;
+		},
+	},
+	deleteComment: {
+		type: new GraphQLNonNull(GraphQLID),
+		description: "Requires moderate_comments. Returns the deleted ID.",
+		args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+		async resolve(_root, { id }, context) {
+			await authorize(context, "moderate_comments");
+			const existing = isUuid(id) ? await context.models.comments.findById(id) : undefined;
+			if (!existing) throw graphqlError("Comment not found", "NOT_FOUND");
+			await context.models.comments.delete(existing.id);
+			context.hooks.doAction("delete_comment", existing.id);
+			return existing.id;
+		},
+	},
+};
+
+export const mutationFields: GraphQLFieldConfigMap<unknown, GraphqlContext> = {
+	...contentMutations(postKind, PostType, PostInputType),
+	...contentMutations(pageKind, PageType, PageInputType),
+	...commentMutations,
+};
@@ -0,0 +1,296 @@
+/**
+ * The GraphQL API served at /graphql while `system.graphqlEnabled` is on.
+ * Queries read sites, pages, posts, blogs, comments, media, users and
+ * templates with the same visibility rules as the REST API; mutations are
+ * in mutations.ts.
+ *
+ * @example
+ * query {
+ *   posts(first: 10) {
+ *     nodes { title slug author { displayName } commentCount }
+ *     pageInfo { hasNextPage endCursor }
+ *   }
+ * }
+ */
+import {
+	GraphQLError,
+	GraphQLID,
+	GraphQLNonNull,
+	GraphQLObjectType,
+	GraphQLSchema,
+	GraphQLString,
+	execute,
+	getOperationAST,
+	parse,
+	validate,
+	type DocumentNode,
+	type ExecutionResult,
+	type GraphQLFieldConfigMap,
+} from "graphql";
+import type { Filter } from "@shared/create-models";
+import { CONFIG } from "../config.js";
+import { mutationFields } from "./mutations.js";
+import {
+	BlogConnectionType,
+	BlogType,
+	CommentConnectionType,
+	CommentStatusEnum,
+	ContentStatusEnum,
+	MediaConnectionType,
+	MediaType,
+	PageConnectionType,
+	PageType,
+	PostConnectionType,
+	PostType,
+	SiteConnectionType,
+	SiteType,
+	TemplateConnectionType,
+	TemplateType,
+	UserConnectionType,
+	UserType,
+	authorize,
+	canView,
+	isUuid,
+	listPages,
+	listPosts,
+	pageArgs,
+	pageListArgs,
+	paginate,
+	postListArgs,
+	requireSignIn,
+	statusFilters,
+	type GraphqlContext,
+} from "./types.js";
+
+// Looks a post or page up by ID or, failing that, by slug
+const lookupArgs = {
+	id: { type: GraphQLID },
+	slug: { type: GraphQLString },
+};
+
+const queryFields: GraphQLFieldConfigMap<unknown, GraphqlContext> = {
+	viewer: {
+		type: UserType,
+		description: "The signed-in user, or null",
+		resolve: (_root, _args, context) => (context.userId ? context.loaders.users.load(context.userId) : null),
+	},
+
+	site: {
+		type: SiteType,
+		description: "A site by ID; the default site when no ID is given",
+		args: { id: { type: GraphQLID } },
+		resolve: async (_root, { id }, context) => {
+			if (id === undefined || id === null) return context.models.sites.findDefaultSite();
+			return isUuid(id) ? context.loaders.sites.load(id) : null;
+		},
+	},
+	sites: {
+		type: new GraphQLNonNull(SiteConnectionType),
+		args: pageArgs,
+		resolve: (_root, args, context) =>
+			paginate(context.models.sites, [], args, { property: "createdAt", order: "ascending" }),
+	},
+
+	post: {
+		type: PostType,
+		args: lookupArgs,
+		resolve: async (_root, { id, slug }, context) => {
+			const post = isUuid(id)
+				? await context.loaders.posts.load(id)
+				: slug
+					? await context.models.posts.findBySlug(slug)
+					: undefined;
+			return (await canView(context, post, "edit_posts")) ? post : null;
+		},
+	},
+	posts: {
+		type: new GraphQLNonNull(PostConnectionType),
+		description: "Latest published first",
+		args: { ...postListArgs, blogId: { type: GraphQLID } },
+		resolve: (_root, args, context) =>
+			listPosts(context, args, isUuid(args.blogId) ? [{ where: "blogId", equals: args.blogId }] : []),
+	},
+
+	page: {
+		type: PageType,
+		args: { ...lookupArgs, siteId: { type: GraphQLID, description: "Site of a page looked up by slug" } },
+		resolve: async (_root, { id, slug, siteId }, context) => {
+			let page;
+			if (isUuid(id)) page = await context.loaders.pages.load(id);
+			else if (slug && isUuid(siteId)) page = await context.models.pages.findBySiteAndSlug(siteId, slug);
+			else if (slug) page = await context.models.pages.findBySlug(slug);
+			return (await canView(context, page, "edit_pages")) ? page : null;
+		},
+	},
+	pages: {
+		type: new GraphQLNonNull(PageConnectionType),
+		description: "In menu order",
+		args: { ...pageListArgs, siteId: { type: GraphQLID } },
+		resolve: (_root, args, context) =>
+			listPages(context, args, isUuid(args.siteId) ? [{ where: "siteId", equals: args.siteId }] : []),
+	},
+
+	blog: {
+		type: BlogType,
+		args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+		resolve: async (_root, { id }, context) => {
+			const blog = isUuid(id) ? await context.loaders.blogs.load(id) : undefined;
+			return (await canView(context, blog, "edit_pages")) ? blog : null;
+		},
+	},
+	blogs: {
+		type: new GraphQLNonNull(BlogConnectionType),
+		args: { ...pageArgs, status: { type: ContentStatusEnum, description: "Defaults to PUBLISH; others need edit_pages" } },
+		resolve: async (_root, args, context) =>
+			paginate(context.models.blogs, await statusFilters(context, args.status, "edit_pages"), args, {
+				property: "name",
+				order: "ascending",
+			}),
+	},
+
+	comments: {
+		type: new GraphQLNonNull(CommentConnectionType),
+		description: "Oldest first",
+		args: {
+			...pageArgs,
+			postId: { type: GraphQLID },
+			status: { type: CommentStatusEnum, description: "Defaults to APPROVED; others need moderate_comments" },
+		},
+		resolve: async (_root, args, context) => {
+			const status = args.status ?? CONFIG.COMMENT_STATUS.APPROVED;
+			if (status !== CONFIG.COMMENT_STATUS.APPROVED) await authorize(context, "moderate_comments");
+			const filters: Filter[] = [{ where: "status", equals: status }];
+			if (args.postId) {
+				// Comments of a post the viewer can't see aren't listed either
+				const post = isUuid(args.postId) ? await context.loaders.posts.load(args.postId) : undefined;
+				if (!(await canView(context, post, "edit_posts"))) filters.push({ where: "id", in: [] });
+				else filters.push({ where: "postId", equals: args.postId });
+			}
+			return paginate(context.models.comments, filters, args, { property: "createdAt", order: "ascending" });
+		},
+	},
+
+	mediaItem: {
+		type: MediaType,
+		args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+		resolve: (_root, { id }, context) => (isUuid(id) ? context.loaders.media.load(id) : null),
+	},
+	mediaItems: {
+		type: new GraphQLNonNull(MediaConnectionType),
+		description: "Newest first",
+		args: { ...pageArgs, mimeType: { type: GraphQLString } },
+		resolve: (_root, args, context) =>
+			paginate(
+				context.models.media,
+				args.mimeType ? [{ where: "mimeType", equals: args.mimeType }] : [],
+				args,
+				{ property: "createdAt", order: "descending" },
+			),
+	},
+
+	user: {
+		type: UserType,
+		description: "Requires signing in",
+		args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+		resolve: async (_root, { id }, context) => {
+			requireSignIn(context);
+			return isUuid(id) ? context.loaders.users.load(id) : null;
+		},
+	},
+	users: {
+		type: new GraphQLNonNull(UserConnectionType),
+		description: "Requires list_users",
+		args: pageArgs,
+		resolve: async (_root, args, context) => {
+			// Users are global, so the capability counts on the default site only
+			const site = await context.models.sites.findDefaultSite();
+			await authorize(context, "list_users", { siteId: site?.id });
+			return paginate(context.models.users, [], args, { property: "username", order: "ascending" });
+		},
+	},
+
+	template: {
+		type: TemplateType,
+		description: "Requires signing in",
+		args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+		resolve: async (_root, { id }, context) => {
+			requireSignIn(context);
+			return isUuid(id) ? context.loaders.templates.load(id) : null;
+		},
+	},
+	templates: {
+		type: new GraphQLNonNull(TemplateConnectionType),
+		description: "Requires signing in",
+		args: { ...pageArgs, type: { type: GraphQLString, description: "header, footer, page, post, archive or popup" } },
+		resolve: async (_root, args, context) => {
+			requireSignIn(context);
+			return paginate(
+				context.models.templates,
+				args.type ? [{ where: "type", equals: args.type }] : [],
+				args,
+				{ property: "name", order: "ascending" },
+			);
+		},
+	},
+};
+
+export const graphqlSchema = new GraphQLSchema({
+	query: new GraphQLObjectType({ name: "Query", fields: queryFields }),
+	mutation: new GraphQLObjectType({ name: "Mutation", fields: mutationFields }),
+});
+
+export interface GraphqlRequest {
+	query: string;
+	variables?: Record<string, unknown> | null;
+	operationName?: string | null;
+}
+
+/**
+ * Parses, validates and runs a request. Syntax and validation errors come
+ * back as `errors` without `data`; errors thrown by resolvers that aren't
+ * GraphQLErrors are logged and reported without their message.
+ *
+ * @param options.allowMutations - False for GET requests, which must not change anything
+ */
+export async function runGraphql(
+	request: GraphqlRequest,
+	context: GraphqlContext,
+	options: { allowMutations?: boolean } = {},
+): Promise<ExecutionResult> {
+	let document: DocumentNode;
+	try {
+		document = parse(request.query);
+	} catch (error) {
+		return { errors: [error as GraphQLError] };
+	}
+
+	const validationErrors = validate(graphqlSchema, document);
+	if (validationErrors.length > 0) return { errors: validationErrors };
+
+	const operation = getOperationAST(document, request.operationName ?? undefined);
+	if (operation?.operation === "mutation" && options.allowMutations === false) {
+		return { errors: [new GraphQLError("Mutations must be sent with POST")] };
+	}
+
+	const result = await execute({
+		schema: graphqlSchema,
+		document,
+		variableValues: request.variables ?? undefined,
+		operationName: request.operationName ?? undefined,
+		contextValue: context,
+	});
+
+	if (!result.errors) return result;
+	return {
+		...result,
+		errors: result.errors.map((error) => {
+			if (!error.originalError || error.originalError instanceof GraphQLError) return error;
+			console.error("[GraphQL] Resolver failed:", error.originalError);
+			return new GraphQLError("Internal server error", {
+				nodes: error.nodes,
+				path: error.path,
+				extensions: { code: "INTERNAL_SERVER_ERROR" },
+			});
+		}),
+	};
+}
@@ -0,0 +1,555 @@
+/**
+ * GraphQL object types of the content models. Relations follow shared/schema.ts
+ * and resolve through the request's batch loaders; lists that can grow
+ * without bound are cursor-paginated connections.
+ *
+ * Visibility matches the REST API: unpublished posts and pages need
+ * `edit_posts` / `edit_pages`, comments other than approved ones need
+ * `moderate_comments`, and nothing exposes password hashes or post passwords.
+ */
+import {
+	GraphQLBoolean,
+	GraphQLEnumType,
+	GraphQLError,
+	GraphQLID,
+	GraphQLInt,
+	GraphQLList,
+	GraphQLNonNull,
+	GraphQLObjectType,
+	GraphQLScalarType,
+	GraphQLString,
+	Kind,
+	valueFromASTUntyped,
+	type GraphQLFieldConfigArgumentMap,
+	type GraphQLOutputType,
+} from "graphql";
+import type { Filter, OrderBy } from "@shared/create-models";
+import type { Blog, Comment, Media, Page, Post, Site, Template, User } from "@shared/schema-types";
+import type { getZodSchema } from "@shared/zod-schema";
+import { CONFIG } from "../config.js";
+import type { HookSystem } from "../hooks.js";
+import { commentsOpen, issueCommentFormToken } from "../comment-submission.js";
+import type { GraphqlModels, Loaders } from "./loaders.js";
+
+export interface GraphqlContext {
+	models: GraphqlModels;
+	loaders: Loaders;
+	hooks: HookSystem;
+	/** Validation schemas the REST routes use for the same records */
+	schemas: Record<"posts" | "pages" | "comments", ReturnType<typeof getZodSchema>>;
+	/** Signed-in user, or null for anonymous requests */
+	userId: string | null;
+	/** Whether the signed-in user holds a capability on `siteId`, or on the request's site */
+	can(capability: string, siteId?: string): Promise<boolean>;
+	/** Client address and user agent, recorded with comments and used for rate limits */
+	ip?: string;
+	userAgent?: string;
+}
+
+export type ErrorCode =
+	| "UNAUTHENTICATED"
+	| "FORBIDDEN"
+	| "NOT_FOUND"
+	| "BAD_USER_INPUT"
+	| "CONFLICT"
+	| "VETOED"
+	| "RATE_LIMITED";
+
+export function graphqlError(message: string, code: ErrorCode, extensions: Record<string, unknown> = {}) {
+	return new GraphQLError(message, { extensions: { code, ...extensions } });
+}
+
+/** Throws unless someone is signed in, like requireAuth */
+export function requireSignIn(context: GraphqlContext) {
+	if (!context.userId) throw graphqlError("Unauthorized", "UNAUTHENTICATED");
+}
+
+/**
+ * Throws unless the viewer holds `capability`, like requireCapability does
+ * for REST routes. With `others`, records authored by someone else need that
+ * capability too; with `siteId`, both are checked on the record's site.
+ */
+export async function authorize(
+	context: GraphqlContext,
+	capability: string,
+	ownership?: { others?: string; ownerId?: string | null; siteId?: string },
+) {
+	requireSignIn(context);
+	if (!(await context.can(capability, ownership?.siteId))) {
+		throw graphqlError(`Forbidden: missing capability '${capability}'`, "FORBIDDEN");
+	}
+	if (
+		ownership?.others &&
+		ownership.ownerId &&
+		ownership.ownerId !== context.userId &&
+		!(await context.can(ownership.others, ownership.siteId))
+	) {
+		throw graphqlError(`Forbidden: missing capability '${ownership.others}'`, "FORBIDDEN");
+	}
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** IDs that aren't UUIDs can't match a row; checking first avoids a database error */
+export const isUuid = (value: unknown): value is string => typeof value === "string" && UUID_PATTERN.test(value);
+
+/** Whether the viewer may see a post or page: published, or they can edit that kind */
+export async function canView(context: GraphqlContext, record: { status: string | null } | undefined, capability: string) {
+	if (!record) return false;
+	return record.status === CONFIG.STATUS.PUBLISH || (await context.can(capability));
+}
+
+// Posts and pages as loaded; pages are the records with a site
+type ContentRecord = Pick<Post, "password"> & { siteId?: string };
+
+const editCapability = (record: ContentRecord) => ("siteId" in record ? "edit_pages" : "edit_posts");
+
+// Scalars
+
+export const DateTimeScalar = new GraphQLScalarType({
+	name: "DateTime",
+	description: "ISO 8601 date and time",
+	serialize(value) {
+		if (value instanceof Date) return value.toISOString();
+		if (typeof value === "string") return new Date(value).toISOString();
+		throw new GraphQLError(`DateTime cannot represent ${String(value)}`);
+	},
+	parseValue(value) {
+		const date = typeof value === "string" ? new Date(value) : undefined;
+		if (!date || Number.isNaN(date.getTime())) throw new GraphQLError("DateTime must be an ISO 8601 string");
+		return date;
+	},
+	parseLiteral(ast) {
+		const date = ast.kind === Kind.STRING ? new Date(ast.value) : undefined;
+		if (!date || Number.isNaN(date.getTime())) throw new GraphQLError("DateTime must be an ISO 8601 string");
+		return date;
+	},
+});
+
+export const JSONScalar = new GraphQLScalarType({
+	name: "JSON",
+	description: "Any JSON value, e.g. the block tree of a post or page",
+	serialize: (value) => value,
+	parseValue: (value) => value,
+	parseLiteral: (ast, variables) => valueFromASTUntyped(ast, variables),
+});
+
+// Cursor pagination
+
+export interface PageArgs {
+	first?: number | null;
+	after?: string | null;
+}
+
+export const pageArgs: GraphQLFieldConfigArgumentMap = {
+	first: {
+		type: GraphQLInt,
+		description: `Items to return (default ${CONFIG.GRAPHQL.DEFAULT_PAGE_SIZE}, at most ${CONFIG.GRAPHQL.MAX_PAGE_SIZE})`,
+	},
+	after: { type: GraphQLString, description: "Return items after this cursor (a previous `endCursor`)" },
+};
+
+// Cursors are opaque to clients; they hold the position of the item in the listing
+const encodeCursor = (offset: number) => Buffer.from(`cursor:${offset}`).toString("base64url");
+
+function decodeCursor(cursor: string): number {
+	const match = /^cursor:(\d+)$/.exec(Buffer.from(cursor, "base64url").toString());
+	if (!match) throw graphqlError("Invalid cursor", "BAD_USER_INPUT");
+	return Number(match[1]);
+}
+
+export interface Connection<T> {
+	edges: Array<{ cursor: string; node: T }>;
+	nodes: T[];
+	pageInfo: { hasNextPage: boolean; hasPreviousPage: boolean; startCursor: string | null; endCursor: string | null };
+	totalCount: () => Promise<number>;
+}
+
+interface Paginated<T> {
+	findManyWhere(where: Filter[], options: { limit: number; offset: number; orderBy: OrderBy }): Promise<T[]>;
+	count(options: { where: Filter[] }): Promise<number>;
+}
+
+/**
+ * One page of the records matching `filters`. The total is only counted
+ * when the query asks for `totalCount`.
+ */
+export async function paginate<T>(
+	model: Paginated<T>,
+	filters: Filter[],
+	args: PageArgs,
+	orderBy: OrderBy,
+): Promise<Connection<T>> {
+	const first = Math.min(CONFIG.GRAPHQL.MAX_PAGE_SIZE, Math.max(0, args.first ?? CONFIG.GRAPHQL.DEFAULT_PAGE_SIZE));
+	const offset = args.after ? decodeCursor(args.after) + 1 : 0;
+	// One extra row tells whether another page follows
+	const rows = await model.findManyWhere(filters, { limit: first + 1, offset, orderBy });
+	const nodes = rows.slice(0, first);
+	const edges = nodes.map((node, index) => ({ cursor: encodeCursor(offset + index), node }));
+
+	return {
+		edges,
+		nodes,
+		pageInfo: {
+			hasNextPage: rows.length > first,
+			hasPreviousPage: offset > 0,
+			startCursor: edges[0]?.cursor ?? null,
+			endCursor: edges.at(-1)?.cursor ?? null,
+		},
+		totalCount: () => model.count({ where: filters }),
+	};
+}
+
+const PageInfoType = new GraphQLObjectType({
+	name: "PageInfo",
+	fields: {
+		hasNextPage: { type: new GraphQLNonNull(GraphQLBoolean) },
+		hasPreviousPage: { type: new GraphQLNonNull(GraphQLBoolean) },
+		startCursor: { type: GraphQLString },
+		endCursor: { type: GraphQLString },
+	},
+});
+
+function connectionType(node: GraphQLObjectType) {
+	const edge = new GraphQLObjectType({
+		name: `${node.name}Edge`,
+		fields: {
+			cursor: { type: new GraphQLNonNull(GraphQLString) },
+			node: { type: new GraphQLNonNull(node) },
+		},
+	});
+	return new GraphQLObjectType({
+		name: `${node.name}Connection`,
+		fields: {
+			edges: { type: nonNullList(edge) },
+			nodes: { type: nonNullList(node) },
+			pageInfo: { type: new GraphQLNonNull(PageInfoType) },
+			totalCount: { type: new GraphQLNonNull(GraphQLInt) },
+		},
+	});
+}
+
+const nonNullList = (type: GraphQLOutputType) => new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(type)));
+
+// Listings
+
+export const ContentStatusEnum = new GraphQLEnumType({
+	name: "ContentStatus",
+	values: {
+		ANY: { value: CONFIG.STATUS.ANY },
+		PUBLISH: { value: CONFIG.STATUS.PUBLISH },
+		FUTURE: { value: CONFIG.STATUS.FUTURE },
+		DRAFT: { value: CONFIG.STATUS.DRAFT },
+		PRIVATE: { value: CONFIG.STATUS.PRIVATE },
+		TRASH: { value: CONFIG.STATUS.TRASH },
+	},
+});
+
+export const CommentStatusEnum = new GraphQLEnumType({
+	name: "CommentStatus",
+	values: {
+		APPROVED: { value: CONFIG.COMMENT_STATUS.APPROVED },
+		PENDING: { value: CONFIG.COMMENT_STATUS.PENDING },
+		SPAM: { value: CONFIG.COMMENT_STATUS.SPAM },
+		TRASH: { value: CONFIG.COMMENT_STATUS.TRASH },
+	},
+});
+
+/**
+ * Status filter of a post or page listing. Anything but published content
+ * needs the edit capability; ANY lists every status.
+ */
+export async function statusFilters(
+	context: GraphqlContext,
+	status: string | null | undefined,
+	capability: string,
+): Promise<Filter[]> {
+	const wanted = status ?? CONFIG.STATUS.PUBLISH;
+	if (wanted !== CONFIG.STATUS.PUBLISH) await authorize(context, capability);
+	return wanted === CONFIG.STATUS.ANY ? [] : [{ where: "status", equals: wanted }];
+}
+
+export const postListArgs: GraphQLFieldConfigArgumentMap = {
+	...pageArgs,
+	status: { type: ContentStatusEnum, description: "Defaults to PUBLISH; other statuses need edit_posts" },
+	search: { type: GraphQLString, description: "Full-text search over title, excerpt and content" },
+};
+
+interface PostListArgs extends PageArgs {
+	status?: string | null;
+	search?: string | null;
+}
+
+/** Posts matching `args`, latest published first, narrowed by `filters` (e.g. a blog or author) */
+export async function listPosts(context: GraphqlContext, args: PostListArgs, filters: Filter[] = []) {
+	const where = [...filters, ...(await statusFilters(context, args.status, "edit_posts"))];
+	if (args.search?.trim()) where.push(context.models.searchIndex.matchFilter("post", args.search.trim()));
+	const connection = await paginate(context.models.posts, where, args, { property: "publishedAt", order: "descending" });
+	for (const post of connection.nodes) context.loaders.posts.prime(post.id, post);
+	return connection;
+}
+
+export const pageListArgs: GraphQLFieldConfigArgumentMap = {
+	...pageArgs,
+	status: { type: ContentStatusEnum, description: "Defaults to PUBLISH; other statuses need edit_pages" },
+};
+
+/** Pages matching `args` in menu order, narrowed by `filters` (e.g. a site or parent) */
+export async function listPages(context: GraphqlContext, args: PostListArgs, filters: Filter[] = []) {
+	const where = [...filters, ...(await statusFilters(context, args.status, "edit_pages"))];
+	const connection = await paginate(context.models.pages, where, args, { property: "menuOrder", order: "ascending" });
+	for (const page of connection.nodes) context.loaders.pages.prime(page.id, page);
+	return connection;
+}
+
+// Records of related types, dropped when the viewer may not see them
+async function visiblePost(context: GraphqlContext, id: string | null | undefined) {
+	const post = id ? await context.loaders.posts.load(id) : undefined;
+	return (await canView(context, post, "edit_posts")) ? post : null;
+}
+
+async function visiblePage(context: GraphqlContext, id: string | null | undefined) {
+	const page = id ? await context.loaders.pages.load(id) : undefined;
+	return (await canView(context, page, "edit_pages")) ? page : null;
+}
+
+const loadUser = (context: GraphqlContext, id: string | null | undefined) =>
+	id ? context.loaders.users.load(id).then((user) => user ?? null) : null;
+
+/**
+ * Content of a password-protected post or page is left out unless the
+ * viewer can edit it; the public site asks for the password instead
+ */
+async function unlessProtected<T>(context: GraphqlContext, record: ContentRecord, value: T): Promise<T | null> {
+	if (!record.password) return value;
+	return (await context.can(editCapability(record))) ? value : null;
+}
+
+// Object types
+
+export const UserType: GraphQLObjectType<User, GraphqlContext> = new GraphQLObjectType<User, GraphqlContext>({
+	name: "User",
+	fields: () => ({
+		id: { type: new GraphQLNonNull(GraphQLID) },
+		username: { type: new GraphQLNonNull(GraphQLString) },
+		firstName: { type: GraphQLString },
+		lastName: { type: GraphQLString },
+		displayName: {
+			type: new GraphQLNonNull(GraphQLString),
+			resolve: (user) => [user.firstName, user.lastName].filter(Boolean).join(" ") || user.username,
+		},
+		avatar: { type: GraphQLString, resolve: (user) => user.profileImageUrl },
+		bio: {
+			type: GraphQLString,
+			resolve: (user) => {
+				const bio = (user.other as { bio?: unknown } | null)?.bio;
+				return typeof bio === "string" ? bio : null;
+			},
+		},
+		email: {
+			type: GraphQLString,
+			description: "Only shown to the user themselves and to users with list_users",
+			resolve: async (user, _args, context) =>
+				user.id === context.userId ||
+				(await context.can("list_users", (await context.models.sites.findDefaultSite())?.id))
+					? user.email
+					: null,
+		},
+		createdAt: { type: DateTimeScalar },
+		posts: {
+			type: new GraphQLNonNull(PostConnectionType),
+			args: postListArgs,
+			resolve: (user, args, context) => listPosts(context, args, [{ where: "authorId", equals: user.id }]),
+		},
+	}),
+});
+
+export const TemplateType: GraphQLObjectType<Template, GraphqlContext> = new GraphQLObjectType<Template, GraphqlContext>({
+	name: "Template",
+	fields: () => ({
+		id: { type: new GraphQLNonNull(GraphQLID) },
+		name: { type: new GraphQLNonNull(GraphQLString) },
+		type: { type: new GraphQLNonNull(GraphQLString), description: "header, footer, page, post, archive or popup" },
+		description: { type: GraphQLString },
+		blocks: { type: JSONScalar },
+		settings: { type: JSONScalar },
+		author: { type: UserType, resolve: (template, _args, context) => loadUser(context, template.authorId) },
+		createdAt: { type: DateTimeScalar },
+		updatedAt: { type: DateTimeScalar },
+	}),
+});
+
+export const CommentType: GraphQLObjectType<Comment, GraphqlContext> = new GraphQLObjectType<Comment, GraphqlContext>({
+	name: "Comment",
+	fields: () => ({
+		id: { type: new GraphQLNonNull(GraphQLID) },
+		content: { type: new GraphQLNonNull(GraphQLString) },
+		status: { type: GraphQLString },
+		authorName: {
+			type: GraphQLString,
+			description: "Name left with the comment, or the display name of the user who wrote it",
+			resolve: async (comment, _args, context) => {
+				if (comment.authorName) return comment.authorName;
+				const user = await loadUser(context, comment.authorId);
+				return user ? [user.firstName, user.lastName].filter(Boolean).join(" ") || user.username : null;
+			},
+		},
+		authorEmail: {
+			type: GraphQLString,
+			description: "Only shown to users with moderate_comments",
+			resolve: async (comment, _args, context) => ((await context.can("moderate_comments")) ? comment.authorEmail : null),
+		},
+		author: { type: UserType, resolve: (comment, _args, context) => loadUser(context, comment.authorId) },
+		post: { type: PostType, resolve: (comment, _args, context) => visiblePost(context, comment.postId) },
+		parentId: { type: GraphQLID },
+		createdAt: { type: DateTimeScalar },
+	}),
+});
+
+export const MediaType: GraphQLObjectType<Media, GraphqlContext> = new GraphQLObjectType<Media, GraphqlContext>({
+	name: "MediaItem",
+	fields: () => ({
+		id: { type: new GraphQLNonNull(GraphQLID) },
+		url: { type: new GraphQLNonNull(GraphQLString) },
+		filename: { type: new GraphQLNonNull(GraphQLString) },
+		originalName: { type: new GraphQLNonNull(GraphQLString) },
+		mimeType: { type: new GraphQLNonNull(GraphQLString) },
+		size: { type: new GraphQLNonNull(GraphQLInt), description: "Size in bytes" },
+		alt: { type: GraphQLString },
+		caption: { type: GraphQLString },
+		description: { type: GraphQLString },
+		author: { type: UserType, resolve: (item, _args, context) => loadUser(context, item.authorId) },
+		createdAt: { type: DateTimeScalar },
+	}),
+});
+
+// Fields posts and pages share
+const contentFields = () => ({
+	id: { type: new GraphQLNonNull(GraphQLID) },
+	title: { type: new GraphQLNonNull(GraphQLString) },
+	slug: { type: new GraphQLNonNull(GraphQLString) },
+	status: { type: GraphQLString },
+	featuredImage: { type: GraphQLString },
+	publishedAt: { type: DateTimeScalar },
+	expiresAt: { type: DateTimeScalar },
+	allowComments: { type: GraphQLBoolean },
+	passwordProtected: { type: new GraphQLNonNull(GraphQLBoolean), resolve: (record: Post | Page) => !!record.password },
+	blocks: {
+		type: JSONScalar,
+		description: "Block tree; null for password-protected content the viewer can't edit",
+		resolve: (record: Post | Page, _args: unknown, context: GraphqlContext) =>
+			unlessProtected(context, record, record.blocks),
+	},
+	version: { type: new GraphQLNonNull(GraphQLInt), description: "Pass to updates to detect concurrent edits" },
+	author: {
+		type: UserType,
+		resolve: (record: Post | Page, _args: unknown, context: GraphqlContext) => loadUser(context, record.authorId),
+	},
+	template: {
+		type: TemplateType,
+		resolve: (record: Post | Page, _args: unknown, context: GraphqlContext) =>
+			record.templateId ? context.loaders.templates.load(record.templateId) : null,
+	},
+	createdAt: { type: DateTimeScalar },
+	updatedAt: { type: DateTimeScalar },
+});
+
+export const PostType: GraphQLObjectType<Post, GraphqlContext> = new GraphQLObjectType<Post, GraphqlContext>({
+	name: "Post",
+	fields: () => ({
+		...contentFields(),
+		excerpt: {
+			type: GraphQLString,
+			resolve: (post, _args, context) => unlessProtected(context, post, post.excerpt),
+		},
+		blog: {
+			type: BlogType,
+			resolve: (post, _args, context) => (post.blogId ? context.loaders.blogs.load(post.blogId) : null),
+		},
+		comments: {
+			type: nonNullList(CommentType),
+			description: "Approved comments, oldest first; see Query.comments for other statuses and paging",
+			resolve: async (post, _args, context) => (await context.loaders.approvedComments.load(post.id)) ?? [],
+		},
+		commentCount: {
+			type: new GraphQLNonNull(GraphQLInt),
+			resolve: async (post, _args, context) => ((await context.loaders.approvedComments.load(post.id)) ?? []).length,
+		},
+		commentFormToken: {
+			type: GraphQLString,
+			description: "Pass to createComment; comments sent within seconds of fetching it are refused. Null while comments are closed.",
+			resolve: async (post, _args, context) =>
+				commentsOpen(post, await context.models.sites.getSettings()) ? issueCommentFormToken(post.id) : null,
+		},
+	}),
+});
+
+export const PageType: GraphQLObjectType<Page, GraphqlContext> = new GraphQLObjectType<Page, GraphqlContext>({
+	name: "Page",
+	fields: () => ({
+		...contentFields(),
+		menuOrder: { type: GraphQLInt },
+		site: { type: SiteType, resolve: (page, _args, context) => context.loaders.sites.load(page.siteId) },
+		parent: { type: PageType, resolve: (page, _args, context) => visiblePage(context, page.parentId) },
+		children: {
+			type: new GraphQLNonNull(PageConnectionType),
+			args: pageListArgs,
+			resolve: (page, args, context) => listPages(context, args, [{ where: "parentId", equals: page.id }]),
+		},
+	}),
+});
+
+export const BlogType: GraphQLObjectType<Blog, GraphqlContext> = new GraphQLObjectType<Blog, GraphqlContext>({
+	name: "Blog",
+	fields: () => ({
+		id: { type: new GraphQLNonNull(GraphQLID) },
+		name: { type: new GraphQLNonNull(GraphQLString) },
+		slug: { type: new GraphQLNonNull(GraphQLString) },
+		description: { type: GraphQLString },
+		status: { type: GraphQLString },
+		author: { type: UserType, resolve: (blog, _args, context) => loadUser(context, blog.authorId) },
+		site: {
+			type: SiteType,
+			resolve: (blog, _args, context) => (blog.siteId ? context.loaders.sites.load(blog.siteId) : null),
+		},
+		page: {
+			type: PageType,
+			description: "Index page listing the blog's posts",
+			resolve: (blog, _args, context) => visiblePage(context, blog.pageId),
+		},
+		posts: {
+			type: new GraphQLNonNull(PostConnectionType),
+			args: postListArgs,
+			resolve: (blog, args, context) => listPosts(context, args, [{ where: "blogId", equals: blog.id }]),
+		},
+		createdAt: { type: DateTimeScalar },
+	}),
+});
+
+export const SiteType: GraphQLObjectType<Site, GraphqlContext> = new GraphQLObjectType<Site, GraphqlContext>({
+	name: "Site",
+	fields: () => ({
+		id: { type: new GraphQLNonNull(GraphQLID) },
+		name: { type: GraphQLString },
+		description: { type: GraphQLString },
+		url: { type: GraphQLString, resolve: (site) => site.siteUrl },
+		logoUrl: { type: GraphQLString },
+		faviconUrl: { type: GraphQLString },
+		isDefault: { type: new GraphQLNonNull(GraphQLBoolean), resolve: (site) => !!site.isDefault },
+		owner: { type: UserType, resolve: (site, _args, context) => loadUser(context, site.ownerId) },
+		pages: {
+			type: new GraphQLNonNull(PageConnectionType),
+			args: pageListArgs,
+			resolve: (site, args, context) => listPages(context, args, [{ where: "siteId", equals: site.id }]),
+		},
+	}),
+});
+
+export const PostConnectionType: GraphQLObjectType = connectionType(PostType);
+export const PageConnectionType: GraphQLObjectType = connectionType(PageType);
+export const CommentConnectionType = connectionType(CommentType);
+export const MediaConnectionType = connectionType(MediaType);
+export const UserConnectionType = connectionType(UserType);
+export const TemplateConnectionType = connectionType(TemplateType);
+export const BlogConnectionType = connectionType(BlogType);
+export const SiteConnectionType = connectionType(SiteType);
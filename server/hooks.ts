@@ -1,11 +1,50 @@
 // WordPress-compatible hook system for NextPress
-class HookSystem {
+
+/**
+ * Returned (or thrown) by a filter callback to reject the operation being filtered,
+ * e.g. a `pre_save_post` filter refusing a save. Only honoured by `applyFiltersAsync`.
+ */
+export class HookVeto {
+  constructor(public readonly message: string, public readonly status: number = 422) {}
+}
+
+// Thrown by applyFiltersAsync when a callback vetoes
+export class HookVetoError extends Error {
+  public readonly status: number;
+
+  constructor(public readonly tag: string, veto: HookVeto) {
+    super(veto.message);
+    this.name = 'HookVetoError';
+    this.status = veto.status;
+  }
+}
+
+// Accumulated execution stats for one registration (type, tag, priority and callback)
+export interface HookTiming {
+  calls: number;
+  errors: number;
+  totalMs: number;
+  maxMs: number;
+  lastMs: number;
+}
+
+export interface HookCallbackInfo extends HookTiming {
+  tag: string;
+  priority: number;
+  name: string;
+  avgMs: number;
+}
+
+export class HookSystem {
   public actions: Map<string, Map<number, Function[]>>;
   public filters: Map<string, Map<number, Function[]>>;
+  // Keyed by "<type>:<tag>:<priority>", then callback, so a function added to several hooks is timed per hook
+  private timings: Map<string, WeakMap<Function, HookTiming>>;
 
   constructor() {
     this.actions = new Map();
     this.filters = new Map();
+    this.timings = new Map();
   }
 
   // Add an action hook (WordPress: add_action)
@@ -28,21 +67,40 @@ class HookSystem {
 
   // Execute action hooks (WordPress: do_action)
   doAction(tag: string, ...args: any[]) {
-    if (!this.actions.has(tag)) return;
-    
-    const priorityMap = this.actions.get(tag);
-    if (!priorityMap) return;
-    const priorities = Array.from(priorityMap.keys()).sort((a, b) => a - b);
-    
-    for (const priority of priorities) {
-      const callbacks = priorityMap.get(priority);
-      if (!callbacks) continue;
-      for (const callback of callbacks) {
-        try {
-          callback(...args);
-        } catch (error) {
-          console.error(`Error in action hook ${tag}:`, error);
+    for (const { callback, timing } of this.orderedCallbacks('action', tag)) {
+      const start = performance.now();
+      try {
+        const result = callback(...args);
+        // Async callbacks are not awaited here (use doActionAsync to wait for them),
+        // but they are timed until their promise settles
+        if (result instanceof Promise) {
+          result.then(
+            () => this.recordTiming(timing, start),
+            (error) => {
+              this.recordTiming(timing, start, true);
+              console.error(`Error in action hook ${tag}:`, error);
+            }
+          );
+        } else {
+          this.recordTiming(timing, start);
         }
+      } catch (error) {
+        this.recordTiming(timing, start, true);
+        console.error(`Error in action hook ${tag}:`, error);
+      }
+    }
+  }
+
+  // Execute action hooks, awaiting each callback in priority order
+  async doActionAsync(tag: string, ...args: any[]) {
+    for (const { callback, timing } of this.orderedCallbacks('action', tag)) {
+      const start = performance.now();
+      try {
+        await callback(...args);
+        this.recordTiming(timing, start);
+      } catch (error) {
+        this.recordTiming(timing, start, true);
+        console.error(`Error in action hook ${tag}:`, error);
       }
     }
   }
@@ -67,29 +125,59 @@ class HookSystem {
 
   // Apply filter hooks (WordPress: apply_filters)
   applyFilters(tag: string, value: any, ...args: any[]) {
-    if (!this.filters.has(tag)) return value;
-    
-    const priorityMap = this.filters.get(tag);
-    if (!priorityMap) return value;
-    const priorities = Array.from(priorityMap.keys()).sort((a, b) => a - b);
-    
     let filteredValue = value;
+
+    for (const { callback, timing } of this.orderedCallbacks('filter', tag)) {
+      const start = performance.now();
+      try {
+        filteredValue = callback(filteredValue, ...args);
+        this.recordTiming(timing, start);
+      } catch (error) {
+        this.recordTiming(timing, start, true);
+        console.error(`Error in filter hook ${tag}:`, error);
+      }
+    }
     
-    for (const priority of priorities) {
-      const callbacks = priorityMap.get(priority);
-      if (!callbacks) continue;
-      for (const callback of callbacks) {
-        try {
-          filteredValue = callback(filteredValue, ...args);
-        } catch (error) {
-          console.error(`Error in filter hook ${tag}:`, error);
+    return filteredValue;
+  }
+
+  /**
+   * Apply filter hooks, awaiting each callback in priority order.
+   * A callback returning or throwing a HookVeto stops the chain and rejects
+   * with a HookVetoError; other errors are logged and the value passes through.
+   */
+  async applyFiltersAsync(tag: string, value: any, ...args: any[]) {
+    let filteredValue = value;
+
+    for (const { callback, timing } of this.orderedCallbacks('filter', tag)) {
+      const start = performance.now();
+      let result: any;
+      try {
+        result = await callback(filteredValue, ...args);
+      } catch (error) {
+        this.recordTiming(timing, start, !(error instanceof HookVeto));
+        if (error instanceof HookVeto) {
+          throw new HookVetoError(tag, error);
         }
+        console.error(`Error in filter hook ${tag}:`, error);
+        continue;
       }
+
+      this.recordTiming(timing, start);
+      if (result instanceof HookVeto) {
+        throw new HookVetoError(tag, result);
+      }
+      filteredValue = result;
     }
-    
+
     return filteredValue;
   }
 
+  // Create a veto result for filter callbacks
+  veto(message: string, status?: number) {
+    return new HookVeto(message, status);
+  }
+
   // Remove an action hook (WordPress: remove_action)
   removeAction(tag: string, callback: Function, priority: number = 10) {
     if (!this.actions.has(tag)) return false;
@@ -147,6 +235,78 @@ class HookSystem {
   getFilters() {
     return Array.from(this.filters.keys());
   }
+
+  // List registered callbacks of one hook type with their timings, in execution order
+  getCallbacks(type: 'action' | 'filter'): HookCallbackInfo[] {
+    const registry = type === 'action' ? this.actions : this.filters;
+    const result: HookCallbackInfo[] = [];
+
+    for (const [tag, priorityMap] of Array.from(registry.entries())) {
+      const priorities = Array.from(priorityMap.keys()).sort((a, b) => a - b);
+      for (const priority of priorities) {
+        for (const callback of priorityMap.get(priority) ?? []) {
+          const timing = this.timings.get(HookSystem.timingKey(type, tag, priority))?.get(callback) ?? {
+            calls: 0,
+            errors: 0,
+            totalMs: 0,
+            maxMs: 0,
+            lastMs: 0,
+          };
+          result.push({
+            tag,
+            priority,
+            name: callback.name || '(anonymous)',
+            ...timing,
+            avgMs: timing.calls > 0 ? timing.totalMs / timing.calls : 0,
+          });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private static timingKey(type: 'action' | 'filter', tag: string, priority: number) {
+    return `${type}:${tag}:${priority}`;
+  }
+
+  // Snapshot of callbacks for a tag with their timings, sorted by priority (safe against removal mid-run)
+  private orderedCallbacks(type: 'action' | 'filter', tag: string): { callback: Function; timing: HookTiming }[] {
+    const priorityMap = (type === 'action' ? this.actions : this.filters).get(tag);
+    if (!priorityMap) return [];
+
+    const priorities = Array.from(priorityMap.keys()).sort((a, b) => a - b);
+    return priorities.flatMap((priority) =>
+      (priorityMap.get(priority) ?? []).map((callback) => ({
+        callback,
+        timing: this.getTiming(type, tag, priority, callback),
+      }))
+    );
+  }
+
+  private getTiming(type: 'action' | 'filter', tag: string, priority: number, callback: Function): HookTiming {
+    const key = HookSystem.timingKey(type, tag, priority);
+    let registrations = this.timings.get(key);
+    if (!registrations) {
+      registrations = new WeakMap();
+      this.timings.set(key, registrations);
+    }
+    let timing = registrations.get(callback);
+    if (!timing) {
+      timing = { calls: 0, errors: 0, totalMs: 0, maxMs: 0, lastMs: 0 };
+      registrations.set(callback, timing);
+    }
+    return timing;
+  }
+
+  private recordTiming(timing: HookTiming, start: number, failed = false) {
+    const duration = performance.now() - start;
+    timing.calls += 1;
+    timing.totalMs += duration;
+    timing.lastMs = duration;
+    timing.maxMs = Math.max(timing.maxMs, duration);
+    if (failed) timing.errors += 1;
+  }
 }
 
 // Global hook system instance
@@ -157,6 +317,8 @@ const hooks = new HookSystem();
 (global as any).doAction = hooks.doAction.bind(hooks);
 (global as any).addFilter = hooks.addFilter.bind(hooks);
 (global as any).applyFilters = hooks.applyFilters.bind(hooks);
+(global as any).doActionAsync = hooks.doActionAsync.bind(hooks);
+(global as any).applyFiltersAsync = hooks.applyFiltersAsync.bind(hooks);
 (global as any).removeAction = hooks.removeAction.bind(hooks);
 (global as any).removeFilter = hooks.removeFilter.bind(hooks);
 (global as any).hasAction = hooks.hasAction.bind(hooks);
@@ -0,0 +1,68 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+
+/**
+ * Fixed-window request counters kept in process memory.
+ * Each key gets `max` requests per window, counted from its first request.
+ */
+export interface RateLimiter {
+  /**
+   * Counts a request for `key`
+   * @returns Seconds until `key` may try again, or 0 when the request is allowed
+   */
+  consume(key: string, now?: number): number;
+}
+
+/**
+ * Creates a rate limiter. Share one limiter between every entry point that
+ * should count against the same limit, e.g. REST and GraphQL.
+ *
+ * @example
+ * const limiter = createRateLimiter({ max: 5, windowMs: 10 * 60 * 1000 });
+ * if (limiter.consume(req.ip)) throw new Error('Slow down');
+ */
+export function createRateLimiter(options: { max: number; windowMs: number }): RateLimiter {
+  const { max, windowMs } = options;
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    consume(key, now = Date.now()) {
+      // Drop finished windows so clients that went away don't pile up
+      windows.forEach((window, windowKey) => {
+        if (window.resetAt <= now) windows.delete(windowKey);
+      });
+
+      const window = windows.get(key) ?? { count: 0, resetAt: now + windowMs };
+      window.count++;
+      windows.set(key, window);
+      return window.count > max ? Math.ceil((window.resetAt - now) / 1000) : 0;
+    },
+  };
+}
+
+export interface RateLimitOptions {
+  limiter: RateLimiter;
+  message?: string;
+  /** Identifies the client; defaults to the IP address (see `trust proxy`) */
+  keyOf?: (req: Request) => string;
+}
+
+/**
+ * Middleware answering requests over the limiter's limit with 429 and a
+ * Retry-After header.
+ *
+ * @example
+ * router.post('/', rateLimit({ limiter: createRateLimiter({ max: 5, windowMs: 60_000 }) }), handler);
+ */
+export function rateLimit(options: RateLimitOptions): RequestHandler {
+  const { limiter, message = 'Too many requests, please try again later' } = options;
+  const keyOf = options.keyOf ?? ((req: Request) => req.ip || 'unknown');
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const retryAfter = limiter.consume(keyOf(req));
+    if (retryAfter) {
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({ message });
+    }
+    next();
+  };
+}
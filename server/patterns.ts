@@ -0,0 +1,50 @@
+/**
+ * Synced patterns on the way out: pages store `core/block-reference` blocks
+ * pointing at a pattern, and everything that renders or serves published
+ * content swaps in the pattern's current blocks first.
+ */
+import type { BlockConfig } from "@shared/schema-types";
+import { MAX_REFERENCE_DEPTH, collectReferenceIds, resolveBlockReferences } from "@shared/block-references";
+
+/** The part of the pattern model resolution needs */
+export interface PatternSource {
+	findByIds(ids: string[]): Promise<Array<{ id: string; blocks: unknown }>>;
+}
+
+/**
+ * Loads every pattern `blocks` references, including references inside
+ * patterns, and returns the blocks with each reference's children filled in
+ *
+ * @param blocks - `blocks` column of a page, post or template
+ * @param source - Usually `models.patterns`
+ */
+export async function resolvePatterns(
+	blocks: unknown,
+	source: PatternSource,
+): Promise<BlockConfig[]> {
+	const configs = (Array.isArray(blocks) ? blocks : []) as BlockConfig[];
+	const loaded = new Map<string, BlockConfig[]>();
+
+	let pending = collectReferenceIds(configs);
+	for (let depth = 0; pending.length > 0 && depth < MAX_REFERENCE_DEPTH; depth++) {
+		const found = await source.findByIds(pending);
+		found.forEach((pattern) =>
+			loaded.set(pattern.id, (Array.isArray(pattern.blocks) ? pattern.blocks : []) as BlockConfig[]),
+		);
+		// Missing patterns are remembered as empty so they are not asked for again
+		pending.forEach((id) => {
+			if (!loaded.has(id)) loaded.set(id, []);
+		});
+		pending = found.flatMap((pattern) => collectReferenceIds(loaded.get(pattern.id)!)).filter((id) => !loaded.has(id));
+	}
+
+	return resolveBlockReferences(configs, loaded);
+}
+
+/** Copy of a page, post or template with its pattern references resolved */
+export async function withResolvedPatterns<T extends { blocks: unknown }>(
+	record: T,
+	source: PatternSource,
+): Promise<T> {
+	return { ...record, blocks: await resolvePatterns(record.blocks, source) };
+}
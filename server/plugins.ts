@@ -0,0 +1,484 @@
+import { createHash } from "node:crypto";
+import { promises as fs, readFileSync } from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { z } from "zod";
+import { models } from "./storage.js";
+import hooks, { HookVeto, type HookSystem } from "./hooks.js";
+import { CONFIG } from "./config.js";
+import type { Plugin } from "@shared/schema-types";
+
+const settingFieldSchema = z.object({
+	label: z.string().min(1),
+	type: z.enum(["text", "textarea", "number", "boolean"]).default("text"),
+	description: z.string().optional(),
+	default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+});
+
+/**
+ * Manifest read from `plugin.json` at the root of every plugin package
+ */
+export const pluginManifestSchema = z.object({
+	name: z.string().trim().min(1),
+	version: z.string().trim().min(1),
+	description: z.string().optional(),
+	// NextPress versions the plugin works with, e.g. ">=1.0.0 <2.0.0" or "^1.0.0"
+	requires: z.string().trim().min(1),
+	main: z.string().default("index.js"),
+	settings: z.record(settingFieldSchema).default({}),
+});
+
+export type PluginManifest = z.infer<typeof pluginManifestSchema>;
+export type PluginSettingField = z.infer<typeof settingFieldSchema>;
+
+/**
+ * Scoped hook API handed to a plugin's `activate` function.
+ * Everything registered through it is removed again on deactivation.
+ */
+export interface PluginApi {
+	name: string;
+	version: string;
+	addAction(tag: string, callback: Function, priority?: number): void;
+	addFilter(tag: string, callback: Function, priority?: number): void;
+	getSettings(): Record<string, unknown>;
+	// Return from a filter callback to reject the filtered operation (see HookVeto)
+	veto(message: string, status?: number): HookVeto;
+	log(...args: unknown[]): void;
+}
+
+/**
+ * Shape of a plugin entry module. Either named exports or a default export object.
+ */
+export interface PluginModule {
+	activate(api: PluginApi): void | Promise<void>;
+	deactivate?(api: PluginApi): void | Promise<void>;
+}
+
+export interface DiscoveredPlugin {
+	directory: string;
+	manifest: PluginManifest | null;
+	error?: string;
+}
+
+interface Registration {
+	type: "action" | "filter";
+	tag: string;
+	callback: Function;
+	priority: number;
+}
+
+interface LoadedPlugin {
+	module: PluginModule;
+	api: PluginApi;
+	registrations: Registration[];
+	settings: Record<string, unknown>;
+	// Set once unloaded; later registrations through the API are ignored
+	closed: boolean;
+}
+
+type PluginModel = typeof models.plugins;
+
+const COMPARATOR_PATTERN = /^(>=|<=|>|<|=|\^|~)?\s*v?(\d+|x|\*)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?/;
+
+function parseVersion(version: string): number[] {
+	return version
+		.replace(/^v/, "")
+		.split(/[.-]/)
+		.slice(0, 3)
+		.map((part) => Number.parseInt(part, 10) || 0);
+}
+
+function compareVersions(a: number[], b: number[]): number {
+	for (let i = 0; i < 3; i++) {
+		const diff = (a[i] ?? 0) - (b[i] ?? 0);
+		if (diff !== 0) return diff;
+	}
+	return 0;
+}
+
+function satisfiesComparator(version: number[], comparator: string): boolean {
+	const match = COMPARATOR_PATTERN.exec(comparator);
+	if (!match) return false;
+
+	const [, operator = "=", ...parts] = match;
+	const wildcardAt = parts.findIndex((part) => part === undefined || part === "x" || part === "*");
+	const target = parts.map((part) => Number.parseInt(part ?? "0", 10) || 0);
+
+	// "1.x" / "1" behave like "~1.0.0" restricted to the given parts
+	if (operator === "=" && wildcardAt !== -1) {
+		return version.slice(0, wildcardAt).every((v, i) => v === target[i]);
+	}
+
+	const cmp = compareVersions(version, target);
+	switch (operator) {
+		case ">=":
+			return cmp >= 0;
+		case "<=":
+			return cmp <= 0;
+		case ">":
+			return cmp > 0;
+		case "<":
+			return cmp < 0;
+		case "^": {
+			const major = target[0];
+			return cmp >= 0 && (major > 0 ? version[0] === major : version[1] === target[1]);
+		}
+		case "~":
+			return cmp >= 0 && version[0] === target[0] && version[1] === target[1];
+		default:
+			return cmp === 0;
+	}
+}
+
+/**
+ * Checks a version against a small semver range syntax:
+ * space-separated comparators (`>=1.0.0 <2.0.0`), `^`, `~`, wildcards and `||`.
+ */
+export function satisfiesVersion(version: string, range: string): boolean {
+	const parsed = parseVersion(version);
+	return range.split("||").some((set) => {
+		const comparators = set
+			.trim()
+			.replace(/(>=|<=|>|<|=|\^|~)\s+/g, "$1")
+			.split(/\s+/)
+			.filter(Boolean);
+		if (comparators.length === 0 || comparators.includes("*")) return true;
+		return comparators.every((comparator) => satisfiesComparator(parsed, comparator));
+	});
+}
+
+function readCoreVersion(): string {
+	try {
+		const pkg = JSON.parse(readFileSync(path.join(process.cwd(), "package.json"), "utf8"));
+		return typeof pkg.version === "string" ? pkg.version : "0.0.0";
+	} catch {
+		return "0.0.0";
+	}
+}
+
+/**
+ * Default values declared by a manifest's settings fields
+ */
+function defaultSettings(manifest: PluginManifest): Record<string, unknown> {
+	return Object.fromEntries(
+		Object.entries(manifest.settings)
+			.filter(([, field]) => field.default !== undefined)
+			.map(([key, field]) => [key, field.default]),
+	);
+}
+
+/**
+ * Fingerprint of a plugin package: every file's path, size and modification
+ * time, skipping node_modules and dot directories
+ */
+async function packageSignature(directory: string): Promise<string> {
+	const hash = createHash("sha1");
+	const walk = async (relative: string) => {
+		const dirents = await fs.readdir(path.join(directory, relative), { withFileTypes: true });
+		for (const dirent of dirents.sort((a, b) => a.name.localeCompare(b.name))) {
+			const file = path.join(relative, dirent.name);
+			if (dirent.isDirectory()) {
+				if (dirent.name !== "node_modules" && !dirent.name.startsWith(".")) await walk(file);
+			} else if (dirent.isFile()) {
+				const stat = await fs.stat(path.join(directory, file));
+				hash.update(`${file}:${stat.size}:${stat.mtimeMs}\n`);
+			}
+		}
+	};
+	await walk("");
+	return hash.digest("hex").slice(0, 16);
+}
+
+/**
+ * Discovers plugin packages on disk, mirrors them into the `plugins` table and
+ * registers the actions and filters of active plugins on the HookSystem.
+ * Plugins can be activated and deactivated at runtime without a restart.
+ */
+export class PluginManager {
+	private hooks: HookSystem;
+	private pluginModel: PluginModel;
+	private directory: string;
+	private coreVersion: string;
+	private loaded: Map<string, LoadedPlugin>;
+	private errors: Map<string, string>;
+
+	constructor(
+		options: {
+			hooks?: HookSystem;
+			pluginModel?: PluginModel;
+			directory?: string;
+			coreVersion?: string;
+		} = {},
+	) {
+		this.hooks = options.hooks ?? hooks;
+		this.pluginModel = options.pluginModel ?? models.plugins;
+		this.directory = path.resolve(options.directory ?? CONFIG.PLUGINS.DIRECTORY);
+		this.coreVersion = options.coreVersion ?? readCoreVersion();
+		this.loaded = new Map();
+		this.errors = new Map();
+	}
+
+	getCoreVersion() {
+		return this.coreVersion;
+	}
+
+	isLoaded(pluginId: string) {
+		return this.loaded.has(pluginId);
+	}
+
+	getError(pluginId: string) {
+		return this.errors.get(pluginId);
+	}
+
+	// Scan the plugin directory for packages with a valid manifest
+	async discover(): Promise<DiscoveredPlugin[]> {
+		let entries: string[];
+		try {
+			const dirents = await fs.readdir(this.directory, { withFileTypes: true });
+			entries = dirents.filter((d) => d.isDirectory()).map((d) => d.name);
+		} catch {
+			return [];
+		}
+
+		const discovered: DiscoveredPlugin[] = [];
+		for (const entry of entries.sort()) {
+			const directory = path.join(this.directory, entry);
+			try {
+				const raw = await fs.readFile(path.join(directory, CONFIG.PLUGINS.MANIFEST_FILE), "utf8");
+				const parsed = pluginManifestSchema.safeParse(JSON.parse(raw));
+				discovered.push(
+					parsed.success
+						? { directory, manifest: parsed.data }
+						: { directory, manifest: null, error: parsed.error.errors[0]?.message },
+				);
+			} catch (error) {
+				discovered.push({
+					directory,
+					manifest: null,
+					error: error instanceof Error ? error.message : String(error),
+				});
+			}
+		}
+		return discovered;
+	}
+
+	/**
+	 * Mirrors discovered packages into the `plugins` table.
+	 * New packages are inserted as inactive; known ones get their manifest data refreshed.
+	 *
+	 * @param authorId - User recorded as author of newly inserted rows
+	 */
+	async sync(authorId: string): Promise<Plugin[]> {
+		const discovered = await this.discover();
+		const synced: Plugin[] = [];
+
+		for (const { directory, manifest } of discovered) {
+			if (!manifest) continue;
+
+			const other = {
+				directory: path.basename(directory),
+				main: manifest.main,
+				settingsFields: manifest.settings,
+			};
+			const data = {
+				description: manifest.description ?? null,
+				version: manifest.version,
+				requires: manifest.requires,
+				other,
+			};
+
+			const existing = await this.pluginModel.findByName(manifest.name);
+			if (existing) {
+				synced.push(await this.pluginModel.update(existing.id, data));
+			} else {
+				synced.push(
+					await this.pluginModel.create({
+						name: manifest.name,
+						authorId,
+						status: "inactive",
+						settings: defaultSettings(manifest),
+						...data,
+					}),
+				);
+			}
+		}
+
+		return synced;
+	}
+
+	/**
+	 * Loads every plugin whose row is active. Failures are recorded per plugin
+	 * and never prevent the rest from loading.
+	 */
+	async loadActivePlugins() {
+		const active = await this.pluginModel.findActivePlugins();
+		for (const plugin of active) {
+			if (this.loaded.has(plugin.id)) continue;
+			try {
+				await this.load(plugin);
+			} catch (error) {
+				console.error(`Failed to load plugin ${plugin.name}:`, error);
+			}
+		}
+	}
+
+	// Activate a plugin: load its module, register hooks and mark the row active
+	async activate(pluginId: string): Promise<Plugin> {
+		const plugin = await this.pluginModel.findById(pluginId);
+		if (!plugin) {
+			throw new Error("Plugin not found");
+		}
+
+		if (!this.loaded.has(plugin.id)) {
+			await this.load(plugin);
+		}
+
+		const updated = await this.pluginModel.activate(plugin.id);
+		this.hooks.doAction("activate_plugin", updated);
+		return updated;
+	}
+
+	// Deactivate a plugin: run its teardown, remove its hooks and mark the row inactive
+	async deactivate(pluginId: string): Promise<Plugin> {
+		const plugin = await this.pluginModel.findById(pluginId);
+		if (!plugin) {
+			throw new Error("Plugin not found");
+		}
+
+		await this.unload(plugin.id);
+		this.errors.delete(plugin.id);
+
+		const updated = await this.pluginModel.deactivate(plugin.id);
+		this.hooks.doAction("deactivate_plugin", updated);
+		return updated;
+	}
+
+	// Save plugin settings; loaded plugins see the new values immediately
+	async updateSettings(pluginId: string, settings: Record<string, unknown>): Promise<Plugin> {
+		const plugin = await this.pluginModel.findById(pluginId);
+		if (!plugin) {
+			throw new Error("Plugin not found");
+		}
+
+		const merged = { ...((plugin.settings as Record<string, unknown>) || {}), ...settings };
+		const updated = await this.pluginModel.update(plugin.id, { settings: merged });
+
+		const loaded = this.loaded.get(plugin.id);
+		if (loaded) {
+			loaded.settings = merged;
+		}
+
+		this.hooks.doAction("update_plugin_settings", updated);
+		return updated;
+	}
+
+	private async load(plugin: Plugin) {
+		const other = (plugin.other || {}) as { directory?: string; main?: string };
+		if (!other.directory) {
+			return this.fail(plugin, "Plugin package is not installed");
+		}
+
+		if (!satisfiesVersion(this.coreVersion, plugin.requires)) {
+			return this.fail(
+				plugin,
+				`Requires NextPress ${plugin.requires} (running ${this.coreVersion})`,
+			);
+		}
+
+		const directory = path.join(this.directory, other.directory);
+		const entry = path.resolve(directory, other.main || "index.js");
+		if (!entry.startsWith(directory + path.sep)) {
+			return this.fail(plugin, "Plugin entry point must be inside the plugin directory");
+		}
+
+		let pluginModule: PluginModule;
+		try {
+			// Keyed by the package contents: re-activation reuses the module Node already
+			// holds and only imports a new instance once the plugin's files change
+			const signature = await packageSignature(directory);
+			const imported = await import(`${pathToFileURL(entry).href}?signature=${signature}`);
+			pluginModule = typeof imported.activate === "function" ? imported : imported.default;
+		} catch (error) {
+			return this.fail(plugin, `Failed to import ${other.main || "index.js"}: ${(error as Error).message}`);
+		}
+
+		if (!pluginModule || typeof pluginModule.activate !== "function") {
+			return this.fail(plugin, "Plugin entry point does not export an activate function");
+		}
+
+		const registrations: Registration[] = [];
+		const state: LoadedPlugin = {
+			module: pluginModule,
+			registrations,
+			settings: (plugin.settings as Record<string, unknown>) || {},
+			api: undefined as unknown as PluginApi,
+			closed: false,
+		};
+
+		state.api = {
+			name: plugin.name,
+			version: plugin.version,
+			addAction: (tag, callback, priority = 10) => {
+				if (state.closed) return;
+				this.hooks.addAction(tag, callback, priority);
+				registrations.push({ type: "action", tag, callback, priority });
+			},
+			addFilter: (tag, callback, priority = 10) => {
+				if (state.closed) return;
+				this.hooks.addFilter(tag, callback, priority);
+				registrations.push({ type: "filter", tag, callback, priority });
+			},
+			getSettings: () => ({ ...state.settings }),
+			veto: (message, status) => new HookVeto(message, status),
+			log: (...args) => console.log(`[plugin:${plugin.name}]`, ...args),
+		};
+
+		try {
+			await pluginModule.activate(state.api);
+		} catch (error) {
+			state.closed = true;
+			this.removeRegistrations(registrations);
+			return this.fail(plugin, `activate() threw: ${(error as Error).message}`);
+		}
+
+		this.loaded.set(plugin.id, state);
+		this.errors.delete(plugin.id);
+	}
+
+	private async unload(pluginId: string) {
+		const loaded = this.loaded.get(pluginId);
+		if (!loaded) return;
+
+		try {
+			await loaded.module.deactivate?.(loaded.api);
+		} catch (error) {
+			console.error(`Error deactivating plugin ${loaded.api.name}:`, error);
+		}
+
+		// Hooks registered later (timers, pending promises) must not outlive the plugin
+		loaded.closed = true;
+		this.removeRegistrations(loaded.registrations);
+		this.loaded.delete(pluginId);
+	}
+
+	private removeRegistrations(registrations: Registration[]) {
+		for (const { type, tag, callback, priority } of registrations) {
+			if (type === "action") {
+				this.hooks.removeAction(tag, callback, priority);
+			} else {
+				this.hooks.removeFilter(tag, callback, priority);
+			}
+		}
+		registrations.length = 0;
+	}
+
+	private fail(plugin: Plugin, message: string): never {
+		this.errors.set(plugin.id, message);
+		throw new Error(message);
+	}
+}
+
+// Global plugin manager instance
+const pluginManager = new PluginManager();
+
+export default pluginManager;
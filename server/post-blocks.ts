@@ -0,0 +1,332 @@
+/**
+ * Post blocks on the way out: `post/list`, `post/comments`, `post/navigation`,
+ * `post/author-box`, `post/info` and `post/toc` show live content, but block
+ * rendering is synchronous. Everything that renders published blocks resolves
+ * them here first (after synced patterns), which puts the data each block
+ * shows into its content for the SSR components in renderer/react/post.
+ */
+import type { BlockConfig, Post, User } from "@shared/schema-types";
+import type { Filter } from "@shared/create-models";
+import type { models as defaultModels } from "./storage.js";
+import { commentsOpen } from "./comment-submission.js";
+import type {
+	PostAuthorData,
+	PostCommentItem,
+	PostHeading,
+	PostSummary,
+} from "../renderer/react/block-types";
+
+/** The models post blocks read from */
+export type PostBlockModels = Pick<typeof defaultModels, "posts" | "comments" | "users" | "terms" | "sites">;
+
+export interface PostBlockContext {
+	models: PostBlockModels;
+	/** Post being rendered; blocks without a `postId` of their own show this post */
+	post?: Post | null;
+	/** Posts published after this instant are left out (default: now) */
+	now?: Date;
+	/**
+	 * Render the comment form (default: true); off for static exports, which
+	 * have no /api/comments to post to. Its token is fetched by the form itself.
+	 */
+	commentForm?: boolean;
+}
+
+// Upper bound for a post list, whatever its postsPerPage says
+const MAX_LIST_POSTS = 50;
+const MAX_COMMENTS = 1000;
+
+type BlockSettings = Record<string, unknown>;
+
+/** Public URL of a post */
+export function postUrl(slug: string): string {
+	return `/post/${encodeURIComponent(slug)}`;
+}
+
+const stripTags = (html: string) => html.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
+
+/** Text a block shows, for word counts and heading anchors */
+function blockText(block: BlockConfig): string {
+	const content = block.content as { kind?: string; value?: unknown; content?: unknown } | undefined;
+	if (block.name === "core/markdown" && typeof content?.content === "string") return content.content;
+	if ((content?.kind === "text" || content?.kind === "markdown") && typeof content.value === "string") {
+		return stripTags(content.value);
+	}
+	return "";
+}
+
+function countWords(blocks: BlockConfig[]): number {
+	return blocks.reduce(
+		(total, block) =>
+			total + (blockText(block).match(/\S+/g)?.length ?? 0) + countWords(block.children ?? []),
+		0,
+	);
+}
+
+const settingsOf = (block: BlockConfig): BlockSettings => {
+	const content = block.content as BlockSettings | undefined;
+	if (content?.kind === "structured") return (content.data as BlockSettings) ?? {};
+	return content ?? {};
+};
+
+/** Copy of a block with `data` added to its content, keeping the content's shape */
+function withData(block: BlockConfig, data: BlockSettings): BlockConfig {
+	const content = block.content as BlockSettings | undefined;
+	return {
+		...block,
+		content: (content?.kind === "structured"
+			? { kind: "structured", data: { ...(content.data as BlockSettings), ...data } }
+			: { ...content, ...data }) as BlockConfig["content"],
+	};
+}
+
+const isoDate = (date: Date | null | undefined) => (date ? date.toISOString() : null);
+
+const displayName = (user: User | undefined) =>
+	[user?.firstName, user?.lastName].filter(Boolean).join(" ") || user?.username || null;
+
+/**
+ * Adds anchors to headings that have none and lists the headings a
+ * `post/toc` links to. Anchors are derived from the heading text and
+ * numbered when two headings share one.
+ */
+function anchorHeadings(blocks: BlockConfig[], used = new Map<string, number>()) {
+	const headings: PostHeading[] = [];
+	const anchored = blocks.map((block): BlockConfig => {
+		let current = block;
+		if (block.name === "core/heading" && !block.other?.html) {
+			const content = block.content as { anchor?: string; level?: number } | undefined;
+			const text = blockText(block);
+			let anchor = content?.anchor;
+			if (!anchor && text) {
+				const base =
+					text
+						.toLowerCase()
+						.replace(/[^a-z0-9]+/g, "-")
+						.replace(/(^-|-$)/g, "") || "section";
+				const seen = used.get(base) ?? 0;
+				used.set(base, seen + 1);
+				anchor = seen ? `${base}-${seen + 1}` : base;
+				current = withData(block, { anchor });
+			}
+			if (anchor && text) headings.push({ id: anchor, text, level: content?.level || 2 });
+		}
+		if (current.children) {
+			const nested = anchorHeadings(current.children, used);
+			headings.push(...nested.headings);
+			current = { ...current, children: nested.blocks };
+		}
+		return current;
+	});
+	return { blocks: anchored, headings };
+}
+
+function containsBlock(blocks: BlockConfig[], name: string): boolean {
+	return blocks.some((block) => block.name === name || containsBlock(block.children ?? [], name));
+}
+
+/**
+ * Loads the data of every post block in `blocks`, including blocks nested in
+ * containers, and returns copies of the blocks carrying it. Blocks whose post
+ * can't be found (or isn't published) get no data and render nothing.
+ *
+ * @param blocks - `blocks` of a page, post or template, with patterns resolved
+ * @param context - Models and the post being rendered, if any
+ */
+export async function resolvePostBlocks(blocks: unknown, context: PostBlockContext): Promise<BlockConfig[]> {
+	const { models } = context;
+	const now = context.now ?? new Date();
+	let configs = (Array.isArray(blocks) ? blocks : []) as BlockConfig[];
+
+	let headings: PostHeading[] = [];
+	if (containsBlock(configs, "post/toc")) {
+		({ blocks: configs, headings } = anchorHeadings(configs));
+	}
+
+	const published: Filter[] = [
+		{ where: "status", equals: "publish" },
+		{ where: "publishedAt", lessThanOrEqual: now },
+	];
+
+	const users = new Map<string, User | undefined>();
+	const findUser = async (id: string | null | undefined) => {
+		if (!id) return undefined;
+		if (!users.has(id)) users.set(id, await models.users.findById(id));
+		return users.get(id);
+	};
+
+	const summarize = async (post: Post): Promise<PostSummary> => ({
+		id: post.id,
+		title: post.title,
+		url: postUrl(post.slug),
+		excerpt: post.excerpt,
+		featuredImage: post.featuredImage,
+		publishedAt: isoDate(post.publishedAt),
+		author: displayName(await findUser(post.authorId)),
+	});
+
+	const posts = new Map<string, Post | undefined>();
+	const findPost = async (settings: BlockSettings): Promise<Post | undefined> => {
+		const id = typeof settings.postId === "string" && settings.postId ? settings.postId : undefined;
+		if (!id) return context.post ?? undefined;
+		if (id === context.post?.id) return context.post;
+		if (!posts.has(id)) {
+			const post = /^[0-9a-f-]{36}$/i.test(id) ? await models.posts.findById(id) : undefined;
+			const isPublished = post?.status === "publish" && (!post.publishedAt || post.publishedAt <= now);
+			posts.set(id, isPublished ? post : undefined);
+		}
+		return posts.get(id);
+	};
+
+	const resolvers: Record<string, (settings: BlockSettings) => Promise<BlockSettings | null>> = {
+		"post/list": async (settings) => {
+			const filters = [...published];
+			if (typeof settings.blogId === "string" && settings.blogId) {
+				filters.push({ where: "blogId", equals: settings.blogId });
+			}
+			for (const taxonomy of ["category", "tag"] as const) {
+				const value = settings[taxonomy];
+				if (typeof value !== "string" || !value) continue;
+				const term = await models.terms.resolve(taxonomy, value);
+				// A list filtered by a term that no longer exists is empty, not unfiltered
+				if (!term) return { posts: [] };
+				const termIds = taxonomy === "category" ? await models.terms.findDescendantIds(term.id) : [term.id];
+				filters.push(models.terms.postsFilter(termIds));
+			}
+
+			const limit = Math.min(MAX_LIST_POSTS, Math.max(1, Number(settings.postsPerPage) || 6));
+			const found = await models.posts.findManyWhere(filters, {
+				limit,
+				orderBy: {
+					property: settings.orderBy === "title" ? "title" : "publishedAt",
+					order: settings.order === "asc" ? "ascending" : "descending",
+				},
+			});
+			const items: PostSummary[] = [];
+			for (const post of found) items.push(await summarize(post));
+			return { posts: items };
+		},
+
+		"post/comments": async (settings) => {
+			const post = await findPost(settings);
+			if (!post) return null;
+
+			const approved = await models.comments.findManyWhere(
+				[
+					{ where: "postId", equals: post.id },
+					{ where: "status", equals: "approved" },
+				],
+				{ limit: MAX_COMMENTS, orderBy: { property: "createdAt", order: "ascending" } },
+			);
+			const ids = new Set(approved.map((comment) => comment.id));
+			const items = new Map<string, PostCommentItem>();
+			for (const comment of approved) {
+				items.set(comment.id, {
+					id: comment.id,
+					author: comment.authorName || displayName(await findUser(comment.authorId)) || "Anonymous",
+					date: isoDate(comment.createdAt),
+					content: comment.content,
+					replies: [],
+				});
+			}
+			// Replies to comments that aren't shown (pending, spam) are shown at the top level
+			const topLevel: PostCommentItem[] = [];
+			for (const comment of approved) {
+				const item = items.get(comment.id)!;
+				if (comment.parentId && ids.has(comment.parentId)) items.get(comment.parentId)!.replies.push(item);
+				else topLevel.push(item);
+			}
+
+			const perPage = Math.max(1, Number(settings.commentsPerPage) || 10);
+			return {
+				postId: post.id,
+				commentsOpen: commentsOpen(post, await models.sites.getSettings()),
+				comments: topLevel.slice(0, perPage),
+				...(context.commentForm === false ? { showForm: false } : {}),
+			};
+		},
+
+		"post/navigation": async (settings) => {
+			const post = await findPost(settings);
+			if (!post?.publishedAt) return null;
+
+			const sameBlog: Filter[] = post.blogId ? [{ where: "blogId", equals: post.blogId }] : [];
+			const [prev] = await models.posts.findManyWhere(
+				[...published, ...sameBlog, { where: "publishedAt", lessThan: post.publishedAt }],
+				{ limit: 1, orderBy: { property: "publishedAt", order: "descending" } },
+			);
+			const [next] = await models.posts.findManyWhere(
+				[...published, ...sameBlog, { where: "publishedAt", greaterThan: post.publishedAt }],
+				{ limit: 1, orderBy: { property: "publishedAt", order: "ascending" } },
+			);
+			return {
+				prev: prev ? await summarize(prev) : null,
+				next: next ? await summarize(next) : null,
+			};
+		},
+
+		"post/author-box": async (settings) => {
+			const authorId =
+				typeof settings.authorId === "string" && settings.authorId
+					? settings.authorId
+					: (await findPost(settings))?.authorId;
+			const user = await findUser(authorId);
+			if (!user) return null;
+
+			const bio = (user.other as { bio?: unknown } | null)?.bio;
+			const author: PostAuthorData = {
+				name: displayName(user)!,
+				avatar: user.profileImageUrl,
+				bio: typeof bio === "string" ? bio : null,
+			};
+			return { author };
+		},
+
+		"post/info": async (settings) => {
+			const post = await findPost(settings);
+			if (!post) return null;
+
+			const [categories, tags] = await Promise.all([
+				models.terms.findByPost(post.id, "category"),
+				models.terms.findByPost(post.id, "tag"),
+			]);
+			return {
+				publishedAt: isoDate(post.publishedAt),
+				categories: categories.map((term) => term.name),
+				tags: tags.map((term) => term.name),
+				wordCount: countWords((Array.isArray(post.blocks) ? post.blocks : []) as BlockConfig[]),
+			};
+		},
+
+		"post/toc": async (settings) => {
+			const maxDepth = Math.min(6, Math.max(1, Number(settings.maxDepth) || 3));
+			return { headings: headings.filter((heading) => heading.level <= maxDepth) };
+		},
+	};
+
+	const resolve = async (list: BlockConfig[]): Promise<BlockConfig[]> => {
+		const resolved: BlockConfig[] = [];
+		for (const block of list) {
+			let current = block;
+			const resolver = resolvers[block.name];
+			// Blocks with an HTML override (e.g. archive post lists) are already rendered
+			if (resolver && !block.other?.html) {
+				const data = await resolver(settingsOf(block));
+				if (data) current = withData(block, data);
+			}
+			if (current.children) current = { ...current, children: await resolve(current.children) };
+			resolved.push(current);
+		}
+		return resolved;
+	};
+
+	return resolve(configs);
+}
+
+/** Copy of a page, post or template with its post blocks resolved */
+export async function withResolvedPostBlocks<T extends { blocks: unknown }>(
+	record: T,
+	context: PostBlockContext,
+): Promise<T> {
+	return { ...record, blocks: await resolvePostBlocks(record.blocks, context) };
+}
@@ -0,0 +1,136 @@
+/**
+ * Scheduled publishing and expiry of posts and pages.
+ * Saving with a future `publishedAt` stores the `future` status and queues a
+ * job that publishes at that time; `expiresAt` queues one that moves the
+ * content back to draft. Jobs are kept in step through `save_post`.
+ */
+import type { Page, Post } from "@shared/schema-types";
+import { CONFIG } from "./config.js";
+import hooks, { type HookSystem } from "./hooks.js";
+import { appendRevision } from "./revisions.js";
+import type { JobScheduler } from "./scheduler";
+import type { models } from "./storage";
+
+type PublishingModels = Pick<typeof models, "posts" | "pages">;
+type ContentType = "post" | "page";
+
+export const PUBLISH_JOB = "publish_scheduled";
+export const EXPIRE_JOB = "expire_content";
+
+const { PUBLISH, FUTURE, DRAFT } = CONFIG.STATUS;
+
+interface ScheduleFields {
+	status?: string | null;
+	publishedAt?: Date | null;
+	expiresAt?: Date | null;
+}
+
+/**
+ * Settles the status of a post or page being saved against its dates, with
+ * fields missing from `changes` taken from `existing`: publishing with a
+ * future date schedules, a `future` status whose date has passed publishes.
+ *
+ * @returns The status to store, or an error when the dates do not allow it
+ */
+export function resolveSchedule(
+	changes: ScheduleFields,
+	existing: ScheduleFields | null = null,
+	now: Date = new Date(),
+): { status?: string; error?: string } {
+	const pick = <K extends keyof ScheduleFields>(field: K) =>
+		changes[field] !== undefined ? changes[field] : existing?.[field];
+	const status = pick("status");
+	const publishedAt = pick("publishedAt");
+	const expiresAt = pick("expiresAt");
+
+	let next = status ?? undefined;
+	if (status === PUBLISH && publishedAt && publishedAt > now) next = FUTURE;
+	if (status === FUTURE && publishedAt && publishedAt <= now) next = PUBLISH;
+
+	if (next === FUTURE && !publishedAt) {
+		return { error: "A publish date is required to schedule" };
+	}
+	if ((next === PUBLISH || next === FUTURE) && expiresAt && publishedAt && expiresAt <= publishedAt) {
+		return { error: "The expiry date must be after the publish date" };
+	}
+	return { status: next };
+}
+
+const publishKey = (id: string) => `publish:${id}`;
+const expireKey = (id: string) => `expire:${id}`;
+
+/**
+ * Queues, moves or drops the publish and expiry jobs of a saved post or page
+ */
+export async function syncContentSchedule(scheduler: JobScheduler, type: ContentType, record: Post | Page) {
+	const payload = { type, id: record.id };
+
+	if (record.status === FUTURE && record.publishedAt) {
+		await scheduler.schedule(PUBLISH_JOB, record.publishedAt, payload, publishKey(record.id));
+	} else {
+		await scheduler.cancel(publishKey(record.id));
+	}
+
+	if (record.expiresAt && (record.status === PUBLISH || record.status === FUTURE)) {
+		await scheduler.schedule(EXPIRE_JOB, record.expiresAt, payload, expireKey(record.id));
+	} else {
+		await scheduler.cancel(expireKey(record.id));
+	}
+}
+
+/**
+ * Registers the publish and expiry job handlers and the hooks that schedule
+ * them. Handlers re-check the record, so a job left behind by an edit made
+ * while it was running does nothing.
+ */
+export function registerPublishingJobs(
+	scheduler: JobScheduler,
+	modelsObj: PublishingModels,
+	hookSystem: HookSystem = hooks,
+) {
+	const load = (type: unknown, id: unknown): Promise<Post | Page | undefined> =>
+		type === "page"
+			? (modelsObj.pages.findById(String(id)) as Promise<Page | undefined>)
+			: modelsObj.posts.findById(String(id));
+	// Saved like an edit: the version moves on and the previous blocks become a revision
+	const setStatus = async (record: Post | Page, status: string): Promise<Post | Page> => {
+		const changes = { status, ...appendRevision(record) };
+		const saved =
+			"siteId" in record
+				? await modelsObj.pages.updateVersioned(record.id, record.version, changes)
+				: await modelsObj.posts.updateVersioned(record.id, record.version, changes);
+		// Edited while the job ran; throwing retries the job, which re-checks the record
+		if (!saved) throw new Error(`${"siteId" in record ? "Page" : "Post"} ${record.id} changed while setting its status`);
+		return saved;
+	};
+
+	scheduler.register(PUBLISH_JOB, async ({ type, id }) => {
+		const record = await load(type, id);
+		if (!record || record.status !== FUTURE) return;
+		if (record.publishedAt && record.publishedAt > new Date()) return;
+
+		const published = await setStatus(record, PUBLISH);
+		await hookSystem.doActionAsync("save_post", published);
+		await hookSystem.doActionAsync("publish_post", published);
+	});
+
+	scheduler.register(EXPIRE_JOB, async ({ type, id }) => {
+		const record = await load(type, id);
+		if (!record?.expiresAt || record.expiresAt > new Date()) return;
+		if (record.status !== PUBLISH && record.status !== FUTURE) return;
+
+		const expired = await setStatus(record, DRAFT);
+		await hookSystem.doActionAsync("save_post", expired);
+		await hookSystem.doActionAsync("expire_post", expired);
+	});
+
+	hookSystem.addAction("save_post", async (record: (Post | Page) | null | undefined) => {
+		if (!record?.id) return;
+		await syncContentSchedule(scheduler, "siteId" in record ? "page" : "post", record);
+	});
+	hookSystem.addAction("delete_post", async (id: string | null | undefined) => {
+		if (!id) return;
+		await scheduler.cancel(publishKey(id));
+		await scheduler.cancel(expireKey(id));
+	});
+}
@@ -0,0 +1,261 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import hooks, { type HookSystem } from "./hooks.js";
+import { CONFIG } from "./config.js";
+
+/**
+ * A rendered HTML document with the validators sent alongside it
+ */
+export interface RenderCacheEntry {
+	html: string;
+	/** Strong ETag derived from the HTML, quoted */
+	etag: string;
+	/** Epoch milliseconds used for Last-Modified */
+	lastModified: number;
+}
+
+/**
+ * Storage for rendered documents. Keys are "<siteId>/<slug>/<version>";
+ * prefix deletes drop every version of one page.
+ */
+export interface RenderCacheBackend {
+	readonly name: string;
+	get(key: string): Promise<RenderCacheEntry | undefined>;
+	set(key: string, entry: RenderCacheEntry): Promise<void>;
+	deletePrefix(prefix: string): Promise<void>;
+	clear(): Promise<void>;
+}
+
+/**
+ * Keeps entries in process memory, evicting the least recently used
+ * entry once `maxEntries` is reached.
+ */
+export class MemoryCacheBackend implements RenderCacheBackend {
+	readonly name = "memory";
+	private entries = new Map<string, RenderCacheEntry>();
+
+	constructor(private maxEntries: number = CONFIG.RENDER_CACHE.MAX_ENTRIES) {}
+
+	async get(key: string) {
+		const entry = this.entries.get(key);
+		if (entry) {
+			// Re-insert so iteration order tracks recency
+			this.entries.delete(key);
+			this.entries.set(key, entry);
+		}
+		return entry;
+	}
+
+	async set(key: string, entry: RenderCacheEntry) {
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		while (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value as string;
+			this.entries.delete(oldest);
+		}
+	}
+
+	async deletePrefix(prefix: string) {
+		for (const key of Array.from(this.entries.keys())) {
+			if (key.startsWith(prefix)) {
+				this.entries.delete(key);
+			}
+		}
+	}
+
+	async clear() {
+		this.entries.clear();
+	}
+
+	get size() {
+		return this.entries.size;
+	}
+}
+
+/**
+ * Stores one JSON file per entry so the cache survives restarts and can be
+ * shared by processes on the same volume. File names are the URI-encoded
+ * key, which keeps prefix deletes a directory listing.
+ */
+export class FileCacheBackend implements RenderCacheBackend {
+	readonly name = "filesystem";
+	private directory: string;
+
+	constructor(directory: string = CONFIG.RENDER_CACHE.DIRECTORY) {
+		this.directory = path.resolve(directory);
+	}
+
+	private fileFor(key: string) {
+		return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+	}
+
+	async get(key: string) {
+		try {
+			const raw = await fs.readFile(this.fileFor(key), "utf8");
+			return JSON.parse(raw) as RenderCacheEntry;
+		} catch {
+			return undefined;
+		}
+	}
+
+	async set(key: string, entry: RenderCacheEntry) {
+		await fs.mkdir(this.directory, { recursive: true });
+		// Write then rename so readers never see a partial file
+		const file = this.fileFor(key);
+		const temp = `${file}.${process.pid}.tmp`;
+		await fs.writeFile(temp, JSON.stringify(entry));
+		await fs.rename(temp, file);
+	}
+
+	async deletePrefix(prefix: string) {
+		const encoded = encodeURIComponent(prefix);
+		const files = await this.list();
+		await Promise.all(
+			files
+				.filter((file) => file.startsWith(encoded))
+				.map((file) => fs.rm(path.join(this.directory, file), { force: true })),
+		);
+	}
+
+	async clear() {
+		const files = await this.list();
+		await Promise.all(files.map((file) => fs.rm(path.join(this.directory, file), { force: true })));
+	}
+
+	private async list() {
+		try {
+			return (await fs.readdir(this.directory)).filter((file) => file.endsWith(".json"));
+		} catch {
+			return [];
+		}
+	}
+}
+
+/**
+ * Builds the backend named by CONFIG.RENDER_CACHE.BACKEND
+ */
+export function createRenderCacheBackend(name: string = CONFIG.RENDER_CACHE.BACKEND): RenderCacheBackend {
+	switch (name) {
+		case "filesystem":
+			return new FileCacheBackend();
+		case "memory":
+			return new MemoryCacheBackend();
+		default:
+			console.warn(`[RenderCache] Unknown backend '${name}', using memory`);
+			return new MemoryCacheBackend();
+	}
+}
+
+/**
+ * Rendered-HTML cache for published pages, keyed by site, slug and page version.
+ * Saving a page bumps its version, so stale entries are never served; the hooks
+ * registered by `listen()` also drop them eagerly and flush everything when a
+ * theme, template, synced pattern, blog post, comment or setting changes.
+ */
+export class RenderCache {
+	private backend: RenderCacheBackend;
+	private hits = 0;
+	private misses = 0;
+
+	constructor(backend: RenderCacheBackend = createRenderCacheBackend()) {
+		this.backend = backend;
+	}
+
+	/** Swap the storage backend (e.g. from a plugin); existing entries are not migrated */
+	setBackend(backend: RenderCacheBackend) {
+		this.backend = backend;
+	}
+
+	getBackend() {
+		return this.backend;
+	}
+
+	static key(siteId: string, slug: string, version: number | null | undefined) {
+		return `${RenderCache.pagePrefix(siteId, slug)}${version ?? 0}`;
+	}
+
+	private static pagePrefix(siteId: string, slug: string) {
+		return `${siteId}/${slug}/`;
+	}
+
+	async get(key: string) {
+		const entry = await this.backend.get(key);
+		if (entry) this.hits++;
+		else this.misses++;
+		return entry;
+	}
+
+	/**
+	 * Stores rendered HTML and returns the entry with its validators.
+	 * Backend write failures are logged; the rendered HTML is still returned.
+	 */
+	async set(key: string, html: string, lastModified: Date | null = null): Promise<RenderCacheEntry> {
+		const entry: RenderCacheEntry = {
+			html,
+			etag: `"${createHash("sha1").update(html).digest("base64url")}"`,
+			// HTTP dates have second precision
+			lastModified: Math.floor((lastModified ?? new Date()).getTime() / 1000) * 1000,
+		};
+		try {
+			await this.backend.set(key, entry);
+		} catch (error) {
+			console.error("[RenderCache] Failed to store entry:", error);
+		}
+		return entry;
+	}
+
+	async invalidatePage(siteId: string, slug: string) {
+		await this.backend.deletePrefix(RenderCache.pagePrefix(siteId, slug));
+	}
+
+	async invalidateAll() {
+		await this.backend.clear();
+	}
+
+	stats() {
+		return { backend: this.backend.name, hits: this.hits, misses: this.misses };
+	}
+
+	/**
+	 * Registers the invalidation hooks:
+	 * save_post / publish_post / expire_post drop the saved page; saving a blog
+	 * post flushes everything, as it can show up in any page's post list, and so
+	 * do delete_post (only the id is passed) and new_comment, approve_comment,
+	 * spam_comment and delete_comment, since post blocks render comments.
+	 * switch_theme, theme_installed, save_global_styles, save_template /
+	 * delete_template, save_pattern / delete_pattern and update_settings flush the
+	 * whole cache, since a pattern, a style or a setting may appear on any page.
+	 */
+	listen(hookSystem: HookSystem = hooks) {
+		const flush = async () => {
+			await this.invalidateAll();
+		};
+		const saved = async (record: { siteId?: string | null; slug?: string } | null | undefined) => {
+			if (!record) return;
+			if (!("siteId" in record)) await flush();
+			else if (record.siteId && record.slug) await this.invalidatePage(record.siteId, record.slug);
+		};
+
+		hookSystem.addAction("save_post", saved);
+		hookSystem.addAction("publish_post", saved);
+		hookSystem.addAction("expire_post", saved);
+		hookSystem.addAction("delete_post", flush);
+		hookSystem.addAction("new_comment", flush);
+		hookSystem.addAction("approve_comment", flush);
+		hookSystem.addAction("spam_comment", flush);
+		hookSystem.addAction("delete_comment", flush);
+		hookSystem.addAction("switch_theme", flush);
+		hookSystem.addAction("theme_installed", flush);
+		hookSystem.addAction("save_global_styles", flush);
+		hookSystem.addAction("save_template", flush);
+		hookSystem.addAction("delete_template", flush);
+		hookSystem.addAction("save_pattern", flush);
+		hookSystem.addAction("delete_pattern", flush);
+		hookSystem.addAction("update_settings", flush);
+	}
+}
+
+const renderCache = new RenderCache();
+
+export default renderCache;
@@ -4,7 +4,8 @@ import { Strategy, type VerifyFunction } from "openid-client/passport";
 
 import passport from "passport";
 import session from "express-session";
-import type { Express, RequestHandler } from "express";
+import type { Express, Request, RequestHandler, Response } from "express";
+import type { IncomingMessage } from "node:http";
 import memoize from "memoizee";
 import connectPg from "connect-pg-simple";
 import { models } from "./storage";
@@ -30,7 +31,13 @@ const getOidcConfig = memoize(
 	{ maxAge: 3600 * 1000 },
 );
 
-export function getSession() {
+/**
+ * Session middleware; one instance so that requests outside Express (see
+ * `loadRequestSession`) read the same store
+ */
+export const getSession = memoize(createSession);
+
+function createSession() {
 	const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
 	const isProduction = process.env.NODE_ENV === "production";
 
@@ -99,6 +106,19 @@ async function upsertUser(claims: any) {
 	});
 }
 
+/**
+ * Runs the session and passport middleware on a request Express never
+ * handles, such as a WebSocket upgrade, so its user can be looked up
+ */
+export async function loadRequestSession(req: IncomingMessage): Promise<void> {
+	const middleware: RequestHandler[] = [getSession(), passport.initialize(), passport.session()];
+	for (const handler of middleware) {
+		await new Promise<void>((resolve, reject) =>
+			handler(req as Request, {} as Response, (error?: unknown) => (error ? reject(error) : resolve())),
+		);
+	}
+}
+
 export async function setupAuth(app: Express) {
 	app.set("trust proxy", 1);
 	app.use(getSession());
@@ -0,0 +1,99 @@
+/**
+ * Page and post revisions. Every save pushes a snapshot of the previous blocks
+ * onto `history`, newest first; these helpers build, prune and read it, and
+ * check the version a save was made against.
+ */
+import type { BlockConfig, Page, PageVersionEntry, Post, VersionConflict } from "@shared/schema-types";
+import { CONFIG } from "./config.js";
+
+/** A revision as listed by the API, without its blocks */
+export interface RevisionSummary {
+	version: number;
+	updatedAt: string;
+	authorId?: string;
+	message?: string;
+	blockCount: number;
+}
+
+type RevisionSource = Pick<Page | Post, "version" | "updatedAt" | "blocks" | "authorId" | "history">;
+
+export function pageHistory(page: Pick<Page | Post, "history">): PageVersionEntry[] {
+	return Array.isArray(page.history) ? page.history : [];
+}
+
+/** Snapshot of the page as it is now */
+export function revisionSnapshot(page: RevisionSource, message?: string): PageVersionEntry {
+	return {
+		version: page.version ?? 0,
+		updatedAt: page.updatedAt ? new Date(page.updatedAt).toISOString() : new Date().toISOString(),
+		blocks: (page.blocks ?? []) as BlockConfig[],
+		authorId: page.authorId,
+		...(message ? { message } : {}),
+	};
+}
+
+/**
+ * Version and history to store with the next save of `page`. The current
+ * blocks are pushed unless the newest revision already holds the same blocks
+ * (e.g. only the title changed since), and the history is cut to `maxRevisions`.
+ */
+export function appendRevision(
+	page: RevisionSource,
+	options: { maxRevisions?: number; message?: string } = {},
+): { version: number; history: PageVersionEntry[] } {
+	const maxRevisions = Math.max(1, options.maxRevisions ?? CONFIG.REVISIONS.MAX_PER_PAGE);
+	const history = pageHistory(page);
+	const snapshot = revisionSnapshot(page, options.message);
+	const unchanged =
+		history.length > 0 && JSON.stringify(history[0].blocks ?? []) === JSON.stringify(snapshot.blocks);
+
+	return {
+		version: (page.version ?? 0) + 1,
+		history: (unchanged ? history : [snapshot, ...history]).slice(0, maxRevisions),
+	};
+}
+
+export function summarizeRevision(entry: PageVersionEntry): RevisionSummary {
+	return {
+		version: entry.version,
+		updatedAt: entry.updatedAt,
+		authorId: entry.authorId,
+		message: entry.message,
+		blockCount: countBlocks(entry.blocks ?? []),
+	};
+}
+
+export function findRevision(page: Pick<Page | Post, "history">, version: number): PageVersionEntry | undefined {
+	return pageHistory(page).find((entry) => entry.version === version);
+}
+
+/**
+ * The `version` a save was made against, if the client sent one. Saves
+ * without it are not checked against concurrent edits.
+ */
+export function requestedVersion(body: unknown): number | undefined {
+	const version = (body as { version?: unknown } | null)?.version;
+	return Number.isInteger(version) ? (version as number) : undefined;
+}
+
+/**
+ * 409 body for a save made against `expectedVersion` of a record that has
+ * moved on. The base is the newest revision at or before that version; a
+ * revision skipped because its blocks matched the one before it has the
+ * same blocks as that one.
+ */
+export function versionConflict<T extends RevisionSource>(
+	record: T,
+	expectedVersion: number | undefined,
+	message: string,
+): VersionConflict<T> {
+	const base =
+		expectedVersion === undefined
+			? undefined
+			: pageHistory(record).find((entry) => entry.version <= expectedVersion);
+	return { message, current: record, base: base ?? null };
+}
+
+function countBlocks(blocks: BlockConfig[]): number {
+	return blocks.reduce((total, block) => total + 1 + countBlocks(block.children ?? []), 0);
+}
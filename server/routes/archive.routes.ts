@@ -0,0 +1,235 @@
+import { Router, type Request, type Response } from 'express';
+import type { Deps } from './shared/deps';
+import { asyncHandler } from './shared/async-handler';
+import { renderBlockDocument } from '../../renderer/render-page';
+import { escapeXml } from '../sitemap';
+import { buildRenderContext, type ArchiveContext } from '../templates';
+import type { Filter } from '@shared/create-models';
+import {
+  DEFAULT_ARCHIVE_BLOCKS,
+  archivePageUrl,
+  buildArchiveBlocks,
+  dateArchiveTitle,
+  monthRange,
+  renderArchivePosts,
+  selectArchiveTemplate,
+  type ArchivePostItem,
+} from '../archive';
+import { resolvePatterns } from '../patterns';
+
+/** What an archive route resolved before posts are loaded */
+interface ArchiveTarget {
+  type: ArchiveContext['type'];
+  title: string;
+  description?: string;
+  slug?: string;
+  year?: number;
+  month?: number;
+  path: string;
+  filters: Filter[];
+}
+
+/**
+ * Creates server-rendered archive routes for published posts.
+ * Pages hold `reading.postsPerPage` posts (`?page=N` for later pages) and are
+ * laid out by the first matching template of type `archive`, falling back to
+ * a title + post list layout. The render context carries `archive`, so
+ * `is_archive` / `archive_type` conditions and `{{archive.*}}` variables work.
+ *
+ * Endpoints:
+ * - GET /category/:slug      - Posts in a category and its subcategories
+ * - GET /tag/:slug           - Posts with a tag
+ * - GET /author/:username    - Posts by an author
+ * - GET /:year/:month        - Posts published in a month (e.g. /2026/03)
+ *
+ * @param deps - Injected dependencies (models, themeManager, getSiteSettings)
+ * @returns Express router with mounted archive routes
+ */
+export function createArchiveRoutes(deps: Deps): Router {
+  const router = Router();
+  const { models, themeManager, getSiteSettings } = deps;
+
+  function notFound(res: Response) {
+    res.status(404).setHeader('Content-Type', 'text/html');
+    res.send(themeManager.render404());
+  }
+
+  async function sendArchive(req: Request, res: Response, target: ArchiveTarget | null) {
+    if (!target) {
+      return notFound(res);
+    }
+
+    const settings = await models.sites.getSettings();
+    const perPage = Math.max(1, settings.reading.postsPerPage);
+    const page = Math.max(1, parseInt(String(req.query.page ?? '1'), 10) || 1);
+
+    const filters: Filter[] = [
+      { where: 'status', equals: 'publish' },
+      { where: 'publishedAt', lessThanOrEqual: new Date() },
+      ...target.filters,
+    ];
+    const totalPosts = await models.posts.count({ where: filters });
+    const totalPages = Math.max(1, Math.ceil(totalPosts / perPage));
+    if (page > totalPages) {
+      return notFound(res);
+    }
+
+    const posts = await models.posts.findManyWhere(filters, {
+      limit: perPage,
+      offset: (page - 1) * perPage,
+      orderBy: { property: 'publishedAt', order: 'descending' },
+    });
+
+    const site = getSiteSettings(req);
+    const siteUrl = (settings.general.siteUrl || site.url).replace(/\/+$/, '');
+    const archive: ArchiveContext = {
+      type: target.type,
+      title: target.title,
+      description: target.description,
+      slug: target.slug,
+      year: target.year,
+      month: target.month,
+      page,
+      totalPages,
+      totalPosts,
+      url: `${siteUrl}${target.path}`,
+    };
+
+    const authorNames = new Map<string, string | null>();
+    const items: ArchivePostItem[] = [];
+    for (const post of posts) {
+      if (!authorNames.has(post.authorId)) {
+        const author = await models.users.findById(post.authorId);
+        const fullName = [author?.firstName, author?.lastName].filter(Boolean).join(' ');
+        authorNames.set(post.authorId, fullName || author?.username || null);
+      }
+      items.push({
+        title: post.title,
+        url: `${siteUrl}/post/${encodeURIComponent(post.slug)}`,
+        publishedAt: post.publishedAt,
+        excerpt: post.excerpt,
+        author: authorNames.get(post.authorId),
+        featuredImage: post.featuredImage,
+      });
+    }
+
+    const context = buildRenderContext(req, {
+      site: {
+        title: settings.general.siteName,
+        url: siteUrl,
+        description: settings.general.siteDescription,
+      },
+      archive,
+    });
+
+    const templates = await models.templates.findManyWhere([{ where: 'type', equals: 'archive' }], {
+      limit: 100,
+      orderBy: { property: 'createdAt', order: 'ascending' },
+    });
+    const template = selectArchiveTemplate(templates, context);
+    const templateBlocks = template ? await resolvePatterns(template.blocks, models.patterns) : DEFAULT_ARCHIVE_BLOCKS;
+    const blocks = buildArchiveBlocks(templateBlocks, context, renderArchivePosts(items, archive));
+
+    // The document shell interpolates the title as-is
+    const title = page > 1 ? `${archive.title} - Page ${page}` : archive.title;
+    res.setHeader('Content-Type', 'text/html');
+    res.send(
+      renderBlockDocument(
+        { title: escapeXml(`${title} | ${settings.general.siteName}`), blocks, other: template?.other },
+        archivePageUrl(archive.url, page),
+        await models.themes.getGlobalStyles()
+      )
+    );
+  }
+
+  async function termTarget(taxonomy: 'category' | 'tag', slug: string): Promise<ArchiveTarget | null> {
+    const term = await models.terms.findBySlug(taxonomy, slug);
+    if (!term) return null;
+
+    const termIds = taxonomy === 'category' ? await models.terms.findDescendantIds(term.id) : [term.id];
+    return {
+      type: taxonomy,
+      title: term.name,
+      description: term.description ?? undefined,
+      slug: term.slug,
+      path: `/${taxonomy}/${encodeURIComponent(term.slug)}`,
+      filters: [models.terms.postsFilter(termIds)],
+    };
+  }
+
+  /**
+   * GET /category/:slug - Category archive, including subcategories
+   */
+  router.get(
+    '/category/:slug',
+    asyncHandler(async (req, res) => {
+      await sendArchive(req, res, await termTarget('category', req.params.slug));
+    })
+  );
+
+  /**
+   * GET /tag/:slug - Tag archive
+   */
+  router.get(
+    '/tag/:slug',
+    asyncHandler(async (req, res) => {
+      await sendArchive(req, res, await termTarget('tag', req.params.slug));
+    })
+  );
+
+  /**
+   * GET /author/:username - Author archive
+   */
+  router.get(
+    '/author/:username',
+    asyncHandler(async (req, res) => {
+      const user = await models.users.findByUsername(req.params.username);
+      const name = [user?.firstName, user?.lastName].filter(Boolean).join(' ');
+      const bio = (user?.other as { bio?: unknown } | null)?.bio;
+
+      await sendArchive(
+        req,
+        res,
+        user
+          ? {
+              type: 'author',
+              title: name || user.username,
+              description: typeof bio === 'string' ? bio : undefined,
+              slug: user.username,
+              path: `/author/${encodeURIComponent(user.username)}`,
+              filters: [{ where: 'authorId', equals: user.id }],
+            }
+          : null
+      );
+    })
+  );
+
+  /**
+   * GET /:year/:month - Month archive (four-digit year, two-digit month)
+   */
+  router.get(
+    '/:year(\\d{4})/:month(\\d{2})',
+    asyncHandler(async (req, res) => {
+      const year = Number(req.params.year);
+      const month = Number(req.params.month);
+      if (month < 1 || month > 12) {
+        return notFound(res);
+      }
+
+      const { start, end } = monthRange(year, month);
+      await sendArchive(req, res, {
+        type: 'date',
+        title: dateArchiveTitle(year, month),
+        year,
+        month,
+        path: `/${req.params.year}/${req.params.month}`,
+        filters: [
+          { where: 'publishedAt', greaterThanOrEqual: start },
+          { where: 'publishedAt', lessThan: end },
+        ],
+      });
+    })
+  );
+
+  return router;
+}
@@ -1,6 +1,12 @@
 import { Router } from 'express';
 import type { Deps } from './shared/deps';
 import { asyncHandler } from './shared/async-handler';
+import { configuredSiteUrl, sendEmail } from '../email/outbox';
+import { createRateLimiter, rateLimit } from '../middleware/rate-limit';
+import { findAccountTokenUser, issueAccountToken, redeemAccountToken } from '../account-tokens';
+
+// Shortest password accepted when one is chosen from a reset or invitation link
+const MIN_PASSWORD_LENGTH = 8;
 
 /**
  * Creates authentication routes for local login, registration, and session management.
@@ -11,8 +17,12 @@ import { asyncHandler } from './shared/async-handler';
  * - POST /register - Create new user account
  * - POST /logout - Destroy user session
  * - GET /user - Get current authenticated user
+ * - POST /forgot-password - Email a password reset link (rate limited per IP)
+ * - POST /reset-password - Set a new password with a reset token
+ * - GET /invitation - Look up the account an invitation token is for
+ * - POST /accept-invitation - Choose a password and activate an invited account
  * 
- * @param deps - Injected dependencies (models, schemas, authService)
+ * @param deps - Injected dependencies (models, schemas, authService, scheduler)
  * @returns Express router with mounted auth routes
  */
 export function createAuthRoutes(deps: Deps): Router {
@@ -168,5 +178,128 @@ export function createAuthRoutes(deps: Deps): Router {
     res.json(user);
   }));
 
+  const passwordResetLimiter = createRateLimiter({
+    max: deps.CONFIG.EMAIL.PASSWORD_RESET_RATE_LIMIT_MAX,
+    windowMs: deps.CONFIG.EMAIL.PASSWORD_RESET_RATE_LIMIT_WINDOW_MS,
+  });
+
+  /**
+   * POST /forgot-password
+   * Emails a reset link to the active account with this email or username.
+   * Answers the same whether or not one exists, so accounts can't be probed.
+   * Refused with 503 until a site URL is configured for the link to point to.
+   */
+  router.post(
+    '/forgot-password',
+    rateLimit({
+      limiter: passwordResetLimiter,
+      message: 'Too many password reset requests, please try again later',
+    }),
+    asyncHandler(async (req, res) => {
+      const login = typeof req.body?.email === 'string' ? req.body.email.trim() : '';
+      if (!login) {
+        return res.status(400).json({ message: 'Email is required' });
+      }
+      const siteUrl = configuredSiteUrl(await deps.models.sites.getSettings());
+      if (!siteUrl) {
+        return res.status(503).json({ message: 'Password reset email is unavailable until a site URL is configured' });
+      }
+
+      const user =
+        (await deps.models.users.findByEmail(login)) ?? (await deps.models.users.findByUsername(login));
+      if (user?.email && user.status === 'active') {
+        const token = await issueAccountToken(
+          deps.models.users,
+          user,
+          'passwordReset',
+          deps.CONFIG.EMAIL.PASSWORD_RESET_TTL_MS
+        );
+        await sendEmail(deps.scheduler, deps.models, 'password_reset', user.email, {
+          username: user.username,
+          resetUrl: `${siteUrl}/admin/reset-password?token=${encodeURIComponent(token)}`,
+          expiresInMinutes: Math.round(deps.CONFIG.EMAIL.PASSWORD_RESET_TTL_MS / 60_000),
+        });
+      }
+
+      res.json({ message: 'If an account matches, a password reset link is on its way' });
+    })
+  );
+
+  /**
+   * POST /reset-password
+   * Sets a new password with the token from a reset email; the token works once.
+   */
+  router.post('/reset-password', asyncHandler(async (req, res) => {
+    const { token, password } = req.body ?? {};
+    if (typeof token !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ message: 'Token and password are required' });
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res
+        .status(400)
+        .json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const bcrypt = await import('bcrypt');
+    const user = await redeemAccountToken(deps.models.users, token, 'passwordReset', {
+      password: await bcrypt.hash(password, 10),
+    });
+    if (!user) {
+      return res.status(400).json({ message: 'This reset link is invalid or has expired' });
+    }
+
+    res.json({ message: 'Password updated successfully' });
+  }));
+
+  /**
+   * GET /invitation
+   * Returns the username and email an invitation token was issued for.
+   */
+  router.get('/invitation', asyncHandler(async (req, res) => {
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+    const user = token
+      ? await findAccountTokenUser(deps.models.users, token, 'invitation')
+      : undefined;
+    if (!user) {
+      return res.status(404).json({ message: 'This invitation is invalid or has expired' });
+    }
+
+    res.json({ username: user.username, email: user.email });
+  }));
+
+  /**
+   * POST /accept-invitation
+   * Sets the invited account's password, activates it and signs it in.
+   */
+  router.post('/accept-invitation', asyncHandler(async (req, res) => {
+    const { token, password } = req.body ?? {};
+    if (typeof token !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ message: 'Token and password are required' });
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res
+        .status(400)
+        .json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const bcrypt = await import('bcrypt');
+    const user = await redeemAccountToken(deps.models.users, token, 'invitation', {
+      password: await bcrypt.hash(password, 10),
+      status: 'active',
+    });
+    if (!user) {
+      return res.status(400).json({ message: 'This invitation is invalid or has expired' });
+    }
+
+    (req as any).session.localUser = {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+    };
+
+    const { password: _password, ...userResponse } = user;
+    res.json(userResponse);
+  }));
+
   return router;
 }
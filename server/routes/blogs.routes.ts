@@ -1,8 +1,8 @@
-import { Router } from 'express';
+import { Router, type Request } from 'express';
 import type { Deps } from './shared/deps';
 import { asyncHandler } from './shared/async-handler';
 import { safeTryAsync } from '../utils';
-import { generateSlug } from './shared/slug';
+import { generateSlug, INVALID_SLUG_MESSAGE, isValidSlug } from './shared/slug';
 
 /**
  * Builds a PostList block config pre-configured for a specific blog.
@@ -48,9 +48,16 @@ function buildBlogPostListBlock(blogId: string) {
  */
 export function createBlogsRoutes(deps: Deps): Router {
   const router = Router();
-  const { models, hooks, requireAuth, CONFIG, parsePaginationParams, parseStatusParam, schemas } = deps;
+  const { models, hooks, requireCapability, CONFIG, parsePaginationParams, parseStatusParam, schemas } = deps;
   const blogSchemas = schemas.blogs;
 
+  // Blogs without a site belong to the default site
+  const blogSite = async (req: Request) => {
+    const blog = await models.blogs.findById(req.params.id);
+    if (!blog) return undefined;
+    return blog.siteId ?? (await models.sites.findDefaultSite())?.id;
+  };
+
   /**
    * GET /api/blogs — List blogs with pagination and optional status filter.
    */
@@ -114,14 +121,17 @@ export function createBlogsRoutes(deps: Deps): Router {
   );
 
   /**
-   * POST /api/blogs — Create a new blog (requires authentication).
+   * POST /api/blogs — Create a new blog (requires edit_pages).
    * Also auto-creates a corresponding page in the pages table with a
    * pre-configured PostList block, so the blog has a browsable index page.
    */
   router.post(
     '/',
-    requireAuth,
+    requireCapability('edit_pages'),
     asyncHandler(async (req: any, res) => {
+      if (req.body?.slug && !isValidSlug(req.body.slug)) {
+        return res.status(400).json({ message: INVALID_SLUG_MESSAGE });
+      }
       const { err, result } = await safeTryAsync(async () => {
         const { authService } = deps;
         const userId = authService.getCurrentUserId(req);
@@ -197,13 +207,16 @@ export function createBlogsRoutes(deps: Deps): Router {
   );
 
   /**
-   * PUT /api/blogs/:id — Update an existing blog (requires authentication).
+   * PUT /api/blogs/:id — Update an existing blog (requires edit_pages).
    */
   router.put(
     '/:id',
-    requireAuth,
+    requireCapability('edit_pages', { siteOf: blogSite }),
     asyncHandler(async (req, res) => {
       try {
+        if (req.body?.slug !== undefined && !isValidSlug(req.body.slug)) {
+          return res.status(400).json({ message: INVALID_SLUG_MESSAGE });
+        }
         const id = req.params.id;
         const blogData = blogSchemas.update.parse(req.body);
 
@@ -224,11 +237,11 @@ export function createBlogsRoutes(deps: Deps): Router {
   );
 
   /**
-   * DELETE /api/blogs/:id — Delete a blog and its associated page (requires authentication).
+   * DELETE /api/blogs/:id — Delete a blog and its associated page (requires delete_pages).
    */
   router.delete(
     '/:id',
-    requireAuth,
+    requireCapability('delete_pages', { siteOf: blogSite }),
     asyncHandler(async (req, res) => {
       try {
         const id = req.params.id;
@@ -1,23 +1,34 @@
 import { Router } from 'express';
 import type { Deps } from './shared/deps';
 import { asyncHandler } from './shared/async-handler';
+import { rateLimit } from '../middleware/rate-limit';
+import {
+  COMMENT_RATE_LIMIT_MESSAGE,
+  CommentSubmissionError,
+  commentRateLimiter,
+  issueCommentFormTokenFor,
+  submitComment,
+} from '../comment-submission';
+import { HookVetoError } from '../hooks';
+import { postUrl } from '../post-blocks';
 
 /**
  * Creates comment routes with CRUD operations and status management.
  * Handles comment approval, spam marking, and fires WordPress-style hooks.
  * 
  * Endpoints:
- * - GET    /api/comments          - List comments with filters (post_id, status)
- * - POST   /api/comments          - Create new comment (fires new_comment hook)
- * - GET    /api/comments/:id      - Get single comment (auth required)
- * - PUT    /api/comments/:id      - Update comment (auth required, fires edit_comment hook)
- * - DELETE /api/comments/:id      - Delete comment (auth required, fires delete_comment hook)
- * - PATCH  /api/comments/:id/approve - Approve comment (auth required, fires approve_comment hook)
- * - PATCH  /api/comments/:id/spam    - Mark as spam (auth required, fires spam_comment hook)
+ * - GET    /api/comments          - List comments with filters (post_id, status; non-approved needs moderate_comments)
+ * - POST   /api/comments          - Submit a comment (rate limited per IP, spam checked; fires new_comment hook)
+ * - GET    /api/comments/form-token - Token for the comment form of a post (post_id); never cached
+ * - GET    /api/comments/:id      - Get single comment (moderate_comments)
+ * - PUT    /api/comments/:id      - Update comment (moderate_comments, fires edit_comment hook)
+ * - DELETE /api/comments/:id      - Delete comment (moderate_comments, fires delete_comment hook)
+ * - PATCH  /api/comments/:id/approve - Approve comment (moderate_comments, fires approve_comment hook)
+ * - PATCH  /api/comments/:id/spam    - Mark as spam (moderate_comments, fires spam_comment hook)
  */
 export function createCommentsRoutes(deps: Deps): Router {
   const router = Router();
-  const { models, hooks, requireAuth, schemas } = deps;
+  const { models, hooks, requireCapability, userCan, schemas } = deps;
 
   // GET /api/comments - List comments with pagination and filtering
   router.get(
@@ -32,6 +43,11 @@ export function createCommentsRoutes(deps: Deps): Router {
       const limit = parseInt(per_page as string);
       const offset = (parseInt(page as string) - 1) * limit;
 
+      // Only moderators may list pending, spam or trashed comments
+      if (status !== 'approved' && !(await userCan(req, 'moderate_comments'))) {
+        return res.status(403).json({ message: "Forbidden: missing capability 'moderate_comments'" });
+      }
+
       const filters = [
         ...(post_id ? [{ where: 'postId', equals: post_id }] : []),
         ...(status ? [{ where: 'status', equals: status }] : []),
@@ -56,34 +72,58 @@ export function createCommentsRoutes(deps: Deps): Router {
     })
   );
 
-  // POST /api/comments - Create new comment
+  // POST /api/comments - Submit a comment (JSON, or the form rendered by post/comments)
   router.post(
     '/',
+    rateLimit({ limiter: commentRateLimiter, message: COMMENT_RATE_LIMIT_MESSAGE }),
+    asyncHandler(async (req, res) => {
+      const userId = deps.authService.getCurrentUserId(req);
+      try {
+        const { comment, post } = await submitComment(models, hooks, req.body ?? {}, {
+          userId,
+          canModerate: !!userId && (await userCan(req, 'moderate_comments')),
+          ip: req.ip,
+          userAgent: req.get('user-agent'),
+        });
+        hooks.doAction('new_comment', comment);
+
+        // Browsers without JavaScript post the form itself; send them back to the post
+        if (req.is('application/x-www-form-urlencoded')) {
+          const anchor = comment.status === 'approved' ? `#comment-${comment.id}` : '';
+          return res.redirect(303, `${postUrl(post.slug)}${anchor}`);
+        }
+        res.status(201).json(comment);
+      } catch (error) {
+        if (error instanceof CommentSubmissionError || error instanceof HookVetoError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
+      }
+    })
+  );
+
+  // GET /api/comments/form-token - Token the comment form sends back, fetched when a visitor starts on it
+  router.get(
+    '/form-token',
     asyncHandler(async (req, res) => {
-      const parsedData = schemas.comments.insert.parse(req.body);
-      // Ensure required fields are present
-      if (!parsedData.postId || !parsedData.content) {
-        return res.status(400).json({ message: 'postId and content are required' });
+      const postId = typeof req.query.post_id === 'string' ? req.query.post_id : '';
+      try {
+        const formToken = await issueCommentFormTokenFor(models, postId);
+        res.setHeader('Cache-Control', 'no-store');
+        res.json({ formToken });
+      } catch (error) {
+        if (error instanceof CommentSubmissionError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
       }
-      const commentData = {
-        postId: String(parsedData.postId),
-        content: String(parsedData.content),
-        ...(parsedData.authorId && { authorId: String(parsedData.authorId) }),
-        ...(parsedData.status && { status: String(parsedData.status) }),
-        ...(parsedData.parentId && { parentId: String(parsedData.parentId) }),
-        ...(parsedData.authorName && { authorName: String(parsedData.authorName) }),
-        ...(parsedData.authorEmail && { authorEmail: String(parsedData.authorEmail) }),
-      };
-      const comment = await models.comments.create(commentData);
-      hooks.doAction('new_comment', comment);
-      res.status(201).json(comment);
     })
   );
 
-  // GET /api/comments/:id - Get single comment (auth required)
+  // GET /api/comments/:id - Get single comment (moderate_comments)
   router.get(
     '/:id',
-    requireAuth,
+    requireCapability('moderate_comments'),
     asyncHandler(async (req, res) => {
       const id = req.params.id;
       const comment = await models.comments.findById(id);
@@ -96,10 +136,10 @@ export function createCommentsRoutes(deps: Deps): Router {
     })
   );
 
-  // PUT /api/comments/:id - Update comment (auth required)
+  // PUT /api/comments/:id - Update comment (moderate_comments)
   router.put(
     '/:id',
-    requireAuth,
+    requireCapability('moderate_comments'),
     asyncHandler(async (req, res) => {
       const id = req.params.id;
       const existingComment = await models.comments.findById(id);
@@ -116,10 +156,10 @@ export function createCommentsRoutes(deps: Deps): Router {
     })
   );
 
-  // DELETE /api/comments/:id - Delete comment (auth required)
+  // DELETE /api/comments/:id - Delete comment (moderate_comments)
   router.delete(
     '/:id',
-    requireAuth,
+    requireCapability('moderate_comments'),
     asyncHandler(async (req, res) => {
       const id = req.params.id;
       const existingComment = await models.comments.findById(id);
@@ -135,10 +175,10 @@ export function createCommentsRoutes(deps: Deps): Router {
     })
   );
 
-  // PATCH /api/comments/:id/approve - Approve comment (auth required)
+  // PATCH /api/comments/:id/approve - Approve comment (moderate_comments)
   router.patch(
     '/:id/approve',
-    requireAuth,
+    requireCapability('moderate_comments'),
     asyncHandler(async (req, res) => {
       const id = req.params.id;
       const comment = await models.comments.approve(id);
@@ -147,10 +187,10 @@ export function createCommentsRoutes(deps: Deps): Router {
     })
   );
 
-  // PATCH /api/comments/:id/spam - Mark comment as spam (auth required)
+  // PATCH /api/comments/:id/spam - Mark comment as spam (moderate_comments)
   router.patch(
     '/:id/spam',
-    requireAuth,
+    requireCapability('moderate_comments'),
     asyncHandler(async (req, res) => {
       const id = req.params.id;
       const comment = await models.comments.spam(id);
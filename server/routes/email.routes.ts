@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import type { Deps } from './shared/deps';
+import { asyncHandler } from './shared/async-handler';
+import { emailSiteOf, retryEmail, sendEmail } from '../email/outbox';
+
+/**
+ * Creates email outbox routes. Every endpoint requires `manage_settings`.
+ * The transport is chosen with MAIL_TRANSPORT; see server/email/ for the
+ * templates, the outbox and the retry schedule.
+ *
+ * Endpoints:
+ * - GET  /api/email/outbox           - Latest messages (`status`, `limit`, default 50)
+ * - POST /api/email/outbox/:id/retry - Queue a failed message again
+ * - POST /api/email/test             - Send a test message (`to`, defaults to the admin email)
+ */
+export function createEmailRoutes(deps: Deps): Router {
+  const router = Router();
+  const { models, scheduler, requireCapability } = deps;
+
+  // GET /api/email/outbox - Latest messages, newest first
+  router.get(
+    '/outbox',
+    requireCapability('manage_settings', { global: true }),
+    asyncHandler(async (req, res) => {
+      const status = typeof req.query.status === 'string' && req.query.status ? req.query.status : undefined;
+      const limit = Math.min(200, parseInt(req.query.limit as string) || 50);
+      res.json(await models.emailOutbox.findRecent(status, limit));
+    })
+  );
+
+  // POST /api/email/outbox/:id/retry - Queue a failed message again
+  router.post(
+    '/outbox/:id/retry',
+    requireCapability('manage_settings', { global: true }),
+    asyncHandler(async (req, res) => {
+      const existing = await models.emailOutbox.findById(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+      const message = await retryEmail(scheduler, models, existing.id);
+      if (!message) {
+        return res.status(400).json({ message: 'Only failed messages can be retried' });
+      }
+      res.status(202).json(message);
+    })
+  );
+
+  // POST /api/email/test - Send a test message
+  router.post(
+    '/test',
+    requireCapability('manage_settings', { global: true }),
+    asyncHandler(async (req, res) => {
+      const settings = await models.sites.getSettings();
+      const to = typeof req.body?.to === 'string' && req.body.to.trim() ? req.body.to.trim() : settings.general.adminEmail;
+      if (!to) {
+        return res.status(400).json({ message: 'Set an admin email or pass `to`' });
+      }
+
+      const site = emailSiteOf(settings, deps.getSiteSettings(req).url);
+      const message = await sendEmail(scheduler, models, 'test', to, {}, { siteUrl: site.url });
+      res.status(202).json(message);
+    })
+  );
+
+  return router;
+}
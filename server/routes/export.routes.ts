@@ -0,0 +1,160 @@
+import { Router } from 'express';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { Deps } from './shared/deps';
+import { asyncHandler } from './shared/async-handler';
+import { exportStaticSite } from '../static-export';
+import { createZip, type ZipEntry } from '../utils/zip';
+
+// Export folders are created as site-<timestamp>; anything else is rejected
+const EXPORT_NAME = /^site-[0-9T-]+$/;
+
+/**
+ * Creates static export routes.
+ * Each export is written to its own folder under CONFIG.EXPORT.DIRECTORY.
+ *
+ * Endpoints:
+ * - GET    /api/export                - List previous exports (manage_settings)
+ * - POST   /api/export                - Run a full static export (manage_settings)
+ * - GET    /api/export/:name/download - Download an export as a zip (manage_settings)
+ * - DELETE /api/export/:name          - Delete an export (manage_settings)
+ *
+ * @param deps - Injected dependencies (config, capability guards)
+ * @returns Express router with mounted export routes
+ */
+export function createExportRoutes(deps: Deps): Router {
+  const router = Router();
+  const { CONFIG, requireCapability } = deps;
+  const exportsRoot = path.resolve(CONFIG.EXPORT.DIRECTORY);
+
+  async function listFiles(dir: string, prefix = ''): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    const files: string[] = [];
+    for (const entry of entries) {
+      const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        files.push(...(await listFiles(path.join(dir, entry.name), relative)));
+      } else if (entry.isFile()) {
+        files.push(relative);
+      }
+    }
+    return files;
+  }
+
+  // Resolve an export folder, or null when the name is invalid or missing
+  async function findExport(name: string) {
+    if (!EXPORT_NAME.test(name)) return null;
+    const dir = path.join(exportsRoot, name);
+    try {
+      const stats = await fs.stat(dir);
+      return stats.isDirectory() ? { dir, createdAt: stats.mtime } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * GET /api/export - List exports, newest first
+   */
+  router.get(
+    '/',
+    requireCapability('manage_settings', { global: true }),
+    asyncHandler(async (_req, res) => {
+      let names: string[] = [];
+      try {
+        names = (await fs.readdir(exportsRoot)).filter((name) => EXPORT_NAME.test(name));
+      } catch {
+        // No export has been run yet
+      }
+
+      const exports = [];
+      for (const name of names) {
+        const found = await findExport(name);
+        if (!found) continue;
+        const files = await listFiles(found.dir);
+        exports.push({
+          name,
+          createdAt: found.createdAt,
+          files: files.length,
+          pages: files.filter((file) => file.endsWith('.html')).length,
+        });
+      }
+      exports.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+      res.json(exports);
+    })
+  );
+
+  /**
+   * POST /api/export - Export all published content
+   * Body: { baseUrl?: string } - public URL for canonical links (defaults to site settings)
+   */
+  router.post(
+    '/',
+    requireCapability('manage_settings', { global: true }),
+    asyncHandler(async (req, res) => {
+      const baseUrl = typeof req.body?.baseUrl === 'string' ? req.body.baseUrl.trim() : '';
+      if (baseUrl && !/^https?:\/\//.test(baseUrl)) {
+        return res.status(400).json({ message: 'baseUrl must be an http(s) URL' });
+      }
+
+      const name = `site-${new Date().toISOString().replace(/[:.]/g, '-').replace(/Z$/, '')}`;
+      const result = await exportStaticSite({
+        outDir: path.join(exportsRoot, name),
+        siteUrl: baseUrl || undefined,
+        uploadDir: deps.uploadDir,
+      });
+
+      res.status(201).json({
+        name,
+        pages: result.pages,
+        posts: result.posts,
+        blogs: result.blogs,
+        files: result.files.length,
+        assets: result.assets,
+        durationMs: result.durationMs,
+      });
+    })
+  );
+
+  /**
+   * GET /api/export/:name/download - Zip and stream an export
+   */
+  router.get(
+    '/:name/download',
+    requireCapability('manage_settings', { global: true }),
+    asyncHandler(async (req, res) => {
+      const found = await findExport(req.params.name);
+      if (!found) {
+        return res.status(404).json({ message: 'Export not found' });
+      }
+
+      const entries: ZipEntry[] = [];
+      for (const file of await listFiles(found.dir)) {
+        entries.push({ path: file, data: await fs.readFile(path.join(found.dir, file)) });
+      }
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${req.params.name}.zip"`);
+      res.send(createZip(entries, found.createdAt));
+    })
+  );
+
+  /**
+   * DELETE /api/export/:name - Remove an export folder
+   */
+  router.delete(
+    '/:name',
+    requireCapability('manage_settings', { global: true }),
+    asyncHandler(async (req, res) => {
+      const found = await findExport(req.params.name);
+      if (!found) {
+        return res.status(404).json({ message: 'Export not found' });
+      }
+
+      await fs.rm(found.dir, { recursive: true, force: true });
+      res.json({ message: 'Export deleted successfully' });
+    })
+  );
+
+  return router;
+}
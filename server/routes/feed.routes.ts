@@ -0,0 +1,155 @@
+import { Router, type Request, type Response } from 'express';
+import type { Deps } from './shared/deps';
+import { asyncHandler } from './shared/async-handler';
+import { renderBlockContent } from '../../renderer/render-page';
+import { resolvePatterns } from '../patterns';
+import { absoluteUrl } from '../sitemap';
+import {
+  buildAtomFeed,
+  buildRssFeed,
+  guessMimeType,
+  type FeedChannel,
+  type FeedItem,
+} from '../feeds';
+import type { Blog, Post } from '@shared/schema-types';
+
+type FeedFormat = 'rss' | 'atom';
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+};
+
+/**
+ * Creates RSS 2.0 and Atom feed routes for published posts.
+ * Feeds list the latest `reading.rssPosts` posts with a publish date in the past
+ * and respond 404 while `reading.rssEnabled` is off.
+ *
+ * Endpoints:
+ * - GET /feed.xml              - Site-wide RSS 2.0 feed
+ * - GET /feed.atom             - Site-wide Atom feed
+ * - GET /blogs/:slug/feed.xml  - RSS 2.0 feed of one published blog
+ * - GET /blogs/:slug/feed.atom - Atom feed of one published blog
+ *
+ * @param deps - Injected dependencies (models, getSiteSettings)
+ * @returns Express router with mounted feed routes
+ */
+export function createFeedRoutes(deps: Deps): Router {
+  const router = Router();
+  const { models, getSiteSettings } = deps;
+
+  async function toItem(post: Post, siteUrl: string, authorNames: Map<string, string | null>): Promise<FeedItem> {
+    if (!authorNames.has(post.authorId)) {
+      const author = await models.users.findById(post.authorId);
+      const fullName = [author?.firstName, author?.lastName].filter(Boolean).join(' ');
+      authorNames.set(post.authorId, fullName || author?.username || null);
+    }
+
+    let enclosure: FeedItem['enclosure'] = null;
+    if (post.featuredImage) {
+      // Uploaded media knows its real type and size
+      const media = await models.media.findFirst([{ where: 'url', equals: post.featuredImage }]);
+      enclosure = {
+        url: absoluteUrl(siteUrl, post.featuredImage),
+        type: media?.mimeType ?? guessMimeType(post.featuredImage),
+        length: media?.size ?? 0,
+      };
+    }
+
+    const content = renderBlockContent(await resolvePatterns(post.blocks, models.patterns));
+    const terms = await models.terms.findByPost(post.id);
+    return {
+      title: post.title,
+      link: `${siteUrl}/post/${encodeURIComponent(post.slug)}`,
+      content: content || post.excerpt,
+      summary: post.excerpt,
+      published: post.publishedAt,
+      updated: post.updatedAt,
+      author: authorNames.get(post.authorId),
+      categories: terms.map((term) => term.name),
+      enclosure,
+    };
+  }
+
+  async function sendFeed(req: Request, res: Response, format: FeedFormat, blog?: Blog) {
+    const settings = await models.sites.getSettings();
+    if (!settings.reading.rssEnabled) {
+      return res.status(404).send('Not Found');
+    }
+
+    const siteUrl = (settings.general.siteUrl || getSiteSettings(req).url).replace(/\/+$/, '');
+    const filters: Array<{ where: string; equals?: unknown; lessThanOrEqual?: unknown }> = [
+      { where: 'status', equals: 'publish' },
+      { where: 'publishedAt', lessThanOrEqual: new Date() },
+    ];
+    if (blog) {
+      filters.push({ where: 'blogId', equals: blog.id });
+    }
+
+    const posts = await models.posts.findManyWhere(filters, {
+      limit: settings.reading.rssPosts,
+      orderBy: { property: 'publishedAt', order: 'descending' },
+    });
+
+    const authorNames = new Map<string, string | null>();
+    const items: FeedItem[] = [];
+    for (const post of posts) {
+      items.push(await toItem(post, siteUrl, authorNames));
+    }
+
+    let link = `${siteUrl}/`;
+    if (blog?.pageId) {
+      const page = await models.pages.findById(blog.pageId);
+      if (page?.status === 'publish') {
+        link = `${siteUrl}/page/${encodeURIComponent(page.slug)}`;
+      }
+    }
+
+    const extension = format === 'rss' ? 'xml' : 'atom';
+    const channel: FeedChannel = {
+      title: blog ? `${blog.name} - ${settings.general.siteName}` : settings.general.siteName,
+      description: blog?.description ?? settings.general.siteDescription,
+      link,
+      feedUrl: blog
+        ? `${siteUrl}/blogs/${encodeURIComponent(blog.slug)}/feed.${extension}`
+        : `${siteUrl}/feed.${extension}`,
+      updated: blog?.updatedAt,
+    };
+
+    res.setHeader('Content-Type', CONTENT_TYPES[format]);
+    res.send(format === 'rss' ? buildRssFeed(channel, items) : buildAtomFeed(channel, items));
+  }
+
+  async function findPublishedBlog(slug: string) {
+    const blog = await models.blogs.findFirst([{ where: 'slug', equals: slug }]);
+    return blog?.status === 'publish' ? blog : undefined;
+  }
+
+  for (const [extension, format] of [['xml', 'rss'], ['atom', 'atom']] as const) {
+    /**
+     * GET /feed.{xml,atom} - Latest posts across the site
+     */
+    router.get(
+      `/feed.${extension}`,
+      asyncHandler(async (req, res) => {
+        await sendFeed(req, res, format);
+      })
+    );
+
+    /**
+     * GET /blogs/:slug/feed.{xml,atom} - Latest posts of one blog
+     */
+    router.get(
+      `/blogs/:slug/feed.${extension}`,
+      asyncHandler(async (req, res) => {
+        const blog = await findPublishedBlog(req.params.slug);
+        if (!blog) {
+          return res.status(404).send('Not Found');
+        }
+        await sendFeed(req, res, format, blog);
+      })
+    );
+  }
+
+  return router;
+}
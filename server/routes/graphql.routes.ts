@@ -0,0 +1,89 @@
+import { Router, type Request } from 'express';
+import type { Deps } from './shared/deps';
+import { asyncHandler } from './shared/async-handler';
+import { createLoaders } from '../graphql/loaders';
+import { runGraphql, type GraphqlRequest } from '../graphql/schema';
+import type { GraphqlContext } from '../graphql/types';
+
+/**
+ * Creates the GraphQL endpoint. It answers 404 while `system.graphqlEnabled`
+ * is off. Mutations use the session like the REST API and check the same
+ * capabilities; see server/graphql/ for the schema.
+ *
+ * Endpoints:
+ * - POST /graphql - Run a query or mutation (`{ query, variables, operationName }` JSON body)
+ * - GET  /graphql - Run a query from the `query`, `variables` (JSON) and `operationName` params
+ */
+export function createGraphqlRoutes(deps: Deps): Router {
+  const router = Router();
+  const { models, hooks, schemas, authService, userCan } = deps;
+
+  function buildContext(req: Request): GraphqlContext {
+    return {
+      models,
+      // Loaders cache what they load, so every request gets its own
+      loaders: createLoaders(models),
+      hooks,
+      schemas: { posts: schemas.posts, pages: schemas.pages, comments: schemas.comments },
+      userId: authService.getCurrentUserId(req),
+      can: (capability, siteId) => userCan(req, capability, siteId),
+      ip: req.ip,
+      userAgent: req.get('user-agent'),
+    };
+  }
+
+  router.use(
+    asyncHandler(async (_req, res, next) => {
+      const settings = await models.sites.getSettings();
+      if (!settings.system.graphqlEnabled) {
+        return res.status(404).json({ message: 'GraphQL is disabled' });
+      }
+      next();
+    })
+  );
+
+  // POST /graphql - Run a query or mutation
+  router.post(
+    '/',
+    asyncHandler(async (req, res) => {
+      const { query, variables, operationName } = req.body ?? {};
+      if (typeof query !== 'string' || !query.trim()) {
+        return res.status(400).json({ errors: [{ message: 'A query is required' }] });
+      }
+      if (variables != null && (typeof variables !== 'object' || Array.isArray(variables))) {
+        return res.status(400).json({ errors: [{ message: 'Variables must be an object' }] });
+      }
+
+      const result = await runGraphql({ query, variables, operationName }, buildContext(req));
+      res.status(result.errors && !result.data ? 400 : 200).json(result);
+    })
+  );
+
+  // GET /graphql - Run a query; mutations have to be POSTed
+  router.get(
+    '/',
+    asyncHandler(async (req, res) => {
+      const query = typeof req.query.query === 'string' ? req.query.query : '';
+      if (!query.trim()) {
+        return res.status(400).json({ errors: [{ message: 'A query is required' }] });
+      }
+
+      let variables: GraphqlRequest['variables'] = null;
+      if (typeof req.query.variables === 'string' && req.query.variables) {
+        try {
+          variables = JSON.parse(req.query.variables);
+        } catch {
+          return res.status(400).json({ errors: [{ message: 'Variables must be valid JSON' }] });
+        }
+      }
+      const operationName = typeof req.query.operationName === 'string' ? req.query.operationName : null;
+
+      const result = await runGraphql({ query, variables, operationName }, buildContext(req), {
+        allowMutations: false,
+      });
+      res.status(result.errors && !result.data ? 400 : 200).json(result);
+    })
+  );
+
+  return router;
+}
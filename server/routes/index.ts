@@ -1,19 +1,24 @@
-import type { Express } from 'express';
+import type { Express, Request } from 'express';
 import type { Server } from 'node:http';
 import { createServer } from 'node:http';
 import { buildDeps } from './shared/deps';
 import { initializeDefaultRolesAndSite } from './init/initialize-default';
-import { setupAuth } from '../replitAuth';
+import { initializePlugins } from './init/initialize-plugins';
+import { loadRequestSession, setupAuth } from '../replitAuth';
 import hooks from '../hooks';
 import { createAuthRoutes } from './auth.routes';
 import { createUsersRoutes } from './users.routes';
+import { createRolesRoutes } from './roles.routes';
 import { createPostsRoutes } from './posts.routes';
+import { createCategoriesRoutes, createTagsRoutes } from './terms.routes';
 import { createPagesRoutes } from './pages.routes';
 import { createBlogsRoutes } from './blogs.routes';
 import { createCommentsRoutes } from './comments.routes';
 import { createMediaRoutes } from './media.routes';
 import { createTemplatesRoutes } from './templates.routes';
+import { createPatternsRoutes } from './patterns.routes';
 import { createThemesRoutes } from './themes.routes';
+import { createPluginsRoutes } from './plugins.routes';
 import { createOptionsRoutes } from './options.routes';
 import { createSettingsRoutes } from './settings.routes';
 import { createSiteRoutes } from './site.routes';
@@ -22,8 +27,22 @@ import { createPreviewRoutes } from './preview.routes';
 import { createPublicRoutes } from './public.routes';
 import { createRenderRoutes } from './render.routes';
 import { createSetupRoutes } from './setup.routes';
+import { createExportRoutes } from './export.routes';
+import { createWebhooksRoutes } from './webhooks.routes';
+import { createGraphqlRoutes } from './graphql.routes';
+import { createEmailRoutes } from './email.routes';
+import { createSitemapRoutes } from './sitemap.routes';
+import { createFeedRoutes } from './feed.routes';
+import { createArchiveRoutes } from './archive.routes';
+import { createSearchPageRoutes, createSearchRoutes } from './search.routes';
+import { ensureSearchIndex, listenForSearchIndexing } from '../search';
+import { registerPublishingJobs } from '../publishing';
+import { registerWebhooks } from '../webhooks';
+import { registerEmail } from '../email/notifications';
+import { CollaborationHub } from '../collaboration';
 import { setupCheck } from '../middleware/setupCheck';
 import express from 'express';
+import type { BlockConfig } from '@shared/schema-types';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 
@@ -47,6 +66,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize default roles and site on first run
   await initializeDefaultRolesAndSite(deps);
 
+  // Register hooks of active plugins before any request is handled
+  await initializePlugins(deps);
+
+  // Drop cached page HTML when pages, templates, patterns or the theme change
+  deps.renderCache.listen(hooks);
+
+  // Index posts, pages and media as they are saved; fill an empty index from existing content
+  listenForSearchIndexing(deps.models.searchIndex, hooks);
+  await ensureSearchIndex(deps.models);
+
+  // Publish and expire scheduled content; jobs queued before a restart run once polling resumes
+  registerPublishingJobs(deps.scheduler, deps.models, hooks);
+  // Send subscribed actions to webhooks; deliveries are retried through the same scheduler
+  registerWebhooks(deps.scheduler, deps.models, hooks);
+  // Send queued email and comment notifications
+  registerEmail(deps.scheduler, deps.models, hooks);
+  await deps.scheduler.start();
+
   // Setup authentication middleware
   setupAuth(app);
 
@@ -72,8 +109,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.use('/api/auth', createAuthRoutes(deps));
   app.use('/api/users', createUsersRoutes(deps));
+  app.use('/api/roles', createRolesRoutes(deps));
 
   app.use('/api/posts', createPostsRoutes(deps));
+  app.use('/api/categories', createCategoriesRoutes(deps));
+  app.use('/api/tags', createTagsRoutes(deps));
   app.use('/api/pages', createPagesRoutes(deps));
   app.use('/api/blogs', createBlogsRoutes(deps));
 
@@ -81,17 +121,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use('/api/media', createMediaRoutes(deps));
 
   app.use('/api/templates', createTemplatesRoutes(deps));
-  // Mount themes routes at /api to handle /themes, /plugins, and /hooks
+  app.use('/api/patterns', createPatternsRoutes(deps));
+  app.use('/api/plugins', createPluginsRoutes(deps));
+  // Mount themes routes at /api to handle /themes and /hooks
   app.use('/api', createThemesRoutes(deps));
 
   app.use('/api/options', createOptionsRoutes(deps));
   app.use('/api/settings', createSettingsRoutes(deps));
   app.use('/api/site', createSiteRoutes(deps));
   app.use('/api/dashboard', createDashboardRoutes(deps));
+  app.use('/api/export', createExportRoutes(deps));
+  app.use('/api/webhooks', createWebhooksRoutes(deps));
+  app.use('/api/email', createEmailRoutes(deps));
+  app.use('/api/search', createSearchRoutes(deps));
 
   app.use('/api/preview', createPreviewRoutes(deps));
   app.use('/api/public', createPublicRoutes(deps));
 
+  // GraphQL API for headless front-ends, while enabled in the settings
+  app.use('/graphql', createGraphqlRoutes(deps));
+
+  // XML sitemaps advertised by robots.txt, RSS and Atom feeds
+  app.use('/', createSitemapRoutes(deps));
+  app.use('/', createFeedRoutes(deps));
+
+  // Category, tag, author and month archives, and search results
+  app.use('/', createArchiveRoutes(deps));
+  app.use('/', createSearchPageRoutes(deps));
+
   // Mount HTML rendering routes (must come before static routes)
   app.use('/', createRenderRoutes(deps));
 
@@ -123,6 +180,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create HTTP server
   const httpServer = createServer(app);
 
+  // Real-time page editing; editors need the same capabilities as for saving the page
+  const collaboration = new CollaborationHub({
+    authorize: async (upgrade, pageId) => {
+      await loadRequestSession(upgrade);
+      // Upgrades never pass through Express; give the guards its request helpers
+      const req = Object.setPrototypeOf(upgrade, app.request) as Request;
+
+      // Capabilities count on the page's site, like the pages routes' siteOf
+      const userId = deps.authService.getCurrentUserId(req);
+      const page = userId ? await deps.models.pages.findById(pageId) : undefined;
+      if (!userId || !page || !(await deps.userCan(req, 'edit_pages', page.siteId))) return null;
+      if (page.authorId && page.authorId !== userId && !(await deps.userCan(req, 'edit_others_pages', page.siteId))) {
+        return null;
+      }
+
+      const user = await deps.models.users.findById(userId);
+      if (!user) return null;
+      const name = [user.firstName, user.lastName].filter(Boolean).join(' ') || user.username;
+      return { userId, name, avatarUrl: user.profileImageUrl ?? null };
+    },
+    loadBlocks: async (pageId) => {
+      const page = await deps.models.pages.findById(pageId);
+      return page ? ((page.blocks ?? []) as BlockConfig[]) : null;
+    },
+  });
+  collaboration.listen(hooks);
+  collaboration.attach(httpServer);
+
   // Signal that NextPress is fully loaded
   hooks.doAction('wp_loaded');
 
@@ -0,0 +1,21 @@
+import type { Deps } from '../shared/deps';
+
+/**
+ * Discovers plugin packages and loads the active ones on startup.
+ * Newly found packages are recorded with the default site owner as author;
+ * before setup has created a site, only already-known plugins are loaded.
+ *
+ * @param deps - Dependency injection container with models and plugin manager
+ */
+export async function initializePlugins(deps: Deps) {
+  try {
+    const defaultSite = await deps.models.sites.findDefaultSite();
+    if (defaultSite) {
+      await deps.pluginManager.sync(defaultSite.ownerId);
+    }
+
+    await deps.pluginManager.loadActivePlugins();
+  } catch (error) {
+    console.error('Error initializing plugins:', error);
+  }
+}
@@ -1,7 +1,8 @@
-import { Router } from 'express';
+import { Router, type Request } from 'express';
 import type { Deps } from './shared/deps';
 import { asyncHandler } from './shared/async-handler';
 import { safeTryAsync } from '../utils';
+import type { Filter } from '@shared/create-models';
 import path from 'node:path';
 import { promises as fs } from 'node:fs';
 
@@ -11,18 +12,18 @@ import { promises as fs } from 'node:fs';
  * file deletion from disk on media deletion, and WordPress-style hooks.
  * 
  * Endpoints:
- * - GET    /api/media        - List media with pagination and mime_type filter
+ * - GET    /api/media        - List media with pagination, mime_type filter and full-text search
  * - GET    /api/media/:id    - Get single media item
- * - POST   /api/media        - Upload file (auth required, fires wp_handle_upload hook)
- * - PUT    /api/media/:id    - Update media metadata (auth required, fires wp_update_attachment_metadata hook)
- * - DELETE /api/media/:id    - Delete media and file (auth required, fires delete_attachment hook)
+ * - POST   /api/media        - Upload file (upload_files, fires wp_handle_upload hook)
+ * - PUT    /api/media/:id    - Update media metadata (upload_files, manage_media for others' files, fires wp_update_attachment_metadata hook)
+ * - DELETE /api/media/:id    - Delete media and file (upload_files, manage_media for others' files, fires delete_attachment hook)
  */
 export function createMediaRoutes(deps: Deps): Router {
   const router = Router();
   const {
     models,
     hooks,
-    requireAuth,
+    requireCapability,
     authService,
     schemas,
     upload,
@@ -31,7 +32,10 @@ export function createMediaRoutes(deps: Deps): Router {
     CONFIG,
   } = deps;
 
-  // GET /api/media - List media with pagination and optional mime_type filter
+  // Resolves the uploader of the media item targeted by :id for own-vs-others checks
+  const mediaOwner = async (req: Request) => (await models.media.findById(req.params.id))?.authorId;
+
+  // GET /api/media - List media with pagination, optional mime_type filter and search
   router.get(
     '/',
     asyncHandler(async (req, res) => {
@@ -40,17 +44,21 @@ export function createMediaRoutes(deps: Deps): Router {
           req.query,
           CONFIG.PAGINATION.DEFAULT_MEDIA_PER_PAGE
         );
-        const { mime_type } = req.query;
+        const { mime_type, search } = req.query;
 
-        const mediaItems = await models.media.findMany(
-          mime_type
-            ? { limit, offset, where: 'mimeType', equals: mime_type as string }
-            : { limit, offset }
-        );
+        const filters: Filter[] = [];
+        if (mime_type) {
+          filters.push({ where: 'mimeType', equals: mime_type as string });
+        }
+        if (typeof search === 'string' && search.trim()) {
+          filters.push(models.searchIndex.matchFilter('media', search.trim()));
+        }
 
-        const total = await models.media.count(
-          mime_type ? { where: [{ where: 'mimeType', equals: mime_type as string }] } : {}
-        );
+        const mediaItems = filters.length > 0
+          ? await models.media.findManyWhere(filters, { limit, offset })
+          : await models.media.findMany({ limit, offset });
+
+        const total = await models.media.count(filters.length > 0 ? { where: filters } : {});
 
         return {
           media: mediaItems,
@@ -82,10 +90,10 @@ export function createMediaRoutes(deps: Deps): Router {
     })
   );
 
-  // POST /api/media - Upload file (auth required)
+  // POST /api/media - Upload file (requires upload_files)
   router.post(
     '/',
-    requireAuth,
+    requireCapability('upload_files'),
     upload.single('file'),
     asyncHandler(async (req: any, res) => {
       const { err, result } = await safeTryAsync(async () => {
@@ -144,10 +152,10 @@ export function createMediaRoutes(deps: Deps): Router {
     })
   );
 
-  // PUT /api/media/:id - Update media metadata (auth required)
+  // PUT /api/media/:id - Update media metadata (requires upload_files / manage_media)
   router.put(
     '/:id',
-    requireAuth,
+    requireCapability('upload_files', { others: 'manage_media', ownerOf: mediaOwner }),
     asyncHandler(async (req, res) => {
       const id = req.params.id;
       const mediaData = schemas.media.update.parse(req.body);
@@ -159,10 +167,10 @@ export function createMediaRoutes(deps: Deps): Router {
     })
   );
 
-  // DELETE /api/media/:id - Delete media and file from disk (auth required)
+  // DELETE /api/media/:id - Delete media and file from disk (requires upload_files / manage_media)
   router.delete(
     '/:id',
-    requireAuth,
+    requireCapability('upload_files', { others: 'manage_media', ownerOf: mediaOwner }),
     asyncHandler(async (req, res) => {
       const id = req.params.id;
 
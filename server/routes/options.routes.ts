@@ -7,7 +7,7 @@ import type { Deps } from './shared/deps';
  */
 export function createOptionsRoutes(deps: Deps) {
   const router = Router();
-  const { models, requireAuth } = deps;
+  const { models, requireCapability } = deps;
 
   /**
    * GET /api/options/:name
@@ -30,9 +30,9 @@ export function createOptionsRoutes(deps: Deps) {
   /**
    * POST /api/options
    * Set or update option value
-   * Auth: Required
+   * Auth: manage_settings
    */
-  router.post('/', requireAuth, async (req, res) => {
+  router.post('/', requireCapability('manage_settings', { global: true }), async (req, res) => {
     try {
       const { name, value } = req.body;
       const option = await models.options.setOption({ name, value });
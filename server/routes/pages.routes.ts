@@ -1,8 +1,22 @@
-import { Router } from 'express';
+import { Router, type Request, type Response } from 'express';
 import type { Deps } from './shared/deps';
 import { asyncHandler } from './shared/async-handler';
 import { safeTryAsync } from '../utils';
+import { HookVetoError } from '../hooks';
 import { coerceDates } from './shared/date-coerce';
+import { INVALID_SLUG_MESSAGE, isValidSlug } from './shared/slug';
+import { resolveSchedule } from '../publishing';
+import {
+  appendRevision,
+  findRevision,
+  pageHistory,
+  requestedVersion,
+  revisionSnapshot,
+  summarizeRevision,
+  versionConflict,
+} from '../revisions';
+import type { Filter } from '@shared/create-models';
+import type { Page } from '@shared/schema-types';
 
 /**
  * Validates that a slug is unique within a site (application-level check)
@@ -32,52 +46,92 @@ async function validateSlugUniqueness(
 	return true;
 }
 
+const CONFLICT_MESSAGE = 'This page was changed by someone else since you opened it';
+
 /**
  * Creates Pages CRUD routes for the NextPress API.
  * Pages are a special type of post with type='page'.
  * 
  * Endpoints:
- * - GET /api/pages - List pages with pagination and status filter
+ * - GET /api/pages - List pages with pagination, status filter and full-text `search`
  * - GET /api/pages/:id - Get single page by ID
- * - POST /api/pages - Create new page (requires auth)
- * - PUT /api/pages/:id - Update page (requires auth)
- * - DELETE /api/pages/:id - Delete page (requires auth)
+ * - POST /api/pages - Create new page (requires edit_pages; publishing or scheduling requires publish_pages)
+ * - PUT /api/pages/:id - Update page (requires edit_pages, edit_others_pages for other authors)
+ * - GET /api/pages/:id/revisions - List saved revisions, newest first (same capabilities as PUT)
+ * - GET /api/pages/:id/revisions/:version - Get one revision with its blocks
+ * - POST /api/pages/:id/revisions/:version/restore - Save a revision's blocks as the current version
+ * - DELETE /api/pages/:id - Delete page (requires delete_pages, delete_others_pages for other authors)
+ * 
+ * Page saves go through `pre_save_post` as well (context `type: 'page'`), so the
+ * same plugin filters can rewrite or veto them.
+ *
+ * As with posts, a future `publishedAt` schedules the page (`future` status) and
+ * `expiresAt` takes it back to draft.
+ *
+ * Each update and restore pushes the previous blocks onto `history`, keeping at
+ * most CONFIG.REVISIONS.MAX_PER_PAGE revisions (see revisions.ts).
+ *
+ * A PUT carrying `version` is rejected with 409 when the page has moved past that
+ * version; the body holds the current page and the revision the client started
+ * from, for merging. Saves only land on the version they were checked against.
  * 
  * @param deps - Injected dependencies (models, hooks, schemas, auth, etc.)
  * @returns Express router with mounted page routes
  */
 export function createPagesRoutes(deps: Deps): Router {
   const router = Router();
-  const { models, hooks, authService, requireAuth, CONFIG, parsePaginationParams, parseStatusParam, schemas } = deps;
+  const { models, hooks, authService, requireCapability, userCan, CONFIG, parsePaginationParams, parseStatusParam, schemas } = deps;
   const pageSchemas = schemas.pages;
 
+  // Answers a save that lost the race against another save with the page as it is now
+  const sendConflict = async (res: Response, id: string, expectedVersion: number) => {
+    const current = await models.pages.findById(id);
+    if (!current) {
+      return res.status(404).json({ message: 'Page not found' });
+    }
+    return res.status(409).json(versionConflict(current as Page, expectedVersion, CONFLICT_MESSAGE));
+  };
+
+  // Resolves the author of the page targeted by :id for own-vs-others checks
+  const pageOwner = async (req: Request) => (await models.pages.findById(req.params.id))?.authorId;
+  const pageSite = async (req: Request) => (await models.pages.findById(req.params.id))?.siteId;
+
   /**
-   * GET /api/pages - List pages with pagination and status filter
+   * GET /api/pages - List pages with pagination, status filter and full-text search
    */
   router.get(
     '/',
     asyncHandler(async (req, res) => {
+      const { status = CONFIG.STATUS.PUBLISH, search } = req.query;
+
+      // Handle 'any' status to show all pages (for admin interface)
+      const actualStatus = parseStatusParam(status as string);
+
+      // Unpublished pages are only visible to users who can edit pages
+      if (actualStatus !== CONFIG.STATUS.PUBLISH && !(await userCan(req, 'edit_pages'))) {
+        return res.status(403).json({ message: "Forbidden: missing capability 'edit_pages'" });
+      }
+
       const { err, result } = await safeTryAsync(async () => {
         const { page, limit, offset } = parsePaginationParams(
           req.query,
           CONFIG.PAGINATION.DEFAULT_POSTS_PER_PAGE
         );
-        const { status = CONFIG.STATUS.PUBLISH } = req.query;
 
-        // Handle 'any' status to show all pages (for admin interface)
-        const actualStatus = parseStatusParam(status as string);
+        const filters: Filter[] = [];
+        if (actualStatus) {
+          filters.push({ where: 'status', equals: actualStatus });
+        }
+        if (typeof search === 'string' && search.trim()) {
+          filters.push(models.searchIndex.matchFilter('page', search.trim()));
+        }
 
-        const pages = await models.pages.findMany({
-          where: 'status',
-          equals: actualStatus,
-          limit,
-          offset,
-        });
+        const pages = filters.length > 0
+          ? await models.pages.findManyWhere(filters, { limit, offset })
+          : await models.pages.findMany({ limit, offset });
 
         const total = await models.pages.count({
-          where: actualStatus
-            ? [{ where: 'status', equals: actualStatus }]
-            : undefined,
+          where: filters.length > 0 ? filters : undefined,
         });
 
         return {
@@ -117,6 +171,9 @@ export function createPagesRoutes(deps: Deps): Router {
         if (!page) {
           return res.status(404).json({ message: 'Page not found' });
         }
+        if (page.status !== CONFIG.STATUS.PUBLISH && !(await userCan(req, 'edit_pages'))) {
+          return res.status(404).json({ message: 'Page not found' });
+        }
         res.json(page);
       } catch (error) {
         console.error('Error fetching page:', error);
@@ -126,12 +183,26 @@ export function createPagesRoutes(deps: Deps): Router {
   );
 
   /**
-   * POST /api/pages - Create new page (requires authentication)
+   * POST /api/pages - Create new page (requires edit_pages)
    */
   router.post(
     '/',
-    requireAuth,
+    requireCapability('edit_pages'),
     asyncHandler(async (req: any, res) => {
+      if (req.body?.slug && !isValidSlug(req.body.slug)) {
+        return res.status(400).json({ message: INVALID_SLUG_MESSAGE });
+      }
+      const body = coerceDates(req.body ?? {}, ['publishedAt', 'expiresAt']);
+      const schedule = resolveSchedule(body);
+      if (schedule.error) {
+        return res.status(400).json({ message: schedule.error });
+      }
+
+      const goesLive = schedule.status === CONFIG.STATUS.PUBLISH || schedule.status === CONFIG.STATUS.FUTURE;
+      if (goesLive && !(await userCan(req, 'publish_pages'))) {
+        return res.status(403).json({ message: "Forbidden: missing capability 'publish_pages'" });
+      }
+
       const { err, result } = await safeTryAsync(async () => {
         const userId = authService.getCurrentUserId(req);
         if (!userId) {
@@ -139,7 +210,7 @@ export function createPagesRoutes(deps: Deps): Router {
         }
 
         // Get siteId from request or use default site (before validation)
-        let siteId = req.body?.siteId;
+        let siteId = body.siteId;
         if (!siteId) {
           const defaultSite = await models.sites.findDefaultSite();
           if (!defaultSite || !defaultSite.id) {
@@ -152,7 +223,8 @@ export function createPagesRoutes(deps: Deps): Router {
 
         // Prepare data object with required fields before validation
         const dataToValidate = {
-          ...req.body,
+          ...body,
+          ...(schedule.status ? { status: schedule.status } : {}),
           authorId: userId,
           siteId: siteId,
         };
@@ -178,16 +250,25 @@ export function createPagesRoutes(deps: Deps): Router {
         // Validate slug uniqueness per site
         await validateSlugUniqueness(models, siteId, pageData.slug);
 
-        const page = await models.pages.create(pageData);
-        hooks.doAction('save_post', page);
+        // Plugins may rewrite the data or veto the save
+        const filteredData = await hooks.applyFiltersAsync('pre_save_post', pageData, {
+          type: 'page',
+          existing: null,
+        });
+
+        const page = await models.pages.create(filteredData);
+        await hooks.doActionAsync('save_post', page);
 
         if (page.status === CONFIG.STATUS.PUBLISH) {
-          hooks.doAction('publish_post', page);
+          await hooks.doActionAsync('publish_post', page);
         }
 
         return page;
       });
 
+      if (err instanceof HookVetoError) {
+        return res.status(err.status).json({ message: err.message });
+      }
       if (err) {
         console.error('Error creating page:', err);
         return res.status(500).json({ message: 'Failed to create page' });
@@ -198,32 +279,36 @@ export function createPagesRoutes(deps: Deps): Router {
   );
 
   /**
-   * PUT /api/pages/:id - Update existing page (requires authentication)
+   * PUT /api/pages/:id - Update existing page (requires edit_pages / edit_others_pages)
    */
   router.put(
     '/:id',
-    requireAuth,
+    requireCapability('edit_pages', { others: 'edit_others_pages', ownerOf: pageOwner, siteOf: pageSite }),
     asyncHandler(async (req, res) => {
       try {
+        if (req.body?.slug !== undefined && !isValidSlug(req.body.slug)) {
+          return res.status(400).json({ message: INVALID_SLUG_MESSAGE });
+        }
         const id = req.params.id;
-        const parsed = pageSchemas.update.parse(coerceDates(req.body, ['publishedAt'])) as any;
+        const parsed = pageSchemas.update.parse(coerceDates(req.body, ['publishedAt', 'expiresAt'])) as any;
+        const expectedVersion = requestedVersion(req.body);
 
         const existingPage = await models.pages.findById(id);
         if (!existingPage) {
           return res.status(404).json({ message: 'Page not found' });
         }
+        if (expectedVersion !== undefined && expectedVersion !== existingPage.version) {
+          return res.status(409).json(versionConflict(existingPage as Page, expectedVersion, CONFLICT_MESSAGE));
+        }
 
-        const previousSnapshot = {
-          version: existingPage.version ?? 0,
-          updatedAt: existingPage.updatedAt
-            ? new Date(existingPage.updatedAt as any).toISOString()
-            : new Date().toISOString(),
-          blocks: existingPage.blocks ?? [],
-          authorId: (existingPage as any).authorId,
-        };
+        const schedule = resolveSchedule(parsed, existingPage);
+        if (schedule.error) {
+          return res.status(400).json({ message: schedule.error });
+        }
+        if (schedule.status) {
+          parsed.status = schedule.status;
+        }
 
-        const existingHistory = Array.isArray(existingPage.history) ? existingPage.history : [];
-        
         // Determine siteId and slug for validation
         const siteId = parsed.siteId || existingPage.siteId;
         const slug = parsed.slug || existingPage.slug;
@@ -235,21 +320,37 @@ export function createPagesRoutes(deps: Deps): Router {
 
         const pageData = {
           ...parsed,
-          version: (existingPage.version ?? 0) + 1,
-          history: [previousSnapshot, ...existingHistory], // append previous snapshot to existing history
+          ...appendRevision(existingPage as Page),
         };
 
-        const wasPublished = existingPage.status === 'publish';
-        const page = await models.pages.update(id, pageData);
+        // Publishing, scheduling or rescheduling needs publish_pages
+        const wasPublished = existingPage.status === CONFIG.STATUS.PUBLISH;
+        const goesLive = schedule.status === CONFIG.STATUS.PUBLISH || schedule.status === CONFIG.STATUS.FUTURE;
+        if (goesLive && schedule.status !== existingPage.status && !(await userCan(req, 'publish_pages'))) {
+          return res.status(403).json({ message: "Forbidden: missing capability 'publish_pages'" });
+        }
+
+        const filteredData = await hooks.applyFiltersAsync('pre_save_post', pageData, {
+          type: 'page',
+          existing: existingPage,
+        });
+
+        const page = await models.pages.updateVersioned(id, existingPage.version, filteredData);
+        if (!page) {
+          return sendConflict(res, id, expectedVersion ?? existingPage.version);
+        }
 
-        hooks.doAction('save_post', page);
+        await hooks.doActionAsync('save_post', page);
 
         if (!wasPublished && page.status === 'publish') {
-          hooks.doAction('publish_post', page);
+          await hooks.doActionAsync('publish_post', page);
         }
 
         res.json(page);
       } catch (error) {
+        if (error instanceof HookVetoError) {
+          return res.status(error.status).json({ message: error.message });
+        }
         console.error('Error updating page:', error);
         res.status(500).json({ message: 'Failed to update page' });
       }
@@ -257,11 +358,99 @@ export function createPagesRoutes(deps: Deps): Router {
   );
 
   /**
-   * DELETE /api/pages/:id - Delete page (requires authentication)
+   * GET /api/pages/:id/revisions - List revisions of a page, newest first
+   */
+  router.get(
+    '/:id/revisions',
+    requireCapability('edit_pages', { others: 'edit_others_pages', ownerOf: pageOwner, siteOf: pageSite }),
+    asyncHandler(async (req, res) => {
+      const page = await models.pages.findById(req.params.id);
+      if (!page) {
+        return res.status(404).json({ message: 'Page not found' });
+      }
+
+      res.json({
+        current: summarizeRevision(revisionSnapshot(page as Page)),
+        revisions: pageHistory(page as Page).map(summarizeRevision),
+      });
+    })
+  );
+
+  /**
+   * GET /api/pages/:id/revisions/:version - Get one revision with its blocks
+   */
+  router.get(
+    '/:id/revisions/:version',
+    requireCapability('edit_pages', { others: 'edit_others_pages', ownerOf: pageOwner, siteOf: pageSite }),
+    asyncHandler(async (req, res) => {
+      const page = await models.pages.findById(req.params.id);
+      if (!page) {
+        return res.status(404).json({ message: 'Page not found' });
+      }
+
+      const version = Number(req.params.version);
+      const revision = version === (page.version ?? 0)
+        ? revisionSnapshot(page as Page)
+        : findRevision(page as Page, version);
+      if (!revision) {
+        return res.status(404).json({ message: 'Revision not found' });
+      }
+
+      res.json(revision);
+    })
+  );
+
+  /**
+   * POST /api/pages/:id/revisions/:version/restore - Restore a revision as a new version
+   */
+  router.post(
+    '/:id/revisions/:version/restore',
+    requireCapability('edit_pages', { others: 'edit_others_pages', ownerOf: pageOwner, siteOf: pageSite }),
+    asyncHandler(async (req, res) => {
+      try {
+        const existingPage = await models.pages.findById(req.params.id);
+        if (!existingPage) {
+          return res.status(404).json({ message: 'Page not found' });
+        }
+
+        const revision = findRevision(existingPage as Page, Number(req.params.version));
+        if (!revision) {
+          return res.status(404).json({ message: 'Revision not found' });
+        }
+
+        const pageData = {
+          blocks: revision.blocks,
+          ...appendRevision(existingPage as Page),
+        };
+
+        const filteredData = await hooks.applyFiltersAsync('pre_save_post', pageData, {
+          type: 'page',
+          existing: existingPage,
+        });
+
+        const page = await models.pages.updateVersioned(existingPage.id, existingPage.version, filteredData);
+        if (!page) {
+          return sendConflict(res, existingPage.id, existingPage.version);
+        }
+        await hooks.doActionAsync('save_post', page);
+
+        res.json(page);
+      } catch (error) {
+        if (error instanceof HookVetoError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error('Error restoring page revision:', error);
+        res.status(500).json({ message: 'Failed to restore revision' });
+      }
+    })
+  );
+
+  /**
+   * DELETE /api/pages/:id - Delete page (requires delete_pages / delete_others_pages)
    */
   router.delete(
     '/:id',
-    requireAuth,
+    requireCapability('delete_pages', { others: 'delete_others_pages', ownerOf: pageOwner, siteOf: pageSite }),
     asyncHandler(async (req, res) => {
       try {
         const id = req.params.id;
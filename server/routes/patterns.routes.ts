@@ -0,0 +1,212 @@
+import { Router } from 'express';
+import type { Deps } from './shared/deps';
+import { asyncHandler } from './shared/async-handler';
+import { safeTryAsync } from '../utils';
+import type { Filter } from '@shared/create-models';
+import { patternExportSchema, toPatternExport } from '@shared/pattern-library';
+
+/**
+ * Creates pattern routes.
+ * A pattern is a block subtree. Synced patterns are embedded through
+ * `core/block-reference` blocks, so editing one updates every page that uses
+ * it; the others are copied into the page when inserted from the library.
+ *
+ * Endpoints:
+ * - GET    /api/patterns           - List patterns with pagination, `search` and `category` filters
+ * - GET    /api/patterns/export    - Download patterns as a JSON file (`ids` narrows it down)
+ * - POST   /api/patterns/import    - Create or update patterns from an export file (manage_patterns)
+ * - GET    /api/patterns/:id       - Get single pattern (auth required)
+ * - GET    /api/patterns/:id/usage - Pages, posts, templates and patterns embedding it
+ * - POST   /api/patterns           - Create pattern (manage_patterns, injects authorId)
+ * - PUT    /api/patterns/:id       - Update pattern (manage_patterns)
+ * - DELETE /api/patterns/:id       - Delete pattern (manage_patterns); 409 while in use unless `?force=true`
+ *
+ * Create/update/import fire `save_pattern` and delete fires `delete_pattern`.
+ */
+export function createPatternsRoutes(deps: Deps): Router {
+  const router = Router();
+  const { models, hooks, requireAuth, requireCapability, authService, schemas } = deps;
+
+  // GET /api/patterns - List patterns with pagination, search and category filters
+  router.get(
+    '/',
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const { page = 1, per_page = 50, search, category } = req.query;
+      const limit = parseInt(per_page as string);
+      const offset = (parseInt(page as string) - 1) * limit;
+
+      const filters: Filter[] = [];
+      if (typeof category === 'string' && category) {
+        filters.push({ where: 'category', equals: category });
+      }
+      if (typeof search === 'string' && search.trim()) {
+        filters.push(models.patterns.searchFilter(search.trim()));
+      }
+
+      const patterns = await models.patterns.findManyWhere(filters, {
+        limit,
+        offset,
+        orderBy: { property: 'name', order: 'ascending' },
+      });
+      const total = await models.patterns.count({ where: filters });
+
+      res.json({
+        patterns,
+        total,
+        page: parseInt(page as string),
+        per_page: limit,
+        total_pages: Math.ceil(total / limit),
+      });
+    })
+  );
+
+  // GET /api/patterns/export - Download patterns as JSON (auth required)
+  router.get(
+    '/export',
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const ids = typeof req.query.ids === 'string' ? req.query.ids.split(',').filter(Boolean) : [];
+      const patterns = ids.length
+        ? await models.patterns.findByIds(ids)
+        : await models.patterns.findMany({ limit: 1000, orderBy: { property: 'name', order: 'ascending' } });
+
+      res.setHeader('Content-Disposition', 'attachment; filename="patterns.json"');
+      res.json(toPatternExport(patterns));
+    })
+  );
+
+  // POST /api/patterns/import - Create patterns from an export file, updating those with the same name
+  router.post(
+    '/import',
+    requireCapability('manage_patterns'),
+    asyncHandler(async (req: any, res) => {
+      const userId = authService.getCurrentUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const parsed = patternExportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid pattern file', errors: parsed.error.errors });
+      }
+
+      let created = 0;
+      let updated = 0;
+      for (const entry of parsed.data.patterns) {
+        const { pattern, created: isNew } = await models.patterns.importEntry(entry, userId);
+        if (isNew) created++;
+        else updated++;
+        hooks.doAction('save_pattern', pattern);
+      }
+
+      res.json({ created, updated });
+    })
+  );
+
+  // GET /api/patterns/:id - Get single pattern (auth required)
+  router.get(
+    '/:id',
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const pattern = await models.patterns.findById(req.params.id);
+      if (!pattern) {
+        return res.status(404).json({ message: 'Pattern not found' });
+      }
+      res.json(pattern);
+    })
+  );
+
+  // GET /api/patterns/:id/usage - Where the pattern is embedded (auth required)
+  router.get(
+    '/:id/usage',
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const pattern = await models.patterns.findById(req.params.id);
+      if (!pattern) {
+        return res.status(404).json({ message: 'Pattern not found' });
+      }
+      res.json(await models.patterns.findUsage(pattern.id));
+    })
+  );
+
+  // POST /api/patterns - Create new pattern (manage_patterns, injects authorId)
+  router.post(
+    '/',
+    requireCapability('manage_patterns'),
+    asyncHandler(async (req: any, res) => {
+      const { err, result } = await safeTryAsync(async () => {
+        const userId = authService.getCurrentUserId(req);
+        if (!userId) {
+          throw new Error('User not authenticated');
+        }
+
+        const parsedData = schemas.patterns.insert.parse({
+          ...req.body,
+          authorId: userId,
+        });
+
+        if (!parsedData.name) {
+          throw new Error('name is required');
+        }
+
+        const pattern = await models.patterns.create({
+          name: String(parsedData.name),
+          authorId: String(parsedData.authorId),
+          ...(parsedData.description && { description: String(parsedData.description) }),
+          ...(parsedData.blocks && { blocks: parsedData.blocks }),
+          ...(parsedData.category && { category: String(parsedData.category) }),
+          ...(parsedData.keywords && { keywords: parsedData.keywords }),
+          ...(parsedData.thumbnail && { thumbnail: String(parsedData.thumbnail) }),
+          ...(typeof parsedData.synced === 'boolean' && { synced: parsedData.synced }),
+        });
+        hooks.doAction('save_pattern', pattern);
+        return pattern;
+      });
+
+      if (err) {
+        console.error('Error creating pattern:', err);
+        return res.status(500).json({ message: 'Failed to create pattern' });
+      }
+
+      res.status(201).json(result);
+    })
+  );
+
+  // PUT /api/patterns/:id - Update pattern (manage_patterns)
+  router.put(
+    '/:id',
+    requireCapability('manage_patterns'),
+    asyncHandler(async (req, res) => {
+      const { id: _id, authorId: _authorId, createdAt: _createdAt, updatedAt: _updatedAt, ...body } = req.body;
+      const patternData = schemas.patterns.update.parse(body);
+
+      const pattern = await models.patterns.update(req.params.id, patternData);
+      if (!pattern) {
+        return res.status(404).json({ message: 'Pattern not found' });
+      }
+      hooks.doAction('save_pattern', pattern);
+      res.json(pattern);
+    })
+  );
+
+  // DELETE /api/patterns/:id - Delete pattern (manage_patterns)
+  router.delete(
+    '/:id',
+    requireCapability('manage_patterns'),
+    asyncHandler(async (req, res) => {
+      const id = req.params.id;
+      // Deleting leaves every embedding page with an empty block; make that explicit
+      const usage = await models.patterns.findUsage(id);
+      if (usage.length > 0 && req.query.force !== 'true') {
+        return res.status(409).json({ message: 'Pattern is in use', usage });
+      }
+
+      await models.patterns.delete(id);
+      hooks.doAction('delete_pattern', id);
+      res.json({ message: 'Pattern deleted successfully' });
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,155 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import type { Deps } from './shared/deps';
+import { asyncHandler } from './shared/async-handler';
+import type { Plugin } from '@shared/schema-types';
+
+const settingsSchema = z.record(z.union([z.string(), z.number(), z.boolean(), z.null()]));
+
+/**
+ * Creates plugin management routes backed by the plugin runtime.
+ * Plugin packages live in the plugins directory; rows in `plugins` track status and settings.
+ *
+ * Endpoints:
+ * - GET  /api/plugins                 - List plugins with runtime state (manage_plugins)
+ * - POST /api/plugins/sync            - Rescan the plugins directory (manage_plugins)
+ * - GET  /api/plugins/:id             - Get single plugin (manage_plugins)
+ * - POST /api/plugins/:id/activate    - Load and activate plugin without restart (manage_plugins)
+ * - POST /api/plugins/:id/deactivate  - Deactivate plugin and remove its hooks (manage_plugins)
+ * - PUT  /api/plugins/:id/settings    - Update plugin settings (manage_plugins)
+ *
+ * @param deps - Injected dependencies (models, plugin manager, capability guards)
+ * @returns Express router with mounted plugin routes
+ */
+export function createPluginsRoutes(deps: Deps): Router {
+  const router = Router();
+  const { models, pluginManager, authService, requireCapability } = deps;
+
+  // Attach runtime state (loaded / load error) to a plugin row
+  function withRuntime(plugin: Plugin) {
+    return {
+      ...plugin,
+      loaded: pluginManager.isLoaded(plugin.id),
+      error: pluginManager.getError(plugin.id) ?? null,
+    };
+  }
+
+  /**
+   * GET /api/plugins - List all plugins
+   */
+  router.get(
+    '/',
+    requireCapability('manage_plugins', { global: true }),
+    asyncHandler(async (_req, res) => {
+      const plugins = await models.plugins.findMany({
+        limit: 500,
+        orderBy: { property: 'name', order: 'ascending' },
+      });
+      res.json({
+        plugins: plugins.map(withRuntime),
+        coreVersion: pluginManager.getCoreVersion(),
+      });
+    })
+  );
+
+  /**
+   * POST /api/plugins/sync - Discover plugin packages and mirror them into the database
+   */
+  router.post(
+    '/sync',
+    requireCapability('manage_plugins', { global: true }),
+    asyncHandler(async (req, res) => {
+      const userId = authService.getCurrentUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const discovered = await pluginManager.discover();
+      const plugins = await pluginManager.sync(userId);
+      res.json({
+        plugins: plugins.map(withRuntime),
+        invalid: discovered
+          .filter((d) => !d.manifest)
+          .map((d) => ({ directory: d.directory, error: d.error })),
+      });
+    })
+  );
+
+  /**
+   * GET /api/plugins/:id - Get single plugin
+   */
+  router.get(
+    '/:id',
+    requireCapability('manage_plugins', { global: true }),
+    asyncHandler(async (req, res) => {
+      const plugin = await models.plugins.findById(req.params.id);
+      if (!plugin) {
+        return res.status(404).json({ message: 'Plugin not found' });
+      }
+      res.json(withRuntime(plugin));
+    })
+  );
+
+  /**
+   * POST /api/plugins/:id/activate - Activate plugin
+   * Responds 422 with the load error when the plugin cannot be loaded
+   */
+  router.post(
+    '/:id/activate',
+    requireCapability('manage_plugins', { global: true }),
+    asyncHandler(async (req, res) => {
+      const plugin = await models.plugins.findById(req.params.id);
+      if (!plugin) {
+        return res.status(404).json({ message: 'Plugin not found' });
+      }
+
+      try {
+        const activated = await pluginManager.activate(plugin.id);
+        res.json(withRuntime(activated));
+      } catch (error) {
+        res.status(422).json({ message: (error as Error).message });
+      }
+    })
+  );
+
+  /**
+   * POST /api/plugins/:id/deactivate - Deactivate plugin
+   */
+  router.post(
+    '/:id/deactivate',
+    requireCapability('manage_plugins', { global: true }),
+    asyncHandler(async (req, res) => {
+      const plugin = await models.plugins.findById(req.params.id);
+      if (!plugin) {
+        return res.status(404).json({ message: 'Plugin not found' });
+      }
+
+      const deactivated = await pluginManager.deactivate(plugin.id);
+      res.json(withRuntime(deactivated));
+    })
+  );
+
+  /**
+   * PUT /api/plugins/:id/settings - Merge settings into the plugin row
+   */
+  router.put(
+    '/:id/settings',
+    requireCapability('manage_plugins', { global: true }),
+    asyncHandler(async (req, res) => {
+      const plugin = await models.plugins.findById(req.params.id);
+      if (!plugin) {
+        return res.status(404).json({ message: 'Plugin not found' });
+      }
+
+      const parsed = settingsSchema.safeParse(req.body?.settings);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid plugin settings', errors: parsed.error.errors });
+      }
+
+      const updated = await pluginManager.updateSettings(plugin.id, parsed.data);
+      res.json(withRuntime(updated));
+    })
+  );
+
+  return router;
+}
@@ -1,51 +1,144 @@
-import { Router } from 'express';
+import { Router, type Request, type Response } from 'express';
+import type { Filter } from '@shared/create-models';
 import type { Deps } from './shared/deps';
 import { asyncHandler } from './shared/async-handler';
 import { safeTryAsync } from '../utils';
+import { HookVetoError } from '../hooks';
 import { coerceDates } from './shared/date-coerce';
+import { generateSlug, INVALID_SLUG_MESSAGE, isValidSlug } from './shared/slug';
+import { resolveSchedule } from '../publishing';
+import { appendRevision, requestedVersion, versionConflict } from '../revisions';
+import type { Post, TermTaxonomy } from '@shared/schema-types';
+
+const CONFLICT_MESSAGE = 'This post was changed by someone else since you opened it';
 
 /**
  * Creates Posts CRUD routes for the NextPress API.
  * 
  * Endpoints:
- * - GET /api/posts - List posts with pagination and status filter
- * - GET /api/posts/:id - Get single post by ID
- * - POST /api/posts - Create new post (requires auth)
- * - PUT /api/posts/:id - Update post (requires auth)
- * - DELETE /api/posts/:id - Delete post (requires auth)
+ * - GET /api/posts - List posts with pagination, status, blog_id, category, tag and full-text search filters
+ * - GET /api/posts/:id - Get single post by ID, with its categories and tags
+ * - POST /api/posts - Create new post (requires edit_posts; publishing or scheduling requires publish_posts)
+ * - PUT /api/posts/:id - Update post (requires edit_posts, edit_others_posts for other authors)
+ * - DELETE /api/posts/:id - Delete post (requires delete_posts, delete_others_posts for other authors)
+ * 
+ * Creates and updates run the async `pre_save_post` filter first; a callback returning
+ * a HookVeto rejects the save with its message (422 unless the veto sets a status).
+ * Both accept `categories` and `tags` arrays of term IDs or slugs; unknown tag names
+ * create new tags, unknown categories are ignored.
+ *
+ * Publishing with a future `publishedAt` stores the `future` status and the post goes
+ * live at that time; `expiresAt` moves a published post back to draft (see publishing.ts).
+ *
+ * Posts are versioned like pages: every update bumps `version` and pushes the previous
+ * blocks onto `history`, and a PUT carrying a stale `version` gets a 409 with the
+ * current post (see revisions.ts).
  * 
  * @param deps - Injected dependencies (models, hooks, schemas, auth, etc.)
  * @returns Express router with mounted post routes
  */
 export function createPostsRoutes(deps: Deps): Router {
   const router = Router();
-  const { models, hooks, authService, requireAuth, CONFIG, parsePaginationParams, parseStatusParam, schemas } = deps;
+  const { models, hooks, authService, requireCapability, userCan, CONFIG, parsePaginationParams, parseStatusParam, schemas } = deps;
   const postSchemas = schemas.posts;
 
+  // Resolves the author of the post targeted by :id for own-vs-others checks
+  // Answers a save that lost the race against another save with the post as it is now
+  const sendConflict = async (res: Response, id: string, expectedVersion: number) => {
+    const current = await models.posts.findById(id);
+    if (!current) {
+      return res.status(404).json({ message: 'Post not found' });
+    }
+    return res.status(409).json(versionConflict(current as Post, expectedVersion, CONFLICT_MESSAGE));
+  };
+
+  const postOwner = async (req: Request) => (await models.posts.findById(req.params.id))?.authorId;
+  // Posts belong to the site of their blog, and posts outside a blog to the default site
+  const postSite = async (req: Request) => {
+    const post = await models.posts.findById(req.params.id);
+    if (!post) return undefined;
+    const blog = post.blogId ? await models.blogs.findById(post.blogId) : undefined;
+    return blog?.siteId ?? (await models.sites.findDefaultSite())?.id;
+  };
+
+  // Resolves a category/tag query value (ID or slug) to the term IDs it matches;
+  // categories include their descendants
+  async function termFilterIds(taxonomy: TermTaxonomy, value: string): Promise<string[]> {
+    const term = await models.terms.resolve(taxonomy, value);
+    if (!term) return [];
+    return taxonomy === 'category' ? models.terms.findDescendantIds(term.id) : [term.id];
+  }
+
+  // Replaces the post's terms for each taxonomy present in the request body
+  async function assignTerms(postId: string, body: Record<string, unknown>) {
+    for (const [field, taxonomy] of [['categories', 'category'], ['tags', 'tag']] as const) {
+      const values = body?.[field];
+      if (!Array.isArray(values)) continue;
+
+      const termIds: string[] = [];
+      for (const value of values as Array<string | { id?: unknown; name?: unknown } | null>) {
+        const ref = typeof value === 'string' ? value : value?.id ?? value?.name;
+        if (typeof ref !== 'string' || !ref.trim()) continue;
+
+        let term = (await models.terms.resolve(taxonomy, ref.trim()))
+          ?? (await models.terms.findBySlug(taxonomy, generateSlug(ref)));
+        if (!term && taxonomy === 'tag' && generateSlug(ref)) {
+          term = await models.terms.create({ taxonomy, name: ref.trim(), slug: generateSlug(ref) });
+        }
+        if (term) termIds.push(term.id);
+      }
+      await models.terms.setPostTerms(postId, taxonomy, termIds);
+    }
+  }
+
+  async function withTerms(post: Post) {
+    const terms = await models.terms.findByPost(post.id);
+    const pick = (taxonomy: TermTaxonomy) =>
+      terms
+        .filter((term) => term.taxonomy === taxonomy)
+        .map(({ id, name, slug, parentId }) => ({ id, name, slug, parentId }));
+    return { ...post, categories: pick('category'), tags: pick('tag') };
+  }
+
   /**
-   * GET /api/posts - List posts with pagination, status and blog_id filter
+   * GET /api/posts - List posts with pagination, status, blog_id, category, tag and search filters
    */
   router.get(
     '/',
     asyncHandler(async (req, res) => {
+      const { status = CONFIG.STATUS.PUBLISH, blog_id, category, tag, search } = req.query;
+
+      // Handle 'any' status to show all posts (for admin interface)
+      const actualStatus = parseStatusParam(status as string);
+
+      // Unpublished posts are only visible to users who can edit posts
+      if (actualStatus !== CONFIG.STATUS.PUBLISH && !(await userCan(req, 'edit_posts'))) {
+        return res.status(403).json({ message: "Forbidden: missing capability 'edit_posts'" });
+      }
+
       const { err, result } = await safeTryAsync(async () => {
         const { page, limit, offset } = parsePaginationParams(
           req.query,
           CONFIG.PAGINATION.DEFAULT_POSTS_PER_PAGE
         );
-        const { status = CONFIG.STATUS.PUBLISH, blog_id } = req.query;
-
-        // Handle 'any' status to show all posts (for admin interface)
-        const actualStatus = parseStatusParam(status as string);
 
-        // Build combined filter array for status + blogId
-        const filters: Array<{ where: string; equals: unknown }> = [];
+        // Build combined filter array for status, blogId and terms
+        const filters: Filter[] = [];
         if (actualStatus) {
           filters.push({ where: 'status', equals: actualStatus });
         }
         if (blog_id && typeof blog_id === 'string') {
           filters.push({ where: 'blogId', equals: blog_id });
         }
+        if (category && typeof category === 'string') {
+          filters.push(models.terms.postsFilter(await termFilterIds('category', category)));
+        }
+        if (tag && typeof tag === 'string') {
+          filters.push(models.terms.postsFilter(await termFilterIds('tag', tag)));
+        }
+        if (typeof search === 'string' && search.trim()) {
+          filters.push(models.searchIndex.matchFilter('post', search.trim()));
+        }
 
         const posts = filters.length > 0
           ? await models.posts.findManyWhere(filters, { limit, offset })
@@ -84,7 +177,10 @@ export function createPostsRoutes(deps: Deps): Router {
         if (!post) {
           return res.status(404).json({ message: 'Post not found' });
         }
-        res.json(post);
+        if (post.status !== CONFIG.STATUS.PUBLISH && !(await userCan(req, 'edit_posts'))) {
+          return res.status(404).json({ message: 'Post not found' });
+        }
+        res.json(await withTerms(post));
       } catch (error) {
         console.error('Error fetching post:', error);
         res.status(500).json({ message: 'Failed to fetch post' });
@@ -93,12 +189,26 @@ export function createPostsRoutes(deps: Deps): Router {
   );
 
   /**
-   * POST /api/posts - Create new post (requires authentication)
+   * POST /api/posts - Create new post (requires edit_posts)
    */
   router.post(
     '/',
-    requireAuth,
+    requireCapability('edit_posts'),
     asyncHandler(async (req: any, res) => {
+      if (req.body?.slug && !isValidSlug(req.body.slug)) {
+        return res.status(400).json({ message: INVALID_SLUG_MESSAGE });
+      }
+      const body = coerceDates(req.body ?? {}, ['publishedAt', 'expiresAt']);
+      const schedule = resolveSchedule(body);
+      if (schedule.error) {
+        return res.status(400).json({ message: schedule.error });
+      }
+
+      const goesLive = schedule.status === CONFIG.STATUS.PUBLISH || schedule.status === CONFIG.STATUS.FUTURE;
+      if (goesLive && !(await userCan(req, 'publish_posts'))) {
+        return res.status(403).json({ message: "Forbidden: missing capability 'publish_posts'" });
+      }
+
       const { err, result } = await safeTryAsync(async () => {
         const userId = authService.getCurrentUserId(req);
         if (!userId) {
@@ -106,15 +216,15 @@ export function createPostsRoutes(deps: Deps): Router {
         }
 
         // Validate title before parse so we can generate slug
-        const title = req.body.title;
+        const title = body.title;
         if (!title || typeof title !== 'string') {
           throw new Error('Title is required and must be a string');
         }
 
         // Generate slug before validation so the required field is present
         const titleStr = String(title);
-        const slugValue = req.body.slug 
-          ? String(req.body.slug)
+        const slugValue = body.slug 
+          ? String(body.slug)
           : titleStr
               .toLowerCase()
               .replace(/[^a-z0-9]+/g, '-')
@@ -122,7 +232,8 @@ export function createPostsRoutes(deps: Deps): Router {
 
         // Include authorId and slug in the data before validation
         const parsedData = postSchemas.insert.parse({
-          ...req.body,
+          ...body,
+          ...(schedule.status ? { status: schedule.status } : {}),
           slug: slugValue,
           authorId: userId,
         });
@@ -134,16 +245,26 @@ export function createPostsRoutes(deps: Deps): Router {
           authorId: String(parsedData.authorId),
         };
 
-        const post = await models.posts.create(postData);
-        hooks.doAction('save_post', post);
+        // Plugins may rewrite the data or veto the save
+        const filteredData = await hooks.applyFiltersAsync('pre_save_post', postData, {
+          type: 'post',
+          existing: null,
+        });
+
+        const post = await models.posts.create(filteredData);
+        await assignTerms(post.id, req.body);
+        await hooks.doActionAsync('save_post', post);
 
         if (post.status === CONFIG.STATUS.PUBLISH) {
-          hooks.doAction('publish_post', post);
+          await hooks.doActionAsync('publish_post', post);
         }
 
-        return post;
+        return withTerms(post);
       });
 
+      if (err instanceof HookVetoError) {
+        return res.status(err.status).json({ message: err.message });
+      }
       if (err) {
         console.error('Error creating post:', err);
         return res.status(500).json({ message: 'Failed to create post' });
@@ -154,32 +275,66 @@ export function createPostsRoutes(deps: Deps): Router {
   );
 
   /**
-   * PUT /api/posts/:id - Update existing post (requires authentication)
+   * PUT /api/posts/:id - Update existing post (requires edit_posts / edit_others_posts)
    */
   router.put(
     '/:id',
-    requireAuth,
+    requireCapability('edit_posts', { others: 'edit_others_posts', ownerOf: postOwner, siteOf: postSite }),
     asyncHandler(async (req, res) => {
       try {
+        if (req.body?.slug !== undefined && !isValidSlug(req.body.slug)) {
+          return res.status(400).json({ message: INVALID_SLUG_MESSAGE });
+        }
         const id = req.params.id;
-        const postData = postSchemas.update.parse(coerceDates(req.body, ['publishedAt']));
+        const postData = postSchemas.update.parse(coerceDates(req.body, ['publishedAt', 'expiresAt'])) as any;
+        const expectedVersion = requestedVersion(req.body);
 
         const existingPost = await models.posts.findById(id);
         if (!existingPost) {
           return res.status(404).json({ message: 'Post not found' });
         }
+        if (expectedVersion !== undefined && expectedVersion !== existingPost.version) {
+          return res.status(409).json(versionConflict(existingPost as Post, expectedVersion, CONFLICT_MESSAGE));
+        }
 
-        const wasPublished = existingPost.status === 'publish';
-        const post = await models.posts.update(id, postData);
+        const schedule = resolveSchedule(postData, existingPost);
+        if (schedule.error) {
+          return res.status(400).json({ message: schedule.error });
+        }
+        if (schedule.status) {
+          postData.status = schedule.status;
+        }
+
+        // Publishing, scheduling or rescheduling needs publish_posts
+        const wasPublished = existingPost.status === CONFIG.STATUS.PUBLISH;
+        const goesLive = schedule.status === CONFIG.STATUS.PUBLISH || schedule.status === CONFIG.STATUS.FUTURE;
+        if (goesLive && schedule.status !== existingPost.status && !(await userCan(req, 'publish_posts'))) {
+          return res.status(403).json({ message: "Forbidden: missing capability 'publish_posts'" });
+        }
+
+        const filteredData = await hooks.applyFiltersAsync(
+          'pre_save_post',
+          { ...postData, ...appendRevision(existingPost as Post) },
+          { type: 'post', existing: existingPost }
+        );
 
-        hooks.doAction('save_post', post);
+        const post = await models.posts.updateVersioned(id, existingPost.version, filteredData);
+        if (!post) {
+          return sendConflict(res, id, expectedVersion ?? existingPost.version);
+        }
+        await assignTerms(post.id, req.body);
+
+        await hooks.doActionAsync('save_post', post);
 
         if (!wasPublished && post.status === 'publish') {
-          hooks.doAction('publish_post', post);
+          await hooks.doActionAsync('publish_post', post);
         }
 
-        res.json(post);
+        res.json(await withTerms(post));
       } catch (error) {
+        if (error instanceof HookVetoError) {
+          return res.status(error.status).json({ message: error.message });
+        }
         console.error('Error updating post:', error);
         res.status(500).json({ message: 'Failed to update post' });
       }
@@ -187,11 +342,11 @@ export function createPostsRoutes(deps: Deps): Router {
   );
 
   /**
-   * DELETE /api/posts/:id - Delete post (requires authentication)
+   * DELETE /api/posts/:id - Delete post (requires delete_posts / delete_others_posts)
    */
   router.delete(
     '/:id',
-    requireAuth,
+    requireCapability('delete_posts', { others: 'delete_others_posts', ownerOf: postOwner, siteOf: postSite }),
     asyncHandler(async (req, res) => {
       try {
         const id = req.params.id;
@@ -3,6 +3,7 @@ import { eq } from 'drizzle-orm';
 import type { Deps } from './shared/deps';
 import { asyncHandler } from './shared/async-handler';
 import { safeTryAsync } from '../utils';
+import { withResolvedPatterns } from '../patterns';
 import { db } from '../db';
 import { pages } from '@shared/schema';
 
@@ -44,7 +45,7 @@ export function createPreviewRoutes(deps: Deps): Router {
             .json({ message: 'Post not available for preview' });
         }
 
-        res.json(post);
+        res.json(await withResolvedPatterns(post, models.patterns));
       });
 
       if (err) {
@@ -77,7 +78,7 @@ export function createPreviewRoutes(deps: Deps): Router {
             .json({ message: 'Page not available for preview' });
         }
 
-        res.json(page);
+        res.json(await withResolvedPatterns(page, models.patterns));
       });
 
       if (err) {
@@ -102,7 +103,7 @@ export function createPreviewRoutes(deps: Deps): Router {
 
         // Template preview is available for all templates
 
-        res.json(template);
+        res.json(await withResolvedPatterns(template, models.patterns));
       });
 
       if (err) {
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import type { Deps } from './shared/deps';
 import { asyncHandler } from './shared/async-handler';
 import { safeTryAsync } from '../utils';
+import { withResolvedPatterns } from '../patterns';
 
 /**
  * Creates public API routes for accessing published content without authentication.
@@ -39,7 +40,7 @@ export function createPublicRoutes(deps: Deps): Router {
           return res.status(404).json({ message: 'Page not found' });
         }
 
-        res.json(page);
+        res.json(await withResolvedPatterns(page, models.patterns));
       });
 
       if (err) {
@@ -67,7 +68,7 @@ export function createPublicRoutes(deps: Deps): Router {
           return res.status(404).json({ message: 'Post not found' });
         }
 
-        res.json(post);
+        res.json(await withResolvedPatterns(post, models.patterns));
       });
 
       if (err) {
@@ -96,7 +97,7 @@ export function createPublicRoutes(deps: Deps): Router {
           return res.status(404).json({ message: 'No homepage content found' });
         }
 
-        res.json(page);
+        res.json(await withResolvedPatterns(page, models.patterns));
       });
 
       if (err) {
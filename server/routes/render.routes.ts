@@ -5,15 +5,11 @@ import { safeTryAsync } from "../utils";
 import path from "path";
 import { readFileSync } from "fs";
 import { fileURLToPath } from "url";
-import { adaptBlockConfigToBlockData, collectBlockModifierCSS } from "../../renderer/adapt-block-config";
-import { renderBlocksToHtml, getHydrationScript } from "../../renderer/to-html";
-import { PageTemplate } from "../../renderer/templates/page";
-import type { PageRenderOptions } from "../../renderer/templates/page";
-import type { BlockConfig } from "@shared/schema-types";
-import type { BlockAnimation } from "@shared/schema-types";
-import type { BlockData } from "../../renderer/react/block-types";
-
-import { generateBlockAnimationCSS } from "@shared/animation-utils";
+import { renderBlockDocument, BLOCK_COMPONENTS_STUB } from "../../renderer/render-page";
+import { RenderCache } from "../render-cache";
+import { withResolvedPatterns } from "../patterns";
+import { withResolvedPostBlocks } from "../post-blocks";
+import { DEFAULT_SETTINGS } from "@shared/settings-default";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -30,12 +26,16 @@ const __dirname = path.dirname(__filename);
  * All routes use themeManager to render content with the active theme.
  * Returns 404 page if content not found or rendering fails.
  *
+ * Block pages under /sites/:siteId/:pageSlug are served from the render cache
+ * when the site's `system.cachingEnabled` setting is on, with ETag and
+ * Last-Modified validators so clients can revalidate with a 304.
+ *
  * @param deps - Injected dependencies (models, themeManager, getSiteSettings)
  * @returns Express router with mounted render routes
  */
 export function createRenderRoutes(deps: Deps): Router {
 	const router = Router();
-	const { models, themeManager, getSiteSettings } = deps;
+	const { models, themeManager, renderCache, getSiteSettings } = deps;
 
 	/**
 	 * GET /renderer/scripts/hydrate.js - Serve hydration script
@@ -61,15 +61,8 @@ export function createRenderRoutes(deps: Deps): Router {
 	 */
 	router.get("/renderer/react/block-components.js", (_req, res) => {
 		try {
-			// For now, return a stub that imports from CDN
-			// In production, this should be a bundled version of the components
-			const stub = `
-        // Block components stub - components are server-rendered
-        // This is a placeholder for client-side hydration
-        export const BLOCK_COMPONENTS = {};
-      `;
 			res.setHeader("Content-Type", "application/javascript");
-			res.send(stub);
+			res.send(BLOCK_COMPONENTS_STUB);
 		} catch (error) {
 			console.error("Error serving block-components.js:", error);
 			res.status(500).send("// Error loading block components");
@@ -78,23 +71,29 @@ export function createRenderRoutes(deps: Deps): Router {
 
 	/**
 	 * GET /robots.txt - Serve robots.txt with sensible defaults
-	 * References site URL for sitemap location
+	 * References the sitemap index, or blocks all crawling while
+	 * `reading.discourageSearchIndexing` is enabled
 	 */
-	router.get("/robots.txt", (req, res) => {
-		const settings = getSiteSettings(req);
-		const siteUrl = settings?.url || `${req.protocol}://${req.get("host")}`;
-
-		const lines: string[] = [
-			"User-agent: *",
-			"Disallow: /admin",
-			"Disallow: /api",
-			"",
-			`Sitemap: ${siteUrl}/sitemap.xml`,
-		];
-
-		res.setHeader("Content-Type", "text/plain");
-		res.send(lines.join("\n"));
-	});
+	router.get(
+		"/robots.txt",
+		asyncHandler(async (req, res) => {
+			const settings = await models.sites.getSettings();
+			const siteUrl = (settings.general.siteUrl || getSiteSettings(req).url).replace(/\/+$/, "");
+
+			const lines: string[] = settings.reading.discourageSearchIndexing
+				? ["User-agent: *", "Disallow: /"]
+				: [
+					"User-agent: *",
+					"Disallow: /admin",
+					"Disallow: /api",
+					"",
+					`Sitemap: ${siteUrl}/sitemap.xml`,
+				];
+
+			res.setHeader("Content-Type", "text/plain");
+			res.send(lines.join("\n"));
+		}),
+	);
 
 	/**
 	 * GET /posts/:id - Render single post as HTML
@@ -203,8 +202,8 @@ export function createRenderRoutes(deps: Deps): Router {
 	);
 
 	/**
-	 * GET /sites/:siteId/:pageSlug - Retrieve page by site ID and page slug
-	 * Phase 1: Retrieves and logs blocks to console (rendering in Phase 2)
+	 * GET /sites/:siteId/:pageSlug - Render a published page by site ID and page slug
+	 * Cached per page version; responds 304 when the client copy is still fresh
 	 */
 	router.get(
 		"/sites/:siteId/:pageSlug",
@@ -278,93 +277,48 @@ export function createRenderRoutes(deps: Deps): Router {
 					return;
 				}
 
-				// 5. Phase 2: Render blocks to HTML
-				const blocks = (
-					Array.isArray(page.blocks) ? page.blocks : []
-				) as BlockConfig[];
-
-				// Adapt BlockConfig to BlockData
-				const adaptedBlocks = blocks
-					.map((block) => adaptBlockConfigToBlockData(block))
-					.filter((block): block is BlockData => block !== null);
-
-				// Render blocks to HTML
-				const blockContentHtml = renderBlocksToHtml(adaptedBlocks);
-
-				// Collect all custom CSS from blocks
-				const allCustomCss = blocks
-					.map((block) =>
-						[block.customCss, block.other?.css].filter(Boolean).join("\n"),
-					)
-					.filter(Boolean)
-					.join("\n");
-
-				// Collect animation CSS rules (hover/loop) from blocks using shared utility
-				const animationCssRules = blocks
-					.filter((b) => b.other?.animation)
-					.map((b) => generateBlockAnimationCSS(b.id, b.other!.animation!))
-					.filter(Boolean)
-					.join("\n");
-
-				// Collect modifier CSS rules (hover states, responsive) from token system
-				const modifierCssRules = blocks
-					.map((b) => collectBlockModifierCSS(b))
-					.filter(Boolean)
-					.join("\n");
-
-				// Check if any blocks have animations
-				const hasAnimations = blocks.some((b) => b.other?.animation);
-				const hasEntryAnimations = blocks.some((b) => b.other?.animation?.entry);
-
-				// Build headScripts with conditional animation assets
-				const headParts: string[] = [];
-				if (allCustomCss) headParts.push(`<style>${allCustomCss}</style>`);
-				if (animationCssRules) headParts.push(`<style>${animationCssRules}</style>`);
-				if (modifierCssRules) headParts.push(`<style>${modifierCssRules}</style>`);
-				if (hasAnimations) headParts.push(`<link rel="stylesheet" href="/vendor/animate.min.css">`);
-				if (hasEntryAnimations) headParts.push(`<link rel="stylesheet" href="/vendor/aos.css">`);
-				const headScripts = headParts.filter(Boolean).join("\n");
-
-				// Build bodyScripts with conditional AOS init
-				const bodyParts: string[] = [];
-				if (hasEntryAnimations) {
-					bodyParts.push(`<script src="/vendor/aos.js"></script>`);
-					bodyParts.push(`<script>AOS.init({useClassNames:true,initClassName:false,animatedClassName:"animate__animated",once:true,duration:1000,offset:120,easing:"ease"});</script>`);
-				}
-				const bodyScripts = bodyParts.join("\n");
-
-				// Get hydration script
-				const hydrateScript = getHydrationScript();
-
-				// Build full HTML page — extract SEO + design from page.other
-				const pageOther = (page.other && typeof page.other === 'object') ? page.other as Record<string, any> : {};
-				const seo = pageOther.seo || {};
-				const design = pageOther.design || {};
-
-				const pageDescription = seo.metaDescription || "";
-				const renderOptions: PageRenderOptions = {
-					fontFamily: design.fontFamily || undefined,
-					containerWidth: design.containerWidth || undefined,
-					padding: design.padding || undefined,
-					backgroundColor: design.backgroundColor?.style || undefined,
-					textColor: design.textColor?.style || undefined,
-					noIndex: seo.noIndex || false,
-					customMeta: Array.isArray(seo.customMeta) ? seo.customMeta : undefined,
-				};
-
-				const html = PageTemplate(
-					seo.metaTitle || page.title || "Untitled Page",
-					pageDescription,
-					seo.canonicalUrl || `${req.protocol}://${req.get("host")}${req.originalUrl}`,
-					headScripts,
-					blockContentHtml,
-					bodyScripts,
-					hydrateScript,
-					renderOptions,
-				);
+				// 5. Serve from the render cache, rendering on a miss
+				const settings = site.settings as {
+					general?: { siteUrl?: string };
+					system?: { cachingEnabled?: boolean };
+				} | null;
+				const cachingEnabled = settings?.system?.cachingEnabled ?? DEFAULT_SETTINGS.system.cachingEnabled;
+				// Canonical URL leaves out the query string so one entry serves every variant.
+				// Its origin comes from the configured site URL; the Host header is only
+				// trusted for uncached responses, so one request can't poison the cache.
+				const siteUrl = settings?.general?.siteUrl || site.siteUrl;
+				const origin = siteUrl
+					? siteUrl.replace(/\/+$/, "")
+					: cachingEnabled
+						? ""
+						: `${req.protocol}://${req.get("host")}`;
+				const render = async () =>
+					renderBlockDocument(
+						await withResolvedPostBlocks(await withResolvedPatterns(page, models.patterns), { models }),
+						`${origin}${req.baseUrl}${req.path}`,
+						await models.themes.getGlobalStyles(),
+					);
 
 				res.setHeader("Content-Type", "text/html");
-				res.send(html);
+				if (!cachingEnabled) {
+					res.send(await render());
+					return;
+				}
+
+				const key = RenderCache.key(siteId, page.slug, page.version);
+				const cached = await renderCache.get(key);
+				// Last-Modified is the render time: flushes re-render pages whose own updatedAt didn't move
+				const entry = cached ?? (await renderCache.set(key, await render()));
+
+				res.setHeader("ETag", entry.etag);
+				res.setHeader("Last-Modified", new Date(entry.lastModified).toUTCString());
+				res.setHeader("Cache-Control", "no-cache");
+				res.setHeader("X-Cache", cached ? "HIT" : "MISS");
+				if (req.fresh) {
+					res.status(304).end();
+					return;
+				}
+				res.send(entry.html);
 			});
 
 			if (err) {
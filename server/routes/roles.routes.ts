@@ -0,0 +1,295 @@
+import { Router, type Request } from 'express';
+import { z } from 'zod';
+import type { Deps } from './shared/deps';
+import { asyncHandler } from './shared/async-handler';
+import { DEFAULT_ROLES, getCapabilityNames, toCapabilityEntries } from '@shared/capabilities';
+
+const roleInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(1000).optional(),
+  capabilities: z.array(z.string().min(1)).default([]),
+  siteId: z.string().uuid().nullable().optional(),
+});
+
+const assignmentSchema = z.object({
+  userId: z.string().uuid(),
+  siteId: z.string().uuid().optional(),
+});
+
+const BUILT_IN_ROLE_NAMES = DEFAULT_ROLES.map((role) => role.name);
+
+/**
+ * Creates role and role-assignment routes.
+ * Roles bundle capabilities; a user holds roles per site through `user_roles` rows.
+ *
+ * Endpoints:
+ * - GET    /api/roles                      - List roles (list_users)
+ * - GET    /api/roles/assignments          - List user role assignments for a site (list_users)
+ * - GET    /api/roles/:id                  - Get single role (list_users)
+ * - POST   /api/roles                      - Create custom role (manage_roles)
+ * - PUT    /api/roles/:id                  - Update role name, description or capabilities (manage_roles)
+ * - DELETE /api/roles/:id                  - Delete custom role and its assignments (manage_roles)
+ * - POST   /api/roles/:id/assign           - Assign role to a user on a site (manage_users)
+ * - DELETE /api/roles/:id/assign/:userId   - Revoke role from a user on a site (manage_users)
+ *
+ * Roles themselves are global and checked on the default site. Assigning or
+ * revoking a role also requires holding each of its capabilities on the site,
+ * and creating or editing one requires holding every capability added or removed
+ * on the default site, so users can't hand out more than they have. Assignment
+ * endpoints act on the site the capability guards check: the `x-site-id` header,
+ * `siteId` query or body field, falling back to the default site.
+ *
+ * @param deps - Injected dependencies (models, hooks, capability guards)
+ * @returns Express router with mounted role routes
+ */
+export function createRolesRoutes(deps: Deps): Router {
+  const router = Router();
+  const { models, hooks, requireCapability, userCan, resolveSiteId, defaultSiteId } = deps;
+
+  // The first of `capabilities` the current user lacks on the site, if any
+  async function missingCapability(req: Request, capabilities: string[], siteId: string): Promise<string | undefined> {
+    for (const capability of capabilities) {
+      if (!(await userCan(req, capability, siteId))) return capability;
+    }
+    return undefined;
+  }
+
+  /**
+   * GET /api/roles - List all roles
+   */
+  router.get(
+    '/',
+    requireCapability('list_users', { global: true }),
+    asyncHandler(async (_req, res) => {
+      const roles = await models.roles.findMany({
+        limit: 200,
+        orderBy: { property: 'createdAt', order: 'ascending' },
+      });
+      res.json({ roles, builtIn: BUILT_IN_ROLE_NAMES });
+    })
+  );
+
+  /**
+   * GET /api/roles/assignments - List role assignments on a site, optionally for one user
+   */
+  router.get(
+    '/assignments',
+    requireCapability('list_users'),
+    asyncHandler(async (req, res) => {
+      const siteId = await resolveSiteId(req);
+      if (!siteId) {
+        return res.status(404).json({ message: 'Site not found' });
+      }
+
+      const { user_id } = req.query;
+      const filters = [
+        { where: 'siteId', equals: siteId },
+        ...(typeof user_id === 'string' ? [{ where: 'userId', equals: user_id }] : []),
+      ];
+
+      const assignments = await models.userRoles.findManyWhere(filters, { limit: 1000 });
+      res.json({ siteId, assignments });
+    })
+  );
+
+  /**
+   * GET /api/roles/:id - Get single role
+   */
+  router.get(
+    '/:id',
+    requireCapability('list_users', { global: true }),
+    asyncHandler(async (req, res) => {
+      const role = await models.roles.findById(req.params.id);
+      if (!role) {
+        return res.status(404).json({ message: 'Role not found' });
+      }
+      res.json(role);
+    })
+  );
+
+  /**
+   * POST /api/roles - Create a custom role
+   */
+  router.post(
+    '/',
+    requireCapability('manage_roles', { global: true }),
+    asyncHandler(async (req, res) => {
+      const parsed = roleInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid role data', errors: parsed.error.errors });
+      }
+
+      const existing = await models.roles.findByName(parsed.data.name);
+      if (existing) {
+        return res.status(400).json({ message: `Role "${parsed.data.name}" already exists` });
+      }
+      const siteId = await defaultSiteId();
+      if (!siteId) {
+        return res.status(404).json({ message: 'Site not found' });
+      }
+      const missing = await missingCapability(req, parsed.data.capabilities, siteId);
+      if (missing) {
+        return res.status(403).json({ message: `Forbidden: the role would grant '${missing}', which you don't have` });
+      }
+
+      const role = await models.roles.create({
+        name: parsed.data.name,
+        description: parsed.data.description,
+        capabilities: toCapabilityEntries(parsed.data.capabilities),
+        siteId: parsed.data.siteId ?? null,
+      });
+
+      hooks.doAction('add_role', role);
+      res.status(201).json(role);
+    })
+  );
+
+  /**
+   * PUT /api/roles/:id - Update role (built-in roles keep their name and capabilities)
+   */
+  router.put(
+    '/:id',
+    requireCapability('manage_roles', { global: true }),
+    asyncHandler(async (req, res) => {
+      const existing = await models.roles.findById(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Role not found' });
+      }
+
+      const parsed = roleInputSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid role data', errors: parsed.error.errors });
+      }
+
+      const { name, description, capabilities } = parsed.data;
+      const isBuiltIn = BUILT_IN_ROLE_NAMES.includes(existing.name);
+      if (name && name !== existing.name && isBuiltIn) {
+        return res.status(400).json({ message: 'Built-in roles cannot be renamed' });
+      }
+
+      if (capabilities) {
+        const current = getCapabilityNames(existing.capabilities);
+        const changed = [
+          ...capabilities.filter((capability) => !current.includes(capability)),
+          ...current.filter((capability) => !capabilities.includes(capability)),
+        ];
+        if (changed.length > 0 && isBuiltIn) {
+          return res.status(400).json({ message: 'Built-in role capabilities cannot be changed' });
+        }
+        const siteId = await defaultSiteId();
+        if (!siteId) {
+          return res.status(404).json({ message: 'Site not found' });
+        }
+        const missing = await missingCapability(req, changed, siteId);
+        if (missing) {
+          return res.status(403).json({ message: `Forbidden: the change touches '${missing}', which you don't have` });
+        }
+      }
+
+      const role = await models.roles.update(existing.id, {
+        ...(name && { name }),
+        ...(description !== undefined && { description }),
+        ...(capabilities && { capabilities: toCapabilityEntries(capabilities) }),
+      });
+
+      hooks.doAction('update_role', role);
+      res.json(role);
+    })
+  );
+
+  /**
+   * DELETE /api/roles/:id - Delete a custom role and every assignment of it
+   */
+  router.delete(
+    '/:id',
+    requireCapability('manage_roles', { global: true }),
+    asyncHandler(async (req, res) => {
+      const role = await models.roles.findById(req.params.id);
+      if (!role) {
+        return res.status(404).json({ message: 'Role not found' });
+      }
+      if (BUILT_IN_ROLE_NAMES.includes(role.name)) {
+        return res.status(400).json({ message: 'Built-in roles cannot be deleted' });
+      }
+
+      const assignments = await models.userRoles.findManyWhere(
+        [{ where: 'roleId', equals: role.id }],
+        { limit: 10000 }
+      );
+      for (const assignment of assignments) {
+        await models.userRoles.delete(assignment.id);
+      }
+      await models.roles.delete(role.id);
+
+      hooks.doAction('remove_role', role);
+      res.json({ message: 'Role deleted successfully' });
+    })
+  );
+
+  /**
+   * POST /api/roles/:id/assign - Assign role to a user on a site
+   */
+  router.post(
+    '/:id/assign',
+    requireCapability('manage_users'),
+    asyncHandler(async (req, res) => {
+      const parsed = assignmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid assignment data', errors: parsed.error.errors });
+      }
+
+      const role = await models.roles.findById(req.params.id);
+      if (!role) {
+        return res.status(404).json({ message: 'Role not found' });
+      }
+      const user = await models.users.findById(parsed.data.userId);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      const siteId = await resolveSiteId(req);
+      if (!siteId) {
+        return res.status(404).json({ message: 'Site not found' });
+      }
+      const missing = await missingCapability(req, getCapabilityNames(role.capabilities), siteId);
+      if (missing) {
+        return res.status(403).json({ message: `Forbidden: the role grants '${missing}', which you don't have` });
+      }
+
+      const assignment = await models.userRoles.assignRole(user.id, role.id, siteId);
+      hooks.doAction('add_user_role', user.id, role, siteId);
+      res.status(201).json(assignment);
+    })
+  );
+
+  /**
+   * DELETE /api/roles/:id/assign/:userId - Revoke role from a user on a site
+   */
+  router.delete(
+    '/:id/assign/:userId',
+    requireCapability('manage_users'),
+    asyncHandler(async (req, res) => {
+      const siteId = await resolveSiteId(req);
+      if (!siteId) {
+        return res.status(404).json({ message: 'Site not found' });
+      }
+      const role = await models.roles.findById(req.params.id);
+      if (!role) {
+        return res.status(404).json({ message: 'Role not found' });
+      }
+      const missing = await missingCapability(req, getCapabilityNames(role.capabilities), siteId);
+      if (missing) {
+        return res.status(403).json({ message: `Forbidden: the role grants '${missing}', which you don't have` });
+      }
+
+      const removed = await models.userRoles.removeRole(req.params.userId, role.id, siteId);
+      if (removed === null) {
+        return res.status(404).json({ message: 'Role assignment not found' });
+      }
+
+      hooks.doAction('remove_user_role', req.params.userId, req.params.id, siteId);
+      res.json({ message: 'Role revoked successfully' });
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,191 @@
+import { Router } from 'express';
+import type { Deps } from './shared/deps';
+import { asyncHandler } from './shared/async-handler';
+import { renderBlockDocument } from '../../renderer/render-page';
+import { escapeXml } from '../sitemap';
+import {
+  SNIPPET_MARKERS,
+  parseSearchTypes,
+  rebuildSearchIndex,
+  renderSearchResults,
+  searchPageUrl,
+  toSearchResult,
+} from '../search';
+import type { BlockConfig, SearchObjectType } from '@shared/schema-types';
+
+const MAX_PER_PAGE = 100;
+
+// Capability needed to search unpublished objects of each type
+const EDIT_CAPABILITIES: Record<SearchObjectType, string | null> = {
+  post: 'edit_posts',
+  page: 'edit_pages',
+  media: null,
+};
+
+/**
+ * Creates the search API. Matches are ranked by Postgres full-text relevance
+ * (titles weigh more than excerpts, excerpts more than body text) and carry a
+ * snippet with the matched words wrapped in `<mark>`.
+ *
+ * Endpoints:
+ * - GET  /api/search          - Search (`q`, `type` = post,page,media, `status`, `page`, `per_page`)
+ * - POST /api/search/reindex  - Rebuild the index from all content (manage_settings)
+ *
+ * Without `status` only published posts and pages are searched; `status=any`
+ * or another status requires the edit capability of each requested type.
+ * Media is only searched when asked for with `type`.
+ *
+ * @param deps - Injected dependencies (models, capability guards)
+ * @returns Express router with mounted search routes
+ */
+export function createSearchRoutes(deps: Deps): Router {
+  const router = Router();
+  const { models, requireCapability, userCan, parsePaginationParams, parseStatusParam, CONFIG } = deps;
+
+  /**
+   * GET /api/search - Ranked full-text search with highlighted snippets
+   */
+  router.get(
+    '/',
+    asyncHandler(async (req, res) => {
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      if (!query) {
+        return res.status(400).json({ message: 'Search query (q) is required' });
+      }
+
+      const types = parseSearchTypes(req.query.type, ['post', 'page']);
+      const status = parseStatusParam(
+        typeof req.query.status === 'string' ? req.query.status : CONFIG.STATUS.PUBLISH
+      );
+      const publicOnly = status === CONFIG.STATUS.PUBLISH;
+
+      if (!publicOnly) {
+        for (const type of types) {
+          const capability = EDIT_CAPABILITIES[type];
+          if (capability && !(await userCan(req, capability))) {
+            return res.status(403).json({ message: `Forbidden: missing capability '${capability}'` });
+          }
+        }
+      }
+
+      const { page, per_page } = parsePaginationParams(req.query, CONFIG.PAGINATION.DEFAULT_POSTS_PER_PAGE);
+      const limit = Math.min(MAX_PER_PAGE, per_page);
+      const { hits, total } = await models.searchIndex.search(query, {
+        types,
+        statuses: status ? [status] : undefined,
+        publishedBefore: publicOnly ? new Date() : undefined,
+        limit,
+        offset: (page - 1) * limit,
+        highlight: SNIPPET_MARKERS,
+      });
+
+      res.json({
+        query,
+        results: hits.map((hit) => toSearchResult(hit)),
+        total,
+        page,
+        per_page: limit,
+        total_pages: Math.ceil(total / limit),
+      });
+    })
+  );
+
+  /**
+   * POST /api/search/reindex - Rebuild the index (manage_settings)
+   */
+  router.post(
+    '/reindex',
+    requireCapability('manage_settings', { global: true }),
+    asyncHandler(async (_req, res) => {
+      const indexed = await rebuildSearchIndex(models);
+      res.json({ message: 'Search index rebuilt', indexed });
+    })
+  );
+
+  return router;
+}
+
+/**
+ * Creates the public search page, laid out as a heading, a `core/search` form
+ * holding the current query and the ranked results, `reading.postsPerPage` per page.
+ *
+ * Endpoints:
+ * - GET /search?q=&page=  - Search published posts and pages
+ *
+ * @param deps - Injected dependencies (models, getSiteSettings)
+ * @returns Express router with the mounted search page
+ */
+export function createSearchPageRoutes(deps: Deps): Router {
+  const router = Router();
+  const { models, getSiteSettings } = deps;
+
+  /**
+   * GET /search - Search results page
+   */
+  router.get(
+    '/search',
+    asyncHandler(async (req, res) => {
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      const settings = await models.sites.getSettings();
+      const siteUrl = (settings.general.siteUrl || getSiteSettings(req).url).replace(/\/+$/, '');
+      const perPage = Math.max(1, settings.reading.postsPerPage);
+      const page = Math.max(1, parseInt(String(req.query.page ?? '1'), 10) || 1);
+
+      const { hits, total } = query
+        ? await models.searchIndex.search(query, {
+            types: ['post', 'page'],
+            statuses: ['publish'],
+            publishedBefore: new Date(),
+            limit: perPage,
+            offset: (page - 1) * perPage,
+            highlight: SNIPPET_MARKERS,
+          })
+        : { hits: [], total: 0 };
+      const totalPages = Math.max(1, Math.ceil(total / perPage));
+
+      const heading = query ? `Search results for “${query}”` : 'Search';
+      const blocks: BlockConfig[] = [
+        {
+          id: 'search-title',
+          name: 'core/heading',
+          type: 'block',
+          parentId: null,
+          content: { kind: 'text', value: heading, level: 1 } as BlockConfig['content'],
+        },
+        {
+          id: 'search-form',
+          name: 'core/search',
+          type: 'block',
+          parentId: null,
+          content: { kind: 'structured', data: { value: query, action: `${siteUrl}/search` } },
+        },
+        {
+          id: 'search-results',
+          name: 'core/html',
+          type: 'block',
+          parentId: null,
+          content: { kind: 'empty' },
+          other: {
+            html: renderSearchResults(
+              hits.map((hit) => toSearchResult(hit, siteUrl)),
+              { query, page, totalPages, total, baseUrl: siteUrl }
+            ),
+          },
+        },
+      ];
+
+      // Results pages should not compete with the content they point to
+      res.setHeader('X-Robots-Tag', 'noindex');
+      res.setHeader('Content-Type', 'text/html');
+      res.send(
+        renderBlockDocument(
+          { title: escapeXml(`${heading} | ${settings.general.siteName}`), blocks },
+          query ? searchPageUrl(siteUrl, query, page) : `${siteUrl}/search`,
+          await models.themes.getGlobalStyles()
+        )
+      );
+    })
+  );
+
+  return router;
+}
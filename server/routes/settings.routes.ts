@@ -14,7 +14,7 @@ import { getCaddyTlsHostnames, validateDomain } from '../utils/validate-domain';
  * - GET /api/settings - Get current site settings
  * - PATCH /api/settings - Update site settings (partial)
  * 
- * All endpoints require authentication.
+ * Reading requires authentication; updating requires manage_settings.
  * Settings are stored in sites.settings jsonb column.
  * 
  * @param deps - Injected dependencies (models, auth)
@@ -22,7 +22,7 @@ import { getCaddyTlsHostnames, validateDomain } from '../utils/validate-domain';
  */
 export function createSettingsRoutes(deps: Deps): Router {
   const router = Router();
-  const { models, requireAuth } = deps;
+  const { models, hooks, requireAuth, requireCapability } = deps;
 
   /**
    * GET /api/settings
@@ -53,13 +53,13 @@ export function createSettingsRoutes(deps: Deps): Router {
   /**
    * PATCH /api/settings
    * Update site settings with partial changes
-   * Auth: Required
+   * Auth: manage_settings
    * 
    * Validates partial payload, merges with existing, persists
    */
   router.patch(
     '/',
-    requireAuth,
+    requireCapability('manage_settings', { global: true }),
     asyncHandler(async (req, res) => {
       // Log incoming payload for debugging
       console.log('PATCH /api/settings - Received payload:', JSON.stringify(req.body, null, 2));
@@ -112,6 +112,7 @@ export function createSettingsRoutes(deps: Deps): Router {
         const updatedSettings = await models.sites.updateSettings(
           validationResult.data
         );
+        hooks.doAction('update_settings', updatedSettings);
 
         return { status: true, data: updatedSettings };
       });
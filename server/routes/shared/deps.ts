@@ -1,6 +1,10 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
 import { models } from '../../storage';
 import hooks from '../../hooks';
 import themeManager from '../../themes';
+import pluginManager from '../../plugins';
+import renderCache from '../../render-cache';
+import scheduler from '../../scheduler';
 import { authService, requireAuth } from '../../auth';
 import {
   CONFIG,
@@ -9,6 +13,7 @@ import {
   getSiteSettings,
 } from '../../config';
 import { getZodSchema } from '../../../shared/zod-schema';
+import { ALL_CAPABILITY_NAMES, getCapabilityNames } from '@shared/capabilities';
 import multer from 'multer';
 import path from 'node:path';
 import { promises as fs } from 'node:fs';
@@ -22,10 +27,32 @@ export type Schemas = {
   comments: ReturnType<typeof getZodSchema>;
   media: ReturnType<typeof getZodSchema>;
   templates: ReturnType<typeof getZodSchema>;
+  patterns: ReturnType<typeof getZodSchema>;
   users: ReturnType<typeof getZodSchema>;
   blogs: ReturnType<typeof getZodSchema>;
 };
 
+/**
+ * Ownership rules for a capability check.
+ * When the record being acted on belongs to another user, `others` is required too.
+ */
+export interface CapabilityOptions {
+  /** Capability required when the target record was authored by someone else */
+  others?: string;
+  /** Resolves the authorId of the target record (undefined when it does not exist) */
+  ownerOf?: (req: Request) => Promise<string | null | undefined>;
+  /**
+   * Resolves the site of the target record. Capabilities are then checked on that
+   * site, and requests naming another site are refused with 400.
+   */
+  siteOf?: (req: Request) => Promise<string | null | undefined>;
+  /**
+   * Marks install-wide resources (users, roles, plugins, settings...). Capabilities
+   * are then checked on the default site and any site the request names is ignored.
+   */
+  global?: boolean;
+}
+
 /**
  * Dependencies injected into all route modules.
  * Enables testing by allowing mock implementations.
@@ -34,8 +61,17 @@ export interface Deps {
   models: typeof models;
   hooks: typeof hooks;
   themeManager: typeof themeManager;
+  pluginManager: typeof pluginManager;
+  renderCache: typeof renderCache;
+  scheduler: typeof scheduler;
   authService: typeof authService;
   requireAuth: typeof requireAuth;
+  requireCapability: (capability: string, options?: CapabilityOptions) => RequestHandler;
+  userCan: (req: Request, capability: string, siteId?: string) => Promise<boolean>;
+  /** The site the request names (`x-site-id` header, `siteId` query or body field), else the default site */
+  resolveSiteId: (req: Request) => Promise<string | undefined>;
+  /** The default site, which global resources are checked on */
+  defaultSiteId: () => Promise<string | undefined>;
   CONFIG: Readonly<typeof CONFIG>;
   parsePaginationParams: typeof parsePaginationParams;
   parseStatusParam: typeof parseStatusParam;
@@ -81,6 +117,120 @@ async function buildUpload(configObj: Readonly<typeof CONFIG>) {
   return { upload, uploadDir };
 }
 
+/**
+ * Builds capability guards that resolve a user's roles through `user_roles` per site.
+ *
+ * The site is the default site for global routes, and the one of the record
+ * being acted on when the route names it (`siteOf`); otherwise it is taken from
+ * the `x-site-id` header, `siteId` query or body field, and falls back to the
+ * default site. Site owners always hold
+ * every capability so an install can never lock out its owner. Resolved
+ * capabilities are cached on the request, per site.
+ */
+export function buildCapabilityGuards(modelsObj: Pick<typeof models, 'sites' | 'roles' | 'userRoles'>) {
+  // The site a request names, if any
+  function requestedSiteId(req: Request): string | undefined {
+    return (
+      req.get('x-site-id') ||
+      (typeof req.query.siteId === 'string' ? req.query.siteId : undefined) ||
+      (typeof req.body?.siteId === 'string' ? req.body.siteId : undefined)
+    );
+  }
+
+  async function defaultSiteId(): Promise<string | undefined> {
+    const defaultSite = await modelsObj.sites.findDefaultSite();
+    return defaultSite?.id;
+  }
+
+  async function resolveSiteId(req: Request): Promise<string | undefined> {
+    return requestedSiteId(req) || (await defaultSiteId());
+  }
+
+  async function getUserCapabilities(req: Request, siteIdOverride?: string): Promise<Set<string>> {
+    const userId = authService.getCurrentUserId(req);
+    const siteId = userId ? (siteIdOverride ?? (await resolveSiteId(req))) : undefined;
+
+    const cache: Map<string, Set<string>> = ((req as any).capabilities ??= new Map());
+    const cached = cache.get(siteId ?? '');
+    if (cached) return cached;
+
+    const capabilities = new Set<string>();
+    if (userId && siteId) {
+      const site = await modelsObj.sites.findById(siteId);
+      if (site?.ownerId === userId) {
+        ALL_CAPABILITY_NAMES.forEach((c) => capabilities.add(c));
+      }
+
+      const assignments = await modelsObj.userRoles.findByUserAndSite(userId, siteId);
+      for (const assignment of assignments) {
+        const role = await modelsObj.roles.findById(assignment.roleId);
+        getCapabilityNames(role?.capabilities).forEach((c) => capabilities.add(c));
+      }
+    }
+
+    cache.set(siteId ?? '', capabilities);
+    return capabilities;
+  }
+
+  /**
+   * Checks whether the current user holds a capability on `siteId`, or on the
+   * site the request names when left out
+   */
+  async function userCan(req: Request, capability: string, siteId?: string): Promise<boolean> {
+    const capabilities = await getUserCapabilities(req, siteId);
+    return capabilities.has(capability);
+  }
+
+  /**
+   * Middleware factory requiring authentication plus a capability.
+   * With `ownerOf`, records authored by other users additionally require `others`;
+   * with `siteOf`, both are checked on the site of the record, and with `global`
+   * on the default site.
+   *
+   * @example
+   * router.put('/:id', requireCapability('edit_posts', {
+   *   others: 'edit_others_posts',
+   *   ownerOf: async (req) => (await models.posts.findById(req.params.id))?.authorId,
+   * }), handler);
+   */
+  function requireCapability(capability: string, options: CapabilityOptions = {}): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (!authService.isAuthenticated(req)) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      (async () => {
+        // Capabilities count on the record's site, whatever site the request names
+        const siteId = options.siteOf ? (await options.siteOf(req)) ?? undefined : undefined;
+        const requested = siteId ? requestedSiteId(req) : undefined;
+        if (requested && requested !== siteId) {
+          return res.status(400).json({ message: 'The record belongs to another site' });
+        }
+        const checkedSiteId = options.global ? await defaultSiteId() : siteId;
+        if (options.global && !checkedSiteId) {
+          return res.status(403).json({ message: `Forbidden: missing capability '${capability}'` });
+        }
+
+        if (!(await userCan(req, capability, checkedSiteId))) {
+          return res.status(403).json({ message: `Forbidden: missing capability '${capability}'` });
+        }
+
+        if (options.others && options.ownerOf) {
+          const ownerId = await options.ownerOf(req);
+          const isOwn = !ownerId || ownerId === authService.getCurrentUserId(req);
+          if (!isOwn && !(await userCan(req, options.others, checkedSiteId))) {
+            return res.status(403).json({ message: `Forbidden: missing capability '${options.others}'` });
+          }
+        }
+
+        next();
+      })().catch(next);
+    };
+  }
+
+  return { requireCapability, userCan, resolveSiteId, defaultSiteId };
+}
+
 /**
  * Builds the dependency injection container.
  * Call once at app startup before registering routes.
@@ -94,18 +244,27 @@ export async function buildDeps(): Promise<Deps> {
     comments: getZodSchema('comments'),
     media: getZodSchema('media'),
     templates: getZodSchema('templates'),
+    patterns: getZodSchema('patterns'),
     users: getZodSchema('users'),
     blogs: getZodSchema('blogs'),
   };
 
   const { upload, uploadDir } = await buildUpload(CONFIG);
+  const { requireCapability, userCan, resolveSiteId, defaultSiteId } = buildCapabilityGuards(models);
 
   return {
     models,
     hooks,
     themeManager,
+    pluginManager,
+    renderCache,
+    scheduler,
     authService,
     requireAuth,
+    requireCapability,
+    userCan,
+    resolveSiteId,
+    defaultSiteId,
     CONFIG,
     parsePaginationParams,
     parseStatusParam,
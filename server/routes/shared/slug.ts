@@ -15,3 +15,20 @@ export function generateSlug(title: string): string {
     .replace(/[^a-z0-9]+/g, '-')
     .replace(/^-|-$/g, '');
 }
+
+// ASCII letters and digits, non-ASCII characters, hyphens, underscores and dots, not starting with a dot
+const SLUG_PATTERN = /^[A-Za-z0-9_\-\u0080-\uFFFF][A-Za-z0-9._\-\u0080-\uFFFF]*$/;
+
+export const INVALID_SLUG_MESSAGE = 'Slugs may only contain letters, numbers, hyphens, underscores and dots';
+
+/**
+ * Checks a slug sent by a client. Slugs become path segments of public URLs
+ * and of the files a static export writes, so slashes and dot segments are out.
+ *
+ * @example
+ * isValidSlug('my-first-post') // true
+ * isValidSlug('../../etc') // false
+ */
+export function isValidSlug(slug: unknown): slug is string {
+  return typeof slug === 'string' && SLUG_PATTERN.test(slug);
+}
@@ -25,7 +25,7 @@ const siteInfoSchema = z.object({
 
 export function createSiteRoutes(deps: Deps): Router {
   const router = Router();
-  const { models, requireAuth } = deps;
+  const { models, requireAuth, requireCapability } = deps;
 
   /**
    * GET /api/site
@@ -68,11 +68,11 @@ export function createSiteRoutes(deps: Deps): Router {
   /**
    * PATCH /api/site
    * Update site information
-   * Auth: Required
+   * Auth: manage_settings
    */
   router.patch(
     '/',
-    requireAuth,
+    requireCapability('manage_settings', { global: true }),
     asyncHandler(async (req, res) => {
       console.log('PATCH /api/site - Received payload:', JSON.stringify(req.body, null, 2));
 
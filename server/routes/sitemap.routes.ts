@@ -0,0 +1,165 @@
+import { Router, type Request, type Response } from 'express';
+import type { Deps } from './shared/deps';
+import { asyncHandler } from './shared/async-handler';
+import {
+  SITEMAP_PAGE_SIZE,
+  SITEMAP_TYPES,
+  absoluteUrl,
+  buildSitemapIndex,
+  buildUrlSet,
+  collectBlockImages,
+  isNoIndex,
+  sitemapFileName,
+  type SitemapImage,
+  type SitemapType,
+  type SitemapUrl,
+} from '../sitemap';
+
+/**
+ * Creates XML sitemap routes.
+ * Published pages, posts and blogs are listed in per-type sitemaps of at most
+ * SITEMAP_PAGE_SIZE URLs; blogs point at their index page, which is left out of
+ * the pages sitemap. Pages and posts with `other.seo.noIndex` are skipped.
+ * Everything responds 404 while `reading.discourageSearchIndexing` is on.
+ *
+ * Endpoints:
+ * - GET /sitemap.xml                  - Sitemap index
+ * - GET /sitemap-:type-:page.xml      - Per-type sitemap (type: pages | posts | blogs)
+ *
+ * @param deps - Injected dependencies (models)
+ * @returns Express router with mounted sitemap routes
+ */
+export function createSitemapRoutes(deps: Deps): Router {
+  const router = Router();
+  const { models } = deps;
+
+  const published = [{ where: 'status', equals: 'publish' }];
+
+  // Resolves the public site URL, or null when search engines should stay away
+  async function resolveSiteUrl(req: Request): Promise<string | null> {
+    const settings = await models.sites.getSettings();
+    if (settings.reading.discourageSearchIndexing) {
+      return null;
+    }
+    return (settings.general.siteUrl || `${req.protocol}://${req.get('host')}`).replace(/\/+$/, '');
+  }
+
+  function sendXml(res: Response, xml: string) {
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+    res.send(xml);
+  }
+
+  function imagesFor(siteUrl: string, record: { featuredImage?: string | null; blocks?: unknown }): SitemapImage[] {
+    const images: SitemapImage[] = [];
+    if (record.featuredImage) {
+      images.push({ loc: record.featuredImage });
+    }
+    images.push(...collectBlockImages(record.blocks));
+    return images.map((image) => ({ ...image, loc: absoluteUrl(siteUrl, image.loc) }));
+  }
+
+  async function countType(type: SitemapType) {
+    return models[type].count({ where: published });
+  }
+
+  async function buildUrls(type: SitemapType, page: number, siteUrl: string): Promise<SitemapUrl[]> {
+    const options = {
+      limit: SITEMAP_PAGE_SIZE,
+      offset: (page - 1) * SITEMAP_PAGE_SIZE,
+      orderBy: { property: 'createdAt', order: 'ascending' as const },
+    };
+
+    if (type === 'posts') {
+      const posts = await models.posts.findManyWhere(published, options);
+      return posts
+        .filter((post) => !isNoIndex(post))
+        .map((post) => ({
+          loc: `${siteUrl}/post/${encodeURIComponent(post.slug)}`,
+          lastmod: post.updatedAt,
+          images: imagesFor(siteUrl, post),
+        }));
+    }
+
+    if (type === 'pages') {
+      const homepageSlug = (await models.options.getOption('homepage_page_slug'))?.value;
+      const pages = await models.pages.findManyWhere(published, options);
+      return pages
+        .filter((page) => !isNoIndex(page) && !(page.other as { isBlogPage?: boolean } | null)?.isBlogPage)
+        .map((page) => ({
+          loc: page.slug === homepageSlug ? `${siteUrl}/` : `${siteUrl}/page/${encodeURIComponent(page.slug)}`,
+          lastmod: page.updatedAt,
+          images: imagesFor(siteUrl, page),
+        }));
+    }
+
+    // Blogs are reachable through their published index page
+    const blogs = await models.blogs.findManyWhere(published, options);
+    const urls: SitemapUrl[] = [];
+    for (const blog of blogs) {
+      if (!blog.pageId) continue;
+      const page = await models.pages.findById(blog.pageId);
+      if (!page || page.status !== 'publish' || isNoIndex(page)) continue;
+
+      const updated = [blog.updatedAt, page.updatedAt]
+        .filter((date): date is Date => !!date)
+        .sort((a, b) => b.getTime() - a.getTime())[0];
+      urls.push({
+        loc: `${siteUrl}/page/${encodeURIComponent(page.slug)}`,
+        lastmod: updated,
+        images: imagesFor(siteUrl, page),
+      });
+    }
+    return urls;
+  }
+
+  /**
+   * GET /sitemap.xml - Index of the per-type sitemaps
+   */
+  router.get(
+    '/sitemap.xml',
+    asyncHandler(async (req, res) => {
+      const siteUrl = await resolveSiteUrl(req);
+      if (!siteUrl) {
+        return res.status(404).send('Not Found');
+      }
+
+      const entries = [];
+      for (const type of SITEMAP_TYPES) {
+        const pages = Math.ceil((await countType(type)) / SITEMAP_PAGE_SIZE);
+        for (let page = 1; page <= pages; page++) {
+          entries.push({ loc: `${siteUrl}/${sitemapFileName(type, page)}` });
+        }
+      }
+
+      sendXml(res, buildSitemapIndex(entries));
+    })
+  );
+
+  /**
+   * GET /sitemap-:type-:page.xml - One page of a per-type sitemap
+   */
+  router.get(
+    '/sitemap-:type-:page.xml',
+    asyncHandler(async (req, res) => {
+      const type = req.params.type as SitemapType;
+      const page = Number(req.params.page);
+      if (!SITEMAP_TYPES.includes(type) || !Number.isInteger(page) || page < 1) {
+        return res.status(404).send('Not Found');
+      }
+
+      const siteUrl = await resolveSiteUrl(req);
+      if (!siteUrl) {
+        return res.status(404).send('Not Found');
+      }
+
+      const total = await countType(type);
+      if (page > Math.max(1, Math.ceil(total / SITEMAP_PAGE_SIZE))) {
+        return res.status(404).send('Not Found');
+      }
+
+      sendXml(res, buildUrlSet(await buildUrls(type, page, siteUrl)));
+    })
+  );
+
+  return router;
+}
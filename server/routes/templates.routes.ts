@@ -10,14 +10,16 @@ import { safeTryAsync } from '../utils';
  * Endpoints:
  * - GET    /api/templates          - List templates with pagination and type filter
  * - GET    /api/templates/:id      - Get single template (auth required)
- * - POST   /api/templates          - Create template (auth required, injects authorId)
- * - POST   /api/templates/:id/duplicate - Duplicate template (auth required)
- * - PUT    /api/templates/:id      - Update template (auth required)
- * - DELETE /api/templates/:id      - Delete template (auth required)
+ * - POST   /api/templates          - Create template (manage_templates, injects authorId)
+ * - POST   /api/templates/:id/duplicate - Duplicate template (manage_templates)
+ * - PUT    /api/templates/:id      - Update template (manage_templates)
+ * - DELETE /api/templates/:id      - Delete template (manage_templates)
+ *
+ * Create/update fire `save_template` and delete fires `delete_template`.
  */
 export function createTemplatesRoutes(deps: Deps): Router {
   const router = Router();
-  const { models, requireAuth, authService, schemas } = deps;
+  const { models, hooks, requireAuth, requireCapability, authService, schemas } = deps;
 
   // GET /api/templates - List templates with pagination and optional type filter
   router.get(
@@ -72,10 +74,10 @@ export function createTemplatesRoutes(deps: Deps): Router {
     })
   );
 
-  // POST /api/templates - Create new template (auth required, injects authorId)
+  // POST /api/templates - Create new template (manage_templates, injects authorId)
   router.post(
     '/',
-    requireAuth,
+    requireCapability('manage_templates'),
     asyncHandler(async (req: any, res) => {
       const { err, result } = await safeTryAsync(async () => {
         const userId = authService.getCurrentUserId(req);
@@ -103,6 +105,7 @@ export function createTemplatesRoutes(deps: Deps): Router {
         };
 
         const template = await models.templates.create(templateData);
+        hooks.doAction('save_template', template);
         return template;
       });
 
@@ -115,10 +118,10 @@ export function createTemplatesRoutes(deps: Deps): Router {
     })
   );
 
-  // POST /api/templates/:id/duplicate - Duplicate existing template (auth required)
+  // POST /api/templates/:id/duplicate - Duplicate existing template (manage_templates)
   router.post(
     '/:id/duplicate',
-    requireAuth,
+    requireCapability('manage_templates'),
     asyncHandler(async (req, res) => {
       const { name } = req.body;
       if (!name) {
@@ -130,26 +133,28 @@ export function createTemplatesRoutes(deps: Deps): Router {
     })
   );
 
-  // PUT /api/templates/:id - Update template (auth required)
+  // PUT /api/templates/:id - Update template (manage_templates)
   router.put(
     '/:id',
-    requireAuth,
+    requireCapability('manage_templates'),
     asyncHandler(async (req, res) => {
       const id = req.params.id;
       const templateData = schemas.templates.update.parse(req.body);
 
       const template = await models.templates.update(id, templateData);
+      hooks.doAction('save_template', template);
       res.json(template);
     })
   );
 
-  // DELETE /api/templates/:id - Delete template (auth required)
+  // DELETE /api/templates/:id - Delete template (manage_templates)
   router.delete(
     '/:id',
-    requireAuth,
+    requireCapability('manage_templates'),
     asyncHandler(async (req, res) => {
       const id = req.params.id;
       await models.templates.delete(id);
+      hooks.doAction('delete_template', id);
       res.json({ message: 'Template deleted successfully' });
     })
   );
@@ -0,0 +1,247 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import type { Deps } from './shared/deps';
+import { asyncHandler } from './shared/async-handler';
+import { generateSlug } from './shared/slug';
+import type { Term, TermTaxonomy } from '@shared/schema-types';
+
+const termInputSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  slug: z.string().trim().max(200).optional(),
+  description: z.string().max(5000).nullable().optional(),
+  parentId: z.string().uuid().nullable().optional(),
+});
+
+const LABELS: Record<TermTaxonomy, { key: string; singular: string }> = {
+  category: { key: 'categories', singular: 'Category' },
+  tag: { key: 'tags', singular: 'Tag' },
+};
+
+/**
+ * Creates CRUD routes for one taxonomy. Categories may nest through `parentId`;
+ * tags are flat. Terms are addressed by ID or slug.
+ */
+function createTaxonomyRoutes(deps: Deps, taxonomy: TermTaxonomy): Router {
+  const router = Router();
+  const { models, hooks, requireCapability, parsePaginationParams } = deps;
+  const { key, singular } = LABELS[taxonomy];
+  const hierarchical = taxonomy === 'category';
+
+  async function withCount(term: Term) {
+    return { ...term, count: await models.terms.countPosts(term.id) };
+  }
+
+  // Returns an error message when parentId cannot be used for the term being saved
+  async function checkParent(parentId: string, termId?: string): Promise<string | null> {
+    const parent = await models.terms.findById(parentId);
+    if (!parent || parent.taxonomy !== taxonomy) {
+      return `Parent ${singular.toLowerCase()} not found`;
+    }
+    if (termId && (await models.terms.findDescendantIds(termId)).includes(parentId)) {
+      return `A ${singular.toLowerCase()} cannot be nested under itself or its descendants`;
+    }
+    return null;
+  }
+
+  /**
+   * GET / - List terms with pagination, `search` on name and (categories) `parent` filter
+   */
+  router.get(
+    '/',
+    asyncHandler(async (req, res) => {
+      const { page, limit, offset } = parsePaginationParams(req.query, 100);
+      const { search, parent } = req.query;
+
+      const filters: Array<{ where: string; equals?: unknown; ilike?: string }> = [
+        { where: 'taxonomy', equals: taxonomy },
+      ];
+      if (typeof search === 'string' && search.trim()) {
+        filters.push({ where: 'name', ilike: `%${search.trim()}%` });
+      }
+
+      let terms = await models.terms.findManyWhere(filters, {
+        limit: hierarchical && typeof parent === 'string' ? 10000 : limit,
+        offset: hierarchical && typeof parent === 'string' ? 0 : offset,
+        orderBy: { property: 'name', order: 'ascending' },
+      });
+      let total: number;
+
+      // parent=0 lists top-level categories; parentId is nullable so filter here
+      if (hierarchical && typeof parent === 'string') {
+        const parentId = parent === '0' || parent === '' ? null : parent;
+        const siblings = terms.filter((term) => (term.parentId ?? null) === parentId);
+        total = siblings.length;
+        terms = siblings.slice(offset, offset + limit);
+      } else {
+        total = await models.terms.count({ where: filters });
+      }
+
+      res.json({
+        [key]: await Promise.all(terms.map(withCount)),
+        total,
+        page,
+        per_page: limit,
+        total_pages: Math.ceil(total / limit),
+      });
+    })
+  );
+
+  /**
+   * GET /:id - Get a single term by ID or slug
+   */
+  router.get(
+    '/:id',
+    asyncHandler(async (req, res) => {
+      const term = await models.terms.resolve(taxonomy, req.params.id);
+      if (!term) {
+        return res.status(404).json({ message: `${singular} not found` });
+      }
+      res.json(await withCount(term));
+    })
+  );
+
+  /**
+   * POST / - Create a term (manage_categories)
+   */
+  router.post(
+    '/',
+    requireCapability('manage_categories'),
+    asyncHandler(async (req, res) => {
+      const parsed = termInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: `Invalid ${singular.toLowerCase()} data`, errors: parsed.error.errors });
+      }
+
+      const { name, description } = parsed.data;
+      const slug = generateSlug(parsed.data.slug || name);
+      if (!slug) {
+        return res.status(400).json({ message: 'Slug must contain letters or digits' });
+      }
+      if (await models.terms.findBySlug(taxonomy, slug)) {
+        return res.status(400).json({ message: `${singular} "${slug}" already exists` });
+      }
+
+      const parentId = hierarchical ? parsed.data.parentId ?? null : null;
+      if (parentId) {
+        const problem = await checkParent(parentId);
+        if (problem) {
+          return res.status(400).json({ message: problem });
+        }
+      }
+
+      const term = await models.terms.create({ taxonomy, name, slug, description, parentId });
+      hooks.doAction('save_term', term);
+      res.status(201).json({ ...term, count: 0 });
+    })
+  );
+
+  /**
+   * PUT /:id - Update name, slug, description or parent (manage_categories)
+   */
+  router.put(
+    '/:id',
+    requireCapability('manage_categories'),
+    asyncHandler(async (req, res) => {
+      const existing = await models.terms.resolve(taxonomy, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: `${singular} not found` });
+      }
+
+      const parsed = termInputSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: `Invalid ${singular.toLowerCase()} data`, errors: parsed.error.errors });
+      }
+
+      const { name, description, parentId } = parsed.data;
+      const slug = parsed.data.slug !== undefined ? generateSlug(parsed.data.slug || name || existing.name) : undefined;
+      if (slug !== undefined && slug !== existing.slug) {
+        if (!slug) {
+          return res.status(400).json({ message: 'Slug must contain letters or digits' });
+        }
+        if (await models.terms.findBySlug(taxonomy, slug)) {
+          return res.status(400).json({ message: `${singular} "${slug}" already exists` });
+        }
+      }
+
+      if (hierarchical && parentId) {
+        const problem = await checkParent(parentId, existing.id);
+        if (problem) {
+          return res.status(400).json({ message: problem });
+        }
+      }
+
+      const term = await models.terms.update(existing.id, {
+        ...(name && { name }),
+        ...(slug && { slug }),
+        ...(description !== undefined && { description }),
+        ...(hierarchical && parentId !== undefined && { parentId }),
+        updatedAt: new Date(),
+      });
+
+      hooks.doAction('save_term', term);
+      res.json(await withCount(term));
+    })
+  );
+
+  /**
+   * DELETE /:id - Delete a term (manage_categories).
+   * Posts lose the term; child categories move up to the deleted category's parent.
+   */
+  router.delete(
+    '/:id',
+    requireCapability('manage_categories'),
+    asyncHandler(async (req, res) => {
+      const term = await models.terms.resolve(taxonomy, req.params.id);
+      if (!term) {
+        return res.status(404).json({ message: `${singular} not found` });
+      }
+
+      if (hierarchical) {
+        const children = await models.terms.findManyWhere([{ where: 'parentId', equals: term.id }], { limit: 10000 });
+        for (const child of children) {
+          await models.terms.update(child.id, { parentId: term.parentId ?? null });
+        }
+      }
+
+      await models.terms.delete(term.id);
+      hooks.doAction('delete_term', term);
+      res.json({ message: `${singular} deleted successfully` });
+    })
+  );
+
+  return router;
+}
+
+/**
+ * Creates category routes. Categories are hierarchical.
+ *
+ * Endpoints:
+ * - GET    /api/categories      - List categories (`search`, `parent` = ID or 0 for top level)
+ * - GET    /api/categories/:id  - Get category by ID or slug, with its post count
+ * - POST   /api/categories      - Create category (manage_categories)
+ * - PUT    /api/categories/:id  - Update category (manage_categories)
+ * - DELETE /api/categories/:id  - Delete category, re-parenting its children (manage_categories)
+ *
+ * @param deps - Injected dependencies (models, hooks, capability guards)
+ * @returns Express router with mounted category routes
+ */
+export function createCategoriesRoutes(deps: Deps): Router {
+  return createTaxonomyRoutes(deps, 'category');
+}
+
+/**
+ * Creates tag routes. Tags are flat; `parentId` is ignored.
+ *
+ * Endpoints:
+ * - GET    /api/tags      - List tags (`search`)
+ * - GET    /api/tags/:id  - Get tag by ID or slug, with its post count
+ * - POST   /api/tags      - Create tag (manage_categories)
+ * - PUT    /api/tags/:id  - Update tag (manage_categories)
+ * - DELETE /api/tags/:id  - Delete tag (manage_categories)
+ *
+ * @param deps - Injected dependencies (models, hooks, capability guards)
+ * @returns Express router with mounted tag routes
+ */
+export function createTagsRoutes(deps: Deps): Router {
+  return createTaxonomyRoutes(deps, 'tag');
+}
@@ -1,18 +1,27 @@
 import { Router } from 'express';
+import multer from 'multer';
 import type { Deps } from './shared/deps';
+import { ThemePackageError } from '../theme-packages';
+import { globalStylesSchema } from '@shared/global-styles';
 
 /**
- * Creates themes, plugins and hooks routes
- * Handles theme management, plugin listing, and WordPress hook debugging
+ * Creates themes and hooks routes
+ * Handles theme management and WordPress hook debugging
  * 
  * Note: This router is mounted at /api and handles:
- * - /api/themes/* - Theme management
- * - /api/plugins - Plugin listing
+ * - /api/themes/* - Theme management, including zip package upload and export
  * - /api/hooks - Hook debugging
  */
 export function createThemesRoutes(deps: Deps) {
   const router = Router();
-  const { models, requireAuth, hooks } = deps;
+  const { models, themeManager, pluginManager, authService, requireAuth, requireCapability, hooks, CONFIG, uploadDir } =
+    deps;
+
+  // Packages are read in memory; only their screenshot and assets are written to disk
+  const packageUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: CONFIG.THEMES.MAX_PACKAGE_SIZE, files: 1 },
+  });
 
   /**
    * GET /api/themes
@@ -45,46 +54,129 @@ export function createThemesRoutes(deps: Deps) {
   });
 
   /**
-   * POST /api/themes/:id/activate
-   * Activate a theme by ID
+   * GET /api/themes/active/styles
+   * Global styles (design tokens and element defaults) of the active theme
    * Auth: Required
    */
-  router.post('/themes/:id/activate', requireAuth, async (req, res) => {
+  router.get('/themes/active/styles', requireAuth, async (_req, res) => {
     try {
-      const id = req.params.id;
-      const theme = await models.themes.setActiveTheme(id);
-      res.json(theme);
+      res.json(await models.themes.getGlobalStyles());
     } catch (error) {
-      console.error('Error activating theme:', error);
-      res.status(500).json({ message: 'Failed to activate theme' });
+      console.error('Error fetching global styles:', error);
+      res.status(500).json({ message: 'Failed to fetch global styles' });
     }
   });
 
   /**
-   * GET /api/plugins
-   * List all plugins
-   * Auth: Required
+   * PUT /api/themes/active/styles
+   * Replace the active theme's global styles
+   * Auth: manage_themes
    */
-  router.get('/plugins', requireAuth, async (_req, res) => {
+  router.put('/themes/active/styles', requireCapability('manage_themes', { global: true }), async (req, res) => {
     try {
-      const plugins = await models.plugins.findMany();
-      res.json(plugins);
+      const parsed = globalStylesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid global styles', errors: parsed.error.errors });
+      }
+      const active = await models.themes.findActiveTheme();
+      if (!active) {
+        return res.status(404).json({ message: 'No active theme' });
+      }
+
+      const theme = await models.themes.updateGlobalStyles(active.id, parsed.data);
+      hooks.doAction('save_global_styles', parsed.data, theme);
+      res.json(parsed.data);
     } catch (error) {
-      console.error('Error fetching plugins:', error);
-      res.status(500).json({ message: 'Failed to fetch plugins' });
+      console.error('Error saving global styles:', error);
+      res.status(500).json({ message: 'Failed to save global styles' });
+    }
+  });
+
+  /**
+   * POST /api/themes/upload
+   * Install a theme package sent as the multipart field `theme`. A package
+   * whose theme is already installed upgrades it.
+   * Auth: manage_themes
+   */
+  router.post('/themes/upload', requireCapability('manage_themes', { global: true }), packageUpload.single('theme'), async (req, res) => {
+    try {
+      const userId = authService.getCurrentUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: 'No theme package uploaded' });
+      }
+
+      const installed = await themeManager.installPackage(req.file.buffer, {
+        authorId: userId,
+        coreVersion: pluginManager.getCoreVersion(),
+        uploadDir,
+      });
+      res.status(installed.upgraded ? 200 : 201).json(installed);
+    } catch (error) {
+      if (error instanceof ThemePackageError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error installing theme package:', error);
+      res.status(500).json({ message: 'Failed to install theme package' });
+    }
+  });
+
+  /**
+   * GET /api/themes/:id/export
+   * Download a theme with its templates, patterns and assets as a zip package
+   * Auth: manage_themes
+   */
+  router.get('/themes/:id/export', requireCapability('manage_themes', { global: true }), async (req, res) => {
+    try {
+      const exported = await themeManager.exportPackage(req.params.id, uploadDir);
+      if (!exported) {
+        return res.status(404).json({ message: 'Theme not found' });
+      }
+
+      const filename = exported.theme.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'theme';
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}-${exported.theme.version}.zip"`);
+      res.send(exported.zip);
+    } catch (error) {
+      console.error('Error exporting theme:', error);
+      res.status(500).json({ message: 'Failed to export theme' });
+    }
+  });
+
+  /**
+   * POST /api/themes/:id/activate
+   * Activate a theme by ID
+   * Auth: manage_themes
+   */
+  router.post('/themes/:id/activate', requireCapability('manage_themes', { global: true }), async (req, res) => {
+    try {
+      const id = req.params.id;
+      // Goes through the theme manager so switch_theme fires
+      const theme = await themeManager.activateTheme(id);
+      res.json(theme);
+    } catch (error) {
+      console.error('Error activating theme:', error);
+      res.status(500).json({ message: 'Failed to activate theme' });
     }
   });
 
   /**
    * GET /api/hooks
-   * Debug endpoint showing all registered WordPress hooks
-   * Auth: Required
+   * Debug endpoint showing all registered WordPress hooks,
+   * their callbacks in execution order and timings per registration
+   * Auth: manage_plugins
    */
-  router.get('/hooks', requireAuth, async (_req, res) => {
+  router.get('/hooks', requireCapability('manage_plugins', { global: true }), async (_req, res) => {
     try {
       res.json({
         actions: hooks.getActions(),
         filters: hooks.getFilters(),
+        callbacks: {
+          actions: hooks.getCallbacks('action'),
+          filters: hooks.getCallbacks('filter'),
+        },
       });
     } catch (error) {
       console.error('Error fetching hooks:', error);
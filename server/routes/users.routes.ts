@@ -1,19 +1,25 @@
 import { Router } from 'express';
 import type { Deps } from './shared/deps';
 import { asyncHandler } from './shared/async-handler';
+import type { Request } from 'express';
+import type { User } from '@shared/schema-types';
+import { configuredSiteUrl, sendEmail } from '../email/outbox';
+import { issueAccountToken } from '../account-tokens';
 
 /**
  * Creates user management routes for CRUD operations.
- * All routes require authentication.
+ * All routes require authentication; listing and management are capability-guarded.
  * 
  * Routes:
- * - GET / - List users with pagination and optional role filter
+ * - GET / - List users with pagination and optional role filter (list_users)
  * - GET /:id - Get single user by ID
- * - POST / - Create new user
- * - PUT /:id - Update existing user
- * - DELETE /:id - Delete user (prevents self-deletion)
+ * - POST / - Create new user (manage_users)
+ * - PUT /:id - Update existing user (manage_users)
+ * - DELETE /:id - Delete user, prevents self-deletion (manage_users)
+ * - POST /invite - Create a pending user and email them an invitation (manage_users)
+ * - POST /:id/resend-invitation - Email a pending user a new invitation (manage_users)
  * 
- * @param deps - Injected dependencies (models, schemas, requireAuth, CONFIG)
+ * @param deps - Injected dependencies (models, schemas, requireAuth, CONFIG, scheduler)
  * @returns Express router with mounted user routes
  */
 export function createUsersRoutes(deps: Deps): Router {
@@ -23,7 +29,7 @@ export function createUsersRoutes(deps: Deps): Router {
    * GET /
    * Lists all users with pagination support.
    */
-  router.get('/', deps.requireAuth, asyncHandler(async (req, res) => {
+  router.get('/', deps.requireCapability('list_users', { global: true }), asyncHandler(async (req, res) => {
     const { page, limit, offset } = deps.parsePaginationParams(
       req.query,
       deps.CONFIG.PAGINATION.DEFAULT_PAGE_SIZE
@@ -62,7 +68,7 @@ export function createUsersRoutes(deps: Deps): Router {
    * Creates a new user with hashed password.
    * Validates input with Zod schema.
    */
-  router.post('/', deps.requireAuth, asyncHandler(async (req, res) => {
+  router.post('/', deps.requireCapability('manage_users', { global: true }), asyncHandler(async (req, res) => {
     const userData: any = deps.schemas.users.insert.parse(req.body);
 
     // Hash password if provided
@@ -83,7 +89,7 @@ export function createUsersRoutes(deps: Deps): Router {
    * Updates an existing user.
    * Hashes password if included in update.
    */
-  router.put('/:id', deps.requireAuth, asyncHandler(async (req, res) => {
+  router.put('/:id', deps.requireCapability('manage_users', { global: true }), asyncHandler(async (req, res) => {
     const userData: any = deps.schemas.users.update.parse(req.body);
 
     // Hash password if provided
@@ -106,7 +112,7 @@ export function createUsersRoutes(deps: Deps): Router {
    * Deletes a user by ID.
    * Prevents users from deleting their own account.
    */
-  router.delete('/:id', deps.requireAuth, asyncHandler(async (req, res) => {
+  router.delete('/:id', deps.requireCapability('manage_users', { global: true }), asyncHandler(async (req, res) => {
     // Prevent deletion of current user
     const currentUserId = (req as any).user?.claims?.sub;
     if (req.params.id === currentUserId) {
@@ -119,5 +125,102 @@ export function createUsersRoutes(deps: Deps): Router {
     res.json({ message: 'User deleted successfully' });
   }));
 
+  const SITE_URL_REQUIRED = 'Set the site URL in the general settings before sending invitations';
+
+  /**
+   * Emails `user` a link to choose a password; earlier links stop working
+   * @param siteUrl - The configured site URL the link points to
+   */
+  async function sendInvitation(req: Request, user: User & { email: string }, siteUrl: string) {
+    const token = await issueAccountToken(
+      deps.models.users,
+      user,
+      'invitation',
+      deps.CONFIG.EMAIL.INVITATION_TTL_MS
+    );
+    const inviterId = deps.authService.getCurrentUserId(req);
+    const inviter = inviterId ? await deps.models.users.findById(inviterId) : undefined;
+    await sendEmail(deps.scheduler, deps.models, 'user_invitation', user.email, {
+      inviter: inviter?.username ?? 'An administrator',
+      username: user.username,
+      acceptUrl: `${siteUrl}/admin/accept-invitation?token=${encodeURIComponent(token)}`,
+      expiresInDays: Math.round(deps.CONFIG.EMAIL.INVITATION_TTL_MS / 86_400_000),
+    });
+  }
+
+  /**
+   * POST /invite
+   * Creates a pending user without a password and emails them an invitation.
+   * The username defaults to the email's local part; the role to the default role.
+   * Both invitation routes are refused until a site URL is configured.
+   */
+  router.post('/invite', deps.requireCapability('manage_users', { global: true }), asyncHandler(async (req, res) => {
+    const email = typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return res.status(400).json({ message: 'A valid email is required' });
+    }
+    if (await deps.models.users.findByEmail(email)) {
+      return res.status(400).json({ message: 'Email already exists' });
+    }
+
+    let username = typeof req.body.username === 'string' ? req.body.username.trim() : '';
+    if (username) {
+      if (await deps.models.users.findByUsername(username)) {
+        return res.status(400).json({ message: 'Username already exists' });
+      }
+    } else {
+      const base = email.split('@')[0].replace(/[^a-z0-9._-]/g, '') || 'user';
+      username = base;
+      for (let n = 2; await deps.models.users.findByUsername(username); n++) {
+        username = `${base}${n}`;
+      }
+    }
+
+    const settings = await deps.models.sites.getSettings();
+    const siteUrl = configuredSiteUrl(settings);
+    if (!siteUrl) {
+      return res.status(400).json({ message: SITE_URL_REQUIRED });
+    }
+    const role =
+      typeof req.body.roleId === 'string'
+        ? await deps.models.roles.findById(req.body.roleId)
+        : await deps.models.roles.findByName(settings.discussion.defaultRole);
+    if (!role) {
+      return res.status(400).json({ message: 'Role not found' });
+    }
+
+    const user = await deps.models.users.create({ email, username, status: 'pending' });
+    const defaultSite = await deps.models.sites.findDefaultSite();
+    if (defaultSite) {
+      await deps.models.userRoles.assignRole(user.id, role.id, defaultSite.id);
+    }
+    await sendInvitation(req, { ...user, email }, siteUrl);
+
+    const { password: _password, ...userResponse } = user;
+    res.status(201).json(userResponse);
+  }));
+
+  /**
+   * POST /:id/resend-invitation
+   * Sends a pending user a new invitation, e.g. after the first one expired.
+   */
+  router.post('/:id/resend-invitation', deps.requireCapability('manage_users', { global: true }), asyncHandler(async (req, res) => {
+    const user = await deps.models.users.findById(req.params.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (user.status !== 'pending' || !user.email) {
+      return res.status(400).json({ message: 'Only pending users with an email can be invited' });
+    }
+
+    const siteUrl = configuredSiteUrl(await deps.models.sites.getSettings());
+    if (!siteUrl) {
+      return res.status(400).json({ message: SITE_URL_REQUIRED });
+    }
+
+    await sendInvitation(req, { ...user, email: user.email }, siteUrl);
+    res.json({ message: 'Invitation sent' });
+  }));
+
   return router;
 }
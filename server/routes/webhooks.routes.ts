@@ -0,0 +1,116 @@
+import { Router } from 'express';
+import type { Deps } from './shared/deps';
+import { asyncHandler } from './shared/async-handler';
+import { webhookInputSchema } from '@shared/webhooks';
+import { generateWebhookSecret, replayDelivery } from '../webhooks';
+
+/**
+ * Creates webhook routes. Every endpoint requires `manage_settings`.
+ * Deliveries are only queued while `system.webhooksEnabled` is on; see
+ * server/webhooks.ts for the payload, signature and retry schedule.
+ *
+ * Endpoints:
+ * - GET    /api/webhooks                       - List webhooks
+ * - POST   /api/webhooks                       - Create webhook (a secret is generated when left out)
+ * - PUT    /api/webhooks/:id                   - Update webhook
+ * - DELETE /api/webhooks/:id                   - Delete webhook and its delivery log
+ * - GET    /api/webhooks/:id/deliveries        - Latest deliveries of a webhook (`limit`, default 50)
+ * - POST   /api/webhooks/deliveries/:id/replay - Send a delivery's payload again as a new delivery
+ */
+export function createWebhooksRoutes(deps: Deps): Router {
+  const router = Router();
+  const { models, scheduler, requireCapability } = deps;
+
+  // GET /api/webhooks - List webhooks
+  router.get(
+    '/',
+    requireCapability('manage_settings', { global: true }),
+    asyncHandler(async (_req, res) => {
+      const webhooks = await models.webhooks.findMany({
+        limit: 1000,
+        orderBy: { property: 'createdAt', order: 'ascending' },
+      });
+      res.json(webhooks);
+    })
+  );
+
+  // POST /api/webhooks - Create webhook
+  router.post(
+    '/',
+    requireCapability('manage_settings', { global: true }),
+    asyncHandler(async (req, res) => {
+      const parsed = webhookInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid webhook', errors: parsed.error.errors });
+      }
+
+      const webhook = await models.webhooks.create({
+        ...parsed.data,
+        secret: parsed.data.secret || generateWebhookSecret(),
+      });
+      res.status(201).json(webhook);
+    })
+  );
+
+  // POST /api/webhooks/deliveries/:id/replay - Replay a delivery
+  router.post(
+    '/deliveries/:id/replay',
+    requireCapability('manage_settings', { global: true }),
+    asyncHandler(async (req, res) => {
+      const delivery = await replayDelivery(scheduler, models, req.params.id);
+      if (!delivery) {
+        return res.status(404).json({ message: 'Delivery not found' });
+      }
+      res.status(202).json(delivery);
+    })
+  );
+
+  // PUT /api/webhooks/:id - Update webhook
+  router.put(
+    '/:id',
+    requireCapability('manage_settings', { global: true }),
+    asyncHandler(async (req, res) => {
+      const existing = await models.webhooks.findById(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Webhook not found' });
+      }
+
+      const parsed = webhookInputSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid webhook', errors: parsed.error.errors });
+      }
+      const webhook = await models.webhooks.update(existing.id, parsed.data);
+      res.json(webhook);
+    })
+  );
+
+  // DELETE /api/webhooks/:id - Delete webhook (its deliveries go with it)
+  router.delete(
+    '/:id',
+    requireCapability('manage_settings', { global: true }),
+    asyncHandler(async (req, res) => {
+      const existing = await models.webhooks.findById(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Webhook not found' });
+      }
+      await models.webhooks.delete(existing.id);
+      res.json({ message: 'Webhook deleted successfully' });
+    })
+  );
+
+  // GET /api/webhooks/:id/deliveries - Delivery log of a webhook, newest first
+  router.get(
+    '/:id/deliveries',
+    requireCapability('manage_settings', { global: true }),
+    asyncHandler(async (req, res) => {
+      const webhook = await models.webhooks.findById(req.params.id);
+      if (!webhook) {
+        return res.status(404).json({ message: 'Webhook not found' });
+      }
+      const limit = Math.min(200, parseInt(req.query.limit as string) || 50);
+      res.json(await models.webhookDeliveries.findByWebhook(webhook.id, limit));
+    })
+  );
+
+  return router;
+}
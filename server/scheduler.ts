@@ -0,0 +1,176 @@
+import type { Job } from "@shared/schema-types";
+import { CONFIG } from "./config.js";
+import { models } from "./storage";
+
+type JobModel = typeof models.jobs;
+
+/**
+ * Runs one job. Throwing marks the run as failed; the job is retried with
+ * backoff until it runs out of attempts.
+ */
+export type JobHandler = (payload: Record<string, unknown>, job: Job) => Promise<void> | void;
+
+export interface JobSchedulerOptions {
+	pollInterval?: number;
+	batchSize?: number;
+	maxAttempts?: number;
+	retryDelay?: number;
+}
+
+/**
+ * In-process job runner backed by the `jobs` table. Jobs are only rows, so
+ * anything queued before a restart runs once the process is back; jobs that
+ * fell due while it was down run on the first check.
+ *
+ * The queue is checked every `pollInterval`; scheduling a job due sooner than
+ * the next check arms a timer for it.
+ */
+export class JobScheduler {
+	private handlers = new Map<string, JobHandler>();
+	private interval: ReturnType<typeof setInterval> | null = null;
+	private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+	private wakeAt = Infinity;
+	private running: Promise<number> | null = null;
+	private options: Required<JobSchedulerOptions>;
+
+	constructor(
+		private jobModel: JobModel = models.jobs,
+		options: JobSchedulerOptions = {},
+	) {
+		this.options = {
+			pollInterval: options.pollInterval ?? CONFIG.JOBS.POLL_INTERVAL_MS,
+			batchSize: options.batchSize ?? CONFIG.JOBS.BATCH_SIZE,
+			maxAttempts: options.maxAttempts ?? CONFIG.JOBS.MAX_ATTEMPTS,
+			retryDelay: options.retryDelay ?? CONFIG.JOBS.RETRY_DELAY_MS,
+		};
+	}
+
+	/** Register the handler for a job type; a later registration replaces it */
+	register(type: string, handler: JobHandler) {
+		this.handlers.set(type, handler);
+	}
+
+	hasHandler(type: string) {
+		return this.handlers.has(type);
+	}
+
+	/**
+	 * Queue a job. Passing a key replaces any pending job with that key.
+	 *
+	 * @example
+	 * await scheduler.schedule('publish_scheduled', post.publishedAt, { type: 'post', id: post.id }, `publish:${post.id}`);
+	 */
+	async schedule(type: string, runAt: Date, payload: Record<string, unknown> = {}, key: string | null = null) {
+		const job = await this.jobModel.schedule({ type, runAt, payload, key });
+		this.wake(runAt);
+		return job;
+	}
+
+	async cancel(key: string) {
+		await this.jobModel.cancel(key);
+	}
+
+	get isStarted() {
+		return this.interval !== null;
+	}
+
+	/**
+	 * Start polling. Jobs still marked running were abandoned by a previous
+	 * process and go back to the queue.
+	 */
+	async start() {
+		if (this.interval) return;
+
+		const released = await this.jobModel.releaseStale(new Date());
+		if (released > 0) {
+			console.log(`[Scheduler] Re-queued ${released} interrupted job(s)`);
+		}
+
+		this.interval = setInterval(() => void this.tick(), this.options.pollInterval);
+		this.interval.unref?.();
+		await this.tick();
+	}
+
+	stop() {
+		if (this.interval) clearInterval(this.interval);
+		if (this.wakeTimer) clearTimeout(this.wakeTimer);
+		this.interval = null;
+		this.wakeTimer = null;
+		this.wakeAt = Infinity;
+	}
+
+	/**
+	 * Run every job due at `now`, one batch after another.
+	 * Overlapping calls share the run in progress.
+	 *
+	 * @returns Number of jobs run, including failed ones
+	 */
+	runDue(now: Date = new Date()): Promise<number> {
+		if (!this.running) {
+			this.running = this.drain(now).finally(() => {
+				this.running = null;
+			});
+		}
+		return this.running;
+	}
+
+	private async tick() {
+		try {
+			await this.runDue();
+		} catch (error) {
+			console.error("[Scheduler] Failed to run due jobs:", error);
+		}
+	}
+
+	private wake(runAt: Date) {
+		if (!this.interval) return;
+		const at = runAt.getTime();
+		if (at >= this.wakeAt || at - Date.now() >= this.options.pollInterval) return;
+
+		if (this.wakeTimer) clearTimeout(this.wakeTimer);
+		this.wakeAt = at;
+		this.wakeTimer = setTimeout(() => {
+			this.wakeTimer = null;
+			this.wakeAt = Infinity;
+			void this.tick();
+		}, Math.max(0, at - Date.now()));
+		this.wakeTimer.unref?.();
+	}
+
+	private async drain(now: Date) {
+		let count = 0;
+		for (;;) {
+			const batch = await this.jobModel.claimDue(now, this.options.batchSize);
+			for (const job of batch) {
+				await this.execute(job);
+			}
+			count += batch.length;
+			if (batch.length < this.options.batchSize) return count;
+		}
+	}
+
+	private async execute(job: Job) {
+		const handler = this.handlers.get(job.type);
+		if (!handler) {
+			await this.jobModel.fail(job.id, `No handler registered for job type '${job.type}'`);
+			return;
+		}
+
+		try {
+			await handler((job.payload ?? {}) as Record<string, unknown>, job);
+			await this.jobModel.complete(job.id);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			const retry = job.attempts < this.options.maxAttempts;
+			const retryAt = retry
+				? new Date(Date.now() + this.options.retryDelay * 2 ** (job.attempts - 1))
+				: null;
+			console.error(`[Scheduler] Job ${job.type} (${job.id}) failed:`, message);
+			await this.jobModel.fail(job.id, message, retryAt);
+		}
+	}
+}
+
+const scheduler = new JobScheduler();
+
+export default scheduler;
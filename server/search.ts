@@ -0,0 +1,294 @@
+/**
+ * Full-text search over posts, pages and media.
+ * Each object is copied into `search_index` as plain text (block JSON is
+ * flattened here) and Postgres weights and ranks it; see createSearchIndexModel.
+ */
+import type { Media, NewSearchDocument, Page, Post, SearchObjectType } from "@shared/schema-types";
+import hooks, { type HookSystem } from "./hooks.js";
+import { escapeXml } from "./sitemap";
+import type { SearchHit, models } from "./storage";
+
+type SearchModels = Pick<typeof models, "posts" | "pages" | "media" | "searchIndex">;
+
+/** Markers handed to ts_headline; control characters never occur in indexed text */
+export const SNIPPET_MARKERS = { start: "\u0002", stop: "\u0003" };
+
+export const SEARCH_OBJECT_TYPES: SearchObjectType[] = ["post", "page", "media"];
+
+// Keys of block content that hold settings rather than readable text
+const NON_TEXT_KEYS = new Set([
+	"id",
+	"kind",
+	"url",
+	"href",
+	"src",
+	"link",
+	"poster",
+	"className",
+	"anchor",
+	"rel",
+	"target",
+	"linkTarget",
+	"linkDestination",
+	"mediaType",
+	"tagName",
+	"layout",
+	"orientation",
+	"language",
+	"icon",
+	"textAlign",
+	"verticalAlignment",
+	"horizontalAlignment",
+	"sizeSlug",
+]);
+
+// URLs, colours and CSS lengths stored as plain strings
+const NON_TEXT_VALUE = /^(https?:|mailto:|tel:|data:|\/|#|rgba?\(|hsla?\(|var\(|calc\()|^-?\d*\.?\d+(px|rem|em|%|vh|vw|fr)?$/i;
+
+/**
+ * Turns rich text into plain text: drops tags, scripts and styles, decodes the
+ * common entities and collapses whitespace.
+ */
+export function htmlToText(html: string): string {
+	return html
+		.replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, " ")
+		.replace(/<[^>]*>/g, " ")
+		.replace(/&nbsp;/gi, " ")
+		.replace(/&lt;/gi, "<")
+		.replace(/&gt;/gi, ">")
+		.replace(/&quot;/gi, '"')
+		.replace(/&#0?39;|&apos;/gi, "'")
+		.replace(/&amp;/gi, "&")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+/**
+ * Collects the readable text of a block tree: text and markdown values, HTML
+ * block markup, media alt text and captions, and strings inside structured
+ * data (buttons, table cells, gallery images), walking container children.
+ */
+export function extractBlockText(blocks: unknown): string {
+	const parts: string[] = [];
+
+	const collect = (value: unknown) => {
+		if (typeof value === "string") {
+			const text = htmlToText(value);
+			if (text && !NON_TEXT_VALUE.test(text)) parts.push(text);
+		} else if (Array.isArray(value)) {
+			value.forEach(collect);
+		} else if (value && typeof value === "object") {
+			for (const [key, nested] of Object.entries(value)) {
+				if (!NON_TEXT_KEYS.has(key)) collect(nested);
+			}
+		}
+	};
+
+	const visit = (list: unknown) => {
+		if (!Array.isArray(list)) return;
+		for (const block of list) {
+			if (!block || typeof block !== "object") continue;
+			collect((block as { content?: unknown }).content);
+			visit((block as { children?: unknown }).children);
+		}
+	};
+
+	visit(blocks);
+	return parts.join("\n");
+}
+
+/** Index row for a post; its public URL is /post/:slug */
+export function postSearchDocument(post: Post): NewSearchDocument {
+	return {
+		objectType: "post",
+		objectId: post.id,
+		title: post.title,
+		excerpt: post.excerpt,
+		content: extractBlockText(post.blocks),
+		url: `/post/${encodeURIComponent(post.slug)}`,
+		status: post.status,
+		publishedAt: post.publishedAt,
+	};
+}
+
+/** Index row for a page; its public URL is /page/:slug */
+export function pageSearchDocument(page: Page): NewSearchDocument {
+	return {
+		objectType: "page",
+		objectId: page.id,
+		title: page.title,
+		content: extractBlockText(page.blocks),
+		url: `/page/${encodeURIComponent(page.slug)}`,
+		status: page.status,
+		publishedAt: page.publishedAt,
+	};
+}
+
+/** Index row for a media item: file name and alt text as title, caption and description as text */
+export function mediaSearchDocument(item: Media): NewSearchDocument {
+	return {
+		objectType: "media",
+		objectId: item.id,
+		title: [item.originalName, item.alt].filter(Boolean).join(" "),
+		excerpt: item.caption,
+		content: item.description,
+		url: item.url,
+		status: null,
+		publishedAt: null,
+	};
+}
+
+/**
+ * Keeps the index in step with content. Pages and posts share `save_post`;
+ * only pages carry a `siteId`.
+ */
+export function listenForSearchIndexing(searchIndex: SearchModels["searchIndex"], hookSystem: HookSystem = hooks) {
+	hookSystem.addAction("save_post", async (record: (Post | Page) | null | undefined) => {
+		if (!record?.id) return;
+		await searchIndex.upsert(
+			"siteId" in record ? pageSearchDocument(record as Page) : postSearchDocument(record as Post),
+		);
+	});
+	const indexMedia = async (item: Media | null | undefined) => {
+		if (item?.id) await searchIndex.upsert(mediaSearchDocument(item));
+	};
+	const remove = async (id: string | null | undefined) => {
+		if (id) await searchIndex.remove(id);
+	};
+
+	hookSystem.addAction("wp_handle_upload", indexMedia);
+	hookSystem.addAction("wp_update_attachment_metadata", indexMedia);
+	hookSystem.addAction("delete_post", remove);
+	hookSystem.addAction("delete_attachment", remove);
+}
+
+/**
+ * Re-indexes every post, page and media item, e.g. after an upgrade or when
+ * content was written without going through the API.
+ *
+ * @returns Number of objects indexed
+ */
+export async function rebuildSearchIndex(modelsObj: SearchModels, batchSize = 100): Promise<number> {
+	let indexed = 0;
+
+	const sources = [
+		{ model: modelsObj.posts, toDocument: postSearchDocument },
+		{ model: modelsObj.pages, toDocument: pageSearchDocument },
+		{ model: modelsObj.media, toDocument: mediaSearchDocument },
+	] as const;
+
+	for (const { model, toDocument } of sources) {
+		for (let offset = 0; ; offset += batchSize) {
+			const records = await model.findMany({ limit: batchSize, offset });
+			for (const record of records) {
+				await modelsObj.searchIndex.upsert((toDocument as (value: typeof record) => NewSearchDocument)(record));
+				indexed++;
+			}
+			if (records.length < batchSize) break;
+		}
+	}
+
+	return indexed;
+}
+
+/**
+ * Fills an empty index from existing content (first start after upgrading).
+ */
+export async function ensureSearchIndex(modelsObj: SearchModels): Promise<number> {
+	if ((await modelsObj.searchIndex.count()) > 0) return 0;
+	return rebuildSearchIndex(modelsObj);
+}
+
+/** A search hit as returned by the API */
+export interface SearchResult {
+	type: SearchObjectType;
+	id: string;
+	title: string;
+	url: string | null;
+	/** Escaped HTML with matched words wrapped in <mark> */
+	snippet: string;
+	status: string | null;
+	publishedAt: Date | null;
+	rank: number;
+}
+
+/**
+ * Escapes a ts_headline passage and turns SNIPPET_MARKERS into <mark> tags
+ */
+export function formatSnippet(headline: string): string {
+	return escapeXml(headline)
+		.split(SNIPPET_MARKERS.start)
+		.join("<mark>")
+		.split(SNIPPET_MARKERS.stop)
+		.join("</mark>");
+}
+
+export function toSearchResult(hit: SearchHit, siteUrl = ""): SearchResult {
+	return {
+		type: hit.objectType,
+		id: hit.objectId,
+		title: hit.title,
+		url: hit.url ? `${siteUrl}${hit.url}` : null,
+		snippet: formatSnippet(hit.headline),
+		status: hit.status,
+		publishedAt: hit.publishedAt,
+		rank: hit.rank,
+	};
+}
+
+/**
+ * Parses a comma-separated `type` parameter, ignoring unknown types
+ */
+export function parseSearchTypes(value: unknown, fallback: SearchObjectType[]): SearchObjectType[] {
+	if (typeof value !== "string" || !value.trim()) return fallback;
+	const types = value
+		.split(",")
+		.map((type) => type.trim())
+		.filter((type): type is SearchObjectType => SEARCH_OBJECT_TYPES.includes(type as SearchObjectType));
+	return types.length > 0 ? types : fallback;
+}
+
+/**
+ * URL of one page of search results; page 1 has no page parameter
+ */
+export function searchPageUrl(base: string, query: string, page = 1): string {
+	const params = new URLSearchParams({ q: query });
+	if (page > 1) params.set("page", String(page));
+	return `${base}/search?${params.toString()}`;
+}
+
+/**
+ * Renders the result list of the public search page, followed by previous/next links
+ */
+export function renderSearchResults(
+	results: SearchResult[],
+	options: { query: string; page: number; totalPages: number; total: number; baseUrl: string },
+): string {
+	const { query, page, totalPages, total, baseUrl } = options;
+	if (!query) {
+		return `<section class="search-results search-results--empty"><p>Enter a word or phrase to search for.</p></section>`;
+	}
+	if (results.length === 0) {
+		return `<section class="search-results search-results--empty"><p>Nothing matched &ldquo;${escapeXml(query)}&rdquo;.</p></section>`;
+	}
+
+	const items = results.map((result) => {
+		const title = escapeXml(result.title || "(untitled)");
+		const heading = result.url ? `<a href="${escapeXml(result.url)}">${title}</a>` : title;
+		return `<article class="search-result search-result--${result.type}"><h2 class="search-result__title">${heading}</h2><p class="search-result__snippet">${result.snippet}</p></article>`;
+	});
+
+	const links: string[] = [];
+	if (page > 1) {
+		links.push(`<a rel="prev" href="${escapeXml(searchPageUrl(baseUrl, query, page - 1))}">Previous results</a>`);
+	}
+	if (page < totalPages) {
+		links.push(`<a rel="next" href="${escapeXml(searchPageUrl(baseUrl, query, page + 1))}">More results</a>`);
+	}
+	const pagination = links.length
+		? `<nav class="search-pagination" aria-label="Search result pages">${links.join("")}<span>Page ${page} of ${totalPages}</span></nav>`
+		: "";
+
+	const summary = `<p class="search-results__count">${total} ${total === 1 ? "result" : "results"}</p>`;
+	return `<section class="search-results">${summary}${items.join("")}${pagination}</section>`;
+}
@@ -0,0 +1,153 @@
+/**
+ * XML sitemap builders (sitemaps.org protocol with the Google image extension).
+ * Kept free of database access so the route layer decides what is listed.
+ */
+
+/** Maximum URLs per sitemap file allowed by the protocol */
+export const SITEMAP_PAGE_SIZE = 50000;
+
+export type SitemapType = "pages" | "posts" | "blogs";
+
+export const SITEMAP_TYPES: SitemapType[] = ["pages", "posts", "blogs"];
+
+export interface SitemapImage {
+	loc: string;
+	title?: string;
+	caption?: string;
+}
+
+export interface SitemapUrl {
+	loc: string;
+	lastmod?: Date | string | null;
+	images?: SitemapImage[];
+}
+
+export interface SitemapIndexEntry {
+	loc: string;
+	lastmod?: Date | string | null;
+}
+
+export function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&apos;");
+}
+
+function formatLastmod(value: Date | string | null | undefined): string | null {
+	if (!value) return null;
+	const date = value instanceof Date ? value : new Date(value);
+	return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Resolves a root-relative URL against the site URL; absolute URLs pass through.
+ */
+export function absoluteUrl(siteUrl: string, url: string): string {
+	if (/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) return url;
+	return `${siteUrl.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`;
+}
+
+/**
+ * Whether a page or post opted out of indexing via `other.seo.noIndex`
+ */
+export function isNoIndex(record: { other?: unknown }): boolean {
+	const other = record.other as { seo?: { noIndex?: boolean } } | null | undefined;
+	return other?.seo?.noIndex === true;
+}
+
+/**
+ * Collects image URLs from media blocks (image, media-text, cover) and gallery
+ * blocks, walking nested container children.
+ */
+export function collectBlockImages(blocks: unknown): SitemapImage[] {
+	const images: SitemapImage[] = [];
+
+	const visit = (list: unknown) => {
+		if (!Array.isArray(list)) return;
+		for (const block of list) {
+			if (!block || typeof block !== "object") continue;
+			const content = (block as { content?: Record<string, any> }).content;
+
+			if (content?.kind === "media" && content.mediaType === "image" && typeof content.url === "string" && content.url) {
+				images.push({ loc: content.url, title: content.alt || undefined, caption: content.caption || undefined });
+			}
+			if (Array.isArray(content?.images)) {
+				for (const image of content.images) {
+					if (typeof image?.url === "string" && image.url) {
+						images.push({ loc: image.url, title: image.alt || undefined, caption: image.caption || undefined });
+					}
+				}
+			}
+
+			visit((block as { children?: unknown }).children);
+		}
+	};
+
+	visit(blocks);
+	return images;
+}
+
+function renderImage(image: SitemapImage): string {
+	const parts = [`<image:loc>${escapeXml(image.loc)}</image:loc>`];
+	if (image.title) parts.push(`<image:title>${escapeXml(image.title)}</image:title>`);
+	if (image.caption) parts.push(`<image:caption>${escapeXml(image.caption)}</image:caption>`);
+	return `<image:image>${parts.join("")}</image:image>`;
+}
+
+/**
+ * Renders a `<urlset>` document. Duplicate image URLs within one entry are dropped.
+ */
+export function buildUrlSet(urls: SitemapUrl[]): string {
+	const body = urls
+		.map((url) => {
+			const lines = [`<loc>${escapeXml(url.loc)}</loc>`];
+			const lastmod = formatLastmod(url.lastmod);
+			if (lastmod) lines.push(`<lastmod>${lastmod}</lastmod>`);
+			const seen = new Set<string>();
+			for (const image of url.images ?? []) {
+				if (seen.has(image.loc)) continue;
+				seen.add(image.loc);
+				lines.push(renderImage(image));
+			}
+			return `<url>${lines.join("")}</url>`;
+		})
+		.join("\n");
+
+	return [
+		`<?xml version="1.0" encoding="UTF-8"?>`,
+		`<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">`,
+		body,
+		`</urlset>`,
+	]
+		.filter(Boolean)
+		.join("\n");
+}
+
+/**
+ * Renders a `<sitemapindex>` document pointing at per-type sitemaps
+ */
+export function buildSitemapIndex(entries: SitemapIndexEntry[]): string {
+	const body = entries
+		.map((entry) => {
+			const lastmod = formatLastmod(entry.lastmod);
+			return `<sitemap><loc>${escapeXml(entry.loc)}</loc>${lastmod ? `<lastmod>${lastmod}</lastmod>` : ""}</sitemap>`;
+		})
+		.join("\n");
+
+	return [
+		`<?xml version="1.0" encoding="UTF-8"?>`,
+		`<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+		body,
+		`</sitemapindex>`,
+	]
+		.filter(Boolean)
+		.join("\n");
+}
+
+/** File name of one page of a per-type sitemap, e.g. "sitemap-posts-2.xml" */
+export function sitemapFileName(type: SitemapType, page: number): string {
+	return `sitemap-${type}-${page}.xml`;
+}
@@ -0,0 +1,319 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { models } from "./storage.js";
+import themeManager from "./themes.js";
+import hooks from "./hooks.js";
+import { withResolvedPatterns } from "./patterns";
+import { withResolvedPostBlocks } from "./post-blocks";
+import { renderBlockDocument, BLOCK_COMPONENTS_STUB } from "../renderer/render-page";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Upper bound for records pulled per content type in one export
+const EXPORT_LIMIT = 10000;
+
+export interface StaticExportOptions {
+	/** Directory the site is written to (created if missing, existing files are overwritten) */
+	outDir: string;
+	/** Public URL of the exported site, used for canonical links; defaults to general.siteUrl */
+	siteUrl?: string;
+	/** Source of /uploads (defaults to ./uploads) */
+	uploadDir?: string;
+	/** Source of /vendor (defaults to ./dist/public/vendor) */
+	vendorDir?: string;
+	/** Content models to read from (defaults to the shared models) */
+	models?: Pick<
+		typeof models,
+		"pages" | "posts" | "blogs" | "options" | "sites" | "patterns" | "themes" | "comments" | "users" | "terms"
+	>;
+}
+
+export interface StaticExportResult {
+	outDir: string;
+	pages: number;
+	posts: number;
+	blogs: number;
+	/** Every HTML file written, as paths relative to outDir */
+	files: string[];
+	/** Routes left out because their file would land outside outDir */
+	skipped: string[];
+	assets: number;
+	durationMs: number;
+}
+
+/**
+ * A rendered URL of the exported site.
+ * `path` is the public URL path ("/" or "/page/about"); `aliases` are other
+ * server URLs for the same content that links may point to (e.g. "/posts/:id").
+ */
+interface ExportRoute {
+	path: string;
+	aliases: string[];
+	html: string;
+}
+
+/** Output file for a public URL path, e.g. "/page/about" -> "page/about/index.html" */
+export function routeToFile(routePath: string): string {
+	const trimmed = routePath.replace(/^\/+|\/+$/g, "");
+	return trimmed ? `${trimmed}/index.html` : "index.html";
+}
+
+const ATTRIBUTE_PATTERN = /\b(href|src|action|poster)=(["'])(.*?)\2/gi;
+const CSS_URL_PATTERN = /url\((["']?)(\/[^)"']*)\1\)/gi;
+
+/**
+ * Rewrites root-relative and site-absolute URLs in an exported HTML file to
+ * paths relative to that file. Known routes point at their `index.html`;
+ * `rel="canonical"` links keep their absolute URL.
+ *
+ * @param html - Rendered document
+ * @param fromFile - Output file the document is written to (relative to outDir)
+ * @param routes - Map of public URL path (and aliases) to canonical route path
+ * @param siteUrl - Absolute origin whose links count as internal
+ */
+export function rewriteInternalLinks(
+	html: string,
+	fromFile: string,
+	routes: Map<string, string>,
+	siteUrl?: string,
+): string {
+	const origin = siteUrl?.replace(/\/+$/, "");
+	const fromDir = path.posix.dirname(fromFile);
+
+	const toRelative = (url: string): string => {
+		let value = url;
+		if (origin && (value === origin || value.startsWith(`${origin}/`))) {
+			value = value.slice(origin.length) || "/";
+		}
+		if (!value.startsWith("/") || value.startsWith("//")) {
+			return url;
+		}
+
+		const match = /^([^?#]*)(.*)$/.exec(value)!;
+		const pathname = match[1] || "/";
+		const suffix = match[2];
+		const normalized = pathname.length > 1 ? pathname.replace(/\/+$/, "") : pathname;
+
+		const route = routes.get(normalized);
+		const target = route !== undefined ? routeToFile(route) : normalized.replace(/^\/+/, "");
+		const relative = path.posix.relative(fromDir, target) || path.posix.basename(target);
+		return `${relative}${suffix}`;
+	};
+
+	const rewritten = html.replace(/<[a-z][^>]*>/gi, (tag) => {
+		if (/\brel=(["'])canonical\1/i.test(tag)) {
+			return tag;
+		}
+		return tag.replace(ATTRIBUTE_PATTERN, (_m, attr, quote, url) => `${attr}=${quote}${toRelative(url)}${quote}`);
+	});
+
+	return rewritten.replace(CSS_URL_PATTERN, (_m, quote, url) => `url(${quote}${toRelative(url)}${quote})`);
+}
+
+async function pathExists(target: string) {
+	try {
+		await fs.access(target);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+async function countFiles(dir: string): Promise<number> {
+	const entries = await fs.readdir(dir, { withFileTypes: true, recursive: true });
+	return entries.filter((entry) => entry.isFile()).length;
+}
+
+function hasBlocks(record: { blocks: unknown }) {
+	return Array.isArray(record.blocks) && record.blocks.length > 0;
+}
+
+/**
+ * Renders through the active theme, falling back to the built-in templates
+ * when no theme is active so an export never fails on theme setup.
+ */
+async function renderThemed(template: string, data: Record<string, unknown>): Promise<string> {
+	try {
+		return await themeManager.renderContent(template, data);
+	} catch {
+		return themeManager.renderNextJsTemplate(template, data);
+	}
+}
+
+/**
+ * Exports every published page, post, blog index and the post archive as static
+ * HTML, copies /uploads, /vendor and the renderer scripts, and rewrites internal
+ * links to relative paths so the result can be served from any CDN or bucket.
+ *
+ * Output layout:
+ * - index.html             homepage (configured homepage page, else recent posts)
+ * - page/<slug>/index.html published pages
+ * - post/<slug>/index.html published posts
+ * - post/index.html        archive of all published posts
+ * - blog/<slug>/index.html published blog indexes
+ *
+ * @param options - Output directory and optional overrides
+ * @returns Summary of what was written
+ */
+export async function exportStaticSite(options: StaticExportOptions): Promise<StaticExportResult> {
+	const started = Date.now();
+	const m = options.models ?? models;
+	const outDir = path.resolve(options.outDir);
+
+	const settings = await m.sites.getSettings();
+	const siteUrl = (options.siteUrl || settings.general.siteUrl || "").replace(/\/+$/, "");
+	const site = {
+		name: settings.general.siteName,
+		description: settings.general.siteDescription,
+		url: siteUrl,
+	};
+
+	const published = [{ where: "status", equals: "publish" }];
+	const pages = await m.pages.findManyWhere(published, { limit: EXPORT_LIMIT });
+	const posts = await m.posts.findManyWhere(published, {
+		limit: EXPORT_LIMIT,
+		orderBy: { property: "publishedAt", order: "descending" },
+	});
+	const blogs = await m.blogs.findManyWhere(published, { limit: EXPORT_LIMIT });
+
+	const globalStyles = await m.themes.getGlobalStyles();
+	const routes: ExportRoute[] = [];
+
+	for (const page of pages) {
+		routes.push({
+			path: `/page/${page.slug}`,
+			aliases: [`/pages/${page.id}`, `/sites/${page.siteId}/${page.slug}`],
+			html: renderBlockDocument(
+				await withResolvedPostBlocks(await withResolvedPatterns(page, m.patterns), {
+					models: m,
+					commentForm: false,
+				}),
+				`${siteUrl}/page/${page.slug}/`,
+				globalStyles,
+			),
+		});
+	}
+
+	for (const post of posts) {
+		routes.push({
+			path: `/post/${post.slug}`,
+			aliases: [`/posts/${post.id}`],
+			html: hasBlocks(post)
+				? renderBlockDocument(
+						await withResolvedPostBlocks(await withResolvedPatterns(post, m.patterns), {
+							models: m,
+							post,
+							commentForm: false,
+						}),
+						`${siteUrl}/post/${post.slug}/`,
+						globalStyles,
+					)
+				: await renderThemed("single-post", { post, site }),
+		});
+	}
+
+	for (const blog of blogs) {
+		const blogPosts = posts.filter((post) => post.blogId === blog.id);
+		routes.push({
+			path: `/blog/${blog.slug}`,
+			aliases: [],
+			html: await renderThemed("home", { posts: blogPosts, site: { ...site, name: blog.name } }),
+		});
+	}
+
+	routes.push({
+		path: "/post",
+		aliases: ["/home"],
+		html: await renderThemed("home", { posts, site }),
+	});
+
+	// Homepage: the configured homepage page, otherwise the recent posts listing
+	const homepageSlug = (await m.options.getOption("homepage_page_slug"))?.value;
+	const homepage = homepageSlug ? routes.find((r) => r.path === `/page/${homepageSlug}`) : undefined;
+	routes.push({
+		path: "/",
+		aliases: [],
+		html: homepage?.html ?? (await renderThemed("home", { posts: posts.slice(0, 10), site })),
+	});
+
+	const routeMap = new Map<string, string>();
+	for (const route of routes) {
+		routeMap.set(route.path, route.path);
+		route.aliases.forEach((alias) => routeMap.set(alias, route.path));
+	}
+
+	await fs.mkdir(outDir, { recursive: true });
+
+	const files: string[] = [];
+	const skipped: string[] = [];
+	const root = path.resolve(outDir);
+	for (const route of routes) {
+		const file = routeToFile(route.path);
+		// Slugs saved before they were validated could still point outside the export
+		const target = path.resolve(root, file);
+		if (!target.startsWith(root + path.sep)) {
+			console.warn(`[export] Skipping ${route.path}: it would be written outside ${outDir}`);
+			skipped.push(route.path);
+			continue;
+		}
+		const html = hooks.applyFilters(
+			"static_export_html",
+			rewriteInternalLinks(route.html, file, routeMap, siteUrl),
+			route.path,
+		);
+		await fs.mkdir(path.dirname(target), { recursive: true });
+		await fs.writeFile(target, html);
+		files.push(file);
+	}
+
+	// Static assets referenced by rendered pages
+	let assets = 0;
+	const copies: Array<[string, string]> = [
+		[options.uploadDir ?? path.join(process.cwd(), "uploads"), "uploads"],
+		[options.vendorDir ?? path.join(process.cwd(), "dist/public/vendor"), "vendor"],
+	];
+	for (const [source, target] of copies) {
+		if (await pathExists(source)) {
+			await fs.cp(source, path.join(outDir, target), { recursive: true });
+			assets += await countFiles(path.join(outDir, target));
+		}
+	}
+
+	const rendererOut = path.join(outDir, "renderer");
+	await fs.mkdir(path.join(rendererOut, "scripts"), { recursive: true });
+	await fs.mkdir(path.join(rendererOut, "react"), { recursive: true });
+	const hydrateSource = [
+		path.join(__dirname, "../renderer/scripts/hydrate.js"),
+		path.join(process.cwd(), "renderer/scripts/hydrate.js"),
+	];
+	for (const source of hydrateSource) {
+		if (await pathExists(source)) {
+			// Resolve the components module next to the script instead of the site root
+			const script = await fs.readFile(source, "utf8");
+			await fs.writeFile(
+				path.join(rendererOut, "scripts/hydrate.js"),
+				script.replaceAll("\"/renderer/react/", "\"../react/"),
+			);
+			assets += 1;
+			break;
+		}
+	}
+	await fs.writeFile(path.join(rendererOut, "react/block-components.js"), BLOCK_COMPONENTS_STUB);
+	assets += 1;
+
+	const result: StaticExportResult = {
+		outDir,
+		pages: pages.length,
+		posts: posts.length,
+		blogs: blogs.length,
+		files,
+		skipped,
+		assets,
+		durationMs: Date.now() - started,
+	};
+
+	hooks.doAction("static_export_complete", result);
+	return result;
+}
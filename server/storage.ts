@@ -1,5 +1,6 @@
+import { and, asc, desc, eq, inArray, isNull, lt, lte, or, sql, type SQL } from "drizzle-orm";
 import { db } from "./db";
-import { createModel, type DatabaseInstance } from "@shared/create-models";
+import { createModel, type DatabaseInstance, type SQLFilter } from "@shared/create-models";
 import {
 	sites,
 	roles,
@@ -7,15 +8,36 @@ import {
 	users,
 	pages,
 	templates,
+	patterns,
 	themes,
 	plugins,
 	options,
 	blogs,
 	posts,
+	terms,
+	termRelationships,
+	searchIndex,
 	comments,
 	media,
+	jobs,
+	webhooks,
+	webhookDeliveries,
+	emailOutbox,
 	sessions,
 } from "@shared/schema";
+import { DEFAULT_ROLES } from "@shared/capabilities";
+import { referencesPattern } from "@shared/block-references";
+import type { PatternExportEntry } from "@shared/pattern-library";
+import { globalStylesOf, type GlobalStyles } from "@shared/global-styles";
+import type {
+	Job,
+	NewJob,
+	PatternUsage,
+	NewSearchDocument,
+	SearchObjectType,
+	Term,
+	TermTaxonomy,
+} from "@shared/schema-types";
 
 // Specialized model factories for complex operations
 export function createUserModel(dbInstance: DatabaseInstance = db) {
@@ -122,6 +144,306 @@ export function createPostModel(dbInstance: DatabaseInstance = db) {
 				publishedAt: new Date(),
 			});
 		},
+
+		/**
+		 * Update a post only while it is still at `expectedVersion`, so two saves
+		 * started from the same version cannot both land
+		 * @param id - The UUID of the post
+		 * @param expectedVersion - The version the changes were made against
+		 * @param data - The changes, usually including the next version
+		 * @returns The updated post, or undefined when its version has moved on
+		 * @example
+		 * const post = await postModel.updateVersioned(id, 3, { blocks, version: 4 });
+		 */
+		async updateVersioned(id: string, expectedVersion: number, data: Partial<typeof posts.$inferSelect>) {
+			const [post] = await dbInstance
+				.update(posts)
+				.set({ ...data, updatedAt: new Date() })
+				.where(and(eq(posts.id, id), eq(posts.version, expectedVersion)))
+				.returning();
+			return post;
+		},
+	};
+}
+
+export function createTermModel(dbInstance: DatabaseInstance = db) {
+	const baseModel = createModel(terms, dbInstance);
+	const relationships = createModel(termRelationships, dbInstance);
+
+	const findBySlug = (taxonomy: TermTaxonomy, slug: string) =>
+		baseModel.findFirst([
+			{ where: "taxonomy", equals: taxonomy },
+			{ where: "slug", equals: slug },
+		]);
+
+	const findByPost = async (postId: string, taxonomy?: TermTaxonomy): Promise<Term[]> => {
+		const links = await relationships.findManyWhere([{ where: "postId", equals: postId }], { limit: 1000 });
+		if (links.length === 0) return [];
+
+		const filters: Array<{ where: string; equals?: unknown; in?: unknown[] }> = [
+			{ where: "id", in: links.map((link) => link.termId) },
+		];
+		if (taxonomy) filters.push({ where: "taxonomy", equals: taxonomy });
+		return baseModel.findManyWhere(filters, {
+			limit: 1000,
+			orderBy: { property: "name", order: "ascending" },
+		});
+	};
+
+	return {
+		...baseModel,
+
+		/**
+		 * Find a term by its slug within a taxonomy
+		 * @param taxonomy - "category" or "tag"
+		 * @param slug - The slug to search for
+		 * @returns The term or undefined if not found
+		 * @example
+		 * const news = await termModel.findBySlug('category', 'news');
+		 */
+		findBySlug,
+
+		/**
+		 * Find a term by ID or slug within a taxonomy
+		 * @param taxonomy - "category" or "tag"
+		 * @param idOrSlug - A term UUID or slug
+		 * @returns The term or undefined if not found
+		 */
+		async resolve(taxonomy: TermTaxonomy, idOrSlug: string) {
+			const bySlug = await findBySlug(taxonomy, idOrSlug);
+			if (bySlug) return bySlug;
+			if (!/^[0-9a-f-]{36}$/i.test(idOrSlug)) return undefined;
+			const byId = await baseModel.findById(idOrSlug);
+			return byId?.taxonomy === taxonomy ? byId : undefined;
+		},
+
+		/**
+		 * Collect the IDs of a term and every term below it in the hierarchy
+		 * @param id - The UUID of the root term
+		 * @returns The root ID followed by all descendant IDs
+		 */
+		async findDescendantIds(id: string) {
+			const ids = [id];
+			for (let i = 0; i < ids.length; i++) {
+				const children = await baseModel.findManyWhere([{ where: "parentId", equals: ids[i] }], {
+					limit: 1000,
+				});
+				for (const child of children) {
+					if (!ids.includes(child.id)) ids.push(child.id);
+				}
+			}
+			return ids;
+		},
+
+		/**
+		 * Find the terms assigned to a post
+		 * @param postId - The UUID of the post
+		 * @param taxonomy - Optionally restrict to "category" or "tag"
+		 * @returns Terms ordered by name
+		 * @example
+		 * const tags = await termModel.findByPost(postId, 'tag');
+		 */
+		findByPost,
+
+		/**
+		 * Replace the terms of one taxonomy assigned to a post.
+		 * Assignments in the other taxonomy are left alone.
+		 * @param postId - The UUID of the post
+		 * @param taxonomy - "category" or "tag"
+		 * @param termIds - UUIDs of the terms the post should have
+		 * @returns The terms now assigned in that taxonomy
+		 */
+		async setPostTerms(postId: string, taxonomy: TermTaxonomy, termIds: string[]) {
+			const wanted = Array.from(new Set(termIds));
+			const current = await findByPost(postId, taxonomy);
+			const currentIds = current.map((term) => term.id);
+
+			const stale = current.filter((term) => !wanted.includes(term.id)).map((term) => term.id);
+			if (stale.length > 0) {
+				const links = await relationships.findManyWhere(
+					[
+						{ where: "postId", equals: postId },
+						{ where: "termId", in: stale },
+					],
+					{ limit: 1000 },
+				);
+				for (const link of links) {
+					await relationships.delete(link.id);
+				}
+			}
+
+			for (const termId of wanted) {
+				if (!currentIds.includes(termId)) {
+					await relationships.create({ postId, termId });
+				}
+			}
+
+			return findByPost(postId, taxonomy);
+		},
+
+		/**
+		 * Count the posts assigned to a term
+		 * @param termId - The UUID of the term
+		 * @returns Number of posts linked to the term
+		 */
+		async countPosts(termId: string) {
+			return relationships.count({ where: [{ where: "termId", equals: termId }] });
+		},
+
+		/**
+		 * Build a posts filter matching posts assigned to any of the given terms
+		 * @param termIds - UUIDs of the terms
+		 * @returns SQL filter usable with the posts model's findManyWhere and count
+		 * @example
+		 * const filter = termModel.postsFilter([newsId]);
+		 * const newsPosts = await models.posts.findManyWhere([filter]);
+		 */
+		postsFilter(termIds: string[]): SQLFilter {
+			return {
+				sql: inArray(
+					posts.id,
+					dbInstance
+						.select({ postId: termRelationships.postId })
+						.from(termRelationships)
+						.where(inArray(termRelationships.termId, termIds)),
+				),
+			};
+		},
+	};
+}
+
+/** One ranked match returned by the search index model */
+export interface SearchHit {
+	objectType: SearchObjectType;
+	objectId: string;
+	title: string;
+	url: string | null;
+	status: string | null;
+	publishedAt: Date | null;
+	rank: number;
+	/** Best matching passage with matches wrapped in the requested markers */
+	headline: string;
+}
+
+export interface SearchQueryOptions {
+	/** Object types to include (default: all) */
+	types?: SearchObjectType[];
+	/** Post/page statuses to include (default: any); media always matches */
+	statuses?: string[];
+	/** Exclude posts and pages published after this instant */
+	publishedBefore?: Date;
+	limit?: number;
+	offset?: number;
+	/** Markers placed around matched words in `headline` (default: Postgres' <b></b>) */
+	highlight?: { start: string; stop: string };
+}
+
+export function createSearchIndexModel(dbInstance: DatabaseInstance = db) {
+	const baseModel = createModel(searchIndex, dbInstance);
+	const idColumns = { post: posts.id, page: pages.id, media: media.id };
+
+	const tsQuery = (query: string) => sql`websearch_to_tsquery('english', ${query})`;
+
+	const matchConditions = (query: string, options: SearchQueryOptions) => {
+		const conditions: SQL[] = [sql`${searchIndex.searchVector} @@ ${tsQuery(query)}`];
+		if (options.types?.length) {
+			conditions.push(inArray(searchIndex.objectType, options.types));
+		}
+		if (options.statuses?.length) {
+			conditions.push(or(isNull(searchIndex.status), inArray(searchIndex.status, options.statuses)) as SQL);
+		}
+		if (options.publishedBefore) {
+			conditions.push(
+				or(isNull(searchIndex.publishedAt), lte(searchIndex.publishedAt, options.publishedBefore)) as SQL,
+			);
+		}
+		return and(...conditions);
+	};
+
+	return {
+		...baseModel,
+
+		/**
+		 * Insert or replace the indexed text of one object
+		 * @param document - Object type and ID plus the text to index
+		 * @example
+		 * await searchIndexModel.upsert({ objectType: 'post', objectId: post.id, title: post.title });
+		 */
+		async upsert(document: NewSearchDocument) {
+			const values = { ...document, updatedAt: new Date() };
+			const [row] = await dbInstance
+				.insert(searchIndex)
+				.values(values)
+				.onConflictDoUpdate({
+					target: [searchIndex.objectType, searchIndex.objectId],
+					set: values,
+				})
+				.returning();
+			return row;
+		},
+
+		/**
+		 * Remove an object from the index. IDs are UUIDs, so the type is not needed.
+		 * @param objectId - The UUID of the post, page or media item
+		 */
+		async remove(objectId: string) {
+			await dbInstance.delete(searchIndex).where(eq(searchIndex.objectId, objectId));
+		},
+
+		/**
+		 * Run a web-style query ("quoted phrases", -exclusions, or) against the index
+		 * @param query - Text typed by the user
+		 * @param options - Type/status restrictions, paging and highlight markers
+		 * @returns Hits ordered by relevance, and the total number of matches
+		 * @example
+		 * const { hits, total } = await searchIndexModel.search('release notes', { types: ['post'] });
+		 */
+		async search(query: string, options: SearchQueryOptions = {}): Promise<{ hits: SearchHit[]; total: number }> {
+			const where = matchConditions(query, options);
+			const highlight = options.highlight ?? { start: "<b>", stop: "</b>" };
+			const headlineOptions = `StartSel=${highlight.start}, StopSel=${highlight.stop}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+			const rank = sql<number>`ts_rank_cd(${searchIndex.searchVector}, ${tsQuery(query)})`;
+
+			const hits: SearchHit[] = await dbInstance
+				.select({
+					objectType: searchIndex.objectType,
+					objectId: searchIndex.objectId,
+					title: searchIndex.title,
+					url: searchIndex.url,
+					status: searchIndex.status,
+					publishedAt: searchIndex.publishedAt,
+					rank,
+					headline: sql<string>`ts_headline('english', coalesce(nullif(${searchIndex.content}, ''), nullif(${searchIndex.excerpt}, ''), ${searchIndex.title}), ${tsQuery(query)}, ${headlineOptions})`,
+				})
+				.from(searchIndex)
+				.where(where)
+				.orderBy(desc(rank), desc(searchIndex.updatedAt))
+				.limit(options.limit ?? 10)
+				.offset(options.offset ?? 0);
+
+			const total = await baseModel.count({ where: [{ sql: where as SQL }] });
+			return { hits: hits.map((hit) => ({ ...hit, rank: Number(hit.rank) })), total };
+		},
+
+		/**
+		 * Build a filter for the posts, pages or media model matching a query
+		 * @param objectType - Which model the filter is for
+		 * @param query - Text typed by the user
+		 * @returns SQL filter usable with that model's findManyWhere and count
+		 * @example
+		 * const pages = await models.pages.findManyWhere([searchIndexModel.matchFilter('page', 'contact')]);
+		 */
+		matchFilter(objectType: SearchObjectType, query: string): SQLFilter {
+			return {
+				sql: inArray(
+					idColumns[objectType],
+					dbInstance
+						.select({ objectId: searchIndex.objectId })
+						.from(searchIndex)
+						.where(matchConditions(query, { types: [objectType] })),
+				),
+			};
+		},
 	};
 }
 
@@ -244,6 +566,25 @@ export function createPageModel(dbInstance: DatabaseInstance = db) {
 				publishedAt: new Date(),
 			});
 		},
+
+		/**
+		 * Update a page only while it is still at `expectedVersion`, so two saves
+		 * started from the same version cannot both land
+		 * @param id - The UUID of the page
+		 * @param expectedVersion - The version the changes were made against
+		 * @param data - The changes, usually including the next version
+		 * @returns The updated page, or undefined when its version has moved on
+		 * @example
+		 * const page = await pageModel.updateVersioned(id, 3, { blocks, version: 4 });
+		 */
+		async updateVersioned(id: string, expectedVersion: number, data: Partial<typeof pages.$inferSelect>) {
+			const [page] = await dbInstance
+				.update(pages)
+				.set({ ...data, updatedAt: new Date() })
+				.where(and(eq(pages.id, id), eq(pages.version, expectedVersion)))
+				.returning();
+			return page;
+		},
 	};
 }
 
@@ -277,6 +618,193 @@ export function createMediaModel(dbInstance: DatabaseInstance = db) {
 	};
 }
 
+export function createJobModel(dbInstance: DatabaseInstance = db) {
+	const baseModel = createModel(jobs, dbInstance);
+
+	return {
+		...baseModel,
+
+		/**
+		 * Queue a job. A job with the same key is replaced (rescheduled and reset to pending).
+		 * @param job - Handler type, run time, payload and optional key
+		 * @returns The queued job
+		 * @example
+		 * await jobModel.schedule({ type: 'publish_scheduled', key: `publish:${post.id}`, runAt: post.publishedAt });
+		 */
+		async schedule(job: NewJob): Promise<Job> {
+			const now = new Date();
+			const values = {
+				...job,
+				status: "pending",
+				attempts: 0,
+				lastError: null,
+				lockedAt: null,
+				updatedAt: now,
+			};
+			const [row] = await dbInstance
+				.insert(jobs)
+				.values(values)
+				.onConflictDoUpdate({ target: jobs.key, set: values })
+				.returning();
+			return row;
+		},
+
+		/**
+		 * Drop the pending job with a key; a job that is already running is left to finish
+		 * @param key - The job key
+		 */
+		async cancel(key: string) {
+			await dbInstance.delete(jobs).where(and(eq(jobs.key, key), eq(jobs.status, "pending")));
+		},
+
+		/**
+		 * Find the pending job with a key
+		 * @param key - The job key
+		 * @returns The job, or undefined when none is pending
+		 */
+		async findPending(key: string): Promise<Job | undefined> {
+			return baseModel.findFirst([
+				{ where: "key", equals: key },
+				{ where: "status", equals: "pending" },
+			]);
+		},
+
+		/**
+		 * Mark due jobs as running and return them, oldest first. Rows locked by a
+		 * concurrent claim are skipped, so two processes never run the same job.
+		 * @param now - Jobs with runAt at or before this time are due
+		 * @param limit - Maximum number of jobs to claim
+		 */
+		async claimDue(now: Date, limit: number): Promise<Job[]> {
+			const due = dbInstance
+				.select({ id: jobs.id })
+				.from(jobs)
+				.where(and(eq(jobs.status, "pending"), lte(jobs.runAt, now)))
+				.orderBy(asc(jobs.runAt))
+				.limit(limit)
+				.for("update", { skipLocked: true });
+
+			const claimed: Job[] = await dbInstance
+				.update(jobs)
+				.set({ status: "running", lockedAt: now, attempts: sql`${jobs.attempts} + 1`, updatedAt: now })
+				.where(inArray(jobs.id, due))
+				.returning();
+			return claimed.sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+		},
+
+		/**
+		 * Mark a claimed job as done. A job rescheduled while it ran stays pending.
+		 * @param id - The UUID of the job
+		 */
+		async complete(id: string) {
+			await dbInstance
+				.update(jobs)
+				.set({ status: "completed", lockedAt: null, lastError: null, updatedAt: new Date() })
+				.where(and(eq(jobs.id, id), eq(jobs.status, "running")));
+		},
+
+		/**
+		 * Record a failed run. With `retryAt` the job goes back to pending, otherwise it is marked failed.
+		 * @param id - The UUID of the job
+		 * @param error - Message stored in lastError
+		 * @param retryAt - When to try again
+		 */
+		async fail(id: string, error: string, retryAt: Date | null = null) {
+			await dbInstance
+				.update(jobs)
+				.set({
+					status: retryAt ? "pending" : "failed",
+					runAt: retryAt ?? undefined,
+					lockedAt: null,
+					lastError: error,
+					updatedAt: new Date(),
+				})
+				.where(and(eq(jobs.id, id), eq(jobs.status, "running")));
+		},
+
+		/**
+		 * Return jobs left running by a process that stopped mid-run to the queue
+		 * @param lockedBefore - Jobs claimed before this time are considered abandoned
+		 * @returns Number of jobs released
+		 */
+		async releaseStale(lockedBefore: Date): Promise<number> {
+			const released = await dbInstance
+				.update(jobs)
+				.set({ status: "pending", lockedAt: null, updatedAt: new Date() })
+				.where(and(eq(jobs.status, "running"), lt(jobs.lockedAt, lockedBefore)))
+				.returning({ id: jobs.id });
+			return released.length;
+		},
+	};
+}
+
+export function createWebhookModel(dbInstance: DatabaseInstance = db) {
+	const baseModel = createModel(webhooks, dbInstance);
+
+	return {
+		...baseModel,
+
+		/**
+		 * Find the active webhooks subscribed to an event
+		 * @param event - HookSystem action name, e.g. 'publish_post'
+		 * @returns Matching webhooks, oldest first
+		 * @example
+		 * const targets = await webhookModel.findSubscribed('new_comment');
+		 */
+		async findSubscribed(event: string) {
+			return baseModel.findManyWhere(
+				[
+					{ where: "active", equals: true },
+					{ sql: sql`${webhooks.events} @> ${JSON.stringify([event])}::jsonb` },
+				],
+				{ limit: 1000, orderBy: { property: "createdAt", order: "ascending" } },
+			);
+		},
+	};
+}
+
+export function createWebhookDeliveryModel(dbInstance: DatabaseInstance = db) {
+	const baseModel = createModel(webhookDeliveries, dbInstance);
+
+	return {
+		...baseModel,
+
+		/**
+		 * Delivery log of a webhook, newest first
+		 * @param webhookId - The UUID of the webhook
+		 * @param limit - Maximum number of deliveries to return
+		 */
+		async findByWebhook(webhookId: string, limit = 50) {
+			return baseModel.findManyWhere([{ where: "webhookId", equals: webhookId }], {
+				limit,
+				orderBy: { property: "createdAt", order: "descending" },
+			});
+		},
+	};
+}
+
+export function createEmailOutboxModel(dbInstance: DatabaseInstance = db) {
+	const baseModel = createModel(emailOutbox, dbInstance);
+
+	return {
+		...baseModel,
+
+		/**
+		 * Latest outbox messages, newest first
+		 * @param status - Only messages with this status, e.g. 'failed'
+		 * @param limit - Maximum number of messages to return
+		 * @example
+		 * const failures = await emailOutboxModel.findRecent('failed', 20);
+		 */
+		async findRecent(status?: string, limit = 50) {
+			return baseModel.findManyWhere(status ? [{ where: "status", equals: status }] : [], {
+				limit,
+				orderBy: { property: "createdAt", order: "descending" },
+			});
+		},
+	};
+}
+
 export function createThemeModel(dbInstance: DatabaseInstance = db) {
 	const baseModel = createModel(themes, dbInstance);
 	return {
@@ -297,6 +825,23 @@ export function createThemeModel(dbInstance: DatabaseInstance = db) {
 		async findByName(name: string) {
 			return baseModel.findFirst([{ where: "name", equals: name }]);
 		},
+		/**
+		 * Global styles of the active theme, or the defaults when no theme is active
+		 * @returns Validated global styles
+		 */
+		async getGlobalStyles(): Promise<GlobalStyles> {
+			return globalStylesOf(await this.findActiveTheme());
+		},
+		/**
+		 * Replace a theme's global styles (`settings.tokens`), keeping its other settings
+		 * @param id - Theme UUID
+		 * @param styles - Validated global styles
+		 */
+		async updateGlobalStyles(id: string, styles: GlobalStyles) {
+			const theme = await baseModel.findById(id);
+			if (!theme) return undefined;
+			return baseModel.update(id, { settings: { ...(theme.settings as object), tokens: styles } });
+		},
 	};
 }
 
@@ -357,6 +902,16 @@ export function createTemplateModel(dbInstance: DatabaseInstance = db) {
 			// Templates don't have priority property, return empty array for now
 			return [];
 		},
+		/**
+		 * Find the templates a theme package installed (`other.themeId`)
+		 * @param themeId - Theme UUID
+		 */
+		async findByTheme(themeId: string) {
+			return baseModel.findManyWhere([{ sql: sql`${templates.other}->>'themeId' = ${themeId}` }], {
+				limit: 1000,
+				orderBy: { property: "name", order: "ascending" },
+			});
+		},
 		async duplicate(id: string, newName: string) {
 			const original = await baseModel.findById(id);
 			if (!original) {
@@ -373,6 +928,116 @@ export function createTemplateModel(dbInstance: DatabaseInstance = db) {
 	};
 }
 
+export function createPatternModel(dbInstance: DatabaseInstance = db) {
+	const baseModel = createModel(patterns, dbInstance);
+	return {
+		...baseModel,
+
+		/**
+		 * Find several patterns at once; unknown IDs, and references that are not UUIDs, are skipped
+		 * @param ids - Pattern IDs
+		 * @returns The patterns found, in no particular order
+		 */
+		async findByIds(ids: string[]) {
+			const uuids = ids.filter((id) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id));
+			if (uuids.length === 0) return [];
+			return baseModel.findManyWhere([{ where: "id", in: uuids }]);
+		},
+
+		/**
+		 * Find the patterns a theme package installed (`other.themeId`)
+		 * @param themeId - Theme UUID
+		 */
+		async findByTheme(themeId: string) {
+			return baseModel.findManyWhere([{ sql: sql`${patterns.other}->>'themeId' = ${themeId}` }], {
+				limit: 1000,
+				orderBy: { property: "name", order: "ascending" },
+			});
+		},
+
+		/**
+		 * Create a pattern from an export file entry, or update the pattern with the same name
+		 * @param entry - Pattern as found in an export file
+		 * @param authorId - Author of a newly created pattern
+		 * @param other - Extra data stored with the pattern, e.g. the theme that shipped it
+		 * @returns The saved pattern and whether it is new
+		 */
+		async importEntry(entry: PatternExportEntry, authorId: string, other?: Record<string, unknown>) {
+			const existing = await baseModel.findFirst([{ where: "name", equals: entry.name }]);
+			const data = { ...entry, ...(other && { other: { ...(existing?.other as object), ...other } }) };
+			const pattern = existing
+				? await baseModel.update(existing.id, data)
+				: await baseModel.create({ ...data, authorId });
+			return { pattern, created: !existing };
+		},
+
+		/**
+		 * Build a filter matching patterns whose name, description or keywords contain every word of a query
+		 * @param query - Text typed by the user
+		 * @returns SQL filter usable with the patterns model's findManyWhere and count
+		 * @example
+		 * const heroes = await models.patterns.findManyWhere([patternModel.searchFilter('hero banner')]);
+		 */
+		searchFilter(query: string): SQLFilter {
+			const terms = query.split(/\s+/).filter(Boolean);
+			return {
+				sql: and(
+					...terms.map((term) => {
+						const needle = `%${term}%`;
+						return or(
+							sql`${patterns.name} ilike ${needle}`,
+							sql`${patterns.description} ilike ${needle}`,
+							sql`${patterns.keywords}::text ilike ${needle}`,
+						);
+					}),
+				) as SQL,
+			};
+		},
+
+		/**
+		 * Find the pages, posts, templates and other patterns that embed a pattern
+		 * @param patternId - Pattern to look for
+		 * @returns One entry per record with a block reference to the pattern
+		 * @example
+		 * const usage = await patternModel.findUsage(pattern.id);
+		 */
+		async findUsage(patternId: string): Promise<PatternUsage[]> {
+			// The text match narrows the scan; walking the blocks confirms it is a reference
+			const needle = `%${patternId}%`;
+			const [pageRows, postRows, templateRows, patternRows] = await Promise.all([
+				dbInstance
+					.select({ id: pages.id, title: pages.title, slug: pages.slug, blocks: pages.blocks })
+					.from(pages)
+					.where(sql`${pages.blocks}::text like ${needle}`),
+				dbInstance
+					.select({ id: posts.id, title: posts.title, slug: posts.slug, blocks: posts.blocks })
+					.from(posts)
+					.where(sql`${posts.blocks}::text like ${needle}`),
+				dbInstance
+					.select({ id: templates.id, title: templates.name, blocks: templates.blocks })
+					.from(templates)
+					.where(sql`${templates.blocks}::text like ${needle}`),
+				dbInstance
+					.select({ id: patterns.id, title: patterns.name, blocks: patterns.blocks })
+					.from(patterns)
+					.where(sql`${patterns.blocks}::text like ${needle}`),
+			]);
+
+			const usage = (type: PatternUsage["type"], rows: Array<{ id: string; title: string; slug?: string; blocks: unknown }>) =>
+				rows
+					.filter((row) => referencesPattern(row.blocks, patternId))
+					.map((row): PatternUsage => ({ type, id: row.id, title: row.title, slug: row.slug ?? null }));
+
+			return [
+				...usage("page", pageRows),
+				...usage("post", postRows),
+				...usage("template", templateRows),
+				...usage("pattern", patternRows),
+			];
+		},
+	};
+}
+
 export function createRoleModel(dbInstance: DatabaseInstance = db) {
 	const baseModel = createModel(roles, dbInstance);
 	return {
@@ -382,7 +1047,7 @@ export function createRoleModel(dbInstance: DatabaseInstance = db) {
 		},
 		async findDefaultRoles() {
 			return baseModel.findManyWhere([
-				{ where: "name", in: ["admin", "editor", "subscriber"] },
+				{ where: "name", in: DEFAULT_ROLES.map((role) => role.name) },
 			]);
 		},
 	};
@@ -398,6 +1063,20 @@ export function createUserRoleModel(dbInstance: DatabaseInstance = db) {
 		async findBySite(siteId: string) {
 			return baseModel.findManyWhere([{ where: "siteId", equals: siteId }]);
 		},
+		/**
+		 * Find the role assignments a user holds on a specific site
+		 * @param userId - The UUID of the user
+		 * @param siteId - The UUID of the site
+		 * @returns Array of user role rows for that user and site
+		 * @example
+		 * const assignments = await userRoleModel.findByUserAndSite(userId, siteId);
+		 */
+		async findByUserAndSite(userId: string, siteId: string) {
+			return baseModel.findManyWhere([
+				{ where: "userId", equals: userId },
+				{ where: "siteId", equals: siteId },
+			]);
+		},
 		async assignRole(userId: string, roleId: string, siteId: string) {
 			// Check if role already assigned
 			const existing = await baseModel.findFirst([
@@ -527,13 +1206,20 @@ export const models = {
 	// Specialized models
 	users: createUserModel(),
 	posts: createPostModel(),
+	terms: createTermModel(),
+	searchIndex: createSearchIndexModel(),
 	comments: createCommentModel(),
 	pages: createPageModel(),
 	media: createMediaModel(),
+	jobs: createJobModel(),
+	webhooks: createWebhookModel(),
+	webhookDeliveries: createWebhookDeliveryModel(),
+	emailOutbox: createEmailOutboxModel(),
 	themes: createThemeModel(),
 	plugins: createPluginModel(),
 	options: createOptionModel(),
 	templates: createTemplateModel(),
+	patterns: createPatternModel(),
 	roles: createRoleModel(),
 	userRoles: createUserRoleModel(),
 	sites: createSiteModel(),
@@ -546,13 +1232,20 @@ export const modelFactories = {
 
 	users: createUserModel,
 	posts: createPostModel,
+	terms: createTermModel,
+	searchIndex: createSearchIndexModel,
 	comments: createCommentModel,
 	pages: createPageModel,
 	media: createMediaModel,
+	jobs: createJobModel,
+	webhooks: createWebhookModel,
+	webhookDeliveries: createWebhookDeliveryModel,
+	emailOutbox: createEmailOutboxModel,
 	themes: createThemeModel,
 	plugins: createPluginModel,
 	options: createOptionModel,
 	templates: createTemplateModel,
+	patterns: createPatternModel,
 	roles: createRoleModel,
 	userRoles: createUserRoleModel,
 	sites: createSiteModel,
@@ -3,7 +3,17 @@
  * Supports both template-level and block-level conditions with AND/OR logic.
  */
 
-import type { DisplayCondition, ConditionTypeDefinition, RenderContext } from "./types";
+import type { DisplayCondition, ConditionTypeDefinition, PostTermRef, RenderContext } from "./types";
+
+/** Checks whether a category/tag list contains a term, matched by name or slug */
+function hasTerm(terms: Array<string | PostTermRef> | undefined, value: string): boolean {
+  const wanted = value.toLowerCase();
+  return (terms ?? []).some((term) =>
+    typeof term === "string"
+      ? term.toLowerCase() === wanted
+      : term.name.toLowerCase() === wanted || term.slug.toLowerCase() === wanted,
+  );
+}
 
 /** All available condition types */
 const conditionTypes: ConditionTypeDefinition[] = [
@@ -43,8 +53,24 @@ const conditionTypes: ConditionTypeDefinition[] = [
     description: "Show on archive or listing pages",
     hasValue: false,
     evaluate: (ctx, operator) => {
-      const path = ctx.request?.path ?? "";
-      const result = path.includes("/category") || path.includes("/tag") || path.includes("/archive");
+      const result = !!ctx.archive;
+      return operator === "is" ? result : !result;
+    },
+  },
+  {
+    type: "archive_type",
+    label: "Archive Type",
+    description: "Show on a specific kind of archive",
+    hasValue: true,
+    valueType: "select",
+    valueOptions: [
+      { value: "category", label: "Category" },
+      { value: "tag", label: "Tag" },
+      { value: "author", label: "Author" },
+      { value: "date", label: "Date" },
+    ],
+    evaluate: (ctx, operator, value) => {
+      const result = !!ctx.archive && ctx.archive.type === value;
       return operator === "is" ? result : !result;
     },
   },
@@ -81,26 +107,24 @@ const conditionTypes: ConditionTypeDefinition[] = [
   {
     type: "post_in_category",
     label: "Post In Category",
-    description: "Show if the current post belongs to a specific category",
+    description: "Show if the current post belongs to a specific category (name or slug)",
     hasValue: true,
     valueType: "text",
     evaluate: (ctx, operator, value) => {
       if (!value) return operator === "is_not";
-      const categories = (ctx.post?.categories as string[]) ?? [];
-      const result = categories.some((cat) => cat.toLowerCase() === value.toLowerCase());
+      const result = hasTerm(ctx.post?.categories, value);
       return operator === "is" ? result : !result;
     },
   },
   {
     type: "post_has_tag",
     label: "Post Has Tag",
-    description: "Show if the current post has a specific tag",
+    description: "Show if the current post has a specific tag (name or slug)",
     hasValue: true,
     valueType: "text",
     evaluate: (ctx, operator, value) => {
       if (!value) return operator === "is_not";
-      const tags = (ctx.post?.tags as string[]) ?? [];
-      const result = tags.some((tag) => tag.toLowerCase() === value.toLowerCase());
+      const result = hasTerm(ctx.post?.tags, value);
       return operator === "is" ? result : !result;
     },
   },
@@ -7,6 +7,7 @@ export type {
   VariableDefinition,
   VariableNamespace,
   RenderContext,
+  ArchiveContext,
   DisplayCondition,
   ConditionTypeDefinition,
 } from "./types";
@@ -4,7 +4,7 @@
  */
 
 import type { Request } from "express";
-import type { RenderContext } from "./types";
+import type { ArchiveContext, PostTermRef, RenderContext } from "./types";
 
 interface BuildContextOptions {
   /** Site configuration data */
@@ -25,8 +25,8 @@ interface BuildContextOptions {
     excerpt?: string;
     content?: string;
     author?: string;
-    categories?: string[];
-    tags?: string[];
+    categories?: Array<string | PostTermRef>;
+    tags?: Array<string | PostTermRef>;
     featuredImage?: string;
     url?: string;
     [key: string]: unknown;
@@ -48,12 +48,14 @@ interface BuildContextOptions {
     url?: string;
     [key: string]: string | undefined;
   };
+  /** Archive being listed (if rendering a category, tag, author or date archive) */
+  archive?: ArchiveContext;
 }
 
 /**
  * Build a render context from an Express request and optional data.
  * @param req - Express request object
- * @param options - Optional data overrides for site, post, page, author
+ * @param options - Optional data overrides for site, post, page, author, archive
  * @returns A complete render context for variable resolution and condition evaluation
  */
 export function buildRenderContext(
@@ -67,6 +69,7 @@ export function buildRenderContext(
     post: options.post,
     page: options.page,
     author: options.author,
+    archive: options.archive,
     user: user
       ? {
           id: user.id,
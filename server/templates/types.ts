@@ -19,6 +19,30 @@ export interface VariableNamespace {
   resolve: (context: RenderContext) => Record<string, string>;
 }
 
+/** Category or tag of the current post, as stored in the terms table */
+export interface PostTermRef {
+  id?: string;
+  name: string;
+  slug: string;
+}
+
+/** Archive listing being rendered (category, tag, author or month) */
+export interface ArchiveContext {
+  type: "category" | "tag" | "author" | "date";
+  /** Display title, e.g. the category name or "March 2026" */
+  title: string;
+  description?: string;
+  /** Term slug or author username; empty for date archives */
+  slug?: string;
+  year?: number;
+  month?: number;
+  /** 1-based page number */
+  page: number;
+  totalPages: number;
+  totalPosts: number;
+  url: string;
+}
+
 /** Context passed during template rendering */
 export interface RenderContext {
   site?: {
@@ -37,8 +61,8 @@ export interface RenderContext {
     excerpt?: string;
     content?: string;
     author?: string;
-    categories?: string[];
-    tags?: string[];
+    categories?: Array<string | PostTermRef>;
+    tags?: Array<string | PostTermRef>;
     featuredImage?: string;
     url?: string;
     [key: string]: unknown;
@@ -65,6 +89,7 @@ export interface RenderContext {
     role?: string;
     isLoggedIn?: boolean;
   };
+  archive?: ArchiveContext;
   request?: {
     url?: string;
     path?: string;
@@ -88,6 +88,33 @@ const authorNamespace: VariableNamespace = {
   }),
 };
 
+/** Archive listing variables */
+const archiveNamespace: VariableNamespace = {
+  name: "archive",
+  label: "Archive",
+  description: "Current category, tag, author or date archive",
+  variables: [
+    { key: "title", label: "Archive Title", description: "Term name, author name or month", example: "News" },
+    { key: "description", label: "Archive Description", description: "The term description or author bio", example: "Company announcements" },
+    { key: "type", label: "Archive Type", description: "category, tag, author or date", example: "category" },
+    { key: "slug", label: "Archive Slug", description: "Term slug or author username", example: "news" },
+    { key: "url", label: "Archive URL", description: "The archive permalink", example: "https://example.com/category/news" },
+    { key: "page", label: "Page Number", description: "Current page of the listing", example: "2" },
+    { key: "total_pages", label: "Total Pages", description: "Number of listing pages", example: "5" },
+    { key: "total_posts", label: "Total Posts", description: "Number of posts in the archive", example: "42" },
+  ],
+  resolve: (ctx) => ({
+    "archive.title": ctx.archive?.title ?? "",
+    "archive.description": ctx.archive?.description ?? "",
+    "archive.type": ctx.archive?.type ?? "",
+    "archive.slug": ctx.archive?.slug ?? "",
+    "archive.url": ctx.archive?.url ?? "",
+    "archive.page": ctx.archive ? String(ctx.archive.page) : "",
+    "archive.total_pages": ctx.archive ? String(ctx.archive.totalPages) : "",
+    "archive.total_posts": ctx.archive ? String(ctx.archive.totalPosts) : "",
+  }),
+};
+
 /** Date/time variables */
 const dateNamespace: VariableNamespace = {
   name: "date",
@@ -118,6 +145,7 @@ const namespaces: VariableNamespace[] = [
   postNamespace,
   pageNamespace,
   authorNamespace,
+  archiveNamespace,
   dateNamespace,
 ];
 
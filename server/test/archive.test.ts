@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_ARCHIVE_BLOCKS,
+  archivePageUrl,
+  buildArchiveBlocks,
+  dateArchiveTitle,
+  monthRange,
+  renderArchivePosts,
+  selectArchiveTemplate,
+} from '../archive';
+import type { ArchiveContext, RenderContext } from '../templates';
+import type { Template } from '@shared/schema-types';
+
+const archive: ArchiveContext = {
+  type: 'category',
+  title: 'News & Notes',
+  slug: 'news',
+  page: 2,
+  totalPages: 3,
+  totalPosts: 25,
+  url: 'https://example.com/category/news',
+};
+
+const context: RenderContext = {
+  site: { title: 'Example' },
+  archive,
+  user: { isLoggedIn: false },
+  request: { url: '/category/news?page=2', path: '/category/news', device: 'desktop' },
+};
+
+function template(id: string, displayConditions?: unknown[]): Template {
+  return {
+    id,
+    name: id,
+    type: 'archive',
+    blocks: [],
+    settings: displayConditions ? { displayConditions } : {},
+  } as unknown as Template;
+}
+
+describe('archive helpers', () => {
+  it('formats month titles and UTC ranges', () => {
+    expect(dateArchiveTitle(2026, 3)).toBe('March 2026');
+    const { start, end } = monthRange(2026, 12);
+    expect(start.toISOString()).toBe('2026-12-01T00:00:00.000Z');
+    expect(end.toISOString()).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  it('adds ?page only after the first page', () => {
+    expect(archivePageUrl(archive.url, 1)).toBe(archive.url);
+    expect(archivePageUrl(archive.url, 3)).toBe(`${archive.url}?page=3`);
+  });
+});
+
+describe('selectArchiveTemplate', () => {
+  it('prefers a template whose conditions match over a generic one', () => {
+    const generic = template('generic');
+    const tags = template('tags', [{ id: 'c1', type: 'archive_type', operator: 'is', value: 'tag' }]);
+    const categories = template('categories', [{ id: 'c2', type: 'archive_type', operator: 'is', value: 'category' }]);
+
+    expect(selectArchiveTemplate([generic, tags, categories], context)?.id).toBe('categories');
+    expect(selectArchiveTemplate([generic, tags], context)?.id).toBe('generic');
+    expect(selectArchiveTemplate([tags], context)).toBeUndefined();
+  });
+});
+
+describe('renderArchivePosts', () => {
+  it('escapes post fields and links neighbouring pages', () => {
+    const html = renderArchivePosts([{ title: 'Hello <World>', url: 'https://example.com/post/hello' }], archive);
+
+    expect(html).toContain('<a href="https://example.com/post/hello">Hello &lt;World&gt;</a>');
+    expect(html).toContain('<a rel="prev" href="https://example.com/category/news">Newer posts</a>');
+    expect(html).toContain('<a rel="next" href="https://example.com/category/news?page=3">Older posts</a>');
+  });
+
+  it('renders an empty state', () => {
+    expect(renderArchivePosts([], archive)).toContain('No posts found.');
+  });
+});
+
+describe('buildArchiveBlocks', () => {
+  it('resolves archive variables, drops empty text and fills the post list', () => {
+    const blocks = buildArchiveBlocks(DEFAULT_ARCHIVE_BLOCKS, context, '<section>list</section>');
+
+    expect(blocks.map((block) => block.id)).toEqual(['archive-title', 'archive-posts']);
+    expect(blocks[0].content).toMatchObject({ kind: 'text', value: 'News & Notes' });
+    expect(blocks[1].other).toMatchObject({ html: '<section>list</section>' });
+  });
+
+  it('appends the post list when the template has none', () => {
+    const blocks = buildArchiveBlocks(DEFAULT_ARCHIVE_BLOCKS.slice(0, 1), context, '<section>list</section>');
+
+    expect(blocks).toHaveLength(2);
+    expect(blocks[1]).toMatchObject({ name: 'post/list', other: { html: '<section>list</section>' } });
+  });
+});
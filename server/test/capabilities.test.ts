@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Request, Response } from 'express';
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { testDb } from './setup';
+import { modelFactories } from '../storage';
+import { buildCapabilityGuards, type CapabilityOptions } from '../routes/shared/deps';
+import { blogs, pages, posts, roles, sites, userRoles, users } from '@shared/schema';
+import { ALL_CAPABILITY_NAMES } from '@shared/capabilities';
+
+const ownerId = '2f6c1d8e-4b3a-4e5f-8a9b-0c1d2e3f0001';
+const editorId = '2f6c1d8e-4b3a-4e5f-8a9b-0c1d2e3f0002';
+const authorId = '2f6c1d8e-4b3a-4e5f-8a9b-0c1d2e3f0003';
+const siteA = '2f6c1d8e-4b3a-4e5f-8a9b-0c1d2e3f0011';
+const siteB = '2f6c1d8e-4b3a-4e5f-8a9b-0c1d2e3f0012';
+const editorRole = '2f6c1d8e-4b3a-4e5f-8a9b-0c1d2e3f0021';
+const authorRole = '2f6c1d8e-4b3a-4e5f-8a9b-0c1d2e3f0022';
+const blogB = '2f6c1d8e-4b3a-4e5f-8a9b-0c1d2e3f0031';
+const ownPageA = '2f6c1d8e-4b3a-4e5f-8a9b-0c1d2e3f0041';
+const editorsPageA = '2f6c1d8e-4b3a-4e5f-8a9b-0c1d2e3f0042';
+const pageB = '2f6c1d8e-4b3a-4e5f-8a9b-0c1d2e3f0043';
+const ownPostA = '2f6c1d8e-4b3a-4e5f-8a9b-0c1d2e3f0051';
+const editorsPostA = '2f6c1d8e-4b3a-4e5f-8a9b-0c1d2e3f0052';
+const postB = '2f6c1d8e-4b3a-4e5f-8a9b-0c1d2e3f0053';
+
+const models = {
+  sites: modelFactories.sites(testDb),
+  roles: modelFactories.roles(testDb),
+  userRoles: modelFactories.userRoles(testDb),
+  pages: modelFactories.pages(testDb),
+  posts: modelFactories.posts(testDb),
+  blogs: modelFactories.blogs(testDb),
+};
+
+const { requireCapability, userCan } = buildCapabilityGuards(models);
+
+// The record lookups the pages and posts routes pass to requireCapability
+const pageOptions = (others: string): CapabilityOptions => ({
+  others,
+  ownerOf: async (req) => (await models.pages.findById(req.params.id))?.authorId,
+  siteOf: async (req) => (await models.pages.findById(req.params.id))?.siteId,
+});
+const postOptions = (others: string): CapabilityOptions => ({
+  others,
+  ownerOf: async (req) => (await models.posts.findById(req.params.id))?.authorId,
+  siteOf: async (req) => {
+    const post = await models.posts.findById(req.params.id);
+    if (!post) return undefined;
+    const blog = post.blogId ? await models.blogs.findById(post.blogId) : undefined;
+    return blog?.siteId ?? (await models.sites.findDefaultSite())?.id;
+  },
+});
+
+interface Call {
+  userId?: string;
+  id?: string;
+  headers?: Record<string, string>;
+  query?: Record<string, string>;
+  body?: Record<string, unknown>;
+}
+
+function request({ userId, id, headers = {}, query = {}, body = {} }: Call) {
+  return {
+    session: userId ? { localUser: { id: userId } } : {},
+    params: id ? { id } : {},
+    query,
+    body,
+    get: (name: string) => headers[name.toLowerCase()],
+  } as unknown as Request;
+}
+
+/** Runs the guard and resolves with 'next' or the status it answered with */
+function guard(capability: string, options: CapabilityOptions | undefined, call: Call): Promise<number | 'next'> {
+  return new Promise((resolve, reject) => {
+    const res = {
+      status: (code: number) => ({ json: () => resolve(code) }),
+    } as unknown as Response;
+    requireCapability(capability, options)(request(call), res, (error?: unknown) =>
+      error ? reject(error) : resolve('next')
+    );
+  });
+}
+
+beforeAll(async () => {
+  await testDb.insert(users).values([
+    { id: ownerId, username: 'owner', email: 'owner@example.com' },
+    { id: editorId, username: 'editor', email: 'editor@example.com' },
+    { id: authorId, username: 'author', email: 'author@example.com' },
+  ]);
+  await testDb.insert(sites).values([
+    { id: siteA, ownerId, isDefault: true },
+    { id: siteB, ownerId },
+  ]);
+  await testDb.insert(roles).values([
+    {
+      id: editorRole,
+      name: 'editor',
+      capabilities: ['edit_pages', 'edit_others_pages', 'edit_posts', 'edit_others_posts', 'delete_pages'],
+    },
+    { id: authorRole, name: 'author', capabilities: ['edit_pages', 'edit_posts', 'delete_posts'] },
+  ]);
+  // The editor edits site A; the author writes for site A and edits everything on site B
+  await testDb.insert(userRoles).values([
+    { userId: editorId, roleId: editorRole, siteId: siteA },
+    { userId: authorId, roleId: authorRole, siteId: siteA },
+    { userId: authorId, roleId: editorRole, siteId: siteB },
+  ]);
+  await testDb.insert(blogs).values({ id: blogB, name: 'B', slug: 'b', authorId: ownerId, siteId: siteB });
+  await testDb.insert(pages).values([
+    { id: ownPageA, title: 'Own', slug: 'own', siteId: siteA, authorId },
+    { id: editorsPageA, title: 'Editors', slug: 'editors', siteId: siteA, authorId: editorId },
+    { id: pageB, title: 'B', slug: 'b', siteId: siteB, authorId: editorId },
+  ]);
+  await testDb.insert(posts).values([
+    { id: ownPostA, title: 'Own', slug: 'own-post', authorId },
+    { id: editorsPostA, title: 'Editors', slug: 'editors-post', authorId: editorId },
+    { id: postB, title: 'B', slug: 'b-post', authorId: editorId, blogId: blogB },
+  ]);
+});
+
+afterAll(async () => {
+  await testDb.delete(posts);
+  await testDb.delete(blogs);
+  await testDb.delete(pages);
+  await testDb.delete(userRoles);
+  await testDb.delete(roles);
+  await testDb.delete(sites);
+  await testDb.delete(users);
+});
+
+describe('requireCapability', () => {
+  it('answers 401 without a session and 403 without the capability', async () => {
+    expect(await guard('edit_pages', undefined, {})).toBe(401);
+    expect(await guard('manage_settings', undefined, { userId: editorId })).toBe(403);
+    expect(await guard('edit_pages', undefined, { userId: editorId })).toBe('next');
+  });
+
+  it('gives site owners every capability', async () => {
+    expect(await guard('manage_settings', undefined, { userId: ownerId })).toBe('next');
+    expect(await guard('manage_settings', undefined, { userId: ownerId, headers: { 'x-site-id': siteB } })).toBe('next');
+  });
+
+  it('resolves the site from the header, the query or the body', async () => {
+    expect(await guard('edit_others_pages', undefined, { userId: authorId })).toBe(403);
+    expect(await guard('edit_others_pages', undefined, { userId: authorId, headers: { 'x-site-id': siteB } })).toBe('next');
+    expect(await guard('edit_others_pages', undefined, { userId: authorId, query: { siteId: siteB } })).toBe('next');
+    expect(await guard('edit_others_pages', undefined, { userId: authorId, body: { siteId: siteB } })).toBe('next');
+    expect(await userCan(request({ userId: authorId }), 'edit_others_pages', siteB)).toBe(true);
+  });
+
+  it('lets authors edit their own pages and posts but requires others for the rest', async () => {
+    expect(await guard('edit_pages', pageOptions('edit_others_pages'), { userId: authorId, id: ownPageA })).toBe('next');
+    expect(await guard('edit_pages', pageOptions('edit_others_pages'), { userId: authorId, id: editorsPageA })).toBe(403);
+    expect(await guard('edit_pages', pageOptions('edit_others_pages'), { userId: editorId, id: ownPageA })).toBe('next');
+
+    expect(await guard('edit_posts', postOptions('edit_others_posts'), { userId: authorId, id: ownPostA })).toBe('next');
+    expect(await guard('edit_posts', postOptions('edit_others_posts'), { userId: authorId, id: editorsPostA })).toBe(403);
+    expect(await guard('edit_posts', postOptions('edit_others_posts'), { userId: editorId, id: ownPostA })).toBe('next');
+    expect(await guard('delete_posts', postOptions('delete_others_posts'), { userId: authorId, id: editorsPostA })).toBe(
+      403
+    );
+  });
+
+  it("checks capabilities on the record's site, not the one the request names", async () => {
+    // A role on site B doesn't reach site A's records by naming site B
+    const onB = { 'x-site-id': siteB };
+    expect(await guard('edit_pages', pageOptions('edit_others_pages'), { userId: authorId, id: editorsPageA, headers: onB })).toBe(400);
+    expect(await guard('edit_pages', pageOptions('edit_others_pages'), { userId: authorId, id: editorsPageA, body: { siteId: siteB } })).toBe(400);
+
+    // ...and without naming a site, the record's site decides
+    expect(await guard('edit_pages', pageOptions('edit_others_pages'), { userId: authorId, id: pageB })).toBe('next');
+    expect(await guard('edit_pages', pageOptions('edit_others_pages'), { userId: editorId, id: pageB })).toBe(403);
+    expect(await guard('edit_posts', postOptions('edit_others_posts'), { userId: authorId, id: postB })).toBe('next');
+    expect(await guard('edit_posts', postOptions('edit_others_posts'), { userId: editorId, id: postB })).toBe(403);
+    expect(await guard('edit_posts', postOptions('edit_others_posts'), { userId: editorId, id: postB, headers: { 'x-site-id': siteA } })).toBe(400);
+  });
+
+  it('checks global routes on the default site, whatever site the request names', async () => {
+    // The author's site B role doesn't reach install-wide resources
+    const global = { global: true };
+    expect(await guard('edit_others_pages', global, { userId: authorId, headers: { 'x-site-id': siteB } })).toBe(403);
+    expect(await guard('edit_others_pages', global, { userId: authorId, query: { siteId: siteB } })).toBe(403);
+    expect(await guard('edit_others_pages', global, { userId: editorId, headers: { 'x-site-id': siteB } })).toBe('next');
+    expect(await guard('manage_settings', global, { userId: ownerId, body: { siteId: siteB } })).toBe('next');
+  });
+});
+
+describe('route capabilities', () => {
+  it('only names capabilities from the catalog, which roles can grant', async () => {
+    const directory = fileURLToPath(new URL('../routes', import.meta.url));
+    const files = (await readdir(directory, { recursive: true })).filter((file) => file.endsWith('.ts'));
+    const named = new Set<string>();
+    for (const file of files) {
+      const source = await readFile(path.join(directory, file), 'utf8');
+      Array.from(source.matchAll(/(?:requireCapability\(|userCan\(req, |others: )'([a-z_]+)'/g)).forEach((match) =>
+        named.add(match[1])
+      );
+    }
+
+    expect(named).toContain('manage_settings');
+    expect(Array.from(named).filter((name) => !ALL_CAPABILITY_NAMES.includes(name))).toEqual([]);
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import WebSocket from 'ws';
+import { CollaborationHub } from '../collaboration';
+import { HookSystem } from '../hooks';
+import { COLLABORATION_PATH, type CollaborationServerMessage } from '@shared/collaboration';
+import type { BlockConfig } from '@shared/schema-types';
+
+const block = (id: string, overrides: Partial<BlockConfig> = {}): BlockConfig => ({
+  id,
+  name: 'core/paragraph',
+  type: 'block',
+  parentId: null,
+  content: { kind: 'text', value: id },
+  ...overrides,
+});
+
+interface Editor {
+  socket: WebSocket;
+  /** Resolves with the next message of a type, including ones already received */
+  next: <T extends CollaborationServerMessage['type']>(
+    type: T
+  ) => Promise<Extract<CollaborationServerMessage, { type: T }>>;
+  send: (message: unknown) => void;
+}
+
+let server: Server;
+let hub: CollaborationHub;
+let hookSystem: HookSystem;
+let pages: Record<string, BlockConfig[]>;
+let editors: WebSocket[];
+
+function connect(pageId: string, user = 'alice'): Promise<Editor> {
+  const { port } = server.address() as AddressInfo;
+  const socket = new WebSocket(`ws://127.0.0.1:${port}${COLLABORATION_PATH}?pageId=${pageId}&user=${user}`);
+  editors.push(socket);
+
+  const received: CollaborationServerMessage[] = [];
+  const waiting: Array<{ type: string; resolve: (message: any) => void }> = [];
+  socket.on('message', (data) => {
+    const message = JSON.parse(data.toString()) as CollaborationServerMessage;
+    const index = waiting.findIndex((waiter) => waiter.type === message.type);
+    if (index >= 0) waiting.splice(index, 1)[0].resolve(message);
+    else received.push(message);
+  });
+
+  const editor: Editor = {
+    socket,
+    next: (type) =>
+      new Promise((resolve) => {
+        const index = received.findIndex((message) => message.type === type);
+        if (index >= 0) resolve(received.splice(index, 1)[0] as any);
+        else waiting.push({ type, resolve });
+      }),
+    send: (message) => socket.send(JSON.stringify(message)),
+  };
+
+  return new Promise((resolve, reject) => {
+    socket.once('open', () => resolve(editor));
+    socket.once('unexpected-response', (_req, res) => reject(new Error(`HTTP ${res.statusCode}`)));
+  });
+}
+
+beforeEach(async () => {
+  pages = { home: [block('a'), block('b')] };
+  editors = [];
+  hookSystem = new HookSystem();
+  hub = new CollaborationHub({
+    authorize: async (req) => {
+      const user = new URL(req.url ?? '/', 'http://localhost').searchParams.get('user');
+      return user === 'mallory' ? null : { userId: `${user}-id`, name: String(user), avatarUrl: null };
+    },
+    loadBlocks: async (pageId) => pages[pageId] ?? null,
+    heartbeatInterval: 60_000,
+  });
+  hub.listen(hookSystem);
+  server = createServer();
+  hub.attach(server);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+});
+
+afterEach(async () => {
+  editors.filter((socket) => socket.readyState === WebSocket.OPEN).forEach((socket) => socket.terminate());
+  hub.close();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('CollaborationHub', () => {
+  it('welcomes editors with the saved blocks and announces who is present', async () => {
+    const alice = await connect('home', 'alice');
+    const welcome = await alice.next('welcome');
+    expect(welcome.blocks.map((b) => b.id)).toEqual(['a', 'b']);
+    expect(welcome.peers).toHaveLength(1);
+    await alice.next('presence');
+
+    const bob = await connect('home', 'bob');
+    expect((await bob.next('welcome')).peers.map((p) => p.name)).toEqual(['alice', 'bob']);
+    const presence = await alice.next('presence');
+    expect(presence.peers.map((p) => p.name)).toEqual(['alice', 'bob']);
+    expect(new Set(presence.peers.map((p) => p.color)).size).toBe(2);
+  });
+
+  it('refuses unknown pages and unauthorized users', async () => {
+    await expect(connect('missing')).rejects.toThrow('HTTP 404');
+    await expect(connect('home', 'mallory')).rejects.toThrow('HTTP 403');
+  });
+
+  it('broadcasts operations in order to every editor, the sender included', async () => {
+    const alice = await connect('home', 'alice');
+    await alice.next('welcome');
+    const bob = await connect('home', 'bob');
+    await bob.next('welcome');
+
+    alice.send({ type: 'op', op: { opId: 'o1', kind: 'update', id: 'a', changes: { styles: { color: 'red' } } } });
+    bob.send({ type: 'op', op: { opId: 'o2', kind: 'move', id: 'b', parentId: null, afterId: null } });
+
+    const first = await alice.next('op');
+    const second = await alice.next('op');
+    expect([first.seq, second.seq]).toEqual([1, 2]);
+    expect((await bob.next('op')).op.opId).toBe(first.op.opId);
+
+    const carol = await connect('home', 'carol');
+    const welcome = await carol.next('welcome');
+    expect(welcome.seq).toBe(2);
+    expect(welcome.blocks.map((b) => b.id)).toEqual(['b', 'a']);
+    expect(welcome.blocks[1].styles).toEqual({ color: 'red' });
+  });
+
+  it('rejects operations on a block another editor has selected', async () => {
+    const alice = await connect('home', 'alice');
+    await alice.next('welcome');
+    const bob = await connect('home', 'bob');
+    await bob.next('welcome');
+
+    alice.send({ type: 'select', blockId: 'a' });
+    await bob.next('presence');
+    const locked = await bob.next('presence');
+    expect(locked.peers.find((p) => p.name === 'alice')?.blockId).toBe('a');
+
+    bob.send({ type: 'op', op: { opId: 'o1', kind: 'delete', id: 'a' } });
+    expect(await bob.next('rejected')).toEqual({ type: 'rejected', opId: 'o1', reason: 'Being edited by alice' });
+
+    // Selecting a locked block does not take the lock
+    bob.send({ type: 'select', blockId: 'a' });
+    expect((await bob.next('presence')).peers.find((p) => p.name === 'bob')?.blockId).toBeNull();
+
+    // Leaving releases the lock
+    alice.socket.close();
+    const left = await bob.next('presence');
+    expect(left.peers.map((p) => p.name)).toEqual(['bob']);
+    bob.send({ type: 'op', op: { opId: 'o2', kind: 'delete', id: 'a' } });
+    expect((await bob.next('op')).op.opId).toBe('o2');
+  });
+
+  it('takes unsaved blocks from the first editor only', async () => {
+    const alice = await connect('home', 'alice');
+    await alice.next('welcome');
+    alice.send({ type: 'sync', blocks: [block('draft')] });
+
+    const bob = await connect('home', 'bob');
+    expect((await bob.next('welcome')).blocks.map((b) => b.id)).toEqual(['draft']);
+    bob.send({ type: 'sync', blocks: [] });
+
+    const carol = await connect('home', 'carol');
+    expect((await carol.next('welcome')).blocks.map((b) => b.id)).toEqual(['draft']);
+  });
+
+  it('tells editors when the page is saved', async () => {
+    const alice = await connect('home', 'alice');
+    await alice.next('welcome');
+
+    await hookSystem.doActionAsync('save_post', { id: 'home', version: 4, updatedAt: new Date('2026-05-01T00:00:00Z') });
+    expect(await alice.next('saved')).toEqual({ type: 'saved', version: 4, updatedAt: '2026-05-01T00:00:00.000Z' });
+  });
+
+  it('answers malformed messages with an error', async () => {
+    const alice = await connect('home', 'alice');
+    await alice.next('welcome');
+
+    alice.send({ type: 'op', op: { kind: 'explode' } });
+    expect((await alice.next('error')).message).toBe('Invalid message');
+  });
+
+  it('refuses malformed operations and keeps serving the room', async () => {
+    const alice = await connect('home', 'alice');
+    await alice.next('welcome');
+
+    for (const op of [
+      { opId: '1', kind: 'update', id: 'a' },
+      { opId: '2', kind: 'update', id: 'a', changes: 'text' },
+      { opId: '3', kind: 'insert', block: { id: 'c' }, parentId: 7, afterId: null },
+      { opId: '4', kind: 'insert', block: { id: 'c', children: 'x' }, parentId: null, afterId: null },
+      { opId: '5', kind: 'move', id: 'a', parentId: null, afterId: {} },
+    ]) {
+      alice.send({ type: 'op', op });
+      expect((await alice.next('error')).message).toBe('Invalid message');
+    }
+    alice.send({ type: 'sync', blocks: [null] });
+    expect((await alice.next('error')).message).toBe('Invalid message');
+
+    alice.send({ type: 'op', op: { opId: '6', kind: 'update', id: 'a', changes: { name: 'core/heading' } } });
+    expect((await alice.next('op')).seq).toBe(1);
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import type { Request, Response } from 'express';
+import { testDb } from './setup';
+import { modelFactories } from '../storage';
+import { HookSystem, HookVeto, HookVetoError } from '../hooks';
+import {
+  CommentSubmissionError,
+  checkCommentForm,
+  issueCommentFormToken,
+  issueCommentFormTokenFor,
+  scoreComment,
+  submitComment,
+  type SpamScore,
+} from '../comment-submission';
+import { createRateLimiter, rateLimit } from '../middleware/rate-limit';
+import { CONFIG } from '../config';
+import { comments, posts, sites, users } from '@shared/schema';
+
+const authorId = '5d2e8f14-7a3b-4c6d-9e1f-2a3b4c5d0001';
+const siteId = '5d2e8f14-7a3b-4c6d-9e1f-2a3b4c5d0002';
+const postId = '5d2e8f14-7a3b-4c6d-9e1f-2a3b4c5d0011';
+const closedId = '5d2e8f14-7a3b-4c6d-9e1f-2a3b4c5d0012';
+const draftId = '5d2e8f14-7a3b-4c6d-9e1f-2a3b4c5d0013';
+
+const models = {
+  posts: modelFactories.posts(testDb),
+  comments: modelFactories.comments(testDb),
+  sites: modelFactories.sites(testDb),
+};
+
+const renderedAt = Date.UTC(2026, 0, 1, 12);
+const submittedAt = renderedAt + 60_000;
+
+/** A submission made through the rendered form a minute after rendering */
+const form = (values: Record<string, unknown> = {}) => ({
+  postId,
+  content: 'Lovely write-up.',
+  authorName: 'Grace',
+  authorEmail: 'grace@example.com',
+  formToken: issueCommentFormToken(postId, renderedAt),
+  website: '',
+  ...values,
+});
+
+const submit = (input: Record<string, unknown>, submitter = {}, hooks = new HookSystem()) =>
+  submitComment(models, hooks, input, submitter, submittedAt);
+
+beforeAll(async () => {
+  await testDb.insert(users).values({ id: authorId, username: 'ada', email: 'ada@example.com' });
+  await testDb.insert(sites).values({ id: siteId, ownerId: authorId, isDefault: true, settings: {} });
+  await testDb.insert(posts).values([
+    { id: postId, title: 'Engines', slug: 'engines', status: 'publish', authorId },
+    { id: closedId, title: 'Closed', slug: 'closed', status: 'publish', authorId, allowComments: false },
+    { id: draftId, title: 'Draft', slug: 'draft', status: 'draft', authorId },
+  ]);
+});
+
+beforeEach(async () => {
+  await testDb.delete(comments);
+});
+
+afterAll(async () => {
+  await testDb.delete(comments);
+  await testDb.delete(posts);
+  await testDb.delete(sites);
+  await testDb.delete(users);
+});
+
+describe('comment form checks', () => {
+  it('accepts a signed form sent back after the minimum time', () => {
+    expect(() => checkCommentForm(form(), postId, submittedAt)).not.toThrow();
+  });
+
+  it('refuses filled honeypots, bad tokens and submissions that come back too fast or too late', () => {
+    const refusal = (input: Record<string, unknown>, now = submittedAt) => {
+      try {
+        checkCommentForm(input, postId, now);
+      } catch (error) {
+        expect(error).toBeInstanceOf(CommentSubmissionError);
+        return (error as CommentSubmissionError).status;
+      }
+      return null;
+    };
+
+    expect(refusal(form({ website: 'http://spam.test' }))).toBe(400);
+    expect(refusal(form({ formToken: undefined }))).toBe(400);
+    expect(refusal(form({ formToken: `${renderedAt - 1}.${issueCommentFormToken(postId, renderedAt).split('.')[1]}` }))).toBe(400);
+    expect(refusal(form({ formToken: issueCommentFormToken(closedId, renderedAt) }))).toBe(400);
+    expect(refusal(form(), renderedAt + CONFIG.COMMENTS.MIN_SUBMIT_MS - 1)).toBe(429);
+    expect(refusal(form(), renderedAt + CONFIG.COMMENTS.FORM_TOKEN_MAX_AGE_MS + 1)).toBe(400);
+  });
+
+  it('issues tokens only for posts open to comments', async () => {
+    const refusal = (id: string) => issueCommentFormTokenFor(models, id, renderedAt).then(
+      () => null,
+      (error: CommentSubmissionError) => error.status
+    );
+
+    expect(await issueCommentFormTokenFor(models, postId, renderedAt)).toBe(issueCommentFormToken(postId, renderedAt));
+    expect(await refusal(closedId)).toBe(403);
+    expect(await refusal(draftId)).toBe(404);
+  });
+});
+
+describe('scoreComment', () => {
+  it('scores keywords and links past the limit', () => {
+    expect(scoreComment({ content: 'See https://a.test and www.b.test' })).toEqual({ score: 0, reasons: [] });
+    expect(scoreComment({ content: 'Best CASINO bonus', authorName: 'Bob' })).toEqual({
+      score: 2,
+      reasons: ['keyword:casino'],
+    });
+    expect(
+      scoreComment({ content: 'http://1.test http://2.test http://3.test http://4.test', authorName: 'Replica Watches' })
+    ).toEqual({ score: 4, reasons: ['keyword:replica watches', 'links:4'] });
+    expect(scoreComment({ content: 'http://1.test' }, { keywords: [], maxLinks: 0 }).score).toBe(1);
+  });
+});
+
+describe('submitComment', () => {
+  it('holds anonymous comments for moderation and ignores client-supplied status and author', async () => {
+    const { comment } = await submit(form({ status: 'approved', authorId }));
+
+    expect(comment).toMatchObject({
+      postId,
+      status: 'pending',
+      authorId: null,
+      authorName: 'Grace',
+      authorEmail: 'grace@example.com',
+      content: 'Lovely write-up.',
+    });
+    expect(comment.other).toMatchObject({ spamScore: 0, spamReasons: [] });
+  });
+
+  it('approves clean comments once moderation is off, but still holds or files suspicious ones', async () => {
+    await models.sites.updateSettings({ discussion: { moderateComments: false } });
+    try {
+      expect((await submit(form())).comment.status).toBe('approved');
+      expect((await submit(form({ content: 'Try the casino' }))).comment.status).toBe('pending');
+      expect((await submit(form({ content: 'Casino http://1.test http://2.test http://3.test' }))).comment.status).toBe(
+        'spam'
+      );
+    } finally {
+      await models.sites.updateSettings({ discussion: { moderateComments: true } });
+    }
+  });
+
+  it('lets signed-in users skip the form checks and approves moderators outright', async () => {
+    const { comment } = await submit({ postId, content: 'Thanks!' }, { userId: authorId, canModerate: true });
+    expect(comment).toMatchObject({ status: 'approved', authorId, authorName: null });
+
+    const reply = await submit(form({ parentId: comment.id }));
+    expect(reply.comment).toMatchObject({ parentId: comment.id, status: 'pending' });
+  });
+
+  it('refuses comments on closed, unpublished or missing posts and invalid fields', async () => {
+    const status = (input: Record<string, unknown>) =>
+      submit(input).then(
+        () => null,
+        (error: CommentSubmissionError) => [error.status, error.message]
+      );
+
+    expect(await status(form({ postId: closedId, formToken: issueCommentFormToken(closedId, renderedAt) }))).toEqual([
+      403,
+      'Comments are closed on this post',
+    ]);
+    expect((await status(form({ postId: draftId })))?.[0]).toBe(404);
+    expect((await status(form({ postId: 'not-a-post' })))?.[0]).toBe(404);
+    expect((await status(form({ content: '  ' })))?.[0]).toBe(400);
+    expect((await status(form({ authorEmail: 'nope' })))?.[0]).toBe(400);
+    expect((await status(form({ parentId: closedId })))?.[0]).toBe(400);
+    expect(await models.comments.count()).toBe(0);
+
+    await models.sites.updateSettings({ discussion: { enableComments: false } });
+    try {
+      expect((await status(form()))?.[0]).toBe(403);
+    } finally {
+      await models.sites.updateSettings({ discussion: { enableComments: true } });
+    }
+  });
+
+  it('lets comment_spam_score filters adjust the score or veto the comment', async () => {
+    const hooks = new HookSystem();
+    const filter = vi.fn((spam: SpamScore) => ({ score: spam.score + 5, reasons: [...spam.reasons, 'blocklist'] }));
+    hooks.addFilter('comment_spam_score', filter);
+
+    const { comment } = await submit(form(), { ip: '203.0.113.9' }, hooks);
+    expect(comment).toMatchObject({ status: 'spam', other: { ip: '203.0.113.9', spamScore: 5, spamReasons: ['blocklist'] } });
+    expect(filter).toHaveBeenCalledWith(
+      { score: 0, reasons: [] },
+      expect.objectContaining({ content: 'Lovely write-up.' }),
+      expect.objectContaining({ ip: '203.0.113.9' })
+    );
+
+    hooks.addFilter('comment_spam_score', () => new HookVeto('Blocked', 403), 20);
+    await expect(submit(form(), {}, hooks)).rejects.toBeInstanceOf(HookVetoError);
+  });
+});
+
+describe('rateLimit', () => {
+  it('answers 429 past the limit per client until the window ends', () => {
+    vi.useFakeTimers({ now: renderedAt });
+    try {
+      const limit = rateLimit({ limiter: createRateLimiter({ max: 2, windowMs: 60_000 }) });
+      const call = (ip: string) => {
+        const res = { statusCode: 200, headers: {} as Record<string, string> } as any;
+        res.status = (code: number) => ((res.statusCode = code), res);
+        res.set = (name: string, value: string) => ((res.headers[name] = value), res);
+        res.json = () => res;
+        const next = vi.fn();
+        limit({ ip } as Request, res as Response, next);
+        return next.mock.calls.length ? 'next' : res;
+      };
+
+      expect(call('198.51.100.1')).toBe('next');
+      expect(call('198.51.100.1')).toBe('next');
+      vi.advanceTimersByTime(15_000);
+      expect(call('198.51.100.1')).toMatchObject({ statusCode: 429, headers: { 'Retry-After': '45' } });
+      expect(call('198.51.100.2')).toBe('next');
+
+      vi.advanceTimersByTime(45_000);
+      expect(call('198.51.100.1')).toBe('next');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,274 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createServer, type Server } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { testDb } from './setup';
+import { modelFactories } from '../storage';
+import { HookSystem } from '../hooks';
+import { JobScheduler } from '../scheduler';
+import { attemptEmail, configuredSiteUrl, emailSiteOf, retryEmail, sendEmail } from '../email/outbox';
+import { registerEmail } from '../email/notifications';
+import { renderEmail } from '../email/templates';
+import { createSmtpTransport, setMailTransport } from '../email/transports';
+import { findAccountTokenUser, issueAccountToken, redeemAccountToken } from '../account-tokens';
+import { CONFIG } from '../config';
+import { comments, emailOutbox, jobs, posts, sites, users } from '@shared/schema';
+
+const authorId = '9a1b2c3d-4e5f-4a6b-8c7d-0e1f2a3b0001';
+const readerId = '9a1b2c3d-4e5f-4a6b-8c7d-0e1f2a3b0002';
+const siteId = '9a1b2c3d-4e5f-4a6b-8c7d-0e1f2a3b0003';
+const postId = '9a1b2c3d-4e5f-4a6b-8c7d-0e1f2a3b0011';
+
+const models = {
+  emailOutbox: modelFactories.emailOutbox(testDb),
+  sites: modelFactories.sites(testDb),
+  users: modelFactories.users(testDb),
+  posts: modelFactories.posts(testDb),
+};
+const commentModel = modelFactories.comments(testDb);
+const jobModel = modelFactories.jobs(testDb);
+
+interface Received {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+// Local SMTP sink: accepts every message, or answers MAIL FROM with the queued reply codes
+let server: Server;
+let port: number;
+const received: Received[] = [];
+const rejections: number[] = [];
+
+const later = (ms: number) => new Date(Date.now() + ms);
+
+beforeAll(async () => {
+  server = createServer((socket) => {
+    socket.setEncoding('utf8');
+    let buffer = '';
+    let envelope: Received = { from: '', to: [], data: '' };
+    let inData = false;
+    socket.write('220 sink.test ESMTP\r\n');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            received.push(envelope);
+            socket.write('250 2.0.0 Queued\r\n');
+          } else {
+            envelope.data += `${line.startsWith('..') ? line.slice(1) : line}\n`;
+          }
+          continue;
+        }
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === 'EHLO' || command === 'HELO') socket.write('250 sink.test\r\n');
+        else if (command === 'MAIL') {
+          const code = rejections.shift();
+          envelope = { from: line.slice(10).replace(/[<>]/g, ''), to: [], data: '' };
+          socket.write(code ? `${code} 4.3.0 Try again later\r\n` : '250 2.1.0 OK\r\n');
+        } else if (command === 'RCPT') {
+          envelope.to.push(line.slice(8).replace(/[<>]/g, ''));
+          socket.write('250 2.1.5 OK\r\n');
+        } else if (command === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (command === 'QUIT') socket.end('221 2.0.0 Bye\r\n');
+        else socket.write('250 OK\r\n');
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+  setMailTransport(createSmtpTransport({ host: '127.0.0.1', port }));
+
+  await testDb.insert(users).values([
+    { id: authorId, username: 'ada', email: 'ada@example.com', firstName: 'Ada', lastName: 'Lovelace' },
+    { id: readerId, username: 'reader', email: 'reader@example.com' },
+  ]);
+  await testDb.insert(sites).values({
+    id: siteId,
+    ownerId: authorId,
+    isDefault: true,
+    settings: {
+      general: { siteName: 'Engines', siteUrl: 'https://engines.test/', adminEmail: 'admin@engines.test' },
+      discussion: { emailNotifications: true },
+    },
+  });
+  await testDb.insert(posts).values({ id: postId, title: 'Analytical', slug: 'analytical', status: 'publish', authorId });
+});
+
+beforeEach(async () => {
+  await testDb.delete(jobs);
+  await testDb.delete(emailOutbox);
+  received.length = 0;
+  rejections.length = 0;
+});
+
+afterAll(async () => {
+  setMailTransport(null);
+  await new Promise((resolve) => server.close(resolve));
+  await testDb.delete(jobs);
+  await testDb.delete(emailOutbox);
+  await testDb.delete(comments);
+  await testDb.delete(posts);
+  await testDb.delete(sites);
+  await testDb.delete(users);
+});
+
+function setup() {
+  const scheduler = new JobScheduler(jobModel);
+  const hooks = new HookSystem();
+  registerEmail(scheduler, models, hooks);
+  return { scheduler, hooks };
+}
+
+describe('email', () => {
+  it('sends queued messages over SMTP and records them as sent', async () => {
+    const { scheduler } = setup();
+    const queued = await sendEmail(scheduler, models, 'password_reset', 'reader@example.com', {
+      username: 'reader',
+      resetUrl: 'https://engines.test/admin/reset-password?token=abc',
+      expiresInMinutes: 60,
+    });
+    expect(queued).toMatchObject({ template: 'password_reset', status: 'pending', subject: '[Engines] Password reset' });
+
+    await scheduler.runDue();
+
+    expect(received).toHaveLength(1);
+    const [message] = received;
+    expect(message.from).toBe('admin@engines.test');
+    expect(message.to).toEqual(['reader@example.com']);
+    expect(message.data).toMatch(/^From: Engines <admin@engines\.test>$/m);
+    expect(message.data).toMatch(/^Subject: \[Engines\] Password reset$/m);
+    expect(message.data).toContain('multipart/alternative');
+    // Soft line breaks and escapes of quoted-printable parts
+    const decoded = message.data.replace(/=\n/g, '').replace(/=3D/g, '=');
+    expect(decoded).toContain('Choose a new password: https://engines.test/admin/reset-password?token=abc');
+
+    const sent = await models.emailOutbox.findById(queued.id);
+    expect(sent).toMatchObject({ status: 'sent', attempts: 1, error: null, nextAttemptAt: null });
+    expect(sent!.messageId).toBeTruthy();
+  });
+
+  it('retries refused messages with backoff and can queue failed ones again', async () => {
+    const { scheduler } = setup();
+    rejections.push(451);
+
+    const queued = await sendEmail(scheduler, models, 'test', 'admin@engines.test', {});
+    await scheduler.runDue();
+
+    let message = await models.emailOutbox.findById(queued.id);
+    expect(message).toMatchObject({ status: 'retrying', attempts: 1 });
+    expect(message!.error).toContain('451');
+    expect(message!.nextAttemptAt!.getTime() - Date.now()).toBeGreaterThan(CONFIG.EMAIL.RETRY_DELAY_MS - 5_000);
+
+    await scheduler.runDue(later(CONFIG.EMAIL.RETRY_DELAY_MS + 1_000));
+    message = await models.emailOutbox.findById(queued.id);
+    expect(message).toMatchObject({ status: 'sent', attempts: 2 });
+    expect(received).toHaveLength(1);
+
+    rejections.push(...Array(CONFIG.EMAIL.MAX_ATTEMPTS).fill(451));
+    const doomed = await sendEmail(scheduler, models, 'test', 'admin@engines.test', {});
+    for (let attempt = 0; attempt < CONFIG.EMAIL.MAX_ATTEMPTS; attempt++) {
+      message = await attemptEmail(scheduler, models, doomed.id);
+    }
+    expect(message).toMatchObject({ status: 'failed', attempts: CONFIG.EMAIL.MAX_ATTEMPTS, nextAttemptAt: null });
+    expect(await retryEmail(scheduler, models, queued.id)).toBeUndefined();
+
+    const retried = await retryEmail(scheduler, models, doomed.id);
+    expect(retried).toMatchObject({ status: 'pending', attempts: 0, error: null });
+    await scheduler.runDue();
+    expect(await models.emailOutbox.findById(doomed.id)).toMatchObject({ status: 'sent', attempts: 1 });
+  });
+
+  it('alerts the admin to comments awaiting moderation and authors to approved ones', async () => {
+    const { scheduler, hooks } = setup();
+    const pending = await commentModel.create({
+      postId,
+      content: 'Can it weave patterns?',
+      authorName: 'Charles',
+      authorEmail: 'charles@example.com',
+    });
+    await hooks.doActionAsync('new_comment', pending);
+
+    const [alert] = await models.emailOutbox.findRecent();
+    expect(alert).toMatchObject({ template: 'comment_moderation', to: 'admin@engines.test' });
+    expect(alert.text).toContain('Author: Charles (charles@example.com)');
+    expect(alert.text).toContain('https://engines.test/admin/comments');
+
+    const approved = await commentModel.approve(pending.id);
+    await hooks.doActionAsync('approve_comment', approved);
+    const [notice] = await models.emailOutbox.findRecent(undefined, 1);
+    expect(notice).toMatchObject({ template: 'new_comment', to: 'ada@example.com' });
+    expect(notice.text).toContain(`https://engines.test/post/analytical#comment-${pending.id}`);
+
+    // Authors aren't told about their own comments
+    const own = await commentModel.create({ postId, content: 'It can.', authorId, status: 'approved' });
+    await hooks.doActionAsync('new_comment', own);
+    expect(await models.emailOutbox.count()).toBe(2);
+
+    await scheduler.runDue();
+    expect(received.map((message) => message.to[0]).sort()).toEqual(['ada@example.com', 'admin@engines.test']);
+  });
+
+  it('sends no comment notifications while they are turned off', async () => {
+    const { hooks } = setup();
+    await models.sites.updateSettings({ discussion: { emailNotifications: false } });
+    try {
+      const comment = await commentModel.create({ postId, content: 'Quiet', authorId: readerId, status: 'approved' });
+      await hooks.doActionAsync('new_comment', comment);
+      expect(await models.emailOutbox.count()).toBe(0);
+    } finally {
+      await models.sites.updateSettings({ discussion: { emailNotifications: true } });
+    }
+  });
+
+  it('issues single-use account tokens that expire', async () => {
+    const reader = (await models.users.findById(readerId))!;
+    const token = await issueAccountToken(models.users, reader, 'passwordReset', 60_000);
+
+    expect(await findAccountTokenUser(models.users, token, 'invitation')).toBeUndefined();
+    expect(await findAccountTokenUser(models.users, `${token}x`, 'passwordReset')).toBeUndefined();
+    expect(await findAccountTokenUser(models.users, 'not-a-token', 'passwordReset')).toBeUndefined();
+
+    const updated = await redeemAccountToken(models.users, token, 'passwordReset', { password: 'hashed' });
+    expect(updated).toMatchObject({ id: readerId, password: 'hashed' });
+    expect(updated!.other).not.toHaveProperty('passwordReset');
+    expect(await redeemAccountToken(models.users, token, 'passwordReset', { password: 'again' })).toBeUndefined();
+
+    const expired = await issueAccountToken(models.users, updated!, 'passwordReset', -1);
+    expect(await findAccountTokenUser(models.users, expired, 'passwordReset')).toBeUndefined();
+  });
+
+  it('escapes data in the HTML part of templates', () => {
+    const { subject, text, html } = renderEmail(
+      'new_comment',
+      { postTitle: 'Tags', postUrl: 'https://engines.test/post/tags', commenter: 'Eve', content: '<script>alert(1)</script>' },
+      { name: 'Engines', url: 'https://engines.test' }
+    );
+    expect(subject).toBe('[Engines] New comment on "Tags"');
+    expect(text).toContain('> <script>alert(1)</script>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script>');
+  });
+
+  it('takes account link origins only from the configured site URL', async () => {
+    const settings = await models.sites.getSettings();
+    const unset = { ...settings, general: { ...settings.general, siteUrl: '' } };
+    expect(configuredSiteUrl(settings)).toBe('https://engines.test');
+
+    vi.stubEnv('SITE_URL', '');
+    try {
+      expect(configuredSiteUrl(unset)).toBe('');
+      expect(emailSiteOf(unset, 'https://fallback.test/').url).toBe('https://fallback.test');
+      vi.stubEnv('SITE_URL', 'https://env.test/');
+      expect(configuredSiteUrl(unset)).toBe('https://env.test');
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { buildAtomFeed, buildRssFeed, guessMimeType, type FeedChannel, type FeedItem } from '../feeds';
+
+const channel: FeedChannel = {
+  title: 'News & Notes',
+  description: 'Latest posts',
+  link: 'https://example.com/',
+  feedUrl: 'https://example.com/feed.xml',
+};
+
+const item: FeedItem = {
+  title: 'Hello <World>',
+  link: 'https://example.com/post/hello',
+  content: '<p>Body with ]]> inside</p>',
+  summary: 'Short summary',
+  published: new Date('2026-05-01T10:00:00Z'),
+  updated: new Date('2026-05-02T10:00:00Z'),
+  author: 'Ada Lovelace',
+  categories: ['News', 'Releases'],
+  enclosure: { url: 'https://example.com/uploads/cover.png', type: 'image/png', length: 1234 },
+};
+
+describe('guessMimeType', () => {
+  it('maps image extensions and ignores query strings', () => {
+    expect(guessMimeType('/uploads/a.JPG?v=2')).toBe('image/jpeg');
+    expect(guessMimeType('/uploads/file')).toBe('application/octet-stream');
+  });
+});
+
+describe('buildRssFeed', () => {
+  it('renders channel metadata and items', () => {
+    const xml = buildRssFeed(channel, [item]);
+
+    expect(xml).toContain('<rss version="2.0"');
+    expect(xml).toContain('<title>News &amp; Notes</title>');
+    expect(xml).toContain('<atom:link href="https://example.com/feed.xml" rel="self" type="application/rss+xml"/>');
+    expect(xml).toContain('<lastBuildDate>Sat, 02 May 2026 10:00:00 GMT</lastBuildDate>');
+    expect(xml).toContain('<title>Hello &lt;World&gt;</title>');
+    expect(xml).toContain('<guid isPermaLink="true">https://example.com/post/hello</guid>');
+    expect(xml).toContain('<pubDate>Fri, 01 May 2026 10:00:00 GMT</pubDate>');
+    expect(xml).toContain('<dc:creator>Ada Lovelace</dc:creator>');
+    expect(xml).toContain('<category>News</category><category>Releases</category>');
+    expect(xml).toContain('<description><![CDATA[Short summary]]></description>');
+    expect(xml).toContain('<content:encoded><![CDATA[<p>Body with ]]]]><![CDATA[> inside</p>]]></content:encoded>');
+    expect(xml).toContain('<enclosure url="https://example.com/uploads/cover.png" length="1234" type="image/png"/>');
+  });
+});
+
+describe('buildAtomFeed', () => {
+  it('renders entries with escaped HTML content and enclosure links', () => {
+    const xml = buildAtomFeed({ ...channel, feedUrl: 'https://example.com/feed.atom' }, [item]);
+
+    expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">');
+    expect(xml).toContain('<link rel="self" type="application/atom+xml" href="https://example.com/feed.atom"/>');
+    expect(xml).toContain('<updated>2026-05-02T10:00:00.000Z</updated>');
+    expect(xml).toContain('<published>2026-05-01T10:00:00.000Z</published>');
+    expect(xml).toContain('<author><name>Ada Lovelace</name></author>');
+    expect(xml).toContain('<category term="News"/>');
+    expect(xml).toContain('<content type="html">&lt;p&gt;Body with ]]&gt; inside&lt;/p&gt;</content>');
+    expect(xml).toContain(
+      '<link rel="enclosure" href="https://example.com/uploads/cover.png" type="image/png" length="1234"/>'
+    );
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { testDb } from './setup';
+import { modelFactories } from '../storage';
+import { HookSystem } from '../hooks';
+import { createLoaders } from '../graphql/loaders';
+import { runGraphql } from '../graphql/schema';
+import type { GraphqlContext } from '../graphql/types';
+import { getZodSchema } from '@shared/zod-schema';
+import { issueCommentFormToken } from '../comment-submission';
+import { CONFIG } from '../config';
+import { comments, posts, templates, users } from '@shared/schema';
+
+const authorId = '7c4d2e91-3b5a-4f6c-9d8e-1a2b3c4d0001';
+const otherId = '7c4d2e91-3b5a-4f6c-9d8e-1a2b3c4d0002';
+const templateId = '7c4d2e91-3b5a-4f6c-9d8e-1a2b3c4d0003';
+const postId = '7c4d2e91-3b5a-4f6c-9d8e-1a2b3c4d0011';
+const draftId = '7c4d2e91-3b5a-4f6c-9d8e-1a2b3c4d0012';
+
+const models = {
+  sites: modelFactories.sites(testDb),
+  pages: modelFactories.pages(testDb),
+  posts: modelFactories.posts(testDb),
+  blogs: modelFactories.blogs(testDb),
+  comments: modelFactories.comments(testDb),
+  media: modelFactories.media(testDb),
+  users: modelFactories.users(testDb),
+  templates: modelFactories.templates(testDb),
+  searchIndex: modelFactories.searchIndex(testDb),
+};
+
+const schemas = {
+  posts: getZodSchema('posts'),
+  pages: getZodSchema('pages'),
+  comments: getZodSchema('comments'),
+};
+
+const day = (n: number) => new Date(Date.UTC(2026, 0, n));
+
+/** A fresh request context; `capabilities` are the ones the viewer holds */
+function context(userId: string | null = null, capabilities: string[] = [], hooks = new HookSystem()): GraphqlContext {
+  return {
+    models,
+    loaders: createLoaders(models),
+    hooks,
+    schemas,
+    userId,
+    can: async (capability) => capabilities.includes(capability),
+  };
+}
+
+const run = (query: string, ctx: GraphqlContext, variables?: Record<string, unknown>) =>
+  runGraphql({ query, variables }, ctx) as Promise<{ data?: any; errors?: Array<{ message: string; extensions?: any }> }>;
+
+beforeAll(async () => {
+  await testDb.insert(users).values([
+    { id: authorId, username: 'grace', email: 'grace@example.com', firstName: 'Grace', lastName: 'Hopper' },
+    { id: otherId, username: 'linus', email: 'linus@example.com' },
+  ]);
+  await testDb.insert(templates).values({ id: templateId, name: 'Article', type: 'post', authorId });
+  await testDb.insert(posts).values([
+    { id: postId, title: 'Compilers', slug: 'compilers', status: 'publish', authorId, templateId, publishedAt: day(1) },
+    { id: draftId, title: 'Unfinished', slug: 'unfinished', status: 'draft', authorId },
+    ...[2, 3, 4, 5].map((n) => ({
+      title: `Post ${n}`,
+      slug: `post-${n}`,
+      status: 'publish',
+      authorId: n % 2 ? authorId : otherId,
+      publishedAt: day(n),
+    })),
+  ]);
+  await testDb.insert(comments).values([
+    { postId, content: 'First!', status: 'approved', authorName: 'Reader', authorEmail: 'reader@example.com' },
+    { postId, content: 'Buy now', status: 'spam', authorName: 'Spammer' },
+  ]);
+});
+
+afterAll(async () => {
+  await testDb.delete(comments);
+  await testDb.delete(posts);
+  await testDb.delete(templates);
+  await testDb.delete(users);
+});
+
+describe('GraphQL API', () => {
+  it('resolves a post with its author, approved comments and template', async () => {
+    const result = await run(
+      `query ($slug: String) {
+        post(slug: $slug) {
+          title
+          author { username displayName email }
+          comments { content authorName authorEmail }
+          commentCount
+          template { name }
+        }
+      }`,
+      context(),
+      { slug: 'compilers' }
+    );
+
+    expect(result.errors).toBeUndefined();
+    expect(result.data.post).toMatchObject({
+      title: 'Compilers',
+      author: { username: 'grace', email: null },
+      comments: [{ content: 'First!', authorName: 'Reader', authorEmail: null }],
+      commentCount: 1,
+      template: { name: 'Article' },
+    });
+  });
+
+  it('pages through posts with cursors, latest published first', async () => {
+    const query = `query ($after: String) {
+      posts(first: 2, after: $after) {
+        totalCount
+        nodes { slug }
+        pageInfo { hasNextPage endCursor }
+      }
+    }`;
+    const slugs: string[] = [];
+    let after: string | null = null;
+    for (;;) {
+      const result = await run(query, context(), { after });
+      expect(result.errors).toBeUndefined();
+      const { nodes, pageInfo, totalCount } = result.data.posts;
+      expect(totalCount).toBe(5);
+      slugs.push(...nodes.map((node: { slug: string }) => node.slug));
+      if (!pageInfo.hasNextPage) break;
+      after = pageInfo.endCursor;
+    }
+    expect(slugs).toEqual(['post-5', 'post-4', 'post-3', 'post-2', 'compilers']);
+  });
+
+  it('loads the authors of a list of posts with one query', async () => {
+    const spy = vi.spyOn(models.users, 'findManyWhere');
+    try {
+      const result = await run('{ posts(first: 10) { nodes { author { username } } } }', context());
+      expect(result.errors).toBeUndefined();
+      expect(result.data.posts.nodes.map((node: any) => node.author.username).sort()).toEqual([
+        'grace',
+        'grace',
+        'grace',
+        'linus',
+        'linus',
+      ]);
+      expect(spy).toHaveBeenCalledTimes(1);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('hides drafts from readers without edit_posts', async () => {
+    const query = `{ post(id: "${draftId}") { title } posts(status: DRAFT) { totalCount } }`;
+
+    const anonymous = await run(query, context());
+    expect(anonymous.data?.post ?? null).toBeNull();
+    expect(anonymous.errors?.[0].extensions.code).toBe('UNAUTHENTICATED');
+
+    const reader = await run(query, context(otherId, ['read']));
+    expect(reader.data?.post ?? null).toBeNull();
+    expect(reader.errors?.[0].extensions.code).toBe('FORBIDDEN');
+
+    const editor = await run(query, context(authorId, ['edit_posts']));
+    expect(editor.errors).toBeUndefined();
+    expect(editor.data).toEqual({ post: { title: 'Unfinished' }, posts: { totalCount: 1 } });
+  });
+
+  it('guards mutations with the REST capabilities', async () => {
+    const mutation = `mutation ($input: PostInput!) { createPost(input: $input) { id } }`;
+    const input = { title: 'Nope' };
+
+    const anonymous = await run(mutation, context(), { input });
+    expect(anonymous.errors?.[0].extensions.code).toBe('UNAUTHENTICATED');
+
+    const subscriber = await run(mutation, context(otherId, ['read']), { input });
+    expect(subscriber.errors?.[0].extensions.code).toBe('FORBIDDEN');
+
+    const contributor = await run(mutation, context(otherId, ['edit_posts']), {
+      input: { title: 'Straight to print', status: 'publish' },
+    });
+    expect(contributor.errors?.[0].extensions.code).toBe('FORBIDDEN');
+
+    const update = await run(
+      `mutation { updatePost(id: "${postId}", input: { title: "Mine now" }) { title } }`,
+      context(otherId, ['edit_posts'])
+    );
+    expect(update.errors?.[0].extensions.code).toBe('FORBIDDEN');
+  });
+
+  it('creates and updates posts like the REST API, rejecting stale versions', async () => {
+    const hooks = new HookSystem();
+    const saved = vi.fn();
+    hooks.addAction('save_post', saved);
+
+    const created = await run(
+      `mutation ($input: PostInput!) { createPost(input: $input) { id slug status version author { username } } }`,
+      context(authorId, ['edit_posts', 'publish_posts'], hooks),
+      { input: { title: 'Hello GraphQL', status: 'publish' } }
+    );
+    expect(created.errors).toBeUndefined();
+    const post = created.data.createPost;
+    expect(post).toMatchObject({ slug: 'hello-graphql', status: 'publish', version: 0, author: { username: 'grace' } });
+    expect(saved).toHaveBeenCalledTimes(1);
+
+    const updateQuery = `mutation ($id: ID!, $version: Int) {
+      updatePost(id: $id, input: { title: "Hello again" }, version: $version) { title version }
+    }`;
+    const updated = await run(updateQuery, context(authorId, ['edit_posts', 'publish_posts'], hooks), {
+      id: post.id,
+      version: 0,
+    });
+    expect(updated.errors).toBeUndefined();
+    expect(updated.data.updatePost).toEqual({ title: 'Hello again', version: 1 });
+
+    const stale = await run(updateQuery, context(authorId, ['edit_posts', 'publish_posts'], hooks), {
+      id: post.id,
+      version: 0,
+    });
+    expect(stale.errors?.[0].extensions).toMatchObject({ code: 'CONFLICT', currentVersion: 1 });
+  });
+
+  it('queues new comments for moderation with the checks of the REST endpoint', async () => {
+    const create = `mutation ($input: CommentInput!) { createComment(input: $input) { content status authorName } }`;
+    const visitor = { authorName: 'Visitor', authorEmail: 'visitor@example.com' };
+    const token = (await run(`{ post(id: "${postId}") { commentFormToken } }`, context())).data.post.commentFormToken;
+
+    // Sent right after fetching the token: too fast
+    const hasty = await run(create, context(), { input: { postId, content: 'First!', formToken: token, ...visitor } });
+    expect(hasty.errors?.[0].extensions.code).toBe('RATE_LIMITED');
+
+    const formToken = issueCommentFormToken(postId, Date.now() - 60_000);
+    const result = await run(create, context(), {
+      input: { postId, content: 'Great read', formToken, ...visitor },
+    });
+    expect(result.errors).toBeUndefined();
+    expect(result.data.createComment).toEqual({ content: 'Great read', status: 'pending', authorName: 'Visitor' });
+
+    const withoutToken = await run(create, context(), { input: { postId, content: 'Hi', ...visitor } });
+    expect(withoutToken.errors?.[0].extensions.code).toBe('BAD_USER_INPUT');
+
+    const onDraft = await run(
+      `mutation { createComment(input: { postId: "${draftId}", content: "Hi" }) { id } }`,
+      context()
+    );
+    expect(onDraft.errors?.[0].extensions.code).toBe('NOT_FOUND');
+  });
+
+  it('counts comments against the per-IP limit of the REST endpoint', async () => {
+    const ctx = { ...context(), ip: '192.0.2.44' };
+    const input = { postId, content: 'Spam', formToken: 'bad', authorName: 'Bot', authorEmail: 'bot@example.com' };
+    for (let attempt = 0; attempt < CONFIG.COMMENTS.RATE_LIMIT_MAX; attempt++) {
+      const refused = await run(`mutation ($input: CommentInput!) { createComment(input: $input) { id } }`, ctx, { input });
+      expect(refused.errors?.[0].extensions.code).toBe('BAD_USER_INPUT');
+    }
+    const limited = await run(`mutation ($input: CommentInput!) { createComment(input: $input) { id } }`, ctx, { input });
+    expect(limited.errors?.[0].extensions).toMatchObject({ code: 'RATE_LIMITED', retryAfter: expect.any(Number) });
+  });
+
+  it('rejects mutations sent with GET and reports invalid queries without data', async () => {
+    const viaGet = await runGraphql(
+      { query: `mutation { deletePost(id: "${postId}") }` },
+      context(authorId, ['delete_posts']),
+      { allowMutations: false }
+    );
+    expect(viaGet.data).toBeUndefined();
+    expect(viaGet.errors?.[0].message).toMatch(/POST/);
+    expect(await models.posts.findById(postId)).toBeDefined();
+
+    const invalid = await runGraphql({ query: '{ post { nope } }' }, context());
+    expect(invalid.data).toBeUndefined();
+    expect(invalid.errors?.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { HookSystem, HookVeto, HookVetoError } from '../hooks';
+
+describe('HookSystem async variants', () => {
+  let hooks: HookSystem;
+
+  beforeEach(() => {
+    hooks = new HookSystem();
+  });
+
+  it('doActionAsync awaits callbacks in priority order', async () => {
+    const calls: string[] = [];
+    hooks.addAction('save_post', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      calls.push('late');
+    }, 20);
+    hooks.addAction('save_post', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      calls.push('early');
+    }, 5);
+
+    await hooks.doActionAsync('save_post', { title: 'Hello' });
+    expect(calls).toEqual(['early', 'late']);
+  });
+
+  it('doActionAsync logs failures and keeps running later callbacks', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const after = vi.fn();
+    hooks.addAction('save_post', async () => {
+      throw new Error('boom');
+    });
+    hooks.addAction('save_post', after, 20);
+
+    await hooks.doActionAsync('save_post');
+    expect(after).toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalled();
+    expect(hooks.getCallbacks('action')[0].errors).toBe(1);
+    errorSpy.mockRestore();
+  });
+
+  it('applyFiltersAsync chains async filter results', async () => {
+    hooks.addFilter('the_title', async (title: string) => title.trim());
+    hooks.addFilter('the_title', (title: string) => `${title}!`, 20);
+
+    await expect(hooks.applyFiltersAsync('the_title', '  Hi  ')).resolves.toBe('Hi!');
+  });
+
+  it('applyFiltersAsync rejects with HookVetoError when a callback vetoes', async () => {
+    const later = vi.fn((value) => value);
+    hooks.addFilter('pre_save_post', (data: { title: string }) =>
+      data.title ? data : hooks.veto('Title is required')
+    );
+    hooks.addFilter('pre_save_post', later, 20);
+
+    const error = await hooks.applyFiltersAsync('pre_save_post', { title: '' }).catch((e) => e);
+    expect(error).toBeInstanceOf(HookVetoError);
+    expect(error.message).toBe('Title is required');
+    expect(error.status).toBe(422);
+    expect(error.tag).toBe('pre_save_post');
+    expect(later).not.toHaveBeenCalled();
+  });
+
+  it('treats a thrown HookVeto like a returned one', async () => {
+    hooks.addFilter('pre_save_post', async () => {
+      throw new HookVeto('Locked', 423);
+    });
+
+    await expect(hooks.applyFiltersAsync('pre_save_post', {})).rejects.toMatchObject({
+      message: 'Locked',
+      status: 423,
+    });
+  });
+
+  it('records per-callback timings exposed by getCallbacks', async () => {
+    function slugify(value: string) {
+      return value.toLowerCase();
+    }
+    hooks.addFilter('sanitize_title', slugify, 5);
+    hooks.applyFilters('sanitize_title', 'A');
+    await hooks.applyFiltersAsync('sanitize_title', 'B');
+
+    const [info] = hooks.getCallbacks('filter');
+    expect(info).toMatchObject({ tag: 'sanitize_title', priority: 5, name: 'slugify', calls: 2, errors: 0 });
+    expect(info.totalMs).toBeGreaterThanOrEqual(0);
+    expect(info.avgMs).toBeCloseTo(info.totalMs / 2);
+  });
+
+  it('times async callbacks run by doAction until their promise settles', async () => {
+    let finish = () => {};
+    async function notify() {
+      await new Promise<void>((resolve) => (finish = resolve));
+    }
+    hooks.addAction('publish_post', notify);
+
+    hooks.doAction('publish_post');
+    expect(hooks.getCallbacks('action')[0].calls).toBe(0);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    finish();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const [info] = hooks.getCallbacks('action');
+    expect(info.calls).toBe(1);
+    expect(info.lastMs).toBeGreaterThanOrEqual(15);
+  });
+
+  it('times a callback separately for each tag and priority it is registered on', async () => {
+    async function flush() {}
+    hooks.addAction('save_post', flush);
+    hooks.addAction('delete_post', flush);
+    hooks.addAction('delete_post', flush, 20);
+    hooks.addFilter('save_post', flush);
+
+    await hooks.doActionAsync('save_post');
+    await hooks.doActionAsync('save_post');
+    await hooks.doActionAsync('delete_post');
+
+    expect(hooks.getCallbacks('action').map(({ tag, priority, calls }) => ({ tag, priority, calls }))).toEqual([
+      { tag: 'save_post', priority: 10, calls: 2 },
+      { tag: 'delete_post', priority: 10, calls: 1 },
+      { tag: 'delete_post', priority: 20, calls: 1 },
+    ]);
+    expect(hooks.getCallbacks('filter')[0]).toMatchObject({ tag: 'save_post', calls: 0 });
+  });
+});
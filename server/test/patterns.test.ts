@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { testDb } from './setup';
+import { createPatternModel } from '../storage';
+import { resolvePatterns, withResolvedPatterns } from '../patterns';
+import { renderBlockContent } from '../../renderer/render-page';
+import { BLOCK_REFERENCE } from '@shared/block-references';
+import { pages, patterns, posts, sites, templates, users } from '@shared/schema';
+import type { BlockConfig } from '@shared/schema-types';
+
+const authorId = '7d0c4c57-5a4f-4d43-9a51-3f1f3a7e0001';
+const ctaId = '7d0c4c57-5a4f-4d43-9a51-3f1f3a7e0002';
+const footerId = '7d0c4c57-5a4f-4d43-9a51-3f1f3a7e0003';
+const siteId = '7d0c4c57-5a4f-4d43-9a51-3f1f3a7e0004';
+
+const block = (id: string, overrides: Partial<BlockConfig> = {}): BlockConfig => ({
+  id,
+  name: 'core/paragraph',
+  type: 'block',
+  parentId: null,
+  content: { kind: 'text', value: id },
+  ...overrides,
+});
+
+const reference = (id: string, ref: string): BlockConfig =>
+  block(id, { name: BLOCK_REFERENCE, content: { kind: 'structured', data: { ref } } });
+
+const patternModel = createPatternModel(testDb);
+
+beforeAll(async () => {
+  await testDb.insert(users).values({ id: authorId, username: 'designer', email: 'designer@example.com' });
+  await testDb.insert(sites).values({ id: siteId, ownerId: authorId, isDefault: true });
+  await testDb.insert(patterns).values([
+    { id: ctaId, name: 'Call to action', authorId, blocks: [block('cta-text', { content: { kind: 'text', value: 'Join us' } })] },
+    { id: footerId, name: 'Footer', authorId, blocks: [block('footer-text'), reference('footer-cta', ctaId)] },
+  ]);
+});
+
+afterAll(async () => {
+  await testDb.delete(pages);
+  await testDb.delete(posts);
+  await testDb.delete(templates);
+  await testDb.delete(patterns);
+  await testDb.delete(sites);
+  await testDb.delete(users);
+});
+
+describe('createPatternModel', () => {
+  it('finds patterns by ID and skips unknown ones', async () => {
+    const found = await patternModel.findByIds([ctaId, '7d0c4c57-5a4f-4d43-9a51-3f1f3a7e00ff']);
+    expect(found.map((pattern) => pattern.name)).toEqual(['Call to action']);
+    expect(await patternModel.findByIds([])).toEqual([]);
+  });
+
+  it('lists the pages, posts, templates and patterns embedding a pattern', async () => {
+    await testDb.insert(pages).values({
+      title: 'Pricing',
+      slug: 'pricing',
+      siteId,
+      authorId,
+      blocks: [block('group', { name: 'core/group', type: 'container', children: [reference('ref', ctaId)] })],
+    });
+    // Mentions the ID in text only, which is not a use
+    await testDb.insert(posts).values({
+      title: 'Changelog',
+      slug: 'changelog',
+      authorId,
+      blocks: [block('note', { content: { kind: 'text', value: `Pattern ${ctaId} was renamed` } })],
+    });
+    await testDb.insert(templates).values({ name: 'Landing', type: 'page', authorId, blocks: [reference('ref', ctaId)] });
+
+    const usage = await patternModel.findUsage(ctaId);
+
+    expect(usage.map(({ type, title, slug }) => ({ type, title, slug }))).toEqual([
+      { type: 'page', title: 'Pricing', slug: 'pricing' },
+      { type: 'template', title: 'Landing', slug: null },
+      { type: 'pattern', title: 'Footer', slug: null },
+    ]);
+    expect(await patternModel.findUsage(footerId)).toEqual([]);
+  });
+
+  it('searches names, descriptions and keywords for every word of a query', async () => {
+    await testDb.insert(patterns).values({
+      name: 'Pricing table',
+      description: 'Three tiers side by side',
+      category: 'pricing',
+      keywords: ['plans', 'subscription'],
+      authorId,
+      blocks: [],
+    });
+    const names = async (query: string, category?: string) => {
+      const found = await patternModel.findManyWhere([
+        patternModel.searchFilter(query),
+        ...(category ? [{ where: 'category', equals: category }] : []),
+      ]);
+      return found.map((pattern) => pattern.name);
+    };
+
+    expect(await names('SUBSCRIPTION')).toEqual(['Pricing table']);
+    expect(await names('tiers plans')).toEqual(['Pricing table']);
+    expect(await names('tiers footer')).toEqual([]);
+    expect(await names('table', 'faq')).toEqual([]);
+    expect(await patternModel.count({ where: [patternModel.searchFilter('pricing')] })).toBe(1);
+
+    const [cta] = await patternModel.findByIds([ctaId]);
+    expect(cta).toMatchObject({ category: 'uncategorized', keywords: [], thumbnail: null, synced: true });
+  });
+});
+
+describe('resolvePatterns', () => {
+  it('loads nested patterns and renders them like the rest of the page', async () => {
+    const resolved = await resolvePatterns([reference('site-footer', footerId)], patternModel);
+
+    expect(resolved[0].children?.map((child) => child.id)).toEqual(['site-footer-footer-text', 'site-footer-footer-cta']);
+    expect(resolved[0].children?.[1].children?.map((child) => child.id)).toEqual([
+      'site-footer-footer-cta-cta-text',
+    ]);
+
+    const html = renderBlockContent(resolved);
+    expect(html).toContain('wp-block-block-reference');
+    expect(html).toContain('Join us');
+  });
+
+  it('asks for each pattern once and renders missing ones as nothing', async () => {
+    const requested: string[][] = [];
+    const source = {
+      findByIds: async (ids: string[]) => {
+        requested.push(ids);
+        return patternModel.findByIds(ids);
+      },
+    };
+
+    const page = await withResolvedPatterns(
+      { title: 'Home', blocks: [reference('a', ctaId), reference('b', ctaId), reference('c', 'deleted')] },
+      source
+    );
+
+    expect(requested).toEqual([[ctaId, 'deleted']]);
+    expect(page.title).toBe('Home');
+    expect(page.blocks[2].children).toEqual([]);
+    expect(renderBlockContent([page.blocks[2]])).toBe('');
+  });
+});
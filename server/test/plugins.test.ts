@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { testDb } from './setup';
+import { createPluginModel } from '../storage';
+import { HookSystem } from '../hooks';
+import { PluginManager, satisfiesVersion } from '../plugins';
+import { users } from '@shared/schema';
+
+const authorId = '550e8400-e29b-41d4-a716-446655440900';
+
+async function writePlugin(root: string, dir: string, manifest: object, source?: string) {
+  await mkdir(path.join(root, dir), { recursive: true });
+  await writeFile(path.join(root, dir, 'plugin.json'), JSON.stringify(manifest));
+  if (source) {
+    await writeFile(path.join(root, dir, 'index.mjs'), source);
+  }
+}
+
+describe('satisfiesVersion', () => {
+  it('handles comparators, caret, tilde and wildcards', () => {
+    expect(satisfiesVersion('1.0.5', '>=1.0.0')).toBe(true);
+    expect(satisfiesVersion('1.0.5', '>=1.0.0 <1.0.5')).toBe(false);
+    expect(satisfiesVersion('1.4.0', '^1.2.0')).toBe(true);
+    expect(satisfiesVersion('2.0.0', '^1.2.0')).toBe(false);
+    expect(satisfiesVersion('1.2.9', '~1.2.3')).toBe(true);
+    expect(satisfiesVersion('1.3.0', '~1.2.3')).toBe(false);
+    expect(satisfiesVersion('1.9.1', '1.x')).toBe(true);
+    expect(satisfiesVersion('3.0.0', '^1.0.0 || ^3.0.0')).toBe(true);
+    expect(satisfiesVersion('0.1.0', '*')).toBe(true);
+  });
+});
+
+// Counts module evaluations and keeps its API around to register hooks after deactivation
+const counterSource = (label: string) => `
+  globalThis.counterImports = (globalThis.counterImports ?? 0) + 1;
+  export function activate(api) {
+    globalThis.counterApi = api;
+    api.addFilter('the_title', (title) => title + '${label}');
+  }`;
+
+describe('PluginManager', () => {
+  const pluginModel = createPluginModel(testDb);
+  let root: string;
+  let hooks: HookSystem;
+  let manager: PluginManager;
+
+  beforeAll(async () => {
+    await testDb
+      .insert(users)
+      .values({ id: authorId, username: 'plugin-author', email: 'plugin-author@example.com' })
+      .onConflictDoNothing();
+
+    root = await mkdtemp(path.join(tmpdir(), 'nextpress-plugins-'));
+    await writePlugin(
+      root,
+      'shouter',
+      {
+        name: 'Shouter',
+        version: '1.0.0',
+        requires: '>=1.0.0',
+        main: 'index.mjs',
+        settings: { suffix: { label: 'Suffix', type: 'text', default: '!' } },
+      },
+      `export function activate(api) {
+        api.addFilter('the_title', (title) => title.toUpperCase() + api.getSettings().suffix);
+      }`
+    );
+    await writePlugin(
+      root,
+      'future',
+      { name: 'Future', version: '1.0.0', requires: '>=9.0.0', main: 'index.mjs' },
+      'export function activate() {}'
+    );
+    await writePlugin(
+      root,
+      'counter',
+      { name: 'Counter', version: '1.0.0', requires: '>=1.0.0', main: 'index.mjs' },
+      counterSource('1')
+    );
+    await writePlugin(root, 'broken', { version: '1.0.0' });
+
+    hooks = new HookSystem();
+    manager = new PluginManager({ hooks, pluginModel, directory: root, coreVersion: '1.0.5' });
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('discovers packages and reports invalid manifests', async () => {
+    const discovered = await manager.discover();
+    expect(discovered).toHaveLength(4);
+    expect(discovered.find((d) => d.directory.endsWith('broken'))?.manifest).toBeNull();
+  });
+
+  it('syncs valid packages into the plugins table as inactive', async () => {
+    const synced = await manager.sync(authorId);
+    expect(synced.map((p) => p.name).sort()).toEqual(['Counter', 'Future', 'Shouter']);
+
+    const shouter = await pluginModel.findByName('Shouter');
+    expect(shouter?.status).toBe('inactive');
+    expect(shouter?.settings).toEqual({ suffix: '!' });
+
+    // Syncing again does not duplicate rows
+    await manager.sync(authorId);
+    expect(await pluginModel.count({ where: [{ where: 'name', equals: 'Shouter' }] })).toBe(1);
+  });
+
+  it('registers hooks on activation and removes them on deactivation', async () => {
+    const shouter = (await pluginModel.findByName('Shouter'))!;
+
+    const activated = await manager.activate(shouter.id);
+    expect(activated.status).toBe('active');
+    expect(manager.isLoaded(shouter.id)).toBe(true);
+    expect(hooks.applyFilters('the_title', 'hello')).toBe('HELLO!');
+
+    await manager.updateSettings(shouter.id, { suffix: '?' });
+    expect(hooks.applyFilters('the_title', 'hello')).toBe('HELLO?');
+
+    const deactivated = await manager.deactivate(shouter.id);
+    expect(deactivated.status).toBe('inactive');
+    expect(manager.isLoaded(shouter.id)).toBe(false);
+    expect(hooks.applyFilters('the_title', 'hello')).toBe('hello');
+  });
+
+  it('reuses the loaded module until the plugin files change', async () => {
+    const counter = (await pluginModel.findByName('Counter'))!;
+    const imports = () => (globalThis as { counterImports?: number }).counterImports;
+
+    await manager.activate(counter.id);
+    await manager.deactivate(counter.id);
+    await manager.activate(counter.id);
+    expect(imports()).toBe(1);
+    expect(hooks.applyFilters('the_title', 'hello')).toBe('hello1');
+
+    await manager.deactivate(counter.id);
+    await writeFile(path.join(root, 'counter', 'index.mjs'), counterSource('22'));
+    await manager.activate(counter.id);
+    expect(imports()).toBe(2);
+    expect(hooks.applyFilters('the_title', 'hello')).toBe('hello22');
+    await manager.deactivate(counter.id);
+  });
+
+  it('ignores hooks a deactivated plugin registers afterwards', async () => {
+    const counter = (await pluginModel.findByName('Counter'))!;
+    await manager.activate(counter.id);
+    const api = (globalThis as { counterApi?: { addFilter(tag: string, callback: Function): void } }).counterApi!;
+    await manager.deactivate(counter.id);
+
+    api.addFilter('the_title', (title: string) => `${title} (late)`);
+    expect(hooks.applyFilters('the_title', 'hello')).toBe('hello');
+  });
+
+  it('refuses plugins whose requires range excludes the core version', async () => {
+    const future = (await pluginModel.findByName('Future'))!;
+
+    await expect(manager.activate(future.id)).rejects.toThrow('Requires NextPress >=9.0.0');
+    expect(manager.getError(future.id)).toContain('running 1.0.5');
+    expect((await pluginModel.findById(future.id))?.status).toBe('inactive');
+  });
+});
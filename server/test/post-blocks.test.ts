@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { testDb } from './setup';
+import { modelFactories } from '../storage';
+import { resolvePostBlocks } from '../post-blocks';
+import { renderBlockContent } from '../../renderer/render-page';
+import { comments, posts, sites, termRelationships, terms, users } from '@shared/schema';
+import type { BlockConfig, Post } from '@shared/schema-types';
+
+const authorId = '3b9f7a52-0c1e-4f3a-8d2b-5e6f7a8b0001';
+const firstId = '3b9f7a52-0c1e-4f3a-8d2b-5e6f7a8b0011';
+const secondId = '3b9f7a52-0c1e-4f3a-8d2b-5e6f7a8b0012';
+const thirdId = '3b9f7a52-0c1e-4f3a-8d2b-5e6f7a8b0013';
+const draftId = '3b9f7a52-0c1e-4f3a-8d2b-5e6f7a8b0014';
+const siteId = '3b9f7a52-0c1e-4f3a-8d2b-5e6f7a8b0021';
+
+const models = {
+  posts: modelFactories.posts(testDb),
+  comments: modelFactories.comments(testDb),
+  users: modelFactories.users(testDb),
+  terms: modelFactories.terms(testDb),
+  sites: modelFactories.sites(testDb),
+};
+
+const block = (id: string, name: string, content: BlockConfig['content'] = {} as BlockConfig['content']): BlockConfig => ({
+  id,
+  name,
+  type: 'block',
+  parentId: null,
+  content,
+});
+
+const settings = (values: Record<string, unknown>) => values as BlockConfig['content'];
+
+const day = (n: number) => new Date(Date.UTC(2026, 0, n));
+
+let second: Post;
+
+beforeAll(async () => {
+  await testDb.insert(users).values({
+    id: authorId,
+    username: 'ada',
+    email: 'ada@example.com',
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    profileImageUrl: '/uploads/ada.png',
+    other: { bio: 'Writes about engines.' },
+  });
+  await testDb.insert(sites).values({ id: siteId, ownerId: authorId, isDefault: true, settings: {} });
+  await testDb.insert(posts).values([
+    { id: firstId, title: 'First', slug: 'first', status: 'publish', authorId, publishedAt: day(1) },
+    {
+      id: secondId,
+      title: 'Second',
+      slug: 'second',
+      status: 'publish',
+      authorId,
+      publishedAt: day(2),
+      excerpt: 'The second post',
+      blocks: [block('body', 'core/paragraph', { kind: 'text', value: '<p>One two three four</p>' })],
+    },
+    { id: thirdId, title: 'Third', slug: 'third', status: 'publish', authorId, publishedAt: day(3) },
+    { id: draftId, title: 'Draft', slug: 'draft', status: 'draft', authorId },
+    { title: 'Scheduled', slug: 'scheduled', status: 'publish', authorId, publishedAt: new Date(Date.now() + 86_400_000) },
+  ]);
+  second = (await models.posts.findById(secondId))!;
+
+  const news = await models.terms.create({ taxonomy: 'category', name: 'News', slug: 'news' });
+  const tag = await models.terms.create({ taxonomy: 'tag', name: 'engines', slug: 'engines' });
+  await models.terms.setPostTerms(secondId, 'category', [news.id]);
+  await models.terms.setPostTerms(secondId, 'tag', [tag.id]);
+
+  const parent = await models.comments.create({
+    postId: secondId,
+    authorName: 'Grace',
+    content: 'Great read',
+    status: 'approved',
+    createdAt: day(4),
+  });
+  await models.comments.create({ postId: secondId, authorId, content: 'Thanks!', status: 'approved', parentId: parent.id, createdAt: day(5) });
+  await models.comments.create({ postId: secondId, authorName: 'Spammer', content: 'Buy now', status: 'pending' });
+});
+
+afterAll(async () => {
+  await testDb.delete(comments);
+  await testDb.delete(termRelationships);
+  await testDb.delete(terms);
+  await testDb.delete(posts);
+  await testDb.delete(sites);
+  await testDb.delete(users);
+});
+
+describe('resolvePostBlocks', () => {
+  it('lists the latest published posts, filtered by term and in nested blocks', async () => {
+    const [group] = await resolvePostBlocks(
+      [
+        {
+          ...block('group', 'core/group', { kind: 'structured', data: {} }),
+          type: 'container',
+          children: [block('latest', 'post/list', settings({ layout: 'list', postsPerPage: 2 }))],
+        },
+      ],
+      { models }
+    );
+    const [news] = await resolvePostBlocks([block('news', 'post/list', settings({ category: 'news' }))], { models });
+
+    expect(group.children![0].content).toMatchObject({
+      layout: 'list',
+      posts: [
+        { title: 'Third', url: '/post/third', author: 'Ada Lovelace' },
+        { title: 'Second', url: '/post/second', excerpt: 'The second post', publishedAt: day(2).toISOString() },
+      ],
+    });
+    expect(news.content).toMatchObject({ posts: [{ title: 'Second' }] });
+
+    const html = renderBlockContent([group]);
+    expect(html).toContain('class="np-post-list np-post-list--list block-latest"');
+    expect(html).toContain('<a href="/post/third">Third</a>');
+    expect(html).not.toContain('First');
+  });
+
+  it('shows approved comments with their replies and a comment form', async () => {
+    const blocks = await resolvePostBlocks([block('comments', 'post/comments', settings({ showForm: true }))], {
+      models,
+      post: second,
+    });
+
+    expect(blocks[0].content).toMatchObject({
+      postId: secondId,
+      commentsOpen: true,
+      comments: [{ author: 'Grace', content: 'Great read', replies: [{ author: 'Ada Lovelace', content: 'Thanks!' }] }],
+    });
+
+    const html = renderBlockContent(blocks);
+    expect(html).toContain('2 Comments');
+    expect(html).toContain(`data-post-id="${secondId}"`);
+    expect(html).toContain('action="/api/comments"');
+    // The token is fetched per visitor, so cached HTML never carries one
+    expect(blocks[0].content).not.toHaveProperty('formToken');
+    expect(html).toContain('name="formToken" value=""');
+    expect(html).toContain('/api/comments/form-token');
+    expect(html).toContain('name="website"');
+    expect(html).not.toContain('Buy now');
+  });
+
+  it('closes comments when discussion is turned off site-wide', async () => {
+    await models.sites.updateSettings({ discussion: { enableComments: false } });
+    try {
+      const blocks = await resolvePostBlocks([block('comments', 'post/comments', settings({ showForm: true }))], {
+        models,
+        post: second,
+      });
+
+      expect(blocks[0].content).toMatchObject({ commentsOpen: false });
+      expect(renderBlockContent(blocks)).not.toContain('np-comment-form');
+    } finally {
+      await models.sites.updateSettings({ discussion: { enableComments: true } });
+    }
+  });
+
+  it('leaves the comment form and its token out when commentForm is off', async () => {
+    const blocks = await resolvePostBlocks([block('comments', 'post/comments', settings({ showForm: true }))], {
+      models,
+      post: second,
+      commentForm: false,
+    });
+
+    expect(blocks[0].content).toMatchObject({ showForm: false, comments: [{ author: 'Grace' }] });
+    expect(blocks[0].content).not.toHaveProperty('formToken');
+    const html = renderBlockContent(blocks);
+    expect(html).toContain('Great read');
+    expect(html).not.toContain('np-comment-form');
+    expect(html).not.toContain('/api/comments');
+  });
+
+  it('resolves navigation, author and post info for the post being rendered', async () => {
+    const blocks = await resolvePostBlocks(
+      [
+        block('nav', 'post/navigation', settings({ showLabel: true })),
+        block('author', 'post/author-box', settings({})),
+        block('info', 'post/info', settings({ dateFormat: 'long' })),
+      ],
+      { models, post: second }
+    );
+
+    expect(blocks.map((b) => b.content)).toMatchObject([
+      { prev: { title: 'First' }, next: { title: 'Third' } },
+      { author: { name: 'Ada Lovelace', avatar: '/uploads/ada.png', bio: 'Writes about engines.' } },
+      { categories: ['News'], tags: ['engines'], wordCount: 4 },
+    ]);
+
+    const html = renderBlockContent(blocks);
+    expect(html).toContain('rel="prev"');
+    expect(html).toContain('Next Post');
+    expect(html).toContain('Writes about engines.');
+    expect(html).toContain('January 2, 2026');
+    expect(html).toContain('1 min read');
+  });
+
+  it('anchors headings for the table of contents', async () => {
+    const heading = (id: string, value: string, level: number) =>
+      block(id, 'core/heading', { kind: 'text', value, level } as BlockConfig['content']);
+
+    const blocks = await resolvePostBlocks(
+      [
+        block('toc', 'post/toc', settings({ title: 'Contents', maxDepth: 2 })),
+        heading('h-setup', 'Getting Started', 2),
+        heading('h-details', 'Details', 3),
+        heading('h-again', 'Getting started', 2),
+      ],
+      { models }
+    );
+
+    expect(blocks[0].content).toMatchObject({
+      headings: [
+        { id: 'getting-started', text: 'Getting Started', level: 2 },
+        { id: 'getting-started-2', text: 'Getting started', level: 2 },
+      ],
+    });
+
+    const html = renderBlockContent(blocks);
+    expect(html).toContain('<a href="#getting-started-2">Getting started</a>');
+    expect(html).toContain('<h2 id="getting-started"');
+    expect(html).toContain('<h3 id="details"');
+  });
+
+  it('renders nothing for blocks whose post is missing or not published', async () => {
+    const blocks = await resolvePostBlocks(
+      [
+        block('comments', 'post/comments', settings({})),
+        block('nav', 'post/navigation', settings({ postId: draftId })),
+        block('info', 'post/info', settings({ postId: 'not-a-post' })),
+      ],
+      { models }
+    );
+
+    expect(blocks.map((b) => b.content)).toEqual([{}, { postId: draftId }, { postId: 'not-a-post' }]);
+    expect(renderBlockContent(blocks)).toBe('');
+  });
+});
@@ -0,0 +1,269 @@
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+import express from 'express';
+import { get as httpGet, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { testDb } from './setup';
+import { modelFactories } from '../storage';
+import { HookSystem } from '../hooks';
+import {
+  RenderCache,
+  MemoryCacheBackend,
+  FileCacheBackend,
+  createRenderCacheBackend,
+} from '../render-cache';
+import type { Deps } from '../routes/shared/deps';
+import { createRenderRoutes } from '../routes/render.routes';
+import { comments, pages, posts, sites, users } from '@shared/schema';
+
+const siteId = '550e8400-e29b-41d4-a716-446655440b00';
+
+describe('MemoryCacheBackend', () => {
+  it('evicts the least recently used entry', async () => {
+    const backend = new MemoryCacheBackend(2);
+    const entry = { html: 'x', etag: '"x"', lastModified: 0 };
+    await backend.set('a', entry);
+    await backend.set('b', entry);
+    await backend.get('a');
+    await backend.set('c', entry);
+
+    expect(await backend.get('a')).toBeDefined();
+    expect(await backend.get('b')).toBeUndefined();
+    expect(backend.size).toBe(2);
+  });
+});
+
+describe('FileCacheBackend', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'nextpress-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('persists entries and deletes by prefix', async () => {
+    const backend = new FileCacheBackend(directory);
+    const entry = { html: '<p>Hi</p>', etag: '"abc"', lastModified: 1000 };
+    await backend.set(`${siteId}/about/1`, entry);
+    await backend.set(`${siteId}/about/2`, entry);
+    await backend.set(`${siteId}/about-us/1`, entry);
+
+    expect(await new FileCacheBackend(directory).get(`${siteId}/about/2`)).toEqual(entry);
+
+    await backend.deletePrefix(`${siteId}/about/`);
+    expect(await backend.get(`${siteId}/about/1`)).toBeUndefined();
+    expect(await backend.get(`${siteId}/about-us/1`)).toEqual(entry);
+
+    await backend.clear();
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it('treats a missing directory as an empty cache', async () => {
+    const backend = new FileCacheBackend(path.join(directory, 'missing'));
+    expect(await backend.get('nope')).toBeUndefined();
+    await expect(backend.clear()).resolves.toBeUndefined();
+  });
+});
+
+describe('RenderCache', () => {
+  let cache: RenderCache;
+
+  beforeEach(() => {
+    cache = new RenderCache(new MemoryCacheBackend());
+  });
+
+  it('keys entries by site, slug and version', () => {
+    expect(RenderCache.key(siteId, 'about', 3)).toBe(`${siteId}/about/3`);
+    expect(RenderCache.key(siteId, 'about', null)).toBe(`${siteId}/about/0`);
+  });
+
+  it('derives a stable ETag and second-precision Last-Modified', async () => {
+    const key = RenderCache.key(siteId, 'about', 1);
+    const entry = await cache.set(key, '<h1>About</h1>', new Date('2026-01-02T03:04:05.678Z'));
+    const again = await cache.set(key, '<h1>About</h1>');
+
+    expect(entry.etag).toMatch(/^"[\w-]+"$/);
+    expect(again.etag).toBe(entry.etag);
+    expect(entry.lastModified).toBe(Date.parse('2026-01-02T03:04:05Z'));
+    expect(await cache.get(key)).toEqual(again);
+    expect(cache.stats()).toMatchObject({ backend: 'memory', hits: 1, misses: 0 });
+  });
+
+  it('invalidates from save_post and flushes on theme, template, pattern and settings changes', async () => {
+    const hooks = new HookSystem();
+    cache.listen(hooks);
+
+    const about = RenderCache.key(siteId, 'about', 1);
+    const contact = RenderCache.key(siteId, 'contact', 1);
+    await cache.set(about, 'about');
+    await cache.set(contact, 'contact');
+
+    await hooks.doActionAsync('save_post', { siteId, slug: 'about' });
+    expect(await cache.get(about)).toBeUndefined();
+    expect(await cache.get(contact)).toBeDefined();
+
+    await hooks.doActionAsync('switch_theme', {}, {});
+    expect(await cache.get(contact)).toBeUndefined();
+
+    await cache.set(contact, 'contact');
+    await hooks.doActionAsync('save_template', {});
+    expect(await cache.get(contact)).toBeUndefined();
+
+    await cache.set(contact, 'contact');
+    await hooks.doActionAsync('save_pattern', {});
+    expect(await cache.get(contact)).toBeUndefined();
+
+    await cache.set(contact, 'contact');
+    await hooks.doActionAsync('update_settings', {});
+    expect(await cache.get(contact)).toBeUndefined();
+  });
+
+  it('flushes when a blog post is saved, published, expired or deleted, since post lists may show it', async () => {
+    const hooks = new HookSystem();
+    cache.listen(hooks);
+    const about = RenderCache.key(siteId, 'about', 1);
+    const post = { slug: 'hello-world', status: 'publish', blogId: null };
+
+    for (const [action, arg] of [
+      ['save_post', post],
+      ['publish_post', post],
+      ['expire_post', { ...post, status: 'draft' }],
+      ['delete_post', 'post-id'],
+    ] as const) {
+      await cache.set(about, 'about');
+      await hooks.doActionAsync(action, arg);
+      expect(await cache.get(about), action).toBeUndefined();
+    }
+  });
+
+  it('keeps other pages when a page is saved, but flushes when a page is deleted', async () => {
+    const hooks = new HookSystem();
+    cache.listen(hooks);
+    const about = RenderCache.key(siteId, 'about', 1);
+    await cache.set(about, 'about');
+
+    await hooks.doActionAsync('expire_post', { siteId, slug: 'contact' });
+    expect(await cache.get(about)).toBeDefined();
+    await hooks.doActionAsync('save_post', { siteId: null, slug: 'about' });
+    expect(await cache.get(about)).toBeDefined();
+
+    await hooks.doActionAsync('delete_post', 'page-id');
+    expect(await cache.get(about)).toBeUndefined();
+  });
+
+  it('flushes when comments are added, approved, marked as spam or deleted', async () => {
+    const hooks = new HookSystem();
+    cache.listen(hooks);
+    const about = RenderCache.key(siteId, 'about', 1);
+    const comment = { id: 'comment-id', postId: 'post-id', status: 'approved' };
+
+    for (const [action, arg] of [
+      ['new_comment', comment],
+      ['approve_comment', comment],
+      ['spam_comment', { ...comment, status: 'spam' }],
+      ['delete_comment', comment.id],
+    ] as const) {
+      await cache.set(about, 'about');
+      await hooks.doActionAsync(action, arg);
+      expect(await cache.get(about), action).toBeUndefined();
+    }
+  });
+});
+
+describe('cached page route', () => {
+  const routeSiteId = '550e8400-e29b-41d4-a716-446655440b01';
+  const authorId = '550e8400-e29b-41d4-a716-446655440b02';
+  const postId = '550e8400-e29b-41d4-a716-446655440b03';
+  const models = {
+    sites: modelFactories.sites(testDb),
+    pages: modelFactories.pages(testDb),
+    posts: modelFactories.posts(testDb),
+    comments: modelFactories.comments(testDb),
+    users: modelFactories.users(testDb),
+    terms: modelFactories.terms(testDb),
+    patterns: modelFactories.patterns(testDb),
+    themes: modelFactories.themes(testDb),
+  };
+  const hooks = new HookSystem();
+  const cache = new RenderCache(new MemoryCacheBackend());
+  cache.listen(hooks);
+  let server: Server;
+  let pageUrl: string;
+
+  // node:http rather than fetch, which adds `cache-control: no-cache` to conditional requests
+  function get(headers: Record<string, string> = {}) {
+    return new Promise<{ status: number; headers: IncomingHttpHeaders; body: string }>((resolve, reject) => {
+      httpGet(pageUrl, { headers }, (res) => {
+        let body = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk) => (body += chunk));
+        res.on('end', () => resolve({ status: res.statusCode!, headers: res.headers, body }));
+      }).on('error', reject);
+    });
+  }
+
+  beforeAll(async () => {
+    await testDb.insert(users).values({ id: authorId, username: 'ada', email: 'ada@example.com' });
+    await testDb.insert(sites).values({
+      id: routeSiteId,
+      ownerId: authorId,
+      isDefault: true,
+      settings: { general: { siteUrl: 'https://example.com' }, system: { cachingEnabled: true } },
+    });
+    await testDb.insert(posts).values({ id: postId, title: 'Hello', slug: 'hello', status: 'publish', authorId });
+    // Saved long ago: only the render time can tell clients the page changed since
+    await testDb.insert(pages).values({
+      title: 'Guestbook',
+      slug: 'guestbook',
+      status: 'publish',
+      siteId: routeSiteId,
+      authorId,
+      updatedAt: new Date('2026-01-01T00:00:00Z'),
+      blocks: [{ id: 'comments', name: 'post/comments', type: 'block', parentId: null, content: { postId } }],
+    });
+
+    const app = express();
+    const deps = { models, renderCache: cache, themeManager: {}, getSiteSettings: () => ({}) } as unknown as Deps;
+    app.use(createRenderRoutes(deps));
+    server = app.listen(0);
+    pageUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/sites/${routeSiteId}/guestbook`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await testDb.delete(comments);
+    await testDb.delete(pages);
+    await testDb.delete(posts);
+    await testDb.delete(sites);
+    await testDb.delete(users);
+  });
+
+  it('answers 200 with the new comment once one is approved, not 304', async () => {
+    const first = await get();
+    expect(first.status).toBe(200);
+    const etag = first.headers.etag as string;
+    const lastModified = first.headers['last-modified'] as string;
+    expect(Date.parse(lastModified)).toBeGreaterThan(Date.parse('2026-01-01T00:00:00Z'));
+    expect((await get({ 'if-none-match': etag })).status).toBe(304);
+
+    const comment = await models.comments.create({ postId, authorName: 'Grace', content: 'Lovely page', status: 'approved' });
+    await hooks.doActionAsync('approve_comment', comment);
+
+    const after = await get({ 'if-none-match': etag, 'if-modified-since': lastModified });
+    expect(after.status).toBe(200);
+    expect(after.headers['x-cache']).toBe('MISS');
+    expect(after.body).toContain('Lovely page');
+  });
+});
+
+describe('createRenderCacheBackend', () => {
+  it('selects the backend by name', () => {
+    expect(createRenderCacheBackend('memory').name).toBe('memory');
+    expect(createRenderCacheBackend('filesystem').name).toBe('filesystem');
+  });
+});
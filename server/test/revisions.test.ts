@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { appendRevision, findRevision, requestedVersion, summarizeRevision, versionConflict } from '../revisions';
+import type { BlockConfig, Page, PageVersionEntry } from '@shared/schema-types';
+
+const block = (id: string, children?: BlockConfig[]): BlockConfig => ({
+  id,
+  name: 'core/paragraph',
+  type: children ? 'container' : 'block',
+  parentId: null,
+  content: { kind: 'text', value: id },
+  ...(children ? { children } : {}),
+});
+
+const entry = (version: number, blocks: BlockConfig[] = [block(`v${version}`)]): PageVersionEntry => ({
+  version,
+  updatedAt: new Date(2026, 0, version).toISOString(),
+  blocks,
+});
+
+const page = (overrides: Partial<Page> = {}) =>
+  ({
+    version: 3,
+    updatedAt: new Date('2026-02-01T00:00:00Z'),
+    blocks: [block('current')],
+    authorId: 'author-1',
+    history: [entry(2), entry(1)],
+    ...overrides,
+  }) as Page;
+
+describe('appendRevision', () => {
+  it('pushes the current blocks as the newest revision', () => {
+    const { version, history } = appendRevision(page());
+
+    expect(version).toBe(4);
+    expect(history.map((item) => item.version)).toEqual([3, 2, 1]);
+    expect(history[0]).toMatchObject({
+      updatedAt: '2026-02-01T00:00:00.000Z',
+      blocks: [block('current')],
+      authorId: 'author-1',
+    });
+  });
+
+  it('drops the oldest revisions past the limit', () => {
+    const { history } = appendRevision(page({ history: [entry(2), entry(1), entry(0)] }), { maxRevisions: 2 });
+    expect(history.map((item) => item.version)).toEqual([3, 2]);
+  });
+
+  it('skips the snapshot when the newest revision has the same blocks', () => {
+    const { version, history } = appendRevision(page({ history: [entry(2, [block('current')])] }));
+
+    expect(version).toBe(4);
+    expect(history.map((item) => item.version)).toEqual([2]);
+  });
+
+  it('starts a history for pages without one', () => {
+    const { version, history } = appendRevision(page({ version: undefined, history: undefined }));
+
+    expect(version).toBe(1);
+    expect(history).toHaveLength(1);
+    expect(history[0].version).toBe(0);
+  });
+});
+
+describe('summarizeRevision / findRevision', () => {
+  it('counts nested blocks and leaves the blocks out', () => {
+    const summary = summarizeRevision(entry(5, [block('a', [block('b'), block('c')]), block('d')]));
+
+    expect(summary).toEqual({
+      version: 5,
+      updatedAt: entry(5).updatedAt,
+      authorId: undefined,
+      message: undefined,
+      blockCount: 4,
+    });
+  });
+
+  it('finds revisions by version', () => {
+    expect(findRevision(page(), 1)?.blocks).toEqual([block('v1')]);
+    expect(findRevision(page(), 9)).toBeUndefined();
+    expect(findRevision(page({ history: undefined }), 1)).toBeUndefined();
+  });
+});
+
+describe('requestedVersion / versionConflict', () => {
+  it('reads integer versions only', () => {
+    expect(requestedVersion({ version: 4 })).toBe(4);
+    expect(requestedVersion({ version: '4' })).toBeUndefined();
+    expect(requestedVersion({})).toBeUndefined();
+    expect(requestedVersion(null)).toBeUndefined();
+  });
+
+  it('returns the current record and the revision the client started from', () => {
+    const current = page();
+    const conflict = versionConflict(current, 2, 'Changed');
+
+    expect(conflict.message).toBe('Changed');
+    expect(conflict.current).toBe(current);
+    expect(conflict.base?.version).toBe(2);
+  });
+
+  it('falls back to the newest earlier revision, or none once pruned', () => {
+    expect(versionConflict(page({ history: [entry(2), entry(0)] }), 1, '').base?.version).toBe(0);
+    expect(versionConflict(page({ history: [entry(2)] }), 1, '').base).toBeNull();
+  });
+});
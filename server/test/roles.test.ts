@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import express from 'express';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { testDb } from './setup';
+import { modelFactories } from '../storage';
+import { HookSystem } from '../hooks';
+import { buildCapabilityGuards, type Deps } from '../routes/shared/deps';
+import { createRolesRoutes } from '../routes/roles.routes';
+import { roles, sites, userRoles, users } from '@shared/schema';
+import { getCapabilityNames, toCapabilityEntries } from '@shared/capabilities';
+
+const ownerId = '8a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b0001';
+const managerId = '8a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b0002';
+const writerId = '8a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b0003';
+const editorId = '8a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b0004';
+const siteA = '8a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b0011';
+const siteB = '8a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b0012';
+const adminRole = '8a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b0021';
+const managerRole = '8a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b0022';
+const writerRole = '8a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b0023';
+const editorRole = '8a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b0024';
+
+const models = {
+  sites: modelFactories.sites(testDb),
+  roles: modelFactories.roles(testDb),
+  userRoles: modelFactories.userRoles(testDb),
+  users: modelFactories.users(testDb),
+};
+
+let server: Server;
+let baseUrl: string;
+
+/** Calls the roles API as `userId`, or signed out */
+async function call(userId: string | null, method: string, path: string, body?: unknown) {
+  const response = await fetch(`${baseUrl}/api/roles${path}`, {
+    method,
+    headers: {
+      'content-type': 'application/json',
+      ...(userId ? { 'x-test-user': userId } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+beforeAll(async () => {
+  await testDb.insert(users).values([
+    { id: ownerId, username: 'owner', email: 'owner@example.com' },
+    { id: managerId, username: 'manager', email: 'manager@example.com' },
+    { id: writerId, username: 'writer', email: 'writer@example.com' },
+    { id: editorId, username: 'editor', email: 'editor@example.com' },
+  ]);
+  await testDb.insert(sites).values([
+    { id: siteA, ownerId, isDefault: true },
+    { id: siteB, ownerId },
+  ]);
+  await testDb.insert(roles).values([
+    { id: adminRole, name: 'admin', capabilities: ['manage_users', 'manage_roles', 'manage_settings'] },
+    { id: managerRole, name: 'manager', capabilities: ['list_users', 'manage_users', 'edit_posts'] },
+    { id: writerRole, name: 'writer', capabilities: ['edit_posts'] },
+    { id: editorRole, name: 'role editor', capabilities: ['manage_roles', 'edit_posts'] },
+  ]);
+  await testDb.insert(userRoles).values([
+    { userId: managerId, roleId: managerRole, siteId: siteA },
+    { userId: editorId, roleId: editorRole, siteId: siteA },
+  ]);
+
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    const userId = req.get('x-test-user');
+    (req as any).session = userId ? { localUser: { id: userId } } : {};
+    next();
+  });
+  const deps = { models, hooks: new HookSystem(), ...buildCapabilityGuards(models) } as unknown as Deps;
+  app.use('/api/roles', createRolesRoutes(deps));
+
+  server = app.listen(0);
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await testDb.delete(userRoles);
+  await testDb.delete(roles);
+  await testDb.delete(sites);
+  await testDb.delete(users);
+});
+
+describe('roles routes', () => {
+  it('creates, updates and deletes custom roles with manage_roles', async () => {
+    expect((await call(null, 'POST', '/', { name: 'reviewer' })).status).toBe(401);
+    expect((await call(managerId, 'POST', '/', { name: 'reviewer' })).status).toBe(403);
+
+    const created = await call(ownerId, 'POST', '/', { name: 'reviewer', capabilities: ['edit_posts'] });
+    expect(created).toMatchObject({ status: 201, body: { name: 'reviewer' } });
+    expect(getCapabilityNames(created.body.capabilities)).toEqual(['edit_posts']);
+    expect((await call(ownerId, 'POST', '/', { name: 'reviewer' })).status).toBe(400);
+    expect((await call(ownerId, 'POST', '/', { name: ' ' })).status).toBe(400);
+
+    const listed = await call(managerId, 'GET', '/');
+    expect(listed.body.roles.map((role: { name: string }) => role.name)).toContain('reviewer');
+
+    const updated = await call(ownerId, 'PUT', `/${created.body.id}`, {
+      name: 'proofreader',
+      capabilities: ['edit_posts', 'edit_pages'],
+    });
+    expect(updated).toMatchObject({ status: 200, body: { name: 'proofreader' } });
+    expect(getCapabilityNames(updated.body.capabilities)).toEqual(['edit_posts', 'edit_pages']);
+
+    await models.userRoles.assignRole(writerId, created.body.id, siteA);
+    expect((await call(ownerId, 'DELETE', `/${created.body.id}`)).status).toBe(200);
+    expect(await models.roles.findById(created.body.id)).toBeUndefined();
+    expect(await models.userRoles.findByUserAndSite(writerId, siteA)).toEqual([]);
+    expect((await call(ownerId, 'GET', `/${created.body.id}`)).status).toBe(404);
+  });
+
+  it('keeps built-in roles from being renamed or deleted', async () => {
+    expect(await call(ownerId, 'PUT', `/${adminRole}`, { name: 'superuser' })).toMatchObject({
+      status: 400,
+      body: { message: 'Built-in roles cannot be renamed' },
+    });
+    expect((await call(ownerId, 'PUT', `/${adminRole}`, { description: 'Runs the site' })).status).toBe(200);
+    expect(await call(ownerId, 'DELETE', `/${adminRole}`)).toMatchObject({
+      status: 400,
+      body: { message: 'Built-in roles cannot be deleted' },
+    });
+    expect(await models.roles.findById(adminRole)).toBeDefined();
+  });
+
+  it('keeps the capabilities of built-in roles fixed', async () => {
+    expect(await call(ownerId, 'PUT', `/${adminRole}`, { capabilities: ['manage_users'] })).toMatchObject({
+      status: 400,
+      body: { message: 'Built-in role capabilities cannot be changed' },
+    });
+    const unchanged = await call(ownerId, 'PUT', `/${adminRole}`, {
+      capabilities: ['manage_users', 'manage_roles', 'manage_settings'],
+    });
+    expect(unchanged.status).toBe(200);
+    expect(getCapabilityNames(unchanged.body.capabilities)).toEqual(['manage_users', 'manage_roles', 'manage_settings']);
+  });
+
+  it('refuses to create or edit roles with capabilities the caller lacks', async () => {
+    expect(await call(editorId, 'POST', '/', { name: 'escalated', capabilities: ['edit_posts', 'manage_settings'] })).toMatchObject({
+      status: 403,
+      body: { message: "Forbidden: the role would grant 'manage_settings', which you don't have" },
+    });
+    expect(await models.roles.findByName('escalated')).toBeUndefined();
+
+    const created = await call(editorId, 'POST', '/', { name: 'copyeditor', capabilities: ['edit_posts'] });
+    expect(created.status).toBe(201);
+
+    expect(await call(editorId, 'PUT', `/${created.body.id}`, { capabilities: ['edit_posts', 'manage_settings'] })).toMatchObject({
+      status: 403,
+      body: { message: "Forbidden: the change touches 'manage_settings', which you don't have" },
+    });
+    expect(getCapabilityNames((await models.roles.findById(created.body.id))!.capabilities)).toEqual(['edit_posts']);
+
+    // Removing a capability the caller lacks is refused too
+    await models.roles.update(created.body.id, { capabilities: toCapabilityEntries(['edit_posts', 'manage_settings']) });
+    expect((await call(editorId, 'PUT', `/${created.body.id}`, { capabilities: ['edit_posts'] })).status).toBe(403);
+    expect((await call(editorId, 'PUT', `/${created.body.id}`, { capabilities: ['manage_settings'] })).status).toBe(200);
+
+    expect((await call(ownerId, 'DELETE', `/${created.body.id}`)).status).toBe(200);
+  });
+
+  it('assigns and revokes roles whose capabilities the caller holds', async () => {
+    expect((await call(writerId, 'POST', `/${writerRole}/assign`, { userId: writerId })).status).toBe(403);
+
+    const assigned = await call(managerId, 'POST', `/${writerRole}/assign`, { userId: writerId });
+    expect(assigned).toMatchObject({ status: 201, body: { userId: writerId, roleId: writerRole, siteId: siteA } });
+
+    const assignments = await call(managerId, 'GET', `/assignments?user_id=${writerId}`);
+    expect(assignments.body).toMatchObject({ siteId: siteA, assignments: [{ roleId: writerRole }] });
+
+    expect((await call(managerId, 'DELETE', `/${writerRole}/assign/${writerId}`)).status).toBe(200);
+    expect((await call(managerId, 'DELETE', `/${writerRole}/assign/${writerId}`)).status).toBe(404);
+  });
+
+  it('refuses to assign or revoke roles granting capabilities the caller lacks', async () => {
+    expect(await call(managerId, 'POST', `/${adminRole}/assign`, { userId: managerId })).toMatchObject({
+      status: 403,
+      body: { message: "Forbidden: the role grants 'manage_roles', which you don't have" },
+    });
+    expect(await models.userRoles.findByUserAndSite(managerId, siteA)).toHaveLength(1);
+
+    await models.userRoles.assignRole(ownerId, adminRole, siteA);
+    expect((await call(managerId, 'DELETE', `/${adminRole}/assign/${ownerId}`)).status).toBe(403);
+    expect((await call(ownerId, 'DELETE', `/${adminRole}/assign/${ownerId}`)).status).toBe(200);
+  });
+
+  it('reads the site from siteId like the capability guard', async () => {
+    // The manager's role is on site A only
+    expect((await call(managerId, 'GET', `/assignments?siteId=${siteB}`)).status).toBe(403);
+    expect((await call(managerId, 'POST', `/${writerRole}/assign`, { userId: writerId, siteId: siteB })).status).toBe(403);
+
+    const assigned = await call(ownerId, 'POST', `/${writerRole}/assign`, { userId: writerId, siteId: siteB });
+    expect(assigned).toMatchObject({ status: 201, body: { siteId: siteB } });
+
+    const onB = await call(ownerId, 'GET', `/assignments?siteId=${siteB}`);
+    expect(onB.body).toMatchObject({ siteId: siteB, assignments: [{ userId: writerId, roleId: writerRole }] });
+    expect((await call(ownerId, 'GET', '/assignments')).body.assignments).not.toContainEqual(
+      expect.objectContaining({ siteId: siteB })
+    );
+
+    expect((await call(ownerId, 'DELETE', `/${writerRole}/assign/${writerId}?siteId=${siteB}`)).status).toBe(200);
+  });
+});
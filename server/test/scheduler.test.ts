@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { testDb } from './setup';
+import { createJobModel, createPageModel, createPostModel } from '../storage';
+import { HookSystem } from '../hooks';
+import { JobScheduler } from '../scheduler';
+import { EXPIRE_JOB, PUBLISH_JOB, registerPublishingJobs, resolveSchedule } from '../publishing';
+import { jobs, posts, users } from '@shared/schema';
+
+const userId = '550e8400-e29b-41d4-a716-446655440c00';
+const jobModel = createJobModel(testDb);
+const postModel = createPostModel(testDb);
+const pageModel = createPageModel(testDb);
+
+const inMinutes = (n: number) => new Date(Date.now() + n * 60_000);
+
+beforeAll(async () => {
+  await testDb.insert(users).values({ id: userId, username: 'scheduler-author' });
+});
+
+beforeEach(async () => {
+  await testDb.delete(jobs);
+  await testDb.delete(posts);
+});
+
+describe('resolveSchedule', () => {
+  const now = new Date('2026-06-01T12:00:00Z');
+  const later = new Date('2026-06-02T12:00:00Z');
+  const earlier = new Date('2026-05-31T12:00:00Z');
+
+  it('schedules future publishing and publishes past schedules', () => {
+    expect(resolveSchedule({ status: 'publish', publishedAt: later }, null, now)).toEqual({ status: 'future' });
+    expect(resolveSchedule({ status: 'future', publishedAt: earlier }, null, now)).toEqual({ status: 'publish' });
+    expect(resolveSchedule({ status: 'draft', publishedAt: later }, null, now)).toEqual({ status: 'draft' });
+  });
+
+  it('takes missing fields from the existing record', () => {
+    const existing = { status: 'publish', publishedAt: earlier, expiresAt: null };
+    expect(resolveSchedule({ publishedAt: later }, existing, now)).toEqual({ status: 'future' });
+    expect(resolveSchedule({}, { ...existing, status: 'future', publishedAt: later }, now)).toEqual({ status: 'future' });
+  });
+
+  it('rejects schedules without a date and expiry before publishing', () => {
+    expect(resolveSchedule({ status: 'future' }, null, now).error).toMatch(/publish date is required/);
+    expect(resolveSchedule({ status: 'publish', publishedAt: later, expiresAt: now }, null, now).error).toMatch(
+      /expiry date must be after/
+    );
+  });
+});
+
+describe('JobScheduler', () => {
+  it('runs due jobs and leaves later ones queued', async () => {
+    const scheduler = new JobScheduler(jobModel);
+    const seen: unknown[] = [];
+    scheduler.register('note', (payload) => {
+      seen.push(payload.n);
+    });
+
+    await scheduler.schedule('note', inMinutes(-2), { n: 1 });
+    await scheduler.schedule('note', inMinutes(-1), { n: 2 });
+    await scheduler.schedule('note', inMinutes(60), { n: 3 });
+
+    expect(await scheduler.runDue()).toBe(2);
+    expect(seen).toEqual([1, 2]);
+    expect(await jobModel.count({ where: [{ where: 'status', equals: 'pending' }] })).toBe(1);
+  });
+
+  it('retries failing jobs with backoff until attempts run out', async () => {
+    const scheduler = new JobScheduler(jobModel, { maxAttempts: 2, retryDelay: 1000 });
+    scheduler.register('flaky', () => {
+      throw new Error('unavailable');
+    });
+    const job = await scheduler.schedule('flaky', inMinutes(-1));
+
+    await scheduler.runDue();
+    const retried = await jobModel.findById(job.id);
+    expect(retried).toMatchObject({ status: 'pending', attempts: 1, lastError: 'unavailable' });
+    expect(retried!.runAt.getTime()).toBeGreaterThan(Date.now());
+
+    await scheduler.runDue(inMinutes(1));
+    expect(await jobModel.findById(job.id)).toMatchObject({ status: 'failed', attempts: 2 });
+  });
+
+  it('fails jobs without a handler', async () => {
+    const job = await new JobScheduler(jobModel).schedule('unknown', inMinutes(-1));
+    await new JobScheduler(jobModel).runDue();
+
+    expect(await jobModel.findById(job.id)).toMatchObject({ status: 'failed' });
+  });
+
+  it('re-queues jobs interrupted by a restart when started', async () => {
+    const scheduler = new JobScheduler(jobModel, { pollInterval: 60_000 });
+    const job = await scheduler.schedule('resume', inMinutes(-1));
+    await jobModel.claimDue(new Date(Date.now() - 1000), 10);
+
+    let ran = 0;
+    scheduler.register('resume', () => {
+      ran++;
+    });
+    await scheduler.start();
+    scheduler.stop();
+
+    expect(ran).toBe(1);
+    expect((await jobModel.findById(job.id))?.status).toBe('completed');
+  });
+});
+
+describe('registerPublishingJobs', () => {
+  let hooks: HookSystem;
+  let scheduler: JobScheduler;
+
+  beforeEach(() => {
+    hooks = new HookSystem();
+    scheduler = new JobScheduler(jobModel);
+    registerPublishingJobs(scheduler, { posts: postModel, pages: pageModel }, hooks);
+  });
+
+  it('publishes a scheduled post when it falls due', async () => {
+    const published: string[] = [];
+    hooks.addAction('publish_post', (post: { id: string }) => {
+      published.push(post.id);
+    });
+
+    const post = await postModel.create({
+      title: 'Launch',
+      slug: 'launch',
+      authorId: userId,
+      status: 'future',
+      publishedAt: inMinutes(30),
+    });
+    await hooks.doActionAsync('save_post', post);
+
+    expect(await jobModel.findPending(`publish:${post.id}`)).toMatchObject({ type: PUBLISH_JOB });
+    expect(await scheduler.runDue()).toBe(0);
+
+    await postModel.update(post.id, { publishedAt: inMinutes(-1) });
+    await scheduler.runDue(inMinutes(31));
+
+    expect((await postModel.findById(post.id))?.status).toBe('publish');
+    expect(published).toEqual([post.id]);
+  });
+
+  it('saves status changes as a new version with a revision, like an edit', async () => {
+    const post = await postModel.create({
+      title: 'Sale',
+      slug: 'sale',
+      authorId: userId,
+      status: 'publish',
+      blocks: [{ id: 'b1', name: 'core/paragraph', attributes: { content: 'Half price' } }],
+      version: 2,
+      expiresAt: inMinutes(-1),
+    });
+    await hooks.doActionAsync('save_post', post);
+    await scheduler.runDue();
+
+    const expired = await postModel.findById(post.id);
+    expect(expired).toMatchObject({ status: 'draft', version: 3 });
+    expect(expired?.history).toEqual([expect.objectContaining({ version: 2, blocks: post.blocks })]);
+  });
+
+  it('moves expired content back to draft', async () => {
+    const expired: string[] = [];
+    hooks.addAction('expire_post', (post: { id: string }) => {
+      expired.push(post.id);
+    });
+
+    const post = await postModel.create({
+      title: 'Offer',
+      slug: 'offer',
+      authorId: userId,
+      status: 'publish',
+      expiresAt: inMinutes(-1),
+    });
+    await hooks.doActionAsync('save_post', post);
+    expect(await jobModel.findPending(`expire:${post.id}`)).toMatchObject({ type: EXPIRE_JOB });
+
+    await scheduler.runDue();
+
+    expect((await postModel.findById(post.id))?.status).toBe('draft');
+    expect(expired).toEqual([post.id]);
+  });
+
+  it('drops jobs when content is unscheduled or deleted', async () => {
+    const post = await postModel.create({
+      title: 'Maybe',
+      slug: 'maybe',
+      authorId: userId,
+      status: 'future',
+      publishedAt: inMinutes(30),
+      expiresAt: inMinutes(90),
+    });
+    await hooks.doActionAsync('save_post', post);
+    expect(await jobModel.count()).toBe(2);
+
+    await hooks.doActionAsync('save_post', await postModel.update(post.id, { status: 'draft' }));
+    expect(await jobModel.count()).toBe(0);
+
+    await hooks.doActionAsync('save_post', await postModel.update(post.id, { status: 'future' }));
+    await hooks.doActionAsync('delete_post', post.id);
+    expect(await jobModel.count()).toBe(0);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SNIPPET_MARKERS,
+  extractBlockText,
+  formatSnippet,
+  htmlToText,
+  parseSearchTypes,
+  renderSearchResults,
+  searchPageUrl,
+  toSearchResult,
+} from '../search';
+
+describe('htmlToText', () => {
+  it('drops tags, scripts and entities', () => {
+    expect(htmlToText('<p>Fish &amp; <b>chips</b></p><script>alert(1)</script>&nbsp;today')).toBe(
+      'Fish & chips today'
+    );
+  });
+});
+
+describe('extractBlockText', () => {
+  it('collects readable text from nested blocks and skips settings', () => {
+    const text = extractBlockText([
+      { id: 'a', name: 'core/heading', content: { kind: 'text', value: 'Opening <em>hours</em>', level: 2 } },
+      {
+        id: 'b',
+        name: 'core/group',
+        content: { kind: 'structured', data: { layout: 'flex', gap: '16px' } },
+        children: [
+          { id: 'c', name: 'core/image', content: { kind: 'media', url: '/uploads/a.png', alt: 'Shop front', caption: 'Main street' } },
+          {
+            id: 'd',
+            name: 'core/buttons',
+            content: { kind: 'structured', data: { buttons: [{ id: 'x', text: 'Book a table', url: '#book' }] } },
+          },
+        ],
+      },
+      { id: 'e', name: 'core/table', content: { kind: 'structured', data: { rows: [['Monday', '9am']] } } },
+    ]);
+
+    expect(text.split('\n')).toEqual(['Opening hours', 'Shop front', 'Main street', 'Book a table', 'Monday', '9am']);
+  });
+
+  it('ignores non-array input', () => {
+    expect(extractBlockText(null)).toBe('');
+  });
+});
+
+describe('formatSnippet', () => {
+  it('escapes the passage before adding marks', () => {
+    const { start, stop } = SNIPPET_MARKERS;
+    expect(formatSnippet(`a <b> ${start}tomato${stop} & more`)).toBe('a &lt;b&gt; <mark>tomato</mark> &amp; more');
+  });
+});
+
+describe('parseSearchTypes', () => {
+  it('keeps known types and falls back when none are left', () => {
+    expect(parseSearchTypes('post, media,comment', ['post'])).toEqual(['post', 'media']);
+    expect(parseSearchTypes('comment', ['post', 'page'])).toEqual(['post', 'page']);
+    expect(parseSearchTypes(undefined, ['page'])).toEqual(['page']);
+  });
+});
+
+describe('renderSearchResults', () => {
+  const result = toSearchResult(
+    {
+      objectType: 'post',
+      objectId: 'id-1',
+      title: 'Tomatoes <3',
+      url: '/post/tomatoes',
+      status: 'publish',
+      publishedAt: null,
+      rank: 0.5,
+      headline: `${SNIPPET_MARKERS.start}Tomatoes${SNIPPET_MARKERS.stop} grow fast`,
+    },
+    'https://example.com'
+  );
+
+  it('links results and pages', () => {
+    const html = renderSearchResults([result], {
+      query: 'tomato',
+      page: 2,
+      totalPages: 3,
+      total: 21,
+      baseUrl: 'https://example.com',
+    });
+
+    expect(html).toContain('<a href="https://example.com/post/tomatoes">Tomatoes &lt;3</a>');
+    expect(html).toContain('<mark>Tomatoes</mark> grow fast');
+    expect(html).toContain('21 results');
+    expect(html).toContain(`href="${searchPageUrl('https://example.com', 'tomato')}"`);
+    expect(html).toContain('href="https://example.com/search?q=tomato&amp;page=3"');
+  });
+
+  it('renders empty states', () => {
+    const options = { page: 1, totalPages: 1, total: 0, baseUrl: '' };
+    expect(renderSearchResults([], { ...options, query: '' })).toContain('Enter a word or phrase');
+    expect(renderSearchResults([], { ...options, query: '<x>' })).toContain('Nothing matched &ldquo;&lt;x&gt;&rdquo;');
+  });
+});
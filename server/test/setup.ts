@@ -54,6 +54,7 @@ beforeAll(async () => {
 			author_id UUID NOT NULL REFERENCES users(id),
 			featured_image VARCHAR,
 			published_at TIMESTAMP,
+			expires_at TIMESTAMP,
 			allow_comments BOOLEAN DEFAULT true,
 			password VARCHAR,
 			parent_id UUID,
@@ -95,16 +96,65 @@ beforeAll(async () => {
 			featured_image VARCHAR,
 			excerpt TEXT,
 			published_at TIMESTAMP,
+			expires_at TIMESTAMP,
 			allow_comments BOOLEAN DEFAULT true,
 			password VARCHAR,
 			parent_id UUID,
 			template_id UUID,
 			blocks JSONB DEFAULT '[]',
+			version INTEGER NOT NULL DEFAULT 0,
+			history JSONB DEFAULT '[]',
 			settings JSONB DEFAULT '{}',
 			created_at TIMESTAMP DEFAULT NOW(),
 			updated_at TIMESTAMP DEFAULT NOW(),
 			blog_id UUID REFERENCES blogs(id),
-			other JSONB DEFAULT '{"categories":[],"tags":[]}'
+			other JSONB DEFAULT '{}'
+		)
+	`);
+
+  await client.exec(`
+		CREATE TABLE IF NOT EXISTS terms (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			taxonomy VARCHAR NOT NULL,
+			name VARCHAR NOT NULL,
+			slug VARCHAR NOT NULL,
+			description TEXT,
+			parent_id UUID,
+			created_at TIMESTAMP DEFAULT NOW(),
+			updated_at TIMESTAMP DEFAULT NOW(),
+			other JSONB DEFAULT '{}',
+			CONSTRAINT terms_taxonomy_slug_unique UNIQUE (taxonomy, slug)
+		)
+	`);
+
+  await client.exec(`
+		CREATE TABLE IF NOT EXISTS term_relationships (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+			term_id UUID NOT NULL REFERENCES terms(id) ON DELETE CASCADE,
+			created_at TIMESTAMP DEFAULT NOW(),
+			CONSTRAINT term_relationships_post_term_unique UNIQUE (post_id, term_id)
+		)
+	`);
+
+  await client.exec(`
+		CREATE TABLE IF NOT EXISTS search_index (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			object_type VARCHAR NOT NULL,
+			object_id UUID NOT NULL,
+			title TEXT NOT NULL DEFAULT '',
+			excerpt TEXT,
+			content TEXT,
+			url VARCHAR,
+			status VARCHAR,
+			published_at TIMESTAMP,
+			updated_at TIMESTAMP DEFAULT NOW(),
+			search_vector TSVECTOR GENERATED ALWAYS AS (
+				setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+				setweight(to_tsvector('english', coalesce(excerpt, '')), 'B') ||
+				setweight(to_tsvector('english', coalesce(content, '')), 'C')
+			) STORED,
+			CONSTRAINT search_index_object_unique UNIQUE (object_type, object_id)
 		)
 	`);
 
@@ -141,6 +191,74 @@ beforeAll(async () => {
 		)
 	`);
 
+  await client.exec(`
+		CREATE TABLE IF NOT EXISTS jobs (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			type VARCHAR NOT NULL,
+			key VARCHAR,
+			payload JSONB DEFAULT '{}',
+			run_at TIMESTAMP NOT NULL,
+			status VARCHAR NOT NULL DEFAULT 'pending',
+			attempts INTEGER NOT NULL DEFAULT 0,
+			last_error TEXT,
+			locked_at TIMESTAMP,
+			created_at TIMESTAMP DEFAULT NOW(),
+			updated_at TIMESTAMP DEFAULT NOW(),
+			CONSTRAINT jobs_key_unique UNIQUE (key)
+		)
+	`);
+
+  await client.exec(`
+		CREATE TABLE IF NOT EXISTS webhooks (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			name VARCHAR NOT NULL,
+			url VARCHAR NOT NULL,
+			events JSONB NOT NULL DEFAULT '[]',
+			secret VARCHAR NOT NULL,
+			active BOOLEAN NOT NULL DEFAULT true,
+			created_at TIMESTAMP DEFAULT NOW(),
+			updated_at TIMESTAMP DEFAULT NOW()
+		)
+	`);
+
+  await client.exec(`
+		CREATE TABLE IF NOT EXISTS webhook_deliveries (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+			event VARCHAR NOT NULL,
+			payload JSONB NOT NULL,
+			status VARCHAR NOT NULL DEFAULT 'pending',
+			attempts INTEGER NOT NULL DEFAULT 0,
+			response_status INTEGER,
+			response_body TEXT,
+			error TEXT,
+			duration_ms INTEGER,
+			next_attempt_at TIMESTAMP,
+			delivered_at TIMESTAMP,
+			created_at TIMESTAMP DEFAULT NOW(),
+			updated_at TIMESTAMP DEFAULT NOW()
+		)
+	`);
+
+  await client.exec(`
+		CREATE TABLE IF NOT EXISTS email_outbox (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			template VARCHAR NOT NULL,
+			"to" VARCHAR NOT NULL,
+			subject VARCHAR NOT NULL,
+			text TEXT NOT NULL,
+			html TEXT,
+			status VARCHAR NOT NULL DEFAULT 'pending',
+			attempts INTEGER NOT NULL DEFAULT 0,
+			error TEXT,
+			message_id VARCHAR,
+			next_attempt_at TIMESTAMP,
+			sent_at TIMESTAMP,
+			created_at TIMESTAMP DEFAULT NOW(),
+			updated_at TIMESTAMP DEFAULT NOW()
+		)
+	`);
+
   await client.exec(`
 		CREATE TABLE IF NOT EXISTS themes (
 			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -207,6 +325,23 @@ beforeAll(async () => {
 		)
 	`);
 
+  await client.exec(`
+		CREATE TABLE IF NOT EXISTS patterns (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			name VARCHAR NOT NULL,
+			description TEXT,
+			author_id UUID NOT NULL REFERENCES users(id),
+			blocks JSONB NOT NULL DEFAULT '[]',
+			category VARCHAR NOT NULL DEFAULT 'uncategorized',
+			keywords JSONB NOT NULL DEFAULT '[]',
+			thumbnail TEXT,
+			synced BOOLEAN NOT NULL DEFAULT true,
+			other JSONB DEFAULT '{}',
+			created_at TIMESTAMP DEFAULT NOW(),
+			updated_at TIMESTAMP DEFAULT NOW()
+		)
+	`);
+
   await client.exec(`
 		CREATE TABLE IF NOT EXISTS roles (
 			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  absoluteUrl,
+  buildSitemapIndex,
+  buildUrlSet,
+  collectBlockImages,
+  escapeXml,
+  isNoIndex,
+  sitemapFileName,
+} from '../sitemap';
+
+describe('sitemap helpers', () => {
+  it('escapes XML special characters', () => {
+    expect(escapeXml(`a&b<c>"d'`)).toBe('a&amp;b&lt;c&gt;&quot;d&apos;');
+  });
+
+  it('resolves root-relative URLs against the site URL', () => {
+    expect(absoluteUrl('https://example.com/', '/uploads/a.png')).toBe('https://example.com/uploads/a.png');
+    expect(absoluteUrl('https://example.com', 'https://cdn.example.net/a.png')).toBe('https://cdn.example.net/a.png');
+  });
+
+  it('detects noIndex from other.seo', () => {
+    expect(isNoIndex({ other: { seo: { noIndex: true } } })).toBe(true);
+    expect(isNoIndex({ other: {} })).toBe(false);
+    expect(isNoIndex({ other: null })).toBe(false);
+  });
+
+  it('names paginated sitemap files', () => {
+    expect(sitemapFileName('posts', 2)).toBe('sitemap-posts-2.xml');
+  });
+});
+
+describe('collectBlockImages', () => {
+  it('collects image media, gallery images and nested children', () => {
+    const blocks = [
+      { id: '1', name: 'core/image', content: { kind: 'media', mediaType: 'image', url: '/uploads/a.png', alt: 'A' } },
+      { id: '2', name: 'core/video', content: { kind: 'media', mediaType: 'video', url: '/uploads/v.mp4' } },
+      {
+        id: '3',
+        name: 'core/group',
+        content: { kind: 'structured', data: {} },
+        children: [
+          {
+            id: '4',
+            name: 'core/gallery',
+            content: { kind: 'media', mediaType: 'image', url: '', images: [{ url: '/uploads/b.png', caption: 'B' }] },
+          },
+        ],
+      },
+    ];
+
+    expect(collectBlockImages(blocks)).toEqual([
+      { loc: '/uploads/a.png', title: 'A', caption: undefined },
+      { loc: '/uploads/b.png', title: undefined, caption: 'B' },
+    ]);
+  });
+
+  it('ignores non-array input', () => {
+    expect(collectBlockImages(null)).toEqual([]);
+  });
+});
+
+describe('sitemap documents', () => {
+  it('renders a urlset with lastmod and deduplicated images', () => {
+    const xml = buildUrlSet([
+      {
+        loc: 'https://example.com/post/a&b',
+        lastmod: new Date('2026-03-04T05:06:07Z'),
+        images: [
+          { loc: 'https://example.com/uploads/a.png', title: 'A' },
+          { loc: 'https://example.com/uploads/a.png' },
+        ],
+      },
+      { loc: 'https://example.com/page/about', lastmod: null },
+    ]);
+
+    expect(xml).toContain('xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"');
+    expect(xml).toContain(
+      '<url><loc>https://example.com/post/a&amp;b</loc><lastmod>2026-03-04T05:06:07.000Z</lastmod><image:image><image:loc>https://example.com/uploads/a.png</image:loc><image:title>A</image:title></image:image></url>'
+    );
+    expect(xml).toContain('<url><loc>https://example.com/page/about</loc></url>');
+  });
+
+  it('renders a sitemap index', () => {
+    const xml = buildSitemapIndex([{ loc: 'https://example.com/sitemap-pages-1.xml' }]);
+    expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<sitemapindex /);
+    expect(xml).toContain('<sitemap><loc>https://example.com/sitemap-pages-1.xml</loc></sitemap>');
+  });
+});
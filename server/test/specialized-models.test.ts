@@ -3,21 +3,28 @@ import { testDb } from './setup';
 import {
   createUserModel,
   createPostModel,
+  createTermModel,
+  createSearchIndexModel,
   createCommentModel,
   createPageModel,
   createMediaModel,
+  createJobModel,
   createThemeModel,
   createPluginModel,
   createOptionModel,
   createTemplateModel,
 } from '../storage';
+import { DEFAULT_GLOBAL_STYLES } from '@shared/global-styles';
 import {
   blogs,
   users,
   posts,
+  terms,
+  searchIndex,
   comments,
   pages,
   media,
+  jobs,
   themes,
   plugins,
   options,
@@ -204,6 +211,12 @@ describe('Specialized Model Factories', () => {
       }
     });
 
+    it('should only update a post still at the expected version', async () => {
+      const saved = await postModel.updateVersioned(testUuids.post1, 0, { title: 'Edited', version: 1 });
+      expect(saved).toMatchObject({ title: 'Edited', version: 1 });
+      expect(await postModel.updateVersioned(testUuids.post1, 0, { title: 'Lost', version: 1 })).toBeUndefined();
+    });
+
     it('should find post by slug', async () => {
       const post = await postModel.findBySlug('test-post');
       expect(post).toBeDefined();
@@ -277,6 +290,147 @@ describe('Specialized Model Factories', () => {
     });
   });
 
+  describe('Term Model Specialized Methods', () => {
+    const termModel = createTermModel(testDb);
+    const postModel = createPostModel(testDb);
+
+    beforeEach(async () => {
+      await testDb.delete(terms);
+      await testDb.insert(posts).values([
+        { id: testUuids.post1, title: 'First', slug: 'first', authorId: testUuids.user1 },
+        { id: testUuids.post2, title: 'Second', slug: 'second', authorId: testUuids.user1 },
+      ]);
+    });
+
+    it('should find terms by slug within a taxonomy', async () => {
+      await termModel.create({ taxonomy: 'category', name: 'News', slug: 'news' });
+      await termModel.create({ taxonomy: 'tag', name: 'news', slug: 'news' });
+
+      const category = await termModel.findBySlug('category', 'news');
+      expect(category?.taxonomy).toBe('category');
+      expect(await termModel.resolve('tag', category!.id)).toBeUndefined();
+      expect((await termModel.resolve('category', category!.id))?.name).toBe('News');
+    });
+
+    it('should collect descendant category ids', async () => {
+      const root = await termModel.create({ taxonomy: 'category', name: 'Root', slug: 'root' });
+      const child = await termModel.create({ taxonomy: 'category', name: 'Child', slug: 'child', parentId: root.id });
+      const grandchild = await termModel.create({
+        taxonomy: 'category',
+        name: 'Grandchild',
+        slug: 'grandchild',
+        parentId: child.id,
+      });
+
+      expect(await termModel.findDescendantIds(root.id)).toEqual([root.id, child.id, grandchild.id]);
+      expect(await termModel.findDescendantIds(grandchild.id)).toEqual([grandchild.id]);
+    });
+
+    it('should replace post terms per taxonomy', async () => {
+      const news = await termModel.create({ taxonomy: 'category', name: 'News', slug: 'news' });
+      const red = await termModel.create({ taxonomy: 'tag', name: 'Red', slug: 'red' });
+      const blue = await termModel.create({ taxonomy: 'tag', name: 'Blue', slug: 'blue' });
+
+      await termModel.setPostTerms(testUuids.post1, 'category', [news.id]);
+      await termModel.setPostTerms(testUuids.post1, 'tag', [red.id, blue.id]);
+      const tags = await termModel.setPostTerms(testUuids.post1, 'tag', [blue.id, blue.id]);
+
+      expect(tags.map((term) => term.slug)).toEqual(['blue']);
+      expect((await termModel.findByPost(testUuids.post1)).map((term) => term.slug)).toEqual(['blue', 'news']);
+      expect(await termModel.countPosts(red.id)).toBe(0);
+      expect(await termModel.countPosts(news.id)).toBe(1);
+    });
+
+    it('should filter posts by term', async () => {
+      const news = await termModel.create({ taxonomy: 'category', name: 'News', slug: 'news' });
+      await termModel.setPostTerms(testUuids.post2, 'category', [news.id]);
+
+      const filter = termModel.postsFilter([news.id]);
+      const found = await postModel.findManyWhere([filter]);
+      expect(found.map((post) => post.id)).toEqual([testUuids.post2]);
+      expect(await postModel.count({ where: [filter] })).toBe(1);
+      expect(await postModel.findManyWhere([termModel.postsFilter([])])).toEqual([]);
+    });
+
+    it('should drop relationships when a post is deleted', async () => {
+      const news = await termModel.create({ taxonomy: 'category', name: 'News', slug: 'news' });
+      await termModel.setPostTerms(testUuids.post1, 'category', [news.id]);
+
+      await postModel.delete(testUuids.post1);
+      expect(await termModel.countPosts(news.id)).toBe(0);
+    });
+  });
+
+  describe('Search Index Model Specialized Methods', () => {
+    const searchModel = createSearchIndexModel(testDb);
+    const postModel = createPostModel(testDb);
+    const highlight = { start: '[', stop: ']' };
+
+    beforeEach(async () => {
+      await testDb.delete(searchIndex);
+      await testDb.insert(posts).values([
+        { id: testUuids.post1, title: 'Gardening basics', slug: 'gardening', authorId: testUuids.user1 },
+        { id: testUuids.post2, title: 'Kitchen notes', slug: 'kitchen', authorId: testUuids.user1 },
+      ]);
+      await searchModel.upsert({
+        objectType: 'post',
+        objectId: testUuids.post1,
+        title: 'Gardening basics',
+        content: 'Water tomatoes in the morning.',
+        status: 'publish',
+        publishedAt: new Date('2026-01-01T00:00:00Z'),
+      });
+      await searchModel.upsert({
+        objectType: 'post',
+        objectId: testUuids.post2,
+        title: 'Kitchen notes',
+        excerpt: 'Roasting tomatoes',
+        content: 'Slow roasting brings out the flavour of tomatoes and peppers.',
+        status: 'draft',
+      });
+    });
+
+    it('should rank stemmed matches and highlight them', async () => {
+      const { hits, total } = await searchModel.search('tomato', { highlight });
+
+      expect(total).toBe(2);
+      // Excerpt matches weigh more than body text
+      expect(hits[0].objectId).toBe(testUuids.post2);
+      expect(hits[0].headline).toContain('[tomatoes]');
+      expect(hits[0].rank).toBeGreaterThan(hits[1].rank);
+    });
+
+    it('should restrict by status, publish date and type', async () => {
+      const published = await searchModel.search('tomatoes', { statuses: ['publish'], highlight });
+      expect(published.hits.map((hit) => hit.objectId)).toEqual([testUuids.post1]);
+
+      const beforePublish = await searchModel.search('tomatoes', {
+        statuses: ['publish'],
+        publishedBefore: new Date('2025-12-31T00:00:00Z'),
+      });
+      expect(beforePublish.total).toBe(0);
+
+      expect((await searchModel.search('tomatoes', { types: ['page'] })).total).toBe(0);
+      expect((await searchModel.search('the')).total).toBe(0);
+    });
+
+    it('should replace documents on upsert and remove them', async () => {
+      await searchModel.upsert({ objectType: 'post', objectId: testUuids.post1, title: 'Pruning roses' });
+      expect((await searchModel.search('gardening')).total).toBe(0);
+      expect((await searchModel.search('roses')).total).toBe(1);
+
+      await searchModel.remove(testUuids.post1);
+      expect((await searchModel.search('roses')).total).toBe(0);
+      expect(await searchModel.count()).toBe(1);
+    });
+
+    it('should filter posts by query', async () => {
+      const filter = searchModel.matchFilter('post', 'peppers');
+      expect((await postModel.findManyWhere([filter])).map((post) => post.id)).toEqual([testUuids.post2]);
+      expect(await postModel.count({ where: [searchModel.matchFilter('post', 'sunflowers')] })).toBe(0);
+    });
+  });
+
   describe('Comment Model Specialized Methods', () => {
     const commentModel = createCommentModel(testDb);
 
@@ -435,6 +589,15 @@ describe('Specialized Model Factories', () => {
       expect(publishedPage.status).toBe('publish');
       expect(publishedPage.publishedAt).toBeDefined();
     });
+
+    it('should only update a page still at the expected version', async () => {
+      const saved = await pageModel.updateVersioned(testUuids.page1, 0, { title: 'First', version: 1 });
+      expect(saved).toMatchObject({ title: 'First', version: 1 });
+
+      const stale = await pageModel.updateVersioned(testUuids.page1, 0, { title: 'Second', version: 1 });
+      expect(stale).toBeUndefined();
+      expect((await pageModel.findById(testUuids.page1))?.title).toBe('First');
+    });
   });
 
   describe('Media Model Specialized Methods', () => {
@@ -519,6 +682,69 @@ describe('Specialized Model Factories', () => {
     });
   });
 
+  describe('Job Model Specialized Methods', () => {
+    const jobModel = createJobModel(testDb);
+    const now = new Date('2026-06-01T12:00:00Z');
+    const minutes = (n: number) => new Date(now.getTime() + n * 60_000);
+
+    beforeEach(async () => {
+      await testDb.delete(jobs);
+    });
+
+    it('should replace a keyed job when rescheduled', async () => {
+      const first = await jobModel.schedule({ type: 'publish_scheduled', key: 'publish:a', runAt: minutes(10) });
+      await jobModel.claimDue(minutes(10), 10);
+      await jobModel.fail(first.id, 'boom');
+
+      const second = await jobModel.schedule({ type: 'publish_scheduled', key: 'publish:a', runAt: minutes(30) });
+
+      expect(second.id).toBe(first.id);
+      expect(second).toMatchObject({ status: 'pending', attempts: 0, lastError: null });
+      expect(await jobModel.count()).toBe(1);
+    });
+
+    it('should claim due jobs oldest first and only once', async () => {
+      await jobModel.schedule({ type: 'a', runAt: minutes(-5) });
+      await jobModel.schedule({ type: 'b', runAt: minutes(-10) });
+      await jobModel.schedule({ type: 'c', runAt: minutes(5) });
+
+      const claimed = await jobModel.claimDue(now, 10);
+
+      expect(claimed.map((job) => job.type)).toEqual(['b', 'a']);
+      expect(claimed.every((job) => job.status === 'running' && job.attempts === 1)).toBe(true);
+      expect(await jobModel.claimDue(now, 10)).toEqual([]);
+    });
+
+    it('should retry, fail, complete and release jobs', async () => {
+      const job = await jobModel.schedule({ type: 'a', runAt: minutes(-1) });
+      await jobModel.claimDue(now, 10);
+
+      await jobModel.fail(job.id, 'timeout', minutes(2));
+      expect(await jobModel.findById(job.id)).toMatchObject({ status: 'pending', lastError: 'timeout', runAt: minutes(2) });
+
+      await jobModel.claimDue(minutes(2), 10);
+      expect(await jobModel.releaseStale(minutes(3))).toBe(1);
+      expect((await jobModel.findById(job.id))?.status).toBe('pending');
+
+      await jobModel.claimDue(minutes(2), 10);
+      await jobModel.complete(job.id);
+      expect((await jobModel.findById(job.id))?.status).toBe('completed');
+    });
+
+    it('should cancel only pending jobs', async () => {
+      await jobModel.schedule({ type: 'a', key: 'expire:a', runAt: minutes(-2) });
+      await jobModel.schedule({ type: 'a', key: 'expire:b', runAt: minutes(-1) });
+      await jobModel.claimDue(now, 1);
+
+      await jobModel.cancel('expire:a');
+      await jobModel.cancel('expire:b');
+
+      expect(await jobModel.findManyWhere([{ where: 'key', equals: 'expire:a' }])).toHaveLength(1);
+      expect(await jobModel.count()).toBe(1);
+      expect(await jobModel.findPending('expire:b')).toBeUndefined();
+    });
+  });
+
   describe('Theme Model Specialized Methods', () => {
     const themeModel = createThemeModel(testDb);
 
@@ -577,6 +803,18 @@ describe('Specialized Model Factories', () => {
       expect(theme).toBeDefined();
       expect(theme?.name).toBe('Test Theme');
     });
+
+    it('should read and replace the active theme global styles', async () => {
+      expect(await themeModel.getGlobalStyles()).toEqual(DEFAULT_GLOBAL_STYLES);
+
+      const styles = { ...DEFAULT_GLOBAL_STYLES, containerWidth: '960px' };
+      await themeModel.update(testUuids.theme2, { settings: { layout: 'wide' } });
+      const updated = await themeModel.updateGlobalStyles(testUuids.theme2, styles);
+
+      expect(updated?.settings).toEqual({ layout: 'wide', tokens: styles });
+      expect((await themeModel.getGlobalStyles()).containerWidth).toBe('960px');
+      expect(await themeModel.updateGlobalStyles('550e8400-e29b-41d4-a716-4466554409ff', styles)).toBeUndefined();
+    });
   });
 
   describe('Plugin Model Specialized Methods', () => {
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, readFile, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { inflateRawSync } from 'node:zlib';
+import { testDb } from './setup';
+import { modelFactories } from '../storage';
+import { exportStaticSite, rewriteInternalLinks, routeToFile } from '../static-export';
+import { createZip, crc32 } from '../utils/zip';
+import { users, sites } from '@shared/schema';
+
+const authorId = '550e8400-e29b-41d4-a716-446655440a00';
+const siteId = '550e8400-e29b-41d4-a716-446655440a01';
+
+describe('routeToFile', () => {
+  it('maps public paths to index.html files', () => {
+    expect(routeToFile('/')).toBe('index.html');
+    expect(routeToFile('/page/about')).toBe('page/about/index.html');
+    expect(routeToFile('/post/hello/')).toBe('post/hello/index.html');
+  });
+});
+
+describe('rewriteInternalLinks', () => {
+  const routes = new Map([
+    ['/', '/'],
+    ['/page/about', '/page/about'],
+    ['/post/hello', '/post/hello'],
+    ['/posts/42', '/post/hello'],
+  ]);
+
+  it('rewrites known routes and aliases relative to the file', () => {
+    const html = '<a href="/page/about">About</a><a href="/posts/42#top">Post</a><a href="/">Home</a>';
+    expect(rewriteInternalLinks(html, 'post/hello/index.html', routes)).toBe(
+      '<a href="../../page/about/index.html">About</a><a href="index.html#top">Post</a><a href="../../index.html">Home</a>'
+    );
+  });
+
+  it('rewrites asset paths, CSS urls and site-absolute links', () => {
+    const html =
+      '<img src="/uploads/a.png"><div style="background:url(\'/uploads/b.jpg\')"></div><a href="https://example.com/page/about/">x</a>';
+    expect(rewriteInternalLinks(html, 'index.html', routes, 'https://example.com/')).toBe(
+      '<img src="uploads/a.png"><div style="background:url(\'uploads/b.jpg\')"></div><a href="page/about/index.html">x</a>'
+    );
+  });
+
+  it('leaves external, protocol-relative, anchor and canonical links alone', () => {
+    const html = [
+      '<link rel="canonical" href="https://example.com/page/about/">',
+      '<a href="https://other.com/page/about">x</a>',
+      '<script src="//cdn.example.net/lib.js"></script>',
+      '<a href="#section">y</a>',
+      '<a href="mailto:me@example.com">z</a>',
+    ].join('');
+    expect(rewriteInternalLinks(html, 'page/about/index.html', routes, 'https://example.com')).toBe(html);
+  });
+});
+
+describe('createZip', () => {
+  it('computes standard CRC-32 checksums', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('writes readable local entries and an end of central directory record', () => {
+    const data = Buffer.from('<h1>Hello</h1>'.repeat(20));
+    const zip = createZip([{ path: 'page/index.html', data }]);
+
+    expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+    const method = zip.readUInt16LE(8);
+    const compressedSize = zip.readUInt32LE(18);
+    const nameLength = zip.readUInt16LE(26);
+    expect(zip.subarray(30, 30 + nameLength).toString()).toBe('page/index.html');
+
+    const body = zip.subarray(30 + nameLength, 30 + nameLength + compressedSize);
+    expect(method).toBe(8);
+    expect(inflateRawSync(body).equals(data)).toBe(true);
+
+    const end = zip.subarray(zip.length - 22);
+    expect(end.readUInt32LE(0)).toBe(0x06054b50);
+    expect(end.readUInt16LE(10)).toBe(1);
+  });
+});
+
+describe('exportStaticSite', () => {
+  let outDir: string;
+  const models = {
+    pages: modelFactories.pages(testDb),
+    posts: modelFactories.posts(testDb),
+    blogs: modelFactories.blogs(testDb),
+    options: modelFactories.options(testDb),
+    sites: modelFactories.sites(testDb),
+    patterns: modelFactories.patterns(testDb),
+    themes: modelFactories.themes(testDb),
+    comments: modelFactories.comments(testDb),
+    users: modelFactories.users(testDb),
+    terms: modelFactories.terms(testDb),
+  };
+
+  beforeAll(async () => {
+    outDir = await mkdtemp(path.join(tmpdir(), 'nextpress-export-'));
+    await testDb.insert(users).values({ id: authorId, username: 'exporter', email: 'exporter@example.com' });
+    await testDb.insert(sites).values({ id: siteId, ownerId: authorId, isDefault: true });
+
+    await models.pages.create({ title: 'About', slug: 'about', status: 'publish', siteId, authorId });
+    await models.pages.create({ title: 'Secret', slug: 'secret', status: 'draft', siteId, authorId });
+    await models.posts.create({
+      title: 'Hello',
+      slug: 'hello',
+      status: 'publish',
+      authorId,
+      publishedAt: new Date(),
+      blocks: [{ id: 'comments', name: 'post/comments', type: 'block', parentId: null, content: {} }],
+    });
+    await models.options.create({ name: 'homepage_page_slug', value: 'about' });
+  });
+
+  afterAll(async () => {
+    await rm(outDir, { recursive: true, force: true });
+  });
+
+  it('writes published content only, with relative links', async () => {
+    const result = await exportStaticSite({
+      outDir,
+      siteUrl: 'https://static.example.com',
+      uploadDir: path.join(outDir, 'missing-uploads'),
+      vendorDir: path.join(outDir, 'missing-vendor'),
+      models,
+    });
+
+    expect(result.pages).toBe(1);
+    expect(result.posts).toBe(1);
+    expect(result.files).toEqual(
+      expect.arrayContaining(['index.html', 'page/about/index.html', 'post/hello/index.html', 'post/index.html'])
+    );
+    expect(result.files).not.toContain('page/secret/index.html');
+
+    const about = await readFile(path.join(outDir, 'page/about/index.html'), 'utf8');
+    expect(about).toContain('href="https://static.example.com/page/about/"');
+    expect(about).toContain('src="../../renderer/scripts/hydrate.js"');
+
+    // The configured homepage page is also the site index
+    const index = await readFile(path.join(outDir, 'index.html'), 'utf8');
+    expect(index).toContain('<title>About');
+
+    // No comment form: a static host has no /api/comments to post to
+    const hello = await readFile(path.join(outDir, 'post/hello/index.html'), 'utf8');
+    expect(hello).toContain('np-post-comments');
+    expect(hello).not.toContain('np-comment-form');
+    expect(hello).not.toContain('formToken');
+
+    const components = await readFile(path.join(outDir, 'renderer/react/block-components.js'), 'utf8');
+    expect(components).toContain('BLOCK_COMPONENTS');
+  });
+
+  it('skips routes whose slug would write outside the export directory', async () => {
+    const escaping = await models.posts.create({
+      title: 'Escape',
+      slug: '../../escaped',
+      status: 'publish',
+      authorId,
+      publishedAt: new Date(),
+    });
+    try {
+      const siteDir = path.join(outDir, 'site');
+      const result = await exportStaticSite({
+        outDir: siteDir,
+        siteUrl: 'https://static.example.com',
+        uploadDir: path.join(outDir, 'missing-uploads'),
+        vendorDir: path.join(outDir, 'missing-vendor'),
+        models,
+      });
+
+      expect(result.skipped).toEqual(['/post/../../escaped']);
+      expect(result.files).toContain('post/hello/index.html');
+      await expect(stat(path.join(outDir, 'escaped/index.html'))).rejects.toThrow();
+    } finally {
+      await models.posts.delete(escaping.id);
+    }
+  });
+});
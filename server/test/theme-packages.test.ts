@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { testDb } from './setup';
+import { modelFactories } from '../storage';
+import { HookSystem } from '../hooks';
+import { createZip, readZip, type ZipEntry } from '../utils/zip';
+import {
+  ThemePackageError,
+  exportThemePackage,
+  installThemePackage,
+  readThemePackage,
+} from '../theme-packages';
+import { patterns, templates, themes, users } from '@shared/schema';
+import { DEFAULT_GLOBAL_STYLES } from '@shared/global-styles';
+import type { BlockConfig } from '@shared/schema-types';
+
+const authorId = '550e8400-e29b-41d4-a716-446655440b00';
+
+const block = (id: string, value: string): BlockConfig => ({
+  id,
+  name: 'core/paragraph',
+  type: 'block',
+  parentId: null,
+  content: { kind: 'text', value },
+});
+
+const json = (path: string, value: unknown): ZipEntry => ({ path, data: Buffer.from(JSON.stringify(value)) });
+
+const harborBlue = { slug: 'harbor-blue', name: 'Harbor blue', color: '#0b3d91' };
+
+const manifest = { name: 'Harbor', version: '1.0.0', requires: '^1.0.0', renderer: 'custom-ssr' };
+
+function harborPackage(overrides: { manifest?: object; prefix?: string; extra?: ZipEntry[] } = {}) {
+  const entries = [
+    json('theme.json', { ...manifest, ...overrides.manifest }),
+    json('templates/header.json', { name: 'Harbor header', type: 'header', blocks: [block('logo', 'Harbor')] }),
+    json('templates/single.json', { name: 'Harbor post', type: 'post', blocks: [block('body', 'Post')] }),
+    json('tokens.json', { palette: [harborBlue], containerWidth: '960px' }),
+    json('patterns.json', {
+      version: 1,
+      patterns: [{ name: 'Harbor hero', category: 'hero', blocks: [block('hero', 'Ahoy')] }],
+    }),
+    { path: 'screenshot.png', data: Buffer.from('png') },
+    { path: 'assets/fonts/harbor.woff2', data: Buffer.from('font') },
+    { path: 'README.md', data: Buffer.from('Not extracted') },
+    ...(overrides.extra ?? []),
+  ];
+  const prefix = overrides.prefix ?? '';
+  return createZip(entries.map((entry) => ({ ...entry, path: `${prefix}${entry.path}` })));
+}
+
+describe('readZip', () => {
+  it('reads back what createZip wrote, including empty files', () => {
+    const files = [
+      { path: 'a.txt', data: Buffer.from('hello '.repeat(100)) },
+      { path: 'nested/b.bin', data: Buffer.from([0, 1, 2, 3]) },
+      { path: 'empty.txt', data: Buffer.alloc(0) },
+    ];
+
+    const read = readZip(createZip(files));
+
+    expect(read.map((entry) => entry.path)).toEqual(['a.txt', 'nested/b.bin', 'empty.txt']);
+    expect(read.map((entry) => entry.data.toString('hex'))).toEqual(files.map((file) => file.data.toString('hex')));
+  });
+
+  it('rejects archives over the size limit and files that are not zips', () => {
+    const zip = createZip([{ path: 'big.txt', data: Buffer.alloc(2048) }]);
+
+    expect(() => readZip(zip, 1024)).toThrow('too large');
+    expect(() => readZip(Buffer.from('not a zip at all, just some text'))).toThrow('Not a ZIP archive');
+  });
+});
+
+describe('readThemePackage', () => {
+  it('reads the manifest, templates, tokens, patterns and assets', () => {
+    const pkg = readThemePackage(harborPackage());
+
+    expect(pkg.manifest).toMatchObject({ name: 'Harbor', requires: '^1.0.0', settings: {} });
+    expect(pkg.templates.map((template) => template.name)).toEqual(['Harbor header', 'Harbor post']);
+    expect(pkg.tokens).toMatchObject({
+      palette: [harborBlue],
+      containerWidth: '960px',
+      spacing: DEFAULT_GLOBAL_STYLES.spacing,
+    });
+    expect(pkg.patterns[0]).toMatchObject({ name: 'Harbor hero', synced: false });
+    expect(pkg.screenshot).toBe('screenshot.png');
+    expect(pkg.assets.map((asset) => asset.path)).toEqual(['screenshot.png', 'assets/fonts/harbor.woff2']);
+  });
+
+  it('accepts packages zipped with their folder', () => {
+    const pkg = readThemePackage(harborPackage({ prefix: 'harbor-1.0.0/' }));
+
+    expect(pkg.manifest.name).toBe('Harbor');
+    expect(pkg.templates).toHaveLength(2);
+  });
+
+  it('rejects missing manifests, invalid files and paths leaving the package', () => {
+    const invalid = (zip: Buffer) => {
+      try {
+        readThemePackage(zip);
+      } catch (error) {
+        expect(error).toBeInstanceOf(ThemePackageError);
+        return (error as ThemePackageError).message;
+      }
+      throw new Error('Expected the package to be rejected');
+    };
+
+    expect(invalid(createZip([json('style.json', {})]))).toBe('Theme package has no theme.json');
+    expect(invalid(harborPackage({ manifest: { requires: '' } }))).toMatch(/^Invalid theme.json at requires/);
+    expect(
+      invalid(harborPackage({ extra: [json('templates/broken.json', { name: 'Broken', type: 'sidebar', blocks: [] })] }))
+    ).toMatch(/^Invalid templates\/broken.json at type/);
+    expect(invalid(harborPackage({ extra: [{ path: '../evil.js', data: Buffer.from('') }] }))).toMatch(/^Unsafe path/);
+    expect(invalid(harborPackage({ manifest: { screenshot: 'preview.png' } }))).toMatch(/preview.png is missing/);
+  });
+});
+
+describe('installThemePackage', () => {
+  const models = {
+    themes: modelFactories.themes(testDb),
+    templates: modelFactories.templates(testDb),
+    patterns: modelFactories.patterns(testDb),
+  };
+  let uploadDir: string;
+  let hooks: HookSystem;
+  const installed: unknown[][] = [];
+
+  beforeAll(async () => {
+    await testDb
+      .insert(users)
+      .values({ id: authorId, username: 'theme-author', email: 'theme-author@example.com' })
+      .onConflictDoNothing();
+    uploadDir = await mkdtemp(path.join(tmpdir(), 'nextpress-themes-'));
+    hooks = new HookSystem();
+    hooks.addAction('theme_installed', (...args: unknown[]) => installed.push(args));
+  });
+
+  afterAll(async () => {
+    await rm(uploadDir, { recursive: true, force: true });
+    await testDb.delete(templates);
+    await testDb.delete(patterns);
+    await testDb.delete(themes);
+    await testDb.delete(users);
+  });
+
+  const install = (zip: Buffer, coreVersion = '1.0.5') =>
+    installThemePackage(zip, { authorId, coreVersion, uploadDir, models, hooks });
+
+  it('refuses themes made for another NextPress version', async () => {
+    await expect(install(harborPackage(), '2.0.0')).rejects.toMatchObject({
+      status: 422,
+      message: 'Harbor requires NextPress ^1.0.0, this site runs 2.0.0',
+    });
+    expect(await models.themes.findByName('Harbor')).toBeUndefined();
+  });
+
+  it('creates the theme, its templates and patterns and extracts assets', async () => {
+    const result = await install(harborPackage());
+    const { theme } = result;
+
+    expect(result.upgraded).toBe(false);
+    expect(theme).toMatchObject({
+      name: 'Harbor',
+      status: 'inactive',
+      renderer: 'custom-ssr',
+      settings: { tokens: { palette: [harborBlue], containerWidth: '960px' } },
+      other: { screenshot: `/uploads/themes/${theme.id}/screenshot.png` },
+    });
+    expect((await models.templates.findByTheme(theme.id)).map((template) => template.name)).toEqual([
+      'Harbor header',
+      'Harbor post',
+    ]);
+    expect(await models.patterns.findByTheme(theme.id)).toMatchObject([{ name: 'Harbor hero', category: 'hero' }]);
+
+    const themeDir = path.join(uploadDir, 'themes', theme.id);
+    expect(await readFile(path.join(themeDir, 'assets/fonts/harbor.woff2'), 'utf8')).toBe('font');
+    await expect(readFile(path.join(themeDir, 'README.md'))).rejects.toThrow();
+    expect(installed).toEqual([[theme, { upgraded: false }]]);
+  });
+
+  it('upgrades an installed theme of the same name, updating its templates in place', async () => {
+    const before = await models.themes.findByName('Harbor');
+    const header = (await models.templates.findByTheme(before!.id)).find((template) => template.name === 'Harbor header');
+    const zip = createZip([
+      json('theme.json', { ...manifest, version: '1.1.0' }),
+      json('templates/header.json', { name: 'Harbor header', type: 'header', blocks: [block('logo', 'Harbor 2')] }),
+      json('templates/footer.json', { name: 'Harbor footer', type: 'footer', blocks: [] }),
+    ]);
+
+    const { theme, upgraded, templates: saved } = await install(zip);
+
+    expect(upgraded).toBe(true);
+    expect(theme).toMatchObject({ id: before!.id, version: '1.1.0', status: 'inactive' });
+    // The header keeps its id; the post template the package dropped is removed
+    expect(saved.find((template) => template.name === 'Harbor header')).toMatchObject({
+      id: header!.id,
+      blocks: [block('logo', 'Harbor 2')],
+    });
+    expect((await models.templates.findByTheme(theme.id)).map((template) => template.name).sort()).toEqual([
+      'Harbor footer',
+      'Harbor header',
+    ]);
+    // Patterns the new version no longer ships are kept
+    expect(await models.patterns.findByTheme(theme.id)).toHaveLength(1);
+  });
+
+  it('exports a package that installs as the same theme', async () => {
+    const first = await install(harborPackage({ manifest: { version: '1.2.0' } }));
+
+    const exported = await exportThemePackage(first.theme.id, { uploadDir, models });
+    const pkg = readThemePackage(exported!.zip);
+
+    expect(pkg.manifest).toEqual({ ...manifest, version: '1.2.0', screenshot: 'screenshot.png', settings: {} });
+    expect(pkg.templates.map(({ name, type, blocks }) => ({ name, type, blocks }))).toEqual([
+      { name: 'Harbor header', type: 'header', blocks: [block('logo', 'Harbor')] },
+      { name: 'Harbor post', type: 'post', blocks: [block('body', 'Post')] },
+    ]);
+    expect(pkg.tokens).toMatchObject({ palette: [harborBlue], containerWidth: '960px' });
+    expect(pkg.patterns.map((pattern) => pattern.name)).toEqual(['Harbor hero']);
+    expect(pkg.assets.map((asset) => asset.path).sort()).toEqual(['assets/fonts/harbor.woff2', 'screenshot.png']);
+    expect(await exportThemePackage('550e8400-e29b-41d4-a716-446655440bff', { uploadDir, models })).toBeNull();
+  });
+});
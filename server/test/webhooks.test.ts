@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { testDb } from './setup';
+import { modelFactories } from '../storage';
+import { HookSystem } from '../hooks';
+import { JobScheduler } from '../scheduler';
+import {
+  attemptDelivery,
+  queueWebhookEvent,
+  registerWebhooks,
+  replayDelivery,
+  verifyWebhookSignature,
+  webhookEventData,
+} from '../webhooks';
+import { CONFIG } from '../config';
+import { WEBHOOK_HEADERS } from '@shared/webhooks';
+import { jobs, sites, users, webhookDeliveries, webhooks } from '@shared/schema';
+
+const ownerId = '5f2e8c31-7a4b-4c9d-8e1f-2a3b4c5d0001';
+const siteId = '5f2e8c31-7a4b-4c9d-8e1f-2a3b4c5d0002';
+const secret = 'receiver-test-secret-0123456789';
+
+const models = {
+  webhooks: modelFactories.webhooks(testDb),
+  webhookDeliveries: modelFactories.webhookDeliveries(testDb),
+  sites: modelFactories.sites(testDb),
+};
+const jobModel = modelFactories.jobs(testDb);
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+// Local receiver: answers with the queued statuses, then 200
+let server: Server;
+let url: string;
+const received: Received[] = [];
+const statuses: number[] = [];
+
+const later = (ms: number) => new Date(Date.now() + ms);
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end(res.statusCode < 300 ? 'ok' : 'try again');
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+
+  await testDb.insert(users).values({ id: ownerId, username: 'webhook-owner' });
+  await testDb.insert(sites).values({
+    id: siteId,
+    ownerId,
+    isDefault: true,
+    settings: { system: { webhooksEnabled: true } },
+  });
+});
+
+beforeEach(async () => {
+  await testDb.delete(jobs);
+  await testDb.delete(webhookDeliveries);
+  await testDb.delete(webhooks);
+  received.length = 0;
+  statuses.length = 0;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await testDb.delete(jobs);
+  await testDb.delete(webhooks);
+  await testDb.delete(sites);
+  await testDb.delete(users);
+});
+
+function setup() {
+  const scheduler = new JobScheduler(jobModel);
+  const hooks = new HookSystem();
+  registerWebhooks(scheduler, models, hooks);
+  return { scheduler, hooks };
+}
+
+describe('webhooks', () => {
+  it('sends signed payloads of subscribed actions to active webhooks', async () => {
+    const { scheduler, hooks } = setup();
+    const webhook = await models.webhooks.create({ name: 'Storefront', url, events: ['publish_post'], secret });
+    await models.webhooks.create({ name: 'Comments', url, events: ['new_comment'], secret });
+    await models.webhooks.create({ name: 'Paused', url, events: ['publish_post'], secret, active: false });
+
+    await hooks.doActionAsync('publish_post', { id: 'post-1', title: 'Hello', password: 'hunter2' });
+    await scheduler.runDue();
+
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    expect(headers[WEBHOOK_HEADERS.event.toLowerCase()]).toBe('publish_post');
+    expect(
+      verifyWebhookSignature(
+        secret,
+        headers[WEBHOOK_HEADERS.timestamp.toLowerCase()] as string,
+        body,
+        headers[WEBHOOK_HEADERS.signature.toLowerCase()] as string
+      )
+    ).toBe(true);
+    expect(verifyWebhookSignature('another-secret-0123456789', 0, body, 'sha256=00')).toBe(false);
+
+    const payload = JSON.parse(body);
+    expect(payload).toMatchObject({ event: 'publish_post', data: { id: 'post-1', title: 'Hello' } });
+    expect(payload.data).not.toHaveProperty('password');
+
+    const [delivery] = await models.webhookDeliveries.findByWebhook(webhook.id);
+    expect(delivery).toMatchObject({ id: payload.id, status: 'delivered', attempts: 1, responseStatus: 200 });
+    expect(headers[WEBHOOK_HEADERS.delivery.toLowerCase()]).toBe(delivery.id);
+  });
+
+  it('retries failed deliveries with exponential backoff until they go through', async () => {
+    const { scheduler, hooks } = setup();
+    const webhook = await models.webhooks.create({ name: 'Flaky', url, events: ['delete_attachment'], secret });
+    statuses.push(500, 503);
+
+    await hooks.doActionAsync('delete_attachment', 'media-1');
+    await scheduler.runDue();
+
+    let [delivery] = await models.webhookDeliveries.findByWebhook(webhook.id);
+    expect(delivery).toMatchObject({ status: 'retrying', attempts: 1, responseStatus: 500, error: 'Receiver responded with 500' });
+    const firstDelay = delivery.nextAttemptAt!.getTime() - delivery.updatedAt!.getTime();
+    expect(firstDelay).toBeGreaterThanOrEqual(CONFIG.WEBHOOKS.RETRY_DELAY_MS - 1_000);
+
+    await scheduler.runDue(later(CONFIG.WEBHOOKS.RETRY_DELAY_MS + 1_000));
+    [delivery] = await models.webhookDeliveries.findByWebhook(webhook.id);
+    expect(delivery).toMatchObject({ status: 'retrying', attempts: 2, responseStatus: 503 });
+    expect(delivery.nextAttemptAt!.getTime() - delivery.updatedAt!.getTime()).toBeGreaterThanOrEqual(
+      2 * CONFIG.WEBHOOKS.RETRY_DELAY_MS - 1_000
+    );
+
+    await scheduler.runDue(later(10 * CONFIG.WEBHOOKS.RETRY_DELAY_MS));
+    [delivery] = await models.webhookDeliveries.findByWebhook(webhook.id);
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 3, responseStatus: 200, error: null, nextAttemptAt: null });
+    expect(received.map((request) => JSON.parse(request.body).data)).toEqual([
+      { id: 'media-1' },
+      { id: 'media-1' },
+      { id: 'media-1' },
+    ]);
+  });
+
+  it('gives up after the last attempt and replays as a new delivery', async () => {
+    const { scheduler } = setup();
+    const webhook = await models.webhooks.create({ name: 'Down', url, events: ['save_post'], secret });
+    statuses.push(...Array(CONFIG.WEBHOOKS.MAX_ATTEMPTS).fill(500));
+
+    const [queued] = await queueWebhookEvent(scheduler, models, 'save_post', { id: 'p' });
+    let delivery = queued;
+    for (let attempt = 0; attempt < CONFIG.WEBHOOKS.MAX_ATTEMPTS; attempt++) {
+      delivery = (await attemptDelivery(scheduler, models, queued.id))!;
+    }
+    expect(delivery).toMatchObject({ status: 'failed', attempts: CONFIG.WEBHOOKS.MAX_ATTEMPTS, nextAttemptAt: null });
+    // A finished delivery isn't sent again by a leftover job
+    await attemptDelivery(scheduler, models, queued.id);
+    expect(received).toHaveLength(CONFIG.WEBHOOKS.MAX_ATTEMPTS);
+
+    const replay = await replayDelivery(scheduler, models, queued.id);
+    expect(replay).toMatchObject({ webhookId: webhook.id, event: 'save_post', status: 'pending' });
+    expect(replay!.id).not.toBe(queued.id);
+    await scheduler.runDue();
+
+    const log = await models.webhookDeliveries.findByWebhook(webhook.id);
+    expect(log.map((entry) => entry.status).sort()).toEqual(['delivered', 'failed']);
+    expect(JSON.parse(received.at(-1)!.body)).toMatchObject({ id: replay!.id, data: { id: 'p' } });
+    expect(await replayDelivery(scheduler, models, '5f2e8c31-7a4b-4c9d-8e1f-2a3b4c5d00ff')).toBeUndefined();
+  });
+
+  it('queues nothing while webhooks are disabled in the settings', async () => {
+    const { scheduler, hooks } = setup();
+    await models.webhooks.create({ name: 'Storefront', url, events: ['publish_post'], secret });
+    await models.sites.updateSettings({ system: { webhooksEnabled: false } });
+
+    try {
+      await hooks.doActionAsync('publish_post', { id: 'post-2' });
+      await scheduler.runDue();
+      expect(await models.webhookDeliveries.count()).toBe(0);
+      expect(received).toHaveLength(0);
+    } finally {
+      await models.sites.updateSettings({ system: { webhooksEnabled: true } });
+    }
+  });
+
+  it('builds event data from action arguments', () => {
+    expect(webhookEventData(['post-1'])).toEqual({ id: 'post-1' });
+    expect(webhookEventData([{ id: 'u', username: 'ada', password: 'secret' }])).toEqual({ id: 'u', username: 'ada' });
+    expect(webhookEventData([])).toBeNull();
+  });
+});
@@ -0,0 +1,357 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { models as defaultModels } from "./storage.js";
+import defaultHooks, { type HookSystem } from "./hooks.js";
+import { satisfiesVersion } from "./plugins.js";
+import { CONFIG } from "./config.js";
+import { createZip, readZip, type ZipEntry } from "./utils/zip.js";
+import {
+	exportedBlockSchema,
+	patternExportSchema,
+	toPatternExport,
+	type PatternExportEntry,
+} from "@shared/pattern-library";
+import { DEFAULT_GLOBAL_STYLES, globalStylesSchema, type GlobalStyles } from "@shared/global-styles";
+import type { Template, Theme } from "@shared/schema-types";
+
+/**
+ * Theme packages: zip files holding a theme with its templates, design
+ * tokens, patterns and assets.
+ *
+ *   theme.json            manifest (required)
+ *   templates/*.json      one template each, blocks as BlockConfig[]
+ *   tokens.json           global styles (see shared/global-styles), stored as the theme's `settings.tokens`
+ *   patterns.json         patterns in the `GET /api/patterns/export` format
+ *   screenshot.png        preview image (or .jpg/.jpeg/.webp, or the manifest's `screenshot`)
+ *   assets/**             fonts, images and other files the theme links to
+ *
+ * The files may also sit in a single top-level folder, as when a theme
+ * folder is zipped as a whole.
+ */
+
+/**
+ * Manifest read from `theme.json` at the root of every theme package
+ */
+export const themeManifestSchema = z.object({
+	name: z.string().trim().min(1),
+	version: z.string().trim().min(1),
+	description: z.string().optional(),
+	// NextPress versions the theme works with, e.g. ">=1.0.0 <2.0.0" or "^1.0.0"
+	requires: z.string().trim().min(1),
+	renderer: z.string().optional(),
+	// Path of the preview image inside the package
+	screenshot: z.string().optional(),
+	settings: z.record(z.unknown()).default({}),
+});
+
+export const themeTemplateSchema = z.object({
+	name: z.string().trim().min(1),
+	type: z.enum(["header", "footer", "page", "post", "archive", "popup"]),
+	description: z.string().nullish(),
+	blocks: z.array(exportedBlockSchema),
+	settings: z.record(z.unknown()).default({}),
+});
+
+export type ThemeManifest = z.infer<typeof themeManifestSchema>;
+export type ThemeTemplate = z.infer<typeof themeTemplateSchema>;
+
+export interface ThemePackage {
+	manifest: ThemeManifest;
+	templates: ThemeTemplate[];
+	tokens: GlobalStyles;
+	patterns: PatternExportEntry[];
+	/** Files extracted next to the theme: the screenshot and everything under `assets/` */
+	assets: ZipEntry[];
+	/** Path of the screenshot among the assets */
+	screenshot: string | null;
+}
+
+type ThemePackageModels = Pick<typeof defaultModels, "themes" | "templates" | "patterns">;
+
+// Thrown for packages that can't be installed; `status` is the HTTP status to answer with
+export class ThemePackageError extends Error {
+	public readonly status: number;
+
+	constructor(message: string, status: number = 400) {
+		super(message);
+		this.name = "ThemePackageError";
+		this.status = status;
+	}
+}
+
+const SCREENSHOT_FILES = ["screenshot.png", "screenshot.jpg", "screenshot.jpeg", "screenshot.webp"];
+
+/**
+ * Normalizes a path inside a package, rejecting ones that would escape the
+ * directory the package is extracted to
+ */
+function safePackagePath(entryPath: string): string {
+	const normalized = path.posix.normalize(entryPath.replace(/\\/g, "/"));
+	if (normalized.startsWith("/") || normalized === ".." || normalized.startsWith("../") || /^[a-zA-Z]:/.test(normalized)) {
+		throw new ThemePackageError(`Unsafe path in theme package: ${entryPath}`);
+	}
+	return normalized;
+}
+
+function parseJson<T>(entry: ZipEntry, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
+	let value: unknown;
+	try {
+		value = JSON.parse(entry.data.toString("utf8"));
+	} catch {
+		throw new ThemePackageError(`${entry.path} is not valid JSON`);
+	}
+	const parsed = schema.safeParse(value);
+	if (!parsed.success) {
+		const issue = parsed.error.errors[0];
+		const where = issue.path.length ? ` at ${issue.path.join(".")}` : "";
+		throw new ThemePackageError(`Invalid ${entry.path}${where}: ${issue.message}`);
+	}
+	return parsed.data;
+}
+
+/**
+ * Reads and validates a theme package without installing it
+ * @param zip - Package contents
+ * @throws ThemePackageError when the archive or any of its JSON files is invalid
+ */
+export function readThemePackage(zip: Buffer): ThemePackage {
+	let entries: ZipEntry[];
+	try {
+		entries = readZip(zip, CONFIG.THEMES.MAX_EXTRACTED_SIZE).map((entry) => ({
+			path: safePackagePath(entry.path),
+			data: entry.data,
+		}));
+	} catch (error) {
+		if (error instanceof ThemePackageError) throw error;
+		throw new ThemePackageError(error instanceof Error ? error.message : "Unreadable theme package");
+	}
+
+	// The shallowest manifest marks the package root
+	const manifestEntry = entries
+		.filter((entry) => path.posix.basename(entry.path) === CONFIG.THEMES.MANIFEST_FILE)
+		.sort((a, b) => a.path.split("/").length - b.path.split("/").length)[0];
+	if (!manifestEntry) {
+		throw new ThemePackageError(`Theme package has no ${CONFIG.THEMES.MANIFEST_FILE}`);
+	}
+	const root = path.posix.dirname(manifestEntry.path);
+	const files = new Map(
+		entries
+			.filter((entry) => root === "." || entry.path.startsWith(`${root}/`))
+			.map((entry) => {
+				const relative = root === "." ? entry.path : entry.path.slice(root.length + 1);
+				return [relative, { path: relative, data: entry.data }] as const;
+			}),
+	);
+
+	const manifest = parseJson(files.get(CONFIG.THEMES.MANIFEST_FILE)!, themeManifestSchema);
+
+	const templates = Array.from(files.values())
+		.filter((entry) => /^templates\/[^/]+\.json$/.test(entry.path))
+		.sort((a, b) => a.path.localeCompare(b.path))
+		.map((entry) => parseJson(entry, themeTemplateSchema));
+
+	const tokensEntry = files.get("tokens.json");
+	const tokens = tokensEntry ? parseJson(tokensEntry, globalStylesSchema) : DEFAULT_GLOBAL_STYLES;
+
+	const patternsEntry = files.get("patterns.json");
+	const patterns = patternsEntry ? parseJson(patternsEntry, patternExportSchema).patterns : [];
+
+	const screenshot = manifest.screenshot
+		? safePackagePath(manifest.screenshot)
+		: SCREENSHOT_FILES.find((file) => files.has(file)) ?? null;
+	if (screenshot && !files.has(screenshot)) {
+		throw new ThemePackageError(`Screenshot ${screenshot} is missing from the theme package`);
+	}
+
+	const assets = Array.from(files.values()).filter(
+		(entry) => entry.path === screenshot || entry.path.startsWith("assets/"),
+	);
+
+	return { manifest, templates, tokens, patterns, assets, screenshot };
+}
+
+/** Directory a theme's assets are extracted to */
+function themeAssetsDirectory(uploadDir: string, themeId: string) {
+	return path.join(uploadDir, CONFIG.THEMES.ASSETS_DIRECTORY, themeId);
+}
+
+/** Public URL of a file among a theme's assets */
+function themeAssetUrl(themeId: string, file: string) {
+	return `/uploads/${CONFIG.THEMES.ASSETS_DIRECTORY}/${themeId}/${file}`;
+}
+
+export interface InstallThemePackageOptions {
+	/** Author of the theme, template and pattern rows created */
+	authorId: string;
+	/** Running NextPress version, checked against the manifest's `requires` */
+	coreVersion: string;
+	/** Directory served at /uploads */
+	uploadDir: string;
+	models?: ThemePackageModels;
+	hooks?: HookSystem;
+}
+
+export interface InstalledThemePackage {
+	theme: Theme;
+	templates: Template[];
+	patterns: number;
+	/** An installed theme of the same name was replaced */
+	upgraded: boolean;
+}
+
+/**
+ * Installs a theme package: creates the theme (or upgrades the installed
+ * theme of the same name), its templates and patterns, and extracts the
+ * screenshot and assets. Upgrades update the theme's templates matched by
+ * name and remove the ones the package no longer ships; patterns are matched
+ * by name so edits to other patterns survive.
+ * @param zip - Package contents
+ * @throws ThemePackageError when the package is invalid (400) or needs another NextPress version (422)
+ */
+export async function installThemePackage(
+	zip: Buffer,
+	options: InstallThemePackageOptions,
+): Promise<InstalledThemePackage> {
+	const models = options.models ?? defaultModels;
+	const hooks = options.hooks ?? defaultHooks;
+	const pkg = readThemePackage(zip);
+	const { manifest } = pkg;
+
+	if (!satisfiesVersion(options.coreVersion, manifest.requires)) {
+		throw new ThemePackageError(
+			`${manifest.name} requires NextPress ${manifest.requires}, this site runs ${options.coreVersion}`,
+			422,
+		);
+	}
+
+	const existing = await models.themes.findByName(manifest.name);
+	const data = {
+		name: manifest.name,
+		description: manifest.description ?? null,
+		version: manifest.version,
+		requires: manifest.requires,
+		renderer: manifest.renderer ?? null,
+		settings: { ...manifest.settings, tokens: pkg.tokens },
+	};
+	const saved = existing
+		? await models.themes.update(existing.id, data)
+		: await models.themes.create({ ...data, authorId: options.authorId, status: CONFIG.STATUS.INACTIVE });
+
+	const directory = themeAssetsDirectory(options.uploadDir, saved.id);
+	await fs.rm(directory, { recursive: true, force: true });
+	for (const asset of pkg.assets) {
+		const target = path.join(directory, asset.path);
+		await fs.mkdir(path.dirname(target), { recursive: true });
+		await fs.writeFile(target, asset.data);
+	}
+
+	const theme = await models.themes.update(saved.id, {
+		other: {
+			...(existing?.other as object),
+			screenshot: pkg.screenshot ? themeAssetUrl(saved.id, pkg.screenshot) : null,
+			package: { screenshot: pkg.screenshot, assets: pkg.assets.map((asset) => asset.path) },
+		},
+	});
+
+	// Upgrades update templates in place, matched by slugified name, so their ids survive
+	const previous = existing ? await models.templates.findByTheme(theme.id) : [];
+	const templates: Template[] = [];
+	for (const template of pkg.templates) {
+		const data = { ...template, description: template.description ?? null };
+		const match = previous.findIndex((candidate) => slugify(candidate.name) === slugify(template.name));
+		if (match !== -1) {
+			const [current] = previous.splice(match, 1);
+			templates.push(await models.templates.update(current.id, data));
+		} else {
+			templates.push(
+				await models.templates.create({ ...data, authorId: options.authorId, other: { themeId: theme.id } }),
+			);
+		}
+	}
+	for (const template of previous) {
+		await models.templates.delete(template.id);
+	}
+
+	for (const entry of pkg.patterns) {
+		const { pattern } = await models.patterns.importEntry(entry, options.authorId, { themeId: theme.id });
+		hooks.doAction("save_pattern", pattern);
+	}
+
+	hooks.doAction("theme_installed", theme, { upgraded: !!existing });
+	return { theme, templates, patterns: pkg.patterns.length, upgraded: !!existing };
+}
+
+const slugify = (value: string) =>
+	value
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "") || "template";
+
+/**
+ * Builds a theme package from an installed theme, its templates and patterns
+ * and the assets extracted when it was installed. Installing the result on
+ * another site recreates the theme.
+ * @param themeId - Theme UUID
+ * @param options - `uploadDir` where the theme's assets were extracted
+ * @returns The theme and the zip, or null when the theme doesn't exist
+ */
+export async function exportThemePackage(
+	themeId: string,
+	options: { uploadDir: string; models?: ThemePackageModels },
+): Promise<{ theme: Theme; zip: Buffer } | null> {
+	const models = options.models ?? defaultModels;
+	const theme = await models.themes.findById(themeId);
+	if (!theme) return null;
+
+	const { tokens, ...settings } = (theme.settings ?? {}) as Record<string, unknown>;
+	const packaged = ((theme.other ?? {}) as { package?: { screenshot?: string | null; assets?: string[] } }).package;
+
+	// Assets removed from disk since the install are left out
+	const directory = themeAssetsDirectory(options.uploadDir, theme.id);
+	const assets: ZipEntry[] = [];
+	for (const asset of packaged?.assets ?? []) {
+		try {
+			assets.push({ path: asset, data: await fs.readFile(path.join(directory, safePackagePath(asset))) });
+		} catch {
+			continue;
+		}
+	}
+	const screenshot = assets.find((asset) => asset.path === packaged?.screenshot)?.path;
+
+	const manifest: ThemeManifest = {
+		name: theme.name,
+		version: theme.version,
+		...(theme.description && { description: theme.description }),
+		requires: theme.requires,
+		...(theme.renderer && { renderer: theme.renderer }),
+		...(screenshot && { screenshot }),
+		settings,
+	};
+	const json = (value: unknown) => Buffer.from(JSON.stringify(value, null, 2));
+	const entries: ZipEntry[] = [{ path: CONFIG.THEMES.MANIFEST_FILE, data: json(manifest) }];
+
+	if (tokens && typeof tokens === "object" && Object.keys(tokens).length > 0) {
+		entries.push({ path: "tokens.json", data: json(tokens) });
+	}
+
+	const used = new Set<string>();
+	for (const template of await models.templates.findByTheme(theme.id)) {
+		let file = slugify(template.name);
+		for (let n = 2; used.has(file); n++) file = `${slugify(template.name)}-${n}`;
+		used.add(file);
+		const { name, type, description, blocks, settings: templateSettings } = template;
+		entries.push({
+			path: `templates/${file}.json`,
+			data: json({ name, type, description, blocks, settings: templateSettings ?? {} }),
+		});
+	}
+
+	const patterns = await models.patterns.findByTheme(theme.id);
+	if (patterns.length > 0) {
+		entries.push({ path: "patterns.json", data: json(toPatternExport(patterns)) });
+	}
+
+	entries.push(...assets);
+	return { theme, zip: createZip(entries) };
+}
@@ -1,5 +1,10 @@
 import { models } from "./storage.js";
 import hooks from "./hooks.js";
+import {
+	exportThemePackage,
+	installThemePackage,
+	type InstallThemePackageOptions,
+} from "./theme-packages.js";
 
 // Flag to ensure renderer warning is logged only once
 let rendererWarningLogged = false;
@@ -66,6 +71,16 @@ class ThemeManager {
 		return theme;
 	}
 
+	// Install a theme package (zip) with its templates, patterns and assets
+	async installPackage(zip: Buffer, options: InstallThemePackageOptions) {
+		return installThemePackage(zip, options);
+	}
+
+	// Build a theme package (zip) from an installed theme
+	async exportPackage(themeId: string, uploadDir: string) {
+		return exportThemePackage(themeId, { uploadDir });
+	}
+
 	// Activate a theme
 	async activateTheme(themeId: string) {
 		const oldTheme = await models.themes.findActiveTheme();
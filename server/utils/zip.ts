@@ -0,0 +1,172 @@
+import { deflateRawSync, inflateRawSync } from 'node:zlib';
+
+/**
+ * Minimal ZIP archive writer and reader (deflate, no ZIP64).
+ * Designed for admin downloads and uploads without an external archive dependency.
+ */
+
+export interface ZipEntry {
+  /** Path inside the archive, using forward slashes */
+  path: string;
+  data: Buffer;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// DOS date/time fields used by ZIP headers
+function toDosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+}
+
+/**
+ * Builds a ZIP archive in memory.
+ *
+ * @param entries - Files to add; directories are implied by their paths
+ * @returns ZIP file contents
+ *
+ * @example
+ * const zip = createZip([{ path: 'index.html', data: Buffer.from('<h1>Hi</h1>') }]);
+ */
+export function createZip(entries: ZipEntry[], modifiedAt: Date = new Date()): Buffer {
+  const { time, day } = toDosDateTime(modifiedAt);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.path.replace(/\\/g, '/').replace(/^\/+/, ''), 'utf8');
+    const compressed = deflateRawSync(entry.data);
+    // Store incompressible data as-is
+    const useDeflate = compressed.length < entry.data.length;
+    const body = useDeflate ? compressed : entry.data;
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(useDeflate ? 8 : 0, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(day, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6); // version needed
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(useDeflate ? 8 : 0, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(day, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, body);
+    centralParts.push(central, name);
+    offset += local.length + name.length + body.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+// Locates the end of central directory record, which may be followed by a comment
+function findEndOfCentralDirectory(zip: Buffer): number {
+  const earliest = Math.max(0, zip.length - 22 - 0xffff);
+  for (let i = zip.length - 22; i >= earliest; i--) {
+    if (zip.readUInt32LE(i) === 0x06054b50) return i;
+  }
+  throw new Error('Not a ZIP archive');
+}
+
+/**
+ * Reads the files of a ZIP archive (stored or deflated entries, no ZIP64).
+ * Directory entries are skipped; paths are returned as stored, so callers
+ * writing them to disk must check them first.
+ *
+ * @param zip - ZIP file contents
+ * @param maxSize - Largest total uncompressed size accepted, against ZIP bombs
+ * @returns Files in archive order
+ * @throws Error when the archive is malformed, encrypted or too large
+ *
+ * @example
+ * const files = readZip(await fs.readFile('theme.zip'), 50 * 1024 * 1024);
+ */
+export function readZip(zip: Buffer, maxSize: number = Infinity): ZipEntry[] {
+  const end = findEndOfCentralDirectory(zip);
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  let total = 0;
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > zip.length || zip.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const flags = zip.readUInt16LE(offset + 8);
+    const method = zip.readUInt16LE(offset + 10);
+    const crc = zip.readUInt32LE(offset + 16);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const size = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const path = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+    if (flags & 0x1) throw new Error(`Encrypted ZIP entry: ${path}`);
+    total += size;
+    if (total > maxSize) throw new Error('ZIP archive is too large once extracted');
+
+    // Name and extra field lengths in the local header can differ from the central directory
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const body = zip.subarray(dataStart, dataStart + compressedSize);
+    let data: Buffer;
+    if (method === 0) data = Buffer.from(body);
+    else if (method === 8) data = inflateRawSync(body, { maxOutputLength: Math.max(size, 1) });
+    else throw new Error(`Unsupported ZIP compression method ${method}: ${path}`);
+
+    if (data.length !== size || crc32(data) !== crc) {
+      throw new Error(`Corrupt ZIP entry: ${path}`);
+    }
+    entries.push({ path, data });
+  }
+
+  return entries;
+}
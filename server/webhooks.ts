@@ -0,0 +1,224 @@
+/**
+ * Outgoing webhooks. While `system.webhooksEnabled` is on, every action in
+ * WEBHOOK_EVENT_NAMES queues one delivery per active webhook subscribed to
+ * it, and the job scheduler sends them. A failed attempt (network error,
+ * timeout or a non-2xx response) is retried with exponential backoff until
+ * CONFIG.WEBHOOKS.MAX_ATTEMPTS; the delivery row records every attempt and is
+ * what the admin's delivery log shows and replays.
+ */
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import type { WebhookDelivery } from "@shared/schema-types";
+import { WEBHOOK_EVENT_NAMES, WEBHOOK_HEADERS } from "@shared/webhooks";
+import { CONFIG } from "./config.js";
+import hooks, { type HookSystem } from "./hooks.js";
+import type { JobScheduler } from "./scheduler";
+import type { models } from "./storage";
+
+export type WebhookModels = Pick<typeof models, "webhooks" | "webhookDeliveries" | "sites">;
+
+export const WEBHOOK_JOB = "deliver_webhook";
+
+const deliveryKey = (id: string) => `webhook:${id}`;
+
+/** Random secret for a webhook created without one */
+export function generateWebhookSecret(): string {
+	return randomBytes(24).toString("hex");
+}
+
+/**
+ * Value of the X-NextPress-Signature header
+ * @param secret - The webhook's secret
+ * @param timestamp - Unix time in seconds, also sent as X-NextPress-Timestamp
+ * @param body - The raw request body
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+	return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/** Checks a received signature in constant time, as a receiver would */
+export function verifyWebhookSignature(
+	secret: string,
+	timestamp: number | string,
+	body: string,
+	signature: string,
+): boolean {
+	const expected = Buffer.from(signWebhookPayload(secret, Number(timestamp), body));
+	const given = Buffer.from(signature);
+	return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+/**
+ * The `data` of a payload, from the arguments the action fired with: the
+ * record (without its password) or, for delete actions, `{ id }`
+ */
+export function webhookEventData(args: unknown[]): unknown {
+	const [first] = args;
+	if (typeof first === "string") return { id: first };
+	if (first && typeof first === "object") {
+		const { password: _password, ...record } = first as Record<string, unknown>;
+		return record;
+	}
+	return first ?? null;
+}
+
+async function queueDelivery(
+	scheduler: JobScheduler,
+	modelsObj: WebhookModels,
+	webhookId: string,
+	event: string,
+	data: unknown,
+): Promise<WebhookDelivery> {
+	const now = new Date();
+	const id = randomUUID();
+	const delivery = await modelsObj.webhookDeliveries.create({
+		id,
+		webhookId,
+		event,
+		payload: { id, event, createdAt: now.toISOString(), data },
+		nextAttemptAt: now,
+	});
+	await scheduler.schedule(WEBHOOK_JOB, now, { deliveryId: id }, deliveryKey(id));
+	return delivery;
+}
+
+/**
+ * Queues a delivery of an event to every active webhook subscribed to it.
+ * Does nothing while webhooks are disabled in the system settings.
+ *
+ * @returns The queued deliveries
+ */
+export async function queueWebhookEvent(
+	scheduler: JobScheduler,
+	modelsObj: WebhookModels,
+	event: string,
+	data: unknown,
+): Promise<WebhookDelivery[]> {
+	const settings = await modelsObj.sites.getSettings();
+	if (!settings.system.webhooksEnabled) return [];
+
+	const deliveries: WebhookDelivery[] = [];
+	for (const webhook of await modelsObj.webhooks.findSubscribed(event)) {
+		deliveries.push(await queueDelivery(scheduler, modelsObj, webhook.id, event, data));
+	}
+	return deliveries;
+}
+
+/**
+ * Sends the payload of a delivery again as a new delivery, so the log keeps
+ * the original. Replays go out even while webhooks are disabled.
+ *
+ * @returns The new delivery, or undefined when the delivery doesn't exist
+ */
+export async function replayDelivery(
+	scheduler: JobScheduler,
+	modelsObj: WebhookModels,
+	deliveryId: string,
+): Promise<WebhookDelivery | undefined> {
+	const original = await modelsObj.webhookDeliveries.findById(deliveryId);
+	if (!original) return undefined;
+	const { data } = (original.payload ?? {}) as { data?: unknown };
+	return queueDelivery(scheduler, modelsObj, original.webhookId, original.event, data ?? null);
+}
+
+/**
+ * Makes one attempt at a delivery and records the outcome; a failure queues
+ * the next attempt while attempts remain. Finished deliveries are left alone.
+ *
+ * @returns The updated delivery
+ */
+export async function attemptDelivery(
+	scheduler: JobScheduler,
+	modelsObj: WebhookModels,
+	deliveryId: string,
+): Promise<WebhookDelivery | undefined> {
+	const delivery = await modelsObj.webhookDeliveries.findById(deliveryId);
+	if (!delivery || delivery.status === "delivered" || delivery.status === "failed") return delivery;
+
+	const webhook = await modelsObj.webhooks.findById(delivery.webhookId);
+	if (!webhook?.active) {
+		return modelsObj.webhookDeliveries.update(delivery.id, {
+			status: "failed",
+			error: "Webhook is disabled",
+			nextAttemptAt: null,
+		});
+	}
+
+	const attempts = delivery.attempts + 1;
+	const body = JSON.stringify(delivery.payload);
+	const timestamp = Math.floor(Date.now() / 1000);
+	const started = Date.now();
+	let responseStatus: number | null = null;
+	let responseBody: string | null = null;
+	let error: string | null = null;
+
+	try {
+		const response = await fetch(webhook.url, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				"User-Agent": "NextPress-Webhooks",
+				[WEBHOOK_HEADERS.event]: delivery.event,
+				[WEBHOOK_HEADERS.delivery]: delivery.id,
+				[WEBHOOK_HEADERS.timestamp]: String(timestamp),
+				[WEBHOOK_HEADERS.signature]: signWebhookPayload(webhook.secret, timestamp, body),
+			},
+			body,
+			// A redirect counts as a failure rather than resending the payload elsewhere
+			redirect: "manual",
+			signal: AbortSignal.timeout(CONFIG.WEBHOOKS.TIMEOUT_MS),
+		});
+		responseStatus = response.status;
+		responseBody = (await response.text()).slice(0, CONFIG.WEBHOOKS.MAX_RESPONSE_BODY);
+		if (!response.ok) error = `Receiver responded with ${response.status}`;
+	} catch (err) {
+		error = err instanceof Error ? err.message : String(err);
+	}
+
+	const now = new Date();
+	const result = { attempts, responseStatus, responseBody, durationMs: Date.now() - started };
+
+	if (!error) {
+		return modelsObj.webhookDeliveries.update(delivery.id, {
+			...result,
+			status: "delivered",
+			error: null,
+			nextAttemptAt: null,
+			deliveredAt: now,
+		});
+	}
+
+	if (attempts >= CONFIG.WEBHOOKS.MAX_ATTEMPTS) {
+		return modelsObj.webhookDeliveries.update(delivery.id, { ...result, status: "failed", error, nextAttemptAt: null });
+	}
+
+	const retryAt = new Date(now.getTime() + CONFIG.WEBHOOKS.RETRY_DELAY_MS * 2 ** (attempts - 1));
+	const updated = await modelsObj.webhookDeliveries.update(delivery.id, {
+		...result,
+		status: "retrying",
+		error,
+		nextAttemptAt: retryAt,
+	});
+	// Same key as the running job: the scheduler keeps the rescheduled job pending
+	await scheduler.schedule(WEBHOOK_JOB, retryAt, { deliveryId: delivery.id }, deliveryKey(delivery.id));
+	return updated;
+}
+
+/**
+ * Registers the delivery job handler and the actions that queue deliveries.
+ * Queueing failures are logged; they never fail the action that fired.
+ */
+export function registerWebhooks(scheduler: JobScheduler, modelsObj: WebhookModels, hookSystem: HookSystem = hooks) {
+	scheduler.register(WEBHOOK_JOB, async ({ deliveryId }) => {
+		await attemptDelivery(scheduler, modelsObj, String(deliveryId));
+	});
+
+	for (const event of WEBHOOK_EVENT_NAMES) {
+		hookSystem.addAction(event, async (...args: unknown[]) => {
+			try {
+				await queueWebhookEvent(scheduler, modelsObj, event, webhookEventData(args));
+			} catch (error) {
+				console.error(`[Webhooks] Failed to queue ${event}:`, error);
+			}
+		});
+	}
+}
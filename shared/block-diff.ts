@@ -0,0 +1,206 @@
+import type { BlockConfig } from "./schema-types";
+
+/** Parts of a block compared between two versions */
+export type BlockDiffField = "name" | "content" | "styles" | "settings" | "customCss" | "other";
+
+export type BlockDiffStatus = "added" | "removed" | "changed" | "unchanged";
+
+/** Where a block sits in its tree */
+export interface BlockPosition {
+	parentId: string | null;
+	index: number;
+	depth: number;
+}
+
+export interface StyleChange {
+	property: string;
+	before?: unknown;
+	after?: unknown;
+}
+
+export interface BlockDiffEntry {
+	id: string;
+	status: BlockDiffStatus;
+	/** Present in both versions but under another parent or out of order among its siblings */
+	moved: boolean;
+	/** Fields that differ; empty unless status is "changed" */
+	fields: BlockDiffField[];
+	/** Per-property inline style changes */
+	styleChanges: StyleChange[];
+	before?: BlockConfig;
+	after?: BlockConfig;
+	from?: BlockPosition;
+	to?: BlockPosition;
+}
+
+export interface BlockDiff {
+	/** Every block of both versions keyed by block ID */
+	entries: Record<string, BlockDiffEntry>;
+	summary: { added: number; removed: number; changed: number; moved: number };
+}
+
+const COMPARED_FIELDS: BlockDiffField[] = ["name", "content", "styles", "settings", "customCss", "other"];
+
+/**
+ * Serialises a value with object keys sorted so key order never counts as a change
+ */
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+	if (value && typeof value === "object") {
+		const keys = Object.keys(value as Record<string, unknown>)
+			.filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+			.sort();
+		return `{${keys.map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`).join(",")}}`;
+	}
+	return JSON.stringify(value ?? null);
+}
+
+function isEmpty(value: unknown) {
+	return (
+		value === undefined ||
+		value === null ||
+		value === "" ||
+		(typeof value === "object" && Object.keys(value as object).length === 0)
+	);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+	// Missing and empty settings/styles/other are equivalent
+	if (isEmpty(a) && isEmpty(b)) return true;
+	return stableStringify(a) === stableStringify(b);
+}
+
+interface FlatBlock {
+	block: BlockConfig;
+	position: BlockPosition;
+}
+
+/**
+ * Indexes a block tree by ID, and each parent's child IDs in order (root under "")
+ */
+function flatten(blocks: BlockConfig[]) {
+	const byId = new Map<string, FlatBlock>();
+	const childIds = new Map<string, string[]>();
+
+	const visit = (list: BlockConfig[] | undefined, parentId: string | null, depth: number) => {
+		const ids: string[] = [];
+		(list ?? []).forEach((block, index) => {
+			if (!block?.id || byId.has(block.id)) return;
+			byId.set(block.id, { block, position: { parentId, index, depth } });
+			ids.push(block.id);
+			visit(block.children, block.id, depth + 1);
+		});
+		childIds.set(parentId ?? "", ids);
+	};
+
+	visit(blocks, null, 0);
+	return { byId, childIds };
+}
+
+/**
+ * IDs of the longest common subsequence of two sibling lists; the blocks
+ * outside it are the ones that moved
+ */
+function longestCommonSubsequence(a: string[], b: string[]): Set<string> {
+	const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+		}
+	}
+
+	const kept = new Set<string>();
+	for (let i = 0, j = 0; i < a.length && j < b.length; ) {
+		if (a[i] === b[j]) {
+			kept.add(a[i]);
+			i++;
+			j++;
+		} else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+			i++;
+		} else {
+			j++;
+		}
+	}
+	return kept;
+}
+
+/**
+ * Fields that differ between two versions of a block; children are not compared
+ */
+export function changedFields(before: BlockConfig, after: BlockConfig): BlockDiffField[] {
+	return COMPARED_FIELDS.filter((field) => !sameValue(before[field], after[field]));
+}
+
+function styleChanges(before: BlockConfig, after: BlockConfig): StyleChange[] {
+	const a = (before.styles ?? {}) as Record<string, unknown>;
+	const b = (after.styles ?? {}) as Record<string, unknown>;
+	const properties = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).sort();
+	return properties
+		.filter((property) => !sameValue(a[property], b[property]))
+		.map((property) => ({ property, before: a[property], after: b[property] }));
+}
+
+/**
+ * Compares two block trees by block ID. Blocks only in `after` are added,
+ * only in `before` removed; blocks in both are changed when their name,
+ * content, styles, settings, custom CSS or overrides differ (children are
+ * compared as blocks of their own), and moved when their parent changed or
+ * they left the longest run of siblings kept in the same order.
+ *
+ * @example
+ * const diff = diffBlocks(revision.blocks, page.blocks);
+ * diff.entries[block.id].status; // 'changed'
+ */
+export function diffBlocks(before: BlockConfig[], after: BlockConfig[]): BlockDiff {
+	const old = flatten(before);
+	const next = flatten(after);
+	const entries: Record<string, BlockDiffEntry> = {};
+	const summary = { added: 0, removed: 0, changed: 0, moved: 0 };
+
+	// Siblings that stayed under the same parent, in their original order
+	const inOrder = new Set<string>();
+	next.childIds.forEach((ids, parentKey) => {
+		const previous = (old.childIds.get(parentKey) ?? []).filter((id) => {
+			const target = next.byId.get(id);
+			return target && (target.position.parentId ?? "") === parentKey;
+		});
+		const current = ids.filter((id) => {
+			const prior = old.byId.get(id);
+			return prior && (prior.position.parentId ?? "") === parentKey;
+		});
+		longestCommonSubsequence(previous, current).forEach((id) => inOrder.add(id));
+	});
+
+	old.byId.forEach(({ block, position }, id) => {
+		if (next.byId.has(id)) return;
+		entries[id] = { id, status: "removed", moved: false, fields: [], styleChanges: [], before: block, from: position };
+		summary.removed++;
+	});
+
+	next.byId.forEach(({ block, position }, id) => {
+		const previous = old.byId.get(id);
+		if (!previous) {
+			entries[id] = { id, status: "added", moved: false, fields: [], styleChanges: [], after: block, to: position };
+			summary.added++;
+			return;
+		}
+
+		const fields = changedFields(previous.block, block);
+		const moved = !inOrder.has(id);
+		entries[id] = {
+			id,
+			status: fields.length > 0 ? "changed" : "unchanged",
+			moved,
+			fields,
+			styleChanges: fields.includes("styles") ? styleChanges(previous.block, block) : [],
+			before: previous.block,
+			after: block,
+			from: previous.position,
+			to: position,
+		};
+		if (fields.length > 0) summary.changed++;
+		if (moved) summary.moved++;
+	});
+
+	return { entries, summary };
+}
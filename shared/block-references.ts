@@ -0,0 +1,92 @@
+import type { BlockConfig } from "./schema-types";
+
+/** Block that renders a synced pattern by ID (`content.data.ref`) */
+export const BLOCK_REFERENCE = "core/block-reference";
+
+/** How deep patterns may nest inside each other before references stop resolving */
+export const MAX_REFERENCE_DEPTH = 8;
+
+/** Pattern ID a block embeds, or null when it is not a block reference */
+export function blockReferenceId(block: BlockConfig): string | null {
+	if (block.name !== BLOCK_REFERENCE || block.content?.kind !== "structured") return null;
+	const ref = block.content.data?.ref;
+	return typeof ref === "string" && ref ? ref : null;
+}
+
+/** IDs of every pattern referenced in a block tree, without duplicates */
+export function collectReferenceIds(blocks: BlockConfig[]): string[] {
+	const ids = new Set<string>();
+	const visit = (list: BlockConfig[] | undefined) =>
+		list?.forEach((block) => {
+			const ref = blockReferenceId(block);
+			if (ref) ids.add(ref);
+			else visit(block.children);
+		});
+	visit(blocks);
+	return Array.from(ids);
+}
+
+/** Whether a block tree embeds the pattern */
+export function referencesPattern(blocks: unknown, patternId: string): boolean {
+	return Array.isArray(blocks) && collectReferenceIds(blocks as BlockConfig[]).includes(patternId);
+}
+
+/**
+ * Copies blocks with IDs made from `createId`, re-parenting the top level
+ * under `parentId`. A Columns block's `settings.columnLayout` is rewritten to
+ * the copied child IDs, with column IDs scoped to the copy so each stays a
+ * distinct drop target.
+ */
+export function copyBlocks(
+	blocks: BlockConfig[],
+	createId: (block: BlockConfig) => string,
+	parentId: string | null = null,
+): BlockConfig[] {
+	return blocks.map((block) => {
+		const id = createId(block);
+		if (!block.children) return { ...block, id, parentId };
+
+		const children = copyBlocks(block.children, createId, id);
+		const layout = block.settings?.columnLayout;
+		if (!Array.isArray(layout)) return { ...block, id, parentId, children };
+
+		const copiedIds = new Map(block.children.map((child, index) => [child.id, children[index].id]));
+		const columnLayout = layout.map((column: { blockIds?: string[] }, index) => ({
+			...column,
+			columnId: `${id}-col-${index + 1}`,
+			blockIds: (column.blockIds ?? []).flatMap((childId) => copiedIds.get(childId) ?? []),
+		}));
+		return { ...block, id, parentId, children, settings: { ...block.settings, columnLayout } };
+	});
+}
+
+/**
+ * Fills each block reference's children with its pattern's blocks, so
+ * renderers can treat it as a container. Copied IDs are prefixed with the
+ * reference's ID, which keeps block-scoped CSS apart when a pattern appears
+ * twice on a page. References to missing patterns, or to a pattern already
+ * being expanded (a pattern containing itself), are left empty.
+ *
+ * @param patterns - Blocks of each referenced pattern, by pattern ID
+ */
+export function resolveBlockReferences(
+	blocks: BlockConfig[],
+	patterns: Map<string, BlockConfig[]>,
+	expanding: string[] = [],
+): BlockConfig[] {
+	return blocks.map((block) => {
+		const ref = blockReferenceId(block);
+		if (!ref) {
+			return block.children
+				? { ...block, children: resolveBlockReferences(block.children, patterns, expanding) }
+				: block;
+		}
+
+		const patternBlocks = patterns.get(ref);
+		if (!patternBlocks || expanding.includes(ref) || expanding.length >= MAX_REFERENCE_DEPTH) {
+			return { ...block, children: [] };
+		}
+		const copies = copyBlocks(patternBlocks, (child) => `${block.id}-${child.id}`, block.id);
+		return { ...block, children: resolveBlockReferences(copies, patterns, [...expanding, ref]) };
+	});
+}
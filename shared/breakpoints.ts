@@ -0,0 +1,80 @@
+import type { TokenEntry } from "./schema-types";
+
+/** Devices the builder previews and styles can be scoped to */
+export type DeviceBreakpoint = "desktop" | "tablet" | "mobile";
+
+export const DEVICE_BREAKPOINTS: DeviceBreakpoint[] = ["desktop", "tablet", "mobile"];
+
+/** Widest viewport, in px, that still counts as each smaller device */
+export const BREAKPOINT_MAX_WIDTHS = {
+	tablet: 1023,
+	mobile: 767,
+} as const;
+
+/**
+ * Media query for styles scoped to a breakpoint. Overrides are desktop-first:
+ * tablet styles also reach mobile unless mobile overrides them too.
+ */
+export function breakpointMediaQuery(breakpoint: Exclude<DeviceBreakpoint, "desktop">): string {
+	return `@media (max-width: ${BREAKPOINT_MAX_WIDTHS[breakpoint]}px)`;
+}
+
+/** Media query matching only the given device, for hiding blocks */
+export function deviceMediaQuery(device: DeviceBreakpoint): string {
+	switch (device) {
+		case "desktop":
+			return `@media (min-width: ${BREAKPOINT_MAX_WIDTHS.tablet + 1}px)`;
+		case "tablet":
+			return `@media (min-width: ${BREAKPOINT_MAX_WIDTHS.mobile + 1}px) and (max-width: ${BREAKPOINT_MAX_WIDTHS.tablet}px)`;
+		case "mobile":
+			return `@media (max-width: ${BREAKPOINT_MAX_WIDTHS.mobile}px)`;
+	}
+}
+
+export function isBreakpointModifier(modifier: string | undefined): modifier is "tablet" | "mobile" {
+	return modifier === "tablet" || modifier === "mobile";
+}
+
+/**
+ * tokenMap key for a property: the property itself on desktop, and
+ * `<breakpoint>:<property>` for an override, like other modifier entries.
+ */
+export function tokenMapKey(property: string, breakpoint: DeviceBreakpoint): string {
+	return breakpoint === "desktop" ? property : `${breakpoint}:${property}`;
+}
+
+/** Breakpoints whose overrides apply on a device, weakest first */
+export function activeBreakpoints(device: DeviceBreakpoint): Array<"tablet" | "mobile"> {
+	if (device === "mobile") return ["tablet", "mobile"];
+	if (device === "tablet") return ["tablet"];
+	return [];
+}
+
+/**
+ * Sorts breakpoint entries so mobile rules come after tablet ones and win
+ * where both match
+ */
+export function byBreakpoint<T extends { entry: TokenEntry }>(a: T, b: T): number {
+	const rank = (entry: TokenEntry) => (entry.modifier === "mobile" ? 2 : entry.modifier === "tablet" ? 1 : 0);
+	return rank(a.entry) - rank(b.entry);
+}
+
+/**
+ * CSS rule for a breakpoint override. It is marked important because base
+ * styles are rendered inline.
+ */
+export function breakpointRule(
+	blockId: string,
+	breakpoint: "tablet" | "mobile",
+	cssProperty: string,
+	value: string,
+): string {
+	return `${breakpointMediaQuery(breakpoint)} { .block-${blockId} { ${cssProperty}: ${value} !important; } }`;
+}
+
+/** CSS hiding a block on each of the given devices */
+export function blockVisibilityCSS(blockId: string, hideOn: DeviceBreakpoint[] | null | undefined): string {
+	return DEVICE_BREAKPOINTS.filter((device) => hideOn?.includes(device))
+		.map((device) => `${deviceMediaQuery(device)} { .block-${blockId} { display: none !important; } }`)
+		.join("\n");
+}
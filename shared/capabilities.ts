@@ -0,0 +1,139 @@
+/**
+ * Capability catalog and default role definitions.
+ *
+ * Capabilities are stored on `roles.capabilities` as `{ name, description }`
+ * entries and resolved per site through `user_roles`. The server guards API
+ * routes with them; the admin UI uses the same catalog to render role editors.
+ */
+
+export interface CapabilityDefinition {
+	name: string;
+	description: string;
+	group: CapabilityGroup;
+}
+
+export type CapabilityGroup =
+	| "posts"
+	| "pages"
+	| "media"
+	| "comments"
+	| "design"
+	| "administration";
+
+/** Shape persisted in `roles.capabilities` */
+export interface CapabilityEntry {
+	name: string;
+	description: string;
+}
+
+export const CAPABILITIES: CapabilityDefinition[] = [
+	{ name: "read_posts", description: "Read published posts and pages", group: "posts" },
+	{ name: "edit_posts", description: "Create and edit own posts", group: "posts" },
+	{ name: "edit_others_posts", description: "Edit posts written by other users", group: "posts" },
+	{ name: "publish_posts", description: "Publish posts", group: "posts" },
+	{ name: "delete_posts", description: "Delete own posts", group: "posts" },
+	{ name: "delete_others_posts", description: "Delete posts written by other users", group: "posts" },
+	{ name: "manage_categories", description: "Create, edit, and delete categories and tags", group: "posts" },
+
+	{ name: "edit_pages", description: "Create and edit own pages", group: "pages" },
+	{ name: "edit_others_pages", description: "Edit pages created by other users", group: "pages" },
+	{ name: "publish_pages", description: "Publish pages", group: "pages" },
+	{ name: "delete_pages", description: "Delete own pages", group: "pages" },
+	{ name: "delete_others_pages", description: "Delete pages created by other users", group: "pages" },
+
+	{ name: "upload_files", description: "Upload files and edit own media", group: "media" },
+	{ name: "manage_media", description: "Edit and delete all media files", group: "media" },
+
+	{ name: "comment_posts", description: "Comment on posts", group: "comments" },
+	{ name: "moderate_comments", description: "Approve, edit, and delete comments", group: "comments" },
+
+	{ name: "manage_templates", description: "Create, edit, and delete templates", group: "design" },
+	{ name: "manage_patterns", description: "Create, edit, and delete synced patterns", group: "design" },
+	{ name: "manage_themes", description: "Install, activate, and customize themes", group: "design" },
+
+	{ name: "list_users", description: "View the list of users", group: "administration" },
+	{ name: "manage_users", description: "Create, edit, and delete users", group: "administration" },
+	{ name: "manage_roles", description: "Create, edit, and delete roles", group: "administration" },
+	{ name: "manage_sites", description: "Create, edit, and delete sites", group: "administration" },
+	{ name: "manage_plugins", description: "Install, activate, and configure plugins", group: "administration" },
+	{ name: "manage_settings", description: "Access and modify system settings", group: "administration" },
+];
+
+export const ALL_CAPABILITY_NAMES = CAPABILITIES.map((c) => c.name);
+
+const CONTENT_CAPABILITIES = [
+	"read_posts",
+	"edit_posts",
+	"edit_others_posts",
+	"publish_posts",
+	"delete_posts",
+	"delete_others_posts",
+	"manage_categories",
+	"edit_pages",
+	"edit_others_pages",
+	"publish_pages",
+	"delete_pages",
+	"delete_others_pages",
+	"upload_files",
+	"manage_media",
+	"comment_posts",
+	"moderate_comments",
+];
+
+/**
+ * Built-in roles seeded on startup. Existing installs get any missing
+ * capabilities merged into these roles; custom roles are never touched.
+ */
+export const DEFAULT_ROLES: Array<{
+	name: string;
+	description: string;
+	capabilities: string[];
+}> = [
+	{
+		name: "admin",
+		description: "Full system access with all permissions",
+		capabilities: ALL_CAPABILITY_NAMES,
+	},
+	{
+		name: "editor",
+		description: "Content management with publishing permissions",
+		capabilities: [...CONTENT_CAPABILITIES, "manage_templates", "manage_patterns", "list_users"],
+	},
+	{
+		name: "author",
+		description: "Can publish and manage their own posts",
+		capabilities: ["read_posts", "edit_posts", "publish_posts", "delete_posts", "upload_files", "comment_posts"],
+	},
+	{
+		name: "contributor",
+		description: "Can write and manage their own posts but cannot publish them",
+		capabilities: ["read_posts", "edit_posts", "delete_posts", "comment_posts"],
+	},
+	{
+		name: "subscriber",
+		description: "Basic user with limited content access",
+		capabilities: ["read_posts", "comment_posts"],
+	},
+];
+
+/**
+ * Converts capability names into the `{ name, description }` shape stored on roles.
+ * Unknown names are kept with an empty description so custom capabilities survive.
+ */
+export function toCapabilityEntries(names: string[]): CapabilityEntry[] {
+	return names.map((name) => ({
+		name,
+		description: CAPABILITIES.find((c) => c.name === name)?.description ?? "",
+	}));
+}
+
+/**
+ * Extracts capability names from a stored `roles.capabilities` value.
+ * Accepts both `{ name }` objects and bare strings.
+ */
+export function getCapabilityNames(capabilities: unknown): string[] {
+	if (!Array.isArray(capabilities)) return [];
+	return capabilities
+		.map((c) => (typeof c === "string" ? c : (c as { name?: unknown })?.name))
+		.filter((name): name is string => typeof name === "string" && name.length > 0);
+}
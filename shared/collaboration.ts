@@ -0,0 +1,181 @@
+import { changedFields, diffBlocks } from "./block-diff";
+import type { BlockConfig } from "./schema-types";
+
+/**
+ * Real-time editing protocol shared by the WebSocket hub and the editor.
+ *
+ * Editors send block operations; the server applies them to its copy of the
+ * page in arrival order and echoes each one, with a sequence number, to every
+ * editor including the sender. Editors apply their own operations right away
+ * and rebase those not yet echoed on top of the server's order, so everyone
+ * ends up with the same blocks.
+ */
+
+/** Upgrade path of the collaboration socket; the page goes in `?pageId=` */
+export const COLLABORATION_PATH = "/ws/collaboration";
+
+/** Position under a parent (null for the root) right after a sibling (null for first) */
+export interface BlockAnchor {
+	parentId: string | null;
+	afterId: string | null;
+}
+
+export type BlockOperation =
+	| ({ opId: string; kind: "insert"; block: BlockConfig } & BlockAnchor)
+	| ({ opId: string; kind: "move"; id: string } & BlockAnchor)
+	| { opId: string; kind: "update"; id: string; changes: Partial<BlockConfig> }
+	| { opId: string; kind: "delete"; id: string };
+
+/** An editor connected to a page */
+export interface Collaborator {
+	clientId: string;
+	userId: string;
+	name: string;
+	avatarUrl: string | null;
+	color: string;
+	/** Block the editor has selected, and so holds the lock on */
+	blockId: string | null;
+}
+
+export type CollaborationClientMessage =
+	| { type: "op"; op: BlockOperation }
+	/** Replace the server copy; only accepted from the first editor in a room */
+	| { type: "sync"; blocks: BlockConfig[] }
+	| { type: "select"; blockId: string | null };
+
+export type CollaborationServerMessage =
+	| { type: "welcome"; clientId: string; blocks: BlockConfig[]; seq: number; peers: Collaborator[] }
+	| { type: "op"; op: BlockOperation; clientId: string; seq: number }
+	| { type: "rejected"; opId: string; reason: string }
+	| { type: "presence"; peers: Collaborator[] }
+	/** The page was saved; editors move to the new version */
+	| { type: "saved"; version: number; updatedAt: string | null }
+	| { type: "error"; message: string };
+
+/** Block IDs an operation edits, which must not be locked by another editor */
+export function operationTargets(op: BlockOperation): string[] {
+	return op.kind === "insert" ? [] : [op.id];
+}
+
+function removeBlock(blocks: BlockConfig[], id: string): { next: BlockConfig[]; removed: BlockConfig | null } {
+	let removed: BlockConfig | null = null;
+	const walk = (list: BlockConfig[]): BlockConfig[] =>
+		list.flatMap((block) => {
+			if (block.id === id) {
+				removed = block;
+				return [];
+			}
+			return block.children ? [{ ...block, children: walk(block.children) }] : [block];
+		});
+	const next = walk(blocks);
+	return { next, removed };
+}
+
+function containsBlock(blocks: BlockConfig[], id: string): boolean {
+	return blocks.some((block) => block.id === id || containsBlock(block.children ?? [], id));
+}
+
+/**
+ * Places a block at an anchor. A missing parent puts it at the end of the
+ * root, a missing sibling at the end of the parent.
+ */
+function placeBlock(blocks: BlockConfig[], block: BlockConfig, anchor: BlockAnchor): BlockConfig[] {
+	const insertInto = (list: BlockConfig[], parentId: string | null) => {
+		const after = anchor.afterId === null ? -1 : list.findIndex((sibling) => sibling.id === anchor.afterId);
+		const index = anchor.afterId !== null && after === -1 ? list.length : after + 1;
+		const next = [...list];
+		next.splice(index, 0, { ...block, parentId });
+		return next;
+	};
+
+	if (anchor.parentId === null || !containsBlock(blocks, anchor.parentId)) {
+		return insertInto(blocks, null);
+	}
+	const walk = (list: BlockConfig[]): BlockConfig[] =>
+		list.map((item) => {
+			if (item.id === anchor.parentId) return { ...item, children: insertInto(item.children ?? [], item.id) };
+			return item.children ? { ...item, children: walk(item.children) } : item;
+		});
+	return walk(blocks);
+}
+
+/**
+ * Applies one operation. Operations on blocks that no longer exist do
+ * nothing, so every editor can apply the same stream regardless of what
+ * it has already seen.
+ */
+export function applyBlockOperation(blocks: BlockConfig[], op: BlockOperation): BlockConfig[] {
+	switch (op.kind) {
+		case "insert":
+			if (containsBlock(blocks, op.block.id)) return blocks;
+			return placeBlock(blocks, op.block, op);
+		case "move": {
+			const { next, removed } = removeBlock(blocks, op.id);
+			// A block cannot move into itself or its own children
+			if (!removed || (op.parentId !== null && containsBlock([removed], op.parentId))) return blocks;
+			return placeBlock(next, removed, op);
+		}
+		case "update": {
+			if (!containsBlock(blocks, op.id)) return blocks;
+			const { children: _children, id: _id, parentId: _parentId, ...changes } = op.changes;
+			const walk = (list: BlockConfig[]): BlockConfig[] =>
+				list.map((block) => {
+					if (block.id === op.id) return { ...block, ...changes };
+					return block.children ? { ...block, children: walk(block.children) } : block;
+				});
+			return walk(blocks);
+		}
+		case "delete":
+			return removeBlock(blocks, op.id).next;
+	}
+}
+
+export function applyBlockOperations(blocks: BlockConfig[], ops: BlockOperation[]): BlockConfig[] {
+	return ops.reduce(applyBlockOperation, blocks);
+}
+
+/**
+ * Operations that turn `before` into `after`: deletes first, then inserts,
+ * moves and field updates in tree order so every anchor refers to a block
+ * already in place.
+ */
+export function blockOperations(
+	before: BlockConfig[],
+	after: BlockConfig[],
+	createOpId: () => string,
+): BlockOperation[] {
+	const diff = diffBlocks(before, after);
+	const ops: BlockOperation[] = [];
+
+	Object.values(diff.entries).forEach((entry) => {
+		// Children go with their parent
+		const parentGone = entry.from?.parentId && diff.entries[entry.from.parentId]?.status === "removed";
+		if (entry.status === "removed" && !parentGone) {
+			ops.push({ opId: createOpId(), kind: "delete", id: entry.id });
+		}
+	});
+
+	const visit = (list: BlockConfig[], parentId: string | null) => {
+		list.forEach((block, index) => {
+			const entry = diff.entries[block.id];
+			const anchor: BlockAnchor = { parentId, afterId: index > 0 ? list[index - 1].id : null };
+			if (entry?.status === "added") {
+				// Inserted empty; its children follow as inserts or moves of their own
+				const inserted = { ...block, parentId, ...(block.children ? { children: [] } : {}) };
+				ops.push({ opId: createOpId(), kind: "insert", block: inserted, ...anchor });
+			} else if (entry?.moved) {
+				ops.push({ opId: createOpId(), kind: "move", id: block.id, ...anchor });
+			}
+			if (entry?.status === "changed" && entry.before) {
+				const changes = Object.fromEntries(
+					changedFields(entry.before, block).map((field) => [field, block[field] ?? null]),
+				) as Partial<BlockConfig>;
+				ops.push({ opId: createOpId(), kind: "update", id: block.id, changes });
+			}
+			visit(block.children ?? [], block.id);
+		});
+	};
+	visit(after, null);
+
+	return ops;
+}
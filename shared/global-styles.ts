@@ -0,0 +1,175 @@
+import { z } from "zod";
+
+/**
+ * Global styles: the design tokens of a theme (palette, font families,
+ * spacing scale, container width) and the defaults of body text, headings,
+ * links and buttons. Stored as the theme's `settings.tokens` and filled from
+ * the `tokens.json` of theme packages.
+ *
+ * The public page shell emits every token as a CSS custom property
+ * (`--np-color-<slug>`, `--np-font-<slug>`, `--np-spacing-<slug>`), and
+ * blocks pick tokens as `var()` references, so changing a token restyles
+ * every block using it.
+ */
+
+// Values end up inside a <style> element, so anything that could close a declaration or the element is refused
+const cssValue = z
+	.string()
+	.trim()
+	.max(200)
+	.regex(/^[^<>{};]*$/, "Must be a plain CSS value");
+
+const slug = z
+	.string()
+	.trim()
+	.regex(/^[a-z0-9-]+$/, "Use lowercase letters, digits and dashes");
+
+const colorTokenSchema = z.object({ slug, name: z.string().trim().min(1), color: cssValue });
+const fontFamilyTokenSchema = z.object({ slug, name: z.string().trim().min(1), fontFamily: cssValue });
+const spacingTokenSchema = z.object({ slug, name: z.string().trim().min(1), size: cssValue });
+
+const elementSchema = z.object({
+	fontFamily: cssValue.optional(),
+	fontSize: cssValue.optional(),
+	fontWeight: cssValue.optional(),
+	lineHeight: cssValue.optional(),
+	color: cssValue.optional(),
+});
+
+export const globalStylesSchema = z.object({
+	palette: z.array(colorTokenSchema).default([
+		{ slug: "primary", name: "Primary", color: "#007cba" },
+		{ slug: "secondary", name: "Secondary", color: "#6c757d" },
+		{ slug: "foreground", name: "Foreground", color: "#333333" },
+		{ slug: "background", name: "Background", color: "#ffffff" },
+	]),
+	fontFamilies: z.array(fontFamilyTokenSchema).default([
+		{
+			slug: "system",
+			name: "System",
+			fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
+		},
+		{ slug: "serif", name: "Serif", fontFamily: 'Georgia, "Times New Roman", serif' },
+		{ slug: "mono", name: "Monospace", fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' },
+	]),
+	spacing: z.array(spacingTokenSchema).default([
+		{ slug: "xs", name: "Extra small", size: "0.25rem" },
+		{ slug: "sm", name: "Small", size: "0.5rem" },
+		{ slug: "md", name: "Medium", size: "1rem" },
+		{ slug: "lg", name: "Large", size: "2rem" },
+		{ slug: "xl", name: "Extra large", size: "4rem" },
+	]),
+	containerWidth: cssValue.default("1200px"),
+	elements: z
+		.object({
+			body: elementSchema.extend({ backgroundColor: cssValue.optional() }).default({}),
+			heading: elementSchema.default({}),
+			link: z
+				.object({ color: cssValue.optional(), hoverColor: cssValue.optional(), textDecoration: cssValue.optional() })
+				.default({}),
+			button: z
+				.object({
+					backgroundColor: cssValue.optional(),
+					hoverBackgroundColor: cssValue.optional(),
+					color: cssValue.optional(),
+					borderRadius: cssValue.optional(),
+					padding: cssValue.optional(),
+				})
+				.default({}),
+		})
+		.default({}),
+});
+
+export type GlobalStyles = z.infer<typeof globalStylesSchema>;
+export type ColorToken = z.infer<typeof colorTokenSchema>;
+export type FontFamilyToken = z.infer<typeof fontFamilyTokenSchema>;
+export type SpacingToken = z.infer<typeof spacingTokenSchema>;
+
+export const DEFAULT_GLOBAL_STYLES: GlobalStyles = globalStylesSchema.parse({});
+
+/** `TokenEntry.other` of entries that point at a global styles token instead of a Tailwind one */
+export const THEME_TOKEN = "theme";
+
+export type GlobalStyleTokenKind = "color" | "font" | "spacing";
+
+/**
+ * `var()` reference to a token, with its current value as the fallback so
+ * the reference still renders where the token has since been removed
+ * @example
+ * globalStyleVar("color", "primary", "#007cba"); // "var(--np-color-primary, #007cba)"
+ */
+export function globalStyleVar(kind: GlobalStyleTokenKind, tokenSlug: string, fallback?: string): string {
+	return fallback ? `var(--np-${kind}-${tokenSlug}, ${fallback})` : `var(--np-${kind}-${tokenSlug})`;
+}
+
+/**
+ * Global styles of a theme row, falling back to the defaults for themes
+ * without any or with tokens that no longer validate
+ */
+export function globalStylesOf(theme: { settings?: unknown } | null | undefined): GlobalStyles {
+	const tokens = (theme?.settings as { tokens?: unknown } | null | undefined)?.tokens;
+	const parsed = globalStylesSchema.safeParse(tokens ?? {});
+	return parsed.success ? parsed.data : DEFAULT_GLOBAL_STYLES;
+}
+
+const camelToKebab = (property: string) => property.replace(/[A-Z]/g, (m) => `-${m.toLowerCase()}`);
+
+function declarations(values: Record<string, string | undefined>): string {
+	return Object.entries(values)
+		.filter(([, value]) => value)
+		.map(([property, value]) => `${camelToKebab(property)}: ${value};`)
+		.join(" ");
+}
+
+function rule(selector: string, values: Record<string, string | undefined>): string {
+	const body = declarations(values);
+	return body ? `${selector} { ${body} }` : "";
+}
+
+/**
+ * Custom properties of every token, plus `--np-container-width` and the
+ * body defaults (`--np-body-*`) that the page shell reads with fallbacks
+ */
+export function globalStylesVariables(styles: GlobalStyles): Record<string, string> {
+	const { body } = styles.elements;
+	const variables: Record<string, string> = {};
+	for (const token of styles.palette) variables[`--np-color-${token.slug}`] = token.color;
+	for (const token of styles.fontFamilies) variables[`--np-font-${token.slug}`] = token.fontFamily;
+	for (const token of styles.spacing) variables[`--np-spacing-${token.slug}`] = token.size;
+	variables["--np-container-width"] = styles.containerWidth;
+	if (body.fontFamily) variables["--np-body-font-family"] = body.fontFamily;
+	if (body.fontSize) variables["--np-body-font-size"] = body.fontSize;
+	if (body.lineHeight) variables["--np-body-line-height"] = body.lineHeight;
+	if (body.color) variables["--np-body-color"] = body.color;
+	if (body.backgroundColor) variables["--np-body-background-color"] = body.backgroundColor;
+	return variables;
+}
+
+/**
+ * Stylesheet of the global styles: the `:root` custom properties followed by
+ * the heading, link and button defaults. Page-level design settings still win
+ * for the body, since the page shell only falls back to the `--np-body-*`
+ * properties.
+ */
+export function globalStylesToCss(styles: GlobalStyles): string {
+	const { heading, link, button } = styles.elements;
+	const variables = Object.entries(globalStylesVariables(styles))
+		.map(([name, value]) => `${name}: ${value};`)
+		.join(" ");
+
+	return [
+		`:root { ${variables} }`,
+		rule("h1, h2, h3, h4, h5, h6", heading),
+		rule("a", { color: link.color, textDecoration: link.textDecoration }),
+		rule("a:hover", { color: link.hoverColor }),
+		rule(".wp-block-button__link", {
+			backgroundColor: button.backgroundColor,
+			color: button.color,
+			borderRadius: button.borderRadius,
+			padding: button.padding,
+		}),
+		rule(".wp-block-button__link:hover", { backgroundColor: button.hoverBackgroundColor }),
+	]
+		.filter(Boolean)
+		.join("\n");
+}
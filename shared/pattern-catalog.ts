@@ -0,0 +1,209 @@
+import type { BlockConfig, BlockContent } from "./schema-types";
+import type { LibraryPattern } from "./pattern-library";
+import { PLACEHOLDER_IMAGE_ALT, PLACEHOLDER_IMAGE_URL } from "./placeholder-image";
+
+/**
+ * Built-in patterns listed in the builder's pattern library next to the
+ * stored ones. They are always inserted as copies with fresh block IDs, so
+ * the IDs below only have to be unique within a pattern.
+ */
+
+const block = (
+	id: string,
+	name: string,
+	content: BlockContent,
+	styles: BlockConfig["styles"] = {},
+	children?: BlockConfig[],
+): BlockConfig => ({
+	id,
+	name,
+	type: children ? "container" : "block",
+	parentId: null,
+	content,
+	styles,
+	...(children ? { children: children.map((child) => ({ ...child, parentId: id })) } : {}),
+});
+
+// Text is centered unless the styles align it otherwise
+const heading = (id: string, value: string, level = 2, styles: BlockConfig["styles"] = {}) =>
+	block(
+		id,
+		"core/heading",
+		{ kind: "text", value, level, textAlign: styles.textAlign ?? "center" } as BlockContent,
+		{ fontWeight: "700", margin: "0 0 0.5em", ...styles },
+	);
+
+const paragraph = (id: string, value: string, styles: BlockConfig["styles"] = {}) =>
+	block(id, "core/paragraph", { kind: "text", value, textAlign: styles.textAlign ?? "center" }, {
+		lineHeight: "1.6",
+		...styles,
+	});
+
+const buttons = (id: string, labels: string[]) =>
+	block(
+		id,
+		"core/buttons",
+		{
+			kind: "structured",
+			data: {
+				buttons: labels.map((text, index) => ({
+					id: `${id}-${index + 1}`,
+					text,
+					url: "#",
+					linkTarget: "_self",
+					rel: "",
+					title: "",
+					className: "",
+				})),
+				layout: "center",
+				orientation: "horizontal",
+				className: "",
+			},
+		},
+		{ margin: "1em 0" },
+	);
+
+const group = (id: string, children: BlockConfig[], styles: BlockConfig["styles"] = {}) =>
+	block(id, "core/group", { kind: "structured", data: { tagName: "div" } }, { padding: "1.5em", ...styles }, children);
+
+/** Columns block with one column per child */
+const columns = (id: string, children: BlockConfig[]): BlockConfig => ({
+	...block(id, "core/columns", { kind: "structured", data: { gap: "24px", verticalAlignment: "top" } }, {}, children),
+	settings: {
+		columnLayout: children.map((child, index) => ({
+			columnId: `${id}-col-${index + 1}`,
+			width: `${(100 / children.length).toFixed(2)}%`,
+			blockIds: [child.id],
+		})),
+	},
+});
+
+const pricingTier = (id: string, name: string, price: string, features: string[], highlighted = false) =>
+	group(
+		id,
+		[
+			heading(`${id}-name`, name, 3),
+			paragraph(`${id}-price`, price, { fontSize: "2rem", fontWeight: "700" }),
+			...features.map((feature, index) => paragraph(`${id}-feature-${index + 1}`, feature, { margin: "0.25em 0" })),
+			buttons(`${id}-cta`, [highlighted ? "Start free trial" : "Choose plan"]),
+		],
+		{ border: highlighted ? "2px solid #0073aa" : "1px solid #e5e7eb", borderRadius: "8px" },
+	);
+
+const teamMember = (id: string, name: string, role: string) =>
+	group(id, [
+		block(`${id}-photo`, "core/image", {
+			kind: "media",
+			url: PLACEHOLDER_IMAGE_URL,
+			alt: PLACEHOLDER_IMAGE_ALT,
+			mediaType: "image",
+		}, { borderRadius: "50%", width: "160px", margin: "0 auto" }),
+		heading(`${id}-name`, name, 3, { margin: "0.75em 0 0.25em" }),
+		paragraph(`${id}-role`, role, { color: "#6b7280" }),
+	]);
+
+const faqItem = (id: string, question: string, answer: string) => [
+	heading(`${id}-q`, question, 3, { textAlign: "left", margin: "1.25em 0 0.25em" }),
+	paragraph(`${id}-a`, answer, { textAlign: "left" }),
+];
+
+export const CORE_PATTERNS: LibraryPattern[] = [
+	{
+		id: "core/hero",
+		name: "Hero",
+		description: "Large centered headline with a short pitch and two buttons",
+		category: "hero",
+		keywords: ["banner", "header", "intro", "landing"],
+		thumbnail: "/patterns/hero.svg",
+		synced: false,
+		blocks: [
+			group(
+				"hero",
+				[
+					heading("hero-title", "Build something people love", 1, { fontSize: "3rem" }),
+					paragraph("hero-text", "Everything you need to launch, grow and run your site in one place.", {
+						fontSize: "1.25rem",
+						color: "#4b5563",
+					}),
+					buttons("hero-buttons", ["Get started", "Learn more"]),
+				],
+				{ padding: "6em 2em", backgroundColor: "#f3f4f6", textAlign: "center" },
+			),
+		],
+	},
+	{
+		id: "core/pricing-table",
+		name: "Pricing table",
+		description: "Three pricing tiers side by side, the middle one highlighted",
+		category: "pricing",
+		keywords: ["plans", "tiers", "subscription", "price"],
+		thumbnail: "/patterns/pricing-table.svg",
+		synced: false,
+		blocks: [
+			heading("pricing-title", "Simple, transparent pricing"),
+			columns("pricing-tiers", [
+				pricingTier("pricing-basic", "Basic", "$9/mo", ["1 site", "10 GB storage", "Email support"]),
+				pricingTier("pricing-pro", "Pro", "$29/mo", ["5 sites", "100 GB storage", "Priority support"], true),
+				pricingTier("pricing-team", "Team", "$79/mo", ["Unlimited sites", "1 TB storage", "Dedicated manager"]),
+			]),
+		],
+	},
+	{
+		id: "core/faq",
+		name: "FAQ",
+		description: "Frequently asked questions with short answers",
+		category: "faq",
+		keywords: ["questions", "answers", "help", "support"],
+		thumbnail: "/patterns/faq.svg",
+		synced: false,
+		blocks: [
+			group(
+				"faq",
+				[
+					heading("faq-title", "Frequently asked questions"),
+					...faqItem("faq-1", "Can I cancel at any time?", "Yes. Your plan stays active until the end of the billing period."),
+					...faqItem("faq-2", "Do you offer refunds?", "We refund any payment made in the last 30 days, no questions asked."),
+					...faqItem("faq-3", "Can I change plans later?", "Upgrade or downgrade whenever you like; we prorate the difference."),
+				],
+				{ maxWidth: "720px", margin: "0 auto" },
+			),
+		],
+	},
+	{
+		id: "core/team-grid",
+		name: "Team grid",
+		description: "Photos, names and roles of three team members",
+		category: "team",
+		keywords: ["people", "staff", "about", "members"],
+		thumbnail: "/patterns/team-grid.svg",
+		synced: false,
+		blocks: [
+			heading("team-title", "Meet the team"),
+			columns("team-members", [
+				teamMember("team-1", "Alex Morgan", "Founder"),
+				teamMember("team-2", "Sam Lee", "Design lead"),
+				teamMember("team-3", "Jordan Diaz", "Engineering"),
+			]),
+		],
+	},
+	{
+		id: "core/call-to-action",
+		name: "Call to action",
+		description: "Closing headline with a single button on a dark band",
+		category: "call-to-action",
+		keywords: ["cta", "signup", "newsletter", "conversion"],
+		thumbnail: "/patterns/call-to-action.svg",
+		synced: false,
+		blocks: [
+			group(
+				"cta",
+				[
+					heading("cta-title", "Ready to get started?", 2, { color: "#ffffff" }),
+					paragraph("cta-text", "Join thousands of teams already publishing with us.", { color: "#d1d5db" }),
+					buttons("cta-button", ["Create your site"]),
+				],
+				{ padding: "4em 2em", backgroundColor: "#111827", textAlign: "center" },
+			),
+		],
+	},
+];
@@ -0,0 +1,123 @@
+import { z } from "zod";
+import type { BlockConfig, Pattern } from "./schema-types";
+
+/** Categories the builder's pattern library groups patterns under */
+export const PATTERN_CATEGORIES = [
+	{ id: "hero", label: "Hero" },
+	{ id: "features", label: "Features" },
+	{ id: "pricing", label: "Pricing" },
+	{ id: "faq", label: "FAQ" },
+	{ id: "team", label: "Team" },
+	{ id: "call-to-action", label: "Call to action" },
+	{ id: "uncategorized", label: "Uncategorized" },
+] as const;
+
+export const DEFAULT_PATTERN_CATEGORY = "uncategorized";
+
+/** Label for a category ID, falling back to the ID for categories a theme introduced */
+export function patternCategoryLabel(category: string): string {
+	return PATTERN_CATEGORIES.find((entry) => entry.id === category)?.label ?? category;
+}
+
+/**
+ * A pattern as the library lists it: one stored in the database or one of
+ * the built-in catalog, whose IDs start with `core/`
+ */
+export interface LibraryPattern {
+	id: string;
+	name: string;
+	description: string | null;
+	category: string;
+	keywords: string[];
+	thumbnail: string | null;
+	/** Inserted as a block reference instead of a copy */
+	synced: boolean;
+	blocks: BlockConfig[];
+}
+
+export function toLibraryPattern(pattern: Pattern): LibraryPattern {
+	return {
+		id: pattern.id,
+		name: pattern.name,
+		description: pattern.description,
+		category: pattern.category,
+		keywords: Array.isArray(pattern.keywords)
+			? pattern.keywords.filter((keyword): keyword is string => typeof keyword === "string")
+			: [],
+		thumbnail: pattern.thumbnail,
+		synced: pattern.synced,
+		blocks: (pattern.blocks ?? []) as BlockConfig[],
+	};
+}
+
+/**
+ * Filters patterns by category and a free-text query. Every word of the
+ * query has to appear in the name, description, category or a keyword.
+ * @example
+ * searchPatterns(patterns, "pricing three", "pricing");
+ */
+export function searchPatterns(
+	patterns: LibraryPattern[],
+	query: string,
+	category?: string | null,
+): LibraryPattern[] {
+	const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+	return patterns.filter((pattern) => {
+		if (category && pattern.category !== category) return false;
+		const haystack = [pattern.name, pattern.description ?? "", pattern.category, ...pattern.keywords]
+			.join(" ")
+			.toLowerCase();
+		return terms.every((term) => haystack.includes(term));
+	});
+}
+
+// ============================================================================
+// JSON IMPORT / EXPORT
+// ============================================================================
+
+export const PATTERN_EXPORT_VERSION = 1;
+
+/** A block in an export file; only the fields every block needs are checked */
+export const exportedBlockSchema = z.custom<BlockConfig>(
+	(value) =>
+		typeof value === "object" &&
+		value !== null &&
+		typeof (value as BlockConfig).id === "string" &&
+		typeof (value as BlockConfig).name === "string",
+	{ message: "Each block needs a string id and name" },
+);
+
+export const patternExportEntrySchema = z.object({
+	name: z.string().min(1),
+	description: z.string().nullish(),
+	category: z.string().min(1).default(DEFAULT_PATTERN_CATEGORY),
+	keywords: z.array(z.string()).default([]),
+	thumbnail: z.string().nullish(),
+	// Theme patterns are starting points to edit, so files that leave it out get copies
+	synced: z.boolean().default(false),
+	blocks: z.array(exportedBlockSchema),
+});
+
+/** File format of `GET /api/patterns/export`, also what themes ship in their pattern files */
+export const patternExportSchema = z.object({
+	version: z.literal(PATTERN_EXPORT_VERSION),
+	patterns: z.array(patternExportEntrySchema),
+});
+
+export type PatternExportEntry = z.infer<typeof patternExportEntrySchema>;
+export type PatternExport = z.infer<typeof patternExportSchema>;
+
+/**
+ * Builds an export file from stored patterns, leaving out IDs and authors
+ * that mean nothing on another site. Block references inside a pattern keep
+ * their pattern IDs and only resolve where those patterns exist.
+ */
+export function toPatternExport(patterns: Pattern[]): PatternExport {
+	return {
+		version: PATTERN_EXPORT_VERSION,
+		patterns: patterns.map((pattern) => {
+			const { name, description, category, keywords, thumbnail, synced, blocks } = toLibraryPattern(pattern);
+			return { name, description, category, keywords, thumbnail, synced, blocks };
+		}),
+	};
+}
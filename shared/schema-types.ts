@@ -6,14 +6,23 @@ import type {
 	userRoles,
 	pages,
 	templates,
+	patterns,
 	themes,
 	plugins,
 	options,
 	blogs,
 	posts,
+	terms,
+	termRelationships,
+	searchIndex,
 	media,
+	jobs,
+	webhooks,
+	webhookDeliveries,
+	emailOutbox,
 	sessions,
 } from "./schema";
+import type { DeviceBreakpoint } from "./breakpoints";
 
 // User types
 export type User = typeof users.$inferSelect;
@@ -35,7 +44,7 @@ export type NewRole = typeof roles.$inferInsert;
 export type UserRole = typeof userRoles.$inferSelect;
 export type NewUserRole = typeof userRoles.$inferInsert;
 
-// Page version history entry (page-level, not per block)
+// Page and post version history entry (page-level, not per block)
 export interface PageVersionEntry {
 	version: number;
 	updatedAt: string; // ISO timestamp
@@ -55,10 +64,33 @@ export type NewPage = typeof pages.$inferInsert & {
 };
 export type PageDraft = Page & { localVersion?: number };
 
+/**
+ * Body of the 409 returned when a page or post is saved from a stale version:
+ * the record as it is now, and the revision the client started from when it
+ * is still in the history.
+ */
+export interface VersionConflict<T = Page | Post> {
+	message: string;
+	current: T;
+	base: PageVersionEntry | null;
+}
+
 // Template types
 export type Template = typeof templates.$inferSelect;
 export type NewTemplate = typeof templates.$inferInsert;
 
+// Pattern types
+export type Pattern = typeof patterns.$inferSelect;
+export type NewPattern = typeof patterns.$inferInsert;
+
+/** Content that embeds a synced pattern through a block reference */
+export interface PatternUsage {
+	type: "page" | "post" | "template" | "pattern";
+	id: string;
+	title: string;
+	slug: string | null;
+}
+
 // Theme types
 export type Theme = typeof themes.$inferSelect;
 export type NewTheme = typeof themes.$inferInsert;
@@ -79,10 +111,41 @@ export type NewBlog = typeof blogs.$inferInsert;
 export type Post = typeof posts.$inferSelect;
 export type NewPost = typeof posts.$inferInsert;
 
+// Term types (categories and tags)
+export type Term = typeof terms.$inferSelect;
+export type NewTerm = typeof terms.$inferInsert;
+export type TermTaxonomy = "category" | "tag";
+
+// Term relationship types
+export type TermRelationship = typeof termRelationships.$inferSelect;
+export type NewTermRelationship = typeof termRelationships.$inferInsert;
+
+// Search index types
+export type SearchDocument = typeof searchIndex.$inferSelect;
+export type NewSearchDocument = typeof searchIndex.$inferInsert;
+export type SearchObjectType = "post" | "page" | "media";
+
 // Media types
 export type Media = typeof media.$inferSelect;
 export type NewMedia = typeof media.$inferInsert;
 
+// Scheduled job types
+export type Job = typeof jobs.$inferSelect;
+export type NewJob = typeof jobs.$inferInsert;
+export type JobStatus = "pending" | "running" | "completed" | "failed";
+
+// Webhook types
+export type Webhook = typeof webhooks.$inferSelect;
+export type NewWebhook = typeof webhooks.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+export type WebhookDeliveryStatus = "pending" | "retrying" | "delivered" | "failed";
+
+// Email outbox types
+export type OutboxEmail = typeof emailOutbox.$inferSelect;
+export type NewOutboxEmail = typeof emailOutbox.$inferInsert;
+export type OutboxEmailStatus = "pending" | "retrying" | "sent" | "failed";
+
 // Session types
 export type Session = typeof sessions.$inferSelect;
 export type NewSession = typeof sessions.$inferInsert;
@@ -173,7 +236,7 @@ export interface TokenEntry {
   value: string;            // base token: "blue", "5", "lg" (empty string when custom)
   variant: string | null;   // shade/variant: "500", null
   alias: string;            // Tailwind prefix hint for UI: "bg", "pt", "text"
-  modifier?: string;        // optional state/responsive: "hover", "md", "focus"
+  modifier?: string;        // optional state/responsive/breakpoint: "hover", "md", "focus", "mobile"
   other?: string;           // catch-all for values that don't fit structured fields
   style?: string;           // custom raw value: "23", "#ff5500", "1.5" (set when user picks custom)
   unitCategory?: string;    // category for unit resolution: "spacing", "font", "dimension", "border"
@@ -244,9 +307,11 @@ export interface BlockConfig {
 		html?: string;
 		attributes?: Record<string, any>;
 		metadata?: Record<string, any>;
-		tokenMap?: Record<string, TokenEntry>;
+		// Keyed by property, or `<modifier>:<property>` for modifier entries; null clears an entry
+		tokenMap?: Record<string, TokenEntry | null>;
 		units?: Record<string, string>;
 		animation?: BlockAnimation | null;
+		hideOn?: DeviceBreakpoint[] | null;
 	}
 }
 
@@ -1,5 +1,7 @@
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import {
+	customType,
+	index,
 	pgTable,
 	text,
 	timestamp,
@@ -9,6 +11,7 @@ import {
 	integer,
 	bigint,
 	boolean,
+	unique,
 } from "drizzle-orm/pg-core";
 
 export const sites = pgTable("sites", {
@@ -79,12 +82,13 @@ export const pages = pgTable("pages", {
 	siteId: uuid("site_id")
 		.references(() => sites.id)
 		.notNull(),
-	status: varchar("status").default("draft"), // publish, draft, private, trash
+	status: varchar("status").default("draft"), // publish, future, draft, private, trash
 	authorId: uuid("author_id")
 		.references(() => users.id)
 		.notNull(),
 	featuredImage: varchar("featured_image"),
 	publishedAt: timestamp("published_at"),
+	expiresAt: timestamp("expires_at"), // moved back to draft at this time
 	allowComments: boolean("allow_comments").default(true),
 	password: varchar("password"),
 	parentId: uuid("parent_id"),
@@ -101,7 +105,7 @@ export const pages = pgTable("pages", {
 export const templates = pgTable("templates", {
 	id: uuid("id").primaryKey().defaultRandom(),
 	name: varchar("name").notNull(),
-	type: varchar("type").notNull(), // 'header', 'footer', 'page', 'post', 'popup'
+	type: varchar("type").notNull(), // 'header', 'footer', 'page', 'post', 'archive', 'popup'
 	description: text("description"),
 	authorId: uuid("author_id")
 		.references(() => users.id)
@@ -113,6 +117,27 @@ export const templates = pgTable("templates", {
 	updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Reusable block subtrees. A page embeds a synced pattern through a
+// core/block-reference block, so editing the pattern changes every page using it.
+// Category, keywords and thumbnail drive the builder's pattern library.
+export const patterns = pgTable("patterns", {
+	id: uuid("id").primaryKey().defaultRandom(),
+	name: varchar("name").notNull(),
+	description: text("description"),
+	authorId: uuid("author_id")
+		.references(() => users.id)
+		.notNull(),
+	blocks: jsonb("blocks").notNull().default([]),
+	category: varchar("category").notNull().default("uncategorized"),
+	keywords: jsonb("keywords").notNull().default([]),
+	thumbnail: text("thumbnail"),
+	// Synced patterns are inserted as references; the rest as editable copies
+	synced: boolean("synced").notNull().default(true),
+	other: jsonb("other").default({}),
+	createdAt: timestamp("created_at").defaultNow(),
+	updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const themes = pgTable("themes", {
 	id: uuid("id").primaryKey().defaultRandom(),
 	name: varchar("name").notNull(),
@@ -183,28 +208,92 @@ export const posts = pgTable("posts", {
 	id: uuid("id").primaryKey().defaultRandom(),
 	title: varchar("title").notNull(),
 	slug: varchar("slug").notNull(),
-	status: varchar("status").default("draft"), // publish, draft
+	status: varchar("status").default("draft"), // publish, future, draft
 	authorId: uuid("author_id")
 		.references(() => users.id)
 		.notNull(),
 	featuredImage: varchar("featured_image"),
 	excerpt: text("excerpt"),
 	publishedAt: timestamp("published_at"),
+	expiresAt: timestamp("expires_at"), // moved back to draft at this time
 	allowComments: boolean("allow_comments").default(true),
 	password: varchar("password"),
 	parentId: uuid("parent_id"),
 	templateId: uuid("template_id").references(() => templates.id),
 	blocks: jsonb("blocks").default([]),
+	version: integer("version").notNull().default(0),
+	history: jsonb("history").default([]),
 	settings: jsonb("settings").default({}),
 	createdAt: timestamp("created_at").defaultNow(),
 	updatedAt: timestamp("updated_at").defaultNow(),
 	blogId: uuid("blog_id").references(() => blogs.id),
-	other: jsonb("other").default({
-		categories: [],
-		tags: [],
-	}),
+	other: jsonb("other").default({}),
+});
+
+// Categories (hierarchical) and tags share one table, told apart by taxonomy
+export const terms = pgTable(
+	"terms",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		taxonomy: varchar("taxonomy").notNull(), // category, tag
+		name: varchar("name").notNull(),
+		slug: varchar("slug").notNull(),
+		description: text("description"),
+		parentId: uuid("parent_id"),
+		createdAt: timestamp("created_at").defaultNow(),
+		updatedAt: timestamp("updated_at").defaultNow(),
+		other: jsonb("other").default({}),
+	},
+	(table) => [unique("terms_taxonomy_slug_unique").on(table.taxonomy, table.slug)],
+);
+
+export const termRelationships = pgTable(
+	"term_relationships",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		postId: uuid("post_id")
+			.references(() => posts.id, { onDelete: "cascade" })
+			.notNull(),
+		termId: uuid("term_id")
+			.references(() => terms.id, { onDelete: "cascade" })
+			.notNull(),
+		createdAt: timestamp("created_at").defaultNow(),
+	},
+	(table) => [unique("term_relationships_post_term_unique").on(table.postId, table.termId)],
+);
+
+// Postgres full-text vector; only ever written by the generated column below
+const tsvector = customType<{ data: string }>({
+	dataType() {
+		return "tsvector";
+	},
 });
 
+// One row per searchable post, page or media item. Text is extracted by the
+// application (blocks JSON is walked in server/search.ts); Postgres weights it.
+export const searchIndex = pgTable(
+	"search_index",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		objectType: varchar("object_type").notNull(), // post, page, media
+		objectId: uuid("object_id").notNull(),
+		title: text("title").notNull().default(""),
+		excerpt: text("excerpt"),
+		content: text("content"),
+		url: varchar("url"), // site-relative path, e.g. /post/hello-world
+		status: varchar("status"), // status of the indexed object; null for media
+		publishedAt: timestamp("published_at"),
+		updatedAt: timestamp("updated_at").defaultNow(),
+		searchVector: tsvector("search_vector").generatedAlwaysAs(
+			sql`setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("excerpt", '')), 'B') || setweight(to_tsvector('english', coalesce("content", '')), 'C')`,
+		),
+	},
+	(table) => [
+		unique("search_index_object_unique").on(table.objectType, table.objectId),
+		index("search_index_vector_idx").using("gin", table.searchVector),
+	],
+);
+
 export const comments = pgTable("comments", {
 	id: uuid("id").defaultRandom().primaryKey(),
 	postId: uuid("post_id")
@@ -238,6 +327,87 @@ export const media = pgTable("media", {
 	updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Persistent queue of the in-process job scheduler (server/scheduler.ts).
+// A job with a key replaces any earlier job with the same key when rescheduled.
+export const jobs = pgTable(
+	"jobs",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		type: varchar("type").notNull(), // name of the registered handler
+		key: varchar("key"),
+		payload: jsonb("payload").default({}),
+		runAt: timestamp("run_at").notNull(),
+		status: varchar("status").notNull().default("pending"), // pending, running, completed, failed
+		attempts: integer("attempts").notNull().default(0),
+		lastError: text("last_error"),
+		lockedAt: timestamp("locked_at"),
+		createdAt: timestamp("created_at").defaultNow(),
+		updatedAt: timestamp("updated_at").defaultNow(),
+	},
+	(table) => [
+		unique("jobs_key_unique").on(table.key),
+		index("jobs_status_run_at_idx").on(table.status, table.runAt),
+	],
+);
+
+// Outgoing webhooks (server/webhooks.ts): `events` are HookSystem action names
+export const webhooks = pgTable("webhooks", {
+	id: uuid("id").primaryKey().defaultRandom(),
+	name: varchar("name").notNull(),
+	url: varchar("url").notNull(),
+	events: jsonb("events").notNull().default([]),
+	secret: varchar("secret").notNull(), // HMAC key of the X-NextPress-Signature header
+	active: boolean("active").notNull().default(true),
+	createdAt: timestamp("created_at").defaultNow(),
+	updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One row per event sent to a webhook, updated after every attempt
+export const webhookDeliveries = pgTable(
+	"webhook_deliveries",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		webhookId: uuid("webhook_id")
+			.references(() => webhooks.id, { onDelete: "cascade" })
+			.notNull(),
+		event: varchar("event").notNull(),
+		payload: jsonb("payload").notNull(),
+		status: varchar("status").notNull().default("pending"), // pending, retrying, delivered, failed
+		attempts: integer("attempts").notNull().default(0),
+		responseStatus: integer("response_status"),
+		responseBody: text("response_body"),
+		error: text("error"),
+		durationMs: integer("duration_ms"),
+		nextAttemptAt: timestamp("next_attempt_at"),
+		deliveredAt: timestamp("delivered_at"),
+		createdAt: timestamp("created_at").defaultNow(),
+		updatedAt: timestamp("updated_at").defaultNow(),
+	},
+	(table) => [index("webhook_deliveries_webhook_created_idx").on(table.webhookId, table.createdAt)],
+);
+
+// Transactional email outbox (server/email/): one row per message, updated after every attempt
+export const emailOutbox = pgTable(
+	"email_outbox",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		template: varchar("template").notNull(), // name of the template it was rendered from
+		to: varchar("to").notNull(),
+		subject: varchar("subject").notNull(),
+		text: text("text").notNull(),
+		html: text("html"),
+		status: varchar("status").notNull().default("pending"), // pending, retrying, sent, failed
+		attempts: integer("attempts").notNull().default(0),
+		error: text("error"),
+		messageId: varchar("message_id"), // assigned by the transport
+		nextAttemptAt: timestamp("next_attempt_at"),
+		sentAt: timestamp("sent_at"),
+		createdAt: timestamp("created_at").defaultNow(),
+		updatedAt: timestamp("updated_at").defaultNow(),
+	},
+	(table) => [index("email_outbox_status_created_idx").on(table.status, table.createdAt)],
+);
+
 // Todo: add relations and set them with drizzle relations
 export const usersRelations = relations(users, ({ many }) => ({
 	posts: many(posts),
@@ -248,12 +418,28 @@ export const usersRelations = relations(users, ({ many }) => ({
 export const postsRelations = relations(posts, ({ one, many }) => ({
 	author: one(users, { fields: [posts.authorId], references: [users.id] }),
 	comments: many(comments),
+	terms: many(termRelationships),
 	template: one(templates, {
 		fields: [posts.templateId],
 		references: [templates.id],
 	}),
 }));
 
+export const termsRelations = relations(terms, ({ one, many }) => ({
+	parent: one(terms, {
+		fields: [terms.parentId],
+		references: [terms.id],
+		relationName: "parentTerm",
+	}),
+	children: many(terms, { relationName: "parentTerm" }),
+	posts: many(termRelationships),
+}));
+
+export const termRelationshipsRelations = relations(termRelationships, ({ one }) => ({
+	post: one(posts, { fields: [termRelationships.postId], references: [posts.id] }),
+	term: one(terms, { fields: [termRelationships.termId], references: [terms.id] }),
+}));
+
 export const commentsRelations = relations(comments, ({ one, many }) => ({
 	post: one(posts, { fields: [comments.postId], references: [posts.id] }),
 	author: one(users, { fields: [comments.authorId], references: [users.id] }),
@@ -0,0 +1,65 @@
+import { z } from "zod";
+
+/**
+ * Outgoing webhooks: the events a webhook can subscribe to and the shape of
+ * a webhook as the admin edits it. Events are HookSystem action names;
+ * server/webhooks.ts POSTs a signed JSON payload to every webhook subscribed
+ * to an action when it fires.
+ *
+ * Every delivery carries these headers:
+ * - `X-NextPress-Event`: the event name
+ * - `X-NextPress-Delivery`: the delivery ID (the same across retries)
+ * - `X-NextPress-Timestamp`: Unix time of the attempt, in seconds
+ * - `X-NextPress-Signature`: `sha256=` and the hex HMAC-SHA256 of
+ *   `<timestamp>.<body>`, keyed with the webhook's secret
+ */
+
+export const WEBHOOK_EVENT_NAMES = [
+	"publish_post",
+	"save_post",
+	"delete_post",
+	"expire_post",
+	"new_comment",
+	"approve_comment",
+	"spam_comment",
+	"delete_comment",
+	"delete_attachment",
+	"switch_theme",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENT_NAMES)[number];
+
+export const WEBHOOK_EVENT_DESCRIPTIONS: Record<WebhookEvent, string> = {
+	publish_post: "A post or page is published",
+	save_post: "A post or page is saved",
+	delete_post: "A post or page is deleted",
+	expire_post: "A post or page expires back to draft",
+	new_comment: "A comment is submitted",
+	approve_comment: "A comment is approved",
+	spam_comment: "A comment is marked as spam",
+	delete_comment: "A comment is deleted",
+	delete_attachment: "A media file is deleted",
+	switch_theme: "The active theme changes",
+};
+
+export const WEBHOOK_HEADERS = {
+	event: "X-NextPress-Event",
+	delivery: "X-NextPress-Delivery",
+	timestamp: "X-NextPress-Timestamp",
+	signature: "X-NextPress-Signature",
+} as const;
+
+export const webhookInputSchema = z.object({
+	name: z.string().trim().min(1, "Name is required").max(200),
+	url: z
+		.string()
+		.trim()
+		.url("Must be a URL")
+		.refine((url) => /^https?:\/\//i.test(url), "Must be an http or https URL"),
+	events: z.array(z.enum(WEBHOOK_EVENT_NAMES)).min(1, "Select at least one event"),
+	// Generated when left out
+	secret: z.string().trim().min(16, "Use at least 16 characters").max(200).optional(),
+	active: z.boolean().default(true),
+});
+
+export type WebhookInput = z.infer<typeof webhookInputSchema>;